@@ -0,0 +1,41 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Api.Auth;
+
+/// <summary>
+/// Part of <see cref="Policies.Admin"/>: while the system config requires admin 2FA,
+/// admins who have not enabled it are refused on every admin endpoint. The session
+/// endpoint uses <see cref="Policies.AdminSession"/> instead so the panel can still
+/// tell them why; enrolling goes through the regular /auth/2fa endpoints.
+/// </summary>
+public sealed class AdminTwoFactorRequirement : IAuthorizationRequirement { }
+
+public sealed class AdminTwoFactorHandler(
+    HubDbContext dbContext,
+    ISystemConfigService systemConfigService)
+    : AuthorizationHandler<AdminTwoFactorRequirement>
+{
+    protected override async Task HandleRequirementAsync(
+        AuthorizationHandlerContext context, AdminTwoFactorRequirement requirement)
+    {
+        var config = await systemConfigService.GetAsync();
+        if (!config.RequireAdminTwoFactor)
+        {
+            context.Succeed(requirement);
+            return;
+        }
+
+        var sub = context.User.FindFirst("sub")?.Value;
+        if (!long.TryParse(sub, out var userId))
+            return;
+
+        var hasTwoFactor = await dbContext.HubUsers
+            .AnyAsync(u => u.Id == userId && u.DeletedAt == null && u.TwoFactorEnabled);
+
+        if (hasTwoFactor)
+            context.Succeed(requirement);
+    }
+}
@@ -136,6 +136,9 @@ app.MapHandlerEndpoints(typeof(FeaturesAssemblyMarker).Assembly);
 // Stripe webhook endpoint (non-standard handler - registered manually)
 XcordHub.Features.Billing.StripeWebhookHandler.Map(app);
 
+// Instance log stream (Server-Sent Events - registered manually)
+XcordHub.Features.Admin.AdminStreamInstanceLogsHandler.Map(app);
+
 // Dev-only test seed endpoint for E2E tests
 if (app.Environment.IsDevelopment())
 {
@@ -3,6 +3,7 @@ using System.Threading.RateLimiting;
 using BCrypt.Net;
 using Microsoft.Extensions.Options;
 using Microsoft.AspNetCore.Authentication;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.RateLimiting;
 using Microsoft.AspNetCore.Authentication.JwtBearer;
 using Microsoft.EntityFrameworkCore;
@@ -22,6 +23,8 @@ using XcordHub.Features.Provisioning;
 using XcordHub.Features.Backups;
 using XcordHub.Features.Upgrades;
 using XcordHub.Features.Billing;
+using XcordHub.Features.Admin;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 using XcordHub.Infrastructure.Options;
 using XcordHub.Infrastructure.Services;
@@ -87,6 +90,9 @@ public static class ServiceCollectionExtensions
         // Provisioning
         AddProvisioning(services, config);
 
+        // Instance log streaming (manually mapped endpoint)
+        services.AddScoped<AdminStreamInstanceLogsHandler>();
+
         // Upgrades
         services.AddSingleton<IUpgradeQueue, UpgradeQueue>();
         services.AddScoped<UpgradeOrchestrator>();
@@ -99,9 +105,13 @@ public static class ServiceCollectionExtensions
         services.AddHostedService<MinimumVersionEnforcerService>();
         services.AddHostedService<ScheduledRolloutService>();
         services.AddScoped<BackupExecutor>();
+        services.AddScoped<BackupVerifier>();
         services.AddHostedService<BackupBackgroundService>();
+        services.AddHostedService<RestoreBackgroundService>();
+        services.AddHostedService<BackupVerificationBackgroundService>();
         services.AddHostedService<UptimeTrackingService>();
         services.AddHostedService<ReportUsageToStripeService>();
+        services.AddHostedService<KeyReEncryptionService>();
 
         // Metrics
         services.AddSingleton<GatewayMetrics>();
@@ -134,6 +144,9 @@ public static class ServiceCollectionExtensions
         // System config service (admin-toggleable runtime settings)
         services.AddScoped<ISystemConfigService, SystemConfigService>();
 
+        // Audit log of admin actions
+        services.AddScoped<IAuditLog, AuditLog>();
+
         // Request handlers
         services.AddRequestHandlers(typeof(FeaturesAssemblyMarker).Assembly);
         services.AddScoped<RefreshTokenHandler>();
@@ -265,6 +278,7 @@ public static class ServiceCollectionExtensions
         services.AddSingleton<IEncryptionService>(sp =>
             new AesEncryptionService(sp.GetRequiredService<EncryptionKeyHolder>()));
         services.AddScoped<IKeyRotationService, KeyRotationService>();
+        services.AddScoped<IReEncryptionService, ReEncryptionService>();
         services.AddSingleton<ICursorService, CursorService>();
     }
 
@@ -533,14 +547,14 @@ public static class ServiceCollectionExtensions
                     var allOrigins = corsOrigins.Concat(MobileOrigins).ToArray();
                     policy.WithOrigins(allOrigins)
                         .WithMethods("GET", "POST", "PUT", "DELETE", "PATCH")
-                        .WithHeaders("Authorization", "Content-Type", "X-Requested-With", "Accept", "Origin", "X-Xcord-Request")
+                        .WithHeaders("Authorization", "Content-Type", "X-Requested-With", "Accept", "Origin", "X-Xcord-Request", AuditLog.ReasonHeader)
                         .AllowCredentials();
                 }
                 else
                 {
                     policy.AllowAnyOrigin()
                         .WithMethods("GET", "POST", "PUT", "DELETE", "PATCH")
-                        .WithHeaders("Authorization", "Content-Type", "X-Requested-With", "Accept", "Origin", "X-Xcord-Request");
+                        .WithHeaders("Authorization", "Content-Type", "X-Requested-With", "Accept", "Origin", "X-Xcord-Request", AuditLog.ReasonHeader);
                 }
             });
         });
@@ -575,12 +589,19 @@ public static class ServiceCollectionExtensions
             .AddScheme<AuthenticationSchemeOptions, FederationAuthenticationHandler>(
                 FederationAuthenticationHandler.SchemeName, null);
 
+        services.AddScoped<IAuthorizationHandler, AdminTwoFactorHandler>();
+
         services.AddAuthorization(options =>
         {
             options.AddPolicy(Policies.User, policy => policy
                 .RequireAuthenticatedUser());
 
             options.AddPolicy(Policies.Admin, policy => policy
+                .RequireAuthenticatedUser()
+                .RequireClaim("admin", "true")
+                .AddRequirements(new AdminTwoFactorRequirement()));
+
+            options.AddPolicy(Policies.AdminSession, policy => policy
                 .RequireAuthenticatedUser()
                 .RequireClaim("admin", "true"));
 
@@ -0,0 +1,65 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Entities;
+using XcordHub.Features.Instances;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Admin;
+
+public sealed record AdminGetInstanceConfigQuery(long Id);
+
+public sealed record AdminInstanceConfigResponse(
+    string Tier,
+    bool MediaEnabled,
+    List<ResourceLimitField> ResourceLimits,
+    List<FeatureFlagField> FeatureFlags
+);
+
+public sealed class AdminGetInstanceConfigHandler(HubDbContext dbContext)
+    : IRequestHandler<AdminGetInstanceConfigQuery, Result<AdminInstanceConfigResponse>>
+{
+    public async Task<Result<AdminInstanceConfigResponse>> Handle(AdminGetInstanceConfigQuery request, CancellationToken cancellationToken)
+    {
+        var instance = await dbContext.ManagedInstances
+            .Include(i => i.Config)
+            .Include(i => i.Billing)
+            .FirstOrDefaultAsync(i => i.Id == request.Id, cancellationToken);
+
+        if (instance is null)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        if (instance.Config is null)
+            return Error.NotFound("INSTANCE_CONFIG_NOT_FOUND", "Instance configuration not found");
+
+        var tier = instance.Billing?.Tier ?? InstanceTier.Free;
+        var mediaEnabled = instance.Billing?.MediaEnabled ?? false;
+
+        return new AdminInstanceConfigResponse(
+            tier.ToString(),
+            mediaEnabled,
+            InstanceConfigSchema.DescribeResourceLimits(
+                InstanceConfigSchema.ReadResourceLimits(instance.Config, tier),
+                TierDefaults.GetResourceLimits(tier)),
+            InstanceConfigSchema.DescribeFeatureFlags(
+                InstanceConfigSchema.ReadFeatureFlags(instance.Config, tier, mediaEnabled),
+                TierDefaults.GetFeatureFlags(tier, mediaEnabled)));
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/instances/{id:long}/config", async (
+            long id,
+            AdminGetInstanceConfigHandler handler,
+            CancellationToken ct) =>
+        {
+            var query = new AdminGetInstanceConfigQuery(id);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<AdminInstanceConfigResponse>(200)
+        .WithName("AdminGetInstanceConfig")
+        .WithTags("Admin");
+    }
+}
@@ -0,0 +1,82 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Admin;
+
+public sealed record AdminGetInstanceLogsQuery(long Id, int Tail, DateTimeOffset? Since, DateTimeOffset? Until);
+
+public sealed record InstanceLogLine(
+    DateTimeOffset Timestamp,
+    string Stream,
+    string? Level,
+    string Message
+)
+{
+    public static InstanceLogLine From(ContainerLogLine line) =>
+        new(line.Timestamp, line.Stream, LogLevelDetector.Detect(line.Message), line.Message);
+}
+
+public sealed record AdminGetInstanceLogsResponse(List<InstanceLogLine> Logs);
+
+public sealed class AdminGetInstanceLogsHandler(HubDbContext dbContext, IDockerService dockerService)
+    : IRequestHandler<AdminGetInstanceLogsQuery, Result<AdminGetInstanceLogsResponse>>,
+      IValidatable<AdminGetInstanceLogsQuery>
+{
+    // Docker cannot stop a service log read at Until, so everything from Since onwards is read
+    public static readonly TimeSpan MaxRange = TimeSpan.FromHours(24);
+
+    public Error? Validate(AdminGetInstanceLogsQuery request)
+    {
+        if (!request.Until.HasValue)
+            return null;
+
+        if (!request.Since.HasValue)
+            return Error.Validation("INVALID_RANGE", "Until requires Since");
+
+        if (request.Since >= request.Until)
+            return Error.Validation("INVALID_RANGE", "Since must be before Until");
+
+        if (request.Until - request.Since > MaxRange)
+            return Error.Validation("INVALID_RANGE", $"The range must not exceed {MaxRange.TotalHours:0} hours");
+
+        return null;
+    }
+
+    public async Task<Result<AdminGetInstanceLogsResponse>> Handle(AdminGetInstanceLogsQuery request, CancellationToken cancellationToken)
+    {
+        var infrastructure = await dbContext.InstanceInfrastructures
+            .FirstOrDefaultAsync(i => i.ManagedInstanceId == request.Id, cancellationToken);
+
+        if (infrastructure is null || string.IsNullOrEmpty(infrastructure.DockerContainerId))
+            return Error.NotFound("INFRASTRUCTURE_NOT_FOUND", "Instance has no running service");
+
+        var tail = Math.Clamp(request.Tail, 1, 1000);
+        var lines = await dockerService.GetServiceLogsAsync(
+            infrastructure.DockerContainerId, tail, request.Since, request.Until, cancellationToken);
+
+        return new AdminGetInstanceLogsResponse(lines.Select(InstanceLogLine.From).ToList());
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/instances/{id:long}/logs", async (
+            long id,
+            int? tail,
+            DateTimeOffset? since,
+            DateTimeOffset? until,
+            AdminGetInstanceLogsHandler handler,
+            CancellationToken ct) =>
+        {
+            var query = new AdminGetInstanceLogsQuery(id, tail ?? 100, since, until);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<AdminGetInstanceLogsResponse>(200)
+        .WithName("AdminGetInstanceLogs")
+        .WithTags("Admin");
+    }
+}
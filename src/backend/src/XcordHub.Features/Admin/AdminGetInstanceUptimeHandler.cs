@@ -0,0 +1,28 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using XcordHub.Features.Monitoring;
+
+namespace XcordHub.Features.Admin;
+
+// Admin counterpart of the owner-scoped uptime history endpoint.
+public sealed class AdminGetInstanceUptimeHandler : IEndpoint
+{
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/instances/{id:long}/uptime", async (
+            long id,
+            ClaimsPrincipal user,
+            GetInstanceUptimeHandler handler,
+            CancellationToken ct) =>
+        {
+            var query = new GetInstanceUptimeQuery(id, AdminSuspendInstanceHandler.GetUserId(user), AsAdmin: true);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<GetInstanceUptimeResponse>(200)
+        .WithName("AdminGetInstanceUptime")
+        .WithTags("Admin");
+    }
+}
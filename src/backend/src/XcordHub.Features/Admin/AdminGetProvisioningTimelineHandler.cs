@@ -0,0 +1,28 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using XcordHub.Features.Provisioning;
+
+namespace XcordHub.Features.Admin;
+
+// Admin counterpart of the owner-scoped provisioning timeline endpoint.
+public sealed class AdminGetProvisioningTimelineHandler : IEndpoint
+{
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/instances/{id:long}/provisioning", async (
+            long id,
+            ClaimsPrincipal user,
+            GetProvisioningTimelineHandler handler,
+            CancellationToken ct) =>
+        {
+            var query = new GetProvisioningTimelineQuery(id, AdminSuspendInstanceHandler.GetUserId(user), AsAdmin: true);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<ProvisioningTimelineResponse>(200)
+        .WithName("AdminGetProvisioningTimeline")
+        .WithTags("Admin");
+    }
+}
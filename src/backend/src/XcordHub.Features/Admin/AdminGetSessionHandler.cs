@@ -0,0 +1,60 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Features.Auth;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Admin;
+
+public sealed record AdminGetSessionQuery();
+
+/// <summary>
+/// What the admin panel needs to know about the signed-in admin before it loads.
+/// </summary>
+public sealed record AdminSessionResponse(
+    bool TwoFactorEnabled,
+    bool TwoFactorRequired
+);
+
+public sealed class AdminGetSessionHandler(
+    HubDbContext dbContext,
+    ICurrentUserService currentUserService,
+    ISystemConfigService systemConfigService)
+    : IRequestHandler<AdminGetSessionQuery, Result<AdminSessionResponse>>
+{
+    public async Task<Result<AdminSessionResponse>> Handle(AdminGetSessionQuery request, CancellationToken cancellationToken)
+    {
+        var userIdResult = currentUserService.GetCurrentUserId();
+        if (userIdResult.IsFailure) return userIdResult.Error!;
+        var userId = userIdResult.Value;
+
+        var user = await dbContext.HubUsers
+            .FirstOrDefaultAsync(u => u.Id == userId && u.DeletedAt == null, cancellationToken);
+
+        if (user == null)
+            return Error.NotFound("USER_NOT_FOUND", "User not found");
+
+        var config = await systemConfigService.GetAsync(cancellationToken);
+
+        return new AdminSessionResponse(
+            TwoFactorEnabled: user.TwoFactorEnabled,
+            TwoFactorRequired: user.IsAdmin && config.RequireAdminTwoFactor
+        );
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/session", async (
+            AdminGetSessionHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new AdminGetSessionQuery(), ct);
+        })
+        .RequireAuthorization(Policies.AdminSession)
+        .Produces<AdminSessionResponse>(200)
+        .WithName("AdminGetSession")
+        .WithTags("Admin");
+    }
+}
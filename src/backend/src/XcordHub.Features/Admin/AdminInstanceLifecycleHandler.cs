@@ -0,0 +1,168 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Features.Instances;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Admin;
+
+// Admin counterparts of the owner-scoped hub lifecycle endpoints. They reuse the
+// Instances handlers with AsAdmin set so the ownership check is skipped, and
+// record each successful status change in the audit log.
+
+public sealed class AdminSuspendInstanceHandler : IEndpoint
+{
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/suspend", async (
+            long id,
+            ClaimsPrincipal user,
+            SuspendInstanceHandler handler,
+            HubDbContext dbContext,
+            IAuditLog auditLog,
+            CancellationToken ct) =>
+        {
+            var command = new SuspendInstanceCommand(id, GetUserId(user), AsAdmin: true);
+            return await ExecuteAuditedAsync(
+                id, AuditActions.InstanceSuspend, InstanceStatus.Suspended,
+                () => handler.Handle(command, ct), dbContext, auditLog, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<SuccessResponse>(200)
+        .WithName("AdminSuspendInstance")
+        .WithTags("Admin");
+    }
+
+    internal static long GetUserId(ClaimsPrincipal user) =>
+        long.TryParse(user.FindFirst(ClaimTypes.NameIdentifier)?.Value, out var userId) ? userId : 0;
+
+    internal static async Task<IResult> ExecuteAuditedAsync(
+        long instanceId,
+        string action,
+        InstanceStatus statusAfter,
+        Func<Task<Result<bool>>> execute,
+        HubDbContext dbContext,
+        IAuditLog auditLog,
+        CancellationToken ct)
+    {
+        var statusBefore = await dbContext.ManagedInstances
+            .AsNoTracking()
+            .Where(i => i.Id == instanceId)
+            .Select(i => (InstanceStatus?)i.Status)
+            .FirstOrDefaultAsync(ct);
+
+        var result = await execute();
+        if (result.IsSuccess)
+        {
+            await auditLog.RecordAsync(action, AuditTargets.Instance, instanceId.ToString(),
+                new { Status = statusBefore?.ToString() },
+                new { Status = statusAfter.ToString() },
+                ct);
+        }
+
+        return ToResult(result);
+    }
+
+    internal static IResult ToResult(Result<bool> result) =>
+        result.Match(
+            success => Results.Ok(new SuccessResponse(true)),
+            error => Results.Problem(
+                statusCode: error.StatusCode,
+                title: error.Code,
+                detail: error.Message));
+}
+
+public sealed class AdminResumeInstanceHandler : IEndpoint
+{
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/resume", async (
+            long id,
+            ClaimsPrincipal user,
+            ResumeInstanceHandler handler,
+            HubDbContext dbContext,
+            IAuditLog auditLog,
+            CancellationToken ct) =>
+        {
+            var command = new ResumeInstanceCommand(id, AdminSuspendInstanceHandler.GetUserId(user), AsAdmin: true);
+            return await AdminSuspendInstanceHandler.ExecuteAuditedAsync(
+                id, AuditActions.InstanceResume, InstanceStatus.Running,
+                () => handler.Handle(command, ct), dbContext, auditLog, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<SuccessResponse>(200)
+        .WithName("AdminResumeInstance")
+        .WithTags("Admin");
+    }
+}
+
+public sealed class AdminDestroyInstanceHandler : IEndpoint
+{
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapDelete("/api/v1/admin/instances/{id:long}", async (
+            long id,
+            ClaimsPrincipal user,
+            DestroyInstanceHandler handler,
+            HubDbContext dbContext,
+            IAuditLog auditLog,
+            CancellationToken ct) =>
+        {
+            var command = new DestroyInstanceCommand(id, AdminSuspendInstanceHandler.GetUserId(user), AsAdmin: true);
+            return await AdminSuspendInstanceHandler.ExecuteAuditedAsync(
+                id, AuditActions.InstanceDestroy, InstanceStatus.Destroyed,
+                () => handler.Handle(command, ct), dbContext, auditLog, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<SuccessResponse>(200)
+        .WithName("AdminDestroyInstance")
+        .WithTags("Admin");
+    }
+}
+
+public sealed class AdminUpgradeInstanceHandler : IEndpoint
+{
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/upgrade", async (
+            long id,
+            UpgradeInstanceRequest request,
+            ClaimsPrincipal user,
+            UpgradeInstanceHandler handler,
+            HubDbContext dbContext,
+            IAuditLog auditLog,
+            CancellationToken ct) =>
+        {
+            var imageBefore = await dbContext.InstanceInfrastructures
+                .AsNoTracking()
+                .Where(i => i.ManagedInstanceId == id)
+                .Select(i => i.DeployedImage)
+                .FirstOrDefaultAsync(ct);
+
+            var command = new UpgradeInstanceCommand(id, AdminSuspendInstanceHandler.GetUserId(user), request.TargetImage, AsAdmin: true);
+            var result = await handler.Handle(command, ct);
+            if (result.IsSuccess)
+            {
+                await auditLog.RecordAsync(AuditActions.InstanceUpgrade, AuditTargets.Instance, id.ToString(),
+                    new { Image = imageBefore },
+                    new { Image = request.TargetImage },
+                    ct);
+            }
+
+            return result.Match(
+                success => Results.Accepted(null, success),
+                error => Results.Problem(
+                    statusCode: error.StatusCode,
+                    title: error.Code,
+                    detail: error.Message));
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<UpgradeInstanceResponse>(202)
+        .WithName("AdminUpgradeInstance")
+        .WithTags("Admin");
+    }
+}
@@ -11,7 +11,16 @@ namespace XcordHub.Features.Admin;
 public sealed record AdminListInstancesQuery(
     int Page = 1,
     int PageSize = 25,
-    string? Status = null
+    string? Status = null,
+    string? Search = null,
+    string? Tier = null,
+    bool? MediaEnabled = null,
+    string? Version = null,
+    string? Health = null,
+    DateTimeOffset? CreatedFrom = null,
+    DateTimeOffset? CreatedTo = null,
+    string? SortBy = null,
+    string? SortDir = null
 );
 
 public sealed record AdminListInstancesResponse(
@@ -29,23 +38,41 @@ public sealed record AdminInstanceListItem(
     string Tier,
     bool MediaEnabled,
     DateTimeOffset CreatedAt,
-    string OwnerUsername
+    string OwnerUsername,
+    string? DeployedImage,
+    string Health
 );
 
 public sealed class AdminListInstancesHandler(HubDbContext dbContext)
-    : IRequestHandler<AdminListInstancesQuery, Result<AdminListInstancesResponse>>
+    : IRequestHandler<AdminListInstancesQuery, Result<AdminListInstancesResponse>>,
+      IValidatable<AdminListInstancesQuery>
 {
-    public async Task<Result<AdminListInstancesResponse>> Handle(AdminListInstancesQuery request, CancellationToken cancellationToken)
+    private static readonly string[] SortFields = ["subdomain", "displayName", "owner", "status", "tier", "image", "createdAt"];
+    private static readonly string[] HealthStates = ["healthy", "unhealthy", "unknown"];
+
+    public Error? Validate(AdminListInstancesQuery request)
     {
-        var query = dbContext.ManagedInstances
-            .Include(i => i.Owner)
-            .Include(i => i.Billing)
-            .AsQueryable();
+        if (!string.IsNullOrWhiteSpace(request.Tier) && !Enum.TryParse<InstanceTier>(request.Tier, true, out _))
+            return Error.Validation("INVALID_TIER", $"Tier must be one of: {string.Join(", ", Enum.GetNames<InstanceTier>())}");
 
-        if (!string.IsNullOrWhiteSpace(request.Status) && Enum.TryParse<InstanceStatus>(request.Status, true, out var status))
-        {
-            query = query.Where(i => i.Status == status);
-        }
+        if (!string.IsNullOrWhiteSpace(request.Health) && !HealthStates.Contains(request.Health, StringComparer.OrdinalIgnoreCase))
+            return Error.Validation("INVALID_HEALTH", $"Health must be one of: {string.Join(", ", HealthStates)}");
+
+        if (!string.IsNullOrWhiteSpace(request.SortBy) && !SortFields.Contains(request.SortBy, StringComparer.OrdinalIgnoreCase))
+            return Error.Validation("INVALID_SORT", $"SortBy must be one of: {string.Join(", ", SortFields)}");
+
+        if (!string.IsNullOrWhiteSpace(request.SortDir) && request.SortDir is not ("asc" or "desc"))
+            return Error.Validation("INVALID_SORT", "SortDir must be asc or desc");
+
+        if (request.CreatedFrom.HasValue && request.CreatedTo.HasValue && request.CreatedFrom >= request.CreatedTo)
+            return Error.Validation("INVALID_RANGE", "CreatedFrom must be before CreatedTo");
+
+        return null;
+    }
+
+    public async Task<Result<AdminListInstancesResponse>> Handle(AdminListInstancesQuery request, CancellationToken cancellationToken)
+    {
+        var query = ApplyFilters(dbContext.ManagedInstances.AsQueryable(), request);
 
         var total = await query.CountAsync(cancellationToken);
 
@@ -53,8 +80,7 @@ public sealed class AdminListInstancesHandler(HubDbContext dbContext)
         var pageSize = Math.Clamp(request.PageSize, 1, 100);
         var skip = (page - 1) * pageSize;
 
-        var rawInstances = await query
-            .OrderByDescending(i => i.CreatedAt)
+        var rawInstances = await ApplySort(query, request.SortBy, request.SortDir == "asc")
             .Skip(skip)
             .Take(pageSize)
             .Select(i => new
@@ -66,7 +92,9 @@ public sealed class AdminListInstancesHandler(HubDbContext dbContext)
                 Tier = i.Billing != null ? i.Billing.Tier : (InstanceTier?)null,
                 MediaEnabled = i.Billing != null ? i.Billing.MediaEnabled : (bool?)null,
                 i.CreatedAt,
-                OwnerUsername = i.Owner.Username
+                OwnerUsername = i.Owner.Username,
+                DeployedImage = i.Infrastructure != null ? i.Infrastructure.DeployedImage : null,
+                IsHealthy = i.Health != null ? i.Health.IsHealthy : (bool?)null
             })
             .ToListAsync(cancellationToken);
 
@@ -78,24 +106,128 @@ public sealed class AdminListInstancesHandler(HubDbContext dbContext)
             i.Tier?.ToString() ?? "Free",
             i.MediaEnabled ?? false,
             i.CreatedAt,
-            i.OwnerUsername
+            i.OwnerUsername,
+            i.DeployedImage,
+            i.IsHealthy switch { true => "healthy", false => "unhealthy", null => "unknown" }
         )).ToList();
 
         return new AdminListInstancesResponse(instances, total, page, pageSize);
     }
 
+    private static IQueryable<ManagedInstance> ApplyFilters(IQueryable<ManagedInstance> query, AdminListInstancesQuery request)
+    {
+        if (!string.IsNullOrWhiteSpace(request.Status) && Enum.TryParse<InstanceStatus>(request.Status, true, out var status))
+        {
+            query = query.Where(i => i.Status == status);
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.Search))
+        {
+            var searchLower = request.Search.Trim().ToLower();
+            query = query.Where(i =>
+                i.Domain.ToLower().Contains(searchLower) ||
+                i.DisplayName.ToLower().Contains(searchLower) ||
+                i.Owner.Username.ToLower().Contains(searchLower) ||
+                i.Owner.DisplayName.ToLower().Contains(searchLower));
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.Tier) && Enum.TryParse<InstanceTier>(request.Tier, true, out var tier))
+        {
+            // Instances without a billing row are listed as Free
+            query = tier == InstanceTier.Free
+                ? query.Where(i => i.Billing == null || i.Billing.Tier == InstanceTier.Free)
+                : query.Where(i => i.Billing != null && i.Billing.Tier == tier);
+        }
+
+        if (request.MediaEnabled.HasValue)
+        {
+            var mediaEnabled = request.MediaEnabled.Value;
+            query = query.Where(i => (i.Billing != null && i.Billing.MediaEnabled) == mediaEnabled);
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.Version))
+        {
+            // Matches either the image tag ("registry/xcord-fed:1.4.2") or the
+            // version the instance reports in its health check
+            var version = request.Version.Trim();
+            query = query.Where(i =>
+                (i.Infrastructure != null && i.Infrastructure.DeployedImage != null && i.Infrastructure.DeployedImage.Contains(version)) ||
+                (i.Health != null && i.Health.Version != null && i.Health.Version.StartsWith(version)));
+        }
+
+        switch (request.Health?.ToLowerInvariant())
+        {
+            case "healthy":
+                query = query.Where(i => i.Health != null && i.Health.IsHealthy);
+                break;
+            case "unhealthy":
+                query = query.Where(i => i.Health != null && !i.Health.IsHealthy);
+                break;
+            case "unknown":
+                query = query.Where(i => i.Health == null);
+                break;
+        }
+
+        if (request.CreatedFrom.HasValue)
+        {
+            var from = request.CreatedFrom.Value.ToUniversalTime();
+            query = query.Where(i => i.CreatedAt >= from);
+        }
+
+        if (request.CreatedTo.HasValue)
+        {
+            var to = request.CreatedTo.Value.ToUniversalTime();
+            query = query.Where(i => i.CreatedAt < to);
+        }
+
+        return query;
+    }
+
+    private static IQueryable<ManagedInstance> ApplySort(IQueryable<ManagedInstance> query, string? sortBy, bool ascending)
+    {
+        IOrderedQueryable<ManagedInstance> ordered = sortBy?.ToLowerInvariant() switch
+        {
+            "subdomain" => ascending ? query.OrderBy(i => i.Domain) : query.OrderByDescending(i => i.Domain),
+            "displayname" => ascending ? query.OrderBy(i => i.DisplayName) : query.OrderByDescending(i => i.DisplayName),
+            "owner" => ascending ? query.OrderBy(i => i.Owner.Username) : query.OrderByDescending(i => i.Owner.Username),
+            "status" => ascending ? query.OrderBy(i => i.Status) : query.OrderByDescending(i => i.Status),
+            "tier" => ascending
+                ? query.OrderBy(i => i.Billing != null ? i.Billing.Tier : InstanceTier.Free)
+                : query.OrderByDescending(i => i.Billing != null ? i.Billing.Tier : InstanceTier.Free),
+            "image" => ascending
+                ? query.OrderBy(i => i.Infrastructure != null ? i.Infrastructure.DeployedImage : null)
+                : query.OrderByDescending(i => i.Infrastructure != null ? i.Infrastructure.DeployedImage : null),
+            "createdat" => ascending ? query.OrderBy(i => i.CreatedAt) : query.OrderByDescending(i => i.CreatedAt),
+            _ => query.OrderByDescending(i => i.CreatedAt) // default: newest first
+        };
+
+        // Keeps paging stable when the sort key has duplicates
+        return ordered.ThenBy(i => i.Id);
+    }
+
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
     {
         return app.MapGet("/api/v1/admin/instances", async (
             int page,
             int pageSize,
             string? status,
+            string? search,
+            string? tier,
+            bool? mediaEnabled,
+            string? version,
+            string? health,
+            DateTimeOffset? createdFrom,
+            DateTimeOffset? createdTo,
+            string? sortBy,
+            string? sortDir,
             AdminListInstancesHandler handler,
             CancellationToken ct) =>
         {
             var effectivePage = page > 0 ? page : 1;
             var effectivePageSize = pageSize > 0 ? pageSize : 25;
-            var query = new AdminListInstancesQuery(effectivePage, effectivePageSize, status);
+            var query = new AdminListInstancesQuery(
+                effectivePage, effectivePageSize, status, search, tier, mediaEnabled,
+                version, health, createdFrom, createdTo, sortBy, sortDir);
             return await handler.ExecuteAsync(query, ct);
         })
         .RequireAuthorization(Policies.Admin)
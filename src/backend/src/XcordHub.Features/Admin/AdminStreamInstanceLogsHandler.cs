@@ -0,0 +1,86 @@
+using System.Text.Json;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Admin;
+
+/// <summary>
+/// Streams an instance's container logs to the admin panel as Server-Sent Events.
+/// Sends the last <c>tail</c> lines first, then one <c>log</c> event per new line
+/// until the client disconnects; an <c>end</c> event means the service stopped
+/// producing logs (e.g. it was removed). Writes to the response directly rather
+/// than returning a Result, so it is registered manually in Program.cs.
+/// </summary>
+public sealed class AdminStreamInstanceLogsHandler(
+    HubDbContext dbContext,
+    IDockerService dockerService,
+    ILogger<AdminStreamInstanceLogsHandler> logger)
+{
+    public async Task<IResult> HandleAsync(long id, int tail, HttpContext httpContext, CancellationToken ct)
+    {
+        var infrastructure = await dbContext.InstanceInfrastructures
+            .AsNoTracking()
+            .FirstOrDefaultAsync(i => i.ManagedInstanceId == id, ct);
+
+        if (infrastructure is null || string.IsNullOrEmpty(infrastructure.DockerContainerId))
+        {
+            return Results.Problem(
+                statusCode: StatusCodes.Status404NotFound,
+                title: "INFRASTRUCTURE_NOT_FOUND",
+                detail: "Instance has no running service");
+        }
+
+        var response = httpContext.Response;
+        response.ContentType = "text/event-stream";
+        response.Headers.CacheControl = "no-cache";
+        // Stop reverse proxies from buffering the stream
+        response.Headers["X-Accel-Buffering"] = "no";
+        await response.Body.FlushAsync(ct);
+
+        try
+        {
+            await foreach (var line in dockerService.FollowServiceLogsAsync(
+                infrastructure.DockerContainerId, Math.Clamp(tail, 0, 1000), ct))
+            {
+                var data = JsonSerializer.Serialize(InstanceLogLine.From(line), JsonSerializerOptions.Web);
+                await response.WriteAsync($"event: log\ndata: {data}\n\n", ct);
+                await response.Body.FlushAsync(ct);
+            }
+
+            await response.WriteAsync("event: end\ndata: {}\n\n", ct);
+        }
+        catch (OperationCanceledException) when (ct.IsCancellationRequested)
+        {
+            // The admin closed the viewer
+        }
+        catch (Exception ex)
+        {
+            logger.LogWarning(ex, "Log stream for instance {InstanceId} ended unexpectedly", id);
+            await response.WriteAsync("event: error\ndata: {\"detail\":\"Log stream interrupted\"}\n\n", CancellationToken.None);
+        }
+
+        return Results.Empty;
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/instances/{id:long}/logs/stream", async (
+            long id,
+            int? tail,
+            AdminStreamInstanceLogsHandler handler,
+            HttpContext httpContext,
+            CancellationToken ct) =>
+        {
+            return await handler.HandleAsync(id, tail ?? 100, httpContext, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces(200, contentType: "text/event-stream")
+        .WithName("AdminStreamInstanceLogs")
+        .WithTags("Admin");
+    }
+}
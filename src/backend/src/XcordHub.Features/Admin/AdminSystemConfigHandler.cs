@@ -1,18 +1,25 @@
 using Microsoft.AspNetCore.Builder;
 using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Features.Audit;
 using XcordHub.Features.Auth;
+using XcordHub.Infrastructure.Data;
 using XcordHub.Infrastructure.Services;
 
 namespace XcordHub.Features.Admin;
 
 public sealed record AdminSystemConfigResponse(
     bool PaidServersDisabled,
+    bool RequireAdminTwoFactor,
+    int AutoRollbackWindowMinutes,
     DateTimeOffset UpdatedAt
 );
 
 public sealed record UpdateAdminSystemConfigRequest(
-    bool PaidServersDisabled
+    bool PaidServersDisabled,
+    bool RequireAdminTwoFactor,
+    int AutoRollbackWindowMinutes
 );
 
 public sealed class AdminGetSystemConfigHandler : IEndpoint
@@ -24,7 +31,8 @@ public sealed class AdminGetSystemConfigHandler : IEndpoint
             CancellationToken ct) =>
         {
             var config = await service.GetAsync(ct);
-            return Results.Ok(new AdminSystemConfigResponse(config.PaidServersDisabled, config.UpdatedAt));
+            return Results.Ok(new AdminSystemConfigResponse(
+                config.PaidServersDisabled, config.RequireAdminTwoFactor, config.AutoRollbackWindowMinutes, config.UpdatedAt));
         })
         .RequireAuthorization(Policies.Admin)
         .Produces<AdminSystemConfigResponse>(200)
@@ -35,15 +43,55 @@ public sealed class AdminGetSystemConfigHandler : IEndpoint
 
 public sealed class AdminUpdateSystemConfigHandler : IEndpoint
 {
+    // A day; failures after that are unlikely to be caused by the upgrade
+    private const int MaxAutoRollbackWindowMinutes = 1440;
+
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
     {
         return app.MapPut("/api/v1/admin/system-config", async (
             UpdateAdminSystemConfigRequest request,
             ISystemConfigService service,
+            ICurrentUserService currentUserService,
+            HubDbContext dbContext,
+            IAuditLog auditLog,
             CancellationToken ct) =>
         {
-            var config = await service.SetPaidServersDisabledAsync(request.PaidServersDisabled, ct);
-            return Results.Ok(new AdminSystemConfigResponse(config.PaidServersDisabled, config.UpdatedAt));
+            if (request.AutoRollbackWindowMinutes is < 0 or > MaxAutoRollbackWindowMinutes)
+                return Results.Problem(
+                    statusCode: 400,
+                    title: "VALIDATION_FAILED",
+                    detail: $"AutoRollbackWindowMinutes must be between 0 and {MaxAutoRollbackWindowMinutes}");
+
+            var current = await service.GetAsync(ct);
+
+            // Turning the requirement on without 2FA would immediately lock the acting admin out of this panel
+            if (request.RequireAdminTwoFactor && !current.RequireAdminTwoFactor)
+            {
+                var userIdResult = currentUserService.GetCurrentUserId();
+                if (userIdResult.IsFailure)
+                    return Results.Problem(statusCode: userIdResult.Error!.StatusCode, title: userIdResult.Error.Code, detail: userIdResult.Error.Message);
+
+                var userId = userIdResult.Value;
+                var hasTwoFactor = await dbContext.HubUsers
+                    .AnyAsync(u => u.Id == userId && u.TwoFactorEnabled, ct);
+                if (!hasTwoFactor)
+                    return Results.Problem(
+                        statusCode: 409,
+                        title: "TWO_FACTOR_NOT_ENABLED",
+                        detail: "Enable two-factor authentication on your own account before requiring it for admins");
+            }
+
+            await service.SetPaidServersDisabledAsync(request.PaidServersDisabled, ct);
+            await service.SetRequireAdminTwoFactorAsync(request.RequireAdminTwoFactor, ct);
+            var config = await service.SetAutoRollbackWindowAsync(request.AutoRollbackWindowMinutes, ct);
+
+            await auditLog.RecordAsync(AuditActions.SystemConfigUpdate, AuditTargets.SystemConfig, null,
+                new { current.PaidServersDisabled, current.RequireAdminTwoFactor, current.AutoRollbackWindowMinutes },
+                new { config.PaidServersDisabled, config.RequireAdminTwoFactor, config.AutoRollbackWindowMinutes },
+                ct);
+
+            return Results.Ok(new AdminSystemConfigResponse(
+                config.PaidServersDisabled, config.RequireAdminTwoFactor, config.AutoRollbackWindowMinutes, config.UpdatedAt));
         })
         .RequireAuthorization(Policies.Admin)
         .Produces<AdminSystemConfigResponse>(200)
@@ -0,0 +1,135 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Admin;
+
+public sealed record GetKeyStatusQuery;
+
+public sealed record DataKeyVersionItem(
+    int Version,
+    bool IsActive,
+    DateTimeOffset? CreatedAt,
+    int ValueCount
+);
+
+public sealed record KeyUsageItem(
+    string Location,
+    int Version,
+    int ValueCount
+);
+
+public sealed record KeyRotationItem(
+    string Id,
+    int FromVersion,
+    int ToVersion,
+    string Status,
+    int ValuesToReEncrypt,
+    int ValuesReEncrypted,
+    string? Error,
+    string InitiatedBy,
+    DateTimeOffset StartedAt,
+    DateTimeOffset? CompletedAt
+);
+
+/// <summary>
+/// Current state of hub envelope encryption: the active DEK version, how many
+/// encrypted values are still under older versions, the rotation that is
+/// re-encrypting them (if any) and the most recent rotations.
+/// </summary>
+public sealed record KeyStatusResponse(
+    int ActiveVersion,
+    DateTimeOffset? ActiveVersionCreatedAt,
+    bool KekConfigured,
+    int OutdatedValueCount,
+    List<DataKeyVersionItem> Versions,
+    List<KeyUsageItem> Usage,
+    KeyRotationItem? CurrentRotation,
+    List<KeyRotationItem> History
+);
+
+public sealed class GetKeyStatusHandler(
+    HubDbContext dbContext,
+    IReEncryptionService reEncryptionService,
+    IKekProvider kekProvider,
+    EncryptionKeyHolder keyHolder)
+    : IRequestHandler<GetKeyStatusQuery, Result<KeyStatusResponse>>
+{
+    private const int HistoryLimit = 20;
+
+    public async Task<Result<KeyStatusResponse>> Handle(GetKeyStatusQuery request, CancellationToken cancellationToken)
+    {
+        int activeVersion = keyHolder.ActiveVersion;
+
+        var storedKeys = await dbContext.EncryptedDataKeys
+            .AsNoTracking()
+            .OrderBy(k => k.Version)
+            .ToListAsync(cancellationToken);
+
+        var usage = await reEncryptionService.CountByKeyVersionAsync(cancellationToken);
+
+        // Versions that are in use but have no stored row (e.g. the bootstrap key in
+        // legacy mode) are still listed so every counted value has a version to belong to.
+        var versions = storedKeys.Select(k => k.Version)
+            .Union(usage.Select(u => u.Version))
+            .Append(activeVersion)
+            .Distinct()
+            .OrderByDescending(v => v)
+            .Select(v => new DataKeyVersionItem(
+                v,
+                v == activeVersion,
+                storedKeys.FirstOrDefault(k => k.Version == v)?.CreatedAt,
+                usage.Where(u => u.Version == v).Sum(u => u.ValueCount)))
+            .ToList();
+
+        var rotations = await dbContext.KeyRotations
+            .AsNoTracking()
+            .IgnoreQueryFilters()
+            .Include(r => r.Initiator)
+            .OrderByDescending(r => r.StartedAt)
+            .Take(HistoryLimit)
+            .ToListAsync(cancellationToken);
+
+        var history = rotations.Select(r => new KeyRotationItem(
+                r.Id.ToString(),
+                r.FromVersion,
+                r.ToVersion,
+                r.Status.ToString(),
+                r.ValuesToReEncrypt,
+                r.ValuesReEncrypted,
+                r.Error,
+                r.Initiator.Username,
+                r.StartedAt,
+                r.CompletedAt))
+            .ToList();
+
+        return new KeyStatusResponse(
+            ActiveVersion: activeVersion,
+            ActiveVersionCreatedAt: storedKeys.FirstOrDefault(k => k.Version == activeVersion)?.CreatedAt,
+            KekConfigured: kekProvider.GetKek() != null,
+            OutdatedValueCount: usage.Where(u => u.Version != activeVersion).Sum(u => u.ValueCount),
+            Versions: versions,
+            Usage: usage.Select(u => new KeyUsageItem(u.Location, u.Version, u.ValueCount)).ToList(),
+            CurrentRotation: history.FirstOrDefault(r => r.Status == nameof(KeyRotationStatus.ReEncrypting)),
+            History: history
+        );
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/keys", async (
+            GetKeyStatusHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new GetKeyStatusQuery(), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<KeyStatusResponse>(200)
+        .WithName("GetKeyStatus")
+        .WithTags("Admin", "Security");
+    }
+}
@@ -0,0 +1,96 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Admin;
+
+/// <summary>
+/// Drives an in-progress DEK rotation to completion by re-encrypting values that
+/// are still under an older key version, one batch per iteration, and recording
+/// progress on the <see cref="KeyRotation"/> row.
+/// </summary>
+public sealed class KeyReEncryptionService(
+    IServiceScopeFactory serviceScopeFactory,
+    ILogger<KeyReEncryptionService> logger) : PollingBackgroundService(serviceScopeFactory, logger)
+{
+    private const int BatchSize = 200;
+
+    protected override TimeSpan Interval => TimeSpan.FromSeconds(5);
+
+    protected override async Task ProcessAsync(CancellationToken ct)
+    {
+        using var scope = ServiceScopeFactory.CreateScope();
+        var dbContext = scope.ServiceProvider.GetRequiredService<HubDbContext>();
+        var reEncryptionService = scope.ServiceProvider.GetRequiredService<IReEncryptionService>();
+
+        var rotation = await dbContext.KeyRotations
+            .IgnoreQueryFilters()
+            .Where(r => r.Status == KeyRotationStatus.ReEncrypting)
+            .OrderBy(r => r.StartedAt)
+            .FirstOrDefaultAsync(ct);
+
+        if (rotation == null)
+        {
+            return;
+        }
+
+        try
+        {
+            var rewritten = await reEncryptionService.ReEncryptBatchAsync(BatchSize, ct);
+
+            var remaining = (await reEncryptionService.CountByKeyVersionAsync(ct))
+                .Where(u => u.Version != rotation.ToVersion)
+                .Sum(u => u.ValueCount);
+
+            RecordProgress(rotation, rewritten, remaining, DateTimeOffset.UtcNow);
+
+            if (rotation.Status == KeyRotationStatus.Completed)
+            {
+                Logger.LogInformation(
+                    "Key rotation {RotationId} completed; {Count} value(s) re-encrypted under version {Version}",
+                    rotation.Id, rotation.ValuesReEncrypted, rotation.ToVersion);
+            }
+            else if (rotation.Status == KeyRotationStatus.Failed)
+            {
+                Logger.LogError("Key rotation {RotationId} stalled: {Error}", rotation.Id, rotation.Error);
+            }
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            Logger.LogError(ex, "Re-encryption for key rotation {RotationId} failed", rotation.Id);
+            dbContext.ChangeTracker.Clear();
+            dbContext.Attach(rotation);
+            rotation.Status = KeyRotationStatus.Failed;
+            rotation.Error = ex.Message.Length > 2000 ? ex.Message[..2000] : ex.Message;
+            rotation.CompletedAt = DateTimeOffset.UtcNow;
+        }
+
+        await dbContext.SaveChangesAsync(ct);
+    }
+
+    /// <summary>
+    /// Updates <paramref name="rotation"/> after a batch rewrote <paramref name="rewritten"/>
+    /// values and <paramref name="remaining"/> are still under an older version. It completes
+    /// only once nothing remains; a batch that rewrote nothing while values remain fails it,
+    /// since every later batch would find the same values.
+    /// </summary>
+    public static void RecordProgress(KeyRotation rotation, int rewritten, int remaining, DateTimeOffset now)
+    {
+        rotation.ValuesReEncrypted = Math.Max(0, rotation.ValuesToReEncrypt - remaining);
+
+        if (remaining == 0)
+        {
+            rotation.Status = KeyRotationStatus.Completed;
+            rotation.CompletedAt = now;
+        }
+        else if (rewritten == 0)
+        {
+            rotation.Status = KeyRotationStatus.Failed;
+            rotation.Error = $"{remaining} value(s) are still under an older key version but none could be re-encrypted";
+            rotation.CompletedAt = now;
+        }
+    }
+}
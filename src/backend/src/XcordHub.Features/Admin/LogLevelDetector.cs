@@ -0,0 +1,52 @@
+using System.Text.RegularExpressions;
+
+namespace XcordHub.Features.Admin;
+
+/// <summary>
+/// Best-effort severity of a container log line. Instances write logs in several
+/// shapes (the .NET console formatter, Serilog templates, structured JSON and plain
+/// upper-case prefixes), so each is tried in turn. Returns one of
+/// <c>trace</c>, <c>debug</c>, <c>info</c>, <c>warn</c>, <c>error</c>, <c>fatal</c>,
+/// or null when the line carries no recognisable level.
+/// </summary>
+public static class LogLevelDetector
+{
+    private static readonly string[] Patterns =
+    [
+        // {"level":"Error", ...} / {"@l":"Warning", ...}
+        @"""(?:level|Level|@l|severity|LogLevel)""\s*:\s*""(\w+)""",
+        // info: Microsoft.Hosting.Lifetime[0]
+        @"^(trce|dbug|info|warn|fail|crit):",
+        // [12:00:00 INF] / [ERROR]
+        @"\[(?:[^\]]*\s)?(VRB|DBG|INF|WRN|ERR|FTL|TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL)\]",
+        // 2026-01-01 12:00:00 ERROR ...
+        @"^(?:\S+\s+){0,2}(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL)\b",
+    ];
+
+    public static string? Detect(string message)
+    {
+        foreach (var pattern in Patterns)
+        {
+            var match = Regex.Match(message, pattern);
+            if (match.Success)
+            {
+                var level = Normalize(match.Groups[1].Value);
+                if (level != null)
+                    return level;
+            }
+        }
+
+        return null;
+    }
+
+    private static string? Normalize(string level) => level.ToLowerInvariant() switch
+    {
+        "trce" or "trace" or "vrb" or "verbose" => "trace",
+        "dbug" or "debug" or "dbg" => "debug",
+        "info" or "inf" or "information" => "info",
+        "warn" or "wrn" or "warning" => "warn",
+        "fail" or "err" or "error" => "error",
+        "crit" or "ftl" or "fatal" or "critical" => "fatal",
+        _ => null
+    };
+}
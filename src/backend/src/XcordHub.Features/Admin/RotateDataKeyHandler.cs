@@ -1,35 +1,57 @@
+using System.Security.Claims;
 using Microsoft.AspNetCore.Builder;
 using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
 using XcordHub.Infrastructure.Services;
 
 namespace XcordHub.Features.Admin;
 
-public sealed record RotateDataKeyCommand;
+public sealed record RotateDataKeyCommand(long InitiatedBy);
 
-public sealed record RotateDataKeyResponse(int NewVersion);
+public sealed record RotateDataKeyResponse(int NewVersion, string RotationId);
 
 /// <summary>
 /// Admin-only endpoint to rotate the hub's AES-GCM Data Encryption Key (DEK).
 /// Generates a fresh DEK, wraps it under the configured KEK, persists it as a
 /// new active row in encrypted_data_keys, and switches the in-memory key holder
 /// so subsequent encryptions use the new version. Existing ciphertext continues
-/// to decrypt under its original version transparently.
+/// to decrypt under its original version and is re-encrypted in the background
+/// by <see cref="KeyReEncryptionService"/>; the returned rotation tracks that progress.
 /// </summary>
 public sealed class RotateDataKeyHandler(
+    HubDbContext dbContext,
     IKeyRotationService rotationService,
+    IReEncryptionService reEncryptionService,
+    EncryptionKeyHolder keyHolder,
+    SnowflakeIdGenerator snowflakeGenerator,
+    IAuditLog auditLog,
     ILogger<RotateDataKeyHandler> logger)
     : IRequestHandler<RotateDataKeyCommand, Result<RotateDataKeyResponse>>
 {
     public async Task<Result<RotateDataKeyResponse>> Handle(
         RotateDataKeyCommand request, CancellationToken cancellationToken)
     {
+        var inProgress = await dbContext.KeyRotations
+            .IgnoreQueryFilters()
+            .AnyAsync(r => r.Status == KeyRotationStatus.ReEncrypting, cancellationToken);
+
+        if (inProgress)
+        {
+            return Error.Conflict("KEY_ROTATION_IN_PROGRESS",
+                "A previous rotation is still re-encrypting data. Wait for it to finish before rotating again.");
+        }
+
+        int previousVersion = keyHolder.ActiveVersion;
+        int newVersion;
         try
         {
-            var newVersion = await rotationService.RotateDataKeyAsync(cancellationToken);
+            newVersion = await rotationService.RotateDataKeyAsync(cancellationToken);
             logger.LogInformation("Hub DEK rotation completed; new active version is {Version}", newVersion);
-            return new RotateDataKeyResponse(newVersion);
         }
         catch (InvalidOperationException ex)
         {
@@ -41,15 +63,45 @@ public sealed class RotateDataKeyHandler(
             logger.LogError(ex, "Hub DEK rotation failed");
             return Error.Failure("KEY_ROTATION_FAILED", "Failed to rotate the data encryption key.");
         }
+
+        var outdated = (await reEncryptionService.CountByKeyVersionAsync(cancellationToken))
+            .Where(u => u.Version != newVersion)
+            .Sum(u => u.ValueCount);
+
+        var now = DateTimeOffset.UtcNow;
+        var rotation = new KeyRotation
+        {
+            Id = snowflakeGenerator.NextId(),
+            FromVersion = previousVersion,
+            ToVersion = newVersion,
+            Status = outdated == 0 ? KeyRotationStatus.Completed : KeyRotationStatus.ReEncrypting,
+            ValuesToReEncrypt = outdated,
+            ValuesReEncrypted = 0,
+            InitiatedBy = request.InitiatedBy,
+            StartedAt = now,
+            CompletedAt = outdated == 0 ? now : null
+        };
+
+        dbContext.KeyRotations.Add(rotation);
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.KeyRotate, AuditTargets.EncryptionKey, rotation.Id.ToString(),
+            new { ActiveVersion = previousVersion },
+            new { ActiveVersion = newVersion },
+            cancellationToken);
+
+        return new RotateDataKeyResponse(newVersion, rotation.Id.ToString());
     }
 
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
     {
         return app.MapPost("/api/v1/admin/keys/rotate", async (
+            ClaimsPrincipal user,
             RotateDataKeyHandler handler,
             CancellationToken ct) =>
         {
-            return await handler.ExecuteAsync(new RotateDataKeyCommand(), ct,
+            var userId = AdminSuspendInstanceHandler.GetUserId(user);
+            return await handler.ExecuteAsync(new RotateDataKeyCommand(userId), ct,
                 response => Results.Ok(response));
         })
         .RequireAuthorization(Policies.Admin)
@@ -0,0 +1,72 @@
+namespace XcordHub.Features.Audit;
+
+/// <summary>
+/// Names of the admin actions written to the audit log, grouped by target.
+/// </summary>
+public static class AuditActions
+{
+    public const string InstanceProvision = "instance.provision";
+    public const string InstanceSuspend = "instance.suspend";
+    public const string InstanceResume = "instance.resume";
+    public const string InstanceDestroy = "instance.destroy";
+    public const string InstanceResourceLimits = "instance.resource-limits";
+    public const string InstanceFeatureFlags = "instance.feature-flags";
+    public const string InstanceProvisioningRetry = "instance.provisioning-retry";
+    public const string InstanceRollback = "instance.rollback";
+    public const string InstanceUpgrade = "instance.upgrade";
+
+    public const string BackupPolicyUpdate = "backup.policy-update";
+    public const string BackupTrigger = "backup.trigger";
+    public const string BackupRestore = "backup.restore";
+    public const string BackupDelete = "backup.delete";
+    public const string BackupDownload = "backup.download";
+    public const string BackupPolicyReset = "backup.policy-reset";
+    public const string BackupTemplateCreate = "backup.template-create";
+    public const string BackupTemplateUpdate = "backup.template-update";
+    public const string BackupTemplateDelete = "backup.template-delete";
+    public const string BackupTemplateApply = "backup.template-apply";
+
+    public const string RolloutStart = "rollout.start";
+    public const string RolloutPause = "rollout.pause";
+    public const string RolloutResume = "rollout.resume";
+    public const string RolloutCancel = "rollout.cancel";
+    public const string RolloutRollback = "rollout.rollback";
+
+    public const string VersionPublish = "version.publish";
+    public const string VersionSetMinimum = "version.set-minimum";
+
+    public const string SystemConfigUpdate = "system-config.update";
+    public const string KeyRotate = "key.rotate";
+
+    public const string SupportTicketUpdate = "support.ticket-update";
+    public const string SupportTicketReply = "support.ticket-reply";
+
+    public static readonly string[] All =
+    [
+        InstanceProvision, InstanceSuspend, InstanceResume, InstanceDestroy, InstanceResourceLimits,
+        InstanceFeatureFlags, InstanceProvisioningRetry, InstanceRollback, InstanceUpgrade,
+        BackupPolicyUpdate, BackupTrigger, BackupRestore, BackupDelete, BackupDownload, BackupPolicyReset,
+        BackupTemplateCreate, BackupTemplateUpdate, BackupTemplateDelete, BackupTemplateApply,
+        RolloutStart, RolloutPause, RolloutResume, RolloutCancel, RolloutRollback,
+        VersionPublish, VersionSetMinimum,
+        SystemConfigUpdate, KeyRotate,
+        SupportTicketUpdate, SupportTicketReply
+    ];
+}
+
+/// <summary>
+/// Kinds of entity an audit log entry can target.
+/// </summary>
+public static class AuditTargets
+{
+    public const string Instance = "Instance";
+    public const string Backup = "Backup";
+    public const string BackupTemplate = "BackupTemplate";
+    public const string Rollout = "Rollout";
+    public const string Version = "Version";
+    public const string SystemConfig = "SystemConfig";
+    public const string EncryptionKey = "EncryptionKey";
+    public const string SupportTicket = "SupportTicket";
+
+    public static readonly string[] All = [Instance, Backup, BackupTemplate, Rollout, Version, SystemConfig, EncryptionKey, SupportTicket];
+}
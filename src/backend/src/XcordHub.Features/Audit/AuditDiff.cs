@@ -0,0 +1,70 @@
+using System.Text.Json;
+using System.Text.Json.Nodes;
+
+namespace XcordHub.Features.Audit;
+
+public sealed record AuditChangeItem(string Field, string? Before, string? After);
+
+/// <summary>
+/// Field-by-field difference between the before and after snapshots of an audit
+/// log entry. Nested objects are compared by dotted path; arrays as a whole.
+/// </summary>
+public static class AuditDiff
+{
+    public static List<AuditChangeItem> Compute(string? beforeJson, string? afterJson)
+    {
+        var before = Flatten(beforeJson);
+        var after = Flatten(afterJson);
+
+        return before.Keys
+            .Union(after.Keys)
+            .Select(field => new AuditChangeItem(field, before.GetValueOrDefault(field), after.GetValueOrDefault(field)))
+            .Where(change => change.Before != change.After)
+            .ToList();
+    }
+
+    private static Dictionary<string, string?> Flatten(string? json)
+    {
+        var fields = new Dictionary<string, string?>();
+        if (string.IsNullOrWhiteSpace(json))
+            return fields;
+
+        JsonNode? root;
+        try
+        {
+            root = JsonNode.Parse(json);
+        }
+        catch (JsonException)
+        {
+            return fields;
+        }
+
+        if (root is JsonObject obj)
+            Flatten(obj, prefix: null, fields);
+        else
+            fields["value"] = Format(root);
+
+        return fields;
+    }
+
+    private static void Flatten(JsonObject obj, string? prefix, Dictionary<string, string?> fields)
+    {
+        foreach (var (name, value) in obj)
+        {
+            var path = prefix is null ? name : $"{prefix}.{name}";
+            if (value is JsonObject nested)
+                Flatten(nested, path, fields);
+            else
+                fields[path] = Format(value);
+        }
+    }
+
+    // Strings are shown without quotes; everything else as compact JSON
+    private static string? Format(JsonNode? value) =>
+        value switch
+        {
+            null => null,
+            JsonValue v when v.TryGetValue<string>(out var text) => text,
+            _ => value.ToJsonString()
+        };
+}
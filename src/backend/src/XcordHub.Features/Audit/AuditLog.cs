@@ -0,0 +1,96 @@
+using System.Text.Json;
+using Microsoft.AspNetCore.Http;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Audit;
+
+/// <summary>
+/// Records admin actions to the audit log. The actor, IP address and reason are
+/// taken from the current request.
+/// </summary>
+public interface IAuditLog
+{
+    /// <summary>
+    /// Records <paramref name="action"/> on a target. <paramref name="before"/> and
+    /// <paramref name="after"/> are serialized as JSON snapshots of the fields the action
+    /// changed; pass null when there was nothing before (creation) or after (deletion).
+    /// </summary>
+    Task RecordAsync(
+        string action,
+        string targetType,
+        string? targetId,
+        object? before = null,
+        object? after = null,
+        CancellationToken cancellationToken = default);
+}
+
+public sealed class AuditLog(
+    HubDbContext dbContext,
+    ICurrentUserService currentUserService,
+    IHttpContextAccessor httpContextAccessor) : IAuditLog
+{
+    /// <summary>
+    /// Request header carrying the reason entered in the admin panel, URI-encoded so
+    /// it can hold any text.
+    /// </summary>
+    public const string ReasonHeader = "X-Audit-Reason";
+
+    public const int MaxReasonLength = 1000;
+
+    public async Task RecordAsync(
+        string action,
+        string targetType,
+        string? targetId,
+        object? before = null,
+        object? after = null,
+        CancellationToken cancellationToken = default)
+    {
+        var httpContext = httpContextAccessor.HttpContext;
+        var userIdResult = currentUserService.GetCurrentUserId();
+        long? actorId = userIdResult.IsSuccess ? userIdResult.Value : null;
+
+        // Deleted users keep their name in entries they already wrote
+        var actorName = actorId is null
+            ? null
+            : await dbContext.HubUsers
+                .IgnoreQueryFilters()
+                .Where(u => u.Id == actorId)
+                .Select(u => u.Username)
+                .FirstOrDefaultAsync(cancellationToken);
+
+        dbContext.AuditLogEntries.Add(new AuditLogEntry
+        {
+            ActorId = actorId,
+            ActorName = actorName ?? actorId?.ToString() ?? "system",
+            IpAddress = httpContext?.Connection.RemoteIpAddress?.ToString() ?? "unknown",
+            Action = action,
+            TargetType = targetType,
+            TargetId = targetId,
+            BeforeJson = Serialize(before),
+            AfterJson = Serialize(after),
+            Reason = ReadReason(httpContext?.Request),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+
+        await dbContext.SaveChangesAsync(cancellationToken);
+    }
+
+    private static string? ReadReason(HttpRequest? request)
+    {
+        var header = request?.Headers[ReasonHeader].ToString();
+        if (string.IsNullOrWhiteSpace(header))
+            return null;
+
+        var reason = Uri.UnescapeDataString(header).Trim();
+        if (reason.Length == 0)
+            return null;
+
+        return reason.Length > MaxReasonLength ? reason[..MaxReasonLength] : reason;
+    }
+
+    private static string? Serialize(object? snapshot) =>
+        snapshot is null ? null : JsonSerializer.Serialize(snapshot, JsonSerializerOptions.Web);
+}
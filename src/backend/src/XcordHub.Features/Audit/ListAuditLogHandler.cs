@@ -0,0 +1,136 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Audit;
+
+public sealed record ListAuditLogQuery(
+    int Page = 1,
+    int PageSize = 50,
+    string? Actor = null,
+    string? Action = null,
+    string? TargetType = null,
+    string? TargetId = null
+);
+
+public sealed record AuditLogItem(
+    string Id,
+    DateTimeOffset CreatedAt,
+    string? ActorId,
+    string ActorName,
+    string IpAddress,
+    string Action,
+    string TargetType,
+    string? TargetId,
+    string? Reason,
+    List<AuditChangeItem> Changes
+);
+
+public sealed record ListAuditLogResponse(
+    List<AuditLogItem> Entries,
+    int Total,
+    int Page,
+    int PageSize,
+    List<string> Actions,
+    List<string> TargetTypes
+);
+
+public sealed class ListAuditLogHandler(HubDbContext dbContext)
+    : IRequestHandler<ListAuditLogQuery, Result<ListAuditLogResponse>>,
+      IValidatable<ListAuditLogQuery>
+{
+    public Error? Validate(ListAuditLogQuery request)
+    {
+        if (!string.IsNullOrWhiteSpace(request.Action) && !AuditActions.All.Contains(request.Action))
+            return Error.Validation("INVALID_ACTION", $"Action must be one of: {string.Join(", ", AuditActions.All)}");
+
+        if (!string.IsNullOrWhiteSpace(request.TargetType) && !AuditTargets.All.Contains(request.TargetType))
+            return Error.Validation("INVALID_TARGET_TYPE", $"TargetType must be one of: {string.Join(", ", AuditTargets.All)}");
+
+        return null;
+    }
+
+    public async Task<Result<ListAuditLogResponse>> Handle(ListAuditLogQuery request, CancellationToken cancellationToken)
+    {
+        var query = ApplyFilters(dbContext.AuditLogEntries.AsNoTracking(), request);
+
+        var total = await query.CountAsync(cancellationToken);
+
+        var page = Math.Max(1, request.Page);
+        var pageSize = Math.Clamp(request.PageSize, 1, 100);
+
+        var entries = await query
+            .OrderByDescending(e => e.CreatedAt)
+            .ThenByDescending(e => e.Id)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        var items = entries.Select(e => new AuditLogItem(
+            e.Id.ToString(),
+            e.CreatedAt,
+            e.ActorId?.ToString(),
+            e.ActorName,
+            e.IpAddress,
+            e.Action,
+            e.TargetType,
+            e.TargetId,
+            e.Reason,
+            AuditDiff.Compute(e.BeforeJson, e.AfterJson)
+        )).ToList();
+
+        return new ListAuditLogResponse(items, total, page, pageSize, [.. AuditActions.All], [.. AuditTargets.All]);
+    }
+
+    private static IQueryable<AuditLogEntry> ApplyFilters(IQueryable<AuditLogEntry> query, ListAuditLogQuery request)
+    {
+        if (!string.IsNullOrWhiteSpace(request.Actor))
+        {
+            var actorLower = request.Actor.Trim().ToLower();
+            query = query.Where(e => e.ActorName.ToLower().Contains(actorLower));
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.Action))
+        {
+            query = query.Where(e => e.Action == request.Action);
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.TargetType))
+        {
+            query = query.Where(e => e.TargetType == request.TargetType);
+        }
+
+        if (!string.IsNullOrWhiteSpace(request.TargetId))
+        {
+            var targetId = request.TargetId.Trim();
+            query = query.Where(e => e.TargetId == targetId);
+        }
+
+        return query;
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/audit", async (
+            int? page,
+            int? pageSize,
+            string? actor,
+            string? action,
+            string? targetType,
+            string? targetId,
+            ListAuditLogHandler handler,
+            CancellationToken ct) =>
+        {
+            var query = new ListAuditLogQuery(page ?? 1, pageSize ?? 50, actor, action, targetType, targetId);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<ListAuditLogResponse>(200)
+        .WithName("AdminListAuditLog")
+        .WithTags("Admin");
+    }
+}
@@ -13,7 +13,8 @@ public sealed record GetMeResponse(
     string UserId,
     string Username,
     string DisplayName,
-    string Email
+    string Email,
+    bool TwoFactorEnabled
 );
 
 public sealed class GetMeHandler(HubDbContext dbContext, ICurrentUserService currentUserService, IEncryptionService encryptionService)
@@ -37,7 +38,8 @@ public sealed class GetMeHandler(HubDbContext dbContext, ICurrentUserService cur
             UserId: userId.ToString(),
             Username: user.Username,
             DisplayName: user.DisplayName,
-            Email: email
+            Email: email,
+            TwoFactorEnabled: user.TwoFactorEnabled
         );
     }
 
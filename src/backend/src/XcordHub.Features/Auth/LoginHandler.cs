@@ -101,9 +101,18 @@ public sealed class LoginHandler(
             return Error.Forbidden("ACCOUNT_DISABLED", "Account is disabled");
         }
 
-        // If 2FA is enabled, reject with a code the client uses to prompt for TOTP
+        // If 2FA is enabled, reject with a code the client uses to prompt for TOTP.
+        // A locked account is reported up front so the client doesn't ask for a code it will reject.
         if (user.TwoFactorEnabled)
         {
+            var lockedUntil = TwoFactorLockout.GetLockedUntil(user, DateTimeOffset.UtcNow);
+            if (lockedUntil != null)
+            {
+                dbContext.LoginAttempts.Add(CreateLoginAttempt(request.Email, TwoFactorLockout.ErrorCode, user.Id));
+                await dbContext.SaveChangesAsync(cancellationToken);
+                return TwoFactorLockout.Locked(lockedUntil.Value);
+            }
+
             dbContext.LoginAttempts.Add(CreateLoginAttempt(request.Email, "2FA_REQUIRED", user.Id));
             await dbContext.SaveChangesAsync(cancellationToken);
             return Error.Forbidden("2FA_REQUIRED", "Two-factor authentication is required");
@@ -190,10 +199,11 @@ public sealed class LoginHandler(
                             detail: $"Too many failed login attempts. Please wait {retryAfter} second(s) before trying again.");
                     }
 
-                    return Results.Problem(
-                        statusCode: error.StatusCode,
-                        title: error.Code,
-                        detail: error.Message);
+                    return TwoFactorLockout.ToProblem(error, httpContext)
+                        ?? Results.Problem(
+                            statusCode: error.StatusCode,
+                            title: error.Code,
+                            detail: error.Message);
                 });
         })
         .AllowAnonymous()
@@ -29,9 +29,6 @@ public sealed class LoginWith2FAHandler(
     IHttpContextAccessor httpContextAccessor)
     : IRequestHandler<LoginWith2FARequest, Result<LoginWith2FAResponse>>, IValidatable<LoginWith2FARequest>
 {
-    private const int MaxCumulativeTwoFactorFailures = 10;
-    private static readonly TimeSpan TwoFactorLockoutDuration = TimeSpan.FromMinutes(30);
-
     public Error? Validate(LoginWith2FARequest request)
     {
         if (string.IsNullOrWhiteSpace(request.Email))
@@ -97,17 +94,16 @@ public sealed class LoginWith2FAHandler(
         }
 
         // Check cumulative 2FA failure lockout
-        if (user.TwoFactorLockedAt != null)
+        var lockedUntil = TwoFactorLockout.GetLockedUntil(user, DateTimeOffset.UtcNow);
+        if (lockedUntil != null)
         {
-            var lockExpiry = user.TwoFactorLockedAt.Value.Add(TwoFactorLockoutDuration);
-            if (DateTimeOffset.UtcNow < lockExpiry)
-            {
-                dbContext.LoginAttempts.Add(CreateLoginAttempt(request.Email, "TWO_FACTOR_LOCKED", user.Id));
-                await dbContext.SaveChangesAsync(cancellationToken);
-                return Error.Forbidden("TWO_FACTOR_LOCKED",
-                    "Account is temporarily locked due to too many failed 2FA attempts. Please try again later.");
-            }
+            dbContext.LoginAttempts.Add(CreateLoginAttempt(request.Email, TwoFactorLockout.ErrorCode, user.Id));
+            await dbContext.SaveChangesAsync(cancellationToken);
+            return TwoFactorLockout.Locked(lockedUntil.Value);
+        }
 
+        if (user.TwoFactorLockedAt != null)
+        {
             // Lockout has expired -- reset counters
             user.TwoFactorFailureCount = 0;
             user.TwoFactorLockedAt = null;
@@ -119,13 +115,12 @@ public sealed class LoginWith2FAHandler(
         {
             // Track cumulative 2FA failures
             user.TwoFactorFailureCount++;
-            if (user.TwoFactorFailureCount >= MaxCumulativeTwoFactorFailures)
+            if (user.TwoFactorFailureCount >= TwoFactorLockout.MaxCumulativeFailures)
             {
                 user.TwoFactorLockedAt = DateTimeOffset.UtcNow;
-                dbContext.LoginAttempts.Add(CreateLoginAttempt(request.Email, "TWO_FACTOR_LOCKED", user.Id));
+                dbContext.LoginAttempts.Add(CreateLoginAttempt(request.Email, TwoFactorLockout.ErrorCode, user.Id));
                 await dbContext.SaveChangesAsync(cancellationToken);
-                return Error.Forbidden("TWO_FACTOR_LOCKED",
-                    "Account is temporarily locked due to too many failed 2FA attempts. Please try again later.");
+                return TwoFactorLockout.Locked(user.TwoFactorLockedAt.Value.Add(TwoFactorLockout.Duration));
             }
 
             dbContext.LoginAttempts.Add(CreateLoginAttempt(request.Email, "INVALID_2FA_CODE", user.Id));
@@ -177,19 +172,29 @@ public sealed class LoginWith2FAHandler(
             HttpContext httpContext,
             CancellationToken ct) =>
         {
-            var result = await handler.ExecuteAsync(request, ct, success =>
-            {
-                AuthCookieHelper.SetRefreshTokenCookie(httpContext, success.RefreshToken);
-
-                return Results.Ok(new LoginWith2FAApiResponse(
-                    success.UserId,
-                    success.Username,
-                    success.DisplayName,
-                    success.Email,
-                    success.AccessToken));
-            });
-
-            return result;
+            var validationError = handler.Validate(request);
+            if (validationError is not null)
+                return Results.Problem(statusCode: validationError.StatusCode, title: validationError.Code, detail: validationError.Message);
+
+            var result = await handler.Handle(request, ct);
+
+            return result.Match(
+                success =>
+                {
+                    AuthCookieHelper.SetRefreshTokenCookie(httpContext, success.RefreshToken);
+
+                    return Results.Ok(new LoginWith2FAApiResponse(
+                        success.UserId,
+                        success.Username,
+                        success.DisplayName,
+                        success.Email,
+                        success.AccessToken));
+                },
+                error => TwoFactorLockout.ToProblem(error, httpContext)
+                    ?? Results.Problem(
+                        statusCode: error.StatusCode,
+                        title: error.Code,
+                        detail: error.Message));
         })
         .AllowAnonymous()
         .Produces<LoginWith2FAApiResponse>(200)
@@ -0,0 +1,52 @@
+using System.Globalization;
+using Microsoft.AspNetCore.Http;
+using XcordHub.Entities;
+
+namespace XcordHub.Features.Auth;
+
+/// <summary>
+/// Cumulative 2FA failure lockout shared by the password and TOTP login steps.
+/// The lock starts at <see cref="HubUser.TwoFactorLockedAt"/> and lasts <see cref="Duration"/>.
+/// </summary>
+public static class TwoFactorLockout
+{
+    public const string ErrorCode = "TWO_FACTOR_LOCKED";
+    public const int MaxCumulativeFailures = 10;
+    public static readonly TimeSpan Duration = TimeSpan.FromMinutes(30);
+
+    /// <summary>
+    /// Returns when the lock on <paramref name="user"/> expires, or null if the account is not locked at <paramref name="now"/>.
+    /// </summary>
+    public static DateTimeOffset? GetLockedUntil(HubUser user, DateTimeOffset now)
+    {
+        if (user.TwoFactorLockedAt is null)
+            return null;
+
+        var lockedUntil = user.TwoFactorLockedAt.Value.Add(Duration);
+        return now < lockedUntil ? lockedUntil : null;
+    }
+
+    // Like LOGIN_RATE_LIMITED, the message carries the raw value for the endpoint to format.
+    public static Error Locked(DateTimeOffset lockedUntil)
+        => Error.Forbidden(ErrorCode, lockedUntil.ToString("O", CultureInfo.InvariantCulture));
+
+    /// <summary>
+    /// Maps a <see cref="ErrorCode"/> error to a problem response with a Retry-After header and a
+    /// <c>lockedUntil</c> extension. Returns null for any other error.
+    /// </summary>
+    public static IResult? ToProblem(Error error, HttpContext httpContext)
+    {
+        if (error.Code != ErrorCode
+            || !DateTimeOffset.TryParse(error.Message, CultureInfo.InvariantCulture, DateTimeStyles.RoundtripKind, out var lockedUntil))
+            return null;
+
+        var retryAfter = Math.Max(1, (int)Math.Ceiling((lockedUntil - DateTimeOffset.UtcNow).TotalSeconds));
+        httpContext.Response.Headers["Retry-After"] = retryAfter.ToString(CultureInfo.InvariantCulture);
+
+        return Results.Problem(
+            statusCode: error.StatusCode,
+            title: error.Code,
+            detail: "Account is temporarily locked due to too many failed 2FA attempts. Please try again later.",
+            extensions: new Dictionary<string, object?> { ["lockedUntil"] = lockedUntil });
+    }
+}
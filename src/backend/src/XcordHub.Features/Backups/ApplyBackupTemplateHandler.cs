@@ -0,0 +1,77 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record ApplyBackupTemplateCommand(long TemplateId);
+
+public sealed record ApplyBackupTemplateResponse(int Applied, int SkippedOverridden);
+
+/// <summary>
+/// Copies a template onto the backup policy of every instance on its tiers, except
+/// policies marked as overridden. Those keep their settings until they are reset to
+/// the template from the instance.
+/// </summary>
+public sealed class ApplyBackupTemplateHandler(HubDbContext dbContext, IAuditLog auditLog)
+    : IRequestHandler<ApplyBackupTemplateCommand, Result<ApplyBackupTemplateResponse>>
+{
+    public async Task<Result<ApplyBackupTemplateResponse>> Handle(ApplyBackupTemplateCommand request, CancellationToken cancellationToken)
+    {
+        var template = await dbContext.BackupPolicyTemplates
+            .Include(t => t.Tiers)
+            .FirstOrDefaultAsync(t => t.Id == request.TemplateId, cancellationToken);
+
+        if (template is null)
+            return Error.NotFound("TEMPLATE_NOT_FOUND", "Backup template not found");
+
+        var tiers = template.Tiers.Select(t => t.Tier).ToList();
+        var policies = await BackupTemplateSettings.PoliciesOnTiers(dbContext, tiers)
+            .ToListAsync(cancellationToken);
+
+        var now = DateTimeOffset.UtcNow;
+        var changed = new List<string>();
+        var skipped = 0;
+        foreach (var policy in policies)
+        {
+            if (policy.IsOverridden)
+            {
+                skipped++;
+                continue;
+            }
+
+            if (BackupTemplateSettings.Diff(policy, template).Count > 0)
+                changed.Add(policy.ManagedInstanceId.ToString());
+
+            BackupTemplateSettings.Apply(template, policy);
+            policy.UpdatedAt = now;
+        }
+
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.BackupTemplateApply, AuditTargets.BackupTemplate, template.Id.ToString(),
+            after: new { ChangedInstanceIds = changed, SkippedOverridden = skipped },
+            cancellationToken: cancellationToken);
+
+        return new ApplyBackupTemplateResponse(policies.Count - skipped, skipped);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/backup-templates/{templateId:long}/apply", async (
+            long templateId,
+            ApplyBackupTemplateHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new ApplyBackupTemplateCommand(templateId), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<ApplyBackupTemplateResponse>(200)
+        .WithName("AdminApplyBackupTemplate")
+        .WithTags("Admin");
+    }
+}
@@ -50,21 +50,39 @@ public sealed class BackupBackgroundService(
 
         foreach (var policy in policies)
         {
-            var lastBackup = await dbContext.BackupRecords
+            var lastFullBackup = await dbContext.BackupRecords
                 .Where(r => r.ManagedInstanceId == policy.ManagedInstanceId
-                    && r.Status != BackupStatus.Failed)
+                    && r.Status != BackupStatus.Failed
+                    && r.Kind == BackupKind.Full)
                 .OrderByDescending(r => r.StartedAt)
                 .FirstOrDefaultAsync(ct);
 
-            if (!IsBackupDue(policy, lastBackup))
-                continue;
+            var kind = BackupKind.Full;
+            if (!IsBackupDue(policy.Frequency, lastFullBackup))
+            {
+                // Policies like "hourly DB + daily full" back up the database on its own schedule in between
+                if (policy.DatabaseFrequency is not { } databaseFrequency || !policy.BackupDatabase)
+                    continue;
+
+                var lastDatabaseBackup = await dbContext.BackupRecords
+                    .Where(r => r.ManagedInstanceId == policy.ManagedInstanceId
+                        && r.Status != BackupStatus.Failed
+                        && (r.Kind == BackupKind.Full || r.Kind == BackupKind.Database))
+                    .OrderByDescending(r => r.StartedAt)
+                    .FirstOrDefaultAsync(ct);
+
+                if (!IsBackupDue(databaseFrequency, lastDatabaseBackup))
+                    continue;
+
+                kind = BackupKind.Database;
+            }
 
-            Logger.LogInformation("Backup due for {Domain} (frequency: {Frequency})",
-                policy.ManagedInstance.Domain, policy.Frequency);
+            Logger.LogInformation("{Kind} backup due for {Domain} (frequency: {Frequency})",
+                kind, policy.ManagedInstance.Domain, kind == BackupKind.Full ? policy.Frequency : policy.DatabaseFrequency);
 
             try
             {
-                await executor.ExecuteBackupAsync(policy.ManagedInstance, BackupKind.Full, ct);
+                await executor.ExecuteBackupAsync(policy.ManagedInstance, kind, ct);
             }
             catch (Exception ex)
             {
@@ -74,11 +92,11 @@ public sealed class BackupBackgroundService(
         }
     }
 
-    private static bool IsBackupDue(BackupPolicy policy, BackupRecord? lastBackup)
+    private static bool IsBackupDue(BackupFrequency frequency, BackupRecord? lastBackup)
     {
         if (lastBackup == null) return true;
 
-        var interval = policy.Frequency switch
+        var interval = frequency switch
         {
             BackupFrequency.Hourly => TimeSpan.FromHours(1),
             BackupFrequency.Daily => TimeSpan.FromDays(1),
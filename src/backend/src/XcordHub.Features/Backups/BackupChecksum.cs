@@ -0,0 +1,36 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace XcordHub.Features.Backups;
+
+/// <summary>
+/// Checksum of a backup as a whole: the SHA-256 of a manifest listing each stored
+/// object's name (relative to the backup's storage path) and SHA-256, in name order.
+/// <see cref="BackupExecutor"/> records it from the bytes it uploads and
+/// <see cref="BackupVerifier"/> recomputes it from the bytes it reads back.
+/// </summary>
+public static class BackupChecksum
+{
+    public static string HashObject(byte[] content) => Convert.ToHexStringLower(SHA256.HashData(content));
+
+    public static async Task<string> HashObjectAsync(Stream content, CancellationToken ct) =>
+        Convert.ToHexStringLower(await SHA256.HashDataAsync(content, ct));
+
+    /// <param name="objectHashes">Object hash by name relative to the backup's storage path.</param>
+    public static string Combine(IReadOnlyDictionary<string, string> objectHashes)
+    {
+        var manifest = new StringBuilder();
+        foreach (var (name, hash) in objectHashes.OrderBy(o => o.Key, StringComparer.Ordinal))
+        {
+            manifest.Append(name).Append(':').Append(hash).Append('\n');
+        }
+
+        return HashObject(Encoding.UTF8.GetBytes(manifest.ToString()));
+    }
+
+    /// <summary>
+    /// Name of <paramref name="key"/> relative to <paramref name="storagePath"/>.
+    /// </summary>
+    public static string ObjectName(string storagePath, string key) =>
+        key.StartsWith(storagePath + "/", StringComparison.Ordinal) ? key[(storagePath.Length + 1)..] : key;
+}
@@ -22,7 +22,7 @@ public sealed class BackupExecutor
         _logger = logger;
     }
 
-    public async Task ExecuteBackupAsync(ManagedInstance instance, BackupKind kind, CancellationToken ct)
+    public async Task<BackupRecord> ExecuteBackupAsync(ManagedInstance instance, BackupKind kind, CancellationToken ct)
     {
         var record = new BackupRecord
         {
@@ -47,22 +47,24 @@ public sealed class BackupExecutor
                 record.ErrorMessage = "Instance infrastructure not found";
                 record.CompletedAt = DateTimeOffset.UtcNow;
                 await _dbContext.SaveChangesAsync(ct);
-                return;
+                return record;
             }
 
             long totalSize = 0;
+            var objectHashes = new Dictionary<string, string>();
 
             if (kind is BackupKind.Database or BackupKind.Full)
-                totalSize += await BackupDatabaseAsync(instance, infra, record, ct);
+                totalSize += await BackupDatabaseAsync(instance, infra, record, objectHashes, ct);
 
             if (kind is BackupKind.Redis or BackupKind.Full)
-                totalSize += await BackupRedisAsync(instance, infra, record, ct);
+                totalSize += await BackupRedisAsync(instance, infra, record, objectHashes, ct);
 
             if (kind is BackupKind.Files or BackupKind.Full)
-                totalSize += await BackupFilesAsync(instance, infra, record, ct);
+                totalSize += await BackupFilesAsync(instance, infra, record, objectHashes, ct);
 
             record.Status = BackupStatus.Completed;
             record.SizeBytes = totalSize;
+            record.Checksum = BackupChecksum.Combine(objectHashes);
             record.CompletedAt = DateTimeOffset.UtcNow;
             await _dbContext.SaveChangesAsync(ct);
 
@@ -77,18 +79,19 @@ public sealed class BackupExecutor
             record.CompletedAt = DateTimeOffset.UtcNow;
             await _dbContext.SaveChangesAsync(ct);
         }
+
+        return record;
     }
 
     private async Task<long> BackupDatabaseAsync(
         ManagedInstance instance, InstanceInfrastructure infra,
-        BackupRecord record, CancellationToken ct)
+        BackupRecord record, Dictionary<string, string> objectHashes, CancellationToken ct)
     {
         _logger.LogInformation("Starting database backup for {Domain}", instance.Domain);
 
         // Record the database metadata for this backup.
         // Full pg_dump requires exec capability on the Docker container; when IDockerService
         // gains ExecAsync support this method should be updated to stream the actual dump.
-        var key = $"{record.StoragePath}/db-meta.json";
         var meta = System.Text.Json.JsonSerializer.SerializeToUtf8Bytes(new
         {
             databaseName = infra.DatabaseName,
@@ -97,8 +100,7 @@ public sealed class BackupExecutor
             timestamp = DateTimeOffset.UtcNow
         });
 
-        using var stream = new MemoryStream(meta);
-        await _coldStorageService.UploadAsync(key, stream, ct);
+        await UploadObjectAsync(record, "db-meta.json", meta, objectHashes, ct);
 
         _logger.LogInformation("Database metadata recorded for {Domain} ({Database})",
             instance.Domain, infra.DatabaseName);
@@ -108,14 +110,13 @@ public sealed class BackupExecutor
 
     private async Task<long> BackupRedisAsync(
         ManagedInstance instance, InstanceInfrastructure infra,
-        BackupRecord record, CancellationToken ct)
+        BackupRecord record, Dictionary<string, string> objectHashes, CancellationToken ct)
     {
         _logger.LogInformation("Starting Redis backup for {Domain}", instance.Domain);
 
         // Record the Redis configuration for this backup.
         // Full RDB copy requires exec/copy capability on the Docker container; when IDockerService
         // gains ExecAsync/CopyFromAsync support this method should trigger BGSAVE and copy dump.rdb.
-        var key = $"{record.StoragePath}/redis-meta.json";
         var meta = System.Text.Json.JsonSerializer.SerializeToUtf8Bytes(new
         {
             redisDb = infra.RedisDb,
@@ -123,8 +124,7 @@ public sealed class BackupExecutor
             timestamp = DateTimeOffset.UtcNow
         });
 
-        using var stream = new MemoryStream(meta);
-        await _coldStorageService.UploadAsync(key, stream, ct);
+        await UploadObjectAsync(record, "redis-meta.json", meta, objectHashes, ct);
 
         _logger.LogInformation("Redis metadata recorded for {Domain} (db {RedisDb})",
             instance.Domain, infra.RedisDb);
@@ -134,13 +134,12 @@ public sealed class BackupExecutor
 
     private async Task<long> BackupFilesAsync(
         ManagedInstance instance, InstanceInfrastructure infra,
-        BackupRecord record, CancellationToken ct)
+        BackupRecord record, Dictionary<string, string> objectHashes, CancellationToken ct)
     {
         _logger.LogInformation("Starting file backup for {Domain}", instance.Domain);
 
         var subdomain = ValidationHelpers.ExtractSubdomain(instance.Domain);
         var bucketName = $"xcord-{subdomain}";
-        var key = $"{record.StoragePath}/files-manifest.json";
 
         // List all objects in the instance's MinIO bucket and record the manifest.
         // A future implementation can mirror these objects into cold storage using the
@@ -152,12 +151,20 @@ public sealed class BackupExecutor
             timestamp = DateTimeOffset.UtcNow
         });
 
-        using var stream = new MemoryStream(manifest);
-        await _coldStorageService.UploadAsync(key, stream, ct);
+        await UploadObjectAsync(record, "files-manifest.json", manifest, objectHashes, ct);
 
         _logger.LogInformation("Files manifest recorded for {Domain} (bucket {Bucket})",
             instance.Domain, bucketName);
 
         return manifest.Length;
     }
+
+    private async Task UploadObjectAsync(
+        BackupRecord record, string name, byte[] content,
+        Dictionary<string, string> objectHashes, CancellationToken ct)
+    {
+        using var stream = new MemoryStream(content);
+        await _coldStorageService.UploadAsync($"{record.StoragePath}/{name}", stream, ct);
+        objectHashes[name] = BackupChecksum.HashObject(content);
+    }
 }
@@ -0,0 +1,182 @@
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record BackupTemplateRequest(
+    string Name,
+    string Frequency,
+    string? DatabaseFrequency,
+    int RetentionDays,
+    bool BackupDatabase,
+    bool BackupFiles,
+    bool BackupRedis,
+    int VerifySampleSize,
+    List<string> Tiers
+);
+
+public sealed record BackupPolicyChange(string Field, string Current, string Template);
+
+/// <summary>
+/// Rules shared by the backup template endpoints, the per-instance reset and
+/// provisioning: validating a template, copying it onto an instance's policy and
+/// listing where a policy differs from it.
+/// </summary>
+public static class BackupTemplateSettings
+{
+    public const int MaxVerifySampleSize = 10;
+
+    /// <summary>
+    /// Why <paramref name="request"/> does not describe a template, or null if it does.
+    /// </summary>
+    public static string? Validate(BackupTemplateRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name) || request.Name.Trim().Length > 100)
+            return "Name is required and must be at most 100 characters";
+
+        if (!Enum.TryParse<BackupFrequency>(request.Frequency, ignoreCase: true, out _))
+            return $"Frequency must be one of: {string.Join(", ", Enum.GetNames<BackupFrequency>())}";
+
+        if (request.DatabaseFrequency is not null
+            && !Enum.TryParse<BackupFrequency>(request.DatabaseFrequency, ignoreCase: true, out _))
+            return $"DatabaseFrequency must be empty or one of: {string.Join(", ", Enum.GetNames<BackupFrequency>())}";
+
+        if (request.RetentionDays < 1 || request.RetentionDays > 365)
+            return "RetentionDays must be between 1 and 365";
+
+        if (request.VerifySampleSize < 0 || request.VerifySampleSize > MaxVerifySampleSize)
+            return $"VerifySampleSize must be between 0 and {MaxVerifySampleSize}";
+
+        if (ParseTiers(request.Tiers) is null)
+            return $"Tiers must be distinct values of: {string.Join(", ", Enum.GetNames<InstanceTier>())}";
+
+        return null;
+    }
+
+    /// <summary>
+    /// The tiers named in <paramref name="names"/>, or null if one is unknown or repeated.
+    /// </summary>
+    public static List<InstanceTier>? ParseTiers(IEnumerable<string>? names)
+    {
+        var tiers = new List<InstanceTier>();
+        foreach (var name in names ?? [])
+        {
+            if (!Enum.TryParse<InstanceTier>(name, ignoreCase: true, out var tier)
+                || !Enum.IsDefined(tier)
+                || tiers.Contains(tier))
+                return null;
+
+            tiers.Add(tier);
+        }
+
+        return tiers;
+    }
+
+    /// <summary>
+    /// Copies a validated <paramref name="request"/> onto <paramref name="template"/>.
+    /// </summary>
+    public static void CopyTo(BackupTemplateRequest request, BackupPolicyTemplate template)
+    {
+        template.Name = request.Name.Trim();
+        template.Frequency = Enum.Parse<BackupFrequency>(request.Frequency, ignoreCase: true);
+        template.DatabaseFrequency = request.DatabaseFrequency is null
+            ? null
+            : Enum.Parse<BackupFrequency>(request.DatabaseFrequency, ignoreCase: true);
+        template.RetentionDays = request.RetentionDays;
+        template.BackupDatabase = request.BackupDatabase;
+        template.BackupFiles = request.BackupFiles;
+        template.BackupRedis = request.BackupRedis;
+        template.VerifySampleSize = request.VerifySampleSize;
+    }
+
+    /// <summary>
+    /// Gives <paramref name="policy"/> the template's settings and makes it follow the
+    /// template again. Whether scheduled backups are enabled is left as it is.
+    /// </summary>
+    public static void Apply(BackupPolicyTemplate template, BackupPolicy policy)
+    {
+        policy.Frequency = template.Frequency;
+        policy.DatabaseFrequency = template.DatabaseFrequency;
+        policy.RetentionDays = template.RetentionDays;
+        policy.BackupDatabase = template.BackupDatabase;
+        policy.BackupFiles = template.BackupFiles;
+        policy.BackupRedis = template.BackupRedis;
+        policy.VerifySampleSize = template.VerifySampleSize;
+        policy.BackupPolicyTemplateId = template.Id;
+        policy.IsOverridden = false;
+    }
+
+    /// <summary>
+    /// The settings of <paramref name="policy"/> that applying <paramref name="template"/> would change.
+    /// </summary>
+    public static List<BackupPolicyChange> Diff(BackupPolicy policy, BackupPolicyTemplate template)
+    {
+        var changes = new List<BackupPolicyChange>();
+
+        void Compare<T>(string field, T current, T target)
+        {
+            if (!EqualityComparer<T>.Default.Equals(current, target))
+                changes.Add(new BackupPolicyChange(field, Format(current), Format(target)));
+        }
+
+        Compare("frequency", policy.Frequency, template.Frequency);
+        Compare("databaseFrequency", policy.DatabaseFrequency, template.DatabaseFrequency);
+        Compare("retentionDays", policy.RetentionDays, template.RetentionDays);
+        Compare("backupDatabase", policy.BackupDatabase, template.BackupDatabase);
+        Compare("backupFiles", policy.BackupFiles, template.BackupFiles);
+        Compare("backupRedis", policy.BackupRedis, template.BackupRedis);
+        Compare("verifySampleSize", policy.VerifySampleSize, template.VerifySampleSize);
+
+        return changes;
+    }
+
+    private static string Format<T>(T value) => value switch
+    {
+        null => "None",
+        bool flag => flag ? "Yes" : "No",
+        _ => value.ToString()!
+    };
+
+    /// <summary>
+    /// Policies of the live instances on any of <paramref name="tiers"/>, with their
+    /// instance and billing loaded. An instance without billing counts as Free.
+    /// </summary>
+    internal static IQueryable<BackupPolicy> PoliciesOnTiers(HubDbContext dbContext, IReadOnlyCollection<InstanceTier> tiers) =>
+        dbContext.BackupPolicies
+            .Include(p => p.ManagedInstance)
+            .ThenInclude(i => i.Billing)
+            .Where(p => p.ManagedInstance.DeletedAt == null
+                && tiers.Contains(p.ManagedInstance.Billing != null ? p.ManagedInstance.Billing.Tier : InstanceTier.Free));
+
+    /// <summary>
+    /// Gives <paramref name="tiers"/> to <paramref name="template"/>, taking them from any
+    /// other template, and releases the tiers it no longer has.
+    /// </summary>
+    internal static async Task AssignTiersAsync(
+        HubDbContext dbContext, BackupPolicyTemplate template, IReadOnlyCollection<InstanceTier> tiers, CancellationToken ct)
+    {
+        var assigned = await dbContext.BackupTemplateTiers
+            .Where(t => tiers.Contains(t.Tier) || t.BackupPolicyTemplateId == template.Id)
+            .ToListAsync(ct);
+
+        dbContext.BackupTemplateTiers.RemoveRange(assigned.Where(t => !tiers.Contains(t.Tier)));
+
+        foreach (var tier in tiers)
+        {
+            if (assigned.FirstOrDefault(t => t.Tier == tier) is { } existing)
+                existing.BackupPolicyTemplateId = template.Id;
+            else
+                dbContext.BackupTemplateTiers.Add(new BackupTemplateTier { Tier = tier, BackupPolicyTemplateId = template.Id });
+        }
+    }
+
+    /// <summary>
+    /// The template assigned to <paramref name="tier"/>, or null.
+    /// </summary>
+    internal static Task<BackupPolicyTemplate?> ForTierAsync(HubDbContext dbContext, InstanceTier tier, CancellationToken ct) =>
+        dbContext.BackupTemplateTiers
+            .Where(t => t.Tier == tier)
+            .Select(t => t.Template)
+            .FirstOrDefaultAsync(ct);
+}
@@ -0,0 +1,70 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Backups;
+
+/// <summary>
+/// Once a day per policy, verifies a random sample of the instance's completed
+/// backups (<see cref="BackupPolicy.VerifySampleSize"/> of them) so a corrupt or
+/// missing backup is noticed before it is needed for a restore. Backups without a
+/// recorded checksum cannot be verified and are never sampled.
+/// </summary>
+public sealed class BackupVerificationBackgroundService(
+    IServiceScopeFactory serviceScopeFactory,
+    ILogger<BackupVerificationBackgroundService> logger) : PollingBackgroundService(serviceScopeFactory, logger)
+{
+    internal static readonly TimeSpan VerificationInterval = TimeSpan.FromDays(1);
+
+    protected override TimeSpan Interval => TimeSpan.FromMinutes(15);
+
+    protected override async Task ProcessAsync(CancellationToken ct)
+    {
+        using var scope = ServiceScopeFactory.CreateScope();
+        if (!scope.ServiceProvider.GetRequiredService<IColdStorageService>().IsConfigured)
+            return;
+
+        var dbContext = scope.ServiceProvider.GetRequiredService<HubDbContext>();
+        var verifier = scope.ServiceProvider.GetRequiredService<BackupVerifier>();
+
+        var dueBefore = DateTimeOffset.UtcNow - VerificationInterval;
+        var policies = await dbContext.BackupPolicies
+            .Where(p => p.Enabled && p.VerifySampleSize > 0
+                && (p.LastVerifiedAt == null || p.LastVerifiedAt <= dueBefore))
+            .ToListAsync(ct);
+
+        foreach (var policy in policies)
+        {
+            var backupIds = await dbContext.BackupRecords
+                .Where(r => r.ManagedInstanceId == policy.ManagedInstanceId && r.Status == BackupStatus.Completed
+                    && r.Checksum != null)
+                .Select(r => r.Id)
+                .ToListAsync(ct);
+
+            foreach (var backupId in Sample(backupIds, policy.VerifySampleSize, Random.Shared))
+            {
+                var backup = await dbContext.BackupRecords.FirstAsync(r => r.Id == backupId, ct);
+                await verifier.VerifyAsync(backup, ct);
+            }
+
+            policy.LastVerifiedAt = DateTimeOffset.UtcNow;
+            await dbContext.SaveChangesAsync(ct);
+
+            Logger.LogInformation("Verified {Count} sampled backups of instance {InstanceId}",
+                Math.Min(backupIds.Count, policy.VerifySampleSize), policy.ManagedInstanceId);
+        }
+    }
+
+    /// <summary>
+    /// Up to <paramref name="size"/> distinct ids picked uniformly at random.
+    /// </summary>
+    internal static IReadOnlyList<long> Sample(IReadOnlyList<long> ids, int size, Random random)
+    {
+        var shuffled = ids.ToArray();
+        random.Shuffle(shuffled);
+        return shuffled.Take(Math.Max(0, size)).ToList();
+    }
+}
@@ -0,0 +1,67 @@
+using Microsoft.Extensions.Logging;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Backups;
+
+/// <summary>
+/// Re-reads a completed backup from cold storage and compares it with the checksum
+/// recorded when it was taken, storing the outcome on the <see cref="BackupRecord"/>.
+/// Used by the admin "Verify" action and by <see cref="BackupVerificationBackgroundService"/>.
+/// Backups taken before checksums were recorded cannot be checked and stay unverified.
+/// </summary>
+public sealed class BackupVerifier(
+    HubDbContext dbContext,
+    IColdStorageService coldStorageService,
+    ILogger<BackupVerifier> logger)
+{
+    public async Task VerifyAsync(BackupRecord backup, CancellationToken ct)
+    {
+        if (backup.Checksum is null)
+        {
+            logger.LogDebug("Backup {BackupId} has no checksum to verify against", backup.Id);
+            return;
+        }
+
+        string? problem;
+        try
+        {
+            problem = await FindProblemAsync(backup, ct);
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            logger.LogWarning(ex, "Could not read backup {BackupId} at {StoragePath}", backup.Id, backup.StoragePath);
+            problem = $"Could not read the backup: {ex.Message}";
+        }
+
+        backup.VerificationStatus = problem is null ? BackupVerificationStatus.Passed : BackupVerificationStatus.Failed;
+        backup.VerificationError = problem is { Length: > 2000 } ? problem[..2000] : problem;
+        backup.VerifiedAt = DateTimeOffset.UtcNow;
+        await dbContext.SaveChangesAsync(ct);
+
+        if (problem is null)
+            logger.LogInformation("Backup {BackupId} verified", backup.Id);
+        else
+            logger.LogWarning("Backup {BackupId} failed verification: {Problem}", backup.Id, problem);
+    }
+
+    private async Task<string?> FindProblemAsync(BackupRecord backup, CancellationToken ct)
+    {
+        var keys = await coldStorageService.ListObjectsAsync(backup.StoragePath + "/", ct);
+        if (keys.Count == 0)
+            return "The backup has no objects in cold storage";
+
+        var objectHashes = new Dictionary<string, string>();
+        foreach (var key in keys)
+        {
+            await using var content = await coldStorageService.DownloadAsync(key, ct);
+            objectHashes[BackupChecksum.ObjectName(backup.StoragePath, key)] =
+                await BackupChecksum.HashObjectAsync(content, ct);
+        }
+
+        return BackupChecksum.Combine(objectHashes) == backup.Checksum
+            ? null
+            : "The stored objects do not match the checksum recorded when the backup was taken";
+    }
+}
@@ -0,0 +1,73 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record CreateBackupTemplateCommand(BackupTemplateRequest Request);
+
+/// <summary>
+/// Creates a named backup policy template and assigns it the requested tiers, taking
+/// them from any template that had them. Existing instances keep their policies until
+/// the template is applied.
+/// </summary>
+public sealed class CreateBackupTemplateHandler(HubDbContext dbContext, SnowflakeIdGenerator snowflakeId, IAuditLog auditLog)
+    : IRequestHandler<CreateBackupTemplateCommand, Result<BackupTemplateItem>>,
+      IValidatable<CreateBackupTemplateCommand>
+{
+    public Error? Validate(CreateBackupTemplateCommand request)
+    {
+        if (BackupTemplateSettings.Validate(request.Request) is { } problem)
+            return Error.Validation("VALIDATION_FAILED", problem);
+
+        return null;
+    }
+
+    public async Task<Result<BackupTemplateItem>> Handle(CreateBackupTemplateCommand request, CancellationToken cancellationToken)
+    {
+        var name = request.Request.Name.Trim();
+        if (await dbContext.BackupPolicyTemplates.AnyAsync(t => t.Name == name, cancellationToken))
+            return Error.Conflict("TEMPLATE_NAME_TAKEN", $"A backup template named '{name}' already exists");
+
+        var now = DateTimeOffset.UtcNow;
+        var template = new BackupPolicyTemplate
+        {
+            Id = snowflakeId.NextId(),
+            CreatedAt = now,
+            UpdatedAt = now
+        };
+        BackupTemplateSettings.CopyTo(request.Request, template);
+        dbContext.BackupPolicyTemplates.Add(template);
+
+        var tiers = BackupTemplateSettings.ParseTiers(request.Request.Tiers)!;
+        await BackupTemplateSettings.AssignTiersAsync(dbContext, template, tiers, cancellationToken);
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.BackupTemplateCreate, AuditTargets.BackupTemplate, template.Id.ToString(),
+            after: UpdateBackupTemplateHandler.Snapshot(template, tiers),
+            cancellationToken: cancellationToken);
+
+        return ListBackupTemplatesHandler.ToItem(template, 0, 0);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/backup-templates", async (
+            BackupTemplateRequest request,
+            CreateBackupTemplateHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new CreateBackupTemplateCommand(request), ct,
+                result => Results.Created($"/api/v1/admin/backup-templates/{result.Id}", result));
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<BackupTemplateItem>(201)
+        .WithName("AdminCreateBackupTemplate")
+        .WithTags("Admin");
+    }
+}
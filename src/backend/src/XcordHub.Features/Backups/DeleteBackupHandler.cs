@@ -4,6 +4,7 @@ using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using XcordHub;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 using XcordHub.Infrastructure.Services;
 using XcordHub.Shared.Extensions;
@@ -15,6 +16,7 @@ public sealed record DeleteBackupCommand(long InstanceId, long BackupId);
 public sealed class DeleteBackupHandler(
     HubDbContext dbContext,
     IColdStorageService coldStorageService,
+    IAuditLog auditLog,
     ILogger<DeleteBackupHandler> logger)
     : IRequestHandler<DeleteBackupCommand, Result<SuccessResponse>>
 {
@@ -36,6 +38,17 @@ public sealed class DeleteBackupHandler(
         backup.SoftDelete();
         await dbContext.SaveChangesAsync(cancellationToken);
 
+        await auditLog.RecordAsync(AuditActions.BackupDelete, AuditTargets.Backup, backup.Id.ToString(),
+            before: new
+            {
+                InstanceId = backup.ManagedInstanceId.ToString(),
+                Status = backup.Status.ToString(),
+                Kind = backup.Kind.ToString(),
+                backup.SizeBytes,
+                backup.StoragePath
+            },
+            cancellationToken: cancellationToken);
+
         // Delete storage objects - best effort; log but don't fail if storage deletion fails
         if (!string.IsNullOrEmpty(backup.StoragePath))
         {
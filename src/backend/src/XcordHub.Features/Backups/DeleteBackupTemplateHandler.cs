@@ -0,0 +1,66 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record DeleteBackupTemplateCommand(long TemplateId);
+
+/// <summary>
+/// Deletes a backup policy template and its tier assignments. Instance policies keep
+/// their current settings but no longer follow a template.
+/// </summary>
+public sealed class DeleteBackupTemplateHandler(HubDbContext dbContext, IAuditLog auditLog)
+    : IRequestHandler<DeleteBackupTemplateCommand, Result<SuccessResponse>>
+{
+    public async Task<Result<SuccessResponse>> Handle(DeleteBackupTemplateCommand request, CancellationToken cancellationToken)
+    {
+        var template = await dbContext.BackupPolicyTemplates
+            .Include(t => t.Tiers)
+            .FirstOrDefaultAsync(t => t.Id == request.TemplateId, cancellationToken);
+
+        if (template is null)
+            return Error.NotFound("TEMPLATE_NOT_FOUND", "Backup template not found");
+
+        var policies = await dbContext.BackupPolicies
+            .IgnoreQueryFilters()
+            .Where(p => p.BackupPolicyTemplateId == template.Id)
+            .ToListAsync(cancellationToken);
+
+        foreach (var policy in policies)
+        {
+            policy.BackupPolicyTemplateId = null;
+            policy.IsOverridden = false;
+        }
+
+        var before = UpdateBackupTemplateHandler.Snapshot(template, template.Tiers.Select(t => t.Tier).ToList());
+
+        dbContext.BackupPolicyTemplates.Remove(template);
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.BackupTemplateDelete, AuditTargets.BackupTemplate, template.Id.ToString(),
+            before: before,
+            cancellationToken: cancellationToken);
+
+        return new SuccessResponse(true);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapDelete("/api/v1/admin/backup-templates/{templateId:long}", async (
+            long templateId,
+            DeleteBackupTemplateHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new DeleteBackupTemplateCommand(templateId), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<SuccessResponse>(200)
+        .WithName("AdminDeleteBackupTemplate")
+        .WithTags("Admin");
+    }
+}
@@ -0,0 +1,86 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record DownloadBackupCommand(long InstanceId, long BackupId);
+
+public sealed record BackupDownloadFile(string Name, string Url);
+
+public sealed record BackupDownloadResponse(List<BackupDownloadFile> Files, DateTimeOffset ExpiresAt);
+
+/// <summary>
+/// Signs short-lived download URLs for every object of a completed backup, so an
+/// admin can fetch it straight from cold storage without the hub proxying the data.
+/// </summary>
+public sealed class DownloadBackupHandler(
+    HubDbContext dbContext,
+    IColdStorageService coldStorageService,
+    IAuditLog auditLog)
+    : IRequestHandler<DownloadBackupCommand, Result<BackupDownloadResponse>>
+{
+    internal static readonly TimeSpan UrlLifetime = TimeSpan.FromMinutes(15);
+
+    public async Task<Result<BackupDownloadResponse>> Handle(DownloadBackupCommand request, CancellationToken cancellationToken)
+    {
+        var backup = await dbContext.BackupRecords
+            .FirstOrDefaultAsync(r => r.Id == request.BackupId && r.ManagedInstanceId == request.InstanceId
+                && r.ManagedInstance.DeletedAt == null, cancellationToken);
+
+        if (backup is null)
+            return Error.NotFound("BACKUP_NOT_FOUND", "Backup record not found");
+
+        if (backup.Status != BackupStatus.Completed)
+            return Error.Conflict("BACKUP_NOT_COMPLETED", "Only completed backups can be downloaded");
+
+        if (!coldStorageService.IsConfigured)
+            return Error.Conflict("COLD_STORAGE_NOT_CONFIGURED", "Cold storage is not configured, so the backup cannot be downloaded");
+
+        var keys = await coldStorageService.ListObjectsAsync(backup.StoragePath + "/", cancellationToken);
+        if (keys.Count == 0)
+            return Error.Conflict("BACKUP_NOT_STORED", "The backup has no objects in cold storage");
+
+        var expiresAt = DateTimeOffset.UtcNow.Add(UrlLifetime);
+        var files = new List<BackupDownloadFile>();
+        foreach (var key in keys.Order(StringComparer.Ordinal))
+        {
+            var url = await coldStorageService.GetDownloadUrlAsync(key, UrlLifetime, cancellationToken);
+            files.Add(new BackupDownloadFile(BackupChecksum.ObjectName(backup.StoragePath, key), url));
+        }
+
+        await auditLog.RecordAsync(AuditActions.BackupDownload, AuditTargets.Backup, backup.Id.ToString(),
+            after: new
+            {
+                InstanceId = backup.ManagedInstanceId.ToString(),
+                Files = files.Select(f => f.Name).ToList(),
+                ExpiresAt = expiresAt
+            },
+            cancellationToken: cancellationToken);
+
+        return new BackupDownloadResponse(files, expiresAt);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/backups/{backupId:long}/download", async (
+            long id,
+            long backupId,
+            DownloadBackupHandler handler,
+            CancellationToken ct) =>
+        {
+            var command = new DownloadBackupCommand(id, backupId);
+            return await handler.ExecuteAsync(command, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<BackupDownloadResponse>(200)
+        .WithName("AdminDownloadBackup")
+        .WithTags("Admin");
+    }
+}
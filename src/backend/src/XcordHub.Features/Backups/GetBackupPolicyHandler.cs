@@ -14,10 +14,16 @@ public sealed record BackupPolicyResponse(
     string InstanceId,
     bool Enabled,
     string Frequency,
+    string? DatabaseFrequency,
     int RetentionDays,
     bool BackupDatabase,
     bool BackupFiles,
-    bool BackupRedis
+    bool BackupRedis,
+    int VerifySampleSize,
+    DateTimeOffset? LastVerifiedAt,
+    string? TemplateId,
+    string? TemplateName,
+    bool IsOverridden
 );
 
 public sealed class GetBackupPolicyHandler(HubDbContext dbContext)
@@ -32,6 +38,7 @@ public sealed class GetBackupPolicyHandler(HubDbContext dbContext)
             return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
 
         var policy = await dbContext.BackupPolicies
+            .Include(p => p.Template)
             .FirstOrDefaultAsync(p => p.ManagedInstanceId == request.InstanceId, cancellationToken);
 
         if (policy is null)
@@ -41,22 +48,39 @@ public sealed class GetBackupPolicyHandler(HubDbContext dbContext)
                 request.InstanceId.ToString(),
                 Enabled: true,
                 Frequency: BackupFrequency.Daily.ToString(),
+                DatabaseFrequency: null,
                 RetentionDays: 30,
                 BackupDatabase: true,
                 BackupFiles: true,
-                BackupRedis: true);
+                BackupRedis: true,
+                VerifySampleSize: 1,
+                LastVerifiedAt: null,
+                TemplateId: null,
+                TemplateName: null,
+                IsOverridden: false);
         }
 
-        return new BackupPolicyResponse(
-            policy.ManagedInstanceId.ToString(),
-            policy.Enabled,
-            policy.Frequency.ToString(),
-            policy.RetentionDays,
-            policy.BackupDatabase,
-            policy.BackupFiles,
-            policy.BackupRedis);
+        return ToResponse(policy);
     }
 
+    /// <summary>
+    /// The response for <paramref name="policy"/>, whose template must be loaded.
+    /// </summary>
+    internal static BackupPolicyResponse ToResponse(BackupPolicy policy) => new(
+        policy.ManagedInstanceId.ToString(),
+        policy.Enabled,
+        policy.Frequency.ToString(),
+        policy.DatabaseFrequency?.ToString(),
+        policy.RetentionDays,
+        policy.BackupDatabase,
+        policy.BackupFiles,
+        policy.BackupRedis,
+        policy.VerifySampleSize,
+        policy.LastVerifiedAt,
+        policy.BackupPolicyTemplateId?.ToString(),
+        policy.Template?.Name,
+        policy.IsOverridden);
+
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
     {
         return app.MapGet("/api/v1/admin/instances/{id:long}/backup-policy", async (
@@ -0,0 +1,205 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record GetBackupStorageQuery(int Days);
+
+public sealed record BackupStorageResponse(
+    long TotalBytes,
+    int BackupCount,
+    List<BackupStorageKindLine> Kinds,
+    List<BackupStorageTierLine> Tiers,
+    List<BackupStorageInstanceLine> Instances,
+    List<BackupStorageDay> Growth
+);
+
+public sealed record BackupStorageKindLine(string Kind, long Bytes, int Count);
+
+public sealed record BackupStorageTierLine(string Tier, long Bytes, int Count, int InstanceCount);
+
+public sealed record BackupStorageInstanceLine(
+    string InstanceId,
+    string Domain,
+    string Tier,
+    long Bytes,
+    int Count,
+    DateTimeOffset? LastBackupAt
+);
+
+public sealed record BackupStorageDay(string Date, long AddedBytes, long RemovedBytes, long StoredBytes);
+
+public sealed record DailyBackupBytes(DateOnly Date, long Bytes);
+
+/// <summary>
+/// Fleet-wide backup storage: what completed backups take up now, per instance, kind
+/// and tier, and how the stored total moved day by day over the last <c>days</c> days.
+/// Backups count from when they completed until they are deleted, so the history also
+/// reads deleted records.
+/// </summary>
+public sealed class GetBackupStorageHandler(HubDbContext dbContext)
+    : IRequestHandler<GetBackupStorageQuery, Result<BackupStorageResponse>>,
+      IValidatable<GetBackupStorageQuery>
+{
+    public Error? Validate(GetBackupStorageQuery request)
+    {
+        if (request.Days < 1 || request.Days > 365)
+            return Error.Validation("INVALID_DAYS", "Days must be between 1 and 365");
+
+        return null;
+    }
+
+    public async Task<Result<BackupStorageResponse>> Handle(GetBackupStorageQuery request, CancellationToken cancellationToken)
+    {
+        var stored = dbContext.BackupRecords.Where(r => r.Status == BackupStatus.Completed);
+
+        var byKind = await stored
+            .GroupBy(r => r.Kind)
+            .Select(g => new { Kind = g.Key, Bytes = g.Sum(r => r.SizeBytes), Count = g.Count() })
+            .ToDictionaryAsync(g => g.Kind, cancellationToken);
+
+        var byInstance = await stored
+            .GroupBy(r => r.ManagedInstanceId)
+            .Select(g => new
+            {
+                InstanceId = g.Key,
+                Bytes = g.Sum(r => r.SizeBytes),
+                Count = g.Count(),
+                LastBackupAt = g.Max(r => r.CompletedAt)
+            })
+            .ToListAsync(cancellationToken);
+
+        // Backups outlive a deleted instance until they are deleted themselves
+        var instanceIds = byInstance.Select(i => i.InstanceId).ToList();
+        var instances = await dbContext.ManagedInstances
+            .IgnoreQueryFilters()
+            .AsNoTracking()
+            .Include(i => i.Billing)
+            .Where(i => instanceIds.Contains(i.Id))
+            .ToDictionaryAsync(i => i.Id, cancellationToken);
+
+        var instanceLines = byInstance
+            .Select(i => new BackupStorageInstanceLine(
+                InstanceId: i.InstanceId.ToString(),
+                Domain: instances.TryGetValue(i.InstanceId, out var instance) ? instance.Domain : "unknown",
+                Tier: (instances.GetValueOrDefault(i.InstanceId)?.Billing?.Tier ?? InstanceTier.Free).ToString(),
+                Bytes: i.Bytes,
+                Count: i.Count,
+                LastBackupAt: i.LastBackupAt))
+            .OrderByDescending(i => i.Bytes)
+            .ThenBy(i => i.Domain)
+            .ToList();
+
+        var kinds = Enum.GetValues<BackupKind>()
+            .Select(kind => byKind.TryGetValue(kind, out var total)
+                ? new BackupStorageKindLine(kind.ToString(), total.Bytes, total.Count)
+                : new BackupStorageKindLine(kind.ToString(), 0, 0))
+            .ToList();
+
+        var tiers = Enum.GetValues<InstanceTier>()
+            .Select(tier =>
+            {
+                var lines = instanceLines.Where(i => i.Tier == tier.ToString()).ToList();
+                return new BackupStorageTierLine(tier.ToString(), lines.Sum(i => i.Bytes), lines.Sum(i => i.Count), lines.Count);
+            })
+            .ToList();
+
+        var growth = await BuildGrowthAsync(request.Days, cancellationToken);
+
+        return new BackupStorageResponse(
+            TotalBytes: instanceLines.Sum(i => i.Bytes),
+            BackupCount: instanceLines.Sum(i => i.Count),
+            Kinds: kinds,
+            Tiers: tiers,
+            Instances: instanceLines,
+            Growth: growth);
+    }
+
+    private async Task<List<BackupStorageDay>> BuildGrowthAsync(int days, CancellationToken cancellationToken)
+    {
+        var today = DateOnly.FromDateTime(DateTimeOffset.UtcNow.UtcDateTime);
+        var firstDay = today.AddDays(1 - days);
+        var rangeStart = new DateTimeOffset(firstDay.ToDateTime(TimeOnly.MinValue), TimeSpan.Zero);
+
+        var completed = dbContext.BackupRecords
+            .IgnoreQueryFilters()
+            .Where(r => r.Status == BackupStatus.Completed);
+
+        var startingBytes = await completed
+            .Where(r => (r.CompletedAt ?? r.StartedAt) < rangeStart && (r.DeletedAt == null || r.DeletedAt >= rangeStart))
+            .SumAsync(r => r.SizeBytes, cancellationToken);
+
+        var added = await completed
+            .Where(r => (r.CompletedAt ?? r.StartedAt) >= rangeStart)
+            .GroupBy(r => new
+            {
+                (r.CompletedAt ?? r.StartedAt).Year,
+                (r.CompletedAt ?? r.StartedAt).Month,
+                (r.CompletedAt ?? r.StartedAt).Day
+            })
+            .Select(g => new { g.Key.Year, g.Key.Month, g.Key.Day, Bytes = g.Sum(r => r.SizeBytes) })
+            .ToListAsync(cancellationToken);
+
+        var removed = await completed
+            .Where(r => r.DeletedAt >= rangeStart)
+            .GroupBy(r => new { r.DeletedAt!.Value.Year, r.DeletedAt.Value.Month, r.DeletedAt.Value.Day })
+            .Select(g => new { g.Key.Year, g.Key.Month, g.Key.Day, Bytes = g.Sum(r => r.SizeBytes) })
+            .ToListAsync(cancellationToken);
+
+        return BuildDailySeries(
+            firstDay,
+            today,
+            startingBytes,
+            added.Select(a => new DailyBackupBytes(new DateOnly(a.Year, a.Month, a.Day), a.Bytes)),
+            removed.Select(r => new DailyBackupBytes(new DateOnly(r.Year, r.Month, r.Day), r.Bytes)));
+    }
+
+    /// <summary>
+    /// One line per UTC day from <paramref name="firstDay"/> to <paramref name="lastDay"/>,
+    /// oldest first, with the bytes stored at the end of each day starting from
+    /// <paramref name="startingBytes"/>. Days without backups get zero lines so charts
+    /// get a contiguous series.
+    /// </summary>
+    public static List<BackupStorageDay> BuildDailySeries(
+        DateOnly firstDay,
+        DateOnly lastDay,
+        long startingBytes,
+        IEnumerable<DailyBackupBytes> added,
+        IEnumerable<DailyBackupBytes> removed)
+    {
+        var addedByDay = added.GroupBy(a => a.Date).ToDictionary(g => g.Key, g => g.Sum(a => a.Bytes));
+        var removedByDay = removed.GroupBy(r => r.Date).ToDictionary(g => g.Key, g => g.Sum(r => r.Bytes));
+        var storedBytes = startingBytes;
+        var days = new List<BackupStorageDay>();
+
+        for (var day = firstDay; day <= lastDay; day = day.AddDays(1))
+        {
+            var addedBytes = addedByDay.GetValueOrDefault(day);
+            var removedBytes = removedByDay.GetValueOrDefault(day);
+            storedBytes += addedBytes - removedBytes;
+            days.Add(new BackupStorageDay($"{day.Year:D4}-{day.Month:D2}-{day.Day:D2}", addedBytes, removedBytes, storedBytes));
+        }
+
+        return days;
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/backups/storage", async (
+            int? days,
+            GetBackupStorageHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new GetBackupStorageQuery(days ?? 30), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<BackupStorageResponse>(200)
+        .WithName("AdminGetBackupStorage")
+        .WithTags("Admin");
+    }
+}
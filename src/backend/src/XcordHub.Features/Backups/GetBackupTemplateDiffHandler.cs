@@ -0,0 +1,81 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record GetBackupTemplateDiffQuery(long TemplateId);
+
+public sealed record BackupTemplateDiffItem(
+    string InstanceId,
+    string Domain,
+    string Tier,
+    bool IsOverridden,
+    List<BackupPolicyChange> Changes
+);
+
+public sealed record BackupTemplateDiffResponse(
+    string TemplateId,
+    List<BackupTemplateDiffItem> Instances,
+    int UnchangedCount
+);
+
+/// <summary>
+/// Lists the instances on the template's tiers whose backup policy differs from it,
+/// field by field, so an admin can review a bulk apply first. Overridden policies are
+/// listed too but marked, since applying the template leaves them alone.
+/// </summary>
+public sealed class GetBackupTemplateDiffHandler(HubDbContext dbContext)
+    : IRequestHandler<GetBackupTemplateDiffQuery, Result<BackupTemplateDiffResponse>>
+{
+    public async Task<Result<BackupTemplateDiffResponse>> Handle(GetBackupTemplateDiffQuery request, CancellationToken cancellationToken)
+    {
+        var template = await dbContext.BackupPolicyTemplates
+            .Include(t => t.Tiers)
+            .FirstOrDefaultAsync(t => t.Id == request.TemplateId, cancellationToken);
+
+        if (template is null)
+            return Error.NotFound("TEMPLATE_NOT_FOUND", "Backup template not found");
+
+        var tiers = template.Tiers.Select(t => t.Tier).ToList();
+        var policies = await BackupTemplateSettings.PoliciesOnTiers(dbContext, tiers)
+            .OrderBy(p => p.ManagedInstance.Domain)
+            .ToListAsync(cancellationToken);
+
+        var instances = new List<BackupTemplateDiffItem>();
+        foreach (var policy in policies)
+        {
+            var changes = BackupTemplateSettings.Diff(policy, template);
+            if (changes.Count == 0)
+                continue;
+
+            instances.Add(new BackupTemplateDiffItem(
+                policy.ManagedInstanceId.ToString(),
+                policy.ManagedInstance.Domain,
+                (policy.ManagedInstance.Billing?.Tier ?? InstanceTier.Free).ToString(),
+                policy.IsOverridden,
+                changes));
+        }
+
+        return new BackupTemplateDiffResponse(template.Id.ToString(), instances, policies.Count - instances.Count);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/backup-templates/{templateId:long}/diff", async (
+            long templateId,
+            GetBackupTemplateDiffHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new GetBackupTemplateDiffQuery(templateId), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<BackupTemplateDiffResponse>(200)
+        .WithName("AdminGetBackupTemplateDiff")
+        .WithTags("Admin");
+    }
+}
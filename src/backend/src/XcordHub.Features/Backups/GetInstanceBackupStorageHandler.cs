@@ -0,0 +1,77 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record GetInstanceBackupStorageQuery(long InstanceId);
+
+public sealed record BackupKindSize(string Kind, long AverageBytes, int SampleCount);
+
+public sealed record InstanceBackupStorageResponse(
+    string InstanceId,
+    long StoredBytes,
+    int StoredCount,
+    List<BackupKindSize> RecentSizes
+);
+
+/// <summary>
+/// What an instance's completed backups take up now, and the average size of its most
+/// recent backups of each kind so the policy editor can estimate what a frequency and
+/// retention would keep.
+/// </summary>
+public sealed class GetInstanceBackupStorageHandler(HubDbContext dbContext)
+    : IRequestHandler<GetInstanceBackupStorageQuery, Result<InstanceBackupStorageResponse>>
+{
+    private const int RecentSampleSize = 10;
+
+    public async Task<Result<InstanceBackupStorageResponse>> Handle(GetInstanceBackupStorageQuery request, CancellationToken cancellationToken)
+    {
+        var instanceExists = await dbContext.ManagedInstances
+            .AnyAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (!instanceExists)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        var backups = await dbContext.BackupRecords
+            .Where(r => r.ManagedInstanceId == request.InstanceId && r.Status == BackupStatus.Completed)
+            .OrderByDescending(r => r.StartedAt)
+            .Select(r => new { r.Kind, r.SizeBytes })
+            .ToListAsync(cancellationToken);
+
+        var recentSizes = backups
+            .GroupBy(b => b.Kind)
+            .OrderBy(g => g.Key)
+            .Select(g =>
+            {
+                var recent = g.Take(RecentSampleSize).ToList();
+                return new BackupKindSize(g.Key.ToString(), (long)recent.Average(b => b.SizeBytes), recent.Count);
+            })
+            .ToList();
+
+        return new InstanceBackupStorageResponse(
+            request.InstanceId.ToString(),
+            backups.Sum(b => b.SizeBytes),
+            backups.Count,
+            recentSizes);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/instances/{id:long}/backups/storage", async (
+            long id,
+            GetInstanceBackupStorageHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new GetInstanceBackupStorageQuery(id), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<InstanceBackupStorageResponse>(200)
+        .WithName("AdminGetInstanceBackupStorage")
+        .WithTags("Admin");
+    }
+}
@@ -3,6 +3,7 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub;
+using XcordHub.Entities;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Backups;
@@ -18,7 +19,11 @@ public sealed record BackupRecordItem(
     string StoragePath,
     string? ErrorMessage,
     DateTimeOffset StartedAt,
-    DateTimeOffset? CompletedAt
+    DateTimeOffset? CompletedAt,
+    string? Checksum,
+    string VerificationStatus,
+    DateTimeOffset? VerifiedAt,
+    string? VerificationError
 );
 
 public sealed record ListBackupRecordsResponse(
@@ -52,21 +57,26 @@ public sealed class ListBackupRecordsHandler(HubDbContext dbContext)
             .OrderByDescending(r => r.StartedAt)
             .Skip(skip)
             .Take(pageSize)
-            .Select(r => new BackupRecordItem(
-                r.Id.ToString(),
-                r.ManagedInstanceId.ToString(),
-                r.Status.ToString(),
-                r.Kind.ToString(),
-                r.SizeBytes,
-                r.StoragePath,
-                r.ErrorMessage,
-                r.StartedAt,
-                r.CompletedAt))
             .ToListAsync(cancellationToken);
 
-        return new ListBackupRecordsResponse(records, total, page, pageSize);
+        return new ListBackupRecordsResponse(records.Select(ToItem).ToList(), total, page, pageSize);
     }
 
+    internal static BackupRecordItem ToItem(BackupRecord record) => new(
+        record.Id.ToString(),
+        record.ManagedInstanceId.ToString(),
+        record.Status.ToString(),
+        record.Kind.ToString(),
+        record.SizeBytes,
+        record.StoragePath,
+        record.ErrorMessage,
+        record.StartedAt,
+        record.CompletedAt,
+        record.Checksum,
+        record.VerificationStatus.ToString(),
+        record.VerifiedAt,
+        record.VerificationError);
+
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
     {
         return app.MapGet("/api/v1/admin/instances/{id:long}/backups", async (
@@ -0,0 +1,82 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record ListBackupTemplatesQuery;
+
+public sealed record BackupTemplateItem(
+    string Id,
+    string Name,
+    string Frequency,
+    string? DatabaseFrequency,
+    int RetentionDays,
+    bool BackupDatabase,
+    bool BackupFiles,
+    bool BackupRedis,
+    int VerifySampleSize,
+    List<string> Tiers,
+    int InstanceCount,
+    int OverriddenCount,
+    DateTimeOffset UpdatedAt
+);
+
+public sealed record ListBackupTemplatesResponse(List<BackupTemplateItem> Templates);
+
+public sealed class ListBackupTemplatesHandler(HubDbContext dbContext)
+    : IRequestHandler<ListBackupTemplatesQuery, Result<ListBackupTemplatesResponse>>
+{
+    public async Task<Result<ListBackupTemplatesResponse>> Handle(ListBackupTemplatesQuery request, CancellationToken cancellationToken)
+    {
+        var templates = await dbContext.BackupPolicyTemplates
+            .Include(t => t.Tiers)
+            .OrderBy(t => t.Name)
+            .ToListAsync(cancellationToken);
+
+        var usage = await dbContext.BackupPolicies
+            .Where(p => p.BackupPolicyTemplateId != null)
+            .GroupBy(p => p.BackupPolicyTemplateId!.Value)
+            .Select(g => new { TemplateId = g.Key, Count = g.Count(), Overridden = g.Count(p => p.IsOverridden) })
+            .ToDictionaryAsync(u => u.TemplateId, cancellationToken);
+
+        return new ListBackupTemplatesResponse(templates
+            .Select(t => ToItem(t,
+                usage.TryGetValue(t.Id, out var used) ? used.Count : 0,
+                usage.TryGetValue(t.Id, out used) ? used.Overridden : 0))
+            .ToList());
+    }
+
+    internal static BackupTemplateItem ToItem(BackupPolicyTemplate template, int instanceCount, int overriddenCount) => new(
+        template.Id.ToString(),
+        template.Name,
+        template.Frequency.ToString(),
+        template.DatabaseFrequency?.ToString(),
+        template.RetentionDays,
+        template.BackupDatabase,
+        template.BackupFiles,
+        template.BackupRedis,
+        template.VerifySampleSize,
+        template.Tiers.OrderBy(t => t.Tier).Select(t => t.Tier.ToString()).ToList(),
+        instanceCount,
+        overriddenCount,
+        template.UpdatedAt);
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/backup-templates", async (
+            ListBackupTemplatesHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new ListBackupTemplatesQuery(), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<ListBackupTemplatesResponse>(200)
+        .WithName("AdminListBackupTemplates")
+        .WithTags("Admin");
+    }
+}
@@ -0,0 +1,96 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record ListRestoresQuery(long InstanceId);
+
+public sealed record RestoreComponentItem(string Component, string BackupId);
+
+public sealed record RestoreOperationItem(
+    string Id,
+    string InstanceId,
+    string Status,
+    DateTimeOffset PointInTime,
+    List<RestoreComponentItem> Components,
+    bool SafetyBackup,
+    string? SafetyBackupId,
+    string? Error,
+    DateTimeOffset StartedAt,
+    DateTimeOffset? RestoredAt,
+    DateTimeOffset? CompletedAt
+);
+
+public sealed record ListRestoresResponse(List<RestoreOperationItem> Restores);
+
+/// <summary>
+/// The instance's most recent restores, newest first. A restore that has not
+/// reached Completed or Failed is still running.
+/// </summary>
+public sealed class ListRestoresHandler(HubDbContext dbContext)
+    : IRequestHandler<ListRestoresQuery, Result<ListRestoresResponse>>
+{
+    private const int Limit = 10;
+
+    public async Task<Result<ListRestoresResponse>> Handle(ListRestoresQuery request, CancellationToken cancellationToken)
+    {
+        var instanceExists = await dbContext.ManagedInstances
+            .AnyAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (!instanceExists)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        var restores = await dbContext.RestoreOperations
+            .AsNoTracking()
+            .Where(r => r.ManagedInstanceId == request.InstanceId)
+            .OrderByDescending(r => r.StartedAt)
+            .Take(Limit)
+            .ToListAsync(cancellationToken);
+
+        return new ListRestoresResponse(restores.Select(ToItem).ToList());
+    }
+
+    internal static RestoreOperationItem ToItem(RestoreOperation restore)
+    {
+        var components = new List<RestoreComponentItem>();
+        if (restore.DatabaseBackupId is { } databaseBackupId)
+            components.Add(new RestoreComponentItem(nameof(BackupKind.Database), databaseBackupId.ToString()));
+        if (restore.FilesBackupId is { } filesBackupId)
+            components.Add(new RestoreComponentItem(nameof(BackupKind.Files), filesBackupId.ToString()));
+        if (restore.RedisBackupId is { } redisBackupId)
+            components.Add(new RestoreComponentItem(nameof(BackupKind.Redis), redisBackupId.ToString()));
+
+        return new RestoreOperationItem(
+            restore.Id.ToString(),
+            restore.ManagedInstanceId.ToString(),
+            restore.Status.ToString(),
+            restore.PointInTime,
+            components,
+            restore.TakeSafetyBackup,
+            restore.SafetyBackupId?.ToString(),
+            restore.Error,
+            restore.StartedAt,
+            restore.RestoredAt,
+            restore.CompletedAt);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/instances/{id:long}/restores", async (
+            long id,
+            ListRestoresHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new ListRestoresQuery(id), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<ListRestoresResponse>(200)
+        .WithName("AdminListRestores")
+        .WithTags("Admin");
+    }
+}
@@ -0,0 +1,132 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record RestoreRequest(
+    string? BackupId,
+    DateTimeOffset? PointInTime,
+    List<string>? Components,
+    bool SafetyBackup = true
+);
+
+public sealed record PreviewRestoreCommand(long InstanceId, RestoreRequest Request);
+
+public sealed record RestorePlanComponent(
+    string Component,
+    string? BackupId,
+    string? BackupKind,
+    DateTimeOffset? BackupCompletedAt,
+    string? Problem
+);
+
+public sealed record PreviewRestoreResponse(
+    DateTimeOffset PointInTime,
+    List<RestorePlanComponent> Components,
+    bool CanRestore
+);
+
+/// <summary>
+/// Resolves which backup each selected component would be restored from, and why a
+/// component cannot be restored, without starting anything. Restores themselves cannot
+/// be started until backups hold data (see <see cref="RestoreBackgroundService"/>).
+/// </summary>
+public sealed class PreviewRestoreHandler(HubDbContext dbContext)
+    : IRequestHandler<PreviewRestoreCommand, Result<PreviewRestoreResponse>>,
+      IValidatable<PreviewRestoreCommand>
+{
+    public Error? Validate(PreviewRestoreCommand request)
+    {
+        if (RestorePlan.Validate(request.Request, DateTimeOffset.UtcNow) is { } problem)
+            return Error.Validation("VALIDATION_FAILED", problem);
+
+        return null;
+    }
+
+    public Task<Result<PreviewRestoreResponse>> Handle(PreviewRestoreCommand request, CancellationToken cancellationToken) =>
+        PlanAsync(dbContext, request.InstanceId, request.Request, cancellationToken);
+
+    /// <summary>
+    /// The plan for restoring <paramref name="instanceId"/> as described by a request
+    /// that already passed <see cref="RestorePlan.Validate"/>.
+    /// </summary>
+    internal static async Task<Result<PreviewRestoreResponse>> PlanAsync(
+        HubDbContext dbContext, long instanceId, RestoreRequest request, CancellationToken cancellationToken)
+    {
+        var instanceExists = await dbContext.ManagedInstances
+            .AnyAsync(i => i.Id == instanceId && i.DeletedAt == null, cancellationToken);
+
+        if (!instanceExists)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        var components = RestorePlan.ParseComponents(request.Components!)!;
+
+        DateTimeOffset pointInTime;
+        Dictionary<BackupKind, BackupRecord?> selection;
+
+        if (request.PointInTime is { } requested)
+        {
+            var backups = await dbContext.BackupRecords
+                .AsNoTracking()
+                .Where(r => r.ManagedInstanceId == instanceId
+                    && r.Status == BackupStatus.Completed
+                    && r.CompletedAt <= requested)
+                .ToListAsync(cancellationToken);
+
+            pointInTime = requested;
+            selection = RestorePlan.ForPointInTime(backups, requested, components);
+        }
+        else
+        {
+            var backupId = long.Parse(request.BackupId!);
+            var backup = await dbContext.BackupRecords
+                .AsNoTracking()
+                .FirstOrDefaultAsync(r => r.Id == backupId && r.ManagedInstanceId == instanceId, cancellationToken);
+
+            if (backup is null)
+                return Error.NotFound("BACKUP_NOT_FOUND", "Backup record not found");
+
+            if (backup.Status != BackupStatus.Completed)
+                return Error.Validation("BACKUP_NOT_COMPLETED", "Only completed backups can be restored");
+
+            pointInTime = backup.CompletedAt ?? backup.StartedAt;
+            selection = RestorePlan.ForBackup(backup, components);
+        }
+
+        var missing = request.PointInTime is null
+            ? "The selected backup does not contain {0}"
+            : "No completed {0} backup exists at or before this point in time";
+
+        var items = selection
+            .Select(s => new RestorePlanComponent(
+                s.Key.ToString(),
+                s.Value?.Id.ToString(),
+                s.Value?.Kind.ToString(),
+                s.Value?.CompletedAt,
+                s.Value is null ? string.Format(missing, s.Key) : null))
+            .ToList();
+
+        return new PreviewRestoreResponse(pointInTime, items, items.All(i => i.Problem is null));
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/restores/preview", async (
+            long id,
+            RestoreRequest request,
+            PreviewRestoreHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new PreviewRestoreCommand(id, request), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<PreviewRestoreResponse>(200)
+        .WithName("AdminPreviewRestore")
+        .WithTags("Admin");
+    }
+}
@@ -0,0 +1,79 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record ResetBackupPolicyCommand(long InstanceId);
+
+/// <summary>
+/// Drops an instance's per-instance override by copying the template assigned to its
+/// tier onto its backup policy, so later template applies reach it again.
+/// </summary>
+public sealed class ResetBackupPolicyHandler(HubDbContext dbContext, IAuditLog auditLog)
+    : IRequestHandler<ResetBackupPolicyCommand, Result<BackupPolicyResponse>>
+{
+    public async Task<Result<BackupPolicyResponse>> Handle(ResetBackupPolicyCommand request, CancellationToken cancellationToken)
+    {
+        var instance = await dbContext.ManagedInstances
+            .Include(i => i.Billing)
+            .FirstOrDefaultAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (instance is null)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        var tier = instance.Billing?.Tier ?? InstanceTier.Free;
+        var template = await BackupTemplateSettings.ForTierAsync(dbContext, tier, cancellationToken);
+        if (template is null)
+            return Error.Conflict("NO_BACKUP_TEMPLATE", $"No backup template is assigned to the {tier} tier");
+
+        var now = DateTimeOffset.UtcNow;
+
+        var policy = await dbContext.BackupPolicies
+            .FirstOrDefaultAsync(p => p.ManagedInstanceId == request.InstanceId, cancellationToken);
+
+        var before = policy is null ? null : UpdateBackupPolicyHandler.Snapshot(policy);
+
+        if (policy is null)
+        {
+            policy = new BackupPolicy
+            {
+                ManagedInstanceId = request.InstanceId,
+                Enabled = true,
+                CreatedAt = now
+            };
+            dbContext.BackupPolicies.Add(policy);
+        }
+
+        BackupTemplateSettings.Apply(template, policy);
+        policy.Template = template;
+        policy.UpdatedAt = now;
+
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.BackupPolicyReset, AuditTargets.Instance, request.InstanceId.ToString(),
+            before, UpdateBackupPolicyHandler.Snapshot(policy), cancellationToken);
+
+        return GetBackupPolicyHandler.ToResponse(policy);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/backup-policy/reset", async (
+            long id,
+            ResetBackupPolicyHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new ResetBackupPolicyCommand(id), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<BackupPolicyResponse>(200)
+        .WithName("AdminResetBackupPolicy")
+        .WithTags("Admin");
+    }
+}
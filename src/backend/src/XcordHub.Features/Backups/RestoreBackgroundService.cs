@@ -0,0 +1,194 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Backups;
+
+/// <summary>
+/// Drives each running <see cref="RestoreOperation"/> to completion, one step per
+/// iteration: the optional safety backup, restoring the selected components, then
+/// waiting for the instance to pass its health check. A restore that is still
+/// unhealthy <see cref="HealthTimeout"/> after its components were restored fails.
+/// Backups currently hold only component metadata (see <see cref="BackupExecutor"/>),
+/// so no endpoint starts a restore; an operation recorded earlier is checked against
+/// its backups and then failed rather than reported as a restore that changed nothing.
+/// </summary>
+public sealed class RestoreBackgroundService(
+    IServiceScopeFactory serviceScopeFactory,
+    ILogger<RestoreBackgroundService> logger) : PollingBackgroundService(serviceScopeFactory, logger)
+{
+    internal static readonly TimeSpan HealthTimeout = TimeSpan.FromMinutes(10);
+
+    internal const string NotSupportedError =
+        "Restoring backup data is not supported yet: backups hold only metadata, so nothing was restored";
+
+    protected override TimeSpan Interval => TimeSpan.FromSeconds(5);
+
+    protected override async Task ProcessAsync(CancellationToken ct)
+    {
+        List<long> restoreIds;
+        using (var scope = ServiceScopeFactory.CreateScope())
+        {
+            restoreIds = await scope.ServiceProvider.GetRequiredService<HubDbContext>().RestoreOperations
+                .Where(r => r.Status != RestoreStatus.Completed && r.Status != RestoreStatus.Failed)
+                .OrderBy(r => r.StartedAt)
+                .Select(r => r.Id)
+                .ToListAsync(ct);
+        }
+
+        // Each restore gets its own scope so a failure in one cannot discard another's progress
+        foreach (var restoreId in restoreIds)
+        {
+            await ProcessRestoreAsync(restoreId, ct);
+        }
+    }
+
+    private async Task ProcessRestoreAsync(long restoreId, CancellationToken ct)
+    {
+        using var scope = ServiceScopeFactory.CreateScope();
+        var dbContext = scope.ServiceProvider.GetRequiredService<HubDbContext>();
+
+        var restore = await dbContext.RestoreOperations
+            .Include(r => r.ManagedInstance)
+            .FirstOrDefaultAsync(r => r.Id == restoreId, ct);
+
+        if (restore == null)
+        {
+            return;
+        }
+
+        try
+        {
+            await AdvanceAsync(scope.ServiceProvider, dbContext, restore, ct);
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            Logger.LogError(ex, "Restore {RestoreId} of instance {InstanceId} failed",
+                restore.Id, restore.ManagedInstanceId);
+            dbContext.ChangeTracker.Clear();
+            dbContext.Attach(restore);
+            Fail(restore, ex.Message);
+        }
+
+        await dbContext.SaveChangesAsync(ct);
+    }
+
+    private async Task AdvanceAsync(
+        IServiceProvider services, HubDbContext dbContext, RestoreOperation restore, CancellationToken ct)
+    {
+        var instance = restore.ManagedInstance;
+
+        switch (restore.Status)
+        {
+            case RestoreStatus.Pending:
+                restore.Status = restore.TakeSafetyBackup ? RestoreStatus.SafetyBackup : RestoreStatus.Restoring;
+                break;
+
+            case RestoreStatus.SafetyBackup:
+            {
+                if (!services.GetRequiredService<IColdStorageService>().IsConfigured)
+                {
+                    Fail(restore, "Cold storage is not configured, so no safety backup can be taken");
+                    break;
+                }
+
+                var backup = await services.GetRequiredService<BackupExecutor>()
+                    .ExecuteBackupAsync(instance, BackupKind.Full, ct);
+                restore.SafetyBackupId = backup.Id;
+
+                if (backup.Status != BackupStatus.Completed)
+                {
+                    Fail(restore, $"Safety backup failed: {backup.ErrorMessage}");
+                    break;
+                }
+
+                restore.Status = RestoreStatus.Restoring;
+                break;
+            }
+
+            case RestoreStatus.Restoring:
+            {
+                if (await RestoreComponentsAsync(services, dbContext, restore, ct) is { } problem)
+                {
+                    Fail(restore, problem);
+                    break;
+                }
+
+                restore.Status = RestoreStatus.VerifyingHealth;
+                restore.RestoredAt = DateTimeOffset.UtcNow;
+                break;
+            }
+
+            case RestoreStatus.VerifyingHealth:
+            {
+                var (isHealthy, _, error, _) = await services.GetRequiredService<IHealthCheckVerifier>()
+                    .VerifyInstanceHealthAsync(instance.Domain, ct);
+
+                if (isHealthy)
+                {
+                    restore.Status = RestoreStatus.Completed;
+                    restore.CompletedAt = DateTimeOffset.UtcNow;
+                    Logger.LogInformation("Restore {RestoreId} of {Domain} completed; instance is healthy",
+                        restore.Id, instance.Domain);
+                }
+                else if (DateTimeOffset.UtcNow - restore.RestoredAt >= HealthTimeout)
+                {
+                    Fail(restore, $"Instance did not become healthy within {HealthTimeout.TotalMinutes} minutes of the restore"
+                        + (error is null ? string.Empty : $": {error}"));
+                }
+                break;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Restores every selected component from its backup, returning why it could not.
+    /// </summary>
+    private async Task<string?> RestoreComponentsAsync(
+        IServiceProvider services, HubDbContext dbContext, RestoreOperation restore, CancellationToken ct)
+    {
+        var coldStorage = services.GetRequiredService<IColdStorageService>();
+        if (!coldStorage.IsConfigured)
+            return "Cold storage is not configured, so no backup can be read";
+
+        var components = new (BackupKind Component, long? BackupId, string Object)[]
+        {
+            (BackupKind.Database, restore.DatabaseBackupId, "db-meta.json"),
+            (BackupKind.Files, restore.FilesBackupId, "files-manifest.json"),
+            (BackupKind.Redis, restore.RedisBackupId, "redis-meta.json")
+        };
+
+        foreach (var (component, backupId, objectName) in components)
+        {
+            if (backupId is null)
+                continue;
+
+            var backup = await dbContext.BackupRecords
+                .AsNoTracking()
+                .FirstOrDefaultAsync(b => b.Id == backupId && b.Status == BackupStatus.Completed, ct);
+
+            if (backup is null)
+                return $"Backup {backupId} for {component} no longer exists";
+
+            var objects = await coldStorage.ListObjectsAsync(backup.StoragePath, ct);
+            if (!objects.Any(key => key.EndsWith($"/{objectName}", StringComparison.Ordinal)))
+                return $"Backup {backupId} has no {component} data in cold storage";
+        }
+
+        // Loading a dump, RDB or bucket contents needs exec/copy capability on the instance's
+        // containers, which IDockerService does not have; until it does, no restore completes.
+        Logger.LogWarning("Restore {RestoreId} of {Domain} stopped: restoring backup data is not supported",
+            restore.Id, restore.ManagedInstance.Domain);
+        return NotSupportedError;
+    }
+
+    private static void Fail(RestoreOperation restore, string error)
+    {
+        restore.Status = RestoreStatus.Failed;
+        restore.Error = error.Length > 2000 ? error[..2000] : error;
+        restore.CompletedAt = DateTimeOffset.UtcNow;
+    }
+}
@@ -0,0 +1,93 @@
+using XcordHub.Entities;
+
+namespace XcordHub.Features.Backups;
+
+/// <summary>
+/// Chooses the backup each component of a restore is loaded from, as shown by the
+/// restore preview.
+/// A component is Database, Files or Redis; a Full backup covers all three.
+/// </summary>
+public static class RestorePlan
+{
+    public static readonly BackupKind[] Components = [BackupKind.Database, BackupKind.Files, BackupKind.Redis];
+
+    public static bool Covers(BackupKind backupKind, BackupKind component) =>
+        backupKind == BackupKind.Full || backupKind == component;
+
+    /// <summary>
+    /// Why <paramref name="request"/> does not describe a restore, or null if it does.
+    /// Exactly one of a backup or a point in time is the source.
+    /// </summary>
+    public static string? Validate(RestoreRequest request, DateTimeOffset now)
+    {
+        if (string.IsNullOrWhiteSpace(request.BackupId) == (request.PointInTime is null))
+            return "Choose either a backup or a point in time to restore";
+
+        if (!string.IsNullOrWhiteSpace(request.BackupId) && !long.TryParse(request.BackupId, out _))
+            return "BackupId is not a valid backup id";
+
+        if (request.PointInTime > now)
+            return "PointInTime cannot be in the future";
+
+        if (request.Components is not { Count: > 0 })
+            return "Choose at least one component to restore";
+
+        if (ParseComponents(request.Components) is null)
+            return $"Components must be distinct values of: {string.Join(", ", Components)}";
+
+        return null;
+    }
+
+    /// <summary>
+    /// Parses component names case-insensitively, rejecting Full and duplicates.
+    /// Returns null if any name is not a component.
+    /// </summary>
+    public static List<BackupKind>? ParseComponents(IEnumerable<string> names)
+    {
+        var components = new List<BackupKind>();
+
+        foreach (var name in names)
+        {
+            if (!Enum.TryParse<BackupKind>(name, ignoreCase: true, out var component)
+                || !Components.Contains(component)
+                || components.Contains(component))
+                return null;
+
+            components.Add(component);
+        }
+
+        return components;
+    }
+
+    /// <summary>
+    /// For each component, the newest completed backup covering it that finished at
+    /// or before <paramref name="pointInTime"/>, or null if there is none.
+    /// </summary>
+    public static Dictionary<BackupKind, BackupRecord?> ForPointInTime(
+        IReadOnlyCollection<BackupRecord> backups,
+        DateTimeOffset pointInTime,
+        IEnumerable<BackupKind> components)
+    {
+        return components.ToDictionary(
+            component => component,
+            component => backups
+                .Where(b => b.Status == BackupStatus.Completed
+                    && b.DeletedAt == null
+                    && b.CompletedAt <= pointInTime
+                    && Covers(b.Kind, component))
+                .OrderByDescending(b => b.CompletedAt)
+                .ThenByDescending(b => b.Kind == component)
+                .FirstOrDefault());
+    }
+
+    /// <summary>
+    /// Every component loaded from <paramref name="backup"/>, or null for components
+    /// the backup does not contain.
+    /// </summary>
+    public static Dictionary<BackupKind, BackupRecord?> ForBackup(BackupRecord backup, IEnumerable<BackupKind> components)
+    {
+        return components.ToDictionary(
+            component => component,
+            component => Covers(backup.Kind, component) ? backup : null);
+    }
+}
@@ -4,6 +4,7 @@ using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Backups;
@@ -12,7 +13,7 @@ public sealed record TriggerBackupCommand(long InstanceId, string Kind);
 
 public sealed record TriggerBackupRequest(string Kind);
 
-public sealed class TriggerBackupHandler(HubDbContext dbContext, SnowflakeIdGenerator snowflakeId)
+public sealed class TriggerBackupHandler(HubDbContext dbContext, SnowflakeIdGenerator snowflakeId, IAuditLog auditLog)
     : IRequestHandler<TriggerBackupCommand, Result<BackupRecordItem>>
 {
     public async Task<Result<BackupRecordItem>> Handle(TriggerBackupCommand request, CancellationToken cancellationToken)
@@ -43,16 +44,11 @@ public sealed class TriggerBackupHandler(HubDbContext dbContext, SnowflakeIdGene
         dbContext.BackupRecords.Add(record);
         await dbContext.SaveChangesAsync(cancellationToken);
 
-        return new BackupRecordItem(
-            record.Id.ToString(),
-            record.ManagedInstanceId.ToString(),
-            record.Status.ToString(),
-            record.Kind.ToString(),
-            record.SizeBytes,
-            record.StoragePath,
-            record.ErrorMessage,
-            record.StartedAt,
-            record.CompletedAt);
+        await auditLog.RecordAsync(AuditActions.BackupTrigger, AuditTargets.Backup, record.Id.ToString(),
+            after: new { InstanceId = record.ManagedInstanceId.ToString(), Kind = record.Kind.ToString(), record.StoragePath },
+            cancellationToken: cancellationToken);
+
+        return ListBackupRecordsHandler.ToItem(record);
     }
 
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
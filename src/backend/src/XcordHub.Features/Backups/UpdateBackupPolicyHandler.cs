@@ -4,6 +4,7 @@ using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Backups;
@@ -15,7 +16,9 @@ public sealed record UpdateBackupPolicyCommand(
     int RetentionDays,
     bool BackupDatabase,
     bool BackupFiles,
-    bool BackupRedis
+    bool BackupRedis,
+    int VerifySampleSize,
+    string? DatabaseFrequency
 );
 
 public sealed record UpdateBackupPolicyRequest(
@@ -24,10 +27,12 @@ public sealed record UpdateBackupPolicyRequest(
     int RetentionDays,
     bool BackupDatabase,
     bool BackupFiles,
-    bool BackupRedis
+    bool BackupRedis,
+    int VerifySampleSize = 1,
+    string? DatabaseFrequency = null
 );
 
-public sealed class UpdateBackupPolicyHandler(HubDbContext dbContext)
+public sealed class UpdateBackupPolicyHandler(HubDbContext dbContext, IAuditLog auditLog)
     : IRequestHandler<UpdateBackupPolicyCommand, Result<BackupPolicyResponse>>
 {
     public async Task<Result<BackupPolicyResponse>> Handle(UpdateBackupPolicyCommand request, CancellationToken cancellationToken)
@@ -41,14 +46,29 @@ public sealed class UpdateBackupPolicyHandler(HubDbContext dbContext)
         if (!Enum.TryParse<BackupFrequency>(request.Frequency, ignoreCase: true, out var frequency))
             return Error.Validation("INVALID_FREQUENCY", $"Frequency must be one of: {string.Join(", ", Enum.GetNames<BackupFrequency>())}");
 
+        BackupFrequency? databaseFrequency = null;
+        if (request.DatabaseFrequency is not null)
+        {
+            if (!Enum.TryParse<BackupFrequency>(request.DatabaseFrequency, ignoreCase: true, out var parsed))
+                return Error.Validation("INVALID_FREQUENCY", $"DatabaseFrequency must be empty or one of: {string.Join(", ", Enum.GetNames<BackupFrequency>())}");
+            databaseFrequency = parsed;
+        }
+
         if (request.RetentionDays < 1 || request.RetentionDays > 365)
             return Error.Validation("INVALID_RETENTION", "RetentionDays must be between 1 and 365");
 
+        if (request.VerifySampleSize < 0 || request.VerifySampleSize > BackupTemplateSettings.MaxVerifySampleSize)
+            return Error.Validation("INVALID_VERIFY_SAMPLE_SIZE",
+                $"VerifySampleSize must be between 0 and {BackupTemplateSettings.MaxVerifySampleSize}");
+
         var now = DateTimeOffset.UtcNow;
 
         var policy = await dbContext.BackupPolicies
+            .Include(p => p.Template)
             .FirstOrDefaultAsync(p => p.ManagedInstanceId == request.InstanceId, cancellationToken);
 
+        var before = policy is null ? null : Snapshot(policy);
+
         if (policy is null)
         {
             policy = new BackupPolicy
@@ -61,24 +81,39 @@ public sealed class UpdateBackupPolicyHandler(HubDbContext dbContext)
 
         policy.Enabled = request.Enabled;
         policy.Frequency = frequency;
+        policy.DatabaseFrequency = databaseFrequency;
         policy.RetentionDays = request.RetentionDays;
         policy.BackupDatabase = request.BackupDatabase;
         policy.BackupFiles = request.BackupFiles;
         policy.BackupRedis = request.BackupRedis;
+        policy.VerifySampleSize = request.VerifySampleSize;
         policy.UpdatedAt = now;
 
+        // Settings tuned by hand, with no template or differing from it, are kept when a
+        // template is applied; resetting the policy to its tier's template opts back in
+        policy.IsOverridden = policy.Template is null || BackupTemplateSettings.Diff(policy, policy.Template).Count > 0;
+
         await dbContext.SaveChangesAsync(cancellationToken);
 
-        return new BackupPolicyResponse(
-            policy.ManagedInstanceId.ToString(),
-            policy.Enabled,
-            policy.Frequency.ToString(),
-            policy.RetentionDays,
-            policy.BackupDatabase,
-            policy.BackupFiles,
-            policy.BackupRedis);
+        await auditLog.RecordAsync(AuditActions.BackupPolicyUpdate, AuditTargets.Instance, request.InstanceId.ToString(),
+            before, Snapshot(policy), cancellationToken);
+
+        return GetBackupPolicyHandler.ToResponse(policy);
     }
 
+    internal static object Snapshot(BackupPolicy policy) => new
+    {
+        policy.Enabled,
+        Frequency = policy.Frequency.ToString(),
+        DatabaseFrequency = policy.DatabaseFrequency?.ToString(),
+        policy.RetentionDays,
+        policy.BackupDatabase,
+        policy.BackupFiles,
+        policy.BackupRedis,
+        policy.VerifySampleSize,
+        policy.IsOverridden
+    };
+
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
     {
         return app.MapPut("/api/v1/admin/instances/{id:long}/backup-policy", async (
@@ -94,7 +129,9 @@ public sealed class UpdateBackupPolicyHandler(HubDbContext dbContext)
                 body.RetentionDays,
                 body.BackupDatabase,
                 body.BackupFiles,
-                body.BackupRedis);
+                body.BackupRedis,
+                body.VerifySampleSize,
+                body.DatabaseFrequency);
             return await handler.ExecuteAsync(command, ct);
         })
         .RequireAuthorization(Policies.Admin)
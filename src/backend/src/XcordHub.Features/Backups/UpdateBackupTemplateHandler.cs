@@ -0,0 +1,94 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record UpdateBackupTemplateCommand(long TemplateId, BackupTemplateRequest Request);
+
+/// <summary>
+/// Changes a backup policy template and its tiers. Instance policies are only
+/// changed when the template is applied, which skips overridden policies.
+/// </summary>
+public sealed class UpdateBackupTemplateHandler(HubDbContext dbContext, IAuditLog auditLog)
+    : IRequestHandler<UpdateBackupTemplateCommand, Result<BackupTemplateItem>>,
+      IValidatable<UpdateBackupTemplateCommand>
+{
+    public Error? Validate(UpdateBackupTemplateCommand request)
+    {
+        if (BackupTemplateSettings.Validate(request.Request) is { } problem)
+            return Error.Validation("VALIDATION_FAILED", problem);
+
+        return null;
+    }
+
+    public async Task<Result<BackupTemplateItem>> Handle(UpdateBackupTemplateCommand request, CancellationToken cancellationToken)
+    {
+        var template = await dbContext.BackupPolicyTemplates
+            .Include(t => t.Tiers)
+            .FirstOrDefaultAsync(t => t.Id == request.TemplateId, cancellationToken);
+
+        if (template is null)
+            return Error.NotFound("TEMPLATE_NOT_FOUND", "Backup template not found");
+
+        var name = request.Request.Name.Trim();
+        if (await dbContext.BackupPolicyTemplates.AnyAsync(t => t.Name == name && t.Id != template.Id, cancellationToken))
+            return Error.Conflict("TEMPLATE_NAME_TAKEN", $"A backup template named '{name}' already exists");
+
+        var before = Snapshot(template, template.Tiers.Select(t => t.Tier).ToList());
+
+        BackupTemplateSettings.CopyTo(request.Request, template);
+        template.UpdatedAt = DateTimeOffset.UtcNow;
+
+        var tiers = BackupTemplateSettings.ParseTiers(request.Request.Tiers)!;
+        await BackupTemplateSettings.AssignTiersAsync(dbContext, template, tiers, cancellationToken);
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.BackupTemplateUpdate, AuditTargets.BackupTemplate, template.Id.ToString(),
+            before, Snapshot(template, tiers), cancellationToken);
+
+        var usage = await dbContext.BackupPolicies
+            .Where(p => p.BackupPolicyTemplateId == template.Id)
+            .GroupBy(p => p.IsOverridden)
+            .Select(g => new { Overridden = g.Key, Count = g.Count() })
+            .ToListAsync(cancellationToken);
+
+        return ListBackupTemplatesHandler.ToItem(template,
+            usage.Sum(u => u.Count),
+            usage.Where(u => u.Overridden).Sum(u => u.Count));
+    }
+
+    internal static object Snapshot(BackupPolicyTemplate template, IEnumerable<InstanceTier> tiers) => new
+    {
+        template.Name,
+        Frequency = template.Frequency.ToString(),
+        DatabaseFrequency = template.DatabaseFrequency?.ToString(),
+        template.RetentionDays,
+        template.BackupDatabase,
+        template.BackupFiles,
+        template.BackupRedis,
+        template.VerifySampleSize,
+        Tiers = string.Join(", ", tiers.Order())
+    };
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPut("/api/v1/admin/backup-templates/{templateId:long}", async (
+            long templateId,
+            BackupTemplateRequest request,
+            UpdateBackupTemplateHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new UpdateBackupTemplateCommand(templateId, request), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<BackupTemplateItem>(200)
+        .WithName("AdminUpdateBackupTemplate")
+        .WithTags("Admin");
+    }
+}
@@ -0,0 +1,63 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Backups;
+
+public sealed record VerifyBackupCommand(long InstanceId, long BackupId);
+
+/// <summary>
+/// Re-reads a completed backup from cold storage and checks it against the checksum
+/// recorded at backup time, returning the backup with the verification result.
+/// </summary>
+public sealed class VerifyBackupHandler(
+    HubDbContext dbContext,
+    IColdStorageService coldStorageService,
+    BackupVerifier verifier)
+    : IRequestHandler<VerifyBackupCommand, Result<BackupRecordItem>>
+{
+    public async Task<Result<BackupRecordItem>> Handle(VerifyBackupCommand request, CancellationToken cancellationToken)
+    {
+        var backup = await dbContext.BackupRecords
+            .FirstOrDefaultAsync(r => r.Id == request.BackupId && r.ManagedInstanceId == request.InstanceId
+                && r.ManagedInstance.DeletedAt == null, cancellationToken);
+
+        if (backup is null)
+            return Error.NotFound("BACKUP_NOT_FOUND", "Backup record not found");
+
+        if (backup.Status != BackupStatus.Completed)
+            return Error.Conflict("BACKUP_NOT_COMPLETED", "Only completed backups can be verified");
+
+        if (backup.Checksum is null)
+            return Error.Conflict("NO_CHECKSUM", "This backup was taken before checksums were recorded, so it cannot be verified");
+
+        if (!coldStorageService.IsConfigured)
+            return Error.Conflict("COLD_STORAGE_NOT_CONFIGURED", "Cold storage is not configured, so the backup cannot be read");
+
+        await verifier.VerifyAsync(backup, cancellationToken);
+
+        return ListBackupRecordsHandler.ToItem(backup);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/backups/{backupId:long}/verify", async (
+            long id,
+            long backupId,
+            VerifyBackupHandler handler,
+            CancellationToken ct) =>
+        {
+            var command = new VerifyBackupCommand(id, backupId);
+            return await handler.ExecuteAsync(command, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<BackupRecordItem>(200)
+        .WithName("AdminVerifyBackup")
+        .WithTags("Admin");
+    }
+}
@@ -7,7 +7,7 @@ using XcordHub.Infrastructure.Services;
 
 namespace XcordHub.Features.Billing;
 
-public sealed record GetPlatformRevenueQuery();
+public sealed record GetPlatformRevenueQuery(DateTimeOffset? From, DateTimeOffset? To);
 
 public sealed record PlatformRevenueSummary(
     int TotalAmountCents,
@@ -15,22 +15,65 @@ public sealed record PlatformRevenueSummary(
     int CurrentMonthAmountCents,
     int CurrentMonthPlatformFeeCents,
     int ActiveInstanceCount,
+    DateTimeOffset RangeStart,
+    DateTimeOffset RangeEnd,
+    int RangeAmountCents,
+    int RangePlatformFeeCents,
+    int RangeOwnerPayoutCents,
+    List<MonthlyRevenueLine> Months,
     List<InstanceRevenueLine> TopInstances
 );
 
+public sealed record MonthlyRevenueLine(
+    string Month,
+    int AmountCents,
+    int PlatformFeeCents,
+    int OwnerPayoutCents
+);
+
 public sealed record InstanceRevenueLine(
     string InstanceId,
     string Domain,
     string DisplayName,
     int AmountCents,
-    int PlatformFeeCents
+    int PlatformFeeCents,
+    int OwnerPayoutCents
+);
+
+public sealed record MonthlyRevenueTotal(
+    int Year,
+    int Month,
+    int AmountCents,
+    int PlatformFeeCents,
+    int OwnerPayoutCents
 );
 
 public sealed class GetPlatformRevenueHandler(
     HubDbContext dbContext,
     ICurrentUserService currentUserService)
-    : IRequestHandler<GetPlatformRevenueQuery, Result<PlatformRevenueSummary>>
+    : IRequestHandler<GetPlatformRevenueQuery, Result<PlatformRevenueSummary>>,
+      IValidatable<GetPlatformRevenueQuery>
 {
+    public const int MaxRangeYears = 5;
+
+    public Error? Validate(GetPlatformRevenueQuery request) =>
+        ValidateRange(request.From, request.To, DateTimeOffset.UtcNow);
+
+    /// <summary>
+    /// The monthly series has a line per month in the range, so an open-ended or
+    /// decades-long range is refused rather than scanned.
+    /// </summary>
+    public static Error? ValidateRange(DateTimeOffset? from, DateTimeOffset? to, DateTimeOffset now)
+    {
+        if (from.HasValue && to.HasValue && from >= to)
+            return Error.Validation("INVALID_RANGE", "From must be before To");
+
+        if (from.HasValue && from < (to ?? now).AddYears(-MaxRangeYears))
+            return Error.Validation("INVALID_RANGE", $"The range must not exceed {MaxRangeYears} years");
+
+        return null;
+    }
+
     public async Task<Result<PlatformRevenueSummary>> Handle(
         GetPlatformRevenueQuery request, CancellationToken cancellationToken)
     {
@@ -40,6 +83,10 @@ public sealed class GetPlatformRevenueHandler(
         var now = DateTimeOffset.UtcNow;
         var monthStart = new DateTimeOffset(now.Year, now.Month, 1, 0, 0, 0, TimeSpan.Zero);
 
+        // The range is [From, To); without one it covers the current month, as the summary always has
+        var rangeStart = request.From ?? monthStart;
+        var rangeEnd = request.To ?? now;
+
         var allTime = await dbContext.PlatformRevenues
             .GroupBy(_ => 1)
             .Select(g => new
@@ -62,14 +109,29 @@ public sealed class GetPlatformRevenueHandler(
         var activeInstanceCount = await dbContext.InstanceRevenueConfigs
             .CountAsync(c => c.StripeConnectedAccountId != null, cancellationToken);
 
-        var topInstances = await dbContext.PlatformRevenues
-            .Where(r => r.CreatedAt >= monthStart)
+        var inRange = dbContext.PlatformRevenues
+            .Where(r => r.CreatedAt >= rangeStart && r.CreatedAt < rangeEnd);
+
+        var monthly = await inRange
+            .GroupBy(r => new { r.CreatedAt.Year, r.CreatedAt.Month })
+            .Select(g => new MonthlyRevenueTotal(
+                g.Key.Year,
+                g.Key.Month,
+                g.Sum(r => r.AmountCents),
+                g.Sum(r => r.PlatformFeeCents),
+                g.Sum(r => r.OwnerPayoutCents)))
+            .ToListAsync(cancellationToken);
+
+        var months = BuildMonthlySeries(rangeStart, rangeEnd, monthly);
+
+        var topInstances = await inRange
             .GroupBy(r => r.ManagedInstanceId)
             .Select(g => new
             {
                 InstanceId = g.Key,
                 AmountCents = g.Sum(r => r.AmountCents),
-                PlatformFeeCents = g.Sum(r => r.PlatformFeeCents)
+                PlatformFeeCents = g.Sum(r => r.PlatformFeeCents),
+                OwnerPayoutCents = g.Sum(r => r.OwnerPayoutCents)
             })
             .OrderByDescending(g => g.AmountCents)
             .Take(10)
@@ -86,7 +148,8 @@ public sealed class GetPlatformRevenueHandler(
             Domain: instances.TryGetValue(t.InstanceId, out var inst) ? inst.Domain : "unknown",
             DisplayName: instances.TryGetValue(t.InstanceId, out var inst2) ? inst2.DisplayName : "unknown",
             AmountCents: t.AmountCents,
-            PlatformFeeCents: t.PlatformFeeCents
+            PlatformFeeCents: t.PlatformFeeCents,
+            OwnerPayoutCents: t.OwnerPayoutCents
         )).ToList();
 
         return new PlatformRevenueSummary(
@@ -95,17 +158,52 @@ public sealed class GetPlatformRevenueHandler(
             CurrentMonthAmountCents: currentMonth?.TotalAmount ?? 0,
             CurrentMonthPlatformFeeCents: currentMonth?.TotalPlatformFee ?? 0,
             ActiveInstanceCount: activeInstanceCount,
+            RangeStart: rangeStart,
+            RangeEnd: rangeEnd,
+            RangeAmountCents: months.Sum(m => m.AmountCents),
+            RangePlatformFeeCents: months.Sum(m => m.PlatformFeeCents),
+            RangeOwnerPayoutCents: months.Sum(m => m.OwnerPayoutCents),
+            Months: months,
             TopInstances: lines
         );
     }
 
+    /// <summary>
+    /// Produces one line per calendar month (UTC) touched by [rangeStart, rangeEnd), oldest first,
+    /// with zero lines for months that had no revenue so charts get a contiguous series.
+    /// </summary>
+    public static List<MonthlyRevenueLine> BuildMonthlySeries(
+        DateTimeOffset rangeStart, DateTimeOffset rangeEnd, IEnumerable<MonthlyRevenueTotal> totals)
+    {
+        var byMonth = totals.ToDictionary(t => (t.Year, t.Month));
+        var start = rangeStart.ToUniversalTime();
+        var end = rangeEnd.ToUniversalTime();
+        var lines = new List<MonthlyRevenueLine>();
+
+        for (var cursor = new DateTimeOffset(start.Year, start.Month, 1, 0, 0, 0, TimeSpan.Zero);
+             cursor < end;
+             cursor = cursor.AddMonths(1))
+        {
+            byMonth.TryGetValue((cursor.Year, cursor.Month), out var total);
+            lines.Add(new MonthlyRevenueLine(
+                Month: $"{cursor.Year:D4}-{cursor.Month:D2}",
+                AmountCents: total?.AmountCents ?? 0,
+                PlatformFeeCents: total?.PlatformFeeCents ?? 0,
+                OwnerPayoutCents: total?.OwnerPayoutCents ?? 0));
+        }
+
+        return lines;
+    }
+
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
     {
         return app.MapGet("/api/v1/hub/admin/revenue", async (
+            DateTimeOffset? from,
+            DateTimeOffset? to,
             GetPlatformRevenueHandler handler,
             CancellationToken ct) =>
         {
-            return await handler.ExecuteAsync(new GetPlatformRevenueQuery(), ct);
+            return await handler.ExecuteAsync(new GetPlatformRevenueQuery(from, to), ct);
         })
         .RequireAuthorization(Policies.Admin)
         .Produces<PlatformRevenueSummary>(200)
@@ -19,6 +19,11 @@ public sealed record ChangePlanCommand(
     bool MediaEnabled = false
 );
 
+public sealed record ChangePlanRequest(
+    InstanceTier TargetTier,
+    bool MediaEnabled
+);
+
 public sealed record ChangePlanResponse(
     string Tier,
     int PriceCents,
@@ -157,11 +162,11 @@ public sealed class ChangePlanHandler(
     {
         return app.MapPost("/api/v1/hub/instances/{instanceId}/billing/change", async (
             long instanceId,
-            ChangePlanCommand command,
+            ChangePlanRequest request,
             ChangePlanHandler handler,
             CancellationToken ct) =>
         {
-            var cmd = command with { InstanceId = instanceId };
+            var cmd = new ChangePlanCommand(instanceId, request.TargetTier, request.MediaEnabled);
             return await handler.ExecuteAsync(cmd, ct);
         })
         .RequireAuthorization(Policies.User)
@@ -51,6 +51,7 @@ public sealed class SubmitContactFormHandler(
 
     public async Task<Result<SubmitContactFormResponse>> Handle(SubmitContactFormRequest request, CancellationToken cancellationToken)
     {
+        var now = DateTimeOffset.UtcNow;
         var submission = new ContactSubmission
         {
             Id = snowflakeGenerator.NextId(),
@@ -58,8 +59,11 @@ public sealed class SubmitContactFormHandler(
             Email = request.Email.Trim().ToLowerInvariant(),
             Company = request.Company?.Trim() ?? string.Empty,
             ExpectedMemberCount = request.ExpectedMemberCount,
+            Subject = "Enterprise inquiry",
             Message = request.Message.Trim(),
-            CreatedAt = DateTimeOffset.UtcNow
+            Status = SupportTicketStatus.Open,
+            CreatedAt = now,
+            UpdatedAt = now
         };
 
         dbContext.ContactSubmissions.Add(submission);
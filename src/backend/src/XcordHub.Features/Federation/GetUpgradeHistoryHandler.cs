@@ -18,7 +18,9 @@ public sealed record UpgradeHistoryItem(
     string TargetImage,
     string? ErrorMessage,
     DateTimeOffset? StartedAt,
-    DateTimeOffset? CompletedAt
+    DateTimeOffset? CompletedAt,
+    string? RollbackOfId,
+    string? RollbackReason
 );
 
 public sealed record GetUpgradeHistoryResponse(List<UpgradeHistoryItem> Events);
@@ -42,7 +44,9 @@ public sealed class GetUpgradeHistoryHandler(HubDbContext dbContext)
                 e.TargetImage,
                 e.ErrorMessage,
                 e.StartedAt,
-                e.CompletedAt
+                e.CompletedAt,
+                e.RollbackOfEventId != null ? e.RollbackOfEventId.ToString() : null,
+                e.RollbackReason
             ))
             .ToListAsync(cancellationToken);
 
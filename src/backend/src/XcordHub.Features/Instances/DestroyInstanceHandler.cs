@@ -12,7 +12,7 @@ using XcordHub.Shared.Extensions;
 
 namespace XcordHub.Features.Instances;
 
-public sealed record DestroyInstanceCommand(long InstanceId, long UserId);
+public sealed record DestroyInstanceCommand(long InstanceId, long UserId, bool AsAdmin = false);
 
 public sealed class DestroyInstanceHandler(
     HubDbContext dbContext,
@@ -31,8 +31,8 @@ public sealed class DestroyInstanceHandler(
             return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
         }
 
-        // Verify ownership
-        if (instance.OwnerId != request.UserId)
+        // Verify ownership (platform admins act on any instance)
+        if (!request.AsAdmin && instance.OwnerId != request.UserId)
         {
             return Error.Forbidden("NOT_OWNER", "You do not have permission to destroy this instance");
         }
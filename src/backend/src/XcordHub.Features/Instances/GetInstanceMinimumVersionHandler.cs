@@ -0,0 +1,84 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Features.Upgrades;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Instances;
+
+public sealed record GetInstanceMinimumVersionQuery(long InstanceId, long UserId);
+
+public sealed record InstanceMinimumVersionResponse(
+    bool Compliant,
+    string? CurrentVersion,
+    string? MinimumVersion,
+    string? MinimumImage,
+    DateTimeOffset? EnforcementDate,
+    bool ForceUpgraded
+);
+
+/// <summary>
+/// Whether the owner's instance is below the minimum version, so they can upgrade
+/// before the enforcement date.
+/// </summary>
+public sealed class GetInstanceMinimumVersionHandler(HubDbContext dbContext)
+    : IRequestHandler<GetInstanceMinimumVersionQuery, Result<InstanceMinimumVersionResponse>>
+{
+    public async Task<Result<InstanceMinimumVersionResponse>> Handle(
+        GetInstanceMinimumVersionQuery request, CancellationToken cancellationToken)
+    {
+        var instance = await dbContext.ManagedInstances
+            .AsNoTracking()
+            .Include(i => i.Infrastructure)
+            .Include(i => i.Config)
+            .FirstOrDefaultAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (instance == null)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        if (instance.OwnerId != request.UserId)
+            return Error.Forbidden("NOT_OWNER", "You do not have permission to view this instance");
+
+        var minimum = await MinimumVersionCompliance.CurrentMinimum(dbContext.AvailableVersions.AsNoTracking())
+            .FirstOrDefaultAsync(cancellationToken);
+
+        var versionsByImage = await MinimumVersionCompliance.VersionsByImageAsync(dbContext.AvailableVersions, cancellationToken);
+        var deployedImage = instance.Infrastructure?.DeployedImage;
+        var currentVersion = deployedImage is null ? null : MinimumVersionCompliance.VersionOf(deployedImage, versionsByImage);
+
+        if (minimum is null || !MinimumVersionCompliance.IsBelowMinimum(deployedImage, minimum, versionsByImage))
+            return new InstanceMinimumVersionResponse(true, currentVersion, minimum?.Version, minimum?.Image, minimum?.MinimumEnforcementDate, false);
+
+        return new InstanceMinimumVersionResponse(
+            false,
+            currentVersion,
+            minimum.Version,
+            minimum.Image,
+            minimum.MinimumEnforcementDate,
+            MinimumVersionCompliance.IsEnforced(instance));
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/hub/instances/{instanceId:long}/minimum-version", async (
+            [FromRoute] long instanceId,
+            ClaimsPrincipal user,
+            GetInstanceMinimumVersionHandler handler,
+            CancellationToken ct) =>
+        {
+            var userIdClaim = user.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (userIdClaim == null || !long.TryParse(userIdClaim, out var userId))
+                return Results.Unauthorized();
+
+            var query = new GetInstanceMinimumVersionQuery(instanceId, userId);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.User)
+        .Produces<InstanceMinimumVersionResponse>(200)
+        .WithName("GetInstanceMinimumVersion")
+        .WithTags("Instances", "Upgrades");
+    }
+}
@@ -0,0 +1,134 @@
+using System.Reflection;
+using System.Text.Json;
+using XcordHub.Entities;
+
+namespace XcordHub.Features.Instances;
+
+public sealed record ResourceLimitField(
+    string Key,
+    string Label,
+    string Group,
+    string? Unit,
+    int Min,
+    int Max,
+    int TierDefault,
+    int Value
+);
+
+public sealed record FeatureFlagField(
+    string Key,
+    string Label,
+    string Group,
+    bool TierDefault,
+    bool Value
+);
+
+/// <summary>
+/// Builds the admin config schema from the <see cref="ConfigFieldAttribute"/> metadata on
+/// <see cref="ResourceLimits"/> and <see cref="FeatureFlags"/>, and applies keyed updates
+/// back onto those records. Keys are the camelCase property names.
+/// </summary>
+public static class InstanceConfigSchema
+{
+    private static readonly PropertyInfo[] ResourceLimitProperties =
+        typeof(ResourceLimits).GetProperties(BindingFlags.Public | BindingFlags.Instance);
+
+    private static readonly PropertyInfo[] FeatureFlagProperties =
+        typeof(FeatureFlags).GetProperties(BindingFlags.Public | BindingFlags.Instance);
+
+    public static List<ResourceLimitField> DescribeResourceLimits(ResourceLimits current, ResourceLimits tierDefaults)
+    {
+        return ResourceLimitProperties
+            .Select(p =>
+            {
+                var field = FieldOf(p);
+                return new ResourceLimitField(
+                    KeyOf(p),
+                    field.Label,
+                    field.Group,
+                    field.Unit,
+                    field.Min,
+                    field.Max,
+                    (int)p.GetValue(tierDefaults)!,
+                    (int)p.GetValue(current)!);
+            })
+            .ToList();
+    }
+
+    public static List<FeatureFlagField> DescribeFeatureFlags(FeatureFlags current, FeatureFlags tierDefaults)
+    {
+        return FeatureFlagProperties
+            .Select(p =>
+            {
+                var field = FieldOf(p);
+                return new FeatureFlagField(
+                    KeyOf(p),
+                    field.Label,
+                    field.Group,
+                    (bool)p.GetValue(tierDefaults)!,
+                    (bool)p.GetValue(current)!);
+            })
+            .ToList();
+    }
+
+    public static Result<ResourceLimits> ApplyResourceLimits(ResourceLimits current, IReadOnlyDictionary<string, int> values)
+    {
+        var updated = current with { };
+        foreach (var (key, value) in values)
+        {
+            var property = ResourceLimitProperties.FirstOrDefault(p => KeyOf(p) == key);
+            if (property is null)
+                return Error.BadRequest("UNKNOWN_FIELD", $"Unknown resource limit '{key}'");
+
+            var field = FieldOf(property);
+            if (value < field.Min || value > field.Max)
+                return Error.BadRequest("OUT_OF_RANGE", $"{field.Label} must be between {field.Min} and {field.Max}");
+
+            property.SetValue(updated, value);
+        }
+
+        return updated;
+    }
+
+    public static Result<FeatureFlags> ApplyFeatureFlags(FeatureFlags current, IReadOnlyDictionary<string, bool> values)
+    {
+        var updated = current with { };
+        foreach (var (key, value) in values)
+        {
+            var property = FeatureFlagProperties.FirstOrDefault(p => KeyOf(p) == key);
+            if (property is null)
+                return Error.BadRequest("UNKNOWN_FIELD", $"Unknown feature flag '{key}'");
+
+            property.SetValue(updated, value);
+        }
+
+        return updated;
+    }
+
+    /// <summary>
+    /// Reads the stored limits, falling back to the tier defaults when the config has none.
+    /// </summary>
+    public static ResourceLimits ReadResourceLimits(InstanceConfig config, InstanceTier tier)
+    {
+        return string.IsNullOrEmpty(config.ResourceLimitsJson)
+            ? TierDefaults.GetResourceLimits(tier)
+            : JsonSerializer.Deserialize<ResourceLimits>(config.ResourceLimitsJson) ?? TierDefaults.GetResourceLimits(tier);
+    }
+
+    /// <summary>
+    /// Reads the stored flags, falling back to the tier defaults when the config has none.
+    /// </summary>
+    public static FeatureFlags ReadFeatureFlags(InstanceConfig config, InstanceTier tier, bool mediaEnabled)
+    {
+        return string.IsNullOrEmpty(config.FeatureFlagsJson)
+            ? TierDefaults.GetFeatureFlags(tier, mediaEnabled)
+            : JsonSerializer.Deserialize<FeatureFlags>(config.FeatureFlagsJson) ?? TierDefaults.GetFeatureFlags(tier, mediaEnabled);
+    }
+
+    private static string KeyOf(PropertyInfo property) =>
+        JsonNamingPolicy.CamelCase.ConvertName(property.Name);
+
+    // Fields added without metadata still show up, under their property name.
+    private static ConfigFieldAttribute FieldOf(PropertyInfo property) =>
+        property.GetCustomAttribute<ConfigFieldAttribute>() ?? new ConfigFieldAttribute(property.Name, "Other");
+}
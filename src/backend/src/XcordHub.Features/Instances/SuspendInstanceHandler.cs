@@ -11,7 +11,7 @@ using XcordHub.Infrastructure.Services;
 
 namespace XcordHub.Features.Instances;
 
-public sealed record SuspendInstanceCommand(long InstanceId, long UserId);
+public sealed record SuspendInstanceCommand(long InstanceId, long UserId, bool AsAdmin = false);
 
 public sealed class SuspendInstanceHandler(
     HubDbContext dbContext,
@@ -32,8 +32,8 @@ public sealed class SuspendInstanceHandler(
             return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
         }
 
-        // Verify ownership
-        if (instance.OwnerId != request.UserId)
+        // Verify ownership (platform admins act on any instance)
+        if (!request.AsAdmin && instance.OwnerId != request.UserId)
         {
             return Error.Forbidden("NOT_OWNER", "You do not have permission to suspend this instance");
         }
@@ -4,20 +4,14 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Instances;
 
 public sealed record UpdateFeatureFlagsCommand(
     long InstanceId,
-    bool CanCreateBots,
-    bool CanUseWebhooks,
-    bool CanUseCustomEmoji,
-    bool CanUseThreads,
-    bool CanUseVoiceChannels,
-    bool CanUseVideoChannels,
-    bool CanUseForumChannels,
-    bool CanUseScheduledEvents
+    Dictionary<string, bool> Flags
 );
 
 public sealed record UpdateFeatureFlagsResponse(
@@ -25,24 +19,18 @@ public sealed record UpdateFeatureFlagsResponse(
     string Message
 );
 
-public sealed record UpdateFeatureFlagsRequest(
-    bool CanCreateBots,
-    bool CanUseWebhooks,
-    bool CanUseCustomEmoji,
-    bool CanUseThreads,
-    bool CanUseVoiceChannels,
-    bool CanUseVideoChannels,
-    bool CanUseForumChannels,
-    bool CanUseScheduledEvents
-);
+// Keyed by the camelCase field keys published by AdminGetInstanceConfig. Fields
+// that are left out keep their current value.
+public sealed record UpdateFeatureFlagsRequest(Dictionary<string, bool> Flags);
 
-public sealed class UpdateFeatureFlagsHandler(HubDbContext dbContext)
+public sealed class UpdateFeatureFlagsHandler(HubDbContext dbContext, IAuditLog auditLog)
     : IRequestHandler<UpdateFeatureFlagsCommand, Result<UpdateFeatureFlagsResponse>>
 {
     public async Task<Result<UpdateFeatureFlagsResponse>> Handle(UpdateFeatureFlagsCommand request, CancellationToken cancellationToken)
     {
         var instance = await dbContext.ManagedInstances
             .Include(i => i.Config)
+            .Include(i => i.Billing)
             .FirstOrDefaultAsync(i => i.Id == request.InstanceId, cancellationToken);
 
         if (instance == null)
@@ -55,17 +43,15 @@ public sealed class UpdateFeatureFlagsHandler(HubDbContext dbContext)
             return Error.NotFound("INSTANCE_CONFIG_NOT_FOUND", "Instance configuration not found");
         }
 
-        var featureFlags = new FeatureFlags
+        var tier = instance.Billing?.Tier ?? InstanceTier.Free;
+        var current = InstanceConfigSchema.ReadFeatureFlags(instance.Config, tier, instance.Billing?.MediaEnabled ?? false);
+        var applied = InstanceConfigSchema.ApplyFeatureFlags(current, request.Flags);
+        if (applied.IsFailure)
         {
-            CanCreateBots = request.CanCreateBots,
-            CanUseWebhooks = request.CanUseWebhooks,
-            CanUseCustomEmoji = request.CanUseCustomEmoji,
-            CanUseThreads = request.CanUseThreads,
-            CanUseVoiceChannels = request.CanUseVoiceChannels,
-            CanUseVideoChannels = request.CanUseVideoChannels,
-            CanUseForumChannels = request.CanUseForumChannels,
-            CanUseScheduledEvents = request.CanUseScheduledEvents
-        };
+            return applied.Error;
+        }
+
+        var featureFlags = applied.Value;
 
         instance.Config.FeatureFlagsJson = JsonSerializer.Serialize(featureFlags);
         instance.Config.UpdatedAt = DateTimeOffset.UtcNow;
@@ -73,6 +59,9 @@ public sealed class UpdateFeatureFlagsHandler(HubDbContext dbContext)
 
         await dbContext.SaveChangesAsync(cancellationToken);
 
+        await auditLog.RecordAsync(AuditActions.InstanceFeatureFlags, AuditTargets.Instance, request.InstanceId.ToString(),
+            current, featureFlags, cancellationToken);
+
         return new UpdateFeatureFlagsResponse(
             request.InstanceId.ToString(),
             "Feature flags updated successfully"
@@ -98,17 +87,7 @@ public sealed class UpdateFeatureFlagsHandler(HubDbContext dbContext)
                     detail: "Admin access required");
             }
 
-            var command = new UpdateFeatureFlagsCommand(
-                id,
-                request.CanCreateBots,
-                request.CanUseWebhooks,
-                request.CanUseCustomEmoji,
-                request.CanUseThreads,
-                request.CanUseVoiceChannels,
-                request.CanUseVideoChannels,
-                request.CanUseForumChannels,
-                request.CanUseScheduledEvents
-            );
+            var command = new UpdateFeatureFlagsCommand(id, request.Flags);
 
             var result = await handler.Handle(command, ct);
 
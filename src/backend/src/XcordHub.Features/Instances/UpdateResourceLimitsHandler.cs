@@ -4,20 +4,14 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Instances;
 
 public sealed record UpdateResourceLimitsCommand(
     long InstanceId,
-    int MaxUsers,
-    int MaxServers,
-    int MaxStorageMb,
-    int MaxCpuPercent,
-    int MaxMemoryMb,
-    int MaxRateLimit,
-    int MaxVoiceConcurrency = 0,
-    int MaxVideoConcurrency = 0
+    Dictionary<string, int> Limits
 );
 
 public sealed record UpdateResourceLimitsResponse(
@@ -25,24 +19,18 @@ public sealed record UpdateResourceLimitsResponse(
     string Message
 );
 
-public sealed record UpdateResourceLimitsRequest(
-    int MaxUsers,
-    int MaxServers,
-    int MaxStorageMb,
-    int MaxCpuPercent,
-    int MaxMemoryMb,
-    int MaxRateLimit,
-    int MaxVoiceConcurrency = 0,
-    int MaxVideoConcurrency = 0
-);
+// Keyed by the camelCase field keys published by AdminGetInstanceConfig. Fields
+// that are left out keep their current value.
+public sealed record UpdateResourceLimitsRequest(Dictionary<string, int> Limits);
 
-public sealed class UpdateResourceLimitsHandler(HubDbContext dbContext)
+public sealed class UpdateResourceLimitsHandler(HubDbContext dbContext, IAuditLog auditLog)
     : IRequestHandler<UpdateResourceLimitsCommand, Result<UpdateResourceLimitsResponse>>
 {
     public async Task<Result<UpdateResourceLimitsResponse>> Handle(UpdateResourceLimitsCommand request, CancellationToken cancellationToken)
     {
         var instance = await dbContext.ManagedInstances
             .Include(i => i.Config)
+            .Include(i => i.Billing)
             .FirstOrDefaultAsync(i => i.Id == request.InstanceId, cancellationToken);
 
         if (instance == null)
@@ -55,17 +43,15 @@ public sealed class UpdateResourceLimitsHandler(HubDbContext dbContext)
             return Error.NotFound("INSTANCE_CONFIG_NOT_FOUND", "Instance configuration not found");
         }
 
-        var resourceLimits = new ResourceLimits
+        var tier = instance.Billing?.Tier ?? InstanceTier.Free;
+        var current = InstanceConfigSchema.ReadResourceLimits(instance.Config, tier);
+        var applied = InstanceConfigSchema.ApplyResourceLimits(current, request.Limits);
+        if (applied.IsFailure)
         {
-            MaxUsers = request.MaxUsers,
-            MaxServers = request.MaxServers,
-            MaxStorageMb = request.MaxStorageMb,
-            MaxCpuPercent = request.MaxCpuPercent,
-            MaxMemoryMb = request.MaxMemoryMb,
-            MaxRateLimit = request.MaxRateLimit,
-            MaxVoiceConcurrency = request.MaxVoiceConcurrency,
-            MaxVideoConcurrency = request.MaxVideoConcurrency
-        };
+            return applied.Error;
+        }
+
+        var resourceLimits = applied.Value;
 
         instance.Config.ResourceLimitsJson = JsonSerializer.Serialize(resourceLimits);
         instance.Config.UpdatedAt = DateTimeOffset.UtcNow;
@@ -73,6 +59,9 @@ public sealed class UpdateResourceLimitsHandler(HubDbContext dbContext)
 
         await dbContext.SaveChangesAsync(cancellationToken);
 
+        await auditLog.RecordAsync(AuditActions.InstanceResourceLimits, AuditTargets.Instance, request.InstanceId.ToString(),
+            current, resourceLimits, cancellationToken);
+
         return new UpdateResourceLimitsResponse(
             request.InstanceId.ToString(),
             "Resource limits updated successfully"
@@ -98,17 +87,7 @@ public sealed class UpdateResourceLimitsHandler(HubDbContext dbContext)
                     detail: "Admin access required");
             }
 
-            var command = new UpdateResourceLimitsCommand(
-                id,
-                request.MaxUsers,
-                request.MaxServers,
-                request.MaxStorageMb,
-                request.MaxCpuPercent,
-                request.MaxMemoryMb,
-                request.MaxRateLimit,
-                request.MaxVoiceConcurrency,
-                request.MaxVideoConcurrency
-            );
+            var command = new UpdateResourceLimitsCommand(id, request.Limits);
 
             var result = await handler.Handle(command, ct);
 
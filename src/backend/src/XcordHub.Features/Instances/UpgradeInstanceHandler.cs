@@ -12,7 +12,7 @@ namespace XcordHub.Features.Instances;
 
 public sealed record UpgradeInstanceRequest(string TargetImage);
 
-public sealed record UpgradeInstanceCommand(long InstanceId, long UserId, string TargetImage);
+public sealed record UpgradeInstanceCommand(long InstanceId, long UserId, string TargetImage, bool AsAdmin = false);
 
 public sealed record UpgradeInstanceResponse(bool Accepted);
 
@@ -29,7 +29,7 @@ public sealed class UpgradeInstanceHandler(HubDbContext dbContext, IUpgradeQueue
         if (instance == null)
             return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
 
-        if (instance.OwnerId != request.UserId)
+        if (!request.AsAdmin && instance.OwnerId != request.UserId)
             return Error.Forbidden("NOT_OWNER", "You do not have permission to manage this instance");
 
         if (instance.Status != InstanceStatus.Running)
@@ -0,0 +1,95 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Monitoring;
+
+public sealed record GetInstanceUptimeQuery(long InstanceId, long UserId, bool AsAdmin = false);
+
+public sealed record GetInstanceUptimeResponse(
+    string InstanceId,
+    double? Availability7Days,
+    double? Availability30Days,
+    double? Availability90Days,
+    List<UptimeDayItem> Days,
+    List<UptimeOutageItem> Outages
+);
+
+public sealed class GetInstanceUptimeHandler(HubDbContext dbContext)
+    : IRequestHandler<GetInstanceUptimeQuery, Result<GetInstanceUptimeResponse>>
+{
+    public const int HistoryDays = 90;
+
+    public async Task<Result<GetInstanceUptimeResponse>> Handle(GetInstanceUptimeQuery request, CancellationToken cancellationToken)
+    {
+        var instance = await dbContext.ManagedInstances
+            .AsNoTracking()
+            .FirstOrDefaultAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (instance == null)
+        {
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+        }
+
+        if (!request.AsAdmin && instance.OwnerId != request.UserId)
+        {
+            return Error.Forbidden("NOT_OWNER", "You do not have permission to view this instance");
+        }
+
+        var now = DateTimeOffset.UtcNow;
+        var windowStart = new DateTimeOffset(now.UtcDateTime.Date, TimeSpan.Zero).AddDays(-(HistoryDays - 1));
+
+        var intervals = await dbContext.UptimeIntervals
+            .AsNoTracking()
+            .Where(u => u.ManagedInstanceId == instance.Id && (u.EndedAt == null || u.EndedAt > windowStart))
+            .ToListAsync(cancellationToken);
+
+        // The last interval that closed before the window tells whether the
+        // instance was already down when the window opened.
+        var previous = await dbContext.UptimeIntervals
+            .AsNoTracking()
+            .Where(u => u.ManagedInstanceId == instance.Id && u.EndedAt != null && u.EndedAt <= windowStart)
+            .OrderByDescending(u => u.EndedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (previous != null)
+            intervals.Add(previous);
+
+        var history = UptimeHistory.Build(intervals, now, HistoryDays);
+
+        return new GetInstanceUptimeResponse(
+            instance.Id.ToString(),
+            UptimeHistory.Availability(history.Days, 7),
+            UptimeHistory.Availability(history.Days, 30),
+            UptimeHistory.Availability(history.Days, 90),
+            history.Days,
+            history.Outages);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/hub/instances/{instanceId:long}/uptime", async (
+            [FromRoute] long instanceId,
+            ClaimsPrincipal user,
+            GetInstanceUptimeHandler handler,
+            CancellationToken ct) =>
+        {
+            var userIdClaim = user.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (userIdClaim == null || !long.TryParse(userIdClaim, out var userId))
+            {
+                return Results.Unauthorized();
+            }
+
+            var query = new GetInstanceUptimeQuery(instanceId, userId);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.User)
+        .Produces<GetInstanceUptimeResponse>(200)
+        .WithName("GetInstanceUptime")
+        .WithTags("Instances");
+    }
+}
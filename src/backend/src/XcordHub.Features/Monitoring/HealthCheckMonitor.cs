@@ -2,6 +2,7 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Logging;
 using XcordHub.Entities;
+using XcordHub.Features.Upgrades;
 using XcordHub.Infrastructure.Services;
 using XcordHub.Infrastructure.Data;
 
@@ -26,6 +27,8 @@ public sealed class HealthCheckMonitor(
         var dockerService = scope.ServiceProvider.GetRequiredService<IDockerService>();
         var proxyManager = scope.ServiceProvider.GetRequiredService<ICaddyProxyManager>();
         var alertService = scope.ServiceProvider.GetRequiredService<IAlertService>();
+        var upgradeQueue = scope.ServiceProvider.GetRequiredService<IUpgradeQueue>();
+        var systemConfig = await scope.ServiceProvider.GetRequiredService<ISystemConfigService>().GetAsync(ct);
 
         // Get all Running instances
         var runningInstances = await dbContext.ManagedInstances
@@ -64,6 +67,8 @@ public sealed class HealthCheckMonitor(
                 dockerService,
                 proxyManager,
                 alertService,
+                upgradeQueue,
+                systemConfig.AutoRollbackWindowMinutes,
                 dbContext,
                 ct);
         }
@@ -75,6 +80,8 @@ public sealed class HealthCheckMonitor(
         IDockerService dockerService,
         ICaddyProxyManager proxyManager,
         IAlertService alertService,
+        IUpgradeQueue upgradeQueue,
+        int autoRollbackWindowMinutes,
         HubDbContext dbContext,
         CancellationToken cancellationToken)
     {
@@ -170,6 +177,9 @@ public sealed class HealthCheckMonitor(
                     instance,
                     dockerService,
                     alertService,
+                    upgradeQueue,
+                    autoRollbackWindowMinutes,
+                    dbContext,
                     cancellationToken);
             }
 
@@ -197,11 +207,21 @@ public sealed class HealthCheckMonitor(
         Entities.ManagedInstance instance,
         IDockerService dockerService,
         IAlertService alertService,
+        IUpgradeQueue upgradeQueue,
+        int autoRollbackWindowMinutes,
+        HubDbContext dbContext,
         CancellationToken cancellationToken)
     {
         var health = instance.Health!;
         var infrastructure = instance.Infrastructure!;
 
+        // 3 failures shortly after an upgrade -> roll the upgrade back instead of restarting
+        if (health.ConsecutiveFailures == _restartThreshold
+            && await TryAutoRollbackAsync(instance, upgradeQueue, autoRollbackWindowMinutes, dbContext, cancellationToken))
+        {
+            return;
+        }
+
         // 3 failures -> restart container
         if (health.ConsecutiveFailures == _restartThreshold)
         {
@@ -245,4 +265,37 @@ public sealed class HealthCheckMonitor(
                 cancellationToken);
         }
     }
+
+    private async Task<bool> TryAutoRollbackAsync(
+        Entities.ManagedInstance instance,
+        IUpgradeQueue upgradeQueue,
+        int autoRollbackWindowMinutes,
+        HubDbContext dbContext,
+        CancellationToken cancellationToken)
+    {
+        if (autoRollbackWindowMinutes <= 0)
+            return false;
+
+        var upgrade = await RollbackPlan.LatestUpgrade(dbContext.UpgradeEvents, instance.Id)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (upgrade is null
+            || !RollbackPlan.WithinAutoRollbackWindow(upgrade.CompletedAt, DateTimeOffset.UtcNow, autoRollbackWindowMinutes)
+            || RollbackPlan.CannotRollBack(upgrade, instance) is not null)
+        {
+            return false;
+        }
+
+        Logger.LogWarning(
+            "Instance {InstanceId} ({Domain}) is failing health checks within {Window} minutes of upgrade {UpgradeEventId}, rolling back to {Image}",
+            instance.Id, instance.Domain, autoRollbackWindowMinutes, upgrade.Id, upgrade.PreviousImage);
+
+        await upgradeQueue.EnqueueRollbackAsync(
+            upgrade.Id,
+            restoreBackup: false,
+            $"Automatic rollback: {instance.Health!.ConsecutiveFailures} consecutive failed health checks within {autoRollbackWindowMinutes} minutes of the upgrade",
+            cancellationToken);
+
+        return true;
+    }
 }
@@ -0,0 +1,130 @@
+using XcordHub.Entities;
+
+namespace XcordHub.Features.Monitoring;
+
+public sealed record UptimeDayItem(
+    DateOnly Date,
+    double MonitoredMinutes,
+    double DowntimeMinutes,
+    double? AvailabilityPercentage
+);
+
+public sealed record UptimeOutageItem(
+    DateTimeOffset StartedAt,
+    DateTimeOffset? EndedAt,
+    double DurationMinutes,
+    bool IsOngoing
+);
+
+public sealed record UptimeHistoryResult(
+    List<UptimeDayItem> Days,
+    List<UptimeOutageItem> Outages
+);
+
+/// <summary>
+/// Turns the recorded <see cref="UptimeInterval"/> rows into per-day availability
+/// and a list of outages. Intervals only exist once tracking has started, so time
+/// before the first interval counts as unmonitored rather than as downtime; after
+/// that, every gap between intervals is an outage. Days are UTC calendar days.
+/// </summary>
+public static class UptimeHistory
+{
+    public static UptimeHistoryResult Build(IEnumerable<UptimeInterval> intervals, DateTimeOffset now, int days)
+    {
+        var ordered = intervals
+            .Where(u => u.StartedAt < now)
+            .OrderBy(u => u.StartedAt)
+            .ToList();
+
+        var today = DateOnly.FromDateTime(now.UtcDateTime);
+        var firstDay = today.AddDays(-(days - 1));
+        var windowStart = StartOf(firstDay);
+
+        if (ordered.Count == 0)
+        {
+            var empty = Enumerable.Range(0, days)
+                .Select(offset => new UptimeDayItem(firstDay.AddDays(offset), 0, 0, null))
+                .ToList();
+            return new UptimeHistoryResult(empty, []);
+        }
+
+        var trackedSince = ordered[0].StartedAt;
+        var outages = FindOutages(ordered, now)
+            .Where(o => (o.EndedAt ?? now) > windowStart)
+            .ToList();
+
+        var monitoredFrom = trackedSince > windowStart ? trackedSince : windowStart;
+        var dayItems = Enumerable.Range(0, days)
+            .Select(offset =>
+            {
+                var date = firstDay.AddDays(offset);
+                var dayStart = Max(StartOf(date), monitoredFrom);
+                var dayEnd = Min(StartOf(date.AddDays(1)), now);
+
+                var monitored = Minutes(dayStart, dayEnd);
+                if (monitored <= 0)
+                    return new UptimeDayItem(date, 0, 0, null);
+
+                var downtime = outages.Sum(o => Minutes(Max(o.StartedAt, dayStart), Min(o.EndedAt ?? now, dayEnd)));
+                return new UptimeDayItem(
+                    date,
+                    Math.Round(monitored, 2),
+                    Math.Round(downtime, 2),
+                    Percentage(monitored - downtime, monitored));
+            })
+            .ToList();
+
+        return new UptimeHistoryResult(dayItems, outages.OrderByDescending(o => o.StartedAt).ToList());
+    }
+
+    /// <summary>
+    /// Availability over the last <paramref name="days"/> days, or null when none
+    /// of that period was monitored.
+    /// </summary>
+    public static double? Availability(List<UptimeDayItem> history, int days)
+    {
+        var window = history.TakeLast(days).ToList();
+        var monitored = window.Sum(d => d.MonitoredMinutes);
+        return monitored > 0 ? Percentage(monitored - window.Sum(d => d.DowntimeMinutes), monitored) : null;
+    }
+
+    private static IEnumerable<UptimeOutageItem> FindOutages(List<UptimeInterval> ordered, DateTimeOffset now)
+    {
+        // Intervals can overlap if a health check raced a restart, so track the
+        // furthest end seen rather than the previous interval's end.
+        DateTimeOffset? coveredUntil = null;
+
+        foreach (var interval in ordered)
+        {
+            if (coveredUntil.HasValue && interval.StartedAt > coveredUntil.Value)
+            {
+                yield return Outage(coveredUntil.Value, interval.StartedAt, now);
+            }
+
+            var end = interval.EndedAt ?? now;
+            if (!coveredUntil.HasValue || end > coveredUntil.Value)
+                coveredUntil = end;
+        }
+
+        if (coveredUntil.HasValue && coveredUntil.Value < now)
+        {
+            yield return Outage(coveredUntil.Value, null, now);
+        }
+    }
+
+    private static UptimeOutageItem Outage(DateTimeOffset start, DateTimeOffset? end, DateTimeOffset now) =>
+        new(start, end, Math.Round(Minutes(start, end ?? now), 2), end == null);
+
+    private static DateTimeOffset StartOf(DateOnly date) =>
+        new(date.ToDateTime(TimeOnly.MinValue), TimeSpan.Zero);
+
+    private static double Minutes(DateTimeOffset from, DateTimeOffset to) =>
+        to > from ? (to - from).TotalMinutes : 0;
+
+    private static double Percentage(double part, double whole) =>
+        Math.Round(Math.Clamp(part / whole * 100, 0, 100), 3);
+
+    private static DateTimeOffset Max(DateTimeOffset a, DateTimeOffset b) => a > b ? a : b;
+
+    private static DateTimeOffset Min(DateTimeOffset a, DateTimeOffset b) => a < b ? a : b;
+}
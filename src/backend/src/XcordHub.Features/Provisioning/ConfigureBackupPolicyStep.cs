@@ -1,5 +1,6 @@
 using Microsoft.EntityFrameworkCore;
 using XcordHub.Entities;
+using XcordHub.Features.Backups;
 using XcordHub.Infrastructure.Data;
 using XcordHub;
 
@@ -40,6 +41,17 @@ public sealed class ConfigureBackupPolicyStep : IProvisioningStep
             UpdatedAt = now
         };
 
+        // The template assigned to the instance's tier replaces the fixed default
+        var tier = await _dbContext.InstanceBillings
+            .Where(b => b.ManagedInstanceId == instanceId)
+            .Select(b => (InstanceTier?)b.Tier)
+            .FirstOrDefaultAsync(cancellationToken) ?? InstanceTier.Free;
+        var template = await BackupTemplateSettings.ForTierAsync(_dbContext, tier, cancellationToken);
+        if (template != null)
+        {
+            BackupTemplateSettings.Apply(template, policy);
+        }
+
         _dbContext.BackupPolicies.Add(policy);
         await _dbContext.SaveChangesAsync(cancellationToken);
         return true;
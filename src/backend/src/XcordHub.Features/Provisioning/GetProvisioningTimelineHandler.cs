@@ -0,0 +1,77 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Provisioning;
+
+public sealed record GetProvisioningTimelineQuery(long InstanceId, long UserId, bool AsAdmin = false);
+
+public sealed record ProvisioningTimelineResponse(
+    string InstanceId,
+    string InstanceStatus,
+    bool CanRetry,
+    List<ProvisioningStepItem> Steps
+);
+
+public sealed class GetProvisioningTimelineHandler(HubDbContext dbContext, IEnumerable<IProvisioningStep> steps)
+    : IRequestHandler<GetProvisioningTimelineQuery, Result<ProvisioningTimelineResponse>>
+{
+    public async Task<Result<ProvisioningTimelineResponse>> Handle(GetProvisioningTimelineQuery request, CancellationToken cancellationToken)
+    {
+        var instance = await dbContext.ManagedInstances
+            .AsNoTracking()
+            .Include(i => i.ProvisioningEvents)
+            .FirstOrDefaultAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (instance == null)
+        {
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+        }
+
+        if (!request.AsAdmin && instance.OwnerId != request.UserId)
+        {
+            return Error.Forbidden("NOT_OWNER", "You do not have permission to view this instance");
+        }
+
+        var timeline = ProvisioningTimeline.Build(steps.Select(s => s.StepName), instance.ProvisioningEvents);
+
+        return new ProvisioningTimelineResponse(
+            instance.Id.ToString(),
+            instance.Status.ToString(),
+            CanRetry(instance.Status, timeline),
+            timeline);
+    }
+
+    // Failed is also set by upgrades and the reconciler, so only offer a retry
+    // when it was a provisioning step that failed.
+    public static bool CanRetry(InstanceStatus status, List<ProvisioningStepItem> timeline) =>
+        status == InstanceStatus.Failed && timeline.Any(s => s.Status == "Failed");
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/hub/instances/{instanceId:long}/provisioning", async (
+            [FromRoute] long instanceId,
+            ClaimsPrincipal user,
+            GetProvisioningTimelineHandler handler,
+            CancellationToken ct) =>
+        {
+            var userIdClaim = user.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (userIdClaim == null || !long.TryParse(userIdClaim, out var userId))
+            {
+                return Results.Unauthorized();
+            }
+
+            var query = new GetProvisioningTimelineQuery(instanceId, userId);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.User)
+        .Produces<ProvisioningTimelineResponse>(200)
+        .WithName("GetProvisioningTimeline")
+        .WithTags("Instances");
+    }
+}
@@ -7,6 +7,7 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Options;
 using XcordHub;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Features.Instances;
 using XcordHub.Infrastructure.Data;
 using XcordHub.Infrastructure.Options;
@@ -35,6 +36,7 @@ public sealed class ProvisionInstanceHandler(
     IProvisioningQueue provisioningQueue,
     SnowflakeIdGenerator snowflakeGenerator,
     ICurrentUserService currentUserService,
+    IAuditLog auditLog,
     IOptions<AuthOptions> authOptions)
     : IRequestHandler<ProvisionInstanceCommand, Result<ProvisionInstanceResponse>>, IValidatable<ProvisionInstanceCommand>
 {
@@ -166,6 +168,18 @@ public sealed class ProvisionInstanceHandler(
         // Enqueue for background processing
         await provisioningQueue.EnqueueAsync(instanceId, cancellationToken);
 
+        // The admin password is deliberately left out of the audit trail
+        await auditLog.RecordAsync(AuditActions.InstanceProvision, AuditTargets.Instance, instanceId.ToString(),
+            after: new
+            {
+                OwnerId = ownerId.ToString(),
+                instance.Domain,
+                instance.DisplayName,
+                Tier = request.Tier.ToString(),
+                request.MediaEnabled
+            },
+            cancellationToken: cancellationToken);
+
         // Return 201 with instance details and plaintext admin password
         return new ProvisionInstanceResponse(
             instanceId.ToString(),
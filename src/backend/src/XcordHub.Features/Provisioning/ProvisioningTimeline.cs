@@ -0,0 +1,86 @@
+using XcordHub.Entities;
+
+namespace XcordHub.Features.Provisioning;
+
+public sealed record ProvisioningAttemptItem(
+    string Phase,
+    string Status,
+    string? ErrorMessage,
+    DateTimeOffset? StartedAt,
+    DateTimeOffset? CompletedAt
+);
+
+public sealed record ProvisioningStepItem(
+    string StepName,
+    string Status,
+    int Attempts,
+    DateTimeOffset? StartedAt,
+    DateTimeOffset? CompletedAt,
+    long? DurationMs,
+    string? ErrorMessage,
+    List<ProvisioningAttemptItem> Events
+);
+
+/// <summary>
+/// Folds the raw <see cref="ProvisioningEvent"/> rows (one per phase attempt) into
+/// one entry per pipeline step, in pipeline order. A step's status is taken from
+/// its most recent event, so a step that failed and then succeeded on a retry
+/// reads as Completed while its earlier attempts stay visible in <c>Events</c>.
+/// </summary>
+public static class ProvisioningTimeline
+{
+    public static List<ProvisioningStepItem> Build(IEnumerable<string> stepNames, IEnumerable<ProvisioningEvent> events)
+    {
+        var byStep = events
+            .OrderBy(e => e.StartedAt)
+            .ThenBy(e => e.Id)
+            .GroupBy(e => e.StepName)
+            .ToDictionary(g => g.Key, g => g.ToList());
+
+        var names = stepNames.ToList();
+
+        // Steps that were renamed or removed since the instance was provisioned
+        names.AddRange(byStep.Keys.Where(name => !names.Contains(name)));
+
+        return names
+            .Select(name => BuildStep(name, byStep.GetValueOrDefault(name) ?? []))
+            .ToList();
+    }
+
+    private static ProvisioningStepItem BuildStep(string stepName, List<ProvisioningEvent> events)
+    {
+        if (events.Count == 0)
+            return new ProvisioningStepItem(stepName, "Pending", 0, null, null, null, null, []);
+
+        var latest = events[^1];
+        var status = latest.Status switch
+        {
+            ProvisioningStepStatus.Failed => "Failed",
+            ProvisioningStepStatus.Completed when latest.Phase == ProvisioningPhase.Verify => "Completed",
+            // Execute finished but Verify has not started yet
+            ProvisioningStepStatus.Completed => "InProgress",
+            _ => latest.Status.ToString()
+        };
+
+        var startedAt = events[0].StartedAt;
+        var completedAt = status is "Completed" or "Failed" ? latest.CompletedAt : null;
+        long? durationMs = startedAt.HasValue && completedAt.HasValue
+            ? (long)(completedAt.Value - startedAt.Value).TotalMilliseconds
+            : null;
+
+        return new ProvisioningStepItem(
+            stepName,
+            status,
+            events.Count(e => e.Phase == ProvisioningPhase.Execute),
+            startedAt,
+            completedAt,
+            durationMs,
+            status == "Failed" ? latest.ErrorMessage : null,
+            events.Select(e => new ProvisioningAttemptItem(
+                e.Phase.ToString(),
+                e.Status.ToString(),
+                e.ErrorMessage,
+                e.StartedAt,
+                e.CompletedAt)).ToList());
+    }
+}
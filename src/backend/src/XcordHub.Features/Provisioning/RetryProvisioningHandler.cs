@@ -0,0 +1,76 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Provisioning;
+
+public sealed record RetryProvisioningCommand(long InstanceId);
+
+public sealed record RetryProvisioningResponse(string InstanceId, string StepName);
+
+/// <summary>
+/// Puts a failed instance back on the provisioning queue. The pipeline resumes
+/// after the last step whose Execute and Verify phases both completed, which is
+/// the step that failed, so completed steps are not repeated.
+/// </summary>
+public sealed class RetryProvisioningHandler(
+    HubDbContext dbContext,
+    IProvisioningQueue provisioningQueue,
+    IEnumerable<IProvisioningStep> steps,
+    IAuditLog auditLog,
+    ILogger<RetryProvisioningHandler> logger)
+    : IRequestHandler<RetryProvisioningCommand, Result<RetryProvisioningResponse>>
+{
+    public async Task<Result<RetryProvisioningResponse>> Handle(RetryProvisioningCommand request, CancellationToken cancellationToken)
+    {
+        var instance = await dbContext.ManagedInstances
+            .AsNoTracking()
+            .Include(i => i.ProvisioningEvents)
+            .FirstOrDefaultAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (instance == null)
+        {
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+        }
+
+        var timeline = ProvisioningTimeline.Build(steps.Select(s => s.StepName), instance.ProvisioningEvents);
+        if (!GetProvisioningTimelineHandler.CanRetry(instance.Status, timeline))
+        {
+            return Error.Conflict("NOTHING_TO_RETRY", "Only instances whose provisioning failed can be retried");
+        }
+
+        var failedStep = timeline.First(s => s.Status == "Failed");
+
+        await provisioningQueue.EnqueueAsync(instance.Id, cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.InstanceProvisioningRetry, AuditTargets.Instance, instance.Id.ToString(),
+            after: new { RetryFromStep = failedStep.StepName },
+            cancellationToken: cancellationToken);
+
+        logger.LogInformation("Provisioning of instance {InstanceId} re-queued from step {StepName}",
+            instance.Id, failedStep.StepName);
+
+        return new RetryProvisioningResponse(instance.Id.ToString(), failedStep.StepName);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/provisioning/retry", async (
+            long id,
+            RetryProvisioningHandler handler,
+            CancellationToken ct) =>
+        {
+            var command = new RetryProvisioningCommand(id);
+            return await handler.ExecuteAsync(command, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<RetryProvisioningResponse>(200)
+        .WithName("AdminRetryProvisioning")
+        .WithTags("Admin");
+    }
+}
@@ -0,0 +1,40 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Support;
+
+public sealed record AdminGetSupportTicketQuery(long TicketId);
+
+public sealed class AdminGetSupportTicketHandler(HubDbContext dbContext)
+    : IRequestHandler<AdminGetSupportTicketQuery, Result<SupportTicketDetail>>
+{
+    public async Task<Result<SupportTicketDetail>> Handle(AdminGetSupportTicketQuery request, CancellationToken cancellationToken)
+    {
+        var ticket = await SupportTickets.WithParties(dbContext.ContactSubmissions.AsNoTracking())
+            .FirstOrDefaultAsync(t => t.Id == request.TicketId, cancellationToken);
+
+        if (ticket is null)
+            return Error.NotFound("TICKET_NOT_FOUND", "Ticket not found");
+
+        return await SupportTickets.ToDetailAsync(dbContext, ticket, cancellationToken);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/tickets/{ticketId:long}", async (
+            long ticketId,
+            AdminGetSupportTicketHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new AdminGetSupportTicketQuery(ticketId), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<SupportTicketDetail>(200)
+        .WithName("AdminGetSupportTicket")
+        .WithTags("Admin");
+    }
+}
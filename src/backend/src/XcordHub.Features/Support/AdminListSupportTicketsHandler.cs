@@ -0,0 +1,124 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Support;
+
+public sealed record AdminListSupportTicketsQuery(
+    int Page = 1,
+    int PageSize = 50,
+    string? Status = null,
+    string? Assignee = null
+);
+
+public sealed record SupportTicketCounts(int Open, int Pending, int Closed);
+
+public sealed record SupportAssignee(string Id, string DisplayName);
+
+public sealed record AdminListSupportTicketsResponse(
+    List<SupportTicketItem> Tickets,
+    int Total,
+    int Page,
+    int PageSize,
+    SupportTicketCounts Counts,
+    List<SupportAssignee> Assignees
+);
+
+/// <summary>
+/// The admin support inbox: tickets with the most recent activity first, filtered by
+/// status and assignee, with the per-status counts and the admins tickets can be
+/// assigned to. The assignee filter is an admin's id or "unassigned".
+/// </summary>
+public sealed class AdminListSupportTicketsHandler(HubDbContext dbContext)
+    : IRequestHandler<AdminListSupportTicketsQuery, Result<AdminListSupportTicketsResponse>>,
+      IValidatable<AdminListSupportTicketsQuery>
+{
+    public const string Unassigned = "unassigned";
+
+    public Error? Validate(AdminListSupportTicketsQuery request)
+    {
+        if (!string.IsNullOrWhiteSpace(request.Status) && SupportTickets.ParseStatus(request.Status) is null)
+            return Error.Validation("INVALID_STATUS", "Status must be one of: Open, Pending, Closed");
+
+        if (!string.IsNullOrWhiteSpace(request.Assignee) && request.Assignee != Unassigned && !long.TryParse(request.Assignee, out _))
+            return Error.Validation("INVALID_ASSIGNEE", $"Assignee must be a user id or '{Unassigned}'");
+
+        return null;
+    }
+
+    public async Task<Result<AdminListSupportTicketsResponse>> Handle(AdminListSupportTicketsQuery request, CancellationToken cancellationToken)
+    {
+        var query = dbContext.ContactSubmissions.AsNoTracking();
+
+        if (SupportTickets.ParseStatus(request.Status) is { } status)
+            query = query.Where(t => t.Status == status);
+
+        if (request.Assignee == Unassigned)
+        {
+            query = query.Where(t => t.AssigneeId == null);
+        }
+        else if (long.TryParse(request.Assignee, out var assigneeId))
+        {
+            query = query.Where(t => t.AssigneeId == assigneeId);
+        }
+
+        var total = await query.CountAsync(cancellationToken);
+
+        var page = Math.Max(1, request.Page);
+        var pageSize = Math.Clamp(request.PageSize, 1, 100);
+
+        var tickets = await SupportTickets.WithParties(query)
+            .OrderByDescending(t => t.UpdatedAt)
+            .ThenByDescending(t => t.Id)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        var statusCounts = await dbContext.ContactSubmissions
+            .GroupBy(t => t.Status)
+            .Select(g => new { Status = g.Key, Count = g.Count() })
+            .ToListAsync(cancellationToken);
+
+        int CountOf(SupportTicketStatus s) => statusCounts.Where(c => c.Status == s).Sum(c => c.Count);
+
+        var assignees = await dbContext.HubUsers
+            .Where(u => u.IsAdmin && !u.IsDisabled)
+            .OrderBy(u => u.DisplayName)
+            .Select(u => new SupportAssignee(u.Id.ToString(), u.DisplayName))
+            .ToListAsync(cancellationToken);
+
+        return new AdminListSupportTicketsResponse(
+            await SupportTickets.ToItemsAsync(dbContext, tickets, cancellationToken),
+            total,
+            page,
+            pageSize,
+            new SupportTicketCounts(
+                CountOf(SupportTicketStatus.Open),
+                CountOf(SupportTicketStatus.Pending),
+                CountOf(SupportTicketStatus.Closed)),
+            assignees);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/tickets", async (
+            int? page,
+            int? pageSize,
+            string? status,
+            string? assignee,
+            AdminListSupportTicketsHandler handler,
+            CancellationToken ct) =>
+        {
+            var query = new AdminListSupportTicketsQuery(page ?? 1, pageSize ?? 50, status, assignee);
+            return await handler.ExecuteAsync(query, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<AdminListSupportTicketsResponse>(200)
+        .WithName("AdminListSupportTickets")
+        .WithTags("Admin");
+    }
+}
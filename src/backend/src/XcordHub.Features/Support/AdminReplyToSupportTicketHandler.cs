@@ -0,0 +1,92 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Options;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Support;
+
+public sealed record AdminReplyToSupportTicketCommand(long TicketId, SupportTicketReplyRequest Request, long AuthorId);
+
+/// <summary>
+/// Adds a staff reply to a ticket and emails it to the submitter. The ticket moves
+/// to Pending, waiting on the submitter, unless another status is given.
+/// </summary>
+public sealed class AdminReplyToSupportTicketHandler(
+    HubDbContext dbContext,
+    SnowflakeIdGenerator snowflakeGenerator,
+    IEncryptionService encryptionService,
+    IEmailService emailService,
+    IOptions<HubEmailOptions> emailOptions,
+    IAuditLog auditLog)
+    : IRequestHandler<AdminReplyToSupportTicketCommand, Result<SupportTicketDetail>>,
+      IValidatable<AdminReplyToSupportTicketCommand>
+{
+    public Error? Validate(AdminReplyToSupportTicketCommand request)
+    {
+        if (SupportTickets.ValidateBody(request.Request.Body) is { } problem)
+            return Error.Validation("VALIDATION_FAILED", problem);
+
+        if (request.Request.Status is not null && SupportTickets.ParseStatus(request.Request.Status) is null)
+            return Error.Validation("INVALID_STATUS", "Status must be one of: Open, Pending, Closed");
+
+        return null;
+    }
+
+    public async Task<Result<SupportTicketDetail>> Handle(AdminReplyToSupportTicketCommand request, CancellationToken cancellationToken)
+    {
+        var ticket = await SupportTickets.WithParties(dbContext.ContactSubmissions)
+            .FirstOrDefaultAsync(t => t.Id == request.TicketId, cancellationToken);
+
+        if (ticket is null)
+            return Error.NotFound("TICKET_NOT_FOUND", "Ticket not found");
+
+        var author = await dbContext.HubUsers.FirstAsync(u => u.Id == request.AuthorId, cancellationToken);
+
+        var reply = SupportTickets.AddReply(dbContext, snowflakeGenerator, ticket, author, isStaff: true,
+            request.Request.Body, DateTimeOffset.UtcNow);
+        ticket.Status = SupportTickets.ParseStatus(request.Request.Status) ?? SupportTicketStatus.Pending;
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.SupportTicketReply, AuditTargets.SupportTicket, ticket.Id.ToString(),
+            after: new { ReplyId = reply.Id.ToString(), Status = ticket.Status.ToString() },
+            cancellationToken: cancellationToken);
+
+        if (SupportTickets.RecipientEmail(ticket, encryptionService) is { } recipient)
+        {
+            var threadUrl = ticket.SubmitterId.HasValue
+                ? SupportTickets.ThreadUrl(emailOptions.Value.HubBaseUrl, ticket.Id)
+                : null;
+            var emailBody = SupportTickets.BuildReplyEmailBody(ticket, reply, threadUrl);
+            await emailService.SendAsync(recipient, $"Re: {ticket.Subject}", emailBody);
+        }
+
+        return await SupportTickets.ToDetailAsync(dbContext, ticket, cancellationToken);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/tickets/{ticketId:long}/replies", async (
+            long ticketId,
+            SupportTicketReplyRequest request,
+            AdminReplyToSupportTicketHandler handler,
+            HttpContext httpContext,
+            CancellationToken ct) =>
+        {
+            var userId = long.Parse(httpContext.User.FindFirst("sub")!.Value);
+            var command = new AdminReplyToSupportTicketCommand(ticketId, request, userId);
+            return await handler.ExecuteAsync(command, ct,
+                result => Results.Created($"/api/v1/admin/tickets/{ticketId}", result));
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<SupportTicketDetail>(201)
+        .WithName("AdminReplyToSupportTicket")
+        .WithTags("Admin");
+    }
+}
@@ -0,0 +1,91 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Support;
+
+public sealed record AdminUpdateSupportTicketRequest(string Status, string? AssigneeId);
+
+public sealed record AdminUpdateSupportTicketCommand(long TicketId, AdminUpdateSupportTicketRequest Request);
+
+/// <summary>
+/// Changes a ticket's status and who it is assigned to. Only admins can be assigned.
+/// </summary>
+public sealed class AdminUpdateSupportTicketHandler(HubDbContext dbContext, IAuditLog auditLog)
+    : IRequestHandler<AdminUpdateSupportTicketCommand, Result<SupportTicketDetail>>,
+      IValidatable<AdminUpdateSupportTicketCommand>
+{
+    public Error? Validate(AdminUpdateSupportTicketCommand request)
+    {
+        if (SupportTickets.ParseStatus(request.Request.Status) is null)
+            return Error.Validation("INVALID_STATUS", "Status must be one of: Open, Pending, Closed");
+
+        if (!string.IsNullOrEmpty(request.Request.AssigneeId) && !long.TryParse(request.Request.AssigneeId, out _))
+            return Error.Validation("VALIDATION_FAILED", "AssigneeId must be a user id");
+
+        return null;
+    }
+
+    public async Task<Result<SupportTicketDetail>> Handle(AdminUpdateSupportTicketCommand request, CancellationToken cancellationToken)
+    {
+        var ticket = await SupportTickets.WithParties(dbContext.ContactSubmissions)
+            .FirstOrDefaultAsync(t => t.Id == request.TicketId, cancellationToken);
+
+        if (ticket is null)
+            return Error.NotFound("TICKET_NOT_FOUND", "Ticket not found");
+
+        HubUser? assignee = null;
+        if (!string.IsNullOrEmpty(request.Request.AssigneeId))
+        {
+            var assigneeId = long.Parse(request.Request.AssigneeId);
+            assignee = await dbContext.HubUsers
+                .FirstOrDefaultAsync(u => u.Id == assigneeId && u.IsAdmin && !u.IsDisabled, cancellationToken);
+
+            if (assignee is null)
+                return Error.Validation("INVALID_ASSIGNEE", "Tickets can only be assigned to an active admin");
+        }
+
+        var status = SupportTickets.ParseStatus(request.Request.Status)!.Value;
+        var before = Snapshot(ticket);
+
+        if (ticket.Status != status)
+            ticket.UpdatedAt = DateTimeOffset.UtcNow;
+
+        ticket.Status = status;
+        ticket.AssigneeId = assignee?.Id;
+        ticket.Assignee = assignee;
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.SupportTicketUpdate, AuditTargets.SupportTicket, ticket.Id.ToString(),
+            before, Snapshot(ticket), cancellationToken);
+
+        return await SupportTickets.ToDetailAsync(dbContext, ticket, cancellationToken);
+    }
+
+    private static object Snapshot(ContactSubmission ticket) => new
+    {
+        Status = ticket.Status.ToString(),
+        Assignee = ticket.Assignee?.DisplayName
+    };
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPut("/api/v1/admin/tickets/{ticketId:long}", async (
+            long ticketId,
+            AdminUpdateSupportTicketRequest request,
+            AdminUpdateSupportTicketHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new AdminUpdateSupportTicketCommand(ticketId, request), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<SupportTicketDetail>(200)
+        .WithName("AdminUpdateSupportTicket")
+        .WithTags("Admin");
+    }
+}
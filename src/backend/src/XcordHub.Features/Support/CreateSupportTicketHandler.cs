@@ -0,0 +1,101 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Support;
+
+public sealed record CreateSupportTicketRequest(string InstanceId, string Subject, string Message);
+
+public sealed record CreateSupportTicketCommand(string InstanceId, string Subject, string Message);
+
+/// <summary>
+/// Opens a ticket about one of the signed-in user's instances and lets the support
+/// inbox know. Staff replies are emailed to the user's account address.
+/// </summary>
+public sealed class CreateSupportTicketHandler(
+    HubDbContext dbContext,
+    ICurrentUserService currentUserService,
+    SnowflakeIdGenerator snowflakeGenerator,
+    IEmailService emailService)
+    : IRequestHandler<CreateSupportTicketCommand, Result<SupportTicketDetail>>,
+      IValidatable<CreateSupportTicketCommand>
+{
+    public Error? Validate(CreateSupportTicketCommand request)
+    {
+        if (!long.TryParse(request.InstanceId, out _))
+            return Error.Validation("VALIDATION_FAILED", "Choose the instance the ticket is about.");
+
+        if (string.IsNullOrWhiteSpace(request.Subject))
+            return Error.Validation("VALIDATION_FAILED", "Subject is required.");
+
+        if (request.Subject.Length > SupportTickets.MaxSubjectLength)
+            return Error.Validation("VALIDATION_FAILED", $"Subject must not exceed {SupportTickets.MaxSubjectLength} characters.");
+
+        if (SupportTickets.ValidateBody(request.Message) is { } problem)
+            return Error.Validation("VALIDATION_FAILED", problem);
+
+        return null;
+    }
+
+    public async Task<Result<SupportTicketDetail>> Handle(CreateSupportTicketCommand request, CancellationToken cancellationToken)
+    {
+        var userIdResult = currentUserService.GetCurrentUserId();
+        if (userIdResult.IsFailure) return userIdResult.Error!;
+        var userId = userIdResult.Value;
+
+        var instanceId = long.Parse(request.InstanceId);
+        var instance = await dbContext.ManagedInstances
+            .FirstOrDefaultAsync(i => i.Id == instanceId && i.DeletedAt == null && i.OwnerId == userId, cancellationToken);
+
+        if (instance is null)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        var user = await dbContext.HubUsers.FirstAsync(u => u.Id == userId, cancellationToken);
+
+        var now = DateTimeOffset.UtcNow;
+        var ticket = new ContactSubmission
+        {
+            Id = snowflakeGenerator.NextId(),
+            Name = user.DisplayName,
+            Subject = request.Subject.Trim(),
+            Message = request.Message.Trim(),
+            Status = SupportTicketStatus.Open,
+            SubmitterId = user.Id,
+            Submitter = user,
+            ManagedInstanceId = instance.Id,
+            ManagedInstance = instance,
+            CreatedAt = now,
+            UpdatedAt = now
+        };
+
+        dbContext.ContactSubmissions.Add(ticket);
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        var emailBody = SupportTickets.BuildStaffNotificationBody(ticket, user.DisplayName, ticket.Message);
+        await emailService.SendAsync(SupportTickets.SupportInbox, $"New support ticket: {ticket.Subject}", emailBody);
+
+        return await SupportTickets.ToDetailAsync(dbContext, ticket, cancellationToken);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/hub/tickets", async (
+            CreateSupportTicketRequest request,
+            CreateSupportTicketHandler handler,
+            CancellationToken ct) =>
+        {
+            var command = new CreateSupportTicketCommand(request.InstanceId, request.Subject, request.Message);
+            return await handler.ExecuteAsync(command, ct,
+                result => Results.Created($"/api/v1/hub/tickets/{result.Ticket.Id}", result));
+        })
+        .RequireAuthorization(Policies.User)
+        .Produces<SupportTicketDetail>(201)
+        .WithName("CreateSupportTicket")
+        .WithTags("Support");
+    }
+}
@@ -0,0 +1,45 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Support;
+
+public sealed record GetSupportTicketQuery(long TicketId);
+
+public sealed class GetSupportTicketHandler(HubDbContext dbContext, ICurrentUserService currentUserService)
+    : IRequestHandler<GetSupportTicketQuery, Result<SupportTicketDetail>>
+{
+    public async Task<Result<SupportTicketDetail>> Handle(GetSupportTicketQuery request, CancellationToken cancellationToken)
+    {
+        var userIdResult = currentUserService.GetCurrentUserId();
+        if (userIdResult.IsFailure) return userIdResult.Error!;
+        var userId = userIdResult.Value;
+
+        var ticket = await SupportTickets.WithParties(dbContext.ContactSubmissions.AsNoTracking())
+            .FirstOrDefaultAsync(t => t.Id == request.TicketId && t.SubmitterId == userId, cancellationToken);
+
+        if (ticket is null)
+            return Error.NotFound("TICKET_NOT_FOUND", "Ticket not found");
+
+        return await SupportTickets.ToDetailAsync(dbContext, ticket, cancellationToken);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/hub/tickets/{ticketId:long}", async (
+            long ticketId,
+            GetSupportTicketHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new GetSupportTicketQuery(ticketId), ct);
+        })
+        .RequireAuthorization(Policies.User)
+        .Produces<SupportTicketDetail>(200)
+        .WithName("GetSupportTicket")
+        .WithTags("Support");
+    }
+}
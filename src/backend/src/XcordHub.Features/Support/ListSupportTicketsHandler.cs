@@ -0,0 +1,49 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Support;
+
+public sealed record ListSupportTicketsQuery;
+
+public sealed record ListSupportTicketsResponse(List<SupportTicketItem> Tickets);
+
+/// <summary>
+/// The signed-in user's own tickets, most recent activity first.
+/// </summary>
+public sealed class ListSupportTicketsHandler(HubDbContext dbContext, ICurrentUserService currentUserService)
+    : IRequestHandler<ListSupportTicketsQuery, Result<ListSupportTicketsResponse>>
+{
+    public async Task<Result<ListSupportTicketsResponse>> Handle(ListSupportTicketsQuery request, CancellationToken cancellationToken)
+    {
+        var userIdResult = currentUserService.GetCurrentUserId();
+        if (userIdResult.IsFailure) return userIdResult.Error!;
+        var userId = userIdResult.Value;
+
+        var tickets = await SupportTickets.WithParties(dbContext.ContactSubmissions.AsNoTracking())
+            .Where(t => t.SubmitterId == userId)
+            .OrderByDescending(t => t.UpdatedAt)
+            .ThenByDescending(t => t.Id)
+            .ToListAsync(cancellationToken);
+
+        return new ListSupportTicketsResponse(await SupportTickets.ToItemsAsync(dbContext, tickets, cancellationToken));
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/hub/tickets", async (
+            ListSupportTicketsHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new ListSupportTicketsQuery(), ct);
+        })
+        .RequireAuthorization(Policies.User)
+        .Produces<ListSupportTicketsResponse>(200)
+        .WithName("ListSupportTickets")
+        .WithTags("Support");
+    }
+}
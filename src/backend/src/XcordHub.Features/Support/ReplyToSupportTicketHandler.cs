@@ -0,0 +1,75 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Support;
+
+public sealed record ReplyToSupportTicketRequest(string Body);
+
+public sealed record ReplyToSupportTicketCommand(long TicketId, string Body);
+
+/// <summary>
+/// Adds the submitter's reply to their ticket. The ticket goes back to Open, reopening
+/// it if it was closed, and the support inbox is told.
+/// </summary>
+public sealed class ReplyToSupportTicketHandler(
+    HubDbContext dbContext,
+    ICurrentUserService currentUserService,
+    SnowflakeIdGenerator snowflakeGenerator,
+    IEmailService emailService)
+    : IRequestHandler<ReplyToSupportTicketCommand, Result<SupportTicketDetail>>,
+      IValidatable<ReplyToSupportTicketCommand>
+{
+    public Error? Validate(ReplyToSupportTicketCommand request)
+    {
+        if (SupportTickets.ValidateBody(request.Body) is { } problem)
+            return Error.Validation("VALIDATION_FAILED", problem);
+
+        return null;
+    }
+
+    public async Task<Result<SupportTicketDetail>> Handle(ReplyToSupportTicketCommand request, CancellationToken cancellationToken)
+    {
+        var userIdResult = currentUserService.GetCurrentUserId();
+        if (userIdResult.IsFailure) return userIdResult.Error!;
+        var userId = userIdResult.Value;
+
+        var ticket = await SupportTickets.WithParties(dbContext.ContactSubmissions)
+            .FirstOrDefaultAsync(t => t.Id == request.TicketId && t.SubmitterId == userId, cancellationToken);
+
+        if (ticket is null)
+            return Error.NotFound("TICKET_NOT_FOUND", "Ticket not found");
+
+        var reply = SupportTickets.AddReply(dbContext, snowflakeGenerator, ticket, ticket.Submitter!, isStaff: false,
+            request.Body, DateTimeOffset.UtcNow);
+        ticket.Status = SupportTicketStatus.Open;
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        var emailBody = SupportTickets.BuildStaffNotificationBody(ticket, reply.AuthorName, reply.Body);
+        await emailService.SendAsync(SupportTickets.SupportInbox, $"Re: {ticket.Subject}", emailBody);
+
+        return await SupportTickets.ToDetailAsync(dbContext, ticket, cancellationToken);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/hub/tickets/{ticketId:long}/replies", async (
+            long ticketId,
+            ReplyToSupportTicketRequest request,
+            ReplyToSupportTicketHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new ReplyToSupportTicketCommand(ticketId, request.Body), ct,
+                result => Results.Created($"/api/v1/hub/tickets/{ticketId}", result));
+        })
+        .RequireAuthorization(Policies.User)
+        .Produces<SupportTicketDetail>(201)
+        .WithName("ReplyToSupportTicket")
+        .WithTags("Support");
+    }
+}
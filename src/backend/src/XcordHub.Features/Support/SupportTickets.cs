@@ -0,0 +1,239 @@
+using System.Web;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Features.Support;
+
+public sealed record SupportTicketItem(
+    string Id,
+    string Subject,
+    string Status,
+    string Name,
+    string Email,
+    string? SubmitterUsername,
+    string? InstanceId,
+    string? InstanceDomain,
+    string? AssigneeId,
+    string? AssigneeName,
+    int ReplyCount,
+    DateTimeOffset CreatedAt,
+    DateTimeOffset UpdatedAt
+);
+
+public sealed record SupportTicketReplyItem(
+    string Id,
+    string AuthorName,
+    bool IsStaff,
+    string Body,
+    DateTimeOffset CreatedAt
+);
+
+public sealed record SupportTicketDetail(
+    SupportTicketItem Ticket,
+    string Message,
+    string Company,
+    int? ExpectedMemberCount,
+    List<SupportTicketReplyItem> Replies
+);
+
+public sealed record SupportTicketReplyRequest(string Body, string? Status = null);
+
+/// <summary>
+/// Shared rules for support tickets, which are stored as <see cref="ContactSubmission"/>
+/// rows: validation, mapping, who replies are emailed to and the email bodies.
+/// </summary>
+public static class SupportTickets
+{
+    public const string SupportInbox = "support@xcord.net";
+    public const int MaxSubjectLength = 200;
+    public const int MaxBodyLength = 2000;
+
+    public static string? ValidateBody(string? body)
+    {
+        if (string.IsNullOrWhiteSpace(body))
+            return "Message is required.";
+
+        if (body.Length > MaxBodyLength)
+            return $"Message must not exceed {MaxBodyLength} characters.";
+
+        return null;
+    }
+
+    public static SupportTicketStatus? ParseStatus(string? status) =>
+        Enum.TryParse<SupportTicketStatus>(status, ignoreCase: true, out var parsed) && Enum.IsDefined(parsed)
+            ? parsed
+            : null;
+
+    /// <summary>
+    /// Contact form tickets are answered at the address they were sent from; dashboard
+    /// tickets at the submitter's current account email. Null when neither is known.
+    /// </summary>
+    public static string? RecipientEmail(ContactSubmission ticket, IEncryptionService encryptionService)
+    {
+        if (ticket.Submitter is not null)
+            return encryptionService.Decrypt(ticket.Submitter.Email);
+
+        return string.IsNullOrEmpty(ticket.Email) ? null : ticket.Email;
+    }
+
+    internal static IQueryable<ContactSubmission> WithParties(IQueryable<ContactSubmission> query) =>
+        query
+            .Include(t => t.Submitter)
+            .Include(t => t.ManagedInstance)
+            .Include(t => t.Assignee);
+
+    internal static SupportTicketItem ToItem(ContactSubmission ticket, int replyCount) => new(
+        ticket.Id.ToString(),
+        ticket.Subject,
+        ticket.Status.ToString(),
+        ticket.Name,
+        ticket.Email,
+        ticket.Submitter?.Username,
+        ticket.ManagedInstanceId?.ToString(),
+        ticket.ManagedInstance?.Domain,
+        ticket.AssigneeId?.ToString(),
+        ticket.Assignee?.DisplayName,
+        replyCount,
+        ticket.CreatedAt,
+        ticket.UpdatedAt
+    );
+
+    internal static async Task<List<SupportTicketItem>> ToItemsAsync(
+        HubDbContext dbContext, List<ContactSubmission> tickets, CancellationToken cancellationToken)
+    {
+        var ids = tickets.Select(t => t.Id).ToList();
+        var replyCounts = await dbContext.SupportTicketReplies
+            .Where(r => ids.Contains(r.ContactSubmissionId))
+            .GroupBy(r => r.ContactSubmissionId)
+            .Select(g => new { TicketId = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(x => x.TicketId, x => x.Count, cancellationToken);
+
+        return tickets.Select(t => ToItem(t, replyCounts.GetValueOrDefault(t.Id))).ToList();
+    }
+
+    internal static async Task<SupportTicketDetail> ToDetailAsync(
+        HubDbContext dbContext, ContactSubmission ticket, CancellationToken cancellationToken)
+    {
+        var replies = await dbContext.SupportTicketReplies
+            .AsNoTracking()
+            .Where(r => r.ContactSubmissionId == ticket.Id)
+            .OrderBy(r => r.CreatedAt)
+            .ThenBy(r => r.Id)
+            .Select(r => new SupportTicketReplyItem(r.Id.ToString(), r.AuthorName, r.IsStaff, r.Body, r.CreatedAt))
+            .ToListAsync(cancellationToken);
+
+        return new SupportTicketDetail(
+            ToItem(ticket, replies.Count),
+            ticket.Message,
+            ticket.Company,
+            ticket.ExpectedMemberCount,
+            replies);
+    }
+
+    internal static SupportTicketReply AddReply(
+        HubDbContext dbContext, SnowflakeIdGenerator snowflakeGenerator, ContactSubmission ticket,
+        HubUser author, bool isStaff, string body, DateTimeOffset now)
+    {
+        var reply = new SupportTicketReply
+        {
+            Id = snowflakeGenerator.NextId(),
+            ContactSubmissionId = ticket.Id,
+            AuthorId = author.Id,
+            AuthorName = author.DisplayName,
+            IsStaff = isStaff,
+            Body = body.Trim(),
+            CreatedAt = now
+        };
+
+        dbContext.SupportTicketReplies.Add(reply);
+        ticket.UpdatedAt = now;
+        return reply;
+    }
+
+    /// <summary>
+    /// The email sent to the submitter when staff reply. Dashboard tickets link back
+    /// to the thread; contact form submitters follow up by writing to the support inbox.
+    /// </summary>
+    public static string BuildReplyEmailBody(ContactSubmission ticket, SupportTicketReply reply, string? threadUrl)
+    {
+        var followUpHtml = threadUrl is not null
+            ? $"""
+                    <a href="{HttpUtility.HtmlEncode(threadUrl)}" style="display: inline-block; background-color: #d4943a; color: #ffffff; text-decoration: none; padding: 12px 24px; border-radius: 4px; font-size: 14px; font-weight: 600; margin: 24px 0 0 0;">View the conversation</a>
+              """
+            : $"""
+                    <p style="color: #b5bac1; font-size: 14px; line-height: 1.6; margin: 24px 0 0 0;">To follow up, write to <a href="mailto:{SupportInbox}" style="color: #d4943a; text-decoration: none;">{SupportInbox}</a> and mention ticket {ticket.Id}.</p>
+              """;
+
+        return $"""
+            <!DOCTYPE html>
+            <html>
+            <head>
+              <meta charset="utf-8" />
+              <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+            </head>
+            <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background-color: #313338; margin: 0; padding: 40px 0;">
+              <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 480px; margin: 0 auto;">
+                <tr>
+                  <td style="background-color: #2b2d31; border-radius: 8px; padding: 40px;">
+                    <h1 style="color: #ffffff; font-size: 22px; margin: 0 0 8px 0;">xcord</h1>
+                    <h2 style="color: #dbdee1; font-size: 18px; margin: 0 0 24px 0;">{HttpUtility.HtmlEncode(ticket.Subject)}</h2>
+                    <p style="color: #b5bac1; font-size: 14px; margin: 0 0 8px 0;">Hi {HttpUtility.HtmlEncode(ticket.Name)}, {HttpUtility.HtmlEncode(reply.AuthorName)} from the Xcord team replied:</p>
+                    <p style="color: #dbdee1; font-size: 14px; line-height: 1.6; margin: 0; white-space: pre-wrap;">{HttpUtility.HtmlEncode(reply.Body)}</p>
+                    {followUpHtml}
+                    <hr style="border: none; border-top: 1px solid #3f4147; margin: 24px 0;" />
+                    <p style="color: #6d6f78; font-size: 11px; margin: 0;">
+                      &copy; Xcord. All rights reserved.
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </body>
+            </html>
+            """;
+    }
+
+    /// <summary>
+    /// The email sent to the support inbox when a signed-in user opens a ticket or replies.
+    /// </summary>
+    public static string BuildStaffNotificationBody(ContactSubmission ticket, string authorName, string body)
+    {
+        var instanceHtml = ticket.ManagedInstance is not null
+            ? $"""
+                    <p style="color: #b5bac1; font-size: 14px; margin: 0 0 8px 0;">Instance: {HttpUtility.HtmlEncode(ticket.ManagedInstance.Domain)}</p>
+              """
+            : string.Empty;
+
+        return $"""
+            <!DOCTYPE html>
+            <html>
+            <head>
+              <meta charset="utf-8" />
+              <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+            </head>
+            <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background-color: #313338; margin: 0; padding: 40px 0;">
+              <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 480px; margin: 0 auto;">
+                <tr>
+                  <td style="background-color: #2b2d31; border-radius: 8px; padding: 40px;">
+                    <h1 style="color: #ffffff; font-size: 22px; margin: 0 0 8px 0;">xcord</h1>
+                    <h2 style="color: #dbdee1; font-size: 18px; margin: 0 0 24px 0;">{HttpUtility.HtmlEncode(ticket.Subject)}</h2>
+                    {instanceHtml}
+                    <p style="color: #b5bac1; font-size: 14px; margin: 0 0 8px 0;">{HttpUtility.HtmlEncode(authorName)} wrote:</p>
+                    <p style="color: #dbdee1; font-size: 14px; line-height: 1.6; margin: 0; white-space: pre-wrap;">{HttpUtility.HtmlEncode(body)}</p>
+                    <hr style="border: none; border-top: 1px solid #3f4147; margin: 24px 0;" />
+                    <p style="color: #6d6f78; font-size: 11px; margin: 0;">
+                      Ticket {ticket.Id} &middot; &copy; Xcord. All rights reserved.
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </body>
+            </html>
+            """;
+    }
+
+    internal static string ThreadUrl(string hubBaseUrl, long ticketId) =>
+        $"{hubBaseUrl.TrimEnd('/')}/dashboard/support/{ticketId}";
+}
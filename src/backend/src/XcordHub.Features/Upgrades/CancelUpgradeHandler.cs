@@ -4,6 +4,7 @@ using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Upgrades;
@@ -16,7 +17,7 @@ public sealed record CancelUpgradeResponse(
     DateTimeOffset? CompletedAt
 );
 
-public sealed class CancelUpgradeHandler(HubDbContext dbContext)
+public sealed class CancelUpgradeHandler(HubDbContext dbContext, IAuditLog auditLog)
     : IRequestHandler<CancelUpgradeCommand, Result<CancelUpgradeResponse>>
 {
     public async Task<Result<CancelUpgradeResponse>> Handle(
@@ -31,11 +32,18 @@ public sealed class CancelUpgradeHandler(HubDbContext dbContext)
         if (rollout.Status is not (RolloutStatus.Pending or RolloutStatus.InProgress or RolloutStatus.Paused))
             return Error.BadRequest("INVALID_STATUS", $"Cannot cancel a rollout with status '{rollout.Status}'");
 
+        var statusBefore = rollout.Status;
+
         rollout.Status = RolloutStatus.Cancelled;
         rollout.CompletedAt = DateTimeOffset.UtcNow;
 
         await dbContext.SaveChangesAsync(cancellationToken);
 
+        await auditLog.RecordAsync(AuditActions.RolloutCancel, AuditTargets.Rollout, rollout.Id.ToString(),
+            new { Status = statusBefore.ToString() },
+            new { Status = rollout.Status.ToString() },
+            cancellationToken);
+
         return new CancelUpgradeResponse(
             rollout.Id.ToString(),
             rollout.Status.ToString(),
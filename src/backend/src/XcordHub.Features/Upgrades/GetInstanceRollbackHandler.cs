@@ -0,0 +1,79 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Upgrades;
+
+public sealed record GetInstanceRollbackQuery(long InstanceId);
+
+public sealed record InstanceRollbackResponse(
+    string UpgradeEventId,
+    string Status,
+    string FromImage,
+    string? FromVersion,
+    string? ToImage,
+    string? ToVersion,
+    DateTimeOffset? UpgradedAt,
+    string? PreUpgradeBackupId,
+    DateTimeOffset? PreUpgradeBackupAt,
+    string? BlockedReason
+);
+
+/// <summary>
+/// What rolling the instance back would do: the latest upgrade it would undo, the
+/// backup it could restore, and why it cannot run if it cannot.
+/// </summary>
+public sealed class GetInstanceRollbackHandler(HubDbContext dbContext)
+    : IRequestHandler<GetInstanceRollbackQuery, Result<InstanceRollbackResponse>>
+{
+    public async Task<Result<InstanceRollbackResponse>> Handle(
+        GetInstanceRollbackQuery request, CancellationToken cancellationToken)
+    {
+        var instance = await dbContext.ManagedInstances
+            .AsNoTracking()
+            .Include(i => i.Infrastructure)
+            .FirstOrDefaultAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (instance is null)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        var upgrade = await RollbackPlan.LatestUpgrade(dbContext.UpgradeEvents.AsNoTracking(), instance.Id)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (upgrade is null)
+            return Error.NotFound("UPGRADE_NOT_FOUND", "This instance has no upgrade to roll back");
+
+        var backup = await RollbackPlan.PreUpgradeBackups(dbContext.BackupRecords.AsNoTracking(), upgrade)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        return new InstanceRollbackResponse(
+            upgrade.Id.ToString(),
+            upgrade.Status.ToString(),
+            upgrade.TargetImage,
+            upgrade.NewVersion,
+            upgrade.PreviousImage,
+            upgrade.PreviousVersion,
+            upgrade.CompletedAt,
+            backup?.Id.ToString(),
+            backup?.CompletedAt,
+            RollbackPlan.CannotRollBack(upgrade, instance));
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/instances/{id:long}/rollback", async (
+            long id,
+            GetInstanceRollbackHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new GetInstanceRollbackQuery(id), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<InstanceRollbackResponse>(200)
+        .WithName("AdminGetInstanceRollback")
+        .WithTags("Admin", "Upgrades");
+    }
+}
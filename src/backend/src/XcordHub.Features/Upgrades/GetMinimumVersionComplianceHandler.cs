@@ -0,0 +1,95 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Upgrades;
+
+public sealed record GetMinimumVersionComplianceQuery;
+
+public sealed record MinimumVersionItem(
+    string VersionId,
+    string Version,
+    string Image,
+    DateTimeOffset? EnforcementDate
+);
+
+public sealed record NonCompliantInstanceItem(
+    string InstanceId,
+    string Domain,
+    string DisplayName,
+    string Status,
+    string? CurrentImage,
+    string? CurrentVersion,
+    bool BatchUpgradesEnabled,
+    bool ForceUpgraded
+);
+
+public sealed record MinimumVersionComplianceResponse(
+    MinimumVersionItem? Minimum,
+    List<NonCompliantInstanceItem> Instances
+);
+
+/// <summary>
+/// Instances below the current minimum version and whether the enforcer will
+/// force-upgrade them once the enforcement date passes.
+/// </summary>
+public sealed class GetMinimumVersionComplianceHandler(HubDbContext dbContext)
+    : IRequestHandler<GetMinimumVersionComplianceQuery, Result<MinimumVersionComplianceResponse>>
+{
+    public async Task<Result<MinimumVersionComplianceResponse>> Handle(
+        GetMinimumVersionComplianceQuery request, CancellationToken cancellationToken)
+    {
+        var minimum = await MinimumVersionCompliance.CurrentMinimum(dbContext.AvailableVersions.AsNoTracking())
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (minimum is null)
+            return new MinimumVersionComplianceResponse(null, []);
+
+        var versionsByImage = await MinimumVersionCompliance.VersionsByImageAsync(dbContext.AvailableVersions, cancellationToken);
+
+        var instances = await dbContext.ManagedInstances
+            .AsNoTracking()
+            .Include(i => i.Infrastructure)
+            .Include(i => i.Config)
+            .Where(i => i.DeletedAt == null
+                && i.Infrastructure != null
+                && i.Infrastructure.DeployedImage != null
+                && i.Infrastructure.DeployedImage != minimum.Image)
+            .OrderBy(i => i.Domain)
+            .ToListAsync(cancellationToken);
+
+        var nonCompliant = instances
+            .Where(i => MinimumVersionCompliance.IsBelowMinimum(i.Infrastructure!.DeployedImage, minimum, versionsByImage))
+            .Select(i => new NonCompliantInstanceItem(
+                i.Id.ToString(),
+                i.Domain,
+                i.DisplayName,
+                i.Status.ToString(),
+                i.Infrastructure!.DeployedImage,
+                MinimumVersionCompliance.VersionOf(i.Infrastructure.DeployedImage!, versionsByImage),
+                i.Config?.BatchUpgradesEnabled ?? true,
+                MinimumVersionCompliance.IsEnforced(i)))
+            .ToList();
+
+        return new MinimumVersionComplianceResponse(
+            new MinimumVersionItem(minimum.Id.ToString(), minimum.Version, minimum.Image, minimum.MinimumEnforcementDate),
+            nonCompliant);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapGet("/api/v1/admin/versions/compliance", async (
+            GetMinimumVersionComplianceHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(new GetMinimumVersionComplianceQuery(), ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<MinimumVersionComplianceResponse>(200)
+        .WithName("AdminGetMinimumVersionCompliance")
+        .WithTags("Admin", "Upgrades");
+    }
+}
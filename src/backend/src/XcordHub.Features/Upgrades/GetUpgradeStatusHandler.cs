@@ -12,6 +12,7 @@ public sealed record GetUpgradeStatusQuery(long Id);
 public sealed record UpgradeEventItem(
     string Id,
     string ManagedInstanceId,
+    string InstanceDomain,
     string Status,
     string? PreviousImage,
     string TargetImage,
@@ -22,6 +23,8 @@ public sealed record UpgradeEventItem(
     DateTimeOffset? CompletedAt
 );
 
+public sealed record RolloutStageItem(int Number, int? Instances, int? Percentage, int WaitMinutes);
+
 public sealed record GetUpgradeStatusResponse(
     string Id,
     string ToImage,
@@ -31,9 +34,17 @@ public sealed record GetUpgradeStatusResponse(
     int TotalInstances,
     int CompletedInstances,
     int FailedInstances,
+    int BatchSize,
+    int MaxFailures,
     DateTimeOffset StartedAt,
     DateTimeOffset? CompletedAt,
-    List<UpgradeEventItem> Events
+    List<UpgradeEventItem> Events,
+    List<RolloutStageItem> Stages,
+    int? CurrentStage,
+    DateTimeOffset? StageGateAt,
+    int HealthGateMaxFailures,
+    int? HealthGateMaxResponseTimeMs,
+    string? PauseReason
 );
 
 public sealed class GetUpgradeStatusHandler(HubDbContext dbContext)
@@ -44,16 +55,21 @@ public sealed class GetUpgradeStatusHandler(HubDbContext dbContext)
     {
         var rollout = await dbContext.UpgradeRollouts
             .Include(r => r.UpgradeEvents)
+                .ThenInclude(e => e.ManagedInstance)
+            .Include(r => r.Stages)
             .FirstOrDefaultAsync(r => r.Id == request.Id, cancellationToken);
 
         if (rollout is null)
             return Error.NotFound("ROLLOUT_NOT_FOUND", "Upgrade rollout not found");
 
         var events = rollout.UpgradeEvents
-            .OrderBy(e => e.StartedAt)
+            // Started events in start order, then the ones still waiting for their batch
+            .OrderBy(e => e.StartedAt is null)
+            .ThenBy(e => e.StartedAt)
             .Select(e => new UpgradeEventItem(
                 e.Id.ToString(),
                 e.ManagedInstanceId.ToString(),
+                e.ManagedInstance.Domain,
                 e.Status.ToString(),
                 e.PreviousImage,
                 e.TargetImage,
@@ -74,9 +90,20 @@ public sealed class GetUpgradeStatusHandler(HubDbContext dbContext)
             rollout.TotalInstances,
             rollout.CompletedInstances,
             rollout.FailedInstances,
+            rollout.BatchSize,
+            rollout.MaxFailures,
             rollout.StartedAt,
             rollout.CompletedAt,
-            events
+            events,
+            rollout.Stages
+                .OrderBy(s => s.Position)
+                .Select(s => new RolloutStageItem(s.Position + 1, s.InstanceCount, s.Percentage, s.WaitMinutes))
+                .ToList(),
+            rollout.Stages.Count > 0 ? rollout.CurrentStage + 1 : (int?)null,
+            rollout.StageGateAt,
+            rollout.HealthGateMaxFailures,
+            rollout.HealthGateMaxResponseTimeMs,
+            rollout.PauseReason
         );
     }
 
@@ -4,6 +4,8 @@ public interface IUpgradeQueue
 {
     ValueTask EnqueueInstanceUpgradeAsync(long instanceId, string targetImage, long? rolloutId = null, CancellationToken cancellationToken = default);
     ValueTask EnqueueRolloutAsync(long rolloutId, bool force = false, CancellationToken cancellationToken = default);
+    ValueTask EnqueueRollbackAsync(long upgradeEventId, bool restoreBackup, string reason, CancellationToken cancellationToken = default);
+    ValueTask EnqueueRolloutRollbackAsync(long rolloutId, bool restoreBackup, CancellationToken cancellationToken = default);
     ValueTask<UpgradeWorkItem> DequeueAsync(CancellationToken cancellationToken);
 }
 
@@ -12,7 +14,11 @@ public sealed record UpgradeWorkItem
     // Exactly one of these is set
     public InstanceUpgradeRequest? InstanceUpgrade { get; init; }
     public RolloutRequest? Rollout { get; init; }
+    public RollbackRequest? Rollback { get; init; }
+    public RolloutRollbackRequest? RolloutRollback { get; init; }
 }
 
 public sealed record InstanceUpgradeRequest(long InstanceId, string TargetImage, long? RolloutId = null);
 public sealed record RolloutRequest(long RolloutId, bool Force = false);
+public sealed record RollbackRequest(long UpgradeEventId, bool RestoreBackup, string Reason);
+public sealed record RolloutRollbackRequest(long RolloutId, bool RestoreBackup);
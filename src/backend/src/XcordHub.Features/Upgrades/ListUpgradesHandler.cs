@@ -17,8 +17,16 @@ public sealed record UpgradeRolloutListItem(
     string Status,
     int TotalInstances,
     int CompletedInstances,
+    int FailedInstances,
+    int BatchSize,
+    int MaxFailures,
+    DateTimeOffset? ScheduledAt,
     DateTimeOffset StartedAt,
-    DateTimeOffset? CompletedAt
+    DateTimeOffset? CompletedAt,
+    int StageCount,
+    int? CurrentStage,
+    DateTimeOffset? StageGateAt,
+    string? PauseReason
 );
 
 public sealed record ListUpgradesResponse(
@@ -52,8 +60,16 @@ public sealed class ListUpgradesHandler(HubDbContext dbContext)
                 r.Status.ToString(),
                 r.TotalInstances,
                 r.CompletedInstances,
+                r.FailedInstances,
+                r.BatchSize,
+                r.MaxFailures,
+                r.ScheduledAt,
                 r.StartedAt,
-                r.CompletedAt
+                r.CompletedAt,
+                r.Stages.Count,
+                r.Stages.Any() ? r.CurrentStage + 1 : (int?)null,
+                r.StageGateAt,
+                r.PauseReason
             ))
             .ToListAsync(cancellationToken);
 
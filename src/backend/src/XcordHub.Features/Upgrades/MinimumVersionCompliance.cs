@@ -0,0 +1,101 @@
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Entities;
+
+namespace XcordHub.Features.Upgrades;
+
+/// <summary>
+/// Which instances fall below the enforced minimum version, shared by
+/// <see cref="MinimumVersionEnforcerService"/> and the compliance endpoints so the
+/// view shows exactly the instances the enforcer will act on.
+/// </summary>
+public static class MinimumVersionCompliance
+{
+    /// <summary>
+    /// The version currently set as minimum. Setting a new minimum clears the previous
+    /// one, so there is at most one.
+    /// </summary>
+    public static IQueryable<AvailableVersion> CurrentMinimum(IQueryable<AvailableVersion> versions) =>
+        versions
+            .Where(v => v.IsMinimumVersion && v.DeletedAt == null)
+            .OrderByDescending(v => v.PublishedAt)
+            .Take(1);
+
+    /// <summary>
+    /// Published versions keyed by image, to resolve the version an instance runs.
+    /// </summary>
+    public static async Task<Dictionary<string, string>> VersionsByImageAsync(
+        IQueryable<AvailableVersion> versions, CancellationToken cancellationToken)
+    {
+        var published = await versions
+            .AsNoTracking()
+            .Where(v => v.DeletedAt == null)
+            .Select(v => new { v.Image, v.Version })
+            .ToListAsync(cancellationToken);
+
+        // An image published twice keeps its first version
+        return published
+            .GroupBy(v => v.Image)
+            .ToDictionary(g => g.Key, g => g.First().Version);
+    }
+
+    /// <summary>
+    /// The version an image runs: the published version for that image, otherwise the
+    /// image tag. Null for untagged images.
+    /// </summary>
+    public static string? VersionOf(string image, IReadOnlyDictionary<string, string> versionsByImage)
+    {
+        if (versionsByImage.TryGetValue(image, out var version))
+            return version;
+
+        var tagStart = image.LastIndexOf(':');
+        return tagStart >= 0 && tagStart > image.LastIndexOf('/') ? image[(tagStart + 1)..] : null;
+    }
+
+    /// <summary>
+    /// Whether an instance running <paramref name="deployedImage"/> is below the minimum.
+    /// Images whose version cannot be determined count as below it, since the enforcer
+    /// cannot tell they are newer. Instances without a deployed image are not counted.
+    /// </summary>
+    public static bool IsBelowMinimum(
+        string? deployedImage, AvailableVersion minimum, IReadOnlyDictionary<string, string> versionsByImage)
+    {
+        if (string.IsNullOrEmpty(deployedImage) || deployedImage == minimum.Image)
+            return false;
+
+        var version = VersionOf(deployedImage, versionsByImage);
+        return version is null || CompareVersions(version, minimum.Version) < 0;
+    }
+
+    /// <summary>
+    /// Whether the enforcer force-upgrades a non-compliant instance once the enforcement
+    /// date passes. Instances that take part in batch upgrades are left to fleet rollouts.
+    /// </summary>
+    public static bool IsEnforced(ManagedInstance instance) =>
+        instance.Status == InstanceStatus.Running
+        && instance.Config is { BatchUpgradesEnabled: false };
+
+    /// <summary>
+    /// Compares dotted versions numerically where both parts are numbers, so 1.10.0 is
+    /// newer than 1.9.0. A leading "v" is ignored.
+    /// </summary>
+    public static int CompareVersions(string a, string b)
+    {
+        var left = a.TrimStart('v', 'V').Split('.', '-', '+');
+        var right = b.TrimStart('v', 'V').Split('.', '-', '+');
+
+        for (var i = 0; i < Math.Max(left.Length, right.Length); i++)
+        {
+            var l = i < left.Length ? left[i] : "0";
+            var r = i < right.Length ? right[i] : "0";
+
+            var result = long.TryParse(l, out var ln) && long.TryParse(r, out var rn)
+                ? ln.CompareTo(rn)
+                : string.CompareOrdinal(l, r);
+
+            if (result != 0)
+                return Math.Sign(result);
+        }
+
+        return 0;
+    }
+}
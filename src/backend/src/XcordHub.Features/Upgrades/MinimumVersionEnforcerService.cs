@@ -38,10 +38,12 @@ public sealed class MinimumVersionEnforcerService(
             "Checking {Count} enforced minimum version(s)",
             enforcedVersions.Count);
 
+        var versionsByImage = await MinimumVersionCompliance.VersionsByImageAsync(dbContext.AvailableVersions, ct);
+
         foreach (var enforcedVersion in enforcedVersions)
         {
-            // Find Running instances not on the enforced image, with batch upgrades disabled
-            var nonCompliantInstances = await dbContext.ManagedInstances
+            // Running instances below the enforced version, with batch upgrades disabled
+            var candidates = await dbContext.ManagedInstances
                 .Include(i => i.Infrastructure)
                 .Include(i => i.Config)
                 .Where(i => i.Status == InstanceStatus.Running
@@ -52,6 +54,11 @@ public sealed class MinimumVersionEnforcerService(
                     && !i.Config.BatchUpgradesEnabled)
                 .ToListAsync(ct);
 
+            var nonCompliantInstances = candidates
+                .Where(i => MinimumVersionCompliance.IsBelowMinimum(
+                    i.Infrastructure!.DeployedImage, enforcedVersion, versionsByImage))
+                .ToList();
+
             if (nonCompliantInstances.Count == 0)
             {
                 continue;
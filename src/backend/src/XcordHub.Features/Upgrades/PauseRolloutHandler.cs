@@ -4,6 +4,7 @@ using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Upgrades;
@@ -11,7 +12,7 @@ namespace XcordHub.Features.Upgrades;
 public sealed record PauseRolloutCommand(long Id);
 public sealed record PauseRolloutResponse(string Id, string Status);
 
-public sealed class PauseRolloutHandler(HubDbContext dbContext)
+public sealed class PauseRolloutHandler(HubDbContext dbContext, IAuditLog auditLog)
     : IRequestHandler<PauseRolloutCommand, Result<PauseRolloutResponse>>
 {
     public async Task<Result<PauseRolloutResponse>> Handle(
@@ -29,6 +30,11 @@ public sealed class PauseRolloutHandler(HubDbContext dbContext)
         rollout.Status = RolloutStatus.Paused;
         await dbContext.SaveChangesAsync(cancellationToken);
 
+        await auditLog.RecordAsync(AuditActions.RolloutPause, AuditTargets.Rollout, rollout.Id.ToString(),
+            new { Status = RolloutStatus.InProgress.ToString() },
+            new { Status = rollout.Status.ToString() },
+            cancellationToken);
+
         return new PauseRolloutResponse(rollout.Id.ToString(), rollout.Status.ToString());
     }
 
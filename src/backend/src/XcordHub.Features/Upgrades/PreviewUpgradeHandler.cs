@@ -0,0 +1,151 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Entities;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Upgrades;
+
+public sealed record PreviewUpgradeRequest(
+    string ToImage,
+    string? FromImage,
+    string? TargetPool,
+    bool Force,
+    int BatchSize,
+    List<RolloutStageRequest>? Stages = null
+);
+
+public sealed record RolloutPreviewInstance(
+    string Id,
+    string Domain,
+    string DisplayName,
+    string Status,
+    string? CurrentImage,
+    string Pool
+);
+
+public sealed record RolloutPreviewBatch(int Number, int? Stage, List<RolloutPreviewInstance> Instances);
+
+public sealed record RolloutPreviewSkipped(RolloutPreviewInstance Instance, string Reason);
+
+public sealed record PreviewUpgradeResponse(
+    string ToImage,
+    int TotalInstances,
+    int BatchSize,
+    List<RolloutPreviewBatch> Batches,
+    List<RolloutPreviewSkipped> Skipped,
+    int EstimatedSecondsPerBatch,
+    int EstimatedDurationSeconds,
+    int EstimateSampleSize
+);
+
+/// <summary>
+/// Dry run of <see cref="StartUpgradeHandler"/>: resolves which instances a rollout
+/// with these settings would upgrade, how they would be batched and which would be
+/// skipped, without creating anything. The duration estimate assumes batches run
+/// back to back and each takes as long as a recent single-instance upgrade, plus the
+/// waits between canary stages.
+/// </summary>
+public sealed class PreviewUpgradeHandler(HubDbContext dbContext)
+    : IRequestHandler<PreviewUpgradeRequest, Result<PreviewUpgradeResponse>>,
+      IValidatable<PreviewUpgradeRequest>
+{
+    // Recent completed upgrades averaged for the duration estimate
+    private const int EstimateSamples = 50;
+
+    public Error? Validate(PreviewUpgradeRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.ToImage))
+            return Error.Validation("VALIDATION_FAILED", "ToImage is required");
+
+        if (request.BatchSize < 1)
+            return Error.Validation("VALIDATION_FAILED", "BatchSize must be at least 1");
+
+        if (RolloutPlan.ValidateStages(request.Stages) is { } stagesError)
+            return Error.Validation("VALIDATION_FAILED", stagesError);
+
+        return null;
+    }
+
+    public async Task<Result<PreviewUpgradeResponse>> Handle(
+        PreviewUpgradeRequest request, CancellationToken cancellationToken)
+    {
+        var inScope = await RolloutPlan.InScope(
+                dbContext.ManagedInstances
+                    .AsNoTracking()
+                    .Include(i => i.Infrastructure)
+                    .Include(i => i.Config),
+                request.FromImage,
+                request.TargetPool)
+            .ToListAsync(cancellationToken);
+
+        var targets = new List<RolloutPreviewInstance>();
+        var skipped = new List<RolloutPreviewSkipped>();
+        foreach (var instance in inScope)
+        {
+            var item = ToItem(instance);
+            var reason = RolloutPlan.SkipReason(instance, request.ToImage, request.Force);
+            if (reason is null)
+                targets.Add(item);
+            else
+                skipped.Add(new RolloutPreviewSkipped(item, reason));
+        }
+
+        // Each canary stage is batched on its own, like the rollout runs it
+        var stages = request.Stages ?? [];
+        List<List<RolloutPreviewInstance>> slices = stages.Count > 0 ? RolloutPlan.Stages(targets, stages) : [targets];
+        var batches = slices
+            .SelectMany((slice, stageIndex) => RolloutPlan.Batches(slice, request.BatchSize)
+                .Select(instances => (Stage: stages.Count > 0 ? stageIndex + 1 : (int?)null, instances)))
+            .Select((batch, index) => new RolloutPreviewBatch(index + 1, batch.Stage, batch.instances))
+            .ToList();
+        var waitSeconds = stages.SkipLast(1).Sum(stage => stage.WaitMinutes * 60);
+
+        var recent = await dbContext.UpgradeEvents
+            .AsNoTracking()
+            .Where(e => e.Status == UpgradeEventStatus.Completed && e.StartedAt != null && e.CompletedAt != null)
+            .OrderByDescending(e => e.CompletedAt)
+            .Take(EstimateSamples)
+            .Select(e => new { e.StartedAt, e.CompletedAt })
+            .ToListAsync(cancellationToken);
+
+        var perBatch = recent.Count > 0
+            ? TimeSpan.FromSeconds(recent.Average(e => (e.CompletedAt!.Value - e.StartedAt!.Value).TotalSeconds))
+            : RolloutPlan.DefaultBatchDuration;
+        var perBatchSeconds = (int)Math.Ceiling(perBatch.TotalSeconds);
+
+        return new PreviewUpgradeResponse(
+            request.ToImage,
+            targets.Count,
+            request.BatchSize,
+            batches,
+            skipped,
+            perBatchSeconds,
+            perBatchSeconds * batches.Count + waitSeconds,
+            recent.Count);
+    }
+
+    private static RolloutPreviewInstance ToItem(ManagedInstance instance) => new(
+        instance.Id.ToString(),
+        instance.Domain,
+        instance.DisplayName,
+        instance.Status.ToString(),
+        instance.Infrastructure?.DeployedImage,
+        instance.Infrastructure?.PlacedInPool ?? "default");
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/upgrades/preview", async (
+            PreviewUpgradeRequest request,
+            PreviewUpgradeHandler handler,
+            CancellationToken ct) =>
+        {
+            return await handler.ExecuteAsync(request, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<PreviewUpgradeResponse>(200)
+        .WithName("PreviewUpgrade")
+        .WithTags("Admin", "Upgrades");
+    }
+}
@@ -4,6 +4,7 @@ using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Upgrades;
@@ -11,8 +12,14 @@ namespace XcordHub.Features.Upgrades;
 public sealed record PublishVersionRequest(
     string Version,
     string Image,
-    string? ReleaseNotes = null,
-    long PublishedBy = 0
+    string? ReleaseNotes
+);
+
+public sealed record PublishVersionCommand(
+    string Version,
+    string Image,
+    string? ReleaseNotes,
+    long PublishedBy
 );
 
 public sealed record PublishVersionResponse(
@@ -23,11 +30,11 @@ public sealed record PublishVersionResponse(
     DateTimeOffset PublishedAt
 );
 
-public sealed class PublishVersionHandler(HubDbContext dbContext, SnowflakeIdGenerator snowflakeGenerator)
-    : IRequestHandler<PublishVersionRequest, Result<PublishVersionResponse>>,
-      IValidatable<PublishVersionRequest>
+public sealed class PublishVersionHandler(HubDbContext dbContext, SnowflakeIdGenerator snowflakeGenerator, IAuditLog auditLog)
+    : IRequestHandler<PublishVersionCommand, Result<PublishVersionResponse>>,
+      IValidatable<PublishVersionCommand>
 {
-    public Error? Validate(PublishVersionRequest request)
+    public Error? Validate(PublishVersionCommand request)
     {
         if (string.IsNullOrWhiteSpace(request.Version))
             return Error.Validation("VALIDATION_FAILED", "Version is required");
@@ -39,7 +46,7 @@ public sealed class PublishVersionHandler(HubDbContext dbContext, SnowflakeIdGen
     }
 
     public async Task<Result<PublishVersionResponse>> Handle(
-        PublishVersionRequest request, CancellationToken cancellationToken)
+        PublishVersionCommand request, CancellationToken cancellationToken)
     {
         var exists = await dbContext.AvailableVersions
             .AnyAsync(v => v.Version == request.Version && v.DeletedAt == null, cancellationToken);
@@ -61,6 +68,10 @@ public sealed class PublishVersionHandler(HubDbContext dbContext, SnowflakeIdGen
         dbContext.AvailableVersions.Add(version);
         await dbContext.SaveChangesAsync(cancellationToken);
 
+        await auditLog.RecordAsync(AuditActions.VersionPublish, AuditTargets.Version, version.Id.ToString(),
+            after: new { version.Version, version.Image },
+            cancellationToken: cancellationToken);
+
         return new PublishVersionResponse(
             version.Id.ToString(),
             version.Version,
@@ -79,7 +90,8 @@ public sealed class PublishVersionHandler(HubDbContext dbContext, SnowflakeIdGen
             CancellationToken ct) =>
         {
             var userId = long.Parse(httpContext.User.FindFirst("sub")!.Value);
-            return await handler.ExecuteAsync(request with { PublishedBy = userId }, ct,
+            var command = new PublishVersionCommand(request.Version, request.Image, request.ReleaseNotes, userId);
+            return await handler.ExecuteAsync(command, ct,
                 success => Results.Created($"/api/v1/admin/versions/{success.Id}", success));
         })
         .RequireAuthorization(Policies.Admin)
@@ -4,6 +4,7 @@ using Microsoft.AspNetCore.Routing;
 using Microsoft.EntityFrameworkCore;
 using XcordHub;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Upgrades;
@@ -11,7 +12,7 @@ namespace XcordHub.Features.Upgrades;
 public sealed record ResumeRolloutCommand(long Id);
 public sealed record ResumeRolloutResponse(string Id, string Status);
 
-public sealed class ResumeRolloutHandler(HubDbContext dbContext, IUpgradeQueue upgradeQueue)
+public sealed class ResumeRolloutHandler(HubDbContext dbContext, IUpgradeQueue upgradeQueue, IAuditLog auditLog)
     : IRequestHandler<ResumeRolloutCommand, Result<ResumeRolloutResponse>>
 {
     public async Task<Result<ResumeRolloutResponse>> Handle(
@@ -26,11 +27,21 @@ public sealed class ResumeRolloutHandler(HubDbContext dbContext, IUpgradeQueue u
         if (rollout.Status is not RolloutStatus.Paused)
             return Error.BadRequest("INVALID_STATUS", $"Cannot resume a rollout with status '{rollout.Status}'");
 
+        var before = new { Status = rollout.Status.ToString(), rollout.FailedInstances, rollout.PauseReason };
+
         rollout.Status = RolloutStatus.InProgress;
         rollout.FailedInstances = 0;
+        rollout.PauseReason = null;
         await dbContext.SaveChangesAsync(cancellationToken);
 
-        await upgradeQueue.EnqueueRolloutAsync(rollout.Id, force: false, cancellationToken);
+        await auditLog.RecordAsync(AuditActions.RolloutResume, AuditTargets.Rollout, rollout.Id.ToString(),
+            before,
+            new { Status = rollout.Status.ToString(), rollout.FailedInstances, rollout.PauseReason },
+            cancellationToken);
+
+        // Paused while waiting between canary stages: the health gate still decides when to continue
+        if (rollout.StageGateAt is null)
+            await upgradeQueue.EnqueueRolloutAsync(rollout.Id, rollout.Force, cancellationToken);
 
         return new ResumeRolloutResponse(rollout.Id.ToString(), rollout.Status.ToString());
     }
@@ -0,0 +1,81 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Upgrades;
+
+public sealed record RollbackInstanceRequest(bool RestoreBackup);
+
+public sealed record RollbackInstanceCommand(long InstanceId, bool RestoreBackup);
+
+public sealed record RollbackInstanceResponse(string UpgradeEventId, string TargetImage);
+
+/// <summary>
+/// Queues a rollback of the instance's latest upgrade to the image it replaced.
+/// Restoring the last database backup taken before that upgrade is refused until
+/// restores can load data (see <see cref="RollbackPlan.RestoreUnavailable"/>).
+/// </summary>
+public sealed class RollbackInstanceHandler(HubDbContext dbContext, IUpgradeQueue upgradeQueue, IAuditLog auditLog)
+    : IRequestHandler<RollbackInstanceCommand, Result<RollbackInstanceResponse>>
+{
+    public async Task<Result<RollbackInstanceResponse>> Handle(
+        RollbackInstanceCommand request, CancellationToken cancellationToken)
+    {
+        var instance = await dbContext.ManagedInstances
+            .Include(i => i.Infrastructure)
+            .FirstOrDefaultAsync(i => i.Id == request.InstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (instance is null)
+            return Error.NotFound("INSTANCE_NOT_FOUND", "Instance not found");
+
+        var upgrade = await RollbackPlan.LatestUpgrade(dbContext.UpgradeEvents, instance.Id)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        if (upgrade is null)
+            return Error.NotFound("UPGRADE_NOT_FOUND", "This instance has no upgrade to roll back");
+
+        if (RollbackPlan.CannotRollBack(upgrade, instance) is { } problem)
+            return Error.Conflict("ROLLBACK_NOT_POSSIBLE", problem);
+
+        if (request.RestoreBackup)
+        {
+            var hasBackup = await RollbackPlan.PreUpgradeBackups(dbContext.BackupRecords, upgrade)
+                .AnyAsync(cancellationToken);
+
+            if (!hasBackup)
+                return Error.Conflict("NO_PRE_UPGRADE_BACKUP", "No completed database backup was taken before this upgrade");
+
+            return Error.Conflict("RESTORE_NOT_AVAILABLE", RollbackPlan.RestoreUnavailable);
+        }
+
+        await upgradeQueue.EnqueueRollbackAsync(upgrade.Id, request.RestoreBackup, "Manual rollback", cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.InstanceRollback, AuditTargets.Instance, instance.Id.ToString(),
+            new { Image = instance.Infrastructure?.DeployedImage },
+            new { Image = upgrade.PreviousImage },
+            cancellationToken);
+
+        return new RollbackInstanceResponse(upgrade.Id.ToString(), upgrade.PreviousImage!);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/instances/{id:long}/rollback", async (
+            long id,
+            RollbackInstanceRequest request,
+            RollbackInstanceHandler handler,
+            CancellationToken ct) =>
+        {
+            var command = new RollbackInstanceCommand(id, request.RestoreBackup);
+            return await handler.ExecuteAsync(command, ct, result => Results.Accepted(value: result));
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<RollbackInstanceResponse>(202)
+        .WithName("AdminRollbackInstance")
+        .WithTags("Admin", "Upgrades");
+    }
+}
@@ -0,0 +1,82 @@
+using XcordHub.Entities;
+
+namespace XcordHub.Features.Upgrades;
+
+/// <summary>
+/// Rules for rolling an upgrade back to the image it replaced, shared by the rollback
+/// endpoints (to reject early) and <see cref="UpgradeOrchestrator"/> (which checks again
+/// when the queued rollback runs).
+/// </summary>
+public static class RollbackPlan
+{
+    /// <summary>
+    /// The instance's most recent finished upgrade, which is the one a rollback undoes.
+    /// Rollbacks themselves are not counted, so an instance is never rolled "forward".
+    /// </summary>
+    public static IQueryable<UpgradeEvent> LatestUpgrade(IQueryable<UpgradeEvent> events, long instanceId) =>
+        events
+            .Where(e => e.ManagedInstanceId == instanceId
+                && e.RollbackOfEventId == null
+                && (e.Status == UpgradeEventStatus.Completed || e.Status == UpgradeEventStatus.RolledBack))
+            .OrderByDescending(e => e.CompletedAt)
+            .Take(1);
+
+    /// <summary>
+    /// Why <paramref name="upgrade"/> cannot be rolled back on <paramref name="instance"/>,
+    /// or null if it can. The instance must still run the image the upgrade deployed.
+    /// </summary>
+    public static string? CannotRollBack(UpgradeEvent upgrade, ManagedInstance instance)
+    {
+        if (upgrade.Status == UpgradeEventStatus.RolledBack)
+            return "This upgrade has already been rolled back";
+
+        if (upgrade.Status != UpgradeEventStatus.Completed)
+            return "Only completed upgrades can be rolled back";
+
+        if (string.IsNullOrWhiteSpace(upgrade.PreviousImage))
+            return "The upgrade did not record a previous image";
+
+        if (instance.Infrastructure?.DeployedImage != upgrade.TargetImage)
+            return $"The instance is no longer running {upgrade.TargetImage}";
+
+        if (instance.Status is not (InstanceStatus.Running or InstanceStatus.Failed))
+            return $"The instance is {instance.Status}";
+
+        return null;
+    }
+
+    /// <summary>
+    /// Why a rollback cannot restore its pre-upgrade backup yet. Backups hold only
+    /// component metadata, so the restore path fails every restore (see
+    /// <see cref="Backups.RestoreBackgroundService"/>) and the option is refused up front.
+    /// </summary>
+    public const string RestoreUnavailable =
+        "Restoring the pre-upgrade backup is not available yet: backups hold only metadata";
+
+    /// <summary>
+    /// Completed database or full backups of the upgraded instance taken before the
+    /// upgrade started, newest first. The first one is the backup a rollback restores.
+    /// </summary>
+    public static IQueryable<BackupRecord> PreUpgradeBackups(IQueryable<BackupRecord> backups, UpgradeEvent upgrade)
+    {
+        var startedAt = upgrade.StartedAt ?? upgrade.CompletedAt;
+
+        return backups
+            .Where(b => b.ManagedInstanceId == upgrade.ManagedInstanceId
+                && b.DeletedAt == null
+                && b.Status == BackupStatus.Completed
+                && (b.Kind == BackupKind.Database || b.Kind == BackupKind.Full)
+                && startedAt != null
+                && b.CompletedAt <= startedAt)
+            .OrderByDescending(b => b.CompletedAt);
+    }
+
+    /// <summary>
+    /// Whether failing health checks at <paramref name="now"/> fall within the automatic
+    /// rollback window after an upgrade completed. A window of 0 disables it.
+    /// </summary>
+    public static bool WithinAutoRollbackWindow(DateTimeOffset? upgradedAt, DateTimeOffset now, int windowMinutes) =>
+        windowMinutes > 0
+        && upgradedAt is not null
+        && now - upgradedAt.Value <= TimeSpan.FromMinutes(windowMinutes);
+}
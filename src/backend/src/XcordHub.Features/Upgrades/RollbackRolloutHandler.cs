@@ -0,0 +1,81 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Entities;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Upgrades;
+
+public sealed record RollbackRolloutRequest(bool RestoreBackup);
+
+public sealed record RollbackRolloutCommand(long Id, bool RestoreBackup);
+
+public sealed record RollbackRolloutResponse(string Id, string Status, int Instances);
+
+/// <summary>
+/// Queues a rollback of every instance the rollout upgraded. A rollout that is still
+/// active is cancelled first so it does not upgrade anything else; a batch that is
+/// already running finishes before the rollback starts.
+/// </summary>
+public sealed class RollbackRolloutHandler(HubDbContext dbContext, IUpgradeQueue upgradeQueue, IAuditLog auditLog)
+    : IRequestHandler<RollbackRolloutCommand, Result<RollbackRolloutResponse>>
+{
+    public async Task<Result<RollbackRolloutResponse>> Handle(
+        RollbackRolloutCommand request, CancellationToken cancellationToken)
+    {
+        var rollout = await dbContext.UpgradeRollouts
+            .FirstOrDefaultAsync(r => r.Id == request.Id, cancellationToken);
+
+        if (rollout is null)
+            return Error.NotFound("ROLLOUT_NOT_FOUND", "Upgrade rollout not found");
+
+        if (request.RestoreBackup)
+            return Error.Conflict("RESTORE_NOT_AVAILABLE", RollbackPlan.RestoreUnavailable);
+
+        var instances = await dbContext.UpgradeEvents
+            .CountAsync(e => e.UpgradeRolloutId == rollout.Id
+                && (e.Status == UpgradeEventStatus.Completed || e.Status == UpgradeEventStatus.InProgress),
+                cancellationToken);
+
+        if (instances == 0)
+            return Error.Conflict("NOTHING_TO_ROLL_BACK", "This rollout has no upgraded instances to roll back");
+
+        var statusBefore = rollout.Status;
+
+        if (rollout.Status is RolloutStatus.Pending or RolloutStatus.InProgress or RolloutStatus.Paused)
+        {
+            rollout.Status = RolloutStatus.Cancelled;
+            rollout.CompletedAt = DateTimeOffset.UtcNow;
+            await dbContext.SaveChangesAsync(cancellationToken);
+        }
+
+        await upgradeQueue.EnqueueRolloutRollbackAsync(rollout.Id, request.RestoreBackup, cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.RolloutRollback, AuditTargets.Rollout, rollout.Id.ToString(),
+            new { Status = statusBefore.ToString() },
+            new { Status = rollout.Status.ToString(), Instances = instances, request.RestoreBackup },
+            cancellationToken);
+
+        return new RollbackRolloutResponse(rollout.Id.ToString(), rollout.Status.ToString(), instances);
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPost("/api/v1/admin/upgrades/{id}/rollback", async (
+            long id,
+            RollbackRolloutRequest request,
+            RollbackRolloutHandler handler,
+            CancellationToken ct) =>
+        {
+            var command = new RollbackRolloutCommand(id, request.RestoreBackup);
+            return await handler.ExecuteAsync(command, ct, result => Results.Accepted(value: result));
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<RollbackRolloutResponse>(202)
+        .WithName("RollbackRollout")
+        .WithTags("Admin", "Upgrades");
+    }
+}
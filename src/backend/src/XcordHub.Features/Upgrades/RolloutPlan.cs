@@ -0,0 +1,178 @@
+using XcordHub.Entities;
+
+namespace XcordHub.Features.Upgrades;
+
+/// <summary>
+/// Target selection and batching rules shared by <see cref="UpgradeOrchestrator"/>
+/// and the rollout preview, so the preview shows exactly what a rollout would do.
+/// </summary>
+public static class RolloutPlan
+{
+    public const string SkipNotRunning = "NotRunning";
+    public const string SkipAlreadyOnTarget = "AlreadyOnTarget";
+    public const string SkipBatchUpgradesDisabled = "BatchUpgradesDisabled";
+
+    public const int MaxStages = 10;
+
+    // Fallback per-batch duration when no upgrade has completed yet: container
+    // restart plus the health check settling.
+    public static readonly TimeSpan DefaultBatchDuration = TimeSpan.FromSeconds(90);
+
+    /// <summary>
+    /// Narrows the fleet to the instances a rollout is scoped to. Instances in scope
+    /// are then either targeted or skipped per <see cref="SkipReason"/>.
+    /// </summary>
+    public static IQueryable<ManagedInstance> InScope(
+        IQueryable<ManagedInstance> instances, string? fromImage, string? targetPool)
+    {
+        var query = instances.Where(i => i.DeletedAt == null && i.Infrastructure != null);
+
+        if (!string.IsNullOrWhiteSpace(fromImage))
+            query = query.Where(i => i.Infrastructure!.DeployedImage == fromImage);
+
+        if (!string.IsNullOrWhiteSpace(targetPool))
+            query = query.Where(i => i.Infrastructure!.PlacedInPool == targetPool);
+
+        // Batches are cut in id order so a preview and the rollout agree
+        return query.OrderBy(i => i.Id);
+    }
+
+    /// <summary>
+    /// Why an in-scope instance would not be upgraded, or null if it is a target.
+    /// Without <paramref name="force"/>, owners who opted out of batch upgrades are skipped.
+    /// </summary>
+    public static string? SkipReason(ManagedInstance instance, string toImage, bool force)
+    {
+        if (instance.Status != InstanceStatus.Running)
+            return SkipNotRunning;
+
+        if (instance.Infrastructure?.DeployedImage == toImage)
+            return SkipAlreadyOnTarget;
+
+        if (!force && instance.Config != null && !instance.Config.BatchUpgradesEnabled)
+            return SkipBatchUpgradesDisabled;
+
+        return null;
+    }
+
+    public static List<List<T>> Batches<T>(IReadOnlyList<T> targets, int batchSize) =>
+        targets
+            .Select((target, index) => new { target, index })
+            .GroupBy(x => x.index / Math.Max(1, batchSize))
+            .Select(g => g.Select(x => x.target).ToList())
+            .ToList();
+
+    /// <summary>
+    /// Checks a canary stage plan. Stage sizes are cumulative (an instance count or a
+    /// percentage of all targets) and the last stage must cover the whole fleet.
+    /// </summary>
+    public static string? ValidateStages(IReadOnlyList<RolloutStageRequest>? stages)
+    {
+        if (stages is null || stages.Count == 0)
+            return null;
+
+        if (stages.Count > MaxStages)
+            return $"A rollout can have at most {MaxStages} stages";
+
+        foreach (var stage in stages)
+        {
+            if ((stage.Instances is null) == (stage.Percentage is null))
+                return "Each stage needs either an instance count or a percentage";
+
+            if (stage.Instances is < 1)
+                return "Stage instance counts must be at least 1";
+
+            if (stage.Percentage is < 1 or > 100)
+                return "Stage percentages must be between 1 and 100";
+
+            if (stage.WaitMinutes < 0)
+                return "Stage wait times cannot be negative";
+        }
+
+        if (stages[^1].Percentage != 100)
+            return "The last stage must cover 100% of instances";
+
+        return null;
+    }
+
+    /// <summary>
+    /// How many targets have been upgraded once a stage finishes. Percentages round
+    /// up so a non-empty stage always upgrades at least one instance.
+    /// </summary>
+    public static int StageTarget(int? instanceCount, int? percentage, int totalInstances)
+    {
+        var target = instanceCount ?? (int)Math.Ceiling(totalInstances * (percentage ?? 100) / 100.0);
+        return Math.Clamp(target, 0, totalInstances);
+    }
+
+    /// <summary>
+    /// Splits the ordered targets into the slices each stage upgrades. Stages whose
+    /// cumulative size is already reached get an empty slice.
+    /// </summary>
+    public static List<List<T>> Stages<T>(IReadOnlyList<T> targets, IReadOnlyList<RolloutStageRequest> stages)
+    {
+        var slices = new List<List<T>>();
+        var upgraded = 0;
+        foreach (var stage in stages)
+        {
+            var target = Math.Max(upgraded, StageTarget(stage.Instances, stage.Percentage, targets.Count));
+            slices.Add(targets.Skip(upgraded).Take(target - upgraded).ToList());
+            upgraded = target;
+        }
+        return slices;
+    }
+
+    /// <summary>
+    /// How the upgrade of one instance in the stage ended, and its health since.
+    /// </summary>
+    public sealed record HealthGateSample(
+        string Domain,
+        UpgradeEventStatus UpgradeStatus,
+        InstanceStatus Status,
+        DateTimeOffset UpgradedAt,
+        InstanceHealth? Health);
+
+    /// <summary>
+    /// Why the health gate between two stages fails, or null if it does not (yet).
+    /// A stage that upgraded nothing, or in which any upgrade failed or was rolled
+    /// back, fails. Only health checks made after an instance was upgraded count.
+    /// </summary>
+    public static string? HealthGateFailure(
+        IReadOnlyCollection<HealthGateSample> samples, int maxConsecutiveFailures, int? maxResponseTimeMs)
+    {
+        if (samples.Count == 0)
+            return "No instance finished upgrading in this stage";
+
+        foreach (var sample in samples)
+        {
+            if (sample.UpgradeStatus == UpgradeEventStatus.Failed)
+                return $"{sample.Domain} failed to upgrade";
+
+            if (sample.UpgradeStatus == UpgradeEventStatus.RolledBack)
+                return $"{sample.Domain} was rolled back";
+
+            if (sample.Status != InstanceStatus.Running)
+                return $"{sample.Domain} is {sample.Status}";
+
+            var health = sample.Health;
+            if (health is null || health.LastCheckAt <= sample.UpgradedAt)
+                continue;
+
+            if (health.ConsecutiveFailures > maxConsecutiveFailures)
+                return $"{sample.Domain} failed {health.ConsecutiveFailures} consecutive health checks";
+
+            if (maxResponseTimeMs is not null && health.ResponseTimeMs > maxResponseTimeMs)
+                return $"{sample.Domain} responded in {health.ResponseTimeMs} ms (limit {maxResponseTimeMs} ms)";
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Whether the stage upgraded something and every upgraded instance has been
+    /// health checked since its upgrade, so a gate without failures can pass.
+    /// </summary>
+    public static bool HealthGateReady(IReadOnlyCollection<HealthGateSample> samples) =>
+        samples.Count > 0
+        && samples.All(s => s.Health is not null && s.Health.LastCheckAt > s.UpgradedAt);
+}
@@ -36,7 +36,83 @@ public sealed class ScheduledRolloutService(
             Logger.LogInformation("Scheduled rollout {RolloutId} is due (scheduled for {ScheduledAt}), enqueuing",
                 rollout.Id, rollout.ScheduledAt);
 
-            await upgradeQueue.EnqueueRolloutAsync(rollout.Id, force: false, ct);
+            await upgradeQueue.EnqueueRolloutAsync(rollout.Id, rollout.Force, ct);
+        }
+
+        await CheckStageGatesAsync(dbContext, scope.ServiceProvider.GetRequiredService<IAlertService>(), now, ct);
+    }
+
+    /// <summary>
+    /// Canary rollouts wait between stages. Once the wait is over, the next stage is
+    /// queued if every upgrade in the stage just finished succeeded and its instance is
+    /// healthy; otherwise the rollout is paused and an alert is sent.
+    /// </summary>
+    private async Task CheckStageGatesAsync(
+        HubDbContext dbContext, IAlertService alertService, DateTimeOffset now, CancellationToken ct)
+    {
+        var gatedRollouts = await dbContext.UpgradeRollouts
+            .Include(r => r.Stages)
+            .Where(r => r.Status == RolloutStatus.InProgress
+                && r.StageGateAt != null
+                && r.StageGateAt <= now)
+            .ToListAsync(ct);
+
+        foreach (var rollout in gatedRollouts)
+        {
+            // Targets are upgraded in stage order, so the stage's own upgrades are the ones
+            // processed after the earlier stages' targets were reached
+            var stages = rollout.Stages.OrderBy(s => s.Position).ToList();
+            var earlierStages = rollout.CurrentStage > 0
+                ? RolloutPlan.StageTarget(
+                    stages[rollout.CurrentStage - 1].InstanceCount,
+                    stages[rollout.CurrentStage - 1].Percentage,
+                    rollout.TotalInstances)
+                : 0;
+
+            var samples = await dbContext.UpgradeEvents
+                .AsNoTracking()
+                .Where(e => e.UpgradeRolloutId == rollout.Id && e.Status != UpgradeEventStatus.Pending)
+                .OrderBy(e => e.StartedAt)
+                .ThenBy(e => e.Id)
+                .Skip(earlierStages)
+                .Where(e => (e.Status == UpgradeEventStatus.Completed
+                        || e.Status == UpgradeEventStatus.Failed
+                        || e.Status == UpgradeEventStatus.RolledBack)
+                    && e.CompletedAt != null)
+                .Select(e => new RolloutPlan.HealthGateSample(
+                    e.ManagedInstance.Domain,
+                    e.Status,
+                    e.ManagedInstance.Status,
+                    e.CompletedAt!.Value,
+                    e.ManagedInstance.Health))
+                .ToListAsync(ct);
+
+            var failure = RolloutPlan.HealthGateFailure(
+                samples, rollout.HealthGateMaxFailures, rollout.HealthGateMaxResponseTimeMs);
+
+            // No verdict until the health monitor has checked every upgraded instance
+            if (failure is null && !RolloutPlan.HealthGateReady(samples))
+                continue;
+
+            rollout.StageGateAt = null;
+
+            if (failure is not null)
+            {
+                rollout.Status = RolloutStatus.Paused;
+                rollout.PauseReason = $"Health gate failed after stage {rollout.CurrentStage + 1}: {failure}";
+                await dbContext.SaveChangesAsync(ct);
+
+                Logger.LogWarning("Rollout {RolloutId} paused: {Reason}", rollout.Id, rollout.PauseReason);
+                await alertService.SendRolloutPausedAlertAsync(rollout.Id, rollout.ToImage, rollout.PauseReason, ct);
+                continue;
+            }
+
+            await dbContext.SaveChangesAsync(ct);
+
+            Logger.LogInformation("Rollout {RolloutId} passed the health gate after stage {Stage}, continuing",
+                rollout.Id, rollout.CurrentStage + 1);
+
+            await upgradeQueue.EnqueueRolloutAsync(rollout.Id, rollout.Force, ct);
         }
     }
 }
@@ -0,0 +1,91 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+using Microsoft.EntityFrameworkCore;
+using XcordHub;
+using XcordHub.Features.Audit;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Features.Upgrades;
+
+public sealed record SetMinimumVersionRequest(DateTimeOffset EnforcementDate);
+
+public sealed record SetMinimumVersionCommand(long VersionId, DateTimeOffset EnforcementDate);
+
+public sealed class SetMinimumVersionHandler(HubDbContext dbContext, IAuditLog auditLog)
+    : IRequestHandler<SetMinimumVersionCommand, Result<VersionListItem>>,
+      IValidatable<SetMinimumVersionCommand>
+{
+    public Error? Validate(SetMinimumVersionCommand request)
+    {
+        if (request.EnforcementDate < DateTimeOffset.UtcNow)
+            return Error.Validation("INVALID_ENFORCEMENT_DATE", "Enforcement date must be in the future");
+
+        return null;
+    }
+
+    public async Task<Result<VersionListItem>> Handle(
+        SetMinimumVersionCommand request, CancellationToken cancellationToken)
+    {
+        var version = await dbContext.AvailableVersions
+            .FirstOrDefaultAsync(v => v.Id == request.VersionId && v.DeletedAt == null, cancellationToken);
+
+        if (version == null)
+            return Error.NotFound("VERSION_NOT_FOUND", "Version not found");
+
+        // Only one minimum is enforced at a time; a new minimum supersedes the previous one
+        var previousMinimums = await dbContext.AvailableVersions
+            .Where(v => v.IsMinimumVersion && v.Id != version.Id)
+            .ToListAsync(cancellationToken);
+
+        var superseded = previousMinimums.FirstOrDefault() ?? (version.IsMinimumVersion ? version : null);
+        var before = new
+        {
+            MinimumVersion = superseded?.Version,
+            EnforcementDate = superseded?.MinimumEnforcementDate
+        };
+
+        foreach (var previous in previousMinimums)
+        {
+            previous.IsMinimumVersion = false;
+            previous.MinimumEnforcementDate = null;
+        }
+
+        version.IsMinimumVersion = true;
+        version.MinimumEnforcementDate = request.EnforcementDate;
+
+        await dbContext.SaveChangesAsync(cancellationToken);
+
+        await auditLog.RecordAsync(AuditActions.VersionSetMinimum, AuditTargets.Version, version.Id.ToString(),
+            before,
+            new { MinimumVersion = version.Version, EnforcementDate = version.MinimumEnforcementDate },
+            cancellationToken);
+
+        return new VersionListItem(
+            version.Id.ToString(),
+            version.Version,
+            version.Image,
+            version.ReleaseNotes,
+            version.IsMinimumVersion,
+            version.MinimumEnforcementDate,
+            version.PublishedAt
+        );
+    }
+
+    public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
+    {
+        return app.MapPut("/api/v1/admin/versions/{id:long}/minimum", async (
+            long id,
+            SetMinimumVersionRequest body,
+            SetMinimumVersionHandler handler,
+            CancellationToken ct) =>
+        {
+            var command = new SetMinimumVersionCommand(id, body.EnforcementDate);
+            return await handler.ExecuteAsync(command, ct);
+        })
+        .RequireAuthorization(Policies.Admin)
+        .Produces<VersionListItem>(200)
+        .WithName("SetMinimumVersion")
+        .WithTags("Admin", "Upgrades");
+    }
+}
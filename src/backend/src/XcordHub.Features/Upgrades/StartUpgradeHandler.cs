@@ -3,6 +3,7 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Routing;
 using XcordHub;
 using XcordHub.Entities;
+using XcordHub.Features.Audit;
 using XcordHub.Infrastructure.Data;
 
 namespace XcordHub.Features.Upgrades;
@@ -15,7 +16,30 @@ public sealed record StartUpgradeCommand(
     int BatchSize = 5,
     int MaxFailures = 1,
     DateTimeOffset? ScheduledAt = null,
-    long InitiatedBy = 0
+    long InitiatedBy = 0,
+    List<RolloutStageRequest>? Stages = null,
+    RolloutHealthGateRequest? HealthGate = null
+);
+
+/// <summary>
+/// One canary stage. <see cref="Instances"/> or <see cref="Percentage"/> is the
+/// cumulative size of the fleet upgraded once the stage finishes; the rollout then
+/// waits <see cref="WaitMinutes"/> and checks the health gate before the next stage.
+/// </summary>
+public sealed record RolloutStageRequest(int? Instances, int? Percentage, int WaitMinutes);
+
+public sealed record RolloutHealthGateRequest(int MaxConsecutiveFailures, int? MaxResponseTimeMs);
+
+public sealed record StartUpgradeRequest(
+    string ToImage,
+    string? FromImage,
+    string? TargetPool,
+    bool Force,
+    int BatchSize,
+    int MaxFailures,
+    DateTimeOffset? ScheduledAt,
+    List<RolloutStageRequest>? Stages = null,
+    RolloutHealthGateRequest? HealthGate = null
 );
 
 public sealed record StartUpgradeResponse(
@@ -33,7 +57,8 @@ public sealed record StartUpgradeResponse(
 public sealed class StartUpgradeHandler(
     HubDbContext dbContext,
     SnowflakeIdGenerator snowflakeGenerator,
-    IUpgradeQueue upgradeQueue)
+    IUpgradeQueue upgradeQueue,
+    IAuditLog auditLog)
     : IRequestHandler<StartUpgradeCommand, Result<StartUpgradeResponse>>,
       IValidatable<StartUpgradeCommand>
 {
@@ -42,6 +67,15 @@ public sealed class StartUpgradeHandler(
         if (string.IsNullOrWhiteSpace(request.ToImage))
             return Error.Validation("VALIDATION_FAILED", "ToImage is required");
 
+        if (request.BatchSize < 1)
+            return Error.Validation("VALIDATION_FAILED", "BatchSize must be at least 1");
+
+        if (RolloutPlan.ValidateStages(request.Stages) is { } stagesError)
+            return Error.Validation("VALIDATION_FAILED", stagesError);
+
+        if (request.HealthGate is { MaxConsecutiveFailures: < 0 } or { MaxResponseTimeMs: < 1 })
+            return Error.Validation("VALIDATION_FAILED", "Health gate thresholds must be positive");
+
         return null;
     }
 
@@ -60,7 +94,20 @@ public sealed class StartUpgradeHandler(
             MaxFailures = request.MaxFailures,
             ScheduledAt = request.ScheduledAt,
             StartedAt = now,
-            InitiatedBy = request.InitiatedBy
+            InitiatedBy = request.InitiatedBy,
+            Force = request.Force,
+            HealthGateMaxFailures = request.HealthGate?.MaxConsecutiveFailures ?? 0,
+            HealthGateMaxResponseTimeMs = request.HealthGate?.MaxResponseTimeMs,
+            Stages = (request.Stages ?? [])
+                .Select((stage, index) => new UpgradeRolloutStage
+                {
+                    Id = 0, // DB-generated
+                    Position = index,
+                    InstanceCount = stage.Instances,
+                    Percentage = stage.Percentage,
+                    WaitMinutes = stage.WaitMinutes
+                })
+                .ToList()
         };
 
         dbContext.UpgradeRollouts.Add(rollout);
@@ -68,6 +115,20 @@ public sealed class StartUpgradeHandler(
 
         await upgradeQueue.EnqueueRolloutAsync(rollout.Id, request.Force, cancellationToken);
 
+        await auditLog.RecordAsync(AuditActions.RolloutStart, AuditTargets.Rollout, rollout.Id.ToString(),
+            after: new
+            {
+                rollout.ToImage,
+                rollout.FromImage,
+                rollout.TargetPool,
+                rollout.Force,
+                rollout.BatchSize,
+                rollout.MaxFailures,
+                rollout.ScheduledAt,
+                Stages = rollout.Stages.Count
+            },
+            cancellationToken: cancellationToken);
+
         return new StartUpgradeResponse(
             rollout.Id.ToString(),
             rollout.ToImage,
@@ -84,13 +145,24 @@ public sealed class StartUpgradeHandler(
     public static RouteHandlerBuilder Map(IEndpointRouteBuilder app)
     {
         return app.MapPost("/api/v1/admin/upgrades", async (
-            StartUpgradeCommand command,
+            StartUpgradeRequest request,
             StartUpgradeHandler handler,
             HttpContext httpContext,
             CancellationToken ct) =>
         {
             var userId = long.Parse(httpContext.User.FindFirst("sub")!.Value);
-            return await handler.ExecuteAsync(command with { InitiatedBy = userId }, ct,
+            var command = new StartUpgradeCommand(
+                request.ToImage,
+                request.FromImage,
+                request.TargetPool,
+                request.Force,
+                request.BatchSize,
+                request.MaxFailures,
+                request.ScheduledAt,
+                userId,
+                request.Stages,
+                request.HealthGate);
+            return await handler.ExecuteAsync(command, ct,
                 success => Results.Accepted($"/api/v1/admin/upgrades/{success.Id}", success));
         })
         .RequireAuthorization(Policies.Admin)
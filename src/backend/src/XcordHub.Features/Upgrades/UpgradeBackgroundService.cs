@@ -70,6 +70,37 @@ public sealed class UpgradeBackgroundService : BackgroundService
                             rollout.RolloutId, result.Error?.Message);
                     }
                 }
+                else if (workItem.Rollback is { } rollback)
+                {
+                    _logger.LogInformation("Processing rollback of upgrade {UpgradeEventId}", rollback.UpgradeEventId);
+
+                    var result = await orchestrator.RollbackInstanceAsync(
+                        rollback.UpgradeEventId,
+                        rollback.RestoreBackup,
+                        rollback.Reason,
+                        stoppingToken);
+
+                    if (result.IsFailure)
+                    {
+                        _logger.LogError("Rollback of upgrade {UpgradeEventId} failed: {Error}",
+                            rollback.UpgradeEventId, result.Error?.Message);
+                    }
+                }
+                else if (workItem.RolloutRollback is { } rolloutRollback)
+                {
+                    _logger.LogInformation("Processing rollback of rollout {RolloutId}", rolloutRollback.RolloutId);
+
+                    var result = await orchestrator.RollbackRolloutAsync(
+                        rolloutRollback.RolloutId,
+                        rolloutRollback.RestoreBackup,
+                        stoppingToken);
+
+                    if (result.IsFailure)
+                    {
+                        _logger.LogError("Rollback of rollout {RolloutId} failed: {Error}",
+                            rolloutRollback.RolloutId, result.Error?.Message);
+                    }
+                }
             }
             catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
             {
@@ -103,9 +134,10 @@ public sealed class UpgradeBackgroundService : BackgroundService
                 instance.Status = InstanceStatus.Failed;
             }
 
-            // Recover rollouts stuck in InProgress state
+            // Recover rollouts stuck in InProgress state. Canary rollouts waiting for their
+            // next health gate are not running and are left to ScheduledRolloutService.
             var stuckRollouts = await dbContext.UpgradeRollouts
-                .Where(r => r.Status == RolloutStatus.InProgress)
+                .Where(r => r.Status == RolloutStatus.InProgress && r.StageGateAt == null)
                 .ToListAsync(cancellationToken);
 
             foreach (var rollout in stuckRollouts)
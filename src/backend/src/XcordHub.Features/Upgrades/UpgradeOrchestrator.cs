@@ -37,11 +37,19 @@ public sealed class UpgradeOrchestrator
         _logger = logger;
     }
 
-    public async Task<Result<bool>> UpgradeInstanceAsync(
+    public Task<Result<bool>> UpgradeInstanceAsync(
         long instanceId,
         string targetImage,
         long? rolloutId = null,
-        CancellationToken cancellationToken = default)
+        CancellationToken cancellationToken = default) =>
+        UpgradeInstanceAsync(instanceId, targetImage, rolloutId, rollbackEvent: null, cancellationToken);
+
+    private async Task<Result<bool>> UpgradeInstanceAsync(
+        long instanceId,
+        string targetImage,
+        long? rolloutId,
+        UpgradeEvent? rollbackEvent,
+        CancellationToken cancellationToken)
     {
         var instance = await _dbContext.ManagedInstances
             .Include(i => i.Infrastructure)
@@ -66,19 +74,32 @@ public sealed class UpgradeOrchestrator
         instance.Status = InstanceStatus.Upgrading;
 
         var now = DateTimeOffset.UtcNow;
-        var upgradeEvent = new UpgradeEvent
+
+        // Rollouts record a Pending event per target up front; pick it up rather than adding a second one
+        var upgradeEvent = rolloutId is null
+            ? null
+            : await _dbContext.UpgradeEvents.FirstOrDefaultAsync(e =>
+                e.UpgradeRolloutId == rolloutId
+                && e.ManagedInstanceId == instanceId
+                && e.Status == UpgradeEventStatus.Pending, cancellationToken);
+
+        if (upgradeEvent is null)
         {
-            Id = 0, // DB-generated
-            UpgradeRolloutId = rolloutId,
-            ManagedInstanceId = instanceId,
-            Status = UpgradeEventStatus.InProgress,
-            PreviousImage = previousImage,
-            TargetImage = targetImage,
-            PreviousVersion = previousVersion,
-            StartedAt = now
-        };
+            upgradeEvent = rollbackEvent ?? new UpgradeEvent
+            {
+                Id = 0, // DB-generated
+                UpgradeRolloutId = rolloutId,
+                ManagedInstanceId = instanceId,
+                TargetImage = targetImage
+            };
+            _dbContext.UpgradeEvents.Add(upgradeEvent);
+        }
+
+        upgradeEvent.Status = UpgradeEventStatus.InProgress;
+        upgradeEvent.PreviousImage = previousImage;
+        upgradeEvent.PreviousVersion = previousVersion;
+        upgradeEvent.StartedAt = now;
 
-        _dbContext.UpgradeEvents.Add(upgradeEvent);
         await _dbContext.SaveChangesAsync(cancellationToken);
 
         try
@@ -169,6 +190,7 @@ public sealed class UpgradeOrchestrator
         CancellationToken cancellationToken = default)
     {
         var rollout = await _dbContext.UpgradeRollouts
+            .Include(r => r.Stages)
             .FirstOrDefaultAsync(r => r.Id == rolloutId, cancellationToken);
 
         if (rollout == null)
@@ -177,19 +199,17 @@ public sealed class UpgradeOrchestrator
         if (rollout.Status != RolloutStatus.Pending && rollout.Status != RolloutStatus.InProgress)
             return Error.Failure("ROLLOUT_ALREADY_PROCESSED", $"Rollout {rolloutId} has status {rollout.Status}");
 
-        // Find target instances: Running instances where DeployedImage != rollout.ToImage
-        var query = _dbContext.ManagedInstances
-            .Include(i => i.Infrastructure)
-            .Include(i => i.Config)
-            .Include(i => i.Health)
+        // Find target instances: Running instances in scope where DeployedImage != rollout.ToImage.
+        // Mirrors RolloutPlan.SkipReason, evaluated in the database.
+        var query = RolloutPlan.InScope(
+                _dbContext.ManagedInstances
+                    .Include(i => i.Infrastructure)
+                    .Include(i => i.Config)
+                    .Include(i => i.Health),
+                rollout.FromImage,
+                rollout.TargetPool)
             .Where(i => i.Status == InstanceStatus.Running
-                && i.DeletedAt == null
-                && i.Infrastructure != null
-                && i.Infrastructure.DeployedImage != rollout.ToImage);
-
-        // Filter by target pool if set
-        if (!string.IsNullOrWhiteSpace(rollout.TargetPool))
-            query = query.Where(i => i.Infrastructure!.PlacedInPool == rollout.TargetPool);
+                && i.Infrastructure!.DeployedImage != rollout.ToImage);
 
         // Filter by batch upgrades: skip instances with batch upgrades disabled unless force
         if (!force)
@@ -201,18 +221,53 @@ public sealed class UpgradeOrchestrator
         {
             rollout.TotalInstances = targetInstances.Count;
             rollout.Status = RolloutStatus.InProgress;
+
+            // Record every target as Pending so the rollout detail lists instances before their batch starts
+            foreach (var instance in targetInstances)
+            {
+                _dbContext.UpgradeEvents.Add(new UpgradeEvent
+                {
+                    Id = 0, // DB-generated
+                    UpgradeRolloutId = rollout.Id,
+                    ManagedInstanceId = instance.Id,
+                    Status = UpgradeEventStatus.Pending,
+                    PreviousImage = instance.Infrastructure!.DeployedImage,
+                    TargetImage = rollout.ToImage,
+                    PreviousVersion = instance.Health?.Version
+                });
+            }
+
+            await _dbContext.SaveChangesAsync(cancellationToken);
+        }
+
+        // Canary rollouts upgrade one stage per run; the health gate in ScheduledRolloutService
+        // queues the next run once the stage has soaked
+        var stages = rollout.Stages.OrderBy(s => s.Position).ToList();
+        if (stages.Count > 0)
+        {
+            var processed = await _dbContext.UpgradeEvents.CountAsync(e =>
+                e.UpgradeRolloutId == rollout.Id && e.Status != UpgradeEventStatus.Pending, cancellationToken);
+
+            // Move past stages that earlier runs already covered
+            while (rollout.CurrentStage < stages.Count - 1
+                && processed >= StageTarget(stages[rollout.CurrentStage], rollout.TotalInstances))
+            {
+                rollout.CurrentStage++;
+            }
             await _dbContext.SaveChangesAsync(cancellationToken);
+
+            var remaining = StageTarget(stages[rollout.CurrentStage], rollout.TotalInstances) - processed;
+            targetInstances = targetInstances.Take(Math.Max(0, remaining)).ToList();
+
+            _logger.LogInformation("Rollout {RolloutId} running stage {Stage} of {StageCount}",
+                rolloutId, rollout.CurrentStage + 1, stages.Count);
         }
 
         _logger.LogInformation("Starting rollout {RolloutId}: {Count} instances to upgrade to {Image}",
             rolloutId, targetInstances.Count, rollout.ToImage);
 
         // Partition into batches
-        var batches = targetInstances
-            .Select((inst, idx) => new { inst, idx })
-            .GroupBy(x => x.idx / rollout.BatchSize)
-            .Select(g => g.Select(x => x.inst).ToList())
-            .ToList();
+        var batches = RolloutPlan.Batches(targetInstances, rollout.BatchSize);
 
         foreach (var batch in batches)
         {
@@ -256,6 +311,7 @@ public sealed class UpgradeOrchestrator
             if (rollout.FailedInstances >= rollout.MaxFailures)
             {
                 rollout.Status = RolloutStatus.Paused;
+                rollout.PauseReason = $"{rollout.FailedInstances} failed upgrade(s) reached the limit of {rollout.MaxFailures}";
                 await _dbContext.SaveChangesAsync(cancellationToken);
                 _logger.LogWarning("Rollout {RolloutId} paused: {Failed} failures >= max {Max}",
                     rolloutId, rollout.FailedInstances, rollout.MaxFailures);
@@ -265,7 +321,16 @@ public sealed class UpgradeOrchestrator
 
         // Reload to check for external cancellation/pause
         await _dbContext.Entry(rollout).ReloadAsync(cancellationToken);
-        if (rollout.Status == RolloutStatus.InProgress)
+        if (rollout.Status == RolloutStatus.InProgress && rollout.CurrentStage < stages.Count - 1)
+        {
+            var stage = stages[rollout.CurrentStage];
+            rollout.StageGateAt = DateTimeOffset.UtcNow.AddMinutes(stage.WaitMinutes);
+            await _dbContext.SaveChangesAsync(cancellationToken);
+
+            _logger.LogInformation("Rollout {RolloutId} finished stage {Stage}; health gate at {GateAt}",
+                rolloutId, rollout.CurrentStage + 1, rollout.StageGateAt);
+        }
+        else if (rollout.Status == RolloutStatus.InProgress)
         {
             rollout.Status = RolloutStatus.Completed;
             rollout.CompletedAt = DateTimeOffset.UtcNow;
@@ -278,6 +343,121 @@ public sealed class UpgradeOrchestrator
         return true;
     }
 
+    /// <summary>
+    /// Rolls a completed upgrade back by redeploying the image it replaced. The rollback
+    /// runs like any other upgrade under an event of its own that points back at the
+    /// original, which is marked RolledBack once the instance is healthy again. Asking
+    /// for the pre-upgrade backup to be restored fails until restores can load data.
+    /// </summary>
+    public async Task<Result<bool>> RollbackInstanceAsync(
+        long upgradeEventId,
+        bool restoreBackup,
+        string reason,
+        CancellationToken cancellationToken = default)
+    {
+        var upgrade = await _dbContext.UpgradeEvents
+            .FirstOrDefaultAsync(e => e.Id == upgradeEventId, cancellationToken);
+
+        if (upgrade == null)
+            return Error.NotFound("UPGRADE_NOT_FOUND", $"Upgrade {upgradeEventId} not found");
+
+        var instance = await _dbContext.ManagedInstances
+            .Include(i => i.Infrastructure)
+            .FirstOrDefaultAsync(i => i.Id == upgrade.ManagedInstanceId && i.DeletedAt == null, cancellationToken);
+
+        if (instance == null)
+            return Error.NotFound("INSTANCE_NOT_FOUND", $"Instance {upgrade.ManagedInstanceId} not found");
+
+        // Re-checked here because the instance may have changed since the rollback was queued
+        if (RollbackPlan.CannotRollBack(upgrade, instance) is { } problem)
+            return Error.Conflict("ROLLBACK_NOT_POSSIBLE", problem);
+
+        if (restoreBackup)
+        {
+            var hasBackup = await RollbackPlan.PreUpgradeBackups(_dbContext.BackupRecords, upgrade)
+                .AnyAsync(cancellationToken);
+
+            if (!hasBackup)
+                return Error.Conflict("NO_PRE_UPGRADE_BACKUP", "No completed database backup was taken before this upgrade");
+
+            return Error.Conflict("RESTORE_NOT_AVAILABLE", RollbackPlan.RestoreUnavailable);
+        }
+
+        var rollbackEvent = new UpgradeEvent
+        {
+            Id = 0, // DB-generated
+            ManagedInstanceId = instance.Id,
+            TargetImage = upgrade.PreviousImage!,
+            RollbackOfEventId = upgrade.Id,
+            RollbackReason = reason
+        };
+
+        var result = await UpgradeInstanceAsync(
+            instance.Id, upgrade.PreviousImage!, rolloutId: null, rollbackEvent, cancellationToken);
+
+        if (result.IsFailure)
+            return result;
+
+        upgrade.Status = UpgradeEventStatus.RolledBack;
+        await _dbContext.SaveChangesAsync(cancellationToken);
+
+        _logger.LogInformation("Rolled back upgrade {UpgradeEventId} on instance {InstanceId} to {Image} ({Reason})",
+            upgrade.Id, instance.Id, upgrade.PreviousImage, reason);
+
+        return true;
+    }
+
+    /// <summary>
+    /// Rolls back every instance a rollout upgraded, in batches of the rollout's batch size.
+    /// Instances that have since moved to another image are left alone.
+    /// </summary>
+    public async Task<Result<bool>> RollbackRolloutAsync(
+        long rolloutId,
+        bool restoreBackup,
+        CancellationToken cancellationToken = default)
+    {
+        var rollout = await _dbContext.UpgradeRollouts
+            .FirstOrDefaultAsync(r => r.Id == rolloutId, cancellationToken);
+
+        if (rollout == null)
+            return Error.NotFound("ROLLOUT_NOT_FOUND", $"Rollout {rolloutId} not found");
+
+        var upgradeIds = await _dbContext.UpgradeEvents
+            .Where(e => e.UpgradeRolloutId == rolloutId && e.Status == UpgradeEventStatus.Completed)
+            .OrderBy(e => e.ManagedInstanceId)
+            .Select(e => e.Id)
+            .ToListAsync(cancellationToken);
+
+        _logger.LogInformation("Rolling back rollout {RolloutId}: {Count} instances to roll back",
+            rolloutId, upgradeIds.Count);
+
+        var failed = 0;
+        foreach (var batch in RolloutPlan.Batches(upgradeIds, rollout.BatchSize))
+        {
+            if (cancellationToken.IsCancellationRequested) break;
+
+            var tasks = batch.Select(async upgradeId =>
+            {
+                using var scope = _serviceScopeFactory.CreateScope();
+                var scopedOrchestrator = scope.ServiceProvider.GetRequiredService<UpgradeOrchestrator>();
+                return await scopedOrchestrator.RollbackInstanceAsync(
+                    upgradeId, restoreBackup, $"Rollback of rollout {rolloutId}", cancellationToken);
+            });
+
+            var results = await Task.WhenAll(tasks);
+            failed += results.Count(r => r.IsFailure);
+        }
+
+        if (failed > 0)
+            return Error.Failure("ROLLBACK_INCOMPLETE", $"{failed} of {upgradeIds.Count} instance(s) could not be rolled back");
+
+        _logger.LogInformation("Rollout {RolloutId} rolled back", rolloutId);
+        return true;
+    }
+
+    private static int StageTarget(UpgradeRolloutStage stage, int totalInstances) =>
+        RolloutPlan.StageTarget(stage.InstanceCount, stage.Percentage, totalInstances);
+
     private async Task<Result<bool>> HandleFailureAsync(
         ManagedInstance instance,
         UpgradeEvent upgradeEvent,
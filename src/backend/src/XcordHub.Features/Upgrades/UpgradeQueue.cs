@@ -27,6 +27,26 @@ public sealed class UpgradeQueue : IUpgradeQueue
         await _channel.Writer.WriteAsync(item, cancellationToken);
     }
 
+    public async ValueTask EnqueueRollbackAsync(long upgradeEventId, bool restoreBackup, string reason, CancellationToken cancellationToken = default)
+    {
+        var item = new UpgradeWorkItem
+        {
+            Rollback = new RollbackRequest(upgradeEventId, restoreBackup, reason)
+        };
+
+        await _channel.Writer.WriteAsync(item, cancellationToken);
+    }
+
+    public async ValueTask EnqueueRolloutRollbackAsync(long rolloutId, bool restoreBackup, CancellationToken cancellationToken = default)
+    {
+        var item = new UpgradeWorkItem
+        {
+            RolloutRollback = new RolloutRollbackRequest(rolloutId, restoreBackup)
+        };
+
+        await _channel.Writer.WriteAsync(item, cancellationToken);
+    }
+
     public async ValueTask<UpgradeWorkItem> DequeueAsync(CancellationToken cancellationToken)
     {
         return await _channel.Reader.ReadAsync(cancellationToken);
@@ -0,0 +1,53 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using XcordHub.Entities;
+
+namespace XcordHub.Infrastructure.Data.Configurations;
+
+public sealed class AuditLogEntryConfiguration : IEntityTypeConfiguration<AuditLogEntry>
+{
+    public void Configure(EntityTypeBuilder<AuditLogEntry> builder)
+    {
+        builder.ToTable("audit_log_entries");
+
+        builder.HasKey(x => x.Id);
+
+        builder.Property(x => x.ActorId);
+
+        builder.Property(x => x.ActorName)
+            .IsRequired()
+            .HasMaxLength(255);
+
+        builder.Property(x => x.IpAddress)
+            .IsRequired()
+            .HasMaxLength(45); // IPv6 max length
+
+        builder.Property(x => x.Action)
+            .IsRequired()
+            .HasMaxLength(100);
+
+        builder.Property(x => x.TargetType)
+            .IsRequired()
+            .HasMaxLength(50);
+
+        builder.Property(x => x.TargetId)
+            .HasMaxLength(100);
+
+        builder.Property(x => x.BeforeJson)
+            .HasColumnType("text");
+
+        builder.Property(x => x.AfterJson)
+            .HasColumnType("text");
+
+        builder.Property(x => x.Reason)
+            .HasMaxLength(1000);
+
+        builder.Property(x => x.CreatedAt)
+            .IsRequired();
+
+        builder.HasIndex(x => x.CreatedAt);
+        builder.HasIndex(x => x.ActorId);
+        builder.HasIndex(x => x.Action);
+        builder.HasIndex(x => new { x.TargetType, x.TargetId });
+    }
+}
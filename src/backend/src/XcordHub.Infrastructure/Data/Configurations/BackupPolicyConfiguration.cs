@@ -17,11 +17,20 @@ public sealed class BackupPolicyConfiguration : IEntityTypeConfiguration<BackupP
             .HasMaxLength(20)
             .IsRequired();
 
+        builder.Property(x => x.DatabaseFrequency)
+            .HasConversion<string>()
+            .HasMaxLength(20);
+
         builder.HasOne(x => x.ManagedInstance)
             .WithOne(x => x.BackupPolicy)
             .HasForeignKey<BackupPolicy>(x => x.ManagedInstanceId)
             .OnDelete(DeleteBehavior.Cascade);
 
+        builder.HasOne(x => x.Template)
+            .WithMany()
+            .HasForeignKey(x => x.BackupPolicyTemplateId)
+            .OnDelete(DeleteBehavior.SetNull);
+
         builder.HasIndex(x => x.ManagedInstanceId)
             .IsUnique();
 
@@ -0,0 +1,31 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using XcordHub.Entities;
+
+namespace XcordHub.Infrastructure.Data.Configurations;
+
+public sealed class BackupPolicyTemplateConfiguration : IEntityTypeConfiguration<BackupPolicyTemplate>
+{
+    public void Configure(EntityTypeBuilder<BackupPolicyTemplate> builder)
+    {
+        builder.ToTable("backup_policy_templates");
+
+        builder.HasKey(x => x.Id);
+
+        builder.Property(x => x.Name)
+            .HasMaxLength(100)
+            .IsRequired();
+
+        builder.Property(x => x.Frequency)
+            .HasConversion<string>()
+            .HasMaxLength(20)
+            .IsRequired();
+
+        builder.Property(x => x.DatabaseFrequency)
+            .HasConversion<string>()
+            .HasMaxLength(20);
+
+        builder.HasIndex(x => x.Name)
+            .IsUnique();
+    }
+}
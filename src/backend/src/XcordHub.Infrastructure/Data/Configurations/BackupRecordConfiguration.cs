@@ -29,6 +29,17 @@ public sealed class BackupRecordConfiguration : IEntityTypeConfiguration<BackupR
         builder.Property(x => x.ErrorMessage)
             .HasMaxLength(2000);
 
+        builder.Property(x => x.Checksum)
+            .HasMaxLength(64);
+
+        builder.Property(x => x.VerificationStatus)
+            .HasConversion<string>()
+            .HasMaxLength(20)
+            .IsRequired();
+
+        builder.Property(x => x.VerificationError)
+            .HasMaxLength(2000);
+
         builder.HasQueryFilter(x => x.DeletedAt == null);
 
         builder.HasOne(x => x.ManagedInstance)
@@ -0,0 +1,25 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using XcordHub.Entities;
+
+namespace XcordHub.Infrastructure.Data.Configurations;
+
+public sealed class BackupTemplateTierConfiguration : IEntityTypeConfiguration<BackupTemplateTier>
+{
+    public void Configure(EntityTypeBuilder<BackupTemplateTier> builder)
+    {
+        builder.ToTable("backup_template_tiers");
+
+        builder.HasKey(x => x.Tier);
+
+        builder.Property(x => x.Tier)
+            .ValueGeneratedNever();
+
+        builder.HasOne(x => x.Template)
+            .WithMany(x => x.Tiers)
+            .HasForeignKey(x => x.BackupPolicyTemplateId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasIndex(x => x.BackupPolicyTemplateId);
+    }
+}
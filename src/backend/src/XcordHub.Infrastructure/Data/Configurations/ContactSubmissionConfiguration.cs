@@ -25,15 +25,44 @@ public sealed class ContactSubmissionConfiguration : IEntityTypeConfiguration<Co
 
         builder.Property(x => x.ExpectedMemberCount);
 
+        builder.Property(x => x.Subject)
+            .IsRequired()
+            .HasMaxLength(200);
+
         builder.Property(x => x.Message)
             .IsRequired()
             .HasMaxLength(2000);
 
+        builder.Property(x => x.Status)
+            .IsRequired()
+            .HasConversion<string>()
+            .HasMaxLength(20);
+
         builder.Property(x => x.CreatedAt)
             .IsRequired();
 
+        builder.Property(x => x.UpdatedAt)
+            .IsRequired();
+
         builder.Property(x => x.DeletedAt);
 
+        builder.HasOne(x => x.Submitter)
+            .WithMany()
+            .HasForeignKey(x => x.SubmitterId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.HasOne(x => x.ManagedInstance)
+            .WithMany()
+            .HasForeignKey(x => x.ManagedInstanceId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.HasOne(x => x.Assignee)
+            .WithMany()
+            .HasForeignKey(x => x.AssigneeId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.HasIndex(x => new { x.Status, x.UpdatedAt });
+
         builder.HasQueryFilter(x => x.DeletedAt == null);
     }
 }
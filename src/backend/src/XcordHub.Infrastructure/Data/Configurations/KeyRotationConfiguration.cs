@@ -0,0 +1,54 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using XcordHub.Entities;
+
+namespace XcordHub.Infrastructure.Data.Configurations;
+
+public sealed class KeyRotationConfiguration : IEntityTypeConfiguration<KeyRotation>
+{
+    public void Configure(EntityTypeBuilder<KeyRotation> builder)
+    {
+        builder.ToTable("key_rotations");
+
+        builder.HasKey(x => x.Id);
+
+        builder.Property(x => x.FromVersion)
+            .IsRequired();
+
+        builder.Property(x => x.ToVersion)
+            .IsRequired();
+
+        builder.Property(x => x.Status)
+            .IsRequired()
+            .HasConversion<string>()
+            .HasMaxLength(20);
+
+        builder.Property(x => x.ValuesToReEncrypt)
+            .IsRequired();
+
+        builder.Property(x => x.ValuesReEncrypted)
+            .IsRequired();
+
+        builder.Property(x => x.Error)
+            .HasMaxLength(2000);
+
+        builder.Property(x => x.InitiatedBy)
+            .IsRequired();
+
+        builder.Property(x => x.StartedAt)
+            .IsRequired();
+
+        builder.Property(x => x.CompletedAt);
+
+        builder.HasIndex(x => x.Status);
+
+        builder.HasIndex(x => x.StartedAt);
+
+        builder.HasQueryFilter(x => x.Initiator!.DeletedAt == null);
+
+        builder.HasOne(x => x.Initiator)
+            .WithMany()
+            .HasForeignKey(x => x.InitiatedBy)
+            .OnDelete(DeleteBehavior.Restrict);
+    }
+}
@@ -0,0 +1,46 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using XcordHub.Entities;
+
+namespace XcordHub.Infrastructure.Data.Configurations;
+
+public sealed class RestoreOperationConfiguration : IEntityTypeConfiguration<RestoreOperation>
+{
+    public void Configure(EntityTypeBuilder<RestoreOperation> builder)
+    {
+        builder.ToTable("restore_operations");
+
+        builder.HasKey(x => x.Id);
+
+        builder.Property(x => x.Status)
+            .IsRequired()
+            .HasConversion<string>()
+            .HasMaxLength(20);
+
+        builder.Property(x => x.PointInTime)
+            .IsRequired();
+
+        builder.Property(x => x.TakeSafetyBackup)
+            .IsRequired();
+
+        builder.Property(x => x.Error)
+            .HasMaxLength(2000);
+
+        builder.Property(x => x.InitiatedBy)
+            .IsRequired();
+
+        builder.Property(x => x.StartedAt)
+            .IsRequired();
+
+        builder.HasIndex(x => new { x.ManagedInstanceId, x.StartedAt });
+
+        builder.HasIndex(x => x.Status);
+
+        builder.HasQueryFilter(x => x.ManagedInstance!.DeletedAt == null);
+
+        builder.HasOne(x => x.ManagedInstance)
+            .WithMany(x => x.RestoreOperations)
+            .HasForeignKey(x => x.ManagedInstanceId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
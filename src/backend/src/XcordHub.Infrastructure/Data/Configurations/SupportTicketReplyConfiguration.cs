@@ -0,0 +1,40 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using XcordHub.Entities;
+
+namespace XcordHub.Infrastructure.Data.Configurations;
+
+public sealed class SupportTicketReplyConfiguration : IEntityTypeConfiguration<SupportTicketReply>
+{
+    public void Configure(EntityTypeBuilder<SupportTicketReply> builder)
+    {
+        builder.ToTable("support_ticket_replies");
+
+        builder.HasKey(x => x.Id);
+
+        builder.Property(x => x.AuthorName)
+            .IsRequired()
+            .HasMaxLength(100);
+
+        builder.Property(x => x.Body)
+            .IsRequired()
+            .HasMaxLength(2000);
+
+        builder.Property(x => x.CreatedAt)
+            .IsRequired();
+
+        builder.HasOne(x => x.ContactSubmission)
+            .WithMany(x => x.Replies)
+            .HasForeignKey(x => x.ContactSubmissionId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(x => x.Author)
+            .WithMany()
+            .HasForeignKey(x => x.AuthorId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.HasIndex(x => new { x.ContactSubmissionId, x.CreatedAt });
+
+        builder.HasQueryFilter(x => x.ContactSubmission.DeletedAt == null);
+    }
+}
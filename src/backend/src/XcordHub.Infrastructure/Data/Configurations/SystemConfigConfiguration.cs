@@ -18,6 +18,13 @@ public sealed class SystemConfigConfiguration : IEntityTypeConfiguration<SystemC
         builder.Property(x => x.PaidServersDisabled)
             .IsRequired();
 
+        builder.Property(x => x.RequireAdminTwoFactor)
+            .IsRequired();
+
+        builder.Property(x => x.AutoRollbackWindowMinutes)
+            .IsRequired()
+            .HasDefaultValue(0);
+
         builder.Property(x => x.UpdatedAt)
             .IsRequired();
     }
@@ -42,8 +42,17 @@ public sealed class UpgradeEventConfiguration : IEntityTypeConfiguration<Upgrade
 
         builder.Property(x => x.CompletedAt);
 
+        builder.Property(x => x.RollbackOfEventId);
+
+        builder.Property(x => x.RestoreBackupId);
+
+        builder.Property(x => x.RollbackReason)
+            .HasMaxLength(500);
+
         builder.HasIndex(x => x.ManagedInstanceId);
 
+        builder.HasIndex(x => x.RollbackOfEventId);
+
         builder.HasIndex(x => x.UpgradeRolloutId);
 
         builder.HasQueryFilter(x => x.ManagedInstance!.DeletedAt == null);
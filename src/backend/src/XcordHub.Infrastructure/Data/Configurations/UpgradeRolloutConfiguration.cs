@@ -55,6 +55,25 @@ public sealed class UpgradeRolloutConfiguration : IEntityTypeConfiguration<Upgra
         builder.Property(x => x.InitiatedBy)
             .IsRequired();
 
+        builder.Property(x => x.Force)
+            .IsRequired()
+            .HasDefaultValue(false);
+
+        builder.Property(x => x.CurrentStage)
+            .IsRequired()
+            .HasDefaultValue(0);
+
+        builder.Property(x => x.StageGateAt);
+
+        builder.Property(x => x.HealthGateMaxFailures)
+            .IsRequired()
+            .HasDefaultValue(0);
+
+        builder.Property(x => x.HealthGateMaxResponseTimeMs);
+
+        builder.Property(x => x.PauseReason)
+            .HasMaxLength(2000);
+
         builder.HasIndex(x => x.InitiatedBy);
 
         builder.HasIndex(x => x.Status);
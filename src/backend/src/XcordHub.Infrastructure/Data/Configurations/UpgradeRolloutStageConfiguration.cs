@@ -0,0 +1,38 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using XcordHub.Entities;
+
+namespace XcordHub.Infrastructure.Data.Configurations;
+
+public sealed class UpgradeRolloutStageConfiguration : IEntityTypeConfiguration<UpgradeRolloutStage>
+{
+    public void Configure(EntityTypeBuilder<UpgradeRolloutStage> builder)
+    {
+        builder.ToTable("upgrade_rollout_stages");
+
+        builder.HasKey(x => x.Id);
+
+        builder.Property(x => x.UpgradeRolloutId)
+            .IsRequired();
+
+        builder.Property(x => x.Position)
+            .IsRequired();
+
+        builder.Property(x => x.InstanceCount);
+
+        builder.Property(x => x.Percentage);
+
+        builder.Property(x => x.WaitMinutes)
+            .IsRequired();
+
+        builder.HasIndex(x => new { x.UpgradeRolloutId, x.Position })
+            .IsUnique();
+
+        builder.HasQueryFilter(x => x.Rollout!.Initiator!.DeletedAt == null);
+
+        builder.HasOne(x => x.Rollout)
+            .WithMany(x => x.Stages)
+            .HasForeignKey(x => x.UpgradeRolloutId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
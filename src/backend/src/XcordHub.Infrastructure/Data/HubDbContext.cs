@@ -28,12 +28,15 @@ public sealed class HubDbContext : DbContext
     public DbSet<FederationToken> FederationTokens => Set<FederationToken>();
     public DbSet<MailingListEntry> MailingListEntries => Set<MailingListEntry>();
     public DbSet<ContactSubmission> ContactSubmissions => Set<ContactSubmission>();
+    public DbSet<SupportTicketReply> SupportTicketReplies => Set<SupportTicketReply>();
     public DbSet<LoginAttempt> LoginAttempts => Set<LoginAttempt>();
+    public DbSet<AuditLogEntry> AuditLogEntries => Set<AuditLogEntry>();
 
     // Upgrade management
     public DbSet<AvailableVersion> AvailableVersions => Set<AvailableVersion>();
     public DbSet<UpgradeRollout> UpgradeRollouts => Set<UpgradeRollout>();
     public DbSet<UpgradeEvent> UpgradeEvents => Set<UpgradeEvent>();
+    public DbSet<UpgradeRolloutStage> UpgradeRolloutStages => Set<UpgradeRolloutStage>();
 
     // Revenue tracking
     public DbSet<InstanceRevenueConfig> InstanceRevenueConfigs => Set<InstanceRevenueConfig>();
@@ -41,7 +44,10 @@ public sealed class HubDbContext : DbContext
 
     // Backup management
     public DbSet<BackupPolicy> BackupPolicies => Set<BackupPolicy>();
+    public DbSet<BackupPolicyTemplate> BackupPolicyTemplates => Set<BackupPolicyTemplate>();
+    public DbSet<BackupTemplateTier> BackupTemplateTiers => Set<BackupTemplateTier>();
     public DbSet<BackupRecord> BackupRecords => Set<BackupRecord>();
+    public DbSet<RestoreOperation> RestoreOperations => Set<RestoreOperation>();
 
     // Uptime tracking
     public DbSet<UptimeInterval> UptimeIntervals => Set<UptimeInterval>();
@@ -58,6 +64,7 @@ public sealed class HubDbContext : DbContext
 
     // Versioned, KEK-wrapped DEKs for transparent multi-key decryption / rotation.
     public DbSet<EncryptedDataKey> EncryptedDataKeys => Set<EncryptedDataKey>();
+    public DbSet<KeyRotation> KeyRotations => Set<KeyRotation>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
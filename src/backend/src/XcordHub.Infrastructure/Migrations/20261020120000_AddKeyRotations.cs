@@ -0,0 +1,65 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace XcordHub.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddKeyRotations : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "key_rotations",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    FromVersion = table.Column<int>(type: "integer", nullable: false),
+                    ToVersion = table.Column<int>(type: "integer", nullable: false),
+                    Status = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    ValuesToReEncrypt = table.Column<int>(type: "integer", nullable: false),
+                    ValuesReEncrypted = table.Column<int>(type: "integer", nullable: false),
+                    Error = table.Column<string>(type: "character varying(2000)", maxLength: 2000, nullable: true),
+                    InitiatedBy = table.Column<long>(type: "bigint", nullable: false),
+                    StartedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false),
+                    CompletedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_key_rotations", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_key_rotations_hub_users_InitiatedBy",
+                        column: x => x.InitiatedBy,
+                        principalTable: "hub_users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_key_rotations_InitiatedBy",
+                table: "key_rotations",
+                column: "InitiatedBy");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_key_rotations_StartedAt",
+                table: "key_rotations",
+                column: "StartedAt");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_key_rotations_Status",
+                table: "key_rotations",
+                column: "Status");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "key_rotations");
+        }
+    }
+}
@@ -0,0 +1,116 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace XcordHub.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCanaryRolloutStages : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "CurrentStage",
+                table: "upgrade_rollouts",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "Force",
+                table: "upgrade_rollouts",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<int>(
+                name: "HealthGateMaxFailures",
+                table: "upgrade_rollouts",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "HealthGateMaxResponseTimeMs",
+                table: "upgrade_rollouts",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "PauseReason",
+                table: "upgrade_rollouts",
+                type: "character varying(2000)",
+                maxLength: 2000,
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTimeOffset>(
+                name: "StageGateAt",
+                table: "upgrade_rollouts",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "upgrade_rollout_stages",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    UpgradeRolloutId = table.Column<long>(type: "bigint", nullable: false),
+                    Position = table.Column<int>(type: "integer", nullable: false),
+                    InstanceCount = table.Column<int>(type: "integer", nullable: true),
+                    Percentage = table.Column<int>(type: "integer", nullable: true),
+                    WaitMinutes = table.Column<int>(type: "integer", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_upgrade_rollout_stages", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_upgrade_rollout_stages_upgrade_rollouts_UpgradeRolloutId",
+                        column: x => x.UpgradeRolloutId,
+                        principalTable: "upgrade_rollouts",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_upgrade_rollout_stages_UpgradeRolloutId_Position",
+                table: "upgrade_rollout_stages",
+                columns: new[] { "UpgradeRolloutId", "Position" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "upgrade_rollout_stages");
+
+            migrationBuilder.DropColumn(
+                name: "CurrentStage",
+                table: "upgrade_rollouts");
+
+            migrationBuilder.DropColumn(
+                name: "Force",
+                table: "upgrade_rollouts");
+
+            migrationBuilder.DropColumn(
+                name: "HealthGateMaxFailures",
+                table: "upgrade_rollouts");
+
+            migrationBuilder.DropColumn(
+                name: "HealthGateMaxResponseTimeMs",
+                table: "upgrade_rollouts");
+
+            migrationBuilder.DropColumn(
+                name: "PauseReason",
+                table: "upgrade_rollouts");
+
+            migrationBuilder.DropColumn(
+                name: "StageGateAt",
+                table: "upgrade_rollouts");
+        }
+    }
+}
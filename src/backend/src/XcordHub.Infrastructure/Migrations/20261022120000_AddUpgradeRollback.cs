@@ -0,0 +1,69 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace XcordHub.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddUpgradeRollback : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<long>(
+                name: "RestoreBackupId",
+                table: "upgrade_events",
+                type: "bigint",
+                nullable: true);
+
+            migrationBuilder.AddColumn<long>(
+                name: "RollbackOfEventId",
+                table: "upgrade_events",
+                type: "bigint",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "RollbackReason",
+                table: "upgrade_events",
+                type: "character varying(500)",
+                maxLength: 500,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "AutoRollbackWindowMinutes",
+                table: "system_config",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_upgrade_events_RollbackOfEventId",
+                table: "upgrade_events",
+                column: "RollbackOfEventId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_upgrade_events_RollbackOfEventId",
+                table: "upgrade_events");
+
+            migrationBuilder.DropColumn(
+                name: "RestoreBackupId",
+                table: "upgrade_events");
+
+            migrationBuilder.DropColumn(
+                name: "RollbackOfEventId",
+                table: "upgrade_events");
+
+            migrationBuilder.DropColumn(
+                name: "RollbackReason",
+                table: "upgrade_events");
+
+            migrationBuilder.DropColumn(
+                name: "AutoRollbackWindowMinutes",
+                table: "system_config");
+        }
+    }
+}
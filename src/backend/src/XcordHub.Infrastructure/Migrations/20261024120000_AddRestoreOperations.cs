@@ -0,0 +1,64 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace XcordHub.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRestoreOperations : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "restore_operations",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    ManagedInstanceId = table.Column<long>(type: "bigint", nullable: false),
+                    Status = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    PointInTime = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false),
+                    DatabaseBackupId = table.Column<long>(type: "bigint", nullable: true),
+                    FilesBackupId = table.Column<long>(type: "bigint", nullable: true),
+                    RedisBackupId = table.Column<long>(type: "bigint", nullable: true),
+                    TakeSafetyBackup = table.Column<bool>(type: "boolean", nullable: false),
+                    SafetyBackupId = table.Column<long>(type: "bigint", nullable: true),
+                    Error = table.Column<string>(type: "character varying(2000)", maxLength: 2000, nullable: true),
+                    InitiatedBy = table.Column<long>(type: "bigint", nullable: false),
+                    StartedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false),
+                    RestoredAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: true),
+                    CompletedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_restore_operations", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_restore_operations_managed_instances_ManagedInstanceId",
+                        column: x => x.ManagedInstanceId,
+                        principalTable: "managed_instances",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_restore_operations_ManagedInstanceId_StartedAt",
+                table: "restore_operations",
+                columns: new[] { "ManagedInstanceId", "StartedAt" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_restore_operations_Status",
+                table: "restore_operations",
+                column: "Status");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "restore_operations");
+        }
+    }
+}
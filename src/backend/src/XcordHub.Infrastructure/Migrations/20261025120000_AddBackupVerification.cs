@@ -0,0 +1,84 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace XcordHub.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBackupVerification : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Checksum",
+                table: "backup_records",
+                type: "character varying(64)",
+                maxLength: 64,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "VerificationStatus",
+                table: "backup_records",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: false,
+                defaultValue: "Unverified");
+
+            migrationBuilder.AddColumn<DateTimeOffset>(
+                name: "VerifiedAt",
+                table: "backup_records",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "VerificationError",
+                table: "backup_records",
+                type: "character varying(2000)",
+                maxLength: 2000,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "VerifySampleSize",
+                table: "backup_policies",
+                type: "integer",
+                nullable: false,
+                defaultValue: 1);
+
+            migrationBuilder.AddColumn<DateTimeOffset>(
+                name: "LastVerifiedAt",
+                table: "backup_policies",
+                type: "timestamp with time zone",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Checksum",
+                table: "backup_records");
+
+            migrationBuilder.DropColumn(
+                name: "VerificationStatus",
+                table: "backup_records");
+
+            migrationBuilder.DropColumn(
+                name: "VerifiedAt",
+                table: "backup_records");
+
+            migrationBuilder.DropColumn(
+                name: "VerificationError",
+                table: "backup_records");
+
+            migrationBuilder.DropColumn(
+                name: "VerifySampleSize",
+                table: "backup_policies");
+
+            migrationBuilder.DropColumn(
+                name: "LastVerifiedAt",
+                table: "backup_policies");
+        }
+    }
+}
@@ -0,0 +1,130 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace XcordHub.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBackupPolicyTemplates : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<long>(
+                name: "BackupPolicyTemplateId",
+                table: "backup_policies",
+                type: "bigint",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "DatabaseFrequency",
+                table: "backup_policies",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "IsOverridden",
+                table: "backup_policies",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.CreateTable(
+                name: "backup_policy_templates",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    Name = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    Frequency = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    DatabaseFrequency = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: true),
+                    RetentionDays = table.Column<int>(type: "integer", nullable: false),
+                    BackupDatabase = table.Column<bool>(type: "boolean", nullable: false),
+                    BackupFiles = table.Column<bool>(type: "boolean", nullable: false),
+                    BackupRedis = table.Column<bool>(type: "boolean", nullable: false),
+                    VerifySampleSize = table.Column<int>(type: "integer", nullable: false),
+                    CreatedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false),
+                    UpdatedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_backup_policy_templates", x => x.Id);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "backup_template_tiers",
+                columns: table => new
+                {
+                    Tier = table.Column<int>(type: "integer", nullable: false),
+                    BackupPolicyTemplateId = table.Column<long>(type: "bigint", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_backup_template_tiers", x => x.Tier);
+                    table.ForeignKey(
+                        name: "FK_backup_template_tiers_backup_policy_templates_BackupPolicyTemplateId",
+                        column: x => x.BackupPolicyTemplateId,
+                        principalTable: "backup_policy_templates",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_backup_policies_BackupPolicyTemplateId",
+                table: "backup_policies",
+                column: "BackupPolicyTemplateId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_backup_policy_templates_Name",
+                table: "backup_policy_templates",
+                column: "Name",
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_backup_template_tiers_BackupPolicyTemplateId",
+                table: "backup_template_tiers",
+                column: "BackupPolicyTemplateId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_backup_policies_backup_policy_templates_BackupPolicyTemplateId",
+                table: "backup_policies",
+                column: "BackupPolicyTemplateId",
+                principalTable: "backup_policy_templates",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_backup_policies_backup_policy_templates_BackupPolicyTemplateId",
+                table: "backup_policies");
+
+            migrationBuilder.DropTable(
+                name: "backup_template_tiers");
+
+            migrationBuilder.DropTable(
+                name: "backup_policy_templates");
+
+            migrationBuilder.DropIndex(
+                name: "IX_backup_policies_BackupPolicyTemplateId",
+                table: "backup_policies");
+
+            migrationBuilder.DropColumn(
+                name: "BackupPolicyTemplateId",
+                table: "backup_policies");
+
+            migrationBuilder.DropColumn(
+                name: "DatabaseFrequency",
+                table: "backup_policies");
+
+            migrationBuilder.DropColumn(
+                name: "IsOverridden",
+                table: "backup_policies");
+        }
+    }
+}
@@ -0,0 +1,203 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace XcordHub.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSupportTickets : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<long>(
+                name: "AssigneeId",
+                table: "contact_submissions",
+                type: "bigint",
+                nullable: true);
+
+            migrationBuilder.AddColumn<long>(
+                name: "ManagedInstanceId",
+                table: "contact_submissions",
+                type: "bigint",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "Status",
+                table: "contact_submissions",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: false,
+                defaultValue: "Open");
+
+            migrationBuilder.AddColumn<string>(
+                name: "Subject",
+                table: "contact_submissions",
+                type: "character varying(200)",
+                maxLength: 200,
+                nullable: false,
+                defaultValue: "Enterprise inquiry");
+
+            migrationBuilder.AddColumn<long>(
+                name: "SubmitterId",
+                table: "contact_submissions",
+                type: "bigint",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTimeOffset>(
+                name: "UpdatedAt",
+                table: "contact_submissions",
+                type: "timestamp with time zone",
+                nullable: false,
+                defaultValue: new DateTimeOffset(new DateTime(1, 1, 1, 0, 0, 0, 0, DateTimeKind.Unspecified), new TimeSpan(0, 0, 0, 0, 0)));
+
+            // Submissions from before tickets existed were last touched when they arrived
+            migrationBuilder.Sql("UPDATE contact_submissions SET \"UpdatedAt\" = \"CreatedAt\";");
+
+            migrationBuilder.CreateTable(
+                name: "support_ticket_replies",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    ContactSubmissionId = table.Column<long>(type: "bigint", nullable: false),
+                    AuthorId = table.Column<long>(type: "bigint", nullable: true),
+                    AuthorName = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    IsStaff = table.Column<bool>(type: "boolean", nullable: false),
+                    Body = table.Column<string>(type: "character varying(2000)", maxLength: 2000, nullable: false),
+                    CreatedAt = table.Column<DateTimeOffset>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_support_ticket_replies", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_support_ticket_replies_contact_submissions_ContactSubmissionId",
+                        column: x => x.ContactSubmissionId,
+                        principalTable: "contact_submissions",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_support_ticket_replies_hub_users_AuthorId",
+                        column: x => x.AuthorId,
+                        principalTable: "hub_users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_contact_submissions_AssigneeId",
+                table: "contact_submissions",
+                column: "AssigneeId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_contact_submissions_ManagedInstanceId",
+                table: "contact_submissions",
+                column: "ManagedInstanceId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_contact_submissions_Status_UpdatedAt",
+                table: "contact_submissions",
+                columns: new[] { "Status", "UpdatedAt" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_contact_submissions_SubmitterId",
+                table: "contact_submissions",
+                column: "SubmitterId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_support_ticket_replies_AuthorId",
+                table: "support_ticket_replies",
+                column: "AuthorId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_support_ticket_replies_ContactSubmissionId_CreatedAt",
+                table: "support_ticket_replies",
+                columns: new[] { "ContactSubmissionId", "CreatedAt" });
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_contact_submissions_hub_users_AssigneeId",
+                table: "contact_submissions",
+                column: "AssigneeId",
+                principalTable: "hub_users",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_contact_submissions_hub_users_SubmitterId",
+                table: "contact_submissions",
+                column: "SubmitterId",
+                principalTable: "hub_users",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_contact_submissions_managed_instances_ManagedInstanceId",
+                table: "contact_submissions",
+                column: "ManagedInstanceId",
+                principalTable: "managed_instances",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_contact_submissions_hub_users_AssigneeId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropForeignKey(
+                name: "FK_contact_submissions_hub_users_SubmitterId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropForeignKey(
+                name: "FK_contact_submissions_managed_instances_ManagedInstanceId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropTable(
+                name: "support_ticket_replies");
+
+            migrationBuilder.DropIndex(
+                name: "IX_contact_submissions_AssigneeId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropIndex(
+                name: "IX_contact_submissions_ManagedInstanceId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropIndex(
+                name: "IX_contact_submissions_Status_UpdatedAt",
+                table: "contact_submissions");
+
+            migrationBuilder.DropIndex(
+                name: "IX_contact_submissions_SubmitterId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropColumn(
+                name: "AssigneeId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropColumn(
+                name: "ManagedInstanceId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropColumn(
+                name: "Status",
+                table: "contact_submissions");
+
+            migrationBuilder.DropColumn(
+                name: "Subject",
+                table: "contact_submissions");
+
+            migrationBuilder.DropColumn(
+                name: "SubmitterId",
+                table: "contact_submissions");
+
+            migrationBuilder.DropColumn(
+                name: "UpdatedAt",
+                table: "contact_submissions");
+        }
+    }
+}
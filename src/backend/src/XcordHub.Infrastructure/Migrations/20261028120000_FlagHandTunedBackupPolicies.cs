@@ -0,0 +1,22 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace XcordHub.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class FlagHandTunedBackupPolicies : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            // Policies edited since provisioning were tuned by hand, so applying a template keeps them
+            migrationBuilder.Sql("UPDATE backup_policies SET \"IsOverridden\" = true WHERE \"UpdatedAt\" > \"CreatedAt\";");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+        }
+    }
+}
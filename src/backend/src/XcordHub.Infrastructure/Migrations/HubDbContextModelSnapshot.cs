@@ -22,6 +22,67 @@ namespace XcordHub.Infrastructure.Migrations
 
             NpgsqlModelBuilderExtensions.UseIdentityByDefaultColumns(modelBuilder);
 
+            modelBuilder.Entity("XcordHub.Entities.AuditLogEntry", b =>
+                {
+                    b.Property<long>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("Id"));
+
+                    b.Property<string>("Action")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<long?>("ActorId")
+                        .HasColumnType("bigint");
+
+                    b.Property<string>("ActorName")
+                        .IsRequired()
+                        .HasMaxLength(255)
+                        .HasColumnType("character varying(255)");
+
+                    b.Property<string>("AfterJson")
+                        .HasColumnType("text");
+
+                    b.Property<string>("BeforeJson")
+                        .HasColumnType("text");
+
+                    b.Property<DateTimeOffset>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("IpAddress")
+                        .IsRequired()
+                        .HasMaxLength(45)
+                        .HasColumnType("character varying(45)");
+
+                    b.Property<string>("Reason")
+                        .HasMaxLength(1000)
+                        .HasColumnType("character varying(1000)");
+
+                    b.Property<string>("TargetId")
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<string>("TargetType")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("Action");
+
+                    b.HasIndex("ActorId");
+
+                    b.HasIndex("CreatedAt");
+
+                    b.HasIndex("TargetType", "TargetId");
+
+                    b.ToTable("audit_log_entries", (string)null);
+                });
+
             modelBuilder.Entity("XcordHub.Entities.AvailableVersion", b =>
                 {
                     b.Property<long>("Id")
@@ -84,12 +145,19 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Property<bool>("BackupFiles")
                         .HasColumnType("boolean");
 
+                    b.Property<long?>("BackupPolicyTemplateId")
+                        .HasColumnType("bigint");
+
                     b.Property<bool>("BackupRedis")
                         .HasColumnType("boolean");
 
                     b.Property<DateTimeOffset>("CreatedAt")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<string>("DatabaseFrequency")
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
                     b.Property<bool>("Enabled")
                         .HasColumnType("boolean");
 
@@ -98,6 +166,12 @@ namespace XcordHub.Infrastructure.Migrations
                         .HasMaxLength(20)
                         .HasColumnType("character varying(20)");
 
+                    b.Property<bool>("IsOverridden")
+                        .HasColumnType("boolean");
+
+                    b.Property<DateTimeOffset?>("LastVerifiedAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<long>("ManagedInstanceId")
                         .HasColumnType("bigint");
 
@@ -107,14 +181,70 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Property<DateTimeOffset>("UpdatedAt")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<int>("VerifySampleSize")
+                        .HasColumnType("integer");
+
                     b.HasKey("Id");
 
+                    b.HasIndex("BackupPolicyTemplateId");
+
                     b.HasIndex("ManagedInstanceId")
                         .IsUnique();
 
                     b.ToTable("backup_policies", (string)null);
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.BackupPolicyTemplate", b =>
+                {
+                    b.Property<long>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("Id"));
+
+                    b.Property<bool>("BackupDatabase")
+                        .HasColumnType("boolean");
+
+                    b.Property<bool>("BackupFiles")
+                        .HasColumnType("boolean");
+
+                    b.Property<bool>("BackupRedis")
+                        .HasColumnType("boolean");
+
+                    b.Property<DateTimeOffset>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("DatabaseFrequency")
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<string>("Frequency")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<int>("RetentionDays")
+                        .HasColumnType("integer");
+
+                    b.Property<DateTimeOffset>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<int>("VerifySampleSize")
+                        .HasColumnType("integer");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("Name")
+                        .IsUnique();
+
+                    b.ToTable("backup_policy_templates", (string)null);
+                });
+
             modelBuilder.Entity("XcordHub.Entities.BackupRecord", b =>
                 {
                     b.Property<long>("Id")
@@ -123,6 +253,10 @@ namespace XcordHub.Infrastructure.Migrations
 
                     NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("Id"));
 
+                    b.Property<string>("Checksum")
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)");
+
                     b.Property<DateTimeOffset?>("CompletedAt")
                         .HasColumnType("timestamp with time zone");
 
@@ -157,6 +291,18 @@ namespace XcordHub.Infrastructure.Migrations
                         .HasMaxLength(500)
                         .HasColumnType("character varying(500)");
 
+                    b.Property<string>("VerificationError")
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<string>("VerificationStatus")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<DateTimeOffset?>("VerifiedAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.HasKey("Id");
 
                     b.HasIndex("ManagedInstanceId", "StartedAt");
@@ -164,6 +310,21 @@ namespace XcordHub.Infrastructure.Migrations
                     b.ToTable("backup_records", (string)null);
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.BackupTemplateTier", b =>
+                {
+                    b.Property<int>("Tier")
+                        .HasColumnType("integer");
+
+                    b.Property<long>("BackupPolicyTemplateId")
+                        .HasColumnType("bigint");
+
+                    b.HasKey("Tier");
+
+                    b.HasIndex("BackupPolicyTemplateId");
+
+                    b.ToTable("backup_template_tiers", (string)null);
+                });
+
             modelBuilder.Entity("XcordHub.Entities.ContactSubmission", b =>
                 {
                     b.Property<long>("Id")
@@ -172,6 +333,9 @@ namespace XcordHub.Infrastructure.Migrations
 
                     NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("Id"));
 
+                    b.Property<long?>("AssigneeId")
+                        .HasColumnType("bigint");
+
                     b.Property<string>("Company")
                         .IsRequired()
                         .HasMaxLength(200)
@@ -191,6 +355,9 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Property<int?>("ExpectedMemberCount")
                         .HasColumnType("integer");
 
+                    b.Property<long?>("ManagedInstanceId")
+                        .HasColumnType("bigint");
+
                     b.Property<string>("Message")
                         .IsRequired()
                         .HasMaxLength(2000)
@@ -201,8 +368,32 @@ namespace XcordHub.Infrastructure.Migrations
                         .HasMaxLength(100)
                         .HasColumnType("character varying(100)");
 
+                    b.Property<string>("Status")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<string>("Subject")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)");
+
+                    b.Property<long?>("SubmitterId")
+                        .HasColumnType("bigint");
+
+                    b.Property<DateTimeOffset>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.HasKey("Id");
 
+                    b.HasIndex("AssigneeId");
+
+                    b.HasIndex("ManagedInstanceId");
+
+                    b.HasIndex("SubmitterId");
+
+                    b.HasIndex("Status", "UpdatedAt");
+
                     b.ToTable("contact_submissions", (string)null);
                 });
 
@@ -923,6 +1114,65 @@ namespace XcordHub.Infrastructure.Migrations
                     b.ToTable("refresh_tokens", (string)null);
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.RestoreOperation", b =>
+                {
+                    b.Property<long>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("Id"));
+
+                    b.Property<DateTimeOffset?>("CompletedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<long?>("DatabaseBackupId")
+                        .HasColumnType("bigint");
+
+                    b.Property<string>("Error")
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<long?>("FilesBackupId")
+                        .HasColumnType("bigint");
+
+                    b.Property<long>("InitiatedBy")
+                        .HasColumnType("bigint");
+
+                    b.Property<long>("ManagedInstanceId")
+                        .HasColumnType("bigint");
+
+                    b.Property<DateTimeOffset>("PointInTime")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<long?>("RedisBackupId")
+                        .HasColumnType("bigint");
+
+                    b.Property<DateTimeOffset?>("RestoredAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<long?>("SafetyBackupId")
+                        .HasColumnType("bigint");
+
+                    b.Property<DateTimeOffset>("StartedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("Status")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<bool>("TakeSafetyBackup")
+                        .HasColumnType("boolean");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("ManagedInstanceId", "StartedAt");
+
+                    b.HasIndex("Status");
+
+                    b.ToTable("restore_operations", (string)null);
+                });
+
             modelBuilder.Entity("XcordHub.Entities.ServerList", b =>
                 {
                     b.Property<string>("HubKey")
@@ -979,14 +1229,61 @@ namespace XcordHub.Infrastructure.Migrations
                     b.ToTable("server_list_entries", (string)null);
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.SupportTicketReply", b =>
+                {
+                    b.Property<long>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("Id"));
+
+                    b.Property<long?>("AuthorId")
+                        .HasColumnType("bigint");
+
+                    b.Property<string>("AuthorName")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<string>("Body")
+                        .IsRequired()
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<long>("ContactSubmissionId")
+                        .HasColumnType("bigint");
+
+                    b.Property<DateTimeOffset>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<bool>("IsStaff")
+                        .HasColumnType("boolean");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("AuthorId");
+
+                    b.HasIndex("ContactSubmissionId", "CreatedAt");
+
+                    b.ToTable("support_ticket_replies", (string)null);
+                });
+
             modelBuilder.Entity("XcordHub.Entities.SystemConfig", b =>
                 {
                     b.Property<long>("Id")
                         .HasColumnType("bigint");
 
+                    b.Property<int>("AutoRollbackWindowMinutes")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasDefaultValue(0);
+
                     b.Property<bool>("PaidServersDisabled")
                         .HasColumnType("boolean");
 
+                    b.Property<bool>("RequireAdminTwoFactor")
+                        .HasColumnType("boolean");
+
                     b.Property<DateTimeOffset>("UpdatedAt")
                         .HasColumnType("timestamp with time zone");
 
@@ -1042,6 +1339,55 @@ namespace XcordHub.Infrastructure.Migrations
                     b.ToTable("encrypted_data_keys", (string)null);
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.KeyRotation", b =>
+                {
+                    b.Property<long>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("Id"));
+
+                    b.Property<DateTimeOffset?>("CompletedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("Error")
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<int>("FromVersion")
+                        .HasColumnType("integer");
+
+                    b.Property<long>("InitiatedBy")
+                        .HasColumnType("bigint");
+
+                    b.Property<DateTimeOffset>("StartedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("Status")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<int>("ToVersion")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("ValuesReEncrypted")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("ValuesToReEncrypt")
+                        .HasColumnType("integer");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("InitiatedBy");
+
+                    b.HasIndex("StartedAt");
+
+                    b.HasIndex("Status");
+
+                    b.ToTable("key_rotations", (string)null);
+                });
+
             modelBuilder.Entity("XcordHub.Entities.UpgradeEvent", b =>
                 {
                     b.Property<long>("Id")
@@ -1072,6 +1418,16 @@ namespace XcordHub.Infrastructure.Migrations
                         .HasMaxLength(50)
                         .HasColumnType("character varying(50)");
 
+                    b.Property<long?>("RestoreBackupId")
+                        .HasColumnType("bigint");
+
+                    b.Property<long?>("RollbackOfEventId")
+                        .HasColumnType("bigint");
+
+                    b.Property<string>("RollbackReason")
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)");
+
                     b.Property<DateTimeOffset?>("StartedAt")
                         .HasColumnType("timestamp with time zone");
 
@@ -1092,6 +1448,8 @@ namespace XcordHub.Infrastructure.Migrations
 
                     b.HasIndex("ManagedInstanceId");
 
+                    b.HasIndex("RollbackOfEventId");
+
                     b.HasIndex("UpgradeRolloutId");
 
                     b.ToTable("upgrade_events", (string)null);
@@ -1114,15 +1472,40 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Property<int>("BatchSize")
                         .HasDefaultValue(5);
 
+                    b.Property<int>("CurrentStage")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasDefaultValue(0);
+
                     b.Property<int>("FailedInstances")
                         .HasDefaultValue(0);
 
+                    b.Property<bool>("Force")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("boolean")
+                        .HasDefaultValue(false);
+
+                    b.Property<int>("HealthGateMaxFailures")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasDefaultValue(0);
+
+                    b.Property<int?>("HealthGateMaxResponseTimeMs")
+                        .HasColumnType("integer");
+
                     b.Property<int>("MaxFailures")
                         .HasDefaultValue(1);
 
+                    b.Property<string>("PauseReason")
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
                     b.Property<DateTimeOffset?>("ScheduledAt")
                         .HasColumnType("timestamp with time zone");
 
+                    b.Property<DateTimeOffset?>("StageGateAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<string>("FromImage")
                         .HasMaxLength(500)
                         .HasColumnType("character varying(500)");
@@ -1159,6 +1542,37 @@ namespace XcordHub.Infrastructure.Migrations
                     b.ToTable("upgrade_rollouts", (string)null);
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.UpgradeRolloutStage", b =>
+                {
+                    b.Property<long>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<long>("Id"));
+
+                    b.Property<int?>("InstanceCount")
+                        .HasColumnType("integer");
+
+                    b.Property<int?>("Percentage")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("Position")
+                        .HasColumnType("integer");
+
+                    b.Property<long>("UpgradeRolloutId")
+                        .HasColumnType("bigint");
+
+                    b.Property<int>("WaitMinutes")
+                        .HasColumnType("integer");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("UpgradeRolloutId", "Position")
+                        .IsUnique();
+
+                    b.ToTable("upgrade_rollout_stages", (string)null);
+                });
+
             modelBuilder.Entity("XcordHub.Entities.WorkerIdRegistry", b =>
                 {
                     b.Property<int>("WorkerId")
@@ -1243,6 +1657,11 @@ namespace XcordHub.Infrastructure.Migrations
 
             modelBuilder.Entity("XcordHub.Entities.BackupPolicy", b =>
                 {
+                    b.HasOne("XcordHub.Entities.BackupPolicyTemplate", "Template")
+                        .WithMany()
+                        .HasForeignKey("BackupPolicyTemplateId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
                     b.HasOne("XcordHub.Entities.ManagedInstance", "ManagedInstance")
                         .WithOne("BackupPolicy")
                         .HasForeignKey("XcordHub.Entities.BackupPolicy", "ManagedInstanceId")
@@ -1250,6 +1669,8 @@ namespace XcordHub.Infrastructure.Migrations
                         .IsRequired();
 
                     b.Navigation("ManagedInstance");
+
+                    b.Navigation("Template");
                 });
 
             modelBuilder.Entity("XcordHub.Entities.BackupRecord", b =>
@@ -1263,6 +1684,41 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Navigation("ManagedInstance");
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.BackupTemplateTier", b =>
+                {
+                    b.HasOne("XcordHub.Entities.BackupPolicyTemplate", "Template")
+                        .WithMany("Tiers")
+                        .HasForeignKey("BackupPolicyTemplateId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Template");
+                });
+
+            modelBuilder.Entity("XcordHub.Entities.ContactSubmission", b =>
+                {
+                    b.HasOne("XcordHub.Entities.HubUser", "Assignee")
+                        .WithMany()
+                        .HasForeignKey("AssigneeId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.HasOne("XcordHub.Entities.ManagedInstance", "ManagedInstance")
+                        .WithMany()
+                        .HasForeignKey("ManagedInstanceId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.HasOne("XcordHub.Entities.HubUser", "Submitter")
+                        .WithMany()
+                        .HasForeignKey("SubmitterId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.Navigation("Assignee");
+
+                    b.Navigation("ManagedInstance");
+
+                    b.Navigation("Submitter");
+                });
+
             modelBuilder.Entity("XcordHub.Entities.FederationToken", b =>
                 {
                     b.HasOne("XcordHub.Entities.ManagedInstance", "ManagedInstance")
@@ -1384,6 +1840,17 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Navigation("HubUser");
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.RestoreOperation", b =>
+                {
+                    b.HasOne("XcordHub.Entities.ManagedInstance", "ManagedInstance")
+                        .WithMany("RestoreOperations")
+                        .HasForeignKey("ManagedInstanceId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("ManagedInstance");
+                });
+
             modelBuilder.Entity("XcordHub.Entities.ServerListEntry", b =>
                 {
                     b.HasOne("XcordHub.Entities.ServerList", "ServerList")
@@ -1395,6 +1862,24 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Navigation("ServerList");
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.SupportTicketReply", b =>
+                {
+                    b.HasOne("XcordHub.Entities.HubUser", "Author")
+                        .WithMany()
+                        .HasForeignKey("AuthorId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.HasOne("XcordHub.Entities.ContactSubmission", "ContactSubmission")
+                        .WithMany("Replies")
+                        .HasForeignKey("ContactSubmissionId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Author");
+
+                    b.Navigation("ContactSubmission");
+                });
+
             modelBuilder.Entity("XcordHub.Entities.UpgradeEvent", b =>
                 {
                     b.HasOne("XcordHub.Entities.ManagedInstance", "ManagedInstance")
@@ -1424,6 +1909,17 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Navigation("Initiator");
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.UpgradeRolloutStage", b =>
+                {
+                    b.HasOne("XcordHub.Entities.UpgradeRollout", "Rollout")
+                        .WithMany("Stages")
+                        .HasForeignKey("UpgradeRolloutId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Rollout");
+                });
+
             modelBuilder.Entity("XcordHub.Entities.WorkerIdRegistry", b =>
                 {
                     b.HasOne("XcordHub.Entities.ManagedInstance", "ManagedInstance")
@@ -1445,6 +1941,27 @@ namespace XcordHub.Infrastructure.Migrations
                     b.Navigation("ManagedInstance");
                 });
 
+            modelBuilder.Entity("XcordHub.Entities.KeyRotation", b =>
+                {
+                    b.HasOne("XcordHub.Entities.HubUser", "Initiator")
+                        .WithMany()
+                        .HasForeignKey("InitiatedBy")
+                        .OnDelete(DeleteBehavior.Restrict)
+                        .IsRequired();
+
+                    b.Navigation("Initiator");
+                });
+
+            modelBuilder.Entity("XcordHub.Entities.BackupPolicyTemplate", b =>
+                {
+                    b.Navigation("Tiers");
+                });
+
+            modelBuilder.Entity("XcordHub.Entities.ContactSubmission", b =>
+                {
+                    b.Navigation("Replies");
+                });
+
             modelBuilder.Entity("XcordHub.Entities.HubUser", b =>
                 {
                     b.Navigation("ManagedInstances");
@@ -1477,6 +1994,8 @@ namespace XcordHub.Infrastructure.Migrations
 
                     b.Navigation("ProvisioningEvents");
 
+                    b.Navigation("RestoreOperations");
+
                     b.Navigation("UpgradeEvents");
 
                     b.Navigation("UptimeIntervals");
@@ -1484,6 +2003,8 @@ namespace XcordHub.Infrastructure.Migrations
 
             modelBuilder.Entity("XcordHub.Entities.UpgradeRollout", b =>
                 {
+                    b.Navigation("Stages");
+
                     b.Navigation("UpgradeEvents");
                 });
 #pragma warning restore 612, 618
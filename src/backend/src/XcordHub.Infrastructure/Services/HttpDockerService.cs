@@ -1,4 +1,5 @@
 using System.Net.Http.Json;
+using System.Runtime.CompilerServices;
 using System.Text;
 using System.Text.Json;
 using Microsoft.Extensions.Hosting;
@@ -652,6 +653,135 @@ public sealed class HttpDockerService : IDockerService
         _logger.LogInformation("Removed network {NetworkId}", networkId);
     }
 
+    /// <summary>
+    /// Reads the most recent log lines of a Swarm service across all of its tasks.
+    /// Services are created without a TTY, so the body uses Docker's multiplexed
+    /// stream framing: an 8-byte header (stream type, 3 padding bytes, big-endian
+    /// payload length) before each chunk.
+    /// The service logs API has no <c>until</c> parameter, so a bounded range reads
+    /// everything since <paramref name="since"/> and keeps only the last
+    /// <paramref name="tail"/> lines before <paramref name="until"/> as it parses.
+    /// </summary>
+    public async Task<IReadOnlyList<ContainerLogLine>> GetServiceLogsAsync(string serviceId, int tail, DateTimeOffset? since = null, DateTimeOffset? until = null, CancellationToken cancellationToken = default)
+    {
+        var url = $"/services/{serviceId}/logs?stdout=true&stderr=true&timestamps=true&tail={(until is null ? tail.ToString() : "all")}";
+        if (since is not null)
+            url += $"&since={since.Value.ToUnixTimeSeconds()}";
+
+        var response = await _httpClient.GetAsync(url, cancellationToken);
+
+        if (response.StatusCode == System.Net.HttpStatusCode.NotFound)
+        {
+            _logger.LogWarning("Service {ServiceId} not found, returning no logs", serviceId);
+            return [];
+        }
+        response.EnsureSuccessStatusCode();
+
+        var payload = await response.Content.ReadAsByteArrayAsync(cancellationToken);
+        var lines = new Queue<ContainerLogLine>();
+        var offset = 0;
+
+        while (offset + 8 <= payload.Length)
+        {
+            var stream = payload[offset] == 2 ? "stderr" : "stdout";
+            var length = (payload[offset + 4] << 24) | (payload[offset + 5] << 16) | (payload[offset + 6] << 8) | payload[offset + 7];
+            offset += 8;
+
+            var count = Math.Min(length, payload.Length - offset);
+            var chunk = Encoding.UTF8.GetString(payload, offset, count);
+            offset += count;
+
+            foreach (var raw in chunk.Split('\n', StringSplitOptions.RemoveEmptyEntries))
+            {
+                var line = ParseLogLine(raw.TrimEnd('\r'), stream);
+                if (until is not null && line.Timestamp >= until.Value)
+                    continue;
+
+                lines.Enqueue(line);
+                if (lines.Count > tail)
+                    lines.Dequeue();
+            }
+        }
+
+        return lines.ToList();
+    }
+
+    /// <summary>
+    /// Follows the logs of a Swarm service, starting with the last <paramref name="tail"/>
+    /// lines and then yielding new lines as Docker writes them. Ends when the service is
+    /// removed or <paramref name="cancellationToken"/> fires. The response is read with
+    /// <see cref="HttpCompletionOption.ResponseHeadersRead"/>, so the client timeout only
+    /// covers opening the stream.
+    /// </summary>
+    public async IAsyncEnumerable<ContainerLogLine> FollowServiceLogsAsync(string serviceId, int tail, [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        using var response = await _httpClient.GetAsync(
+            $"/services/{serviceId}/logs?stdout=true&stderr=true&timestamps=true&follow=true&tail={tail}",
+            HttpCompletionOption.ResponseHeadersRead,
+            cancellationToken);
+
+        if (response.StatusCode == System.Net.HttpStatusCode.NotFound)
+        {
+            _logger.LogWarning("Service {ServiceId} not found, not following logs", serviceId);
+            yield break;
+        }
+        response.EnsureSuccessStatusCode();
+
+        await using var body = await response.Content.ReadAsStreamAsync(cancellationToken);
+        var header = new byte[8];
+
+        while (true)
+        {
+            if (await body.ReadAtLeastAsync(header, header.Length, throwOnEndOfStream: false, cancellationToken) < header.Length)
+                yield break;
+
+            var stream = header[0] == 2 ? "stderr" : "stdout";
+            var length = (header[4] << 24) | (header[5] << 16) | (header[6] << 8) | header[7];
+
+            var payload = new byte[length];
+            var count = await body.ReadAtLeastAsync(payload, length, throwOnEndOfStream: false, cancellationToken);
+            var chunk = Encoding.UTF8.GetString(payload, 0, count);
+
+            foreach (var raw in chunk.Split('\n', StringSplitOptions.RemoveEmptyEntries))
+            {
+                yield return ParseLogLine(raw.TrimEnd('\r'), stream);
+            }
+
+            if (count < length)
+                yield break;
+        }
+    }
+
+    /// <summary>
+    /// Splits the RFC 3339 timestamp Docker prefixes when <c>timestamps=true</c>.
+    /// Docker writes nanoseconds; .NET parses at most 7 fractional digits.
+    /// </summary>
+    private static ContainerLogLine ParseLogLine(string raw, string stream)
+    {
+        var space = raw.IndexOf(' ');
+        if (space <= 0)
+        {
+            return new ContainerLogLine(DateTimeOffset.UtcNow, stream, raw);
+        }
+
+        var stamp = raw[..space];
+        var dot = stamp.IndexOf('.');
+        if (dot > 0)
+        {
+            var end = dot + 1;
+            while (end < stamp.Length && char.IsDigit(stamp[end])) end++;
+            if (end - dot - 1 > 7)
+                stamp = stamp[..(dot + 8)] + stamp[end..];
+        }
+
+        if (DateTimeOffset.TryParse(stamp, System.Globalization.CultureInfo.InvariantCulture, System.Globalization.DateTimeStyles.AssumeUniversal, out var timestamp))
+        {
+            return new ContainerLogLine(timestamp, stream, raw[(space + 1)..]);
+        }
+
+        return new ContainerLogLine(DateTimeOffset.UtcNow, stream, raw);
+    }
+
     /// <summary>
     /// Resolves a network name to its ID, required for Swarm service network references.
     /// </summary>
@@ -8,4 +8,10 @@ public interface IAlertService
         int consecutiveFailures,
         string errorMessage,
         CancellationToken cancellationToken = default);
+
+    Task SendRolloutPausedAlertAsync(
+        long rolloutId,
+        string toImage,
+        string reason,
+        CancellationToken cancellationToken = default);
 }
@@ -8,4 +8,5 @@ public interface IColdStorageService
     Task DeleteAsync(string key, CancellationToken ct = default);
     Task<long> GetObjectSizeAsync(string key, CancellationToken ct = default);
     Task<IReadOnlyList<string>> ListObjectsAsync(string prefix, CancellationToken ct = default);
+    Task<string> GetDownloadUrlAsync(string key, TimeSpan expiresIn, CancellationToken ct = default);
 }
@@ -2,6 +2,8 @@ namespace XcordHub.Infrastructure.Services;
 
 public sealed record ContainerResourceLimits(long MemoryBytes, long CpuQuota);
 
+public sealed record ContainerLogLine(DateTimeOffset Timestamp, string Stream, string Message);
+
 public interface IDockerService
 {
     Task<string> CreateNetworkAsync(string instanceDomain, CancellationToken cancellationToken = default);
@@ -26,4 +28,6 @@ public interface IDockerService
     Task StopContainerAsync(string containerId, CancellationToken cancellationToken = default);
     Task RemoveContainerAsync(string containerId, CancellationToken cancellationToken = default);
     Task RemoveNetworkAsync(string networkId, CancellationToken cancellationToken = default);
+    Task<IReadOnlyList<ContainerLogLine>> GetServiceLogsAsync(string serviceId, int tail, DateTimeOffset? since = null, DateTimeOffset? until = null, CancellationToken cancellationToken = default);
+    IAsyncEnumerable<ContainerLogLine> FollowServiceLogsAsync(string serviceId, int tail, CancellationToken cancellationToken = default);
 }
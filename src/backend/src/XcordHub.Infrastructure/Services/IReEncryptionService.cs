@@ -0,0 +1,29 @@
+namespace XcordHub.Infrastructure.Services;
+
+/// <summary>
+/// Number of encrypted values in one storage location whose ciphertext is under
+/// <see cref="Version"/> (the leading version byte; legacy AES-CBC ciphertext
+/// reports whatever its first IV byte happens to be).
+/// </summary>
+public sealed record KeyVersionUsage(string Location, int Version, int ValueCount);
+
+/// <summary>
+/// Finds hub ciphertext that is not under the active DEK version and rewrites it
+/// under the active version. Covers every column the hub encrypts with
+/// <see cref="IEncryptionService"/>: user emails, instance infrastructure secrets
+/// and the JWT signing key.
+/// </summary>
+public interface IReEncryptionService
+{
+    /// <summary>
+    /// Counts encrypted values per storage location and key version.
+    /// </summary>
+    Task<IReadOnlyList<KeyVersionUsage>> CountByKeyVersionAsync(CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Re-encrypts up to <paramref name="batchSize"/> rows holding ciphertext that is
+    /// not under the active version. Returns the number of rows rewritten; zero
+    /// means nothing is left to re-encrypt.
+    /// </summary>
+    Task<int> ReEncryptBatchAsync(int batchSize, CancellationToken cancellationToken = default);
+}
@@ -6,4 +6,6 @@ public interface ISystemConfigService
 {
     Task<SystemConfig> GetAsync(CancellationToken ct = default);
     Task<SystemConfig> SetPaidServersDisabledAsync(bool disabled, CancellationToken ct = default);
+    Task<SystemConfig> SetRequireAdminTwoFactorAsync(bool required, CancellationToken ct = default);
+    Task<SystemConfig> SetAutoRollbackWindowAsync(int minutes, CancellationToken ct = default);
 }
@@ -42,4 +42,10 @@ public sealed class NoopColdStorageService : IColdStorageService
         _logger.LogWarning("Cold storage not configured - cannot list objects with prefix {Prefix}", prefix);
         return Task.FromResult<IReadOnlyList<string>>(Array.Empty<string>());
     }
+
+    public Task<string> GetDownloadUrlAsync(string key, TimeSpan expiresIn, CancellationToken ct = default)
+    {
+        _logger.LogWarning("Cold storage not configured - cannot sign a download URL for {Key}", key);
+        return Task.FromResult(string.Empty);
+    }
 }
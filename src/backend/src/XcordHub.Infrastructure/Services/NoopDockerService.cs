@@ -1,3 +1,4 @@
+using System.Runtime.CompilerServices;
 using Microsoft.Extensions.Logging;
 
 namespace XcordHub.Infrastructure.Services;
@@ -94,4 +95,17 @@ public sealed class NoopDockerService : IDockerService
         _logger.LogInformation("NOOP: Would remove network {NetworkId}", networkId);
         return Task.CompletedTask;
     }
+
+    public Task<IReadOnlyList<ContainerLogLine>> GetServiceLogsAsync(string serviceId, int tail, DateTimeOffset? since = null, DateTimeOffset? until = null, CancellationToken cancellationToken = default)
+    {
+        _logger.LogInformation("NOOP: Would fetch last {Tail} log lines for service {ServiceId}", tail, serviceId);
+        return Task.FromResult<IReadOnlyList<ContainerLogLine>>([]);
+    }
+
+    public async IAsyncEnumerable<ContainerLogLine> FollowServiceLogsAsync(string serviceId, int tail, [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        _logger.LogInformation("NOOP: Would follow logs for service {ServiceId}", serviceId);
+        await Task.CompletedTask;
+        yield break;
+    }
 }
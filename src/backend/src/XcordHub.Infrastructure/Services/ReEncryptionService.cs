@@ -0,0 +1,133 @@
+using Microsoft.EntityFrameworkCore;
+using XcordHub.Infrastructure.Data;
+
+namespace XcordHub.Infrastructure.Services;
+
+/// <summary>
+/// Default <see cref="IReEncryptionService"/>. The key version of a value is the
+/// leading byte of its ciphertext, so outdated rows are found in SQL with
+/// <c>get_byte</c> and rewritten through the normal encryption path, which always
+/// encrypts under the active version.
+/// </summary>
+public sealed class ReEncryptionService : IReEncryptionService
+{
+    private const string CountSql = """
+        SELECT "Location", "Version", COUNT(*)::int AS "ValueCount"
+        FROM (
+            SELECT 'hub_users.Email' AS "Location", get_byte("Email", 0) AS "Version"
+            FROM hub_users WHERE length("Email") > 0
+            UNION ALL
+            SELECT 'instance_infrastructure.DatabasePassword', get_byte("DatabasePassword", 0)
+            FROM instance_infrastructure WHERE length("DatabasePassword") > 0
+            UNION ALL
+            SELECT 'instance_infrastructure.MinioSecretKey', get_byte("MinioSecretKey", 0)
+            FROM instance_infrastructure WHERE length("MinioSecretKey") > 0
+            UNION ALL
+            SELECT 'instance_infrastructure.LiveKitSecretKey', get_byte("LiveKitSecretKey", 0)
+            FROM instance_infrastructure WHERE length("LiveKitSecretKey") > 0
+            UNION ALL
+            SELECT 'instance_infrastructure.RedisPassword', get_byte("RedisPassword", 0)
+            FROM instance_infrastructure WHERE length("RedisPassword") > 0
+            UNION ALL
+            SELECT 'system_settings.EncryptedRsaPrivateKey', get_byte(decode("Value", 'base64'), 0)
+            FROM system_settings WHERE "Key" = 'EncryptedRsaPrivateKey' AND "Value" <> ''
+        ) AS usage
+        GROUP BY "Location", "Version"
+        ORDER BY "Location", "Version"
+        """;
+
+    private readonly HubDbContext _db;
+    private readonly IEncryptionService _encryptionService;
+    private readonly EncryptionKeyHolder _keyHolder;
+
+    public ReEncryptionService(
+        HubDbContext db,
+        IEncryptionService encryptionService,
+        EncryptionKeyHolder keyHolder)
+    {
+        _db = db;
+        _encryptionService = encryptionService;
+        _keyHolder = keyHolder;
+    }
+
+    public async Task<IReadOnlyList<KeyVersionUsage>> CountByKeyVersionAsync(CancellationToken cancellationToken = default)
+    {
+        return await _db.Database
+            .SqlQueryRaw<KeyVersionUsage>(CountSql)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<int> ReEncryptBatchAsync(int batchSize, CancellationToken cancellationToken = default)
+    {
+        int active = _keyHolder.ActiveVersion;
+        var now = DateTimeOffset.UtcNow;
+        var rewritten = 0;
+
+        // Deleted users keep their encrypted email, so they are re-encrypted too.
+        var users = await _db.HubUsers
+            .FromSql($"""SELECT * FROM hub_users WHERE length("Email") > 0 AND get_byte("Email", 0) <> {active}""")
+            .IgnoreQueryFilters()
+            .OrderBy(u => u.Id)
+            .Take(batchSize)
+            .ToListAsync(cancellationToken);
+
+        foreach (var user in users)
+        {
+            user.Email = _encryptionService.Encrypt(_encryptionService.Decrypt(user.Email));
+        }
+        rewritten += users.Count;
+
+        // Infrastructure secrets go through EncryptedStringConverter: loading decrypts them,
+        // and marking them modified makes the save encrypt them under the active version.
+        if (rewritten < batchSize)
+        {
+            var infrastructures = await _db.InstanceInfrastructures
+                .FromSql($"""
+                    SELECT * FROM instance_infrastructure
+                    WHERE (length("DatabasePassword") > 0 AND get_byte("DatabasePassword", 0) <> {active})
+                       OR (length("MinioSecretKey") > 0 AND get_byte("MinioSecretKey", 0) <> {active})
+                       OR (length("LiveKitSecretKey") > 0 AND get_byte("LiveKitSecretKey", 0) <> {active})
+                       OR (length("RedisPassword") > 0 AND get_byte("RedisPassword", 0) <> {active})
+                    """)
+                .IgnoreQueryFilters()
+                .OrderBy(i => i.Id)
+                .Take(batchSize - rewritten)
+                .ToListAsync(cancellationToken);
+
+            foreach (var infrastructure in infrastructures)
+            {
+                var entry = _db.Entry(infrastructure);
+                entry.Property(i => i.DatabasePassword).IsModified = true;
+                entry.Property(i => i.MinioSecretKey).IsModified = true;
+                entry.Property(i => i.LiveKitSecretKey).IsModified = true;
+                entry.Property(i => i.RedisPassword).IsModified = true;
+            }
+            rewritten += infrastructures.Count;
+        }
+
+        if (rewritten < batchSize)
+        {
+            var rsaKey = await _db.SystemSettings
+                .FirstOrDefaultAsync(s => s.Key == JwtService.EncryptedRsaPrivateKeySettingKey, cancellationToken);
+
+            if (rsaKey != null && !string.IsNullOrEmpty(rsaKey.Value))
+            {
+                var ciphertext = Convert.FromBase64String(rsaKey.Value);
+                if (ciphertext[0] != active)
+                {
+                    var reEncrypted = _encryptionService.Encrypt(_encryptionService.Decrypt(ciphertext));
+                    rsaKey.Value = Convert.ToBase64String(reEncrypted);
+                    rsaKey.UpdatedAt = now;
+                    rewritten++;
+                }
+            }
+        }
+
+        if (rewritten > 0)
+        {
+            await _db.SaveChangesAsync(cancellationToken);
+        }
+
+        return rewritten;
+    }
+}
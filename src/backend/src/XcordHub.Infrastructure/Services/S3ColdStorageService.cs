@@ -10,6 +10,7 @@ public sealed class S3ColdStorageService : IColdStorageService
 {
     private readonly AmazonS3Client _client;
     private readonly string _bucket;
+    private readonly Protocol _protocol;
     private readonly ILogger<S3ColdStorageService> _logger;
 
     public S3ColdStorageService(IOptions<ColdStorageOptions> options, ILogger<S3ColdStorageService> logger)
@@ -24,6 +25,7 @@ public sealed class S3ColdStorageService : IColdStorageService
             config.ServiceURL = opts.Endpoint.StartsWith("http") ? opts.Endpoint : $"https://{opts.Endpoint}";
             config.ForcePathStyle = true;
         }
+        _protocol = config.ServiceURL?.StartsWith("http://") == true ? Protocol.HTTP : Protocol.HTTPS;
         if (!string.IsNullOrEmpty(opts.Region))
             config.AuthenticationRegion = opts.Region;
 
@@ -80,4 +82,17 @@ public sealed class S3ColdStorageService : IColdStorageService
 
         return keys;
     }
+
+    public Task<string> GetDownloadUrlAsync(string key, TimeSpan expiresIn, CancellationToken ct = default)
+    {
+        var request = new GetPreSignedUrlRequest
+        {
+            BucketName = _bucket,
+            Key = key,
+            Verb = HttpVerb.GET,
+            Protocol = _protocol,
+            Expires = DateTime.UtcNow.Add(expiresIn)
+        };
+        return Task.FromResult(_client.GetPreSignedURL(request));
+    }
 }
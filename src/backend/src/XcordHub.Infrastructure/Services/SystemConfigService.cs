@@ -15,6 +15,8 @@ public sealed class SystemConfigService(HubDbContext db) : ISystemConfigService
         {
             Id = SystemConfig.SingletonId,
             PaidServersDisabled = false,
+            RequireAdminTwoFactor = false,
+            AutoRollbackWindowMinutes = 0,
             UpdatedAt = DateTimeOffset.UtcNow
         };
         db.SystemConfigs.Add(config);
@@ -30,4 +32,22 @@ public sealed class SystemConfigService(HubDbContext db) : ISystemConfigService
         await db.SaveChangesAsync(ct);
         return config;
     }
+
+    public async Task<SystemConfig> SetRequireAdminTwoFactorAsync(bool required, CancellationToken ct = default)
+    {
+        var config = await GetAsync(ct);
+        config.RequireAdminTwoFactor = required;
+        config.UpdatedAt = DateTimeOffset.UtcNow;
+        await db.SaveChangesAsync(ct);
+        return config;
+    }
+
+    public async Task<SystemConfig> SetAutoRollbackWindowAsync(int minutes, CancellationToken ct = default)
+    {
+        var config = await GetAsync(ct);
+        config.AutoRollbackWindowMinutes = minutes;
+        config.UpdatedAt = DateTimeOffset.UtcNow;
+        await db.SaveChangesAsync(ct);
+        return config;
+    }
 }
@@ -62,4 +62,43 @@ public sealed class WebhookAlertService : IAlertService
                 instanceId, ex.Message);
         }
     }
+
+    public async Task SendRolloutPausedAlertAsync(
+        long rolloutId,
+        string toImage,
+        string reason,
+        CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(_webhookUrl))
+        {
+            _logger.LogWarning("No webhook URL configured, skipping paused alert for rollout {RolloutId}", rolloutId);
+            return;
+        }
+
+        try
+        {
+            var payload = new
+            {
+                Type = "rollout_paused",
+                RolloutId = rolloutId,
+                ToImage = toImage,
+                Reason = reason,
+                Timestamp = DateTimeOffset.UtcNow
+            };
+
+            var json = JsonSerializer.Serialize(payload);
+            var content = new StringContent(json, Encoding.UTF8, "application/json");
+
+            var response = await _httpClient.PostAsync(_webhookUrl, content, cancellationToken);
+            response.EnsureSuccessStatusCode();
+
+            _logger.LogInformation("Paused alert sent for rollout {RolloutId}: {Reason}", rolloutId, reason);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex,
+                "Failed to send paused alert for rollout {RolloutId}: {Error}",
+                rolloutId, ex.Message);
+        }
+    }
 }
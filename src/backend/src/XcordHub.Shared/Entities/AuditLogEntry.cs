@@ -0,0 +1,38 @@
+namespace XcordHub.Entities;
+
+/// <summary>
+/// One admin action, recorded with who made it, from where, what it changed and why.
+/// Actor and target are stored as plain values so entries outlive the users and
+/// entities they refer to.
+/// </summary>
+public sealed class AuditLogEntry
+{
+    public long Id { get; set; }
+
+    /// <summary>The admin who made the change. Null for actions without a signed-in user.</summary>
+    public long? ActorId { get; set; }
+
+    /// <summary>The actor's username at the time of the action.</summary>
+    public string ActorName { get; set; } = string.Empty;
+
+    public string IpAddress { get; set; } = string.Empty;
+
+    /// <summary>Dotted action name, e.g. <c>instance.suspend</c>.</summary>
+    public string Action { get; set; } = string.Empty;
+
+    /// <summary>Kind of entity the action targeted, e.g. <c>Instance</c>.</summary>
+    public string TargetType { get; set; } = string.Empty;
+
+    public string? TargetId { get; set; }
+
+    /// <summary>JSON snapshot of the changed fields before the action, if any.</summary>
+    public string? BeforeJson { get; set; }
+
+    /// <summary>JSON snapshot of the changed fields after the action, if any.</summary>
+    public string? AfterJson { get; set; }
+
+    /// <summary>Free-text reason the admin gave when confirming the action.</summary>
+    public string? Reason { get; set; }
+
+    public DateTimeOffset CreatedAt { get; set; }
+}
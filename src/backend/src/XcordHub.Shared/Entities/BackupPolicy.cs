@@ -8,14 +8,25 @@ public sealed class BackupPolicy
     public long ManagedInstanceId { get; set; }
     public bool Enabled { get; set; } = true;
     public BackupFrequency Frequency { get; set; } = BackupFrequency.Daily;
+    // Database-only backups taken in between full backups; null for none
+    public BackupFrequency? DatabaseFrequency { get; set; }
     public int RetentionDays { get; set; } = 30;
     public bool BackupDatabase { get; set; } = true;
     public bool BackupFiles { get; set; } = true;
     public bool BackupRedis { get; set; } = true;
+    // Completed backups re-read and checked each day; 0 turns scheduled verification off
+    public int VerifySampleSize { get; set; } = 1;
+    public DateTimeOffset? LastVerifiedAt { get; set; }
+
+    // Template the settings came from. An overridden policy was edited for this
+    // instance on purpose, so applying the template leaves it alone.
+    public long? BackupPolicyTemplateId { get; set; }
+    public bool IsOverridden { get; set; }
     public DateTimeOffset CreatedAt { get; set; }
     public DateTimeOffset UpdatedAt { get; set; }
 
     public ManagedInstance ManagedInstance { get; set; } = null!;
+    public BackupPolicyTemplate? Template { get; set; }
 }
 
 [JsonConverter(typeof(JsonStringEnumConverter))]
@@ -0,0 +1,30 @@
+namespace XcordHub.Entities;
+
+/// <summary>
+/// A named backup policy shared across the fleet. Tiers are assigned a template
+/// through <see cref="BackupTemplateTier"/>; new instances of an assigned tier start
+/// with its settings, and applying the template copies them to every instance of
+/// those tiers whose <see cref="BackupPolicy"/> is not marked as overridden.
+/// </summary>
+public sealed class BackupPolicyTemplate
+{
+    public long Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public BackupFrequency Frequency { get; set; } = BackupFrequency.Daily;
+
+    /// <summary>
+    /// How often a database-only backup is taken in between full backups, or null
+    /// to rely on full backups alone.
+    /// </summary>
+    public BackupFrequency? DatabaseFrequency { get; set; }
+
+    public int RetentionDays { get; set; } = 30;
+    public bool BackupDatabase { get; set; } = true;
+    public bool BackupFiles { get; set; } = true;
+    public bool BackupRedis { get; set; } = true;
+    public int VerifySampleSize { get; set; } = 1;
+    public DateTimeOffset CreatedAt { get; set; }
+    public DateTimeOffset UpdatedAt { get; set; }
+
+    public ICollection<BackupTemplateTier> Tiers { get; set; } = new List<BackupTemplateTier>();
+}
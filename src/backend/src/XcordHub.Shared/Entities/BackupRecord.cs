@@ -11,6 +11,11 @@ public sealed class BackupRecord : ISoftDeletable
     public long SizeBytes { get; set; }
     public string StoragePath { get; set; } = string.Empty;
     public string? ErrorMessage { get; set; }
+    // SHA-256 over the backup's stored objects, recorded when the backup is taken
+    public string? Checksum { get; set; }
+    public BackupVerificationStatus VerificationStatus { get; set; } = BackupVerificationStatus.Unverified;
+    public DateTimeOffset? VerifiedAt { get; set; }
+    public string? VerificationError { get; set; }
     public DateTimeOffset StartedAt { get; set; }
     public DateTimeOffset? CompletedAt { get; set; }
     public DateTimeOffset? DeletedAt { get; set; }
@@ -26,6 +31,14 @@ public enum BackupStatus
     Failed
 }
 
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum BackupVerificationStatus
+{
+    Unverified,
+    Passed,
+    Failed
+}
+
 [JsonConverter(typeof(JsonStringEnumConverter))]
 public enum BackupKind
 {
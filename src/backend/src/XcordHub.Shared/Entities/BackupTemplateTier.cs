@@ -0,0 +1,12 @@
+namespace XcordHub.Entities;
+
+/// <summary>
+/// Assigns a tier its backup policy template; each tier has at most one.
+/// </summary>
+public sealed class BackupTemplateTier
+{
+    public InstanceTier Tier { get; set; }
+    public long BackupPolicyTemplateId { get; set; }
+
+    public BackupPolicyTemplate Template { get; set; } = null!;
+}
@@ -0,0 +1,15 @@
+namespace XcordHub.Entities;
+
+/// <summary>
+/// Describes a <see cref="ResourceLimits"/> or <see cref="FeatureFlags"/> property for the
+/// admin config schema. Min and Max only apply to numeric fields.
+/// </summary>
+[AttributeUsage(AttributeTargets.Property)]
+public sealed class ConfigFieldAttribute(string label, string group) : Attribute
+{
+    public string Label { get; } = label;
+    public string Group { get; } = group;
+    public string? Unit { get; set; }
+    public int Min { get; set; }
+    public int Max { get; set; } = int.MaxValue;
+}
@@ -1,13 +1,44 @@
+using System.Text.Json.Serialization;
+
 namespace XcordHub.Entities;
 
+/// <summary>
+/// A support ticket. Tickets start either as an anonymous contact form submission,
+/// answered by email, or are opened by a signed-in user about one of their
+/// instances and followed from the hub dashboard.
+/// </summary>
 public sealed class ContactSubmission
 {
     public long Id { get; set; }
     public string Name { get; set; } = string.Empty;
+    // Empty for tickets opened from the dashboard; replies go to the submitter's account email
     public string Email { get; set; } = string.Empty;
     public string Company { get; set; } = string.Empty;
     public int? ExpectedMemberCount { get; set; }
+    public string Subject { get; set; } = string.Empty;
     public string Message { get; set; } = string.Empty;
+    public SupportTicketStatus Status { get; set; } = SupportTicketStatus.Open;
+    public long? SubmitterId { get; set; }
+    public long? ManagedInstanceId { get; set; }
+    public long? AssigneeId { get; set; }
     public DateTimeOffset CreatedAt { get; set; }
+    // Last reply or status change
+    public DateTimeOffset UpdatedAt { get; set; }
     public DateTimeOffset? DeletedAt { get; set; }
+
+    public HubUser? Submitter { get; set; }
+    public ManagedInstance? ManagedInstance { get; set; }
+    public HubUser? Assignee { get; set; }
+    public ICollection<SupportTicketReply> Replies { get; set; } = new List<SupportTicketReply>();
+}
+
+/// <summary>
+/// Open tickets wait on staff, pending ones wait on the submitter.
+/// </summary>
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum SupportTicketStatus
+{
+    Open,
+    Pending,
+    Closed
 }
@@ -2,17 +2,42 @@ namespace XcordHub.Entities;
 
 public sealed record FeatureFlags
 {
+    [ConfigField("Bots", "Community")]
     public bool CanCreateBots { get; init; }
+
+    [ConfigField("Webhooks", "Community")]
     public bool CanUseWebhooks { get; init; }
+
+    [ConfigField("Custom Emoji", "Community")]
     public bool CanUseCustomEmoji { get; init; }
+
+    [ConfigField("Threads", "Community")]
     public bool CanUseThreads { get; init; }
+
+    [ConfigField("Voice Channels", "Media")]
     public bool CanUseVoiceChannels { get; init; }
+
+    [ConfigField("Video Channels", "Media")]
     public bool CanUseVideoChannels { get; init; }
+
+    [ConfigField("Forum Channels", "Community")]
     public bool CanUseForumChannels { get; init; }
+
+    [ConfigField("Scheduled Events", "Community")]
     public bool CanUseScheduledEvents { get; init; }
+
+    [ConfigField("HD Video", "Media")]
     public bool CanUseHdVideo { get; init; }
+
+    [ConfigField("Simulcast", "Media")]
     public bool CanUseSimulcast { get; init; }
+
+    [ConfigField("Recording", "Media")]
     public bool CanUseRecording { get; init; }
+
+    [ConfigField("Member Tiers", "Community")]
     public bool CanUseMemberTiers { get; init; }
+
+    [ConfigField("Broadcasting", "Media")]
     public bool CanBroadcast { get; init; }
 }
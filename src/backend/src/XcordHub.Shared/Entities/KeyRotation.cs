@@ -0,0 +1,28 @@
+namespace XcordHub.Entities;
+
+/// <summary>
+/// One rotation of the hub Data Encryption Key. Records who rotated, which
+/// versions were involved, and the progress of re-encrypting values that were
+/// still under an older version when the rotation started.
+/// </summary>
+public sealed class KeyRotation
+{
+    public long Id { get; set; }
+    public int FromVersion { get; set; }
+    public int ToVersion { get; set; }
+    public KeyRotationStatus Status { get; set; }
+
+    /// <summary>
+    /// Encrypted values not yet under <see cref="ToVersion"/> when the rotation started.
+    /// </summary>
+    public int ValuesToReEncrypt { get; set; }
+
+    public int ValuesReEncrypted { get; set; }
+    public string? Error { get; set; }
+    public long InitiatedBy { get; set; }
+    public DateTimeOffset StartedAt { get; set; }
+    public DateTimeOffset? CompletedAt { get; set; }
+
+    // Navigation properties
+    public HubUser Initiator { get; set; } = null!;
+}
@@ -0,0 +1,8 @@
+namespace XcordHub.Entities;
+
+public enum KeyRotationStatus
+{
+    ReEncrypting = 0,
+    Completed = 1,
+    Failed = 2
+}
@@ -2,18 +2,45 @@ namespace XcordHub.Entities;
 
 public sealed record ResourceLimits
 {
+    [ConfigField("Max Users", "Capacity", Unit = "users", Min = 1, Max = 100_000)]
     public int MaxUsers { get; init; }
+
+    [ConfigField("Max Servers", "Capacity", Unit = "servers", Min = 1, Max = 10_000)]
     public int MaxServers { get; init; }
+
+    [ConfigField("Storage", "Compute", Unit = "MB", Min = 0, Max = 1_048_576)]
     public int MaxStorageMb { get; init; }
+
+    [ConfigField("CPU", "Compute", Unit = "%", Min = 1, Max = 1_600)]
     public int MaxCpuPercent { get; init; }
+
+    [ConfigField("Memory", "Compute", Unit = "MB", Min = 64, Max = 65_536)]
     public int MaxMemoryMb { get; init; }
+
+    [ConfigField("Rate Limit", "Compute", Unit = "req/min", Min = 1, Max = 100_000)]
     public int MaxRateLimit { get; init; }
+
+    [ConfigField("Voice Concurrency", "Media", Unit = "users", Min = 0, Max = 10_000)]
     public int MaxVoiceConcurrency { get; init; }
+
+    [ConfigField("Video Concurrency", "Media", Unit = "users", Min = 0, Max = 10_000)]
     public int MaxVideoConcurrency { get; init; }
+
+    [ConfigField("Concurrent Broadcasts", "Broadcasting", Unit = "broadcasts", Min = 0, Max = 1_000)]
     public int MaxConcurrentBroadcasts { get; init; }
+
+    [ConfigField("Stage Size", "Broadcasting", Unit = "speakers", Min = 0, Max = 256)]
     public int MaxStageSize { get; init; } = 8;
+
+    [ConfigField("Streambots per Channel", "Broadcasting", Unit = "bots", Min = 0, Max = 100)]
     public int MaxStreambotsPerChannel { get; init; } = 5;
+
+    [ConfigField("Max Bitrate", "Broadcasting", Unit = "kbps", Min = 0, Max = 50_000)]
     public int BroadcastMaxBitrateKbps { get; init; } = 4000;
+
+    [ConfigField("Max Resolution Width", "Broadcasting", Unit = "px", Min = 0, Max = 7_680)]
     public int BroadcastMaxResolutionWidth { get; init; } = 1280;
+
+    [ConfigField("Max Resolution Height", "Broadcasting", Unit = "px", Min = 0, Max = 4_320)]
     public int BroadcastMaxResolutionHeight { get; init; } = 720;
 }
@@ -0,0 +1,39 @@
+namespace XcordHub.Entities;
+
+/// <summary>
+/// One restore of an instance from its backups. Each component is restored from
+/// its own backup record (null when the component is left alone), and the row
+/// records progress from the optional safety backup until the instance is
+/// healthy again.
+/// </summary>
+public sealed class RestoreOperation
+{
+    public long Id { get; set; }
+    public long ManagedInstanceId { get; set; }
+    public RestoreStatus Status { get; set; }
+
+    /// <summary>
+    /// The moment the instance is restored to: the chosen point in time, or the
+    /// completion time of the chosen backup.
+    /// </summary>
+    public DateTimeOffset PointInTime { get; set; }
+
+    public long? DatabaseBackupId { get; set; }
+    public long? FilesBackupId { get; set; }
+    public long? RedisBackupId { get; set; }
+    public bool TakeSafetyBackup { get; set; }
+    public long? SafetyBackupId { get; set; }
+    public string? Error { get; set; }
+    public long InitiatedBy { get; set; }
+    public DateTimeOffset StartedAt { get; set; }
+
+    /// <summary>
+    /// When the last component was restored; the health check deadline counts from here.
+    /// </summary>
+    public DateTimeOffset? RestoredAt { get; set; }
+
+    public DateTimeOffset? CompletedAt { get; set; }
+
+    // Navigation properties
+    public ManagedInstance ManagedInstance { get; set; } = null!;
+}
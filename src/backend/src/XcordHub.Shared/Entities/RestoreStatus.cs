@@ -0,0 +1,11 @@
+namespace XcordHub.Entities;
+
+public enum RestoreStatus
+{
+    Pending = 0,
+    SafetyBackup = 1,
+    Restoring = 2,
+    VerifyingHealth = 3,
+    Completed = 4,
+    Failed = 5
+}
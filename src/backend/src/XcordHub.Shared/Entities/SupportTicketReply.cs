@@ -0,0 +1,16 @@
+namespace XcordHub.Entities;
+
+public sealed class SupportTicketReply
+{
+    public long Id { get; set; }
+    public long ContactSubmissionId { get; set; }
+    // Null once the author's account is gone
+    public long? AuthorId { get; set; }
+    public string AuthorName { get; set; } = string.Empty;
+    public bool IsStaff { get; set; }
+    public string Body { get; set; } = string.Empty;
+    public DateTimeOffset CreatedAt { get; set; }
+
+    public ContactSubmission ContactSubmission { get; set; } = null!;
+    public HubUser? Author { get; set; }
+}
@@ -6,5 +6,9 @@ public sealed class SystemConfig
 
     public long Id { get; set; }
     public bool PaidServersDisabled { get; set; }
+    public bool RequireAdminTwoFactor { get; set; }
+
+    // Minutes after an upgrade during which failing health checks roll it back; 0 disables
+    public int AutoRollbackWindowMinutes { get; set; }
     public DateTimeOffset UpdatedAt { get; set; }
 }
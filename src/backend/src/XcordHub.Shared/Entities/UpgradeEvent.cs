@@ -14,6 +14,11 @@ public sealed class UpgradeEvent
     public DateTimeOffset? StartedAt { get; set; }
     public DateTimeOffset? CompletedAt { get; set; }
 
+    // Set on events that roll an earlier upgrade back to its previous image
+    public long? RollbackOfEventId { get; set; }
+    public long? RestoreBackupId { get; set; }
+    public string? RollbackReason { get; set; }
+
     // Navigation properties
     public UpgradeRollout? Rollout { get; set; }
     public ManagedInstance ManagedInstance { get; set; } = null!;
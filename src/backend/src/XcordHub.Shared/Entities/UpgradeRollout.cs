@@ -16,8 +16,15 @@ public sealed class UpgradeRollout
     public DateTimeOffset StartedAt { get; set; }
     public DateTimeOffset? CompletedAt { get; set; }
     public long InitiatedBy { get; set; }
+    public bool Force { get; set; }
+    public int CurrentStage { get; set; }
+    public DateTimeOffset? StageGateAt { get; set; }
+    public int HealthGateMaxFailures { get; set; }
+    public int? HealthGateMaxResponseTimeMs { get; set; }
+    public string? PauseReason { get; set; }
 
     // Navigation properties
     public HubUser Initiator { get; set; } = null!;
     public ICollection<UpgradeEvent> UpgradeEvents { get; set; } = new List<UpgradeEvent>();
+    public ICollection<UpgradeRolloutStage> Stages { get; set; } = new List<UpgradeRolloutStage>();
 }
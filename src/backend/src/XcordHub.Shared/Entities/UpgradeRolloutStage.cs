@@ -0,0 +1,14 @@
+namespace XcordHub.Entities;
+
+public sealed class UpgradeRolloutStage
+{
+    public long Id { get; set; }
+    public long UpgradeRolloutId { get; set; }
+    public int Position { get; set; }
+    public int? InstanceCount { get; set; }
+    public int? Percentage { get; set; }
+    public int WaitMinutes { get; set; }
+
+    // Navigation properties
+    public UpgradeRollout Rollout { get; set; } = null!;
+}
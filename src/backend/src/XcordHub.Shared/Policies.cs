@@ -4,5 +4,6 @@ public static class Policies
 {
     public const string User = "User";
     public const string Admin = "Admin";
+    public const string AdminSession = "AdminSession";
     public const string Federation = "Federation";
 }
@@ -2,6 +2,7 @@ using System.Net;
 using System.Net.Http.Headers;
 using System.Net.Http.Json;
 using System.Text;
+using System.Text.Json;
 using FluentAssertions;
 using Microsoft.AspNetCore.Hosting;
 using Microsoft.AspNetCore.Mvc.Testing;
@@ -295,6 +296,156 @@ public sealed class AdminEndpointIntegrationTests
         body.PageSize.Should().Be(25, "pageSize 0 should default to 25");
     }
 
+    // ── GET /api/v1/admin/instances - search, filters and sorting ────────────
+
+    private async Task SeedFacetInstancesAsync()
+    {
+        await using var dbContext = CreateDbContext();
+        if (await dbContext.ManagedInstances.AnyAsync(i => i.Id == 8_300_000_010L))
+            return;
+
+        var owner = MakeOwner(8_300_000_001L, "adminep-facet-owner");
+        dbContext.HubUsers.Add(owner);
+
+        // alpha: Pro + media on 1.4.2, healthy; beta: Pro without media on 1.3.0,
+        // unhealthy; gamma: no billing row (Free), never health-checked
+        var seeds = new[]
+        {
+            (Id: 8_300_000_010L, Name: "alpha", Tier: (InstanceTier?)InstanceTier.Pro, Media: true, Image: "xcord-fed:1.4.2", Healthy: (bool?)true, Created: new DateTimeOffset(2026, 3, 10, 0, 0, 0, TimeSpan.Zero)),
+            (Id: 8_300_000_020L, Name: "beta", Tier: (InstanceTier?)InstanceTier.Pro, Media: false, Image: "xcord-fed:1.3.0", Healthy: (bool?)false, Created: new DateTimeOffset(2026, 4, 10, 0, 0, 0, TimeSpan.Zero)),
+            (Id: 8_300_000_030L, Name: "gamma", Tier: (InstanceTier?)null, Media: false, Image: "xcord-fed:1.4.0", Healthy: (bool?)null, Created: new DateTimeOffset(2026, 5, 10, 0, 0, 0, TimeSpan.Zero)),
+        };
+
+        foreach (var seed in seeds)
+        {
+            dbContext.ManagedInstances.Add(new ManagedInstance
+            {
+                Id = seed.Id,
+                OwnerId = owner.Id,
+                Domain = $"adminep-facet-{seed.Name}.xcord.net",
+                DisplayName = $"Facet {seed.Name}",
+                Status = InstanceStatus.Running,
+                SnowflakeWorkerId = 830 + seed.Id % 100 / 10,
+                CreatedAt = seed.Created
+            });
+            dbContext.InstanceInfrastructures.Add(new InstanceInfrastructure
+            {
+                Id = seed.Id + 1,
+                ManagedInstanceId = seed.Id,
+                DeployedImage = seed.Image,
+                CreatedAt = seed.Created
+            });
+            if (seed.Tier is { } tier)
+            {
+                dbContext.InstanceBillings.Add(new InstanceBilling
+                {
+                    Id = seed.Id + 2,
+                    ManagedInstanceId = seed.Id,
+                    Tier = tier,
+                    MediaEnabled = seed.Media,
+                    BillingStatus = BillingStatus.Active,
+                    CreatedAt = seed.Created
+                });
+            }
+            if (seed.Healthy is { } healthy)
+            {
+                dbContext.InstanceHealths.Add(new InstanceHealth
+                {
+                    Id = seed.Id + 3,
+                    ManagedInstanceId = seed.Id,
+                    IsHealthy = healthy,
+                    LastCheckAt = DateTimeOffset.UtcNow
+                });
+            }
+        }
+
+        await dbContext.SaveChangesAsync();
+    }
+
+    private async Task<List<string>> ListSubdomainsAsync(string query)
+    {
+        using var client = CreateAdminClient();
+        var response = await client.GetAsync($"/api/v1/admin/instances?page=1&pageSize=100&{query}");
+        response.EnsureSuccessStatusCode();
+        var body = await response.Content.ReadFromJsonAsync<AdminListInstancesResponseDto>();
+        return body!.Instances.Select(i => i.Subdomain).ToList();
+    }
+
+    [Theory]
+    [InlineData("search=adminep-facet", new[] { "adminep-facet-gamma", "adminep-facet-beta", "adminep-facet-alpha" })]
+    [InlineData("search=FACET-OWNER", new[] { "adminep-facet-gamma", "adminep-facet-beta", "adminep-facet-alpha" })]
+    [InlineData("search=adminep-facet&tier=Pro", new[] { "adminep-facet-beta", "adminep-facet-alpha" })]
+    [InlineData("search=adminep-facet&tier=free", new[] { "adminep-facet-gamma" })]
+    [InlineData("search=adminep-facet&tier=Pro&mediaEnabled=true", new[] { "adminep-facet-alpha" })]
+    [InlineData("search=adminep-facet&version=1.4", new[] { "adminep-facet-gamma", "adminep-facet-alpha" })]
+    [InlineData("search=adminep-facet&health=unhealthy", new[] { "adminep-facet-beta" })]
+    [InlineData("search=adminep-facet&health=unknown", new[] { "adminep-facet-gamma" })]
+    [InlineData("search=adminep-facet&createdFrom=2026-04-01T00:00:00Z&createdTo=2026-05-01T00:00:00Z", new[] { "adminep-facet-beta" })]
+    public async Task ListInstances_CombinedFilters_ReturnOnlyMatchingInstances(string query, string[] expected)
+    {
+        // Arrange
+        await SeedFacetInstancesAsync();
+
+        // Act
+        var subdomains = await ListSubdomainsAsync(query);
+
+        // Assert - default order is newest first
+        subdomains.Should().Equal(expected);
+    }
+
+    [Theory]
+    [InlineData("sortBy=subdomain&sortDir=asc", new[] { "adminep-facet-alpha", "adminep-facet-beta", "adminep-facet-gamma" })]
+    [InlineData("sortBy=image&sortDir=desc", new[] { "adminep-facet-alpha", "adminep-facet-gamma", "adminep-facet-beta" })]
+    [InlineData("sortBy=tier&sortDir=asc", new[] { "adminep-facet-gamma", "adminep-facet-alpha", "adminep-facet-beta" })]
+    [InlineData("sortBy=createdAt&sortDir=asc", new[] { "adminep-facet-alpha", "adminep-facet-beta", "adminep-facet-gamma" })]
+    public async Task ListInstances_SortBy_OrdersResults(string sort, string[] expected)
+    {
+        // Arrange
+        await SeedFacetInstancesAsync();
+
+        // Act
+        var subdomains = await ListSubdomainsAsync($"search=adminep-facet&{sort}");
+
+        // Assert
+        subdomains.Should().Equal(expected);
+    }
+
+    [Fact]
+    public async Task ListInstances_ReportsDeployedImageAndHealth()
+    {
+        // Arrange
+        await SeedFacetInstancesAsync();
+        using var client = CreateAdminClient();
+
+        // Act
+        var body = await client.GetFromJsonAsync<AdminListInstancesResponseDto>(
+            "/api/v1/admin/instances?page=1&pageSize=100&search=adminep-facet&sortBy=subdomain&sortDir=asc");
+
+        // Assert
+        body!.Instances.Select(i => (i.DeployedImage, i.Health)).Should().Equal(
+            ("xcord-fed:1.4.2", "healthy"),
+            ("xcord-fed:1.3.0", "unhealthy"),
+            ("xcord-fed:1.4.0", "unknown"));
+    }
+
+    [Theory]
+    [InlineData("sortBy=color")]
+    [InlineData("sortDir=sideways")]
+    [InlineData("tier=Gold")]
+    [InlineData("health=sick")]
+    [InlineData("createdFrom=2026-05-01T00:00:00Z&createdTo=2026-04-01T00:00:00Z")]
+    public async Task ListInstances_InvalidFilter_Returns400(string query)
+    {
+        // Arrange
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync($"/api/v1/admin/instances?page=1&pageSize=25&{query}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
     // ── GET /api/v1/admin/instances/{id} - authorization and schema ───────────
 
     [Fact]
@@ -364,24 +515,1474 @@ public sealed class AdminEndpointIntegrationTests
         response.StatusCode.Should().Be(HttpStatusCode.NotFound);
     }
 
-    // ── DTOs for deserialization ───────────────────────────────────────────────
+    // ── POST /api/v1/admin/instances/{id}/upgrade ────────────────────────────
 
-    private sealed record AdminListInstancesResponseDto(
-        List<AdminInstanceListItemDto> Instances,
-        int Total,
-        int Page,
-        int PageSize
-    );
+    [Fact]
+    public async Task AdminUpgradeInstance_InstanceOwnedByAnotherUser_Returns202AndAudits()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
 
-    private sealed record AdminInstanceListItemDto(
-        long Id,
-        string Subdomain,
-        string DisplayName,
-        string Status,
-        string Tier,
-        DateTimeOffset CreatedAt,
-        string OwnerUsername
-    );
+        var owner = MakeOwner(8_800_000_001L, "adminep-upgrade-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_800_000_011L;
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-upgrade.xcord.net",
+            DisplayName = "Upgrade",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+        var body = new { targetImage = "xcord-fed:1.4.2" };
+
+        // Act
+        var ownerRoute = await client.PostAsJsonAsync($"/api/v1/hub/instances/{instanceId}/upgrade", body);
+        var adminRoute = await client.PostAsJsonAsync($"/api/v1/admin/instances/{instanceId}/upgrade", body);
+
+        // Assert
+        ownerRoute.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+        adminRoute.StatusCode.Should().Be(HttpStatusCode.Accepted);
+
+        var audited = await dbContext.AuditLogEntries
+            .AnyAsync(e => e.Action == "instance.upgrade" && e.TargetId == instanceId.ToString());
+        audited.Should().BeTrue();
+    }
+
+    // ── /api/v1/admin/instances/{id}/provisioning - timeline and retry ───────
+
+    [Fact]
+    public async Task GetProvisioningTimeline_FailedInstance_ReportsFailedStepAndAllowsRetry()
+    {
+        // Arrange - seed an instance whose pipeline failed at the database step
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_400_000_001L, "adminep-prov-owner");
+        dbContext.HubUsers.Add(owner);
+
+        var instance = new ManagedInstance
+        {
+            Id = 8_400_000_002L,
+            OwnerId = owner.Id,
+            Domain = "adminep-prov.xcord.net",
+            DisplayName = "Admin EP Provisioning Instance",
+            Status = InstanceStatus.Failed,
+            SnowflakeWorkerId = 840,
+            CreatedAt = DateTimeOffset.UtcNow
+        };
+        dbContext.ManagedInstances.Add(instance);
+
+        var start = DateTimeOffset.UtcNow.AddMinutes(-5);
+        dbContext.ProvisioningEvents.AddRange(
+            new ProvisioningEvent
+            {
+                Id = 8_400_000_010L, ManagedInstanceId = instance.Id, StepName = "ValidateSubdomain",
+                Phase = ProvisioningPhase.Execute, Status = ProvisioningStepStatus.Completed,
+                StartedAt = start, CompletedAt = start.AddSeconds(1)
+            },
+            new ProvisioningEvent
+            {
+                Id = 8_400_000_011L, ManagedInstanceId = instance.Id, StepName = "ValidateSubdomain",
+                Phase = ProvisioningPhase.Verify, Status = ProvisioningStepStatus.Completed,
+                StartedAt = start.AddSeconds(1), CompletedAt = start.AddSeconds(2)
+            },
+            new ProvisioningEvent
+            {
+                Id = 8_400_000_012L, ManagedInstanceId = instance.Id, StepName = "ProvisionDatabase",
+                Phase = ProvisioningPhase.Execute, Status = ProvisioningStepStatus.Failed,
+                ErrorMessage = "connection refused", StartedAt = start.AddSeconds(2), CompletedAt = start.AddSeconds(5)
+            });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync($"/api/v1/admin/instances/{instance.Id}/provisioning");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var body = await response.Content.ReadFromJsonAsync<ProvisioningTimelineDto>();
+        body.Should().NotBeNull();
+        body!.InstanceStatus.Should().Be("Failed");
+        body.CanRetry.Should().BeTrue();
+        body.Steps.Single(s => s.StepName == "ValidateSubdomain").Status.Should().Be("Completed");
+
+        var failed = body.Steps.Single(s => s.StepName == "ProvisionDatabase");
+        failed.Status.Should().Be("Failed");
+        failed.ErrorMessage.Should().Be("connection refused");
+        failed.DurationMs.Should().Be(3000);
+
+        body.Steps.Single(s => s.StepName == "StartApiContainer").Status.Should().Be("Pending");
+    }
+
+    [Fact]
+    public async Task RetryProvisioning_RunningInstance_Returns409()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_400_000_101L, "adminep-retry-owner");
+        dbContext.HubUsers.Add(owner);
+
+        var instance = new ManagedInstance
+        {
+            Id = 8_400_000_102L,
+            OwnerId = owner.Id,
+            Domain = "adminep-retry.xcord.net",
+            DisplayName = "Admin EP Retry Instance",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = 841,
+            CreatedAt = DateTimeOffset.UtcNow
+        };
+        dbContext.ManagedInstances.Add(instance);
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsync($"/api/v1/admin/instances/{instance.Id}/provisioning/retry", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Conflict);
+    }
+
+    [Fact]
+    public async Task RetryProvisioning_WithNonAdminToken_Returns403()
+    {
+        // Arrange
+        using var client = CreateUserClient();
+
+        // Act
+        var response = await client.PostAsync("/api/v1/admin/instances/123456789/provisioning/retry", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    // ── GET /api/v1/admin/instances/{id}/logs ────────────────────────────────
+
+    [Theory]
+    [InlineData("until=2026-10-01T12:00:00Z")]
+    [InlineData("since=2026-10-01T12:00:00Z&until=2026-10-01T11:00:00Z")]
+    [InlineData("since=2026-09-30T11:00:00Z&until=2026-10-01T12:00:00Z")]
+    public async Task GetInstanceLogs_UnboundedOrOversizedRange_Returns400(string query)
+    {
+        // Arrange
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync($"/api/v1/admin/instances/8100000002/logs?{query}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    // ── GET /api/v1/admin/instances/{id}/uptime ──────────────────────────────
+
+    [Fact]
+    public async Task GetInstanceUptime_WithAdminToken_ReturnsDailyHistoryAndOutages()
+    {
+        // Arrange - an instance that was down for an hour yesterday
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_500_000_001L, "adminep-uptime-owner");
+        dbContext.HubUsers.Add(owner);
+
+        var instance = new ManagedInstance
+        {
+            Id = 8_500_000_002L,
+            OwnerId = owner.Id,
+            Domain = "adminep-uptime.xcord.net",
+            DisplayName = "Admin EP Uptime Instance",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = 850,
+            CreatedAt = DateTimeOffset.UtcNow.AddDays(-3)
+        };
+        dbContext.ManagedInstances.Add(instance);
+
+        var today = new DateTimeOffset(DateTimeOffset.UtcNow.UtcDateTime.Date, TimeSpan.Zero);
+        dbContext.UptimeIntervals.AddRange(
+            new UptimeInterval
+            {
+                Id = 8_500_000_010L, ManagedInstanceId = instance.Id,
+                StartedAt = today.AddDays(-2), EndedAt = today.AddDays(-1).AddHours(3), CreatedAt = today.AddDays(-2)
+            },
+            new UptimeInterval
+            {
+                Id = 8_500_000_011L, ManagedInstanceId = instance.Id,
+                StartedAt = today.AddDays(-1).AddHours(4), EndedAt = null, CreatedAt = today.AddDays(-1)
+            });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync($"/api/v1/admin/instances/{instance.Id}/uptime");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var body = await response.Content.ReadFromJsonAsync<InstanceUptimeDto>();
+        body.Should().NotBeNull();
+        body!.Days.Should().HaveCount(90);
+        body.Days[^2].DowntimeMinutes.Should().Be(60);
+        body.Days[0].AvailabilityPercentage.Should().BeNull();
+        body.Availability90Days.Should().BeLessThan(100);
+
+        var outage = body.Outages.Should().ContainSingle().Subject;
+        outage.DurationMinutes.Should().Be(60);
+        outage.IsOngoing.Should().BeFalse();
+    }
+
+    // ── POST /api/v1/admin/upgrades/preview ──────────────────────────────────
+
+    [Fact]
+    public async Task PreviewUpgrade_ReturnsBatchesAndSkippedInstancesWithoutStartingARollout()
+    {
+        // Arrange - four instances in a dedicated pool: two targets, one opted out, one already upgraded
+        const string pool = "adminep-preview-pool";
+        const string toImage = "docker.xcord.net/fed:9.9.9";
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_001L, "adminep-preview-owner");
+        dbContext.HubUsers.Add(owner);
+
+        ManagedInstance Seed(long id, string image, bool batchUpgrades)
+        {
+            var instance = new ManagedInstance
+            {
+                Id = id,
+                OwnerId = owner.Id,
+                Domain = $"adminep-preview-{id}.xcord.net",
+                DisplayName = $"Preview {id}",
+                Status = InstanceStatus.Running,
+                SnowflakeWorkerId = (int)(id % 1000),
+                CreatedAt = DateTimeOffset.UtcNow,
+                Infrastructure = new InstanceInfrastructure
+                {
+                    ManagedInstanceId = id, DeployedImage = image, PlacedInPool = pool, CreatedAt = DateTimeOffset.UtcNow
+                },
+                Config = new InstanceConfig { ManagedInstanceId = id, BatchUpgradesEnabled = batchUpgrades }
+            };
+            dbContext.ManagedInstances.Add(instance);
+            return instance;
+        }
+
+        Seed(8_600_000_011L, "docker.xcord.net/fed:1.0.0", batchUpgrades: true);
+        Seed(8_600_000_012L, "docker.xcord.net/fed:1.0.0", batchUpgrades: true);
+        Seed(8_600_000_013L, "docker.xcord.net/fed:1.0.0", batchUpgrades: false);
+        Seed(8_600_000_014L, toImage, batchUpgrades: true);
+        await dbContext.SaveChangesAsync();
+
+        var rolloutsBefore = await dbContext.UpgradeRollouts.CountAsync();
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsJsonAsync("/api/v1/admin/upgrades/preview", new
+        {
+            toImage,
+            fromImage = (string?)null,
+            targetPool = pool,
+            force = false,
+            batchSize = 1
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var body = await response.Content.ReadFromJsonAsync<PreviewUpgradeDto>();
+        body.Should().NotBeNull();
+        body!.TotalInstances.Should().Be(2);
+        body.Batches.Select(b => b.Instances.Single().Id).Should().Equal("8600000011", "8600000012");
+        body.Skipped.Select(s => (s.Instance.Id, s.Reason)).Should().BeEquivalentTo(new[]
+        {
+            ("8600000013", "BatchUpgradesDisabled"),
+            ("8600000014", "AlreadyOnTarget")
+        });
+        body.EstimatedDurationSeconds.Should().Be(body.EstimatedSecondsPerBatch * 2);
+
+        (await dbContext.UpgradeRollouts.CountAsync()).Should().Be(rolloutsBefore);
+    }
+
+    [Fact]
+    public async Task PreviewUpgrade_ZeroBatchSize_Returns400()
+    {
+        // Arrange
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsJsonAsync("/api/v1/admin/upgrades/preview", new
+        {
+            toImage = "docker.xcord.net/fed:9.9.9",
+            force = false,
+            batchSize = 0
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task PreviewUpgrade_WithCanaryStages_BatchesEachStageAndCountsTheWaits()
+    {
+        // Arrange - three upgradeable instances in a dedicated pool
+        const string pool = "adminep-canary-pool";
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_101L, "adminep-canary-owner");
+        dbContext.HubUsers.Add(owner);
+
+        foreach (var id in new[] { 8_600_000_111L, 8_600_000_112L, 8_600_000_113L })
+        {
+            dbContext.ManagedInstances.Add(new ManagedInstance
+            {
+                Id = id,
+                OwnerId = owner.Id,
+                Domain = $"adminep-canary-{id}.xcord.net",
+                DisplayName = $"Canary {id}",
+                Status = InstanceStatus.Running,
+                SnowflakeWorkerId = (int)(id % 1000),
+                CreatedAt = DateTimeOffset.UtcNow,
+                Infrastructure = new InstanceInfrastructure
+                {
+                    ManagedInstanceId = id, DeployedImage = "docker.xcord.net/fed:1.0.0", PlacedInPool = pool, CreatedAt = DateTimeOffset.UtcNow
+                }
+            });
+        }
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act - one canary, wait 30 minutes, then everything else
+        var response = await client.PostAsJsonAsync("/api/v1/admin/upgrades/preview", new
+        {
+            toImage = "docker.xcord.net/fed:9.9.9",
+            targetPool = pool,
+            force = false,
+            batchSize = 5,
+            stages = new object[]
+            {
+                new { instances = 1, waitMinutes = 30 },
+                new { percentage = 100, waitMinutes = 0 }
+            }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var body = await response.Content.ReadFromJsonAsync<PreviewUpgradeDto>();
+        body.Should().NotBeNull();
+        body!.Batches.Select(b => (b.Stage, b.Instances.Count)).Should().Equal((1, 1), (2, 2));
+        body.Batches[0].Instances.Single().Id.Should().Be("8600000111");
+        body.EstimatedDurationSeconds.Should().Be(body.EstimatedSecondsPerBatch * 2 + 30 * 60);
+    }
+
+    [Fact]
+    public async Task GetInstanceRollback_ReturnsLatestUpgradeAndPreUpgradeBackup()
+    {
+        // Arrange - an instance upgraded 1.0.0 -> 1.1.0 with backups before and after the upgrade
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_201L, "adminep-rollback-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_600_000_211L;
+        var upgradedAt = DateTimeOffset.UtcNow.AddHours(-1);
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-rollback.xcord.net",
+            DisplayName = "Rollback",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow.AddDays(-2),
+            Infrastructure = new InstanceInfrastructure
+            {
+                ManagedInstanceId = instanceId, DeployedImage = "docker.xcord.net/fed:1.1.0", CreatedAt = DateTimeOffset.UtcNow
+            }
+        });
+        dbContext.UpgradeEvents.Add(new UpgradeEvent
+        {
+            ManagedInstanceId = instanceId,
+            Status = UpgradeEventStatus.Completed,
+            PreviousImage = "docker.xcord.net/fed:1.0.0",
+            PreviousVersion = "1.0.0",
+            TargetImage = "docker.xcord.net/fed:1.1.0",
+            NewVersion = "1.1.0",
+            StartedAt = upgradedAt.AddMinutes(-2),
+            CompletedAt = upgradedAt
+        });
+        dbContext.BackupRecords.AddRange(
+            new BackupRecord
+            {
+                Id = 8_600_000_221L, ManagedInstanceId = instanceId, Status = BackupStatus.Completed, Kind = BackupKind.Database,
+                StoragePath = "backups/before", StartedAt = upgradedAt.AddHours(-3), CompletedAt = upgradedAt.AddHours(-3)
+            },
+            new BackupRecord
+            {
+                Id = 8_600_000_222L, ManagedInstanceId = instanceId, Status = BackupStatus.Completed, Kind = BackupKind.Full,
+                StoragePath = "backups/after", StartedAt = upgradedAt.AddMinutes(10), CompletedAt = upgradedAt.AddMinutes(12)
+            });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync($"/api/v1/admin/instances/{instanceId}/rollback");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var body = await response.Content.ReadFromJsonAsync<InstanceRollbackDto>();
+        body.Should().NotBeNull();
+        body!.FromImage.Should().Be("docker.xcord.net/fed:1.1.0");
+        body.ToImage.Should().Be("docker.xcord.net/fed:1.0.0");
+        body.ToVersion.Should().Be("1.0.0");
+        body.PreUpgradeBackupId.Should().Be("8600000221");
+        body.BlockedReason.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task RollbackInstance_WithoutUpgrade_ReturnsNotFound()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_301L, "adminep-norollback-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_600_000_311L;
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-norollback.xcord.net",
+            DisplayName = "No Rollback",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsJsonAsync($"/api/v1/admin/instances/{instanceId}/rollback", new { restoreBackup = false });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Fact]
+    public async Task RollbackInstance_RestoringPreUpgradeBackup_ReturnsConflictUntilRestoresLoadData()
+    {
+        // Arrange - a rollback that could otherwise run, with a backup from before the upgrade
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_900_000_201L, "adminep-rollback-restore-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_900_000_211L;
+        var upgradedAt = DateTimeOffset.UtcNow.AddHours(-1);
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-rollback-restore.xcord.net",
+            DisplayName = "Rollback Restore",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow.AddDays(-2),
+            Infrastructure = new InstanceInfrastructure
+            {
+                ManagedInstanceId = instanceId, DeployedImage = "docker.xcord.net/fed:1.1.0", CreatedAt = DateTimeOffset.UtcNow
+            }
+        });
+        dbContext.UpgradeEvents.Add(new UpgradeEvent
+        {
+            ManagedInstanceId = instanceId,
+            Status = UpgradeEventStatus.Completed,
+            PreviousImage = "docker.xcord.net/fed:1.0.0",
+            PreviousVersion = "1.0.0",
+            TargetImage = "docker.xcord.net/fed:1.1.0",
+            NewVersion = "1.1.0",
+            StartedAt = upgradedAt.AddMinutes(-2),
+            CompletedAt = upgradedAt
+        });
+        dbContext.BackupRecords.Add(new BackupRecord
+        {
+            Id = 8_900_000_221L, ManagedInstanceId = instanceId, Status = BackupStatus.Completed, Kind = BackupKind.Database,
+            StoragePath = "backups/before", StartedAt = upgradedAt.AddHours(-3), CompletedAt = upgradedAt.AddHours(-3)
+        });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsJsonAsync($"/api/v1/admin/instances/{instanceId}/rollback", new { restoreBackup = true });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Conflict);
+
+        await using var verifyContext = CreateDbContext();
+        var events = await verifyContext.UpgradeEvents.CountAsync(e => e.ManagedInstanceId == instanceId);
+        events.Should().Be(1);
+    }
+
+    // ── GET /api/v1/admin/audit ──────────────────────────────────────────────
+
+    [Fact]
+    public async Task UpdateBackupPolicy_RecordsAuditEntryWithReasonAndDiff()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_401L, "adminep-audit-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_600_000_411L;
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-audit.xcord.net",
+            DisplayName = "Audit",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+        dbContext.BackupPolicies.Add(new BackupPolicy
+        {
+            ManagedInstanceId = instanceId,
+            Enabled = true,
+            Frequency = BackupFrequency.Daily,
+            RetentionDays = 7,
+            BackupDatabase = true,
+            BackupFiles = true,
+            BackupRedis = false,
+            CreatedAt = DateTimeOffset.UtcNow,
+            UpdatedAt = DateTimeOffset.UtcNow
+        });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+        var request = new HttpRequestMessage(HttpMethod.Put, $"/api/v1/admin/instances/{instanceId}/backup-policy")
+        {
+            Content = JsonContent.Create(new
+            {
+                enabled = true,
+                frequency = "Weekly",
+                retentionDays = 30,
+                backupDatabase = true,
+                backupFiles = true,
+                backupRedis = false
+            })
+        };
+        request.Headers.Add("X-Audit-Reason", Uri.EscapeDataString("Customer asked for longer retention"));
+
+        // Act
+        var update = await client.SendAsync(request);
+        var response = await client.GetAsync($"/api/v1/admin/audit?targetType=Instance&targetId={instanceId}");
+
+        // Assert
+        update.StatusCode.Should().Be(HttpStatusCode.OK);
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var body = await response.Content.ReadFromJsonAsync<AuditLogDto>();
+        var entry = body!.Entries.Should().ContainSingle().Subject;
+        entry.Action.Should().Be("backup.policy-update");
+        entry.ActorId.Should().Be("1000000001");
+        entry.Reason.Should().Be("Customer asked for longer retention");
+        entry.Changes.Should().BeEquivalentTo(new[]
+        {
+            new AuditChangeDto("frequency", "Daily", "Weekly"),
+            new AuditChangeDto("retentionDays", "7", "30"),
+            new AuditChangeDto("isOverridden", "false", "true")
+        });
+    }
+
+    [Fact]
+    public async Task ListAuditLog_UnknownAction_Returns400()
+    {
+        // Arrange
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync("/api/v1/admin/audit?action=instance.rename");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task ListAuditLog_WithNonAdminToken_Returns403()
+    {
+        // Arrange
+        using var client = CreateUserClient();
+
+        // Act
+        var response = await client.GetAsync("/api/v1/admin/audit");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
+    [Fact]
+    public async Task PreviewRestore_AtPointInTime_PicksNewestBackupPerComponent()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_501L, "adminep-restore-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_600_000_511L;
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-restore.xcord.net",
+            DisplayName = "Restore",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+
+        var pointInTime = DateTimeOffset.UtcNow.AddHours(-2);
+        BackupRecord Backup(long id, BackupKind kind, DateTimeOffset completedAt) => new()
+        {
+            Id = id,
+            ManagedInstanceId = instanceId,
+            Status = BackupStatus.Completed,
+            Kind = kind,
+            StoragePath = $"backups/adminep-restore/{id}",
+            StartedAt = completedAt.AddMinutes(-5),
+            CompletedAt = completedAt
+        };
+        dbContext.BackupRecords.AddRange(
+            Backup(8_600_000_521L, BackupKind.Full, pointInTime.AddDays(-1)),
+            Backup(8_600_000_522L, BackupKind.Database, pointInTime.AddHours(-1)),
+            Backup(8_600_000_523L, BackupKind.Database, pointInTime.AddHours(1)));
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsJsonAsync($"/api/v1/admin/instances/{instanceId}/restores/preview", new
+        {
+            pointInTime,
+            components = new[] { "Database", "Files" }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var body = await response.Content.ReadFromJsonAsync<RestorePreviewDto>();
+        body!.CanRestore.Should().BeTrue();
+        body.Components.Should().BeEquivalentTo(new[]
+        {
+            new RestorePlanComponentDto("Database", "8600000522", null),
+            new RestorePlanComponentDto("Files", "8600000521", null)
+        }, options => options.WithStrictOrdering());
+    }
+
+    [Fact]
+    public async Task StartRestore_IsNotMappedWhileBackupsHoldNoData()
+    {
+        // Arrange
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsJsonAsync("/api/v1/admin/instances/8600000511/restores", new
+        {
+            backupId = "8600000522",
+            components = new[] { "Database" }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.MethodNotAllowed);
+    }
+
+    // ── POST /api/v1/admin/instances/{id}/backups/{backupId}/verify ───────────
+
+    [Fact]
+    public async Task VerifyBackup_InProgressBackup_Returns409()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_601L, "adminep-verify-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_600_000_611L;
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-verify.xcord.net",
+            DisplayName = "Verify",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+        dbContext.BackupRecords.Add(new BackupRecord
+        {
+            Id = 8_600_000_621L,
+            ManagedInstanceId = instanceId,
+            Status = BackupStatus.InProgress,
+            Kind = BackupKind.Full,
+            StoragePath = "backups/adminep-verify/8600000621",
+            StartedAt = DateTimeOffset.UtcNow
+        });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsync(
+            $"/api/v1/admin/instances/{instanceId}/backups/8600000621/verify", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Conflict);
+    }
+
+    [Fact]
+    public async Task VerifyBackup_BackupWithoutChecksum_Returns409AndStaysUnverified()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_900_000_101L, "adminep-nochecksum-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_900_000_111L;
+        const long backupId = 8_900_000_121L;
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-nochecksum.xcord.net",
+            DisplayName = "No Checksum",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+        dbContext.BackupRecords.Add(new BackupRecord
+        {
+            Id = backupId,
+            ManagedInstanceId = instanceId,
+            Status = BackupStatus.Completed,
+            Kind = BackupKind.Full,
+            StoragePath = $"backups/adminep-nochecksum/{backupId}",
+            StartedAt = DateTimeOffset.UtcNow,
+            CompletedAt = DateTimeOffset.UtcNow
+        });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsync(
+            $"/api/v1/admin/instances/{instanceId}/backups/{backupId}/verify", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Conflict);
+
+        await using var verifyContext = CreateDbContext();
+        var backup = await verifyContext.BackupRecords.SingleAsync(r => r.Id == backupId);
+        backup.VerificationStatus.Should().Be(BackupVerificationStatus.Unverified);
+    }
+
+    [Fact]
+    public async Task DownloadBackup_UnknownBackup_Returns404()
+    {
+        // Arrange
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsync("/api/v1/admin/instances/8600000611/backups/8600000699/download", null);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    // ── /api/v1/admin/backup-templates ────────────────────────────────────────
+
+    [Fact]
+    public async Task ApplyBackupTemplate_LeavesOverriddenPoliciesAlone()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_701L, "adminep-template-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long followingId = 8_600_000_711L;
+        const long overriddenId = 8_600_000_712L;
+        foreach (var (id, name) in new[] { (followingId, "following"), (overriddenId, "overridden") })
+        {
+            dbContext.ManagedInstances.Add(new ManagedInstance
+            {
+                Id = id,
+                OwnerId = owner.Id,
+                Domain = $"adminep-template-{name}.xcord.net",
+                DisplayName = name,
+                Status = InstanceStatus.Running,
+                SnowflakeWorkerId = (int)(id % 1000),
+                CreatedAt = DateTimeOffset.UtcNow
+            });
+            dbContext.InstanceBillings.Add(new InstanceBilling
+            {
+                Id = id + 10,
+                ManagedInstanceId = id,
+                Tier = InstanceTier.Enterprise,
+                BillingStatus = BillingStatus.Active,
+                CreatedAt = DateTimeOffset.UtcNow
+            });
+        }
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        var createResponse = await client.PostAsJsonAsync("/api/v1/admin/backup-templates", new
+        {
+            name = "adminep-template: hourly DB + daily full, 90 days",
+            frequency = "Daily",
+            databaseFrequency = "Hourly",
+            retentionDays = 90,
+            backupDatabase = true,
+            backupFiles = true,
+            backupRedis = true,
+            verifySampleSize = 1,
+            tiers = new[] { "Enterprise" }
+        });
+        createResponse.StatusCode.Should().Be(HttpStatusCode.Created);
+        var template = await createResponse.Content.ReadFromJsonAsync<BackupTemplateItemDto>();
+        var templateId = long.Parse(template!.Id);
+
+        foreach (var (id, overridden) in new[] { (followingId, false), (overriddenId, true) })
+        {
+            dbContext.BackupPolicies.Add(new BackupPolicy
+            {
+                Id = id + 20,
+                ManagedInstanceId = id,
+                Frequency = BackupFrequency.Weekly,
+                RetentionDays = 7,
+                BackupPolicyTemplateId = templateId,
+                IsOverridden = overridden,
+                CreatedAt = DateTimeOffset.UtcNow,
+                UpdatedAt = DateTimeOffset.UtcNow
+            });
+        }
+        await dbContext.SaveChangesAsync();
+
+        // Act
+        var diff = await client.GetFromJsonAsync<BackupTemplateDiffDto>($"/api/v1/admin/backup-templates/{templateId}/diff");
+        var applyResponse = await client.PostAsync($"/api/v1/admin/backup-templates/{templateId}/apply", null);
+
+        // Assert
+        diff!.Instances.Should().ContainSingle(i => i.InstanceId == followingId.ToString() && !i.IsOverridden);
+        diff.Instances.Should().ContainSingle(i => i.InstanceId == overriddenId.ToString() && i.IsOverridden);
+
+        applyResponse.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        await using var verifyContext = CreateDbContext();
+        var following = await verifyContext.BackupPolicies.SingleAsync(p => p.ManagedInstanceId == followingId);
+        following.Frequency.Should().Be(BackupFrequency.Daily);
+        following.DatabaseFrequency.Should().Be(BackupFrequency.Hourly);
+        following.RetentionDays.Should().Be(90);
+
+        var overridden = await verifyContext.BackupPolicies.SingleAsync(p => p.ManagedInstanceId == overriddenId);
+        overridden.Frequency.Should().Be(BackupFrequency.Weekly);
+        overridden.RetentionDays.Should().Be(7);
+        overridden.IsOverridden.Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task ApplyBackupTemplate_KeepsPoliciesEditedWithoutATemplate()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_900_000_001L, "adminep-untemplated-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_900_000_011L;
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-untemplated.xcord.net",
+            DisplayName = "Untemplated",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+        dbContext.InstanceBillings.Add(new InstanceBilling
+        {
+            Id = instanceId + 10,
+            ManagedInstanceId = instanceId,
+            Tier = InstanceTier.Enterprise,
+            BillingStatus = BillingStatus.Active,
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+        dbContext.BackupPolicies.Add(new BackupPolicy
+        {
+            Id = instanceId + 20,
+            ManagedInstanceId = instanceId,
+            CreatedAt = DateTimeOffset.UtcNow,
+            UpdatedAt = DateTimeOffset.UtcNow
+        });
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        var update = await client.PutAsJsonAsync($"/api/v1/admin/instances/{instanceId}/backup-policy", new
+        {
+            enabled = true,
+            frequency = "Hourly",
+            retentionDays = 14,
+            backupDatabase = true,
+            backupFiles = true,
+            backupRedis = true
+        });
+        update.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var createResponse = await client.PostAsJsonAsync("/api/v1/admin/backup-templates", new
+        {
+            name = "adminep-untemplated: weekly, 7 days",
+            frequency = "Weekly",
+            databaseFrequency = (string?)null,
+            retentionDays = 7,
+            backupDatabase = true,
+            backupFiles = true,
+            backupRedis = true,
+            verifySampleSize = 1,
+            tiers = new[] { "Enterprise" }
+        });
+        createResponse.StatusCode.Should().Be(HttpStatusCode.Created);
+        var template = await createResponse.Content.ReadFromJsonAsync<BackupTemplateItemDto>();
+
+        // Act
+        var applyResponse = await client.PostAsync($"/api/v1/admin/backup-templates/{template!.Id}/apply", null);
+
+        // Assert
+        applyResponse.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        await using var verifyContext = CreateDbContext();
+        var policy = await verifyContext.BackupPolicies.SingleAsync(p => p.ManagedInstanceId == instanceId);
+        policy.IsOverridden.Should().BeTrue();
+        policy.BackupPolicyTemplateId.Should().BeNull();
+        policy.Frequency.Should().Be(BackupFrequency.Hourly);
+        policy.RetentionDays.Should().Be(14);
+    }
+
+    [Fact]
+    public async Task CreateBackupTemplate_UnknownTier_Returns400()
+    {
+        // Arrange
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PostAsJsonAsync("/api/v1/admin/backup-templates", new
+        {
+            name = "adminep-template-bad-tier",
+            frequency = "Daily",
+            retentionDays = 30,
+            backupDatabase = true,
+            backupFiles = true,
+            backupRedis = true,
+            verifySampleSize = 1,
+            tiers = new[] { "Gold" }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    // ── GET /api/v1/admin/instances/{id}/backups/storage ──────────────────────
+
+    [Fact]
+    public async Task GetInstanceBackupStorage_AveragesRecentCompletedBackupsPerKind()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var owner = MakeOwner(8_600_000_801L, "adminep-storage-owner");
+        dbContext.HubUsers.Add(owner);
+
+        const long instanceId = 8_600_000_811L;
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = owner.Id,
+            Domain = "adminep-storage.xcord.net",
+            DisplayName = "Storage",
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow
+        });
+        var seeds = new[]
+        {
+            (Id: 8_600_000_821L, Kind: BackupKind.Full, Status: BackupStatus.Completed, Size: 3_000L),
+            (Id: 8_600_000_822L, Kind: BackupKind.Full, Status: BackupStatus.Completed, Size: 5_000L),
+            (Id: 8_600_000_823L, Kind: BackupKind.Database, Status: BackupStatus.Completed, Size: 400L),
+            (Id: 8_600_000_824L, Kind: BackupKind.Full, Status: BackupStatus.Failed, Size: 9_000L)
+        };
+        foreach (var seed in seeds)
+        {
+            dbContext.BackupRecords.Add(new BackupRecord
+            {
+                Id = seed.Id,
+                ManagedInstanceId = instanceId,
+                Status = seed.Status,
+                Kind = seed.Kind,
+                SizeBytes = seed.Size,
+                StoragePath = $"backups/adminep-storage/{seed.Id}",
+                StartedAt = DateTimeOffset.UtcNow.AddHours(-(seed.Id % 10)),
+                CompletedAt = DateTimeOffset.UtcNow.AddHours(-(seed.Id % 10))
+            });
+        }
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync($"/api/v1/admin/instances/{instanceId}/backups/storage");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var body = await response.Content.ReadFromJsonAsync<InstanceBackupStorageDto>();
+        body!.StoredBytes.Should().Be(8_400);
+        body.StoredCount.Should().Be(3);
+        body.RecentSizes.Should().BeEquivalentTo(new[]
+        {
+            new BackupKindSizeDto("Database", 400, 1),
+            new BackupKindSizeDto("Full", 4_000, 2)
+        });
+    }
+
+    [Fact]
+    public async Task GetBackupStorage_DaysOutOfRange_Returns400()
+    {
+        // Arrange
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync("/api/v1/admin/backups/storage?days=0");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    // ── Support tickets ───────────────────────────────────────────────────────
+
+    private static ContactSubmission MakeTicket(long id, SupportTicketStatus status, long? submitterId = null) => new()
+    {
+        Id = id,
+        Name = "Ticket Submitter",
+        Email = submitterId.HasValue ? string.Empty : $"ticket-{id}@test.invalid",
+        Subject = $"Ticket {id}",
+        Message = "The server is down",
+        Status = status,
+        SubmitterId = submitterId,
+        CreatedAt = DateTimeOffset.UtcNow,
+        UpdatedAt = DateTimeOffset.UtcNow
+    };
+
+    [Fact]
+    public async Task AdminListSupportTickets_FiltersByStatus()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+        dbContext.ContactSubmissions.Add(MakeTicket(8_600_000_911L, SupportTicketStatus.Pending));
+        dbContext.ContactSubmissions.Add(MakeTicket(8_600_000_912L, SupportTicketStatus.Closed));
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.GetAsync("/api/v1/admin/tickets?status=Pending&pageSize=100");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        var body = await response.Content.ReadFromJsonAsync<SupportTicketListDto>();
+        body!.Tickets.Should().OnlyContain(t => t.Status == "Pending");
+        body.Tickets.Select(t => t.Id).Should().Contain("8600000911").And.NotContain("8600000912");
+        body.Counts.Pending.Should().BeGreaterThanOrEqualTo(1);
+        body.Counts.Closed.Should().BeGreaterThanOrEqualTo(1);
+    }
+
+    [Fact]
+    public async Task AdminUpdateSupportTicket_AssigningNonAdmin_Returns400()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+        var user = MakeOwner(8_600_000_921L, "adminep-ticket-user");
+        dbContext.HubUsers.Add(user);
+        dbContext.ContactSubmissions.Add(MakeTicket(8_600_000_922L, SupportTicketStatus.Open));
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PutAsJsonAsync("/api/v1/admin/tickets/8600000922",
+            new { status = "Pending", assigneeId = user.Id.ToString() });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+    }
+
+    [Fact]
+    public async Task GetSupportTicket_OtherUsersTicket_Returns404()
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+        var owner = MakeOwner(8_600_000_931L, "adminep-ticket-owner");
+        dbContext.HubUsers.Add(owner);
+        dbContext.ContactSubmissions.Add(MakeTicket(8_600_000_932L, SupportTicketStatus.Open, owner.Id));
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateUserClient();
+
+        // Act
+        var response = await client.GetAsync("/api/v1/hub/tickets/8600000932");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    // ── Admin 2FA requirement ─────────────────────────────────────────────────
+
+    [Fact]
+    public async Task AdminEndpoints_WhenTwoFactorRequired_RejectAdminsWithoutTwoFactor()
+    {
+        await using var dbContext = CreateDbContext();
+        var withoutTwoFactor = MakeOwner(8_700_000_001L, "adminep-2fa-off");
+        withoutTwoFactor.IsAdmin = true;
+        var withTwoFactor = MakeOwner(8_700_000_002L, "adminep-2fa-on");
+        withTwoFactor.IsAdmin = true;
+        withTwoFactor.TwoFactorEnabled = true;
+        dbContext.HubUsers.AddRange(withoutTwoFactor, withTwoFactor);
+        await dbContext.SaveChangesAsync();
+
+        var systemConfig = new SystemConfigService(dbContext);
+        await systemConfig.SetRequireAdminTwoFactorAsync(true);
+        try
+        {
+            using var blocked = _fixture.Factory.CreateClient();
+            blocked.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue(
+                "Bearer", _fixture.IssueToken(withoutTwoFactor.Id, isAdmin: true));
+            using var allowed = _fixture.Factory.CreateClient();
+            allowed.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue(
+                "Bearer", _fixture.IssueToken(withTwoFactor.Id, isAdmin: true));
+
+            (await blocked.GetAsync("/api/v1/admin/instances")).StatusCode.Should().Be(HttpStatusCode.Forbidden);
+            (await blocked.GetAsync("/api/v1/admin/system-config")).StatusCode.Should().Be(HttpStatusCode.Forbidden);
+            (await allowed.GetAsync("/api/v1/admin/instances")).StatusCode.Should().Be(HttpStatusCode.OK);
+
+            // The panel still needs the session to explain why everything else is refused
+            var session = await blocked.GetFromJsonAsync<AdminSessionDto>("/api/v1/admin/session");
+            session!.TwoFactorRequired.Should().BeTrue();
+            session.TwoFactorEnabled.Should().BeFalse();
+        }
+        finally
+        {
+            await systemConfig.SetRequireAdminTwoFactorAsync(false);
+        }
+    }
+
+    // ── PATCH /api/v1/admin/instances/{id}/feature-flags and resource-limits ──
+
+    private static readonly FeatureFlags SeededFlags = new() { CanCreateBots = true, CanUseThreads = true };
+
+    private static readonly ResourceLimits SeededLimits = new()
+    {
+        MaxUsers = 100, MaxServers = 10, MaxStorageMb = 1024, MaxCpuPercent = 100, MaxMemoryMb = 512, MaxRateLimit = 60
+    };
+
+    private async Task SeedConfiguredInstanceAsync(long ownerId, long instanceId, string name)
+    {
+        await using var dbContext = CreateDbContext();
+        dbContext.HubUsers.Add(MakeOwner(ownerId, $"adminep-{name}-owner"));
+        dbContext.ManagedInstances.Add(new ManagedInstance
+        {
+            Id = instanceId,
+            OwnerId = ownerId,
+            Domain = $"adminep-{name}.xcord.net",
+            DisplayName = name,
+            Status = InstanceStatus.Running,
+            SnowflakeWorkerId = (int)(instanceId % 1000),
+            CreatedAt = DateTimeOffset.UtcNow,
+            Config = new InstanceConfig
+            {
+                ManagedInstanceId = instanceId,
+                FeatureFlagsJson = JsonSerializer.Serialize(SeededFlags),
+                ResourceLimitsJson = JsonSerializer.Serialize(SeededLimits),
+                CreatedAt = DateTimeOffset.UtcNow,
+                UpdatedAt = DateTimeOffset.UtcNow
+            }
+        });
+        await dbContext.SaveChangesAsync();
+    }
+
+    private async Task<InstanceConfig> ReadConfigAsync(long instanceId)
+    {
+        await using var verifyContext = CreateDbContext();
+        return await verifyContext.InstanceConfigs.AsNoTracking().SingleAsync(c => c.ManagedInstanceId == instanceId);
+    }
+
+    [Fact]
+    public async Task UpdateFeatureFlags_PartialUpdate_ChangesOnlyTheGivenFlags()
+    {
+        // Arrange
+        const long instanceId = 8_900_000_311L;
+        await SeedConfiguredInstanceAsync(8_900_000_301L, instanceId, "flags-partial");
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PatchAsJsonAsync($"/api/v1/admin/instances/{instanceId}/feature-flags", new
+        {
+            flags = new Dictionary<string, bool> { ["canCreateBots"] = false, ["canUseWebhooks"] = true }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var config = await ReadConfigAsync(instanceId);
+        JsonSerializer.Deserialize<FeatureFlags>(config.FeatureFlagsJson)
+            .Should().Be(SeededFlags with { CanCreateBots = false, CanUseWebhooks = true });
+        config.Version.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task UpdateFeatureFlags_UnknownFlag_Returns400AndLeavesFlagsUnchanged()
+    {
+        // Arrange
+        const long instanceId = 8_900_000_321L;
+        await SeedConfiguredInstanceAsync(8_900_000_302L, instanceId, "flags-unknown");
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PatchAsJsonAsync($"/api/v1/admin/instances/{instanceId}/feature-flags", new
+        {
+            flags = new Dictionary<string, bool> { ["canUseWebhooks"] = true, ["canTeleport"] = true }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        var problem = await response.Content.ReadFromJsonAsync<ProblemDto>();
+        problem!.Title.Should().Be("UNKNOWN_FIELD");
+
+        var config = await ReadConfigAsync(instanceId);
+        JsonSerializer.Deserialize<FeatureFlags>(config.FeatureFlagsJson).Should().Be(SeededFlags);
+        config.Version.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task UpdateResourceLimits_PartialUpdate_ChangesOnlyTheGivenLimits()
+    {
+        // Arrange
+        const long instanceId = 8_900_000_331L;
+        await SeedConfiguredInstanceAsync(8_900_000_303L, instanceId, "limits-partial");
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PatchAsJsonAsync($"/api/v1/admin/instances/{instanceId}/resource-limits", new
+        {
+            limits = new Dictionary<string, int> { ["maxUsers"] = 250, ["maxStageSize"] = 16 }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+
+        var config = await ReadConfigAsync(instanceId);
+        JsonSerializer.Deserialize<ResourceLimits>(config.ResourceLimitsJson)
+            .Should().Be(SeededLimits with { MaxUsers = 250, MaxStageSize = 16 });
+        config.Version.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task UpdateResourceLimits_UnknownLimit_Returns400AndLeavesLimitsUnchanged()
+    {
+        // Arrange
+        const long instanceId = 8_900_000_341L;
+        await SeedConfiguredInstanceAsync(8_900_000_304L, instanceId, "limits-unknown");
+        using var client = CreateAdminClient();
+
+        // Act
+        var response = await client.PatchAsJsonAsync($"/api/v1/admin/instances/{instanceId}/resource-limits", new
+        {
+            limits = new Dictionary<string, int> { ["maxUsers"] = 250, ["maxChannels"] = 50 }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        var problem = await response.Content.ReadFromJsonAsync<ProblemDto>();
+        problem!.Title.Should().Be("UNKNOWN_FIELD");
+
+        var config = await ReadConfigAsync(instanceId);
+        JsonSerializer.Deserialize<ResourceLimits>(config.ResourceLimitsJson).Should().Be(SeededLimits);
+        config.Version.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task UpdateResourceLimits_OutOfRange_Returns400AndLeavesLimitsUnchanged()
+    {
+        // Arrange
+        const long instanceId = 8_900_000_351L;
+        await SeedConfiguredInstanceAsync(8_900_000_305L, instanceId, "limits-range");
+        using var client = CreateAdminClient();
+
+        // Act - Memory allows 64 to 65,536 MB
+        var response = await client.PatchAsJsonAsync($"/api/v1/admin/instances/{instanceId}/resource-limits", new
+        {
+            limits = new Dictionary<string, int> { ["maxUsers"] = 250, ["maxMemoryMb"] = 32 }
+        });
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        var problem = await response.Content.ReadFromJsonAsync<ProblemDto>();
+        problem!.Title.Should().Be("OUT_OF_RANGE");
+        problem.Detail.Should().Be("Memory must be between 64 and 65536");
+
+        var config = await ReadConfigAsync(instanceId);
+        JsonSerializer.Deserialize<ResourceLimits>(config.ResourceLimitsJson).Should().Be(SeededLimits);
+        config.Version.Should().Be(0);
+    }
+
+    // ── DTOs for deserialization ───────────────────────────────────────────────
+
+    private sealed record ProblemDto(string Title, string? Detail);
+
+    private sealed record AdminSessionDto(bool TwoFactorEnabled, bool TwoFactorRequired);
+
+    private sealed record SupportTicketListDto(List<SupportTicketItemDto> Tickets, SupportTicketCountsDto Counts);
+
+    private sealed record SupportTicketItemDto(string Id, string Status);
+
+    private sealed record SupportTicketCountsDto(int Open, int Pending, int Closed);
+
+    private sealed record InstanceBackupStorageDto(long StoredBytes, int StoredCount, List<BackupKindSizeDto> RecentSizes);
+
+    private sealed record BackupKindSizeDto(string Kind, long AverageBytes, int SampleCount);
+
+    private sealed record BackupTemplateItemDto(string Id, string Name, List<string> Tiers);
+
+    private sealed record BackupTemplateDiffDto(List<BackupTemplateDiffItemDto> Instances, int UnchangedCount);
+
+    private sealed record BackupTemplateDiffItemDto(string InstanceId, bool IsOverridden);
+
+    private sealed record AdminListInstancesResponseDto(
+        List<AdminInstanceListItemDto> Instances,
+        int Total,
+        int Page,
+        int PageSize
+    );
+
+    private sealed record AdminInstanceListItemDto(
+        long Id,
+        string Subdomain,
+        string DisplayName,
+        string Status,
+        string Tier,
+        DateTimeOffset CreatedAt,
+        string OwnerUsername,
+        string? DeployedImage,
+        string Health
+    );
+
+    private sealed record ProvisioningTimelineDto(
+        string InstanceId,
+        string InstanceStatus,
+        bool CanRetry,
+        List<ProvisioningStepDto> Steps
+    );
+
+    private sealed record ProvisioningStepDto(
+        string StepName,
+        string Status,
+        int Attempts,
+        long? DurationMs,
+        string? ErrorMessage
+    );
+
+    private sealed record InstanceUptimeDto(
+        string InstanceId,
+        double? Availability7Days,
+        double? Availability30Days,
+        double? Availability90Days,
+        List<UptimeDayDto> Days,
+        List<UptimeOutageDto> Outages
+    );
+
+    private sealed record UptimeDayDto(
+        DateOnly Date,
+        double MonitoredMinutes,
+        double DowntimeMinutes,
+        double? AvailabilityPercentage
+    );
+
+    private sealed record UptimeOutageDto(
+        DateTimeOffset StartedAt,
+        DateTimeOffset? EndedAt,
+        double DurationMinutes,
+        bool IsOngoing
+    );
+
+    private sealed record PreviewUpgradeDto(
+        string ToImage,
+        int TotalInstances,
+        int BatchSize,
+        List<PreviewBatchDto> Batches,
+        List<PreviewSkippedDto> Skipped,
+        int EstimatedSecondsPerBatch,
+        int EstimatedDurationSeconds,
+        int EstimateSampleSize
+    );
+
+    private sealed record PreviewInstanceDto(string Id, string Domain, string Status, string? CurrentImage);
+
+    private sealed record InstanceRollbackDto(
+        string UpgradeEventId,
+        string Status,
+        string FromImage,
+        string? ToImage,
+        string? ToVersion,
+        string? PreUpgradeBackupId,
+        string? BlockedReason
+    );
+
+    private sealed record AuditLogDto(List<AuditLogEntryDto> Entries, int Total);
+
+    private sealed record AuditLogEntryDto(
+        string Id,
+        string? ActorId,
+        string ActorName,
+        string Action,
+        string TargetType,
+        string? TargetId,
+        string? Reason,
+        List<AuditChangeDto> Changes
+    );
+
+    private sealed record AuditChangeDto(string Field, string? Before, string? After);
+
+    private sealed record RestorePreviewDto(List<RestorePlanComponentDto> Components, bool CanRestore);
+
+    private sealed record RestorePlanComponentDto(string Component, string? BackupId, string? Problem);
+
+    private sealed record PreviewBatchDto(int Number, int? Stage, List<PreviewInstanceDto> Instances);
+
+    private sealed record PreviewSkippedDto(PreviewInstanceDto Instance, string Reason);
 
     private sealed record AdminGetInstanceResponseDto(
         long Id,
@@ -469,6 +469,35 @@ public sealed class InstanceEndpointTests
         response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
     }
 
+    // ── GET /api/v1/hub/instances/{id}/… status views ─────────────────────────
+
+    [Theory]
+    [InlineData("uptime", 0)]
+    [InlineData("provisioning", 1)]
+    [InlineData("minimum-version", 2)]
+    public async Task GetInstanceStatusView_NonOwner_Returns403(string view, int offset)
+    {
+        // Arrange
+        await using var dbContext = CreateDbContext();
+
+        var ownerId = 9_100_000_030L + offset * 2;
+        var nonOwnerId = ownerId + 1;
+        var instanceId = 9_200_000_030L + offset;
+
+        dbContext.HubUsers.Add(MakeUser(ownerId, $"instep-{view}-owner"));
+        dbContext.HubUsers.Add(MakeUser(nonOwnerId, $"instep-{view}-other"));
+        dbContext.ManagedInstances.Add(MakeInstance(instanceId, ownerId, $"instep-{view}.xcord-dev.net"));
+        await dbContext.SaveChangesAsync();
+
+        using var client = CreateUserClient(nonOwnerId);
+
+        // Act
+        var response = await client.GetAsync($"/api/v1/hub/instances/{instanceId}/{view}");
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.Forbidden);
+    }
+
     // ── DTOs for deserialization ───────────────────────────────────────────────
 
     private sealed record GetInstanceResponseDto(
@@ -1,3 +1,4 @@
+using System.Runtime.CompilerServices;
 using System.Text;
 using FluentAssertions;
 using Microsoft.EntityFrameworkCore;
@@ -97,6 +98,12 @@ public sealed class LifecycleTests
             _callLog.Add($"RemoveNetwork:{networkId}");
             return Task.CompletedTask;
         }
+        public Task<IReadOnlyList<ContainerLogLine>> GetServiceLogsAsync(string serviceId, int tail, DateTimeOffset? since = null, DateTimeOffset? until = null, CancellationToken cancellationToken = default) => Task.FromResult<IReadOnlyList<ContainerLogLine>>([]);
+        public async IAsyncEnumerable<ContainerLogLine> FollowServiceLogsAsync(string serviceId, int tail, [EnumeratorCancellation] CancellationToken cancellationToken = default)
+        {
+            await Task.CompletedTask;
+            yield break;
+        }
     }
 
     private sealed class SpyCaddyProxyManager : ICaddyProxyManager
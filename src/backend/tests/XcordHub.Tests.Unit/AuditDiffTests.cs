@@ -0,0 +1,68 @@
+using FluentAssertions;
+using XcordHub.Features.Audit;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class AuditDiffTests
+{
+    [Fact]
+    public void Compute_ReturnsOnlyChangedFields()
+    {
+        var changes = AuditDiff.Compute(
+            """{"enabled":true,"frequency":"Daily","retentionDays":7}""",
+            """{"enabled":true,"frequency":"Weekly","retentionDays":30}""");
+
+        changes.Should().BeEquivalentTo(new[]
+        {
+            new AuditChangeItem("frequency", "Daily", "Weekly"),
+            new AuditChangeItem("retentionDays", "7", "30")
+        }, options => options.WithStrictOrdering());
+    }
+
+    [Fact]
+    public void Compute_FlattensNestedObjectsToDottedPaths()
+    {
+        var changes = AuditDiff.Compute(
+            """{"limits":{"maxUsers":50,"maxStorageMb":1024}}""",
+            """{"limits":{"maxUsers":100,"maxStorageMb":1024}}""");
+
+        changes.Should().ContainSingle()
+            .Which.Should().Be(new AuditChangeItem("limits.maxUsers", "50", "100"));
+    }
+
+    [Fact]
+    public void Compute_ComparesArraysAsAWhole()
+    {
+        var changes = AuditDiff.Compute("""{"tags":["a","b"]}""", """{"tags":["a","c"]}""");
+
+        changes.Should().ContainSingle()
+            .Which.Should().Be(new AuditChangeItem("tags", """["a","b"]""", """["a","c"]"""));
+    }
+
+    [Fact]
+    public void Compute_WithoutBefore_ListsEveryFieldAsAdded()
+    {
+        var changes = AuditDiff.Compute(null, """{"version":"1.2.0","image":"docker.xcord.net/fed:1.2.0"}""");
+
+        changes.Should().BeEquivalentTo(new[]
+        {
+            new AuditChangeItem("version", null, "1.2.0"),
+            new AuditChangeItem("image", null, "docker.xcord.net/fed:1.2.0")
+        });
+    }
+
+    [Fact]
+    public void Compute_WithoutAfter_ListsEveryFieldAsRemoved()
+    {
+        var changes = AuditDiff.Compute("""{"status":"Completed"}""", null);
+
+        changes.Should().ContainSingle()
+            .Which.Should().Be(new AuditChangeItem("status", "Completed", null));
+    }
+
+    [Fact]
+    public void Compute_IgnoresUnparseableSnapshots()
+    {
+        AuditDiff.Compute("not json", null).Should().BeEmpty();
+    }
+}
@@ -0,0 +1,42 @@
+using FluentAssertions;
+using XcordHub.Features.Backups;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class BackupChecksumTests
+{
+    [Fact]
+    public void Combine_DoesNotDependOnObjectOrder()
+    {
+        var first = new Dictionary<string, string> { ["db-meta.json"] = "aa", ["redis-meta.json"] = "bb" };
+        var second = new Dictionary<string, string> { ["redis-meta.json"] = "bb", ["db-meta.json"] = "aa" };
+
+        BackupChecksum.Combine(first).Should().Be(BackupChecksum.Combine(second));
+    }
+
+    [Fact]
+    public void Combine_ChangesWhenAnObjectChangesOrGoesMissing()
+    {
+        var original = new Dictionary<string, string> { ["db-meta.json"] = "aa", ["redis-meta.json"] = "bb" };
+        var changed = new Dictionary<string, string> { ["db-meta.json"] = "aa", ["redis-meta.json"] = "cc" };
+        var missing = new Dictionary<string, string> { ["db-meta.json"] = "aa" };
+
+        BackupChecksum.Combine(changed).Should().NotBe(BackupChecksum.Combine(original));
+        BackupChecksum.Combine(missing).Should().NotBe(BackupChecksum.Combine(original));
+    }
+
+    [Fact]
+    public void HashObject_IsLowercaseHexSha256()
+    {
+        BackupChecksum.HashObject("abc"u8.ToArray())
+            .Should().Be("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    }
+
+    [Theory]
+    [InlineData("backups/a.xcord.net/full/20261010_120000/db-meta.json", "db-meta.json")]
+    [InlineData("elsewhere/db-meta.json", "elsewhere/db-meta.json")]
+    public void ObjectName_IsRelativeToTheStoragePath(string key, string expected)
+    {
+        BackupChecksum.ObjectName("backups/a.xcord.net/full/20261010_120000", key).Should().Be(expected);
+    }
+}
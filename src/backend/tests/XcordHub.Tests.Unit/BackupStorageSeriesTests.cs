@@ -0,0 +1,47 @@
+using FluentAssertions;
+using XcordHub.Features.Backups;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class BackupStorageSeriesTests
+{
+    private static readonly DateOnly Day1 = new(2026, 10, 1);
+
+    [Fact]
+    public void BuildDailySeries_FillsDaysWithoutBackups()
+    {
+        var series = GetBackupStorageHandler.BuildDailySeries(Day1, Day1.AddDays(2), 500, [], []);
+
+        series.Select(d => d.Date).Should().Equal("2026-10-01", "2026-10-02", "2026-10-03");
+        series.Should().OnlyContain(d => d.AddedBytes == 0 && d.RemovedBytes == 0 && d.StoredBytes == 500);
+    }
+
+    [Fact]
+    public void BuildDailySeries_AccumulatesAddedAndRemovedBytes()
+    {
+        var added = new[]
+        {
+            new DailyBackupBytes(Day1, 100),
+            new DailyBackupBytes(Day1, 50),
+            new DailyBackupBytes(Day1.AddDays(2), 300)
+        };
+        var removed = new[] { new DailyBackupBytes(Day1.AddDays(1), 120) };
+
+        var series = GetBackupStorageHandler.BuildDailySeries(Day1, Day1.AddDays(2), 1000, added, removed);
+
+        series.Should().Equal(
+            new BackupStorageDay("2026-10-01", 150, 0, 1150),
+            new BackupStorageDay("2026-10-02", 0, 120, 1030),
+            new BackupStorageDay("2026-10-03", 300, 0, 1330));
+    }
+
+    [Fact]
+    public void BuildDailySeries_IgnoresBytesOutsideTheRange()
+    {
+        var added = new[] { new DailyBackupBytes(Day1.AddDays(-1), 100), new DailyBackupBytes(Day1.AddDays(5), 100) };
+
+        var series = GetBackupStorageHandler.BuildDailySeries(Day1, Day1, 0, added, []);
+
+        series.Should().ContainSingle().Which.StoredBytes.Should().Be(0);
+    }
+}
@@ -0,0 +1,90 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Backups;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class BackupTemplateSettingsTests
+{
+    private static BackupTemplateRequest Request(
+        string frequency = "Daily", string? databaseFrequency = null, int retentionDays = 30, params string[] tiers) =>
+        new("Enterprise", frequency, databaseFrequency, retentionDays, true, true, true, 1, tiers.ToList());
+
+    private static BackupPolicyTemplate Template() => new()
+    {
+        Id = 10,
+        Name = "Enterprise: hourly DB + daily full, 90 days",
+        Frequency = BackupFrequency.Daily,
+        DatabaseFrequency = BackupFrequency.Hourly,
+        RetentionDays = 90,
+        BackupDatabase = true,
+        BackupFiles = true,
+        BackupRedis = false,
+        VerifySampleSize = 2
+    };
+
+    [Fact]
+    public void Validate_AcceptsAWellFormedTemplate()
+    {
+        BackupTemplateSettings.Validate(Request("daily", "Hourly", 90, "Pro", "enterprise")).Should().BeNull();
+    }
+
+    [Theory]
+    [InlineData("Monthly", null, 30)]
+    [InlineData("Daily", "Monthly", 30)]
+    [InlineData("Daily", null, 0)]
+    [InlineData("Daily", null, 366)]
+    public void Validate_RejectsUnknownFrequenciesAndOutOfRangeRetention(string frequency, string? databaseFrequency, int retentionDays)
+    {
+        BackupTemplateSettings.Validate(Request(frequency, databaseFrequency, retentionDays)).Should().NotBeNull();
+    }
+
+    [Theory]
+    [InlineData("Gold")]
+    [InlineData("7")]
+    public void ParseTiers_RejectsUnknownTiers(string tier)
+    {
+        BackupTemplateSettings.ParseTiers(["Free", tier]).Should().BeNull();
+    }
+
+    [Fact]
+    public void ParseTiers_RejectsRepeatedTiers()
+    {
+        BackupTemplateSettings.ParseTiers(["Pro", "pro"]).Should().BeNull();
+    }
+
+    [Fact]
+    public void Diff_ListsOnlyTheSettingsThatChange()
+    {
+        var policy = new BackupPolicy
+        {
+            Frequency = BackupFrequency.Daily,
+            RetentionDays = 30,
+            BackupDatabase = true,
+            BackupFiles = true,
+            BackupRedis = true,
+            VerifySampleSize = 2
+        };
+
+        BackupTemplateSettings.Diff(policy, Template()).Should().BeEquivalentTo(new[]
+        {
+            new BackupPolicyChange("databaseFrequency", "None", "Hourly"),
+            new BackupPolicyChange("retentionDays", "30", "90"),
+            new BackupPolicyChange("backupRedis", "Yes", "No")
+        }, options => options.WithStrictOrdering());
+    }
+
+    [Fact]
+    public void Apply_CopiesTheTemplateAndClearsTheOverride()
+    {
+        var policy = new BackupPolicy { Enabled = false, IsOverridden = true, Frequency = BackupFrequency.Weekly };
+        var template = Template();
+
+        BackupTemplateSettings.Apply(template, policy);
+
+        BackupTemplateSettings.Diff(policy, template).Should().BeEmpty();
+        policy.BackupPolicyTemplateId.Should().Be(10);
+        policy.IsOverridden.Should().BeFalse();
+        policy.Enabled.Should().BeFalse();
+    }
+}
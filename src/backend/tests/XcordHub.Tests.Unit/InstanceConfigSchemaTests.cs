@@ -0,0 +1,119 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Instances;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class InstanceConfigSchemaTests
+{
+    // ---------------------------------------------------------------------------
+    // Describe - every record property is published with its metadata
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void DescribeResourceLimits_PublishesEveryProperty()
+    {
+        var limits = TierDefaults.GetResourceLimits(InstanceTier.Pro);
+
+        var fields = InstanceConfigSchema.DescribeResourceLimits(limits, limits);
+
+        fields.Select(f => f.Key).Should().BeEquivalentTo(
+            typeof(ResourceLimits).GetProperties().Select(p => char.ToLowerInvariant(p.Name[0]) + p.Name[1..]));
+        fields.Should().OnlyContain(f => f.Label != f.Key && f.Group != "Other");
+    }
+
+    [Fact]
+    public void DescribeResourceLimits_CarriesUnitRangeDefaultAndValue()
+    {
+        var defaults = TierDefaults.GetResourceLimits(InstanceTier.Basic);
+        var current = defaults with { MaxUsers = 75 };
+
+        var field = InstanceConfigSchema.DescribeResourceLimits(current, defaults)
+            .Single(f => f.Key == "maxUsers");
+
+        field.Label.Should().Be("Max Users");
+        field.Unit.Should().Be("users");
+        field.Min.Should().Be(1);
+        field.TierDefault.Should().Be(50);
+        field.Value.Should().Be(75);
+    }
+
+    [Fact]
+    public void DescribeFeatureFlags_PublishesEveryProperty()
+    {
+        var flags = TierDefaults.GetFeatureFlags(InstanceTier.Pro, mediaEnabled: true);
+
+        var fields = InstanceConfigSchema.DescribeFeatureFlags(flags, flags);
+
+        fields.Should().HaveCount(typeof(FeatureFlags).GetProperties().Length);
+        fields.Single(f => f.Key == "canBroadcast").Should().Match<FeatureFlagField>(
+            f => f.Label == "Broadcasting" && f.Group == "Media" && f.Value && f.TierDefault);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Apply - keyed updates merge onto the current record
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void ApplyResourceLimits_UpdatesOnlyGivenKeys()
+    {
+        var current = TierDefaults.GetResourceLimits(InstanceTier.Pro);
+
+        var result = InstanceConfigSchema.ApplyResourceLimits(current, new Dictionary<string, int>
+        {
+            ["maxUsers"] = 300,
+            ["broadcastMaxBitrateKbps"] = 6000,
+        });
+
+        result.IsSuccess.Should().BeTrue();
+        result.Value.Should().Be(current with { MaxUsers = 300, BroadcastMaxBitrateKbps = 6000 });
+        current.MaxUsers.Should().Be(200);
+    }
+
+    [Fact]
+    public void ApplyResourceLimits_UnknownKey_ReturnsBadRequest()
+    {
+        var result = InstanceConfigSchema.ApplyResourceLimits(
+            new ResourceLimits(), new Dictionary<string, int> { ["maxMembers"] = 10 });
+
+        result.IsFailure.Should().BeTrue();
+        result.Error!.Code.Should().Be("UNKNOWN_FIELD");
+    }
+
+    [Theory]
+    [InlineData("maxUsers", 0)]
+    [InlineData("maxCpuPercent", 5000)]
+    public void ApplyResourceLimits_OutOfRange_ReturnsBadRequest(string key, int value)
+    {
+        var result = InstanceConfigSchema.ApplyResourceLimits(
+            TierDefaults.GetResourceLimits(InstanceTier.Free), new Dictionary<string, int> { [key] = value });
+
+        result.IsFailure.Should().BeTrue();
+        result.Error!.Code.Should().Be("OUT_OF_RANGE");
+    }
+
+    [Fact]
+    public void ApplyFeatureFlags_UpdatesOnlyGivenKeys()
+    {
+        var current = TierDefaults.GetFeatureFlags(InstanceTier.Basic);
+
+        var result = InstanceConfigSchema.ApplyFeatureFlags(current, new Dictionary<string, bool>
+        {
+            ["canUseHdVideo"] = true,
+            ["canCreateBots"] = false,
+        });
+
+        result.IsSuccess.Should().BeTrue();
+        result.Value.Should().Be(current with { CanUseHdVideo = true, CanCreateBots = false });
+    }
+
+    [Fact]
+    public void ApplyFeatureFlags_UnknownKey_ReturnsBadRequest()
+    {
+        var result = InstanceConfigSchema.ApplyFeatureFlags(
+            new FeatureFlags(), new Dictionary<string, bool> { ["allowBots"] = true });
+
+        result.IsFailure.Should().BeTrue();
+        result.Error!.Code.Should().Be("UNKNOWN_FIELD");
+    }
+}
@@ -0,0 +1,68 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Admin;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class KeyReEncryptionProgressTests
+{
+    private static readonly DateTimeOffset Now = new(2026, 10, 1, 12, 0, 0, TimeSpan.Zero);
+
+    private static KeyRotation Rotation(int valuesToReEncrypt = 10) => new()
+    {
+        Id = 1,
+        FromVersion = 1,
+        ToVersion = 2,
+        Status = KeyRotationStatus.ReEncrypting,
+        ValuesToReEncrypt = valuesToReEncrypt,
+        StartedAt = Now.AddMinutes(-1)
+    };
+
+    [Fact]
+    public void RecordProgress_ValuesRemaining_CountsProgressAndKeepsReEncrypting()
+    {
+        var rotation = Rotation();
+
+        KeyReEncryptionService.RecordProgress(rotation, rewritten: 4, remaining: 6, Now);
+
+        rotation.ValuesReEncrypted.Should().Be(4);
+        rotation.Status.Should().Be(KeyRotationStatus.ReEncrypting);
+        rotation.CompletedAt.Should().BeNull();
+    }
+
+    [Fact]
+    public void RecordProgress_NothingRemaining_Completes()
+    {
+        var rotation = Rotation();
+
+        KeyReEncryptionService.RecordProgress(rotation, rewritten: 6, remaining: 0, Now);
+
+        rotation.ValuesReEncrypted.Should().Be(10);
+        rotation.Status.Should().Be(KeyRotationStatus.Completed);
+        rotation.CompletedAt.Should().Be(Now);
+    }
+
+    [Fact]
+    public void RecordProgress_NothingRewrittenWhileValuesRemain_FailsInsteadOfCompleting()
+    {
+        var rotation = Rotation();
+
+        KeyReEncryptionService.RecordProgress(rotation, rewritten: 0, remaining: 3, Now);
+
+        rotation.ValuesReEncrypted.Should().Be(7);
+        rotation.Status.Should().Be(KeyRotationStatus.Failed);
+        rotation.Error.Should().Be("3 value(s) are still under an older key version but none could be re-encrypted");
+        rotation.CompletedAt.Should().Be(Now);
+    }
+
+    [Fact]
+    public void RecordProgress_ValuesEncryptedSinceTheRotationStarted_NeverCountBelowZero()
+    {
+        var rotation = Rotation(valuesToReEncrypt: 2);
+
+        KeyReEncryptionService.RecordProgress(rotation, rewritten: 1, remaining: 5, Now);
+
+        rotation.ValuesReEncrypted.Should().Be(0);
+        rotation.Status.Should().Be(KeyRotationStatus.ReEncrypting);
+    }
+}
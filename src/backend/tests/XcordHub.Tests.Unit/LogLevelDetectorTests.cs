@@ -0,0 +1,60 @@
+using FluentAssertions;
+using XcordHub.Features.Admin;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class LogLevelDetectorTests
+{
+    // ---------------------------------------------------------------------------
+    // Detect - recognised log shapes
+    // ---------------------------------------------------------------------------
+
+    [Theory]
+    [InlineData("info: Microsoft.Hosting.Lifetime[0]", "info")]
+    [InlineData("fail: XcordFed.Api[0] Unhandled exception", "error")]
+    [InlineData("crit: XcordFed.Api[0] Host terminated", "fatal")]
+    [InlineData("dbug: XcordFed.Gateway[0]", "debug")]
+    public void Detect_ConsoleFormatterPrefix(string message, string expected)
+    {
+        LogLevelDetector.Detect(message).Should().Be(expected);
+    }
+
+    [Theory]
+    [InlineData("[12:00:01 WRN] Slow query took 1200ms", "warn")]
+    [InlineData("[ERR] Connection refused", "error")]
+    [InlineData("[12:00:01 VRB] Frame received", "trace")]
+    public void Detect_SerilogBracketedLevel(string message, string expected)
+    {
+        LogLevelDetector.Detect(message).Should().Be(expected);
+    }
+
+    [Theory]
+    [InlineData("{\"timestamp\":\"2026-01-01T00:00:00Z\",\"level\":\"Error\",\"message\":\"boom\"}", "error")]
+    [InlineData("{\"@t\":\"2026-01-01T00:00:00Z\",\"@l\":\"Warning\",\"@mt\":\"slow\"}", "warn")]
+    [InlineData("{\"LogLevel\":\"Information\",\"Message\":\"started\"}", "info")]
+    public void Detect_StructuredJsonLevel(string message, string expected)
+    {
+        LogLevelDetector.Detect(message).Should().Be(expected);
+    }
+
+    [Theory]
+    [InlineData("ERROR could not bind port", "error")]
+    [InlineData("2026-01-01 12:00:00 WARNING disk almost full", "warn")]
+    public void Detect_UpperCasePrefix(string message, string expected)
+    {
+        LogLevelDetector.Detect(message).Should().Be(expected);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Detect - lines without a level
+    // ---------------------------------------------------------------------------
+
+    [Theory]
+    [InlineData("Listening on http://0.0.0.0:8080")]
+    [InlineData("User reported an error in the chat")]
+    [InlineData("")]
+    public void Detect_NoRecognisableLevel_ReturnsNull(string message)
+    {
+        LogLevelDetector.Detect(message).Should().BeNull();
+    }
+}
@@ -0,0 +1,89 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Upgrades;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class MinimumVersionComplianceTests
+{
+    private static readonly AvailableVersion Minimum = new()
+    {
+        Id = 1,
+        Version = "1.10.0",
+        Image = "docker.xcord.net/fed:1.10.0",
+        IsMinimumVersion = true
+    };
+
+    private static readonly Dictionary<string, string> VersionsByImage = new()
+    {
+        ["docker.xcord.net/fed:1.9.2"] = "1.9.2",
+        ["docker.xcord.net/fed:1.10.0"] = "1.10.0",
+        ["docker.xcord.net/fed:latest-stable"] = "1.11.0"
+    };
+
+    // ---------------------------------------------------------------------------
+    // CompareVersions
+    // ---------------------------------------------------------------------------
+
+    [Theory]
+    [InlineData("1.9.0", "1.10.0", -1)]
+    [InlineData("1.10.0", "1.9.9", 1)]
+    [InlineData("v1.2.0", "1.2", 0)]
+    [InlineData("2.0.0", "10.0.0", -1)]
+    public void CompareVersions_ComparesNumericPartsNumerically(string a, string b, int expected)
+    {
+        MinimumVersionCompliance.CompareVersions(a, b).Should().Be(expected);
+    }
+
+    // ---------------------------------------------------------------------------
+    // VersionOf
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void VersionOf_PrefersThePublishedVersionOverTheImageTag()
+    {
+        MinimumVersionCompliance.VersionOf("docker.xcord.net/fed:latest-stable", VersionsByImage).Should().Be("1.11.0");
+        MinimumVersionCompliance.VersionOf("docker.xcord.net/fed:1.8.0", VersionsByImage).Should().Be("1.8.0");
+        MinimumVersionCompliance.VersionOf("localhost:5000/fed", VersionsByImage).Should().BeNull();
+    }
+
+    // ---------------------------------------------------------------------------
+    // IsBelowMinimum
+    // ---------------------------------------------------------------------------
+
+    [Theory]
+    [InlineData("docker.xcord.net/fed:1.9.2", true)]
+    [InlineData("docker.xcord.net/fed:1.8.0", true)]
+    [InlineData("localhost:5000/fed", true)]
+    [InlineData("docker.xcord.net/fed:1.10.0", false)]
+    [InlineData("docker.xcord.net/fed:latest-stable", false)]
+    [InlineData("docker.xcord.net/fed:1.12.1", false)]
+    [InlineData(null, false)]
+    public void IsBelowMinimum_ComparesTheDeployedVersionWithTheMinimum(string? deployedImage, bool expected)
+    {
+        MinimumVersionCompliance.IsBelowMinimum(deployedImage, Minimum, VersionsByImage).Should().Be(expected);
+    }
+
+    // ---------------------------------------------------------------------------
+    // IsEnforced
+    // ---------------------------------------------------------------------------
+
+    [Theory]
+    [InlineData(InstanceStatus.Running, false, true)]
+    [InlineData(InstanceStatus.Running, true, false)]
+    [InlineData(InstanceStatus.Suspended, false, false)]
+    public void IsEnforced_OnlyRunningInstancesOptedOutOfBatchUpgrades(
+        InstanceStatus status, bool batchUpgradesEnabled, bool expected)
+    {
+        var instance = new ManagedInstance
+        {
+            Id = 1,
+            Domain = "i1.xcord.net",
+            DisplayName = "Instance 1",
+            Status = status,
+            Config = new InstanceConfig { BatchUpgradesEnabled = batchUpgradesEnabled }
+        };
+
+        MinimumVersionCompliance.IsEnforced(instance).Should().Be(expected);
+    }
+}
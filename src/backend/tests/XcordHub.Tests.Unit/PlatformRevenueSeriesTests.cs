@@ -0,0 +1,78 @@
+using FluentAssertions;
+using XcordHub.Features.Billing;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class PlatformRevenueSeriesTests
+{
+    private static DateTimeOffset Utc(int year, int month, int day = 1) =>
+        new(year, month, day, 0, 0, 0, TimeSpan.Zero);
+
+    // ---------------------------------------------------------------------------
+    // ValidateRange - bounded so the series stays small
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void ValidateRange_AcceptsRangesUpToTheCap()
+    {
+        var now = Utc(2026, 10, 19);
+
+        GetPlatformRevenueHandler.ValidateRange(null, null, now).Should().BeNull();
+        GetPlatformRevenueHandler.ValidateRange(Utc(2021, 11), null, now).Should().BeNull();
+        GetPlatformRevenueHandler.ValidateRange(Utc(2020, 1), Utc(2025, 1), now).Should().BeNull();
+    }
+
+    [Fact]
+    public void ValidateRange_RejectsInvertedAndOversizedRanges()
+    {
+        var now = Utc(2026, 10, 19);
+
+        GetPlatformRevenueHandler.ValidateRange(Utc(2026, 3), Utc(2026, 3), now).Should().NotBeNull();
+        GetPlatformRevenueHandler.ValidateRange(new DateTimeOffset(1, 1, 1, 0, 0, 0, TimeSpan.Zero), null, now).Should().NotBeNull();
+        GetPlatformRevenueHandler.ValidateRange(Utc(2019, 12), Utc(2025, 1), now).Should().NotBeNull();
+    }
+
+    // ---------------------------------------------------------------------------
+    // BuildMonthlySeries - one contiguous line per month in the range
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void BuildMonthlySeries_FillsMonthsWithoutRevenue()
+    {
+        var totals = new[] { new MonthlyRevenueTotal(2026, 3, 5000, 1500, 3500) };
+
+        var series = GetPlatformRevenueHandler.BuildMonthlySeries(Utc(2026, 1), Utc(2026, 4), totals);
+
+        series.Select(m => m.Month).Should().Equal("2026-01", "2026-02", "2026-03");
+        series[0].AmountCents.Should().Be(0);
+        series[2].Should().Be(new MonthlyRevenueLine("2026-03", 5000, 1500, 3500));
+    }
+
+    [Fact]
+    public void BuildMonthlySeries_IncludesPartialMonthsAtBothEnds()
+    {
+        var series = GetPlatformRevenueHandler.BuildMonthlySeries(
+            Utc(2025, 12, 15), Utc(2026, 2, 10), []);
+
+        series.Select(m => m.Month).Should().Equal("2025-12", "2026-01", "2026-02");
+    }
+
+    [Fact]
+    public void BuildMonthlySeries_ExclusiveEndOnMonthBoundary_OmitsThatMonth()
+    {
+        var series = GetPlatformRevenueHandler.BuildMonthlySeries(Utc(2026, 1), Utc(2026, 2), []);
+
+        series.Select(m => m.Month).Should().Equal("2026-01");
+    }
+
+    [Fact]
+    public void BuildMonthlySeries_NormalizesOffsetsToUtc()
+    {
+        // 2026-02-01 01:00 at +02:00 is still January in UTC
+        var start = new DateTimeOffset(2026, 2, 1, 1, 0, 0, TimeSpan.FromHours(2));
+
+        var series = GetPlatformRevenueHandler.BuildMonthlySeries(start, Utc(2026, 3), []);
+
+        series.Select(m => m.Month).Should().Equal("2026-01", "2026-02");
+    }
+}
@@ -0,0 +1,146 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Provisioning;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class ProvisioningTimelineTests
+{
+    private static readonly string[] Steps = ["ValidateSubdomain", "ProvisionDatabase", "StartApiContainer"];
+    private static readonly DateTimeOffset T0 = new(2026, 10, 1, 12, 0, 0, TimeSpan.Zero);
+
+    private static long _nextId = 1;
+
+    private static ProvisioningEvent Event(
+        string step,
+        ProvisioningPhase phase,
+        ProvisioningStepStatus status,
+        int startSeconds,
+        int? endSeconds,
+        string? error = null) => new()
+    {
+        Id = _nextId++,
+        StepName = step,
+        Phase = phase,
+        Status = status,
+        ErrorMessage = error,
+        StartedAt = T0.AddSeconds(startSeconds),
+        CompletedAt = endSeconds.HasValue ? T0.AddSeconds(endSeconds.Value) : null
+    };
+
+    private static IEnumerable<ProvisioningEvent> CompletedStep(string step, int start, int end) =>
+    [
+        Event(step, ProvisioningPhase.Execute, ProvisioningStepStatus.Completed, start, end - 1),
+        Event(step, ProvisioningPhase.Verify, ProvisioningStepStatus.Completed, end - 1, end)
+    ];
+
+    // ---------------------------------------------------------------------------
+    // Build - step status
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void Build_NoEvents_ListsEveryStepAsPending()
+    {
+        var timeline = ProvisioningTimeline.Build(Steps, []);
+
+        timeline.Select(s => s.StepName).Should().Equal(Steps);
+        timeline.Should().OnlyContain(s => s.Status == "Pending" && s.Attempts == 0 && s.StartedAt == null);
+    }
+
+    [Fact]
+    public void Build_CompletedStep_ReportsDurationFromFirstStartToVerifyEnd()
+    {
+        var timeline = ProvisioningTimeline.Build(Steps, CompletedStep("ValidateSubdomain", 0, 4));
+
+        var step = timeline[0];
+        step.Status.Should().Be("Completed");
+        step.Attempts.Should().Be(1);
+        step.DurationMs.Should().Be(4000);
+        step.ErrorMessage.Should().BeNull();
+        step.Events.Select(e => e.Phase).Should().Equal("Execute", "Verify");
+    }
+
+    [Fact]
+    public void Build_ExecuteDoneVerifyNotStarted_IsInProgress()
+    {
+        var timeline = ProvisioningTimeline.Build(Steps,
+        [
+            Event("ValidateSubdomain", ProvisioningPhase.Execute, ProvisioningStepStatus.Completed, 0, 2)
+        ]);
+
+        timeline[0].Status.Should().Be("InProgress");
+        timeline[0].CompletedAt.Should().BeNull();
+        timeline[0].DurationMs.Should().BeNull();
+    }
+
+    [Fact]
+    public void Build_FailedAttempts_ReportLatestErrorAndAttemptCount()
+    {
+        var events = CompletedStep("ValidateSubdomain", 0, 2).Concat(
+        [
+            Event("ProvisionDatabase", ProvisioningPhase.Execute, ProvisioningStepStatus.Failed, 3, 4, "connection refused"),
+            Event("ProvisionDatabase", ProvisioningPhase.Execute, ProvisioningStepStatus.Failed, 9, 10, "timeout")
+        ]);
+
+        var timeline = ProvisioningTimeline.Build(Steps, events);
+
+        var step = timeline[1];
+        step.Status.Should().Be("Failed");
+        step.Attempts.Should().Be(2);
+        step.ErrorMessage.Should().Be("timeout");
+        step.DurationMs.Should().Be(7000);
+        timeline[2].Status.Should().Be("Pending");
+    }
+
+    [Fact]
+    public void Build_StepRetriedAfterFailure_IsCompletedAndKeepsEarlierAttempts()
+    {
+        var events = new[]
+        {
+            Event("ProvisionDatabase", ProvisioningPhase.Execute, ProvisioningStepStatus.Failed, 0, 1, "timeout")
+        }.Concat(CompletedStep("ProvisionDatabase", 60, 65));
+
+        var step = ProvisioningTimeline.Build(Steps, events)[1];
+
+        step.Status.Should().Be("Completed");
+        step.ErrorMessage.Should().BeNull();
+        step.Attempts.Should().Be(2);
+        step.Events.Should().HaveCount(3);
+        step.Events[0].ErrorMessage.Should().Be("timeout");
+    }
+
+    [Fact]
+    public void Build_EventsForUnknownStep_AreAppendedAfterPipelineSteps()
+    {
+        var timeline = ProvisioningTimeline.Build(Steps, CompletedStep("LegacyStep", 0, 2));
+
+        timeline.Select(s => s.StepName).Should().Equal([.. Steps, "LegacyStep"]);
+        timeline[^1].Status.Should().Be("Completed");
+    }
+
+    // ---------------------------------------------------------------------------
+    // CanRetry
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void CanRetry_FailedInstanceWithFailedStep_IsTrue()
+    {
+        var timeline = ProvisioningTimeline.Build(Steps,
+        [
+            Event("ValidateSubdomain", ProvisioningPhase.Verify, ProvisioningStepStatus.Failed, 0, 1, "taken")
+        ]);
+
+        GetProvisioningTimelineHandler.CanRetry(InstanceStatus.Failed, timeline).Should().BeTrue();
+        GetProvisioningTimelineHandler.CanRetry(InstanceStatus.Provisioning, timeline).Should().BeFalse();
+    }
+
+    [Fact]
+    public void CanRetry_FailedAfterSuccessfulProvisioning_IsFalse()
+    {
+        // e.g. an upgrade or the reconciler marked a provisioned instance Failed
+        var timeline = ProvisioningTimeline.Build(Steps,
+            Steps.SelectMany((step, i) => CompletedStep(step, i * 10, i * 10 + 5)));
+
+        GetProvisioningTimelineHandler.CanRetry(InstanceStatus.Failed, timeline).Should().BeFalse();
+    }
+}
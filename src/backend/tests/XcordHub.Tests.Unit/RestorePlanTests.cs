@@ -0,0 +1,106 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Backups;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class RestorePlanTests
+{
+    private static readonly DateTimeOffset Now = new(2026, 10, 10, 12, 0, 0, TimeSpan.Zero);
+
+    private static BackupRecord Backup(
+        long id,
+        BackupKind kind,
+        DateTimeOffset completedAt,
+        BackupStatus status = BackupStatus.Completed) => new()
+    {
+        Id = id,
+        ManagedInstanceId = 1,
+        Kind = kind,
+        Status = status,
+        StartedAt = completedAt.AddMinutes(-5),
+        CompletedAt = completedAt
+    };
+
+    [Fact]
+    public void ForPointInTime_PicksNewestCoveringBackupAtOrBeforeThePoint()
+    {
+        var backups = new[]
+        {
+            Backup(1, BackupKind.Full, Now.AddDays(-2)),
+            Backup(2, BackupKind.Database, Now.AddHours(-6)),
+            Backup(3, BackupKind.Database, Now.AddHours(-1)),
+            Backup(4, BackupKind.Redis, Now.AddHours(-3))
+        };
+
+        var plan = RestorePlan.ForPointInTime(backups, Now.AddHours(-2),
+            [BackupKind.Database, BackupKind.Files, BackupKind.Redis]);
+
+        plan[BackupKind.Database]!.Id.Should().Be(2);
+        plan[BackupKind.Files]!.Id.Should().Be(1);
+        plan[BackupKind.Redis]!.Id.Should().Be(4);
+    }
+
+    [Fact]
+    public void ForPointInTime_IgnoresFailedAndUnfinishedBackups()
+    {
+        var backups = new[]
+        {
+            Backup(1, BackupKind.Database, Now.AddHours(-4)),
+            Backup(2, BackupKind.Database, Now.AddHours(-1), BackupStatus.Failed),
+            new BackupRecord { Id = 3, Kind = BackupKind.Database, Status = BackupStatus.InProgress, StartedAt = Now.AddMinutes(-30) }
+        };
+
+        var plan = RestorePlan.ForPointInTime(backups, Now, [BackupKind.Database]);
+
+        plan[BackupKind.Database]!.Id.Should().Be(1);
+    }
+
+    [Fact]
+    public void ForPointInTime_WithoutEarlierBackup_LeavesComponentUnplanned()
+    {
+        var backups = new[] { Backup(1, BackupKind.Files, Now.AddHours(-1)) };
+
+        var plan = RestorePlan.ForPointInTime(backups, Now.AddHours(-2), [BackupKind.Files]);
+
+        plan[BackupKind.Files].Should().BeNull();
+    }
+
+    [Fact]
+    public void ForBackup_OnlyPlansComponentsTheBackupContains()
+    {
+        var backup = Backup(1, BackupKind.Redis, Now);
+
+        var plan = RestorePlan.ForBackup(backup, [BackupKind.Database, BackupKind.Redis]);
+
+        plan[BackupKind.Database].Should().BeNull();
+        plan[BackupKind.Redis].Should().BeSameAs(backup);
+    }
+
+    [Theory]
+    [InlineData(new[] { "database", "Redis" }, true)]
+    [InlineData(new[] { "Full" }, false)]
+    [InlineData(new[] { "Files", "files" }, false)]
+    [InlineData(new[] { "Logs" }, false)]
+    public void ParseComponents_AcceptsOnlyDistinctComponents(string[] names, bool valid)
+    {
+        (RestorePlan.ParseComponents(names) is not null).Should().Be(valid);
+    }
+
+    [Fact]
+    public void Validate_RequiresExactlyOneSource()
+    {
+        RestorePlan.Validate(new RestoreRequest(null, null, ["Database"]), Now).Should().NotBeNull();
+        RestorePlan.Validate(new RestoreRequest("5", Now.AddHours(-1), ["Database"]), Now).Should().NotBeNull();
+        RestorePlan.Validate(new RestoreRequest("5", null, ["Database"]), Now).Should().BeNull();
+        RestorePlan.Validate(new RestoreRequest(null, Now.AddHours(-1), ["Database"]), Now).Should().BeNull();
+    }
+
+    [Fact]
+    public void Validate_RejectsFuturePointsAndEmptySelections()
+    {
+        RestorePlan.Validate(new RestoreRequest(null, Now.AddMinutes(5), ["Database"]), Now).Should().NotBeNull();
+        RestorePlan.Validate(new RestoreRequest("5", null, []), Now).Should().NotBeNull();
+        RestorePlan.Validate(new RestoreRequest("not-an-id", null, ["Database"]), Now).Should().NotBeNull();
+    }
+}
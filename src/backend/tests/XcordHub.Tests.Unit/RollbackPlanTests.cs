@@ -0,0 +1,142 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Upgrades;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class RollbackPlanTests
+{
+    private const string OldImage = "docker.xcord.net/fed:1.4.0";
+    private const string NewImage = "docker.xcord.net/fed:1.5.0";
+
+    private static readonly DateTimeOffset UpgradedAt = new(2026, 10, 1, 12, 0, 0, TimeSpan.Zero);
+
+    private static UpgradeEvent Upgrade(
+        long id = 10,
+        UpgradeEventStatus status = UpgradeEventStatus.Completed,
+        string? previousImage = OldImage,
+        DateTimeOffset? completedAt = null,
+        long? rollbackOf = null) => new()
+    {
+        Id = id,
+        ManagedInstanceId = 1,
+        Status = status,
+        PreviousImage = previousImage,
+        TargetImage = NewImage,
+        StartedAt = (completedAt ?? UpgradedAt).AddMinutes(-2),
+        CompletedAt = completedAt ?? UpgradedAt,
+        RollbackOfEventId = rollbackOf
+    };
+
+    private static ManagedInstance Instance(
+        InstanceStatus status = InstanceStatus.Running,
+        string? image = NewImage) => new()
+    {
+        Id = 1,
+        Domain = "i1.xcord.net",
+        DisplayName = "Instance 1",
+        Status = status,
+        Infrastructure = new InstanceInfrastructure { DeployedImage = image }
+    };
+
+    private static BackupRecord Backup(
+        long id,
+        DateTimeOffset completedAt,
+        BackupKind kind = BackupKind.Database,
+        BackupStatus status = BackupStatus.Completed) => new()
+    {
+        Id = id,
+        ManagedInstanceId = 1,
+        Kind = kind,
+        Status = status,
+        StartedAt = completedAt.AddMinutes(-1),
+        CompletedAt = completedAt
+    };
+
+    // ---------------------------------------------------------------------------
+    // CannotRollBack
+    // ---------------------------------------------------------------------------
+
+    [Theory]
+    [InlineData(InstanceStatus.Running)]
+    [InlineData(InstanceStatus.Failed)]
+    public void CannotRollBack_CompletedUpgradeStillDeployed_CanRollBack(InstanceStatus status)
+    {
+        RollbackPlan.CannotRollBack(Upgrade(), Instance(status)).Should().BeNull();
+    }
+
+    [Fact]
+    public void CannotRollBack_RejectsUpgradesThatCannotBeUndone()
+    {
+        RollbackPlan.CannotRollBack(Upgrade(status: UpgradeEventStatus.RolledBack), Instance())
+            .Should().Be("This upgrade has already been rolled back");
+        RollbackPlan.CannotRollBack(Upgrade(status: UpgradeEventStatus.Failed), Instance())
+            .Should().Be("Only completed upgrades can be rolled back");
+        RollbackPlan.CannotRollBack(Upgrade(previousImage: null), Instance())
+            .Should().Be("The upgrade did not record a previous image");
+        RollbackPlan.CannotRollBack(Upgrade(), Instance(image: "docker.xcord.net/fed:1.6.0"))
+            .Should().Be($"The instance is no longer running {NewImage}");
+        RollbackPlan.CannotRollBack(Upgrade(), Instance(InstanceStatus.Upgrading))
+            .Should().Be("The instance is Upgrading");
+    }
+
+    // ---------------------------------------------------------------------------
+    // LatestUpgrade
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void LatestUpgrade_IgnoresRollbacksAndUnfinishedUpgrades()
+    {
+        var events = new[]
+        {
+            Upgrade(1, completedAt: UpgradedAt.AddDays(-7)),
+            Upgrade(2, status: UpgradeEventStatus.RolledBack),
+            Upgrade(3, completedAt: UpgradedAt.AddMinutes(5), rollbackOf: 2),
+            Upgrade(4, status: UpgradeEventStatus.Failed, completedAt: UpgradedAt.AddMinutes(10)),
+        }.AsQueryable();
+
+        RollbackPlan.LatestUpgrade(events, 1).Select(e => e.Id).Should().Equal(2);
+        RollbackPlan.LatestUpgrade(events, 2).Should().BeEmpty();
+    }
+
+    // ---------------------------------------------------------------------------
+    // PreUpgradeBackups
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void PreUpgradeBackups_NewestCompletedDatabaseBackupBeforeTheUpgradeFirst()
+    {
+        var started = UpgradedAt.AddMinutes(-2);
+        var backups = new[]
+        {
+            Backup(1, started.AddDays(-2)),
+            Backup(2, started.AddHours(-1), BackupKind.Full),
+            Backup(3, started.AddMinutes(-30), BackupKind.Files),
+            Backup(4, started.AddMinutes(-20), status: BackupStatus.Failed),
+            Backup(5, started.AddMinutes(30)),
+        }.AsQueryable();
+
+        RollbackPlan.PreUpgradeBackups(backups, Upgrade()).Select(b => b.Id).Should().Equal(2, 1);
+    }
+
+    // ---------------------------------------------------------------------------
+    // WithinAutoRollbackWindow
+    // ---------------------------------------------------------------------------
+
+    [Theory]
+    [InlineData(30, 10, true)]
+    [InlineData(30, 30, true)]
+    [InlineData(30, 31, false)]
+    [InlineData(0, 1, false)]
+    public void WithinAutoRollbackWindow_ComparesMinutesSinceTheUpgrade(int window, int minutesLater, bool expected)
+    {
+        RollbackPlan.WithinAutoRollbackWindow(UpgradedAt, UpgradedAt.AddMinutes(minutesLater), window)
+            .Should().Be(expected);
+    }
+
+    [Fact]
+    public void WithinAutoRollbackWindow_UnfinishedUpgrade_IsOutside()
+    {
+        RollbackPlan.WithinAutoRollbackWindow(null, UpgradedAt, 30).Should().BeFalse();
+    }
+}
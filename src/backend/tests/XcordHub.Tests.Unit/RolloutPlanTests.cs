@@ -0,0 +1,270 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Upgrades;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class RolloutPlanTests
+{
+    private const string Target = "docker.xcord.net/fed:1.5.0";
+
+    private static ManagedInstance Instance(
+        long id,
+        InstanceStatus status = InstanceStatus.Running,
+        string? image = "docker.xcord.net/fed:1.4.0",
+        bool? batchUpgrades = null,
+        string pool = "default",
+        bool deleted = false) => new()
+    {
+        Id = id,
+        Domain = $"i{id}.xcord.net",
+        DisplayName = $"Instance {id}",
+        Status = status,
+        DeletedAt = deleted ? DateTimeOffset.UtcNow : null,
+        Infrastructure = new InstanceInfrastructure { DeployedImage = image, PlacedInPool = pool },
+        Config = batchUpgrades is null ? null : new InstanceConfig { BatchUpgradesEnabled = batchUpgrades.Value }
+    };
+
+    // ---------------------------------------------------------------------------
+    // SkipReason
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void SkipReason_RunningInstanceOnOlderImage_IsTargeted()
+    {
+        RolloutPlan.SkipReason(Instance(1), Target, force: false).Should().BeNull();
+        RolloutPlan.SkipReason(Instance(1, batchUpgrades: true), Target, force: false).Should().BeNull();
+    }
+
+    [Fact]
+    public void SkipReason_InstanceWithoutDeployedImage_IsTargeted()
+    {
+        RolloutPlan.SkipReason(Instance(1, image: null), Target, force: false).Should().BeNull();
+    }
+
+    [Theory]
+    [InlineData(InstanceStatus.Suspended)]
+    [InlineData(InstanceStatus.Failed)]
+    [InlineData(InstanceStatus.Upgrading)]
+    public void SkipReason_NotRunning_IsSkipped(InstanceStatus status)
+    {
+        RolloutPlan.SkipReason(Instance(1, status), Target, force: true)
+            .Should().Be(RolloutPlan.SkipNotRunning);
+    }
+
+    [Fact]
+    public void SkipReason_AlreadyOnTarget_IsSkippedEvenWhenForced()
+    {
+        RolloutPlan.SkipReason(Instance(1, image: Target), Target, force: true)
+            .Should().Be(RolloutPlan.SkipAlreadyOnTarget);
+    }
+
+    [Fact]
+    public void SkipReason_BatchUpgradesDisabled_IsSkippedUnlessForced()
+    {
+        var optedOut = Instance(1, batchUpgrades: false);
+
+        RolloutPlan.SkipReason(optedOut, Target, force: false).Should().Be(RolloutPlan.SkipBatchUpgradesDisabled);
+        RolloutPlan.SkipReason(optedOut, Target, force: true).Should().BeNull();
+    }
+
+    // ---------------------------------------------------------------------------
+    // InScope
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void InScope_FiltersByImageAndPoolInIdOrder()
+    {
+        var fleet = new[]
+        {
+            Instance(3),
+            Instance(1),
+            Instance(2, image: "docker.xcord.net/fed:1.3.0"),
+            Instance(4, pool: "eu"),
+            Instance(5, deleted: true),
+        }.AsQueryable();
+
+        RolloutPlan.InScope(fleet, null, null).Select(i => i.Id).Should().Equal(1, 2, 3, 4);
+        RolloutPlan.InScope(fleet, "docker.xcord.net/fed:1.4.0", null).Select(i => i.Id).Should().Equal(1, 3, 4);
+        RolloutPlan.InScope(fleet, "docker.xcord.net/fed:1.4.0", "default").Select(i => i.Id).Should().Equal(1, 3);
+        RolloutPlan.InScope(fleet, " ", "eu").Select(i => i.Id).Should().Equal(4);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Batches
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void Batches_SplitsTargetsInOrder()
+    {
+        RolloutPlan.Batches([1, 2, 3, 4, 5], 2)
+            .Should().BeEquivalentTo(new[] { new[] { 1, 2 }, new[] { 3, 4 }, new[] { 5 } }, o => o.WithStrictOrdering());
+    }
+
+    [Fact]
+    public void Batches_NoTargets_ReturnsNoBatches()
+    {
+        RolloutPlan.Batches(Array.Empty<int>(), 5).Should().BeEmpty();
+    }
+
+    // ---------------------------------------------------------------------------
+    // Stages
+    // ---------------------------------------------------------------------------
+
+    private static readonly List<RolloutStageRequest> CanaryPlan =
+    [
+        new(1, null, 30),
+        new(null, 10, 30),
+        new(null, 50, 30),
+        new(null, 100, 0),
+    ];
+
+    [Fact]
+    public void ValidateStages_AcceptsCanaryPlanAndNoStages()
+    {
+        RolloutPlan.ValidateStages(CanaryPlan).Should().BeNull();
+        RolloutPlan.ValidateStages(null).Should().BeNull();
+        RolloutPlan.ValidateStages([]).Should().BeNull();
+    }
+
+    [Fact]
+    public void ValidateStages_RejectsInvalidPlans()
+    {
+        RolloutPlan.ValidateStages([new(1, null, 30), new(null, 50, 0)])
+            .Should().Be("The last stage must cover 100% of instances");
+        RolloutPlan.ValidateStages([new(1, 10, 30), new(null, 100, 0)])
+            .Should().Be("Each stage needs either an instance count or a percentage");
+        RolloutPlan.ValidateStages([new(0, null, 30), new(null, 100, 0)])
+            .Should().Be("Stage instance counts must be at least 1");
+        RolloutPlan.ValidateStages([new(null, 101, 0)])
+            .Should().Be("Stage percentages must be between 1 and 100");
+        RolloutPlan.ValidateStages([new(1, null, -5), new(null, 100, 0)])
+            .Should().Be("Stage wait times cannot be negative");
+    }
+
+    [Theory]
+    [InlineData(1, null, 40, 1)]
+    [InlineData(null, 10, 40, 4)]
+    [InlineData(null, 10, 5, 1)]
+    [InlineData(null, 100, 40, 40)]
+    [InlineData(5, null, 3, 3)]
+    [InlineData(null, 50, 0, 0)]
+    public void StageTarget_IsCumulativeAndRoundsUp(int? instances, int? percentage, int total, int expected)
+    {
+        RolloutPlan.StageTarget(instances, percentage, total).Should().Be(expected);
+    }
+
+    [Fact]
+    public void Stages_SlicesTargetsPerStage()
+    {
+        var targets = Enumerable.Range(1, 20).ToList();
+
+        var slices = RolloutPlan.Stages(targets, CanaryPlan);
+
+        slices.Select(s => s.Count).Should().Equal(1, 1, 8, 10);
+        slices[0].Should().Equal(1);
+        slices[1].Should().Equal(2);
+        slices.SelectMany(s => s).Should().Equal(targets);
+    }
+
+    [Fact]
+    public void Stages_CoveredStageGetsEmptySlice()
+    {
+        RolloutPlan.Stages([1, 2], [new(1, null, 0), new(null, 10, 0), new(null, 100, 0)])
+            .Select(s => s.Count).Should().Equal(1, 0, 1);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Health gate
+    // ---------------------------------------------------------------------------
+
+    private static readonly DateTimeOffset UpgradedAt = new(2026, 10, 1, 12, 0, 0, TimeSpan.Zero);
+
+    private static RolloutPlan.HealthGateSample Sample(
+        string domain = "a.xcord.net",
+        UpgradeEventStatus upgradeStatus = UpgradeEventStatus.Completed,
+        InstanceStatus status = InstanceStatus.Running,
+        int minutesAfterUpgrade = 5,
+        int failures = 0,
+        int? responseTimeMs = 120) => new(
+        domain,
+        upgradeStatus,
+        status,
+        UpgradedAt,
+        new InstanceHealth
+        {
+            LastCheckAt = UpgradedAt.AddMinutes(minutesAfterUpgrade),
+            IsHealthy = failures == 0,
+            ConsecutiveFailures = failures,
+            ResponseTimeMs = responseTimeMs
+        });
+
+    [Fact]
+    public void HealthGate_HealthyInstances_Pass()
+    {
+        var samples = new[] { Sample(), Sample("b.xcord.net") };
+
+        RolloutPlan.HealthGateFailure(samples, 0, 500).Should().BeNull();
+        RolloutPlan.HealthGateReady(samples).Should().BeTrue();
+    }
+
+    [Fact]
+    public void HealthGate_ConsecutiveFailuresAboveThreshold_Fails()
+    {
+        var samples = new[] { Sample(), Sample("b.xcord.net", failures: 2) };
+
+        RolloutPlan.HealthGateFailure(samples, 0, null)
+            .Should().Be("b.xcord.net failed 2 consecutive health checks");
+        RolloutPlan.HealthGateFailure(samples, 2, null).Should().BeNull();
+    }
+
+    [Fact]
+    public void HealthGate_SlowResponse_Fails()
+    {
+        RolloutPlan.HealthGateFailure([Sample(responseTimeMs: 900)], 0, 500)
+            .Should().Be("a.xcord.net responded in 900 ms (limit 500 ms)");
+        RolloutPlan.HealthGateFailure([Sample(responseTimeMs: 900)], 0, null).Should().BeNull();
+    }
+
+    [Fact]
+    public void HealthGate_InstanceNoLongerRunning_Fails()
+    {
+        RolloutPlan.HealthGateFailure([Sample(status: InstanceStatus.Failed)], 0, null)
+            .Should().Be("a.xcord.net is Failed");
+    }
+
+    [Fact]
+    public void HealthGate_ChecksFromBeforeTheUpgrade_AreIgnored()
+    {
+        var stale = Sample(minutesAfterUpgrade: -1, failures: 4);
+
+        RolloutPlan.HealthGateFailure([stale], 0, null).Should().BeNull();
+        RolloutPlan.HealthGateReady([stale]).Should().BeFalse();
+        RolloutPlan.HealthGateReady(
+                [new RolloutPlan.HealthGateSample("a", UpgradeEventStatus.Completed, InstanceStatus.Running, UpgradedAt, null)])
+            .Should().BeFalse();
+    }
+
+    [Fact]
+    public void HealthGate_FailedUpgradeInStage_Fails()
+    {
+        var samples = new[] { Sample(), Sample("b.xcord.net", UpgradeEventStatus.Failed, InstanceStatus.Failed) };
+
+        RolloutPlan.HealthGateFailure(samples, 5, null).Should().Be("b.xcord.net failed to upgrade");
+    }
+
+    [Fact]
+    public void HealthGate_RolledBackUpgradeInStage_Fails()
+    {
+        var samples = new[] { Sample(), Sample("b.xcord.net", UpgradeEventStatus.RolledBack) };
+
+        RolloutPlan.HealthGateFailure(samples, 5, null).Should().Be("b.xcord.net was rolled back");
+    }
+
+    [Fact]
+    public void HealthGate_StageWithoutUpgrades_FailsAndIsNotReady()
+    {
+        RolloutPlan.HealthGateFailure([], 0, null).Should().Be("No instance finished upgrading in this stage");
+        RolloutPlan.HealthGateReady([]).Should().BeFalse();
+    }
+}
@@ -0,0 +1,73 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Support;
+using XcordHub.Infrastructure.Services;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class SupportTicketsTests
+{
+    private static readonly AesEncryptionService Encryption =
+        new("support-tickets-test-key-with-256-bits-minimum-length-required!!");
+
+    [Theory]
+    [InlineData("Open", SupportTicketStatus.Open)]
+    [InlineData("pending", SupportTicketStatus.Pending)]
+    [InlineData("CLOSED", SupportTicketStatus.Closed)]
+    public void ParseStatus_AcceptsStatusNamesInAnyCase(string value, SupportTicketStatus expected)
+    {
+        SupportTickets.ParseStatus(value).Should().Be(expected);
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("Resolved")]
+    [InlineData("7")]
+    public void ParseStatus_RejectsUnknownStatuses(string? value)
+    {
+        SupportTickets.ParseStatus(value).Should().BeNull();
+    }
+
+    [Fact]
+    public void ValidateBody_RejectsBlankAndOverlongMessages()
+    {
+        SupportTickets.ValidateBody("  ").Should().NotBeNull();
+        SupportTickets.ValidateBody(new string('a', SupportTickets.MaxBodyLength + 1)).Should().NotBeNull();
+        SupportTickets.ValidateBody("Thanks, that fixed it").Should().BeNull();
+    }
+
+    [Fact]
+    public void RecipientEmail_UsesTheSubmittersAccountEmailForDashboardTickets()
+    {
+        var ticket = new ContactSubmission
+        {
+            Email = string.Empty,
+            Submitter = new HubUser { Email = Encryption.Encrypt("owner@example.com") }
+        };
+
+        SupportTickets.RecipientEmail(ticket, Encryption).Should().Be("owner@example.com");
+    }
+
+    [Fact]
+    public void RecipientEmail_UsesTheContactFormAddressOtherwise()
+    {
+        SupportTickets.RecipientEmail(new ContactSubmission { Email = "lead@example.com" }, Encryption)
+            .Should().Be("lead@example.com");
+        SupportTickets.RecipientEmail(new ContactSubmission(), Encryption).Should().BeNull();
+    }
+
+    [Fact]
+    public void BuildReplyEmailBody_EncodesTheReplyAndLinksDashboardTickets()
+    {
+        var ticket = new ContactSubmission { Id = 42, Name = "Sam", Subject = "Backups <failing>" };
+        var reply = new SupportTicketReply { AuthorName = "Alex", Body = "Try <b>again</b>" };
+
+        var linked = SupportTickets.BuildReplyEmailBody(ticket, reply, "https://hub.xcord.net/dashboard/support/5");
+        var unlinked = SupportTickets.BuildReplyEmailBody(ticket, reply, null);
+
+        linked.Should().Contain("Backups &lt;failing&gt;").And.Contain("Try &lt;b&gt;again&lt;/b&gt;");
+        linked.Should().Contain("https://hub.xcord.net/dashboard/support/5");
+        unlinked.Should().Contain(SupportTickets.SupportInbox).And.Contain("ticket 42");
+    }
+}
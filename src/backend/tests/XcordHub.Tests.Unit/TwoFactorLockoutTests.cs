@@ -0,0 +1,55 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Auth;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class TwoFactorLockoutTests
+{
+    private static readonly DateTimeOffset Now = new(2026, 3, 1, 12, 0, 0, TimeSpan.Zero);
+
+    // ---------------------------------------------------------------------------
+    // GetLockedUntil - the window follows TwoFactorLockedAt
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void GetLockedUntil_NeverLocked_ReturnsNull()
+    {
+        var user = new HubUser();
+
+        TwoFactorLockout.GetLockedUntil(user, Now).Should().BeNull();
+    }
+
+    [Fact]
+    public void GetLockedUntil_WithinWindow_ReturnsLockPlusDuration()
+    {
+        var lockedAt = Now.AddMinutes(-5);
+        var user = new HubUser { TwoFactorLockedAt = lockedAt };
+
+        TwoFactorLockout.GetLockedUntil(user, Now).Should().Be(lockedAt + TwoFactorLockout.Duration);
+    }
+
+    [Fact]
+    public void GetLockedUntil_AfterWindow_ReturnsNull()
+    {
+        var user = new HubUser { TwoFactorLockedAt = Now - TwoFactorLockout.Duration };
+
+        TwoFactorLockout.GetLockedUntil(user, Now).Should().BeNull();
+    }
+
+    // ---------------------------------------------------------------------------
+    // Locked - the error carries the unlock time for the endpoint
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void Locked_IsForbiddenWithRoundTrippableUnlockTime()
+    {
+        var lockedUntil = Now.AddMinutes(25);
+
+        var error = TwoFactorLockout.Locked(lockedUntil);
+
+        error.StatusCode.Should().Be(403);
+        error.Code.Should().Be(TwoFactorLockout.ErrorCode);
+        DateTimeOffset.Parse(error.Message).Should().Be(lockedUntil);
+    }
+}
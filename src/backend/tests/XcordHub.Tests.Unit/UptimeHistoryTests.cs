@@ -0,0 +1,148 @@
+using FluentAssertions;
+using XcordHub.Entities;
+using XcordHub.Features.Monitoring;
+
+namespace XcordHub.Tests.Unit;
+
+public sealed class UptimeHistoryTests
+{
+    // Noon on the last day of the window
+    private static readonly DateTimeOffset Now = new(2026, 10, 10, 12, 0, 0, TimeSpan.Zero);
+    private static readonly DateTimeOffset Today = new(2026, 10, 10, 0, 0, 0, TimeSpan.Zero);
+
+    private static UptimeInterval Interval(DateTimeOffset start, DateTimeOffset? end) => new()
+    {
+        ManagedInstanceId = 1,
+        StartedAt = start,
+        EndedAt = end,
+        CreatedAt = start
+    };
+
+    // ---------------------------------------------------------------------------
+    // Build - days
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void Build_NoIntervals_ReturnsUnmonitoredDays()
+    {
+        var history = UptimeHistory.Build([], Now, 7);
+
+        history.Days.Should().HaveCount(7);
+        history.Days[0].Date.Should().Be(new DateOnly(2026, 10, 4));
+        history.Days[^1].Date.Should().Be(new DateOnly(2026, 10, 10));
+        history.Days.Should().OnlyContain(d => d.AvailabilityPercentage == null && d.MonitoredMinutes == 0);
+        history.Outages.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Build_DaysBeforeTrackingStarted_AreUnmonitored()
+    {
+        var history = UptimeHistory.Build([Interval(Today.AddDays(-1).AddHours(6), null)], Now, 7);
+
+        history.Days.Take(5).Should().OnlyContain(d => d.AvailabilityPercentage == null);
+        history.Days[5].MonitoredMinutes.Should().Be(18 * 60);
+        history.Days[5].AvailabilityPercentage.Should().Be(100);
+        // Today only counts up to now
+        history.Days[6].MonitoredMinutes.Should().Be(12 * 60);
+    }
+
+    [Fact]
+    public void Build_GapBetweenIntervals_IsDowntimeOnTheDaysItCovers()
+    {
+        // Down from 22:00 yesterday until 02:00 today
+        var history = UptimeHistory.Build(
+        [
+            Interval(Today.AddDays(-2), Today.AddHours(-2)),
+            Interval(Today.AddHours(2), null)
+        ], Now, 3);
+
+        history.Days[1].DowntimeMinutes.Should().Be(120);
+        history.Days[1].AvailabilityPercentage.Should().BeApproximately(91.667, 0.001);
+        history.Days[2].DowntimeMinutes.Should().Be(120);
+        history.Days[2].AvailabilityPercentage.Should().BeApproximately(83.333, 0.001);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Build - outages
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void Build_ReportsOutagesNewestFirst()
+    {
+        var history = UptimeHistory.Build(
+        [
+            Interval(Today.AddDays(-3), Today.AddDays(-2)),
+            Interval(Today.AddDays(-2).AddMinutes(30), Today.AddDays(-1)),
+            Interval(Today.AddDays(-1).AddMinutes(5), null)
+        ], Now, 7);
+
+        history.Outages.Select(o => o.DurationMinutes).Should().Equal(5, 30);
+        history.Outages.Should().OnlyContain(o => !o.IsOngoing);
+        history.Outages[0].StartedAt.Should().Be(Today.AddDays(-1));
+        history.Outages[0].EndedAt.Should().Be(Today.AddDays(-1).AddMinutes(5));
+    }
+
+    [Fact]
+    public void Build_NoOpenInterval_ReportsAnOngoingOutage()
+    {
+        var history = UptimeHistory.Build([Interval(Today.AddDays(-1), Today.AddHours(9))], Now, 7);
+
+        var outage = history.Outages.Should().ContainSingle().Subject;
+        outage.IsOngoing.Should().BeTrue();
+        outage.EndedAt.Should().BeNull();
+        outage.DurationMinutes.Should().Be(180);
+        history.Days[^1].DowntimeMinutes.Should().Be(180);
+    }
+
+    [Fact]
+    public void Build_OverlappingIntervals_DoNotProduceAnOutage()
+    {
+        var history = UptimeHistory.Build(
+        [
+            Interval(Today.AddDays(-1), Today.AddHours(6)),
+            Interval(Today.AddHours(5), null)
+        ], Now, 7);
+
+        history.Outages.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Build_OutageThatStartedBeforeTheWindow_IsClippedToTheWindow()
+    {
+        var history = UptimeHistory.Build(
+        [
+            Interval(Today.AddDays(-10), Today.AddDays(-5)),
+            Interval(Today.AddDays(-1), null)
+        ], Now, 3);
+
+        history.Outages.Should().ContainSingle();
+        history.Days[0].AvailabilityPercentage.Should().Be(0);
+        history.Days[1].AvailabilityPercentage.Should().Be(100);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Availability
+    // ---------------------------------------------------------------------------
+
+    [Fact]
+    public void Availability_WeighsDaysByMonitoredTime()
+    {
+        var history = UptimeHistory.Build(
+        [
+            Interval(Today.AddDays(-2), Today.AddDays(-1).AddHours(12)),
+            Interval(Today.AddDays(-1).AddHours(18), null)
+        ], Now, 7);
+
+        // 6 hours down out of 60 monitored
+        UptimeHistory.Availability(history.Days, 7).Should().BeApproximately(90, 0.001);
+        UptimeHistory.Availability(history.Days, 1).Should().Be(100);
+    }
+
+    [Fact]
+    public void Availability_NothingMonitored_ReturnsNull()
+    {
+        var history = UptimeHistory.Build([], Now, 7);
+
+        UptimeHistory.Availability(history.Days, 7).Should().BeNull();
+    }
+}
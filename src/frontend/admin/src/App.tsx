@@ -1,34 +1,64 @@
+import { Router, Route, Navigate, useLocation, useNavigate } from '@solidjs/router';
 import { createSignal, createEffect, Show, onMount } from 'solid-js';
+import type { ParentProps } from 'solid-js';
 import { useAuth } from './stores/auth.store';
-import { useInstances } from './stores/instance.store';
 import { Login } from './components/Login';
 import { Layout } from './components/Layout';
 import { InstanceList } from './components/InstanceList';
 import { InstanceDetail } from './components/InstanceDetail';
 import { ProvisionForm } from './components/ProvisionForm';
+import { RolloutDetail } from './components/RolloutDetail';
+import { FleetHealthPage } from './components/FleetHealthPage';
+import { BackupTemplatesPage } from './components/BackupTemplatesPage';
+import { BackupStoragePage } from './components/BackupStoragePage';
+import { VersionsPage } from './components/VersionsPage';
+import { CompliancePage } from './components/CompliancePage';
+import { RevenuePage } from './components/RevenuePage';
+import { KeysPage } from './components/KeysPage';
+import { AuditPage } from './components/AuditPage';
 import { MailingListPage } from './components/MailingListPage';
+import { SupportPage } from './components/SupportPage';
 import { SystemConfigPage } from './components/SystemConfigPage';
 import { SetupWizard } from './components/SetupWizard';
-
-type Page = 'login' | 'instances' | 'instance-detail' | 'provision' | 'mailing-list' | 'settings' | 'setup';
-
-export function App() {
+import { TwoFactorRequired } from './components/TwoFactorRequired';
+
+const BASE_PATH = '/admin';
+
+// First matching prefix wins, so more specific paths must come first.
+const TITLES: [string, string][] = [
+  ['/instances/new', 'New Instance - Xcord Admin'],
+  ['/instances/', 'Instance Details - Xcord Admin'],
+  ['/instances', 'Instances - Xcord Admin'],
+  ['/health', 'Fleet Health - Xcord Admin'],
+  ['/backup-templates', 'Backup Templates - Xcord Admin'],
+  ['/backup-storage', 'Backup Storage - Xcord Admin'],
+  ['/rollouts/', 'Rollout Details - Xcord Admin'],
+  ['/versions', 'Versions - Xcord Admin'],
+  ['/revenue', 'Revenue - Xcord Admin'],
+  ['/mailing-list', 'Mailing List - Xcord Admin'],
+  ['/support', 'Support - Xcord Admin'],
+  ['/security/keys', 'Encryption Keys - Xcord Admin'],
+  ['/audit', 'Audit Log - Xcord Admin'],
+  ['/settings', 'Settings - Xcord Admin'],
+];
+
+function AdminRoot(props: ParentProps) {
   const auth = useAuth();
-  const instanceStore = useInstances();
-  const [currentPage, setCurrentPage] = createSignal<Page>('login');
-  const [selectedInstanceId, setSelectedInstanceId] = createSignal<string | null>(null);
+  const location = useLocation();
+  const [needsSetup, setNeedsSetup] = createSignal<boolean | null>(null);
 
   createEffect(() => {
-    const titles: Record<Page, string> = {
-      'login': 'Login - Xcord Admin',
-      'instances': 'Instances - Xcord Admin',
-      'instance-detail': 'Instance Details - Xcord Admin',
-      'provision': 'New Instance - Xcord Admin',
-      'mailing-list': 'Mailing List - Xcord Admin',
-      'settings': 'Settings - Xcord Admin',
-      'setup': 'Setup - Xcord Admin',
-    };
-    document.title = titles[currentPage()] ?? 'Xcord Admin';
+    if (needsSetup()) {
+      document.title = 'Setup - Xcord Admin';
+    } else if (!auth.isAuthenticated || !auth.isAdmin) {
+      document.title = 'Login - Xcord Admin';
+    } else if (auth.twoFactorSetupRequired) {
+      document.title = 'Two-Factor Required - Xcord Admin';
+    } else {
+      const path = location.pathname.slice(BASE_PATH.length);
+      const match = TITLES.find(([prefix]) => path.startsWith(prefix));
+      document.title = match?.[1] ?? 'Xcord Admin';
+    }
   });
 
   onMount(async () => {
@@ -37,116 +67,81 @@ export function App() {
       const res = await fetch('/api/v1/setup/status');
       const data = await res.json();
       if (data.needsSetup) {
-        setCurrentPage('setup');
+        setNeedsSetup(true);
         return;
       }
     } catch {
       // If setup endpoint fails, proceed normally
     }
 
-    const isValid = await auth.validateAuth();
-    if (isValid) {
-      setCurrentPage('instances');
-    } else {
-      setCurrentPage('login');
-    }
+    setNeedsSetup(false);
+    await auth.validateAuth();
   });
 
-  const handleNavigate = (page: string) => {
-    if (page === 'instances') {
-      instanceStore.clearSelectedInstance();
-      setSelectedInstanceId(null);
-      setCurrentPage('instances');
-    } else if (page === 'mailing-list') {
-      setCurrentPage('mailing-list');
-    } else if (page === 'settings') {
-      setCurrentPage('settings');
-    }
-  };
-
-  const handleSelectInstance = (id: string) => {
-    setSelectedInstanceId(id);
-    setCurrentPage('instance-detail');
-  };
-
-  const handleProvisionNew = () => {
-    setCurrentPage('provision');
-  };
-
-  const handleProvisionSuccess = () => {
-    setCurrentPage('instances');
-    instanceStore.fetchInstances();
-  };
-
-  const handleBackToInstances = () => {
-    instanceStore.clearSelectedInstance();
-    setSelectedInstanceId(null);
-    setCurrentPage('instances');
-  };
-
   return (
-    <>
-      <Show when={currentPage() === 'setup'}>
+    <Show
+      when={!needsSetup()}
+      fallback={
         <SetupWizard onComplete={() => {
           // After setup, reload to go through normal auth flow
           window.location.reload();
         }} />
+      }
+    >
+      <Show
+        when={auth.isLoading}
+        fallback={
+          <Show
+            when={auth.isAuthenticated && auth.isAdmin}
+            fallback={<Login />}
+          >
+            <Show when={!auth.twoFactorSetupRequired} fallback={<TwoFactorRequired />}>
+              <Layout>{props.children}</Layout>
+            </Show>
+          </Show>
+        }
+      >
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="text-lg">Loading...</div>
+        </div>
       </Show>
+    </Show>
+  );
+}
 
-      <Show when={currentPage() !== 'setup'}>
-        <Show
-          when={auth.isLoading}
-          fallback={
-            <Show
-              when={auth.isAuthenticated && auth.isAdmin}
-              fallback={<Login />}
-            >
-              <Layout
-                currentPage={
-                  currentPage() === 'mailing-list' ? 'mailing-list'
-                  : currentPage() === 'settings' ? 'settings'
-                  : currentPage() === 'instance-detail' ? 'instance-detail'
-                  : 'instances'
-                }
-                onNavigate={handleNavigate}
-              >
-                <Show when={currentPage() === 'instances'}>
-                  <InstanceList
-                    onSelectInstance={handleSelectInstance}
-                    onProvisionNew={handleProvisionNew}
-                  />
-                </Show>
-
-                <Show when={currentPage() === 'instance-detail' && selectedInstanceId()}>
-                  <InstanceDetail
-                    instanceId={selectedInstanceId()!}
-                    onBack={handleBackToInstances}
-                  />
-                </Show>
-
-                <Show when={currentPage() === 'provision'}>
-                  <ProvisionForm
-                    onCancel={handleBackToInstances}
-                    onSuccess={handleProvisionSuccess}
-                  />
-                </Show>
+function ProvisionRoute() {
+  const navigate = useNavigate();
 
-                <Show when={currentPage() === 'mailing-list'}>
-                  <MailingListPage />
-                </Show>
+  // The instance list refetches on mount, so navigating back is enough to
+  // pick up the newly provisioned instance.
+  return (
+    <ProvisionForm
+      onCancel={() => navigate('/instances')}
+      onSuccess={() => navigate('/instances')}
+    />
+  );
+}
 
-                <Show when={currentPage() === 'settings'}>
-                  <SystemConfigPage />
-                </Show>
-              </Layout>
-            </Show>
-          }
-        >
-          <div class="min-h-screen flex items-center justify-center">
-            <div class="text-lg">Loading...</div>
-          </div>
-        </Show>
-      </Show>
-    </>
+export function App() {
+  return (
+    <Router base={BASE_PATH} root={AdminRoot}>
+      <Route path="/" component={() => <Navigate href="/instances" />} />
+      <Route path="/instances" component={InstanceList} />
+      <Route path="/instances/new" component={ProvisionRoute} />
+      <Route path="/instances/:id/:tab?" component={InstanceDetail} />
+      <Route path="/rollouts/:id" component={RolloutDetail} />
+      <Route path="/health" component={FleetHealthPage} />
+      <Route path="/backup-templates" component={BackupTemplatesPage} />
+      <Route path="/backup-storage" component={BackupStoragePage} />
+      <Route path="/versions" component={VersionsPage} />
+      <Route path="/versions/compliance" component={CompliancePage} />
+      <Route path="/revenue" component={RevenuePage} />
+      <Route path="/mailing-list" component={MailingListPage} />
+      <Route path="/support/:id?" component={SupportPage} />
+      <Route path="/security/keys" component={KeysPage} />
+      <Route path="/audit" component={AuditPage} />
+      <Route path="/settings" component={SystemConfigPage} />
+      <Route path="*" component={() => <Navigate href="/instances" />} />
+    </Router>
   );
 }
@@ -1,3 +1,30 @@
+import type { paths } from '@generated/api-types';
+import {
+  buildUrl,
+  type Method,
+  type OptionsArg as BaseOptionsArg,
+  type PathsFor,
+  type RawOptions as BaseRawOptions,
+  type RequestOptions as BaseRequestOptions,
+  type ResponseOf,
+} from '@generated/api-client';
+
+export { buildUrl, type PathsFor, type ResponseOf };
+
+// `reason` is the justification an admin typed into a confirmation dialog; the
+// backend stores it with the audit log entry for the action.
+interface ReasonOption {
+  reason?: string;
+}
+
+export type RequestOptions<P extends keyof paths, M extends Method> = BaseRequestOptions<P, M, ReasonOption>;
+
+type OptionsArg<P extends keyof paths, M extends Method> = BaseOptionsArg<P, M, ReasonOption>;
+
+type RawOptions = BaseRawOptions & ReasonOption;
+
+export const AUDIT_REASON_HEADER = 'X-Audit-Reason';
+
 class ApiClient {
   private baseUrl = '';
   private accessToken: string | null = null;
@@ -10,11 +37,16 @@ class ApiClient {
     return this.accessToken;
   }
 
-  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  private async request<T>(method: string, path: string, body?: unknown, reason?: string): Promise<T> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
 
+    // Encoded so the reason can hold any text a header value cannot
+    if (reason?.trim()) {
+      headers[AUDIT_REASON_HEADER] = encodeURIComponent(reason.trim());
+    }
+
     if (this.accessToken) {
       headers['Authorization'] = `Bearer ${this.accessToken}`;
     }
@@ -96,25 +128,102 @@ class ApiClient {
     }
   }
 
-  async get<T>(path: string): Promise<T> {
-    return this.request<T>('GET', path);
+  private send<P extends keyof paths, M extends Method>(
+    method: M,
+    path: P,
+    options?: RawOptions,
+  ): Promise<ResponseOf<P, M>> {
+    return this.request<ResponseOf<P, M>>(method.toUpperCase(), buildUrl(path, options), options?.body, options?.reason);
   }
 
-  async post<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>('POST', path, body);
+  async get<P extends PathsFor<'get'>>(path: P, ...[options]: OptionsArg<P, 'get'>): Promise<ResponseOf<P, 'get'>> {
+    return this.send('get', path, options as RawOptions);
   }
 
-  async put<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>('PUT', path, body);
+  async post<P extends PathsFor<'post'>>(path: P, ...[options]: OptionsArg<P, 'post'>): Promise<ResponseOf<P, 'post'>> {
+    return this.send('post', path, options as RawOptions);
   }
 
-  async patch<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>('PATCH', path, body);
+  async put<P extends PathsFor<'put'>>(path: P, ...[options]: OptionsArg<P, 'put'>): Promise<ResponseOf<P, 'put'>> {
+    return this.send('put', path, options as RawOptions);
   }
 
-  async delete<T>(path: string): Promise<T> {
-    return this.request<T>('DELETE', path);
+  async patch<P extends PathsFor<'patch'>>(path: P, ...[options]: OptionsArg<P, 'patch'>): Promise<ResponseOf<P, 'patch'>> {
+    return this.send('patch', path, options as RawOptions);
+  }
+
+  async delete<P extends PathsFor<'delete'>>(path: P, ...[options]: OptionsArg<P, 'delete'>): Promise<ResponseOf<P, 'delete'>> {
+    return this.send('delete', path, options as RawOptions);
+  }
+
+  // Opens a Server-Sent Events endpoint. EventSource cannot send the bearer
+  // token, so the stream is read through fetch instead. Resolves once the
+  // server accepts the stream; the events end when the server closes it or
+  // `signal` aborts.
+  async events<P extends PathsFor<'get'>>(
+    path: P,
+    options: RequestOptions<P, 'get'>,
+    signal: AbortSignal,
+  ): Promise<AsyncGenerator<ServerSentEvent>> {
+    const url = `${this.baseUrl}${buildUrl(path, options as RawOptions)}`;
+    const open = () => fetch(url, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(this.accessToken ? { Authorization: `Bearer ${this.accessToken}` } : {}),
+      },
+      credentials: 'include',
+      signal,
+    });
+
+    let response = await open();
+    if (response.status === 401 && this.accessToken && await this.tryRefresh()) {
+      response = await open();
+    }
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => ({ error: 'Request failed' }));
+      throw error;
+    }
+
+    return readServerSentEvents(response.body);
+  }
+}
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const event = parseServerSentEvent(block);
+        if (event) yield event;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export function parseServerSentEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
   }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
 }
 
 export const api = new ApiClient();
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
+import { AuditPage } from './AuditPage';
+import { useAudit } from '../stores/audit.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
+import type { AuditLogEntry } from '../types/audit';
+
+const AUDIT_PATH = '/api/v1/admin/audit';
+
+function entry(overrides: Partial<AuditLogEntry>): AuditLogEntry {
+  return {
+    id: '1',
+    createdAt: '2026-10-01T12:00:00Z',
+    actorId: '7',
+    actorName: 'alice',
+    ipAddress: '203.0.113.9',
+    action: 'instance.suspend',
+    targetType: 'Instance',
+    targetId: '42',
+    reason: 'Abuse report',
+    changes: [{ field: 'status', before: 'Running', after: 'Suspended' }],
+    ...overrides,
+  };
+}
+
+function auditLog(entries: AuditLogEntry[], total = entries.length) {
+  return {
+    entries,
+    total,
+    page: 1,
+    pageSize: 50,
+    actions: ['instance.suspend', 'backup.restore'],
+    targetTypes: ['Instance', 'Backup'],
+  };
+}
+
+describe('AuditPage', () => {
+  beforeEach(() => {
+    useAudit().reset();
+  });
+
+  it('lists entries with actor, target and reason', async () => {
+    mockFetch({
+      [`GET ${AUDIT_PATH}`]: () => auditLog([
+        entry({}),
+        entry({ id: '2', action: 'system-config.update', targetType: 'SystemConfig', targetId: null, reason: null, changes: [] }),
+      ]),
+    });
+    const { findByTestId, getByTestId } = renderWithRouter(() => <AuditPage />);
+
+    const row = await findByTestId('audit-row-1');
+    expect(row).toHaveTextContent('alice');
+    expect(row).toHaveTextContent('203.0.113.9');
+    expect(row).toHaveTextContent('instance.suspend');
+    expect(row).toHaveTextContent('Abuse report');
+    expect(row.querySelector('a')).toHaveAttribute('href', '/instances/42');
+    expect(getByTestId('audit-row-2')).toHaveTextContent('SystemConfig');
+  });
+
+  it('expands the before and after values of an entry', async () => {
+    mockFetch({ [`GET ${AUDIT_PATH}`]: () => auditLog([entry({})]) });
+    const { findByTestId, getByTestId, queryByTestId } = renderWithRouter(() => <AuditPage />);
+
+    fireEvent.click(await findByTestId('audit-toggle-1'));
+    const changes = getByTestId('audit-changes-1');
+    expect(changes).toHaveTextContent('status');
+    expect(changes).toHaveTextContent('Running');
+    expect(changes).toHaveTextContent('Suspended');
+
+    fireEvent.click(getByTestId('audit-toggle-1'));
+    expect(queryByTestId('audit-changes-1')).toBeNull();
+  });
+
+  it('passes filters from the URL to the API', async () => {
+    const { calls } = mockFetch({ [`GET ${AUDIT_PATH}`]: () => auditLog([entry({})]) });
+    const { findByTestId } = renderWithRouter(() => <AuditPage />, {
+      path: '/audit?actor=alice&action=instance.suspend&targetType=Instance',
+    });
+
+    await findByTestId('audit-row-1');
+    const url = new URL(calls[0].url, 'http://x');
+    expect(url.searchParams.get('actor')).toBe('alice');
+    expect(url.searchParams.get('action')).toBe('instance.suspend');
+    expect(url.searchParams.get('targetType')).toBe('Instance');
+    expect(url.searchParams.get('page')).toBe('1');
+  });
+
+  it('refetches when a filter is applied', async () => {
+    const { calls } = mockFetch({ [`GET ${AUDIT_PATH}`]: () => auditLog([entry({})]) });
+    const { findByTestId, getByTestId } = renderWithRouter(() => <AuditPage />);
+    await findByTestId('audit-row-1');
+
+    fireEvent.change(getByTestId('audit-filter-action'), { target: { value: 'backup.restore' } });
+    await waitFor(() => expect(calls).toHaveLength(2));
+    expect(calls[1].url).toContain('action=backup.restore');
+
+    fireEvent.input(getByTestId('audit-filter-target-id'), { target: { value: ' 42 ' } });
+    fireEvent.click(getByTestId('audit-filter-apply'));
+    await waitFor(() => expect(calls).toHaveLength(3));
+    expect(calls[2].url).toContain('targetId=42');
+    expect(calls[2].url).toContain('action=backup.restore');
+  });
+
+  it('shows an empty state when nothing matches', async () => {
+    mockFetch({ [`GET ${AUDIT_PATH}`]: () => auditLog([]) });
+    const { findByTestId } = renderWithRouter(() => <AuditPage />);
+    expect(await findByTestId('audit-empty')).toBeInTheDocument();
+  });
+});
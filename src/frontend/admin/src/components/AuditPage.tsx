@@ -0,0 +1,238 @@
+import { For, Show, createEffect, createSignal, untrack } from 'solid-js';
+import { A, useSearchParams } from '@solidjs/router';
+import { useAudit } from '../stores/audit.store';
+import type { AuditLogEntry } from '../types/audit';
+
+const PAGE_SIZE = 50;
+
+type AuditSearchParams = {
+  page?: string;
+  actor?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+};
+
+function targetLink(entry: AuditLogEntry): string | null {
+  if (!entry.targetId) return null;
+  if (entry.targetType === 'Instance') return `/instances/${entry.targetId}`;
+  if (entry.targetType === 'Rollout') return `/rollouts/${entry.targetId}`;
+  if (entry.targetType === 'SupportTicket') return `/support/${entry.targetId}`;
+  return null;
+}
+
+/**
+ * Every admin mutation with who made it, from where, what changed and why.
+ * Filters live in the query string so a filtered view can be shared.
+ */
+export function AuditPage() {
+  const audit = useAudit();
+  const [searchParams, setSearchParams] = useSearchParams<AuditSearchParams>();
+  const [actor, setActor] = createSignal(searchParams.actor ?? '');
+  const [targetId, setTargetId] = createSignal(searchParams.targetId ?? '');
+  const [expanded, setExpanded] = createSignal<string | null>(null);
+
+  const currentPage = () => Math.max(1, Number(searchParams.page) || 1);
+  const totalPages = () => Math.max(1, Math.ceil((audit.log?.total ?? 0) / PAGE_SIZE));
+
+  createEffect(() => {
+    const filters = {
+      actor: searchParams.actor,
+      action: searchParams.action,
+      targetType: searchParams.targetType,
+      targetId: searchParams.targetId,
+    };
+    const page = currentPage();
+    untrack(() => audit.fetch(filters, page, PAGE_SIZE));
+  });
+
+  const applyFilter = (change: Partial<AuditSearchParams>) => {
+    setSearchParams({ ...change, page: undefined });
+  };
+
+  const handleSubmit = (e: SubmitEvent) => {
+    e.preventDefault();
+    applyFilter({ actor: actor().trim() || undefined, targetId: targetId().trim() || undefined });
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams({ page: page > 1 ? String(page) : undefined });
+  };
+
+  const toggle = (id: string) => setExpanded(expanded() === id ? null : id);
+
+  return (
+    <div class="bg-white rounded-lg shadow">
+      <div class="p-6 border-b border-gray-200">
+        <div class="flex items-center justify-between">
+          <h2 class="text-xl font-semibold">Audit Log</h2>
+          <span class="text-sm text-gray-500">{audit.log?.total ?? 0} entries</span>
+        </div>
+
+        <form onSubmit={handleSubmit} class="mt-4 flex flex-wrap items-end gap-3 text-sm">
+          <label class="flex flex-col gap-1">
+            <span class="text-gray-600">Actor</span>
+            <input
+              data-testid="audit-filter-actor"
+              type="text"
+              value={actor()}
+              onInput={(e) => setActor(e.currentTarget.value)}
+              placeholder="Username"
+              class="px-3 py-2 border border-gray-300 rounded"
+            />
+          </label>
+          <label class="flex flex-col gap-1">
+            <span class="text-gray-600">Action</span>
+            <select
+              data-testid="audit-filter-action"
+              value={searchParams.action ?? ''}
+              onChange={(e) => applyFilter({ action: e.currentTarget.value || undefined })}
+              class="px-3 py-2 border border-gray-300 rounded"
+            >
+              <option value="">All actions</option>
+              <For each={audit.log?.actions ?? []}>
+                {(action) => <option value={action}>{action}</option>}
+              </For>
+            </select>
+          </label>
+          <label class="flex flex-col gap-1">
+            <span class="text-gray-600">Target</span>
+            <select
+              data-testid="audit-filter-target-type"
+              value={searchParams.targetType ?? ''}
+              onChange={(e) => applyFilter({ targetType: e.currentTarget.value || undefined })}
+              class="px-3 py-2 border border-gray-300 rounded"
+            >
+              <option value="">All targets</option>
+              <For each={audit.log?.targetTypes ?? []}>
+                {(targetType) => <option value={targetType}>{targetType}</option>}
+              </For>
+            </select>
+          </label>
+          <label class="flex flex-col gap-1">
+            <span class="text-gray-600">Target ID</span>
+            <input
+              data-testid="audit-filter-target-id"
+              type="text"
+              value={targetId()}
+              onInput={(e) => setTargetId(e.currentTarget.value)}
+              class="px-3 py-2 border border-gray-300 rounded font-mono"
+            />
+          </label>
+          <button
+            type="submit"
+            data-testid="audit-filter-apply"
+            class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Apply
+          </button>
+        </form>
+      </div>
+
+      <Show when={audit.error}>
+        <div class="mx-6 mt-4 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">
+          {audit.error}
+        </div>
+      </Show>
+
+      <Show when={audit.log || !audit.isLoading} fallback={<div class="p-6 text-center">Loading...</div>}>
+        <Show
+          when={(audit.log?.entries.length ?? 0) > 0}
+          fallback={<div data-testid="audit-empty" class="p-6 text-center text-gray-500">No audit entries match these filters.</div>}
+        >
+          <table class="w-full">
+            <thead class="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actor</th>
+                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Target</th>
+                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Changes</th>
+              </tr>
+            </thead>
+            <tbody class="divide-y divide-gray-200">
+              <For each={audit.log!.entries}>
+                {(entry) => (
+                  <>
+                    <tr data-testid={`audit-row-${entry.id}`}>
+                      <td class="px-6 py-4 text-sm whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td class="px-6 py-4 text-sm">
+                        <div>{entry.actorName}</div>
+                        <div class="text-xs text-gray-500 font-mono">{entry.ipAddress}</div>
+                      </td>
+                      <td class="px-6 py-4 text-sm font-mono">{entry.action}</td>
+                      <td class="px-6 py-4 text-sm">
+                        <span class="text-gray-500">{entry.targetType}</span>
+                        <Show when={entry.targetId}>
+                          {' '}
+                          <Show when={targetLink(entry)} fallback={<span class="font-mono">{entry.targetId}</span>}>
+                            {(href) => <A href={href()} class="font-mono text-blue-600 hover:underline">{entry.targetId}</A>}
+                          </Show>
+                        </Show>
+                      </td>
+                      <td class="px-6 py-4 text-sm text-gray-700">{entry.reason ?? <span class="text-gray-400">—</span>}</td>
+                      <td class="px-6 py-4 text-sm">
+                        <Show when={entry.changes.length > 0} fallback={<span class="text-gray-400">—</span>}>
+                          <button
+                            data-testid={`audit-toggle-${entry.id}`}
+                            onClick={() => toggle(entry.id)}
+                            class="text-blue-600 hover:underline"
+                          >
+                            {entry.changes.length} field{entry.changes.length === 1 ? '' : 's'}
+                          </button>
+                        </Show>
+                      </td>
+                    </tr>
+                    <Show when={expanded() === entry.id}>
+                      <tr data-testid={`audit-changes-${entry.id}`} class="bg-gray-50">
+                        <td colspan={6} class="px-6 py-3">
+                          <table class="text-sm">
+                            <tbody>
+                              <For each={entry.changes}>
+                                {(change) => (
+                                  <tr>
+                                    <td class="pr-6 py-1 font-mono text-gray-700">{change.field}</td>
+                                    <td class="pr-3 py-1 font-mono text-red-700 line-through">{change.before ?? '∅'}</td>
+                                    <td class="pr-3 py-1 text-gray-400">→</td>
+                                    <td class="py-1 font-mono text-green-700">{change.after ?? '∅'}</td>
+                                  </tr>
+                                )}
+                              </For>
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    </Show>
+                  </>
+                )}
+              </For>
+            </tbody>
+          </table>
+
+          <Show when={totalPages() > 1}>
+            <div class="p-4 border-t border-gray-200 flex items-center justify-between">
+              <button
+                onClick={() => handlePageChange(currentPage() - 1)}
+                disabled={currentPage() <= 1}
+                class="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-40"
+              >
+                Previous
+              </button>
+              <span class="text-sm text-gray-600">
+                Page {currentPage()} of {totalPages()}
+              </span>
+              <button
+                onClick={() => handlePageChange(currentPage() + 1)}
+                disabled={currentPage() >= totalPages()}
+                class="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-40"
+              >
+                Next
+              </button>
+            </div>
+          </Show>
+        </Show>
+      </Show>
+    </div>
+  );
+}
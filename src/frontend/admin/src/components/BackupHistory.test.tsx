@@ -1,20 +1,28 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
 import { BackupHistory } from './BackupHistory';
 import { useInstances } from '../stores/instance.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
 
 const RECORDS_PATH = '/api/v1/admin/instances/inst-1/backups';
 const TRIGGER_PATH = '/api/v1/admin/instances/inst-1/backups/trigger';
 
 const sampleRecord = {
   id: 'b-1',
+  instanceId: 'inst-1',
   kind: 'Full',
   status: 'Completed' as const,
   startedAt: '2026-01-01T00:00:00Z',
   sizeBytes: 1024,
+  checksum: 'c0ffee',
+  verificationStatus: 'Unverified',
+  verifiedAt: null,
+  verificationError: null,
 };
 
+const recordList = (backups: unknown[]) => ({ backups, total: backups.length, page: 1, pageSize: 20 });
+
 describe('BackupHistory', () => {
   beforeEach(() => {
     useInstances().reset();
@@ -22,9 +30,9 @@ describe('BackupHistory', () => {
 
   it('renders heading and trigger button', async () => {
     mockFetch({
-      [`GET ${RECORDS_PATH}`]: () => [],
+      [`GET ${RECORDS_PATH}`]: () => recordList([]),
     });
-    const { getByText } = render(() => <BackupHistory instanceId="inst-1" />);
+    const { getByText } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
     expect(getByText('Backup History')).toBeInTheDocument();
     expect(getByText('Trigger Backup')).toBeInTheDocument();
   });
@@ -33,23 +41,23 @@ describe('BackupHistory', () => {
     mockFetch({
       [`GET ${RECORDS_PATH}`]: () => new Promise(() => {}),
     });
-    const { getByText } = render(() => <BackupHistory instanceId="inst-1" />);
+    const { getByText } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
     expect(getByText('Loading backups...')).toBeInTheDocument();
   });
 
   it('renders empty placeholder when no backups exist', async () => {
     mockFetch({
-      [`GET ${RECORDS_PATH}`]: () => [],
+      [`GET ${RECORDS_PATH}`]: () => recordList([]),
     });
-    const { findByText } = render(() => <BackupHistory instanceId="inst-1" />);
+    const { findByText } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
     expect(await findByText('No backups found.')).toBeInTheDocument();
   });
 
   it('renders backup record rows', async () => {
     mockFetch({
-      [`GET ${RECORDS_PATH}`]: () => [sampleRecord],
+      [`GET ${RECORDS_PATH}`]: () => recordList([sampleRecord]),
     });
-    const { findByText, findAllByText } = render(() => <BackupHistory instanceId="inst-1" />);
+    const { findByText, findAllByText } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
     expect(await findByText('Completed')).toBeInTheDocument();
     // 'Full' appears twice — once in the kind <option>, once in the row's <td>
     const matches = await findAllByText('Full');
@@ -58,27 +66,114 @@ describe('BackupHistory', () => {
 
   it('shows confirm dialog when Delete is clicked', async () => {
     mockFetch({
-      [`GET ${RECORDS_PATH}`]: () => [sampleRecord],
+      [`GET ${RECORDS_PATH}`]: () => recordList([sampleRecord]),
     });
-    const { findByText, getByText } = render(() => <BackupHistory instanceId="inst-1" />);
+    const { findByText, getByText } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
     const deleteBtn = await findByText('Delete');
     fireEvent.click(deleteBtn);
     expect(getByText('Confirm Action')).toBeInTheDocument();
     expect(getByText(/cannot be undone/i)).toBeInTheDocument();
   });
 
+  it('verifies a backup and shows the result as a badge', async () => {
+    mockFetch({
+      [`GET ${RECORDS_PATH}`]: () => recordList([sampleRecord]),
+      [`POST ${RECORDS_PATH}/b-1/verify`]: () => ({
+        ...sampleRecord,
+        verificationStatus: 'Failed',
+        verifiedAt: '2026-01-02T00:00:00Z',
+        verificationError: 'The stored objects do not match the checksum',
+      }),
+    });
+    const { findByTestId, getByTestId } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
+    expect(await findByTestId('backup-verification-b-1')).toHaveTextContent('Unverified');
+    fireEvent.click(getByTestId('backup-verify-b-1'));
+    await waitFor(() => expect(getByTestId('backup-verification-b-1')).toHaveTextContent('Verification failed'));
+    expect(getByTestId('backup-verification-b-1').getAttribute('title')).toContain('do not match the checksum');
+  });
+
+  it('offers no verification for a backup taken before checksums were recorded', async () => {
+    mockFetch({
+      [`GET ${RECORDS_PATH}`]: () => recordList([{ ...sampleRecord, checksum: null }]),
+    });
+    const { findByTestId, queryByTestId } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
+    const badge = await findByTestId('backup-verification-b-1');
+    expect(badge).toHaveTextContent('No checksum');
+    expect(badge.getAttribute('title')).toContain('cannot be verified');
+    expect(queryByTestId('backup-verify-b-1')).toBeNull();
+  });
+
+  it('lists signed download links for a backup', async () => {
+    mockFetch({
+      [`GET ${RECORDS_PATH}`]: () => recordList([sampleRecord]),
+      [`POST ${RECORDS_PATH}/b-1/download`]: () => ({
+        expiresAt: '2026-01-01T00:15:00Z',
+        files: [{ name: 'db-meta.json', url: 'https://storage.example/db-meta.json?X-Amz-Signature=abc' }],
+      }),
+    });
+    const { findByTestId, findByText } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
+    fireEvent.click(await findByTestId('backup-download-b-1'));
+    await findByTestId('backup-download-dialog');
+    expect(await findByText('db-meta.json')).toHaveAttribute(
+      'href',
+      'https://storage.example/db-meta.json?X-Amz-Signature=abc',
+    );
+  });
+
+  it('shows why a download could not be prepared', async () => {
+    mockFetch({
+      [`GET ${RECORDS_PATH}`]: () => recordList([sampleRecord]),
+      [`POST ${RECORDS_PATH}/b-1/download`]: () => ({
+        status: 409,
+        body: { detail: 'Cold storage is not configured, so the backup cannot be downloaded' },
+      }),
+    });
+    const { findByTestId } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
+    fireEvent.click(await findByTestId('backup-download-b-1'));
+    expect(await findByTestId('backup-action-error')).toHaveTextContent('Cold storage is not configured');
+  });
+
+  it('omits the reason header when no reason is given', async () => {
+    const headers: Record<string, string>[] = [];
+    mockFetch({
+      [`GET ${RECORDS_PATH}`]: () => recordList([sampleRecord]),
+      [`DELETE ${RECORDS_PATH}/b-1`]: ({ init }) => {
+        headers.push(init?.headers as Record<string, string>);
+        return { status: 200, body: { success: true } };
+      },
+    });
+    const { findByText, getByText, queryByText } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
+    fireEvent.click(await findByText('Delete'));
+    fireEvent.click(getByText('Confirm'));
+    await waitFor(() => expect(queryByText('Confirm Action')).toBeNull());
+    expect(headers).toHaveLength(1);
+    expect(headers[0]).not.toHaveProperty('X-Audit-Reason');
+  });
+
   it('triggers a new backup via POST when Trigger Backup is clicked', async () => {
     let triggered = false;
     mockFetch({
-      [`GET ${RECORDS_PATH}`]: () => [],
+      [`GET ${RECORDS_PATH}`]: () => recordList([]),
       [`POST ${TRIGGER_PATH}`]: () => {
         triggered = true;
         return { status: 200, body: sampleRecord };
       },
     });
-    const { findByText, getByText } = render(() => <BackupHistory instanceId="inst-1" />);
+    const { findByText, getByText } = renderWithRouter(() => <BackupHistory instanceId="inst-1" />);
     await findByText('No backups found.');
     fireEvent.click(getByText('Trigger Backup'));
     await waitFor(() => expect(triggered).toBe(true));
   });
+
+  it('loads the page number from the URL', async () => {
+    const { calls } = mockFetch({
+      [`GET ${RECORDS_PATH}`]: () => recordList([sampleRecord]),
+    });
+    const { findByText } = renderWithRouter(
+      () => <BackupHistory instanceId="inst-1" />,
+      { path: '/instances/inst-1/backups?page=2' },
+    );
+    expect(await findByText('Page 2')).toBeInTheDocument();
+    expect(calls.some(c => c.url === `${RECORDS_PATH}?page=2&pageSize=20`)).toBe(true);
+  });
 });
@@ -1,20 +1,15 @@
-import { createSignal, onMount, Show, For } from 'solid-js';
+import { createSignal, createEffect, on, Show, For } from 'solid-js';
+import { useSearchParams } from '@solidjs/router';
 import { useInstances } from '../stores/instance.store';
-import type { BackupRecord } from '../stores/instance.store';
+import type { BackupDownload, BackupRecord } from '../types/instance';
+import { formatBytes } from '../utils/bytes';
+import { ReasonField } from './ReasonField';
 
 interface BackupHistoryProps {
   instanceId: string;
 }
 
 type BackupKind = 'Full' | 'Database' | 'Files' | 'Redis';
-type ConfirmAction = { type: 'restore' | 'delete'; backupId: string } | null;
-
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
-  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(1024));
-  return `${(bytes / Math.pow(1024, i)).toFixed(1)} ${units[i]}`;
-}
 
 function statusBadge(status: BackupRecord['status']): string {
   switch (status) {
@@ -24,34 +19,64 @@ function statusBadge(status: BackupRecord['status']): string {
       return 'bg-yellow-100 text-yellow-800';
     case 'Failed':
       return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
   }
 }
 
+const VERIFICATION_BADGES: Record<string, { label: string; classes: string }> = {
+  Passed: { label: 'Verified', classes: 'bg-green-100 text-green-800' },
+  Failed: { label: 'Verification failed', classes: 'bg-red-100 text-red-800' },
+  Unverified: { label: 'Unverified', classes: 'bg-gray-100 text-gray-600' },
+  NoChecksum: { label: 'No checksum', classes: 'bg-gray-100 text-gray-500' },
+};
+
+// Backups taken before checksums were recorded have nothing to be verified against
+function verificationBadge(record: BackupRecord) {
+  if (!record.checksum) return VERIFICATION_BADGES.NoChecksum;
+  return VERIFICATION_BADGES[record.verificationStatus] ?? VERIFICATION_BADGES.Unverified;
+}
+
+function verificationTitle(record: BackupRecord): string {
+  if (!record.checksum) return 'Taken before checksums were recorded, so it cannot be verified';
+  if (!record.verifiedAt) return 'Not checked against its checksum yet';
+  const checked = `Checked ${new Date(record.verifiedAt).toLocaleString()}`;
+  return record.verificationError ? `${checked}: ${record.verificationError}` : checked;
+}
+
 export function BackupHistory(props: BackupHistoryProps) {
   const instanceStore = useInstances();
   const [records, setRecords] = createSignal<BackupRecord[]>([]);
+  const [total, setTotal] = createSignal(0);
+  const [searchParams, setSearchParams] = useSearchParams<{ page?: string }>();
   const [isLoading, setIsLoading] = createSignal(true);
-  const [page, setPage] = createSignal(1);
+  const page = () => Math.max(1, Number(searchParams.page) || 1);
   const pageSize = 20;
   const [triggerKind, setTriggerKind] = createSignal<BackupKind>('Full');
   const [isTriggering, setIsTriggering] = createSignal(false);
-  const [confirm, setConfirm] = createSignal<ConfirmAction>(null);
+  const [confirmDelete, setConfirmDelete] = createSignal<string | null>(null);
   const [isActing, setIsActing] = createSignal(false);
+  const [reason, setReason] = createSignal('');
+  const [verifyingId, setVerifyingId] = createSignal<string | null>(null);
+  const [download, setDownload] = createSignal<BackupDownload | null>(null);
+  const [actionError, setActionError] = createSignal<string | null>(null);
 
   const fetchRecords = async () => {
     setIsLoading(true);
     try {
       const data = await instanceStore.fetchBackupRecords(props.instanceId, page(), pageSize);
-      setRecords(data);
+      setRecords(data.backups);
+      setTotal(data.total);
     } catch (error) {
       console.error('Failed to fetch backup records:', error);
       setRecords([]);
+      setTotal(0);
     } finally {
       setIsLoading(false);
     }
   };
 
-  onMount(fetchRecords);
+  createEffect(on(page, fetchRecords));
 
   const handleTrigger = async () => {
     setIsTriggering(true);
@@ -65,18 +90,19 @@ export function BackupHistory(props: BackupHistoryProps) {
     }
   };
 
-  const handleConfirmedAction = async () => {
-    const action = confirm();
-    if (!action) return;
+  const closeConfirm = () => {
+    setConfirmDelete(null);
+    setReason('');
+  };
+
+  const handleConfirmedDelete = async () => {
+    const backupId = confirmDelete();
+    if (!backupId) return;
     setIsActing(true);
     try {
-      if (action.type === 'restore') {
-        await instanceStore.triggerRestore(props.instanceId, action.backupId);
-      } else {
-        await instanceStore.deleteBackup(props.instanceId, action.backupId);
-        await fetchRecords();
-      }
-      setConfirm(null);
+      await instanceStore.deleteBackup(props.instanceId, backupId, reason());
+      await fetchRecords();
+      closeConfirm();
     } catch (error) {
       console.error('Action failed:', error);
     } finally {
@@ -84,9 +110,30 @@ export function BackupHistory(props: BackupHistoryProps) {
     }
   };
 
-  const handlePageChange = async (newPage: number) => {
-    setPage(newPage);
-    await fetchRecords();
+  const handleVerify = async (backupId: string) => {
+    setVerifyingId(backupId);
+    setActionError(null);
+    try {
+      const verified = await instanceStore.verifyBackup(props.instanceId, backupId);
+      setRecords(records().map((r) => (r.id === verified.id ? verified : r)));
+    } catch (err) {
+      setActionError((err as { detail?: string })?.detail ?? 'Failed to verify the backup');
+    } finally {
+      setVerifyingId(null);
+    }
+  };
+
+  const handleDownload = async (backupId: string) => {
+    setActionError(null);
+    try {
+      setDownload(await instanceStore.fetchBackupDownload(props.instanceId, backupId));
+    } catch (err) {
+      setActionError((err as { detail?: string })?.detail ?? 'Failed to prepare the download');
+    }
+  };
+
+  const handlePageChange = (newPage: number) => {
+    setSearchParams({ page: newPage > 1 ? String(newPage) : undefined });
   };
 
   return (
@@ -115,6 +162,10 @@ export function BackupHistory(props: BackupHistoryProps) {
         </div>
       </div>
 
+      <Show when={actionError()}>
+        <p data-testid="backup-action-error" class="text-sm text-red-600 mb-4">{actionError()}</p>
+      </Show>
+
       <Show when={isLoading()}>
         <p class="text-gray-500 text-sm">Loading backups...</p>
       </Show>
@@ -131,6 +182,7 @@ export function BackupHistory(props: BackupHistoryProps) {
                   <th class="pb-2 font-medium text-gray-600">Date</th>
                   <th class="pb-2 font-medium text-gray-600">Kind</th>
                   <th class="pb-2 font-medium text-gray-600">Status</th>
+                  <th class="pb-2 font-medium text-gray-600">Integrity</th>
                   <th class="pb-2 font-medium text-gray-600">Size</th>
                   <th class="pb-2 font-medium text-gray-600">Actions</th>
                 </tr>
@@ -148,19 +200,41 @@ export function BackupHistory(props: BackupHistoryProps) {
                           {record.status}
                         </span>
                       </td>
+                      <td class="py-2 pr-4">
+                        <Show when={record.status === 'Completed'}>
+                          <span
+                            data-testid={`backup-verification-${record.id}`}
+                            title={verificationTitle(record)}
+                            class={`px-2 py-0.5 rounded text-xs font-medium ${verificationBadge(record).classes}`}
+                          >
+                            {verificationBadge(record).label}
+                          </span>
+                        </Show>
+                      </td>
                       <td class="py-2 pr-4 text-gray-700">{formatBytes(record.sizeBytes)}</td>
                       <td class="py-2">
                         <div class="flex gap-2">
                           <Show when={record.status === 'Completed'}>
+                            <Show when={record.checksum}>
+                              <button
+                                data-testid={`backup-verify-${record.id}`}
+                                onClick={() => handleVerify(record.id)}
+                                disabled={verifyingId() !== null}
+                                class="px-2 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-40"
+                              >
+                                {verifyingId() === record.id ? 'Verifying...' : 'Verify'}
+                              </button>
+                            </Show>
                             <button
-                              onClick={() => setConfirm({ type: 'restore', backupId: record.id })}
-                              class="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700"
+                              data-testid={`backup-download-${record.id}`}
+                              onClick={() => handleDownload(record.id)}
+                              class="px-2 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
                             >
-                              Restore
+                              Download
                             </button>
                           </Show>
                           <button
-                            onClick={() => setConfirm({ type: 'delete', backupId: record.id })}
+                            onClick={() => setConfirmDelete(record.id)}
                             class="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
                           >
                             Delete
@@ -185,7 +259,7 @@ export function BackupHistory(props: BackupHistoryProps) {
             <span class="text-sm text-gray-600">Page {page()}</span>
             <button
               onClick={() => handlePageChange(page() + 1)}
-              disabled={records().length < pageSize}
+              disabled={page() * pageSize >= total()}
               class="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-40"
             >
               Next
@@ -194,25 +268,54 @@ export function BackupHistory(props: BackupHistoryProps) {
         </Show>
       </Show>
 
-      <Show when={confirm()}>
+      <Show when={download()}>
+        {(links) => (
+          <div class="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div data-testid="backup-download-dialog" class="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+              <h4 class="text-lg font-semibold mb-2">Download Backup</h4>
+              <p class="text-sm text-gray-600 mb-4">
+                These links expire at {new Date(links().expiresAt).toLocaleTimeString()}.
+              </p>
+              <ul class="space-y-2 mb-4 text-sm">
+                <For each={links().files}>
+                  {(file) => (
+                    <li>
+                      <a href={file.url} download={file.name} class="text-blue-600 hover:underline">
+                        {file.name}
+                      </a>
+                    </li>
+                  )}
+                </For>
+              </ul>
+              <button
+                onClick={() => setDownload(null)}
+                class="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        )}
+      </Show>
+
+      <Show when={confirmDelete()}>
         <div class="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div class="bg-white rounded-lg p-6 max-w-md w-full mx-4">
             <h4 class="text-lg font-semibold mb-2">Confirm Action</h4>
             <p class="text-gray-600 mb-4">
-              {confirm()!.type === 'restore'
-                ? 'Are you sure you want to restore from this backup? This will overwrite current data.'
-                : 'Are you sure you want to delete this backup? This cannot be undone.'}
+              Are you sure you want to delete this backup? This cannot be undone.
             </p>
+            <ReasonField value={reason()} onInput={setReason} disabled={isActing()} />
             <div class="flex gap-3">
               <button
-                onClick={handleConfirmedAction}
+                onClick={handleConfirmedDelete}
                 disabled={isActing()}
                 class="flex-1 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-400"
               >
                 {isActing() ? 'Processing...' : 'Confirm'}
               </button>
               <button
-                onClick={() => setConfirm(null)}
+                onClick={closeConfirm}
                 disabled={isActing()}
                 class="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
               >
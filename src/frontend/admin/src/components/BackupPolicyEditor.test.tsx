@@ -5,14 +5,29 @@ import { useInstances } from '../stores/instance.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
 
 const POLICY_PATH = '/api/v1/admin/instances/inst-1/backup-policy';
+const STORAGE_PATH = '/api/v1/admin/instances/inst-1/backups/storage';
+const MB = 1024 ** 2;
 
 const samplePolicy = {
   enabled: true,
   frequency: 'Daily' as const,
+  databaseFrequency: null,
   retentionDays: 7,
   backupDatabase: true,
   backupFiles: false,
   backupRedis: false,
+  verifySampleSize: 1,
+  lastVerifiedAt: null,
+  templateId: null,
+  templateName: null,
+  isOverridden: false,
+};
+
+const overriddenPolicy = {
+  ...samplePolicy,
+  templateId: '10',
+  templateName: 'Free: weekly, 7 days',
+  isOverridden: true,
 };
 
 describe('BackupPolicyEditor', () => {
@@ -52,7 +67,7 @@ describe('BackupPolicyEditor', () => {
   it('saves policy and shows success message', async () => {
     mockFetch({
       [`GET ${POLICY_PATH}`]: () => samplePolicy,
-      [`PUT ${POLICY_PATH}`]: () => ({ status: 200, body: {} }),
+      [`PUT ${POLICY_PATH}`]: () => samplePolicy,
     });
     const { getByText, findByText } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
     await findByText('Save Policy');
@@ -60,6 +75,140 @@ describe('BackupPolicyEditor', () => {
     expect(await findByText('Policy saved.')).toBeInTheDocument();
   });
 
+  it('saves the number of backups verified per day', async () => {
+    let saved: unknown;
+    mockFetch({
+      [`GET ${POLICY_PATH}`]: () => samplePolicy,
+      [`PUT ${POLICY_PATH}`]: ({ body }) => {
+        saved = body;
+        return samplePolicy;
+      },
+    });
+    const { getByText, findByTestId, findByText } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+    fireEvent.input(await findByTestId('backup-verify-sample-size'), { target: { value: '3' } });
+    fireEvent.click(getByText('Save Policy'));
+    await findByText('Policy saved.');
+    expect(saved).toMatchObject({ verifySampleSize: 3 });
+  });
+
+  it('saves a separate database backup frequency', async () => {
+    let saved: unknown;
+    mockFetch({
+      [`GET ${POLICY_PATH}`]: () => samplePolicy,
+      [`PUT ${POLICY_PATH}`]: ({ body }) => {
+        saved = body;
+        return samplePolicy;
+      },
+    });
+    const { getByText, findByTestId, findByText } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+    fireEvent.change(await findByTestId('backup-database-frequency'), { target: { value: 'Hourly' } });
+    fireEvent.click(getByText('Save Policy'));
+    await findByText('Policy saved.');
+    expect(saved).toMatchObject({ frequency: 'Daily', databaseFrequency: 'Hourly' });
+  });
+
+  it('shows when the policy follows its template', async () => {
+    mockFetch({
+      [`GET ${POLICY_PATH}`]: () => ({ ...overriddenPolicy, isOverridden: false }),
+    });
+    const { findByTestId, queryByTestId } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+    expect(await findByTestId('backup-policy-template')).toHaveTextContent('Follows template Free: weekly, 7 days');
+    expect(queryByTestId('backup-policy-reset')).not.toBeInTheDocument();
+  });
+
+  it('marks the policy overridden once saved settings differ from the template', async () => {
+    mockFetch({
+      [`GET ${POLICY_PATH}`]: () => ({ ...overriddenPolicy, isOverridden: false }),
+      [`PUT ${POLICY_PATH}`]: () => overriddenPolicy,
+    });
+    const { getByText, findByTestId, findByText } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+    await findByTestId('backup-policy-template');
+    fireEvent.click(getByText('Save Policy'));
+    await findByText('Policy saved.');
+    expect(await findByTestId('backup-policy-template')).toHaveTextContent('Overrides template Free: weekly, 7 days');
+  });
+
+  it('keeps a policy saved without a template out of template changes', async () => {
+    mockFetch({
+      [`GET ${POLICY_PATH}`]: () => samplePolicy,
+      [`PUT ${POLICY_PATH}`]: () => ({ ...samplePolicy, isOverridden: true }),
+    });
+    const { getByText, findByTestId, findByText } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+    await findByTestId('backup-policy-template');
+    fireEvent.click(getByText('Save Policy'));
+    await findByText('Policy saved.');
+    expect(await findByTestId('backup-policy-template')).toHaveTextContent(
+      'Not following a backup template — template changes are not applied to this instance',
+    );
+    expect(await findByTestId('backup-policy-reset')).toBeInTheDocument();
+  });
+
+  it('resets an overridden policy to its template', async () => {
+    const { calls } = mockFetch({
+      [`GET ${POLICY_PATH}`]: () => overriddenPolicy,
+      [`POST ${POLICY_PATH}/reset`]: () => ({ ...overriddenPolicy, frequency: 'Weekly', isOverridden: false }),
+    });
+    const { findByTestId, queryByTestId } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+    fireEvent.click(await findByTestId('backup-policy-reset'));
+    await waitFor(() => expect(queryByTestId('backup-policy-reset')).not.toBeInTheDocument());
+    expect(queryByTestId('backup-policy-template')).toHaveTextContent('Follows template');
+    expect(calls.some((c) => c.method === 'POST' && c.url.endsWith('/backup-policy/reset'))).toBe(true);
+  });
+
+  it('shows why a policy cannot be reset', async () => {
+    mockFetch({
+      [`GET ${POLICY_PATH}`]: () => samplePolicy,
+      [`POST ${POLICY_PATH}/reset`]: () => ({
+        status: 409,
+        body: { detail: 'No backup template is assigned to the Free tier' },
+      }),
+    });
+    const { findByTestId, findByText } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+    expect(await findByTestId('backup-policy-template')).toHaveTextContent('Not following a backup template');
+    fireEvent.click(await findByTestId('backup-policy-reset'));
+    expect(await findByText('No backup template is assigned to the Free tier')).toBeInTheDocument();
+  });
+
+  it('estimates what the chosen retention keeps from recent backup sizes', async () => {
+    mockFetch({
+      [`GET ${POLICY_PATH}`]: () => samplePolicy,
+      [`GET ${STORAGE_PATH}`]: () => ({
+        instanceId: 'inst-1',
+        storedBytes: 0,
+        storedCount: 0,
+        recentSizes: [
+          { kind: 'Database', averageBytes: 2 * MB, sampleCount: 3 },
+          { kind: 'Full', averageBytes: 100 * MB, sampleCount: 5 },
+        ],
+      }),
+    });
+    const { findByTestId, getByTestId, findByText } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+    await findByText('Save Policy');
+
+    expect(await findByTestId('backup-retention-estimate')).toHaveTextContent('Keeps about 7 backups, roughly 700.0 MB.');
+
+    fireEvent.input(getByTestId('backup-retention-days'), { target: { value: '30' } });
+    fireEvent.change(getByTestId('backup-database-frequency'), { target: { value: 'Hourly' } });
+
+    await waitFor(() =>
+      expect(getByTestId('backup-retention-estimate')).toHaveTextContent(
+        'Keeps about 30 full and 690 database backups, roughly 4.3 GB.',
+      ),
+    );
+  });
+
+  it('explains the estimate needs completed backups for a size', async () => {
+    mockFetch({
+      [`GET ${POLICY_PATH}`]: () => ({ ...samplePolicy, frequency: 'Weekly', retentionDays: 30 }),
+      [`GET ${STORAGE_PATH}`]: () => ({ instanceId: 'inst-1', storedBytes: 0, storedCount: 0, recentSizes: [] }),
+    });
+    const { findByTestId } = render(() => <BackupPolicyEditor instanceId="inst-1" />);
+
+    expect(await findByTestId('backup-retention-estimate')).toHaveTextContent(
+      'Keeps about 5 backups; their size is estimated once this instance has completed backups.',
+    );
+  });
+
   it('shows error when save fails', async () => {
     mockFetch({
       [`GET ${POLICY_PATH}`]: () => samplePolicy,
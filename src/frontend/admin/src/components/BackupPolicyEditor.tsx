@@ -1,6 +1,8 @@
 import { createSignal, onMount, Show } from 'solid-js';
 import { useInstances } from '../stores/instance.store';
-import type { BackupPolicy } from '../stores/instance.store';
+import type { BackupKindSize, BackupPolicy } from '../types/instance';
+import { simulateRetention } from '../utils/backup-retention';
+import { formatBytes } from '../utils/bytes';
 
 interface BackupPolicyEditorProps {
   instanceId: string;
@@ -12,8 +14,22 @@ export function BackupPolicyEditor(props: BackupPolicyEditorProps) {
   const [isLoading, setIsLoading] = createSignal(true);
   const [isSaving, setIsSaving] = createSignal(false);
   const [saveResult, setSaveResult] = createSignal<'success' | 'error' | null>(null);
+  const [isResetting, setIsResetting] = createSignal(false);
+  const [resetError, setResetError] = createSignal<string | null>(null);
+  const [recentSizes, setRecentSizes] = createSignal<BackupKindSize[]>([]);
+
+  // Sizes only feed the retention estimate, so the editor works without them
+  const loadRecentSizes = async () => {
+    try {
+      const storage = await instanceStore.fetchBackupStorage(props.instanceId);
+      setRecentSizes(storage.recentSizes);
+    } catch (error) {
+      console.error('Failed to fetch backup sizes:', error);
+    }
+  };
 
   onMount(async () => {
+    loadRecentSizes();
     try {
       const fetched = await instanceStore.fetchBackupPolicy(props.instanceId);
       setPolicy(fetched);
@@ -30,7 +46,7 @@ export function BackupPolicyEditor(props: BackupPolicyEditorProps) {
     setIsSaving(true);
     setSaveResult(null);
     try {
-      await instanceStore.updateBackupPolicy(props.instanceId, current);
+      setPolicy(await instanceStore.updateBackupPolicy(props.instanceId, current));
       setSaveResult('success');
     } catch (error) {
       console.error('Failed to update backup policy:', error);
@@ -40,6 +56,34 @@ export function BackupPolicyEditor(props: BackupPolicyEditorProps) {
     }
   };
 
+  const handleReset = async () => {
+    setIsResetting(true);
+    setResetError(null);
+    setSaveResult(null);
+    try {
+      setPolicy(await instanceStore.resetBackupPolicy(props.instanceId));
+    } catch (err) {
+      console.error('Failed to reset backup policy:', err);
+      setResetError((err as { detail?: string })?.detail ?? 'Failed to reset to the template');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const estimate = () => simulateRetention(policy()!, recentSizes());
+
+  const describeEstimate = () => {
+    const { fullSnapshots, databaseSnapshots, bytes } = estimate();
+    const plural = (count: number) => (count === 1 ? '' : 's');
+    const kept =
+      databaseSnapshots > 0
+        ? `${fullSnapshots} full and ${databaseSnapshots} database backup${plural(databaseSnapshots)}`
+        : `${fullSnapshots} backup${plural(fullSnapshots)}`;
+    return bytes === null
+      ? `Keeps about ${kept}; their size is estimated once this instance has completed backups.`
+      : `Keeps about ${kept}, roughly ${formatBytes(bytes)}.`;
+  };
+
   const update = <K extends keyof BackupPolicy>(key: K, value: BackupPolicy[K]) => {
     const current = policy();
     if (current) setPolicy({ ...current, [key]: value });
@@ -55,6 +99,33 @@ export function BackupPolicyEditor(props: BackupPolicyEditorProps) {
 
       <Show when={!isLoading() && policy()}>
         <div class="space-y-4">
+          <div
+            data-testid="backup-policy-template"
+            class="flex items-center justify-between gap-3 text-sm bg-gray-50 border border-gray-200 rounded px-3 py-2"
+          >
+            <span>
+              <Show when={policy()!.templateName} fallback="Not following a backup template">
+                {policy()!.isOverridden ? 'Overrides' : 'Follows'} template <strong>{policy()!.templateName}</strong>
+              </Show>
+              <Show when={policy()!.isOverridden}>
+                <span class="text-gray-500"> — template changes are not applied to this instance</span>
+              </Show>
+            </span>
+            <Show when={!policy()!.templateId || policy()!.isOverridden}>
+              <button
+                data-testid="backup-policy-reset"
+                onClick={handleReset}
+                disabled={isResetting()}
+                class="px-3 py-1 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50 whitespace-nowrap"
+              >
+                {isResetting() ? 'Resetting...' : 'Reset to template'}
+              </button>
+            </Show>
+          </div>
+          <Show when={resetError()}>
+            <p class="text-sm text-red-600">{resetError()}</p>
+          </Show>
+
           <div class="flex items-center justify-between">
             <label class="text-sm font-medium">Enable Scheduled Backups</label>
             <button
@@ -85,9 +156,26 @@ export function BackupPolicyEditor(props: BackupPolicyEditorProps) {
             </select>
           </div>
 
+          <div>
+            <label class="block text-sm font-medium mb-1">Separate database backups</label>
+            <select
+              data-testid="backup-database-frequency"
+              value={policy()!.databaseFrequency ?? ''}
+              onChange={(e) => update('databaseFrequency', e.currentTarget.value || null)}
+              disabled={!policy()!.enabled || !policy()!.backupDatabase}
+              class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
+            >
+              <option value="">None — only with full backups</option>
+              <option value="Hourly">Hourly</option>
+              <option value="Daily">Daily</option>
+              <option value="Weekly">Weekly</option>
+            </select>
+          </div>
+
           <div>
             <label class="block text-sm font-medium mb-1">Retention (days)</label>
             <input
+              data-testid="backup-retention-days"
               type="number"
               min="1"
               value={policy()!.retentionDays}
@@ -95,6 +183,29 @@ export function BackupPolicyEditor(props: BackupPolicyEditorProps) {
               disabled={!policy()!.enabled}
               class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
             />
+            <Show when={policy()!.enabled}>
+              <p data-testid="backup-retention-estimate" class="text-xs text-gray-500 mt-1">{describeEstimate()}</p>
+            </Show>
+          </div>
+
+          <div>
+            <label class="block text-sm font-medium mb-1">Backups verified per day</label>
+            <input
+              data-testid="backup-verify-sample-size"
+              type="number"
+              min="0"
+              max="10"
+              value={policy()!.verifySampleSize}
+              onInput={(e) => update('verifySampleSize', Math.min(10, Math.max(0, parseInt(e.currentTarget.value) || 0)))}
+              disabled={!policy()!.enabled}
+              class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
+            />
+            <p class="text-xs text-gray-500 mt-1">
+              A random sample of completed backups is re-read and checked against its checksum; 0 turns this off.
+              <Show when={policy()!.lastVerifiedAt}>
+                {' '}Last run {new Date(policy()!.lastVerifiedAt!).toLocaleString()}.
+              </Show>
+            </p>
           </div>
 
           <div class="space-y-2">
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
+import { BackupStoragePage } from './BackupStoragePage';
+import { useBackupStorage } from '../stores/backup-storage.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
+import type { BackupStorage } from '../types/backup-storage';
+
+const STORAGE_PATH = '/api/v1/admin/backups/storage';
+const GB = 1024 ** 3;
+
+const storage: BackupStorage = {
+  totalBytes: 4 * GB,
+  backupCount: 12,
+  kinds: [
+    { kind: 'Database', bytes: GB, count: 8 },
+    { kind: 'Files', bytes: 0, count: 0 },
+    { kind: 'Redis', bytes: 0, count: 0 },
+    { kind: 'Full', bytes: 3 * GB, count: 4 },
+  ],
+  tiers: [
+    { tier: 'Free', bytes: GB, count: 4, instanceCount: 1 },
+    { tier: 'Basic', bytes: 0, count: 0, instanceCount: 0 },
+    { tier: 'Pro', bytes: 0, count: 0, instanceCount: 0 },
+    { tier: 'Enterprise', bytes: 3 * GB, count: 8, instanceCount: 2 },
+  ],
+  instances: [
+    { instanceId: '2', domain: 'big.xcord.net', tier: 'Enterprise', bytes: 2 * GB, count: 6, lastBackupAt: '2026-10-18T04:00:00Z' },
+    { instanceId: '3', domain: 'mid.xcord.net', tier: 'Enterprise', bytes: GB, count: 2, lastBackupAt: null },
+    { instanceId: '1', domain: 'small.xcord.net', tier: 'Free', bytes: GB, count: 4, lastBackupAt: '2026-10-17T04:00:00Z' },
+  ],
+  growth: [
+    { date: '2026-10-17', addedBytes: GB, removedBytes: 0, storedBytes: 3 * GB },
+    { date: '2026-10-18', addedBytes: 2 * GB, removedBytes: GB, storedBytes: 4 * GB },
+  ],
+};
+
+function renderPage() {
+  return renderWithRouter(() => <BackupStoragePage />, { path: '/backup-storage', routePath: '/backup-storage' });
+}
+
+describe('BackupStoragePage', () => {
+  beforeEach(() => {
+    useBackupStorage().reset();
+  });
+
+  it('shows totals per kind, tier and instance', async () => {
+    mockFetch({ [`GET ${STORAGE_PATH}`]: () => storage });
+    const { findByTestId, getByTestId } = renderPage();
+
+    expect(await findByTestId('storage-total')).toHaveTextContent('4.0 GB');
+    expect(getByTestId('storage-kind-Full')).toHaveTextContent('3.0 GB');
+    expect(getByTestId('storage-kind-Full')).toHaveTextContent('75%');
+    expect(getByTestId('storage-tier-Enterprise')).toHaveTextContent('1.5 GB');
+    expect(getByTestId('storage-instance-2')).toHaveTextContent('big.xcord.net');
+    expect(getByTestId('storage-instance-2')).toHaveTextContent('50%');
+    expect(getByTestId('storage-instance-2').querySelector('a')).toHaveAttribute('href', '/instances/2/backups');
+  });
+
+  it('charts the stored total per day and the change over the range', async () => {
+    mockFetch({ [`GET ${STORAGE_PATH}`]: () => storage });
+    const { findByTestId } = renderPage();
+
+    const chart = await findByTestId('storage-growth-chart');
+    expect(chart.children).toHaveLength(2);
+    expect((await findByTestId('storage-change'))).toHaveTextContent('+2.0 GB');
+  });
+
+  it('reloads when another range is picked', async () => {
+    const { calls } = mockFetch({ [`GET ${STORAGE_PATH}`]: () => storage });
+    const { findByText } = renderPage();
+
+    fireEvent.click(await findByText('Last 90 days'));
+
+    await waitFor(() => expect(calls.some((c) => c.url === `${STORAGE_PATH}?days=90`)).toBe(true));
+    expect(calls[0].url).toBe(`${STORAGE_PATH}?days=30`);
+  });
+
+  it('shows the server error', async () => {
+    mockFetch({ [`GET ${STORAGE_PATH}`]: () => ({ status: 500, body: { detail: 'Storage unavailable' } }) });
+    const { findByText } = renderPage();
+
+    expect(await findByText('Storage unavailable')).toBeInTheDocument();
+  });
+});
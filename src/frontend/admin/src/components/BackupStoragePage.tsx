@@ -0,0 +1,218 @@
+import { For, Show, createEffect, createSignal } from 'solid-js';
+import { A } from '@solidjs/router';
+import { useBackupStorage } from '../stores/backup-storage.store';
+import type { BackupStorageDay } from '../types/backup-storage';
+import { formatBytes } from '../utils/bytes';
+
+const RANGES = [7, 30, 90];
+
+function dayLabel(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function share(bytes: number, total: number): string {
+  return total > 0 ? `${Math.round((bytes / total) * 100)}%` : '—';
+}
+
+export function BackupStoragePage() {
+  const storageStore = useBackupStorage();
+  const [days, setDays] = createSignal(30);
+
+  createEffect(() => storageStore.fetch(days()));
+
+  const growth = () => storageStore.storage?.growth ?? [];
+  const maxStored = () => Math.max(0, ...growth().map((d) => d.storedBytes));
+  const barHeight = (bytes: number) => (maxStored() > 0 ? (bytes / maxStored()) * 100 : 0);
+  const netChange = () => {
+    const series = growth();
+    if (series.length === 0) return 0;
+    return series[series.length - 1].storedBytes - (series[0].storedBytes - series[0].addedBytes + series[0].removedBytes);
+  };
+
+  const dayTitle = (day: BackupStorageDay) =>
+    `${dayLabel(day.date)}: ${formatBytes(day.storedBytes)} stored, +${formatBytes(day.addedBytes)} / -${formatBytes(day.removedBytes)}`;
+
+  return (
+    <div class="space-y-6">
+      <div class="bg-white rounded-lg shadow">
+        <div class="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <p class="text-sm text-gray-500">Backups</p>
+            <h2 class="text-xl font-semibold">Backup Storage</h2>
+          </div>
+          <div class="flex gap-1">
+            <For each={RANGES}>
+              {(range) => (
+                <button
+                  onClick={() => setDays(range)}
+                  class={`px-3 py-1 rounded text-sm ${
+                    days() === range ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 hover:bg-gray-200'
+                  }`}
+                >
+                  Last {range} days
+                </button>
+              )}
+            </For>
+          </div>
+        </div>
+
+        <Show when={storageStore.error}>
+          <div class="mx-6 mt-4 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">
+            {storageStore.error}
+          </div>
+        </Show>
+
+        <Show
+          when={storageStore.storage}
+          fallback={<Show when={storageStore.isLoading}><div class="p-6 text-center">Loading...</div></Show>}
+        >
+          {(storage) => (
+            <div class="p-6 space-y-6">
+              <dl class="grid grid-cols-3 gap-4">
+                <div class="border border-gray-200 rounded p-4">
+                  <dt class="text-sm text-gray-500">Stored</dt>
+                  <dd data-testid="storage-total" class="text-2xl font-semibold">{formatBytes(storage().totalBytes)}</dd>
+                </div>
+                <div class="border border-gray-200 rounded p-4">
+                  <dt class="text-sm text-gray-500">Completed backups</dt>
+                  <dd class="text-2xl font-semibold">{storage().backupCount}</dd>
+                </div>
+                <div class="border border-gray-200 rounded p-4">
+                  <dt class="text-sm text-gray-500">Change over {days()} days</dt>
+                  <dd data-testid="storage-change" class="text-2xl font-semibold">
+                    {netChange() < 0 ? '-' : '+'}{formatBytes(Math.abs(netChange()))}
+                  </dd>
+                </div>
+              </dl>
+
+              <div class="grid grid-cols-2 gap-6">
+                <div>
+                  <h3 class="text-sm font-medium text-gray-700 mb-2">By kind</h3>
+                  <table class="w-full text-sm">
+                    <thead class="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Kind</th>
+                        <th class="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Backups</th>
+                        <th class="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Size</th>
+                        <th class="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Share</th>
+                      </tr>
+                    </thead>
+                    <tbody class="divide-y divide-gray-200">
+                      <For each={storage().kinds}>
+                        {(kind) => (
+                          <tr data-testid={`storage-kind-${kind.kind}`}>
+                            <td class="px-4 py-2">{kind.kind}</td>
+                            <td class="px-4 py-2 text-right">{kind.count}</td>
+                            <td class="px-4 py-2 text-right">{formatBytes(kind.bytes)}</td>
+                            <td class="px-4 py-2 text-right">{share(kind.bytes, storage().totalBytes)}</td>
+                          </tr>
+                        )}
+                      </For>
+                    </tbody>
+                  </table>
+                </div>
+
+                <div>
+                  <h3 class="text-sm font-medium text-gray-700 mb-2">By tier</h3>
+                  <table class="w-full text-sm">
+                    <thead class="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Tier</th>
+                        <th class="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Instances</th>
+                        <th class="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Size</th>
+                        <th class="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Per instance</th>
+                      </tr>
+                    </thead>
+                    <tbody class="divide-y divide-gray-200">
+                      <For each={storage().tiers}>
+                        {(tier) => (
+                          <tr data-testid={`storage-tier-${tier.tier}`}>
+                            <td class="px-4 py-2">{tier.tier}</td>
+                            <td class="px-4 py-2 text-right">{tier.instanceCount}</td>
+                            <td class="px-4 py-2 text-right">{formatBytes(tier.bytes)}</td>
+                            <td class="px-4 py-2 text-right">
+                              {tier.instanceCount > 0 ? formatBytes(Math.round(tier.bytes / tier.instanceCount)) : '—'}
+                            </td>
+                          </tr>
+                        )}
+                      </For>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </Show>
+      </div>
+
+      <Show when={storageStore.storage}>
+        {(storage) => (
+          <>
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold mb-4">Growth</h3>
+              <div data-testid="storage-growth-chart" class="flex items-end gap-px h-48 border-b border-gray-200">
+                <For each={growth()}>
+                  {(day) => (
+                    <div class="flex-1 h-full flex flex-col justify-end" title={dayTitle(day)}>
+                      <div class="bg-blue-600 rounded-t" style={{ height: `${barHeight(day.storedBytes)}%` }} />
+                    </div>
+                  )}
+                </For>
+              </div>
+              <Show when={growth().length > 0}>
+                <div class="flex justify-between mt-1 text-xs text-gray-500">
+                  <span>{dayLabel(growth()[0].date)}</span>
+                  <span>{dayLabel(growth()[growth().length - 1].date)}</span>
+                </div>
+              </Show>
+            </div>
+
+            <div class="bg-white rounded-lg shadow">
+              <div class="p-6 border-b border-gray-200">
+                <h3 class="text-lg font-semibold">Instances</h3>
+              </div>
+              <Show
+                when={storage().instances.length > 0}
+                fallback={<div class="p-6 text-center text-gray-500">No completed backups are stored</div>}
+              >
+                <table class="w-full">
+                  <thead class="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Instance</th>
+                      <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tier</th>
+                      <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Backups</th>
+                      <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Size</th>
+                      <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Share</th>
+                      <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last backup</th>
+                    </tr>
+                  </thead>
+                  <tbody class="divide-y divide-gray-200">
+                    <For each={storage().instances}>
+                      {(instance) => (
+                        <tr data-testid={`storage-instance-${instance.instanceId}`} class="text-sm">
+                          <td class="px-6 py-3">
+                            <A href={`/instances/${instance.instanceId}/backups`} class="text-blue-600 hover:underline">
+                              {instance.domain}
+                            </A>
+                          </td>
+                          <td class="px-6 py-3">{instance.tier}</td>
+                          <td class="px-6 py-3 text-right">{instance.count}</td>
+                          <td class="px-6 py-3 text-right">{formatBytes(instance.bytes)}</td>
+                          <td class="px-6 py-3 text-right">{share(instance.bytes, storage().totalBytes)}</td>
+                          <td class="px-6 py-3">
+                            {instance.lastBackupAt ? new Date(instance.lastBackupAt).toLocaleString() : '—'}
+                          </td>
+                        </tr>
+                      )}
+                    </For>
+                  </tbody>
+                </table>
+              </Show>
+            </div>
+          </>
+        )}
+      </Show>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, render, waitFor } from '@solidjs/testing-library';
+import { BackupTemplatesPage } from './BackupTemplatesPage';
+import { useBackupTemplates } from '../stores/backup-templates.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { BackupTemplate, BackupTemplateDiff } from '../types/backup-template';
+
+const TEMPLATES_PATH = '/api/v1/admin/backup-templates';
+
+const enterprise: BackupTemplate = {
+  id: '10',
+  name: 'Enterprise: hourly DB + daily full, 90 days',
+  frequency: 'Daily',
+  databaseFrequency: 'Hourly',
+  retentionDays: 90,
+  backupDatabase: true,
+  backupFiles: true,
+  backupRedis: true,
+  verifySampleSize: 2,
+  tiers: ['Enterprise'],
+  instanceCount: 3,
+  overriddenCount: 1,
+  updatedAt: '2026-10-01T10:00:00Z',
+};
+
+const free: BackupTemplate = {
+  ...enterprise,
+  id: '11',
+  name: 'Free: weekly, 7 days',
+  frequency: 'Weekly',
+  databaseFrequency: null,
+  retentionDays: 7,
+  tiers: ['Free'],
+  instanceCount: 20,
+  overriddenCount: 0,
+};
+
+const diff: BackupTemplateDiff = {
+  templateId: '10',
+  instances: [
+    {
+      instanceId: '1',
+      domain: 'acme.xcord.net',
+      tier: 'Enterprise',
+      isOverridden: false,
+      changes: [{ field: 'retentionDays', current: '30', template: '90' }],
+    },
+    {
+      instanceId: '2',
+      domain: 'custom.xcord.net',
+      tier: 'Enterprise',
+      isOverridden: true,
+      changes: [{ field: 'frequency', current: 'Hourly', template: 'Daily' }],
+    },
+  ],
+  unchangedCount: 1,
+};
+
+describe('BackupTemplatesPage', () => {
+  beforeEach(() => {
+    useBackupTemplates().reset();
+  });
+
+  it('lists templates with their schedule, tiers and overridden instances', async () => {
+    mockFetch({ [`GET ${TEMPLATES_PATH}`]: () => ({ templates: [enterprise, free] }) });
+    const { findByTestId } = render(() => <BackupTemplatesPage />);
+
+    const row = await findByTestId('template-10');
+    expect(row).toHaveTextContent('Hourly database + Daily full');
+    expect(row).toHaveTextContent('90 days');
+    expect(row).toHaveTextContent('Enterprise');
+    expect(row).toHaveTextContent('1 overridden');
+    expect(await findByTestId('template-11')).toHaveTextContent('Weekly full');
+  });
+
+  it('creates a template for the selected tiers', async () => {
+    let created: unknown;
+    mockFetch({
+      [`GET ${TEMPLATES_PATH}`]: () => ({ templates: [] }),
+      [`POST ${TEMPLATES_PATH}`]: ({ body }) => {
+        created = body;
+        return { status: 201, body: free };
+      },
+    });
+    const { findByText, getByText, getByLabelText, getByTestId } = render(() => <BackupTemplatesPage />);
+
+    fireEvent.click(await findByText('New Template'));
+    fireEvent.input(getByLabelText('Name'), { target: { value: 'Free: weekly, 7 days' } });
+    fireEvent.change(getByLabelText('Full backup frequency'), { target: { value: 'Weekly' } });
+    fireEvent.input(getByLabelText('Retention (days)'), { target: { value: '7' } });
+    fireEvent.click(getByTestId('template-tier-Free'));
+    fireEvent.click(getByText('Save Template'));
+
+    expect(await findByText('Template created.')).toBeInTheDocument();
+    expect(created).toMatchObject({
+      name: 'Free: weekly, 7 days',
+      frequency: 'Weekly',
+      databaseFrequency: null,
+      retentionDays: 7,
+      tiers: ['Free'],
+    });
+  });
+
+  it('shows which template currently owns a tier while editing', async () => {
+    mockFetch({ [`GET ${TEMPLATES_PATH}`]: () => ({ templates: [enterprise, free] }) });
+    const { findByTestId, getByTestId } = render(() => <BackupTemplatesPage />);
+
+    fireEvent.click((await findByTestId('template-10')).querySelector('button')!);
+    expect(getByTestId('template-tier-Enterprise')).toBeChecked();
+    expect(getByTestId('template-form')).toHaveTextContent('(now Free: weekly, 7 days)');
+  });
+
+  it('previews the instances that differ and marks overridden ones as skipped', async () => {
+    mockFetch({
+      [`GET ${TEMPLATES_PATH}`]: () => ({ templates: [enterprise] }),
+      [`GET ${TEMPLATES_PATH}/10/diff`]: () => diff,
+    });
+    const { findByTestId, getByTestId } = render(() => <BackupTemplatesPage />);
+
+    fireEvent.click(await findByTestId('template-review-10'));
+
+    expect(await findByTestId('template-diff-1')).toHaveTextContent('Retention (days): 30 → 90');
+    expect(getByTestId('template-diff-1')).not.toHaveTextContent('Overridden');
+    expect(getByTestId('template-diff-2')).toHaveTextContent('Overridden — skipped');
+    expect(getByTestId('template-diff')).toHaveTextContent('1 instance already match.');
+    expect(getByTestId('template-apply')).toHaveTextContent('Apply to 1 instance');
+  });
+
+  it('applies the template and reports skipped overrides', async () => {
+    const { calls } = mockFetch({
+      [`GET ${TEMPLATES_PATH}`]: () => ({ templates: [enterprise] }),
+      [`GET ${TEMPLATES_PATH}/10/diff`]: () => diff,
+      [`POST ${TEMPLATES_PATH}/10/apply`]: () => ({ applied: 2, skippedOverridden: 1 }),
+    });
+    const { findByTestId, findByText, queryByTestId } = render(() => <BackupTemplatesPage />);
+
+    fireEvent.click(await findByTestId('template-review-10'));
+    fireEvent.click(await findByTestId('template-apply'));
+
+    expect(await findByText(/to 2 instances; skipped 1 with overrides\./)).toBeInTheDocument();
+    expect(calls.some((c) => c.method === 'POST' && c.url.endsWith('/10/apply'))).toBe(true);
+    await waitFor(() => expect(queryByTestId('template-diff')).not.toBeInTheDocument());
+  });
+
+  it('shows the server error when a template cannot be saved', async () => {
+    mockFetch({
+      [`GET ${TEMPLATES_PATH}`]: () => ({ templates: [enterprise] }),
+      [`POST ${TEMPLATES_PATH}`]: () => ({
+        status: 409,
+        body: { detail: "A backup template named 'Enterprise: hourly DB + daily full, 90 days' already exists" },
+      }),
+    });
+    const { findByText, getByText, getByLabelText } = render(() => <BackupTemplatesPage />);
+
+    fireEvent.click(await findByText('New Template'));
+    fireEvent.input(getByLabelText('Name'), { target: { value: enterprise.name } });
+    fireEvent.click(getByText('Save Template'));
+
+    expect(await findByText(/already exists/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,535 @@
+import { For, Show, createSignal, onMount } from 'solid-js';
+import { useBackupTemplates } from '../stores/backup-templates.store';
+import type { BackupTemplate, BackupTemplateDiff, BackupTemplateRequest } from '../types/backup-template';
+import { ReasonField } from './ReasonField';
+
+const TIERS = ['Free', 'Basic', 'Pro', 'Enterprise'];
+const FREQUENCIES = ['Hourly', 'Daily', 'Weekly'];
+
+const FIELD_LABELS: Record<string, string> = {
+  frequency: 'Frequency',
+  databaseFrequency: 'Database frequency',
+  retentionDays: 'Retention (days)',
+  backupDatabase: 'Database',
+  backupFiles: 'Files',
+  backupRedis: 'Redis',
+  verifySampleSize: 'Verified per day',
+};
+
+function emptyForm(): BackupTemplateRequest {
+  return {
+    name: '',
+    frequency: 'Daily',
+    databaseFrequency: null,
+    retentionDays: 30,
+    backupDatabase: true,
+    backupFiles: true,
+    backupRedis: true,
+    verifySampleSize: 1,
+    tiers: [],
+  };
+}
+
+function toForm(template: BackupTemplate): BackupTemplateRequest {
+  return {
+    name: template.name,
+    frequency: template.frequency,
+    databaseFrequency: template.databaseFrequency,
+    retentionDays: template.retentionDays,
+    backupDatabase: template.backupDatabase,
+    backupFiles: template.backupFiles,
+    backupRedis: template.backupRedis,
+    verifySampleSize: template.verifySampleSize,
+    tiers: [...template.tiers],
+  };
+}
+
+function describeSchedule(template: BackupTemplate): string {
+  const full = `${template.frequency} full`;
+  return template.databaseFrequency ? `${template.databaseFrequency} database + ${full}` : full;
+}
+
+export function BackupTemplatesPage() {
+  const templates = useBackupTemplates();
+  // null: no form open; '' : creating; otherwise the id of the template being edited
+  const [editingId, setEditingId] = createSignal<string | null>(null);
+  const [form, setForm] = createSignal<BackupTemplateRequest>(emptyForm());
+  const [isSaving, setIsSaving] = createSignal(false);
+  const [formError, setFormError] = createSignal<string | null>(null);
+  const [notice, setNotice] = createSignal<string | null>(null);
+
+  const [diffTemplate, setDiffTemplate] = createSignal<BackupTemplate | null>(null);
+  const [diff, setDiff] = createSignal<BackupTemplateDiff | null>(null);
+  const [diffError, setDiffError] = createSignal<string | null>(null);
+  const [isApplying, setIsApplying] = createSignal(false);
+
+  const [confirmDelete, setConfirmDelete] = createSignal<BackupTemplate | null>(null);
+  const [isDeleting, setIsDeleting] = createSignal(false);
+  const [reason, setReason] = createSignal('');
+
+  onMount(() => templates.fetch());
+
+  const update = <K extends keyof BackupTemplateRequest>(key: K, value: BackupTemplateRequest[K]) =>
+    setForm({ ...form(), [key]: value });
+
+  const toggleTier = (tier: string, checked: boolean) => {
+    const tiers = form().tiers.filter((t) => t !== tier);
+    update('tiers', checked ? [...tiers, tier] : tiers);
+  };
+
+  // A tier belongs to one template at a time; saving here moves it off the other one.
+  const tierOwner = (tier: string) =>
+    templates.templates.find((t) => t.id !== editingId() && t.tiers.includes(tier))?.name;
+
+  const openForm = (template?: BackupTemplate) => {
+    closeDiff();
+    setNotice(null);
+    setFormError(null);
+    setEditingId(template?.id ?? '');
+    setForm(template ? toForm(template) : emptyForm());
+  };
+
+  const handleSave = async () => {
+    const id = editingId();
+    if (id === null) return;
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      if (id) await templates.update(id, form());
+      else await templates.create(form());
+      setNotice(id ? 'Template saved. Review the differences and apply it to update existing instances.' : 'Template created.');
+      setEditingId(null);
+    } catch (err) {
+      console.error('Failed to save backup template:', err);
+      setFormError((err as { detail?: string })?.detail ?? 'Failed to save the template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openDiff = async (template: BackupTemplate) => {
+    setEditingId(null);
+    setNotice(null);
+    setDiffError(null);
+    setDiff(null);
+    setReason('');
+    setDiffTemplate(template);
+    try {
+      setDiff(await templates.fetchDiff(template.id));
+    } catch (err) {
+      setDiffError((err as { detail?: string })?.detail ?? 'Failed to compare instances with the template');
+    }
+  };
+
+  const closeDiff = () => {
+    setDiffTemplate(null);
+    setDiff(null);
+    setDiffError(null);
+    setReason('');
+  };
+
+  const pendingCount = () => diff()?.instances.filter((i) => !i.isOverridden).length ?? 0;
+
+  const handleApply = async () => {
+    const template = diffTemplate();
+    if (!template) return;
+    setIsApplying(true);
+    setDiffError(null);
+    try {
+      const result = await templates.apply(template.id, reason());
+      closeDiff();
+      setNotice(
+        `Applied ${template.name} to ${result.applied} instance${result.applied === 1 ? '' : 's'}` +
+          (result.skippedOverridden > 0 ? `; skipped ${result.skippedOverridden} with overrides.` : '.'),
+      );
+    } catch (err) {
+      console.error('Failed to apply backup template:', err);
+      setDiffError((err as { detail?: string })?.detail ?? 'Failed to apply the template');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleConfirmedDelete = async () => {
+    const template = confirmDelete();
+    if (!template) return;
+    setIsDeleting(true);
+    try {
+      await templates.remove(template.id, reason());
+      if (diffTemplate()?.id === template.id) closeDiff();
+      setConfirmDelete(null);
+      setReason('');
+    } catch (err) {
+      console.error('Failed to delete backup template:', err);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div class="space-y-6">
+      <div class="bg-white rounded-lg shadow">
+        <div class="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <p class="text-sm text-gray-500">Backups</p>
+            <h2 class="text-xl font-semibold">Backup Templates</h2>
+          </div>
+          <Show when={editingId() === null}>
+            <button
+              onClick={() => openForm()}
+              class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              New Template
+            </button>
+          </Show>
+        </div>
+
+        <Show when={notice()}>
+          <div class="mx-6 mt-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded text-sm">
+            {notice()}
+          </div>
+        </Show>
+
+        <Show when={templates.error}>
+          <div class="mx-6 mt-4 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">
+            {templates.error}
+          </div>
+        </Show>
+
+        <Show when={editingId() !== null}>
+          <div data-testid="template-form" class="m-6 border border-gray-200 rounded p-4 space-y-4">
+            <div>
+              <label for="template-name" class="block text-sm font-medium mb-1">Name</label>
+              <input
+                id="template-name"
+                type="text"
+                value={form().name}
+                onInput={(e) => update('name', e.currentTarget.value)}
+                placeholder="Enterprise: hourly DB + daily full, 90 days"
+                class="w-full px-3 py-2 border rounded"
+              />
+            </div>
+
+            <div class="grid grid-cols-2 gap-4">
+              <div>
+                <label for="template-frequency" class="block text-sm font-medium mb-1">Full backup frequency</label>
+                <select
+                  id="template-frequency"
+                  value={form().frequency}
+                  onChange={(e) => update('frequency', e.currentTarget.value)}
+                  class="w-full px-3 py-2 border rounded"
+                >
+                  <For each={FREQUENCIES}>{(frequency) => <option value={frequency}>{frequency}</option>}</For>
+                </select>
+              </div>
+              <div>
+                <label for="template-database-frequency" class="block text-sm font-medium mb-1">
+                  Separate database backups
+                </label>
+                <select
+                  id="template-database-frequency"
+                  value={form().databaseFrequency ?? ''}
+                  onChange={(e) => update('databaseFrequency', e.currentTarget.value || null)}
+                  class="w-full px-3 py-2 border rounded"
+                >
+                  <option value="">None — only with full backups</option>
+                  <For each={FREQUENCIES}>{(frequency) => <option value={frequency}>{frequency}</option>}</For>
+                </select>
+              </div>
+              <div>
+                <label for="template-retention" class="block text-sm font-medium mb-1">Retention (days)</label>
+                <input
+                  id="template-retention"
+                  type="number"
+                  min="1"
+                  max="365"
+                  value={form().retentionDays}
+                  onInput={(e) => update('retentionDays', parseInt(e.currentTarget.value) || 1)}
+                  class="w-full px-3 py-2 border rounded"
+                />
+              </div>
+              <div>
+                <label for="template-verify" class="block text-sm font-medium mb-1">Backups verified per day</label>
+                <input
+                  id="template-verify"
+                  type="number"
+                  min="0"
+                  max="10"
+                  value={form().verifySampleSize}
+                  onInput={(e) => update('verifySampleSize', Math.min(10, Math.max(0, parseInt(e.currentTarget.value) || 0)))}
+                  class="w-full px-3 py-2 border rounded"
+                />
+              </div>
+            </div>
+
+            <div class="flex gap-6">
+              <p class="text-sm font-medium">What to back up</p>
+              <label class="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form().backupDatabase}
+                  onChange={(e) => update('backupDatabase', e.currentTarget.checked)}
+                  class="h-4 w-4 rounded border-gray-300"
+                />
+                Database
+              </label>
+              <label class="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form().backupFiles}
+                  onChange={(e) => update('backupFiles', e.currentTarget.checked)}
+                  class="h-4 w-4 rounded border-gray-300"
+                />
+                Files
+              </label>
+              <label class="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form().backupRedis}
+                  onChange={(e) => update('backupRedis', e.currentTarget.checked)}
+                  class="h-4 w-4 rounded border-gray-300"
+                />
+                Redis
+              </label>
+            </div>
+
+            <div>
+              <p class="text-sm font-medium mb-1">Assigned tiers</p>
+              <div class="flex gap-6">
+                <For each={TIERS}>
+                  {(tier) => (
+                    <label class="flex items-center gap-2 text-sm">
+                      <input
+                        data-testid={`template-tier-${tier}`}
+                        type="checkbox"
+                        checked={form().tiers.includes(tier)}
+                        onChange={(e) => toggleTier(tier, e.currentTarget.checked)}
+                        class="h-4 w-4 rounded border-gray-300"
+                      />
+                      {tier}
+                      <Show when={tierOwner(tier)}>
+                        <span class="text-xs text-gray-500">(now {tierOwner(tier)})</span>
+                      </Show>
+                    </label>
+                  )}
+                </For>
+              </div>
+              <p class="text-xs text-gray-500 mt-1">
+                New instances on these tiers start with this template. Existing instances change only when the
+                template is applied.
+              </p>
+            </div>
+
+            <Show when={formError()}>
+              <p class="text-sm text-red-600">{formError()}</p>
+            </Show>
+
+            <div class="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={isSaving() || !form().name.trim()}
+                class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving() ? 'Saving...' : 'Save Template'}
+              </button>
+              <button
+                onClick={() => setEditingId(null)}
+                disabled={isSaving()}
+                class="px-4 py-2 bg-gray-100 rounded hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </Show>
+
+        <Show when={!templates.isLoading} fallback={<div class="p-6 text-center">Loading...</div>}>
+          <Show
+            when={templates.templates.length > 0}
+            fallback={
+              <div class="p-6 text-center text-gray-500">
+                No backup templates yet. Instances are provisioned with a daily, 30-day policy.
+              </div>
+            }
+          >
+            <table class="w-full">
+              <thead class="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Schedule</th>
+                  <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Retention</th>
+                  <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tiers</th>
+                  <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Instances</th>
+                  <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody class="divide-y divide-gray-200">
+                <For each={templates.templates}>
+                  {(template) => (
+                    <tr data-testid={`template-${template.id}`} class="text-sm">
+                      <td class="px-6 py-4 font-medium">{template.name}</td>
+                      <td class="px-6 py-4">{describeSchedule(template)}</td>
+                      <td class="px-6 py-4">{template.retentionDays} days</td>
+                      <td class="px-6 py-4">{template.tiers.length > 0 ? template.tiers.join(', ') : '—'}</td>
+                      <td class="px-6 py-4">
+                        {template.instanceCount}
+                        <Show when={template.overriddenCount > 0}>
+                          <span class="ml-2 px-2 py-0.5 text-xs rounded bg-yellow-100 text-yellow-800">
+                            {template.overriddenCount} overridden
+                          </span>
+                        </Show>
+                      </td>
+                      <td class="px-6 py-4 text-right space-x-3 whitespace-nowrap">
+                        <button onClick={() => openForm(template)} class="text-blue-600 hover:underline">
+                          Edit
+                        </button>
+                        <button
+                          data-testid={`template-review-${template.id}`}
+                          onClick={() => openDiff(template)}
+                          class="text-blue-600 hover:underline"
+                        >
+                          Review &amp; Apply
+                        </button>
+                        <button
+                          onClick={() => { setReason(''); setConfirmDelete(template); }}
+                          class="text-red-600 hover:underline"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          </Show>
+        </Show>
+      </div>
+
+      <Show when={diffTemplate()}>
+        {(template) => (
+          <div data-testid="template-diff" class="bg-white rounded-lg shadow">
+            <div class="p-6 border-b border-gray-200">
+              <h3 class="text-lg font-semibold">Apply {template().name}</h3>
+              <p class="text-sm text-gray-500">
+                Instances on {template().tiers.length > 0 ? template().tiers.join(', ') : 'no tiers'} whose policy
+                differs from the template.
+              </p>
+            </div>
+
+            <Show when={diffError()}>
+              <div class="mx-6 mt-4 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">
+                {diffError()}
+              </div>
+            </Show>
+
+            <Show when={diff()} fallback={<Show when={!diffError()}><div class="p-6 text-center">Loading...</div></Show>}>
+              {(result) => (
+                <div class="p-6 space-y-4">
+                  <Show
+                    when={result().instances.length > 0}
+                    fallback={<p class="text-sm text-gray-500">Every instance already matches this template.</p>}
+                  >
+                    <table class="w-full text-sm">
+                      <thead class="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Instance</th>
+                          <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Tier</th>
+                          <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Changes</th>
+                        </tr>
+                      </thead>
+                      <tbody class="divide-y divide-gray-200">
+                        <For each={result().instances}>
+                          {(instance) => (
+                            <tr
+                              data-testid={`template-diff-${instance.instanceId}`}
+                              class={instance.isOverridden ? 'text-gray-400' : ''}
+                            >
+                              <td class="px-4 py-2">
+                                {instance.domain}
+                                <Show when={instance.isOverridden}>
+                                  <span class="ml-2 px-2 py-0.5 text-xs rounded bg-yellow-100 text-yellow-800">
+                                    Overridden — skipped
+                                  </span>
+                                </Show>
+                              </td>
+                              <td class="px-4 py-2">{instance.tier}</td>
+                              <td class="px-4 py-2">
+                                <For each={instance.changes}>
+                                  {(change) => (
+                                    <div>
+                                      {FIELD_LABELS[change.field] ?? change.field}: {change.current} &rarr; {change.template}
+                                    </div>
+                                  )}
+                                </For>
+                              </td>
+                            </tr>
+                          )}
+                        </For>
+                      </tbody>
+                    </table>
+                  </Show>
+                  <p class="text-sm text-gray-500">
+                    {result().unchangedCount} instance{result().unchangedCount === 1 ? '' : 's'} already match.
+                  </p>
+
+                  <ReasonField value={reason()} onInput={setReason} disabled={isApplying()} />
+                  <div class="flex gap-2">
+                    <button
+                      data-testid="template-apply"
+                      onClick={handleApply}
+                      disabled={isApplying()}
+                      class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {isApplying()
+                        ? 'Applying...'
+                        : `Apply to ${pendingCount()} instance${pendingCount() === 1 ? '' : 's'}`}
+                    </button>
+                    <button
+                      onClick={closeDiff}
+                      disabled={isApplying()}
+                      class="px-4 py-2 bg-gray-100 rounded hover:bg-gray-200"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </Show>
+          </div>
+        )}
+      </Show>
+
+      <Show when={confirmDelete()}>
+        {(template) => (
+          <div class="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div class="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+              <h4 class="text-lg font-semibold mb-2">Delete {template().name}?</h4>
+              <p class="text-gray-600 mb-4">
+                Instances following it keep their current settings but stop following a template, and new instances
+                on its tiers get the default policy.
+              </p>
+              <ReasonField value={reason()} onInput={setReason} disabled={isDeleting()} />
+              <div class="flex gap-3">
+                <button
+                  onClick={handleConfirmedDelete}
+                  disabled={isDeleting()}
+                  class="flex-1 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-400"
+                >
+                  {isDeleting() ? 'Deleting...' : 'Delete'}
+                </button>
+                <button
+                  onClick={() => setConfirmDelete(null)}
+                  disabled={isDeleting()}
+                  class="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </Show>
+    </div>
+  );
+}
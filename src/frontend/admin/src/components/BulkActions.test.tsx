@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fireEvent, render, waitFor } from '@solidjs/testing-library';
+import { BulkActions } from './BulkActions';
+import { useBulkActions } from '../stores/bulk.store';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { BulkTarget } from '../types/bulk';
+
+const targets: BulkTarget[] = [
+  { id: 'i-1', subdomain: 'alpha' },
+  { id: 'i-2', subdomain: 'beta' },
+  { id: 'i-3', subdomain: 'gamma' },
+  { id: 'i-4', subdomain: 'delta' },
+  { id: 'i-5', subdomain: 'epsilon' },
+];
+
+const config = {
+  tier: 'Pro',
+  mediaEnabled: true,
+  resourceLimits: [
+    { key: 'maxUsers', label: 'Max users', group: 'Users', unit: null, min: 1, max: 10000, tierDefault: 500, value: 500 },
+  ],
+  featureFlags: [
+    { key: 'canUseVoiceChannels', label: 'Voice channels', group: 'Voice', tierDefault: true, value: true },
+    { key: 'canUseBots', label: 'Bots', group: 'Integrations', tierDefault: true, value: true },
+  ],
+};
+
+function renderBulk(selected = targets, onComplete = vi.fn()) {
+  const onClearSelection = vi.fn();
+  const result = render(() => (
+    <BulkActions selected={selected} onClearSelection={onClearSelection} onComplete={onComplete} />
+  ));
+  return { ...result, onClearSelection, onComplete };
+}
+
+const confirmRun = (getByText: (text: string) => HTMLElement) => {
+  fireEvent.click(getByText('Run'));
+  fireEvent.click(getByText('Confirm'));
+};
+
+describe('BulkActions', () => {
+  beforeEach(() => {
+    useBulkActions().reset();
+    useInstances().reset();
+  });
+
+  it('suspends every selected instance and reports each result', async () => {
+    const { calls } = mockFetch({
+      'POST /api/v1/admin/instances/:id/suspend': () => ({ status: 204 }),
+    });
+    const { getByText, findByTestId, onComplete } = renderBulk(targets.slice(0, 2));
+
+    fireEvent.click(getByText('Run'));
+    expect(getByText('Suspend on 2 instances?')).toBeInTheDocument();
+    fireEvent.click(getByText('Confirm'));
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled());
+    expect(calls.map((c) => c.url)).toEqual([
+      '/api/v1/admin/instances/i-1/suspend',
+      '/api/v1/admin/instances/i-2/suspend',
+    ]);
+    expect(await findByTestId('bulk-result-i-1')).toHaveTextContent('succeeded');
+    expect((await findByTestId('bulk-summary')).textContent).toBe('2 succeeded, 0 failed');
+  });
+
+  it('never has more than two requests in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    mockFetch({
+      'POST /api/v1/admin/instances/:id/resume': async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return { status: 204 };
+      },
+    });
+    const { getByLabelText, getByText, onComplete } = renderBulk();
+
+    fireEvent.change(getByLabelText('Bulk action'), { target: { value: 'resume' } });
+    confirmRun(getByText);
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled());
+    expect(peak).toBe(2);
+    expect(useBulkActions().results.every((r) => r.status === 'succeeded')).toBe(true);
+  });
+
+  it('shows per-instance failures and retries only the failed instances', async () => {
+    let failBeta = true;
+    const { calls } = mockFetch({
+      'POST /api/v1/admin/instances/:id/backups/trigger': ({ url }) =>
+        url.includes('/i-2/') && failBeta
+          ? { status: 409, body: { title: 'BACKUP_IN_PROGRESS', detail: 'A backup is already running' } }
+          : { status: 201, body: { id: 'b-1', kind: 'Database', status: 'Pending' } },
+    });
+    const { getByLabelText, getByText, getByTestId, findByText, queryByText } = renderBulk(targets.slice(0, 3));
+
+    fireEvent.change(getByLabelText('Bulk action'), { target: { value: 'backup' } });
+    fireEvent.change(getByLabelText('Backup kind'), { target: { value: 'Database' } });
+    fireEvent.click(getByText('Run'));
+    expect(getByText('Trigger backup (Database) on 3 instances?')).toBeInTheDocument();
+    fireEvent.click(getByText('Confirm'));
+
+    expect(await findByText('Retry failed (1)')).toBeInTheDocument();
+    expect(getByTestId('bulk-result-i-2')).toHaveTextContent('A backup is already running');
+    expect(getByTestId('bulk-result-i-3')).toHaveTextContent('succeeded');
+    expect(calls.every((c) => (c.body as { kind: string }).kind === 'Database')).toBe(true);
+
+    failBeta = false;
+    fireEvent.click(getByText('Retry failed (1)'));
+    await waitFor(() => expect(getByText('3 succeeded, 0 failed')).toBeInTheDocument());
+    expect(calls).toHaveLength(4);
+    expect(calls[3].url).toBe('/api/v1/admin/instances/i-2/backups/trigger');
+    expect(queryByText(/Retry failed/)).not.toBeInTheDocument();
+  });
+
+  it('applies only the feature flags that were changed', async () => {
+    const { calls } = mockFetch({
+      'GET /api/v1/admin/instances/i-1/config': () => config,
+      'PATCH /api/v1/admin/instances/:id/feature-flags': () => ({ instanceId: 'x', message: 'ok' }),
+    });
+    const { getByLabelText, getByText, findByLabelText, onComplete } = renderBulk(targets.slice(0, 2));
+
+    fireEvent.change(getByLabelText('Bulk action'), { target: { value: 'feature-flags' } });
+    expect(getByText('Run')).toBeDisabled();
+    fireEvent.change(await findByLabelText('Bots'), { target: { value: 'off' } });
+    confirmRun(getByText);
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled());
+    const patches = calls.filter((c) => c.method === 'PATCH');
+    expect(patches.map((c) => c.body)).toEqual([{ flags: { canUseBots: false } }, { flags: { canUseBots: false } }]);
+  });
+
+  it('applies a resource limit patch', async () => {
+    const { calls } = mockFetch({
+      'GET /api/v1/admin/instances/i-1/config': () => config,
+      'PATCH /api/v1/admin/instances/:id/resource-limits': () => ({ instanceId: 'x', message: 'ok' }),
+    });
+    const { getByLabelText, getByText, findByLabelText, onComplete } = renderBulk(targets.slice(0, 1));
+
+    fireEvent.change(getByLabelText('Bulk action'), { target: { value: 'resource-limits' } });
+    fireEvent.input(await findByLabelText('Max users'), { target: { value: '750' } });
+    confirmRun(getByText);
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled());
+    expect(calls.find((c) => c.method === 'PATCH')!.body).toEqual({ limits: { maxUsers: 750 } });
+  });
+
+  it('upgrades the selected instances to the chosen version', async () => {
+    const { calls } = mockFetch({
+      'GET /api/v1/admin/versions': () => ({
+        versions: [
+          { id: 'v2', version: '1.5.0', image: 'xcord-fed:1.5.0', releaseNotes: null, isMinimumVersion: false, minimumEnforcementDate: null, publishedAt: '2026-09-01T00:00:00Z' },
+          { id: 'v1', version: '1.4.2', image: 'xcord-fed:1.4.2', releaseNotes: null, isMinimumVersion: false, minimumEnforcementDate: null, publishedAt: '2026-08-01T00:00:00Z' },
+        ],
+      }),
+      'POST /api/v1/admin/instances/:id/upgrade': () => ({ status: 202, body: {} }),
+    });
+    const { getByLabelText, getByText, findByText, onComplete } = renderBulk(targets.slice(0, 2));
+
+    fireEvent.change(getByLabelText('Bulk action'), { target: { value: 'upgrade' } });
+    await findByText('1.4.2');
+    fireEvent.change(getByLabelText('Target version'), { target: { value: 'xcord-fed:1.4.2' } });
+    fireEvent.click(getByText('Run'));
+    expect(getByText('Upgrade to 1.4.2 on 2 instances?')).toBeInTheDocument();
+    fireEvent.click(getByText('Confirm'));
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled());
+    const upgrades = calls.filter((c) => c.method === 'POST');
+    expect(upgrades.map((c) => c.url)).toEqual([
+      '/api/v1/admin/instances/i-1/upgrade',
+      '/api/v1/admin/instances/i-2/upgrade',
+    ]);
+    expect(upgrades[0].body).toEqual({ targetImage: 'xcord-fed:1.4.2' });
+  });
+
+  it('clears the selection and dismisses the results', async () => {
+    mockFetch({ 'POST /api/v1/admin/instances/:id/suspend': () => ({ status: 204 }) });
+    const { getByText, findByText, queryByTestId, onClearSelection } = renderBulk(targets.slice(0, 1));
+
+    fireEvent.click(getByText('Clear selection'));
+    expect(onClearSelection).toHaveBeenCalled();
+
+    confirmRun(getByText);
+    fireEvent.click(await findByText('Dismiss'));
+    expect(queryByTestId('bulk-results')).not.toBeInTheDocument();
+  });
+});
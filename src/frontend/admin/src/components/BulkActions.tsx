@@ -0,0 +1,310 @@
+import { For, Show, createEffect, createSignal, on } from 'solid-js';
+import { useBulkActions } from '../stores/bulk.store';
+import { useInstances } from '../stores/instance.store';
+import type { BulkAction, BulkActionType, BulkResultStatus, BulkTarget } from '../types/bulk';
+import type { FeatureFlagField, ResourceLimitField } from '../types/instance';
+
+const BACKUP_KINDS = ['Full', 'Database', 'Files', 'Redis'] as const;
+
+const ACTION_LABELS: Record<BulkActionType, string> = {
+  suspend: 'Suspend',
+  resume: 'Resume',
+  backup: 'Trigger backup',
+  'feature-flags': 'Update feature flags',
+  'resource-limits': 'Update resource limits',
+  upgrade: 'Upgrade',
+};
+
+function describe(action: BulkAction): string {
+  switch (action.type) {
+    case 'backup':
+      return `${ACTION_LABELS.backup} (${action.kind})`;
+    case 'upgrade':
+      return `Upgrade to ${action.version}`;
+    default:
+      return ACTION_LABELS[action.type];
+  }
+}
+
+function statusClass(status: BulkResultStatus): string {
+  switch (status) {
+    case 'succeeded':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'running':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
+
+interface BulkActionsProps {
+  selected: BulkTarget[];
+  onClearSelection: () => void;
+  onComplete: () => void;
+}
+
+export function BulkActions(props: BulkActionsProps) {
+  const bulk = useBulkActions();
+  const instanceStore = useInstances();
+  const [actionType, setActionType] = createSignal<BulkActionType>('suspend');
+  const [backupKind, setBackupKind] = createSignal<string>('Full');
+  const [targetImage, setTargetImage] = createSignal('');
+  const [flagFields, setFlagFields] = createSignal<FeatureFlagField[]>([]);
+  const [limitFields, setLimitFields] = createSignal<ResourceLimitField[]>([]);
+  const [flagPatch, setFlagPatch] = createSignal<Record<string, boolean>>({});
+  const [limitPatch, setLimitPatch] = createSignal<Record<string, number>>({});
+  const [isLoadingFields, setIsLoadingFields] = createSignal(false);
+  const [fieldsError, setFieldsError] = createSignal<string | null>(null);
+  const [isConfirming, setIsConfirming] = createSignal(false);
+
+  // Flag and limit fields are the same for every instance, so the first
+  // selected instance's config provides the form. Each instance still
+  // validates the patch against its own plan.
+  const loadFields = async () => {
+    const first = props.selected[0];
+    if (!first || flagFields().length > 0) return;
+    setIsLoadingFields(true);
+    setFieldsError(null);
+    try {
+      const config = await instanceStore.fetchInstanceConfig(first.id);
+      setFlagFields(config.featureFlags);
+      setLimitFields(config.resourceLimits);
+    } catch (err) {
+      console.error('Failed to load instance config:', err);
+      setFieldsError((err as { detail?: string })?.detail ?? 'Failed to load configuration fields');
+    } finally {
+      setIsLoadingFields(false);
+    }
+  };
+
+  const loadVersions = async () => {
+    try {
+      if (instanceStore.availableVersions.length === 0) await instanceStore.fetchVersions();
+      if (!targetImage() && instanceStore.availableVersions.length > 0) {
+        setTargetImage(instanceStore.availableVersions[0].image);
+      }
+    } catch (err) {
+      console.error('Failed to fetch versions:', err);
+    }
+  };
+
+  createEffect(on(actionType, (type) => {
+    setIsConfirming(false);
+    if (type === 'feature-flags' || type === 'resource-limits') loadFields();
+    if (type === 'upgrade') loadVersions();
+  }));
+
+  const setFlag = (key: string, value: string) => {
+    const { [key]: _, ...rest } = flagPatch();
+    setFlagPatch(value === '' ? rest : { ...rest, [key]: value === 'on' });
+  };
+
+  const setLimit = (key: string, value: string) => {
+    const { [key]: _, ...rest } = limitPatch();
+    setLimitPatch(value === '' ? rest : { ...rest, [key]: Number(value) });
+  };
+
+  // Null while the chosen action is missing a required choice
+  const buildAction = (): BulkAction | null => {
+    switch (actionType()) {
+      case 'suspend':
+        return { type: 'suspend' };
+      case 'resume':
+        return { type: 'resume' };
+      case 'backup':
+        return { type: 'backup', kind: backupKind() };
+      case 'feature-flags':
+        return Object.keys(flagPatch()).length > 0 ? { type: 'feature-flags', flags: flagPatch() } : null;
+      case 'resource-limits':
+        return Object.keys(limitPatch()).length > 0 ? { type: 'resource-limits', limits: limitPatch() } : null;
+      case 'upgrade': {
+        const version = instanceStore.availableVersions.find((v) => v.image === targetImage());
+        return version ? { type: 'upgrade', targetImage: version.image, version: version.version } : null;
+      }
+    }
+  };
+
+  const handleRun = async () => {
+    const action = buildAction();
+    if (!action) return;
+    setIsConfirming(false);
+    await bulk.run(action, props.selected);
+    props.onComplete();
+  };
+
+  const handleRetry = async () => {
+    await bulk.retryFailed();
+    props.onComplete();
+  };
+
+  const count = (status: BulkResultStatus) => bulk.results.filter((r) => r.status === status).length;
+
+  return (
+    <div class="space-y-4">
+      <Show when={props.selected.length > 0}>
+        <div data-testid="bulk-actions" class="p-4 bg-blue-50 border border-blue-200 rounded space-y-3 text-sm">
+          <div class="flex flex-wrap items-center gap-3">
+            <span class="font-medium">{props.selected.length} selected</span>
+            <select
+              aria-label="Bulk action"
+              value={actionType()}
+              onChange={(e) => setActionType(e.currentTarget.value as BulkActionType)}
+              class="px-2 py-1 border border-gray-300 rounded"
+            >
+              <For each={Object.entries(ACTION_LABELS)}>
+                {([type, label]) => <option value={type}>{label}</option>}
+              </For>
+            </select>
+
+            <Show when={actionType() === 'backup'}>
+              <select
+                aria-label="Backup kind"
+                value={backupKind()}
+                onChange={(e) => setBackupKind(e.currentTarget.value)}
+                class="px-2 py-1 border border-gray-300 rounded"
+              >
+                <For each={BACKUP_KINDS}>{(kind) => <option value={kind}>{kind}</option>}</For>
+              </select>
+            </Show>
+
+            <Show when={actionType() === 'upgrade'}>
+              <select
+                aria-label="Target version"
+                value={targetImage()}
+                onChange={(e) => setTargetImage(e.currentTarget.value)}
+                class="px-2 py-1 border border-gray-300 rounded"
+              >
+                <For each={instanceStore.availableVersions}>
+                  {(version) => <option value={version.image}>{version.version}</option>}
+                </For>
+              </select>
+            </Show>
+
+            <Show
+              when={isConfirming()}
+              fallback={
+                <button
+                  onClick={() => setIsConfirming(true)}
+                  disabled={!buildAction() || bulk.isRunning}
+                  class="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Run
+                </button>
+              }
+            >
+              <span>
+                {describe(buildAction()!)} on {props.selected.length} instance{props.selected.length === 1 ? '' : 's'}?
+              </span>
+              <button
+                onClick={handleRun}
+                class="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700"
+              >
+                Confirm
+              </button>
+              <button
+                onClick={() => setIsConfirming(false)}
+                class="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            </Show>
+
+            <button onClick={props.onClearSelection} class="ml-auto px-3 py-1 text-blue-600 hover:bg-blue-100 rounded">
+              Clear selection
+            </button>
+          </div>
+
+          <Show when={actionType() === 'feature-flags' || actionType() === 'resource-limits'}>
+            <Show when={!isLoadingFields()} fallback={<p class="text-gray-500">Loading fields...</p>}>
+              <Show when={fieldsError()}>
+                <p class="text-red-600">{fieldsError()}</p>
+              </Show>
+              <p class="text-gray-600">Only the fields you change are applied; the rest keep each instance's value.</p>
+              <div class="grid grid-cols-2 md:grid-cols-3 gap-2">
+                <Show when={actionType() === 'feature-flags'}>
+                  <For each={flagFields()}>
+                    {(field) => (
+                      <label class="flex items-center justify-between gap-2">
+                        <span>{field.label}</span>
+                        <select
+                          value={field.key in flagPatch() ? (flagPatch()[field.key] ? 'on' : 'off') : ''}
+                          onChange={(e) => setFlag(field.key, e.currentTarget.value)}
+                          class="px-2 py-1 border border-gray-300 rounded"
+                        >
+                          <option value="">Unchanged</option>
+                          <option value="on">On</option>
+                          <option value="off">Off</option>
+                        </select>
+                      </label>
+                    )}
+                  </For>
+                </Show>
+                <Show when={actionType() === 'resource-limits'}>
+                  <For each={limitFields()}>
+                    {(field) => (
+                      <label class="flex items-center justify-between gap-2">
+                        <span>{field.label}{field.unit ? ` (${field.unit})` : ''}</span>
+                        <input
+                          type="number"
+                          min={field.min}
+                          max={field.max}
+                          placeholder="Unchanged"
+                          value={limitPatch()[field.key] ?? ''}
+                          onInput={(e) => setLimit(field.key, e.currentTarget.value)}
+                          class="w-28 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </label>
+                    )}
+                  </For>
+                </Show>
+              </div>
+            </Show>
+          </Show>
+        </div>
+      </Show>
+
+      <Show when={bulk.results.length > 0 && bulk.action}>
+        {(action) => (
+          <div data-testid="bulk-results" class="p-4 border border-gray-200 rounded text-sm">
+            <div class="flex flex-wrap items-center gap-3 mb-3">
+              <h3 class="font-semibold">{describe(action())}</h3>
+              <span data-testid="bulk-summary" class="text-gray-600">
+                {count('succeeded')} succeeded, {count('failed')} failed
+                {bulk.isRunning ? `, ${count('queued') + count('running')} remaining` : ''}
+              </span>
+              <div class="ml-auto flex gap-2">
+                <Show when={!bulk.isRunning && count('failed') > 0}>
+                  <button onClick={handleRetry} class="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">
+                    Retry failed ({count('failed')})
+                  </button>
+                </Show>
+                <Show when={!bulk.isRunning}>
+                  <button onClick={() => bulk.reset()} class="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300">
+                    Dismiss
+                  </button>
+                </Show>
+              </div>
+            </div>
+            <table class="w-full">
+              <tbody class="divide-y divide-gray-100">
+                <For each={bulk.results}>
+                  {(result) => (
+                    <tr data-testid={`bulk-result-${result.id}`}>
+                      <td class="py-1 pr-4 font-medium">{result.subdomain}</td>
+                      <td class="py-1 pr-4">
+                        <span class={`px-2 py-0.5 text-xs rounded ${statusClass(result.status)}`}>{result.status}</span>
+                      </td>
+                      <td class="py-1 text-red-600">{result.error}</td>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Show>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CompliancePage, timeUntil } from './CompliancePage';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
+import type { NonCompliantInstance } from '../types/instance';
+
+const COMPLIANCE_PATH = '/api/v1/admin/versions/compliance';
+
+const HOUR = 60 * 60 * 1000;
+
+function instance(overrides: Partial<NonCompliantInstance>): NonCompliantInstance {
+  return {
+    instanceId: '1',
+    domain: 'alpha.xcord.net',
+    displayName: 'Alpha',
+    status: 'Running',
+    currentImage: 'docker.xcord.net/fed:1.1.0',
+    currentVersion: '1.1.0',
+    batchUpgradesEnabled: false,
+    forceUpgraded: true,
+    ...overrides,
+  };
+}
+
+function compliance(enforcementDate: string, instances: NonCompliantInstance[]) {
+  return {
+    minimum: { versionId: 'v-2', version: '1.2.0', image: 'docker.xcord.net/fed:1.2.0', enforcementDate },
+    instances,
+  };
+}
+
+describe('timeUntil', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('formats the remaining time coarsely', () => {
+    expect(timeUntil('2026-01-03T05:30:00Z', now)).toBe('2d 5h');
+    expect(timeUntil('2026-01-01T05:30:00Z', now)).toBe('5h 30m');
+    expect(timeUntil('2026-01-01T00:12:00Z', now)).toBe('12m');
+  });
+
+  it('returns null once the date has passed', () => {
+    expect(timeUntil('2025-12-31T23:00:00Z', now)).toBeNull();
+  });
+});
+
+describe('CompliancePage', () => {
+  beforeEach(() => {
+    useInstances().reset();
+  });
+
+  it('lists instances below the minimum with their enforcement', async () => {
+    const enforcementDate = new Date(Date.now() + 3 * 24 * HOUR + 2 * HOUR + 60_000).toISOString();
+    mockFetch({
+      [`GET ${COMPLIANCE_PATH}`]: () => compliance(enforcementDate, [
+        instance({}),
+        instance({ instanceId: '2', domain: 'bravo.xcord.net', batchUpgradesEnabled: true, forceUpgraded: false }),
+        instance({ instanceId: '3', domain: 'charlie.xcord.net', status: 'Suspended', forceUpgraded: false }),
+      ]),
+    });
+    const { findByTestId, getByTestId } = renderWithRouter(() => <CompliancePage />);
+
+    const summary = await findByTestId('compliance-summary');
+    expect(summary).toHaveTextContent('Minimum version 1.2.0');
+    expect(summary).toHaveTextContent('(in 3d 2h)');
+    expect(summary).toHaveTextContent('3 instances below the minimum, 1 to be force-upgraded.');
+
+    const alpha = getByTestId('compliance-row-1');
+    expect(alpha).toHaveTextContent('1.1.0');
+    expect(alpha).toHaveTextContent('Opted out');
+    expect(alpha).toHaveTextContent('Force upgrade in 3d 2h');
+    expect(alpha.querySelector('a')).toHaveAttribute('href', '/instances/1/version');
+    expect(getByTestId('compliance-row-2')).toHaveTextContent('Via fleet rollouts');
+    expect(getByTestId('compliance-row-3')).toHaveTextContent('Not enforced while Suspended');
+  });
+
+  it('shows when enforcement has already started', async () => {
+    mockFetch({
+      [`GET ${COMPLIANCE_PATH}`]: () => compliance(new Date(Date.now() - HOUR).toISOString(), [instance({})]),
+    });
+    const { findByTestId, getByTestId } = renderWithRouter(() => <CompliancePage />);
+    expect(await findByTestId('compliance-summary')).toHaveTextContent('(enforcement has started)');
+    expect(getByTestId('compliance-row-1')).toHaveTextContent('Force upgrade due');
+  });
+
+  it('reports when every instance is compliant', async () => {
+    mockFetch({
+      [`GET ${COMPLIANCE_PATH}`]: () => compliance(new Date(Date.now() + HOUR).toISOString(), []),
+    });
+    const { findByTestId } = renderWithRouter(() => <CompliancePage />);
+    expect(await findByTestId('compliance-all-compliant')).toBeInTheDocument();
+  });
+
+  it('explains that no minimum version is set', async () => {
+    mockFetch({
+      [`GET ${COMPLIANCE_PATH}`]: () => ({ minimum: null, instances: [] }),
+    });
+    const { findByTestId } = renderWithRouter(() => <CompliancePage />);
+    expect(await findByTestId('compliance-no-minimum')).toHaveTextContent('No minimum version is set');
+  });
+});
@@ -0,0 +1,139 @@
+import { For, Show, createSignal, onCleanup, onMount } from 'solid-js';
+import { A } from '@solidjs/router';
+import { useInstances } from '../stores/instance.store';
+import type { MinimumVersionCompliance, NonCompliantInstance } from '../types/instance';
+
+const COUNTDOWN_INTERVAL_MS = 60_000;
+
+// Coarse countdown; the enforcer itself only runs once an hour.
+export function timeUntil(date: string, now: number): string | null {
+  const minutes = Math.floor((new Date(date).getTime() - now) / 60_000);
+  if (minutes <= 0) return null;
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * Instances below the current minimum version and when the enforcer will
+ * force-upgrade them. Instances in batch upgrades are left to fleet rollouts.
+ */
+export function CompliancePage() {
+  const instanceStore = useInstances();
+  const [compliance, setCompliance] = createSignal<MinimumVersionCompliance | null>(null);
+  const [isLoading, setIsLoading] = createSignal(true);
+  const [error, setError] = createSignal<string | null>(null);
+  const [now, setNow] = createSignal(Date.now());
+
+  const timer = setInterval(() => setNow(Date.now()), COUNTDOWN_INTERVAL_MS);
+  onCleanup(() => clearInterval(timer));
+
+  onMount(async () => {
+    try {
+      setCompliance(await instanceStore.fetchMinimumVersionCompliance());
+    } catch (err) {
+      console.error('Failed to fetch minimum version compliance:', err);
+      setError((err as { detail?: string })?.detail ?? 'Failed to load compliance');
+    } finally {
+      setIsLoading(false);
+    }
+  });
+
+  const countdown = () => {
+    const date = compliance()?.minimum?.enforcementDate;
+    return date ? timeUntil(date, now()) : null;
+  };
+
+  const enforcement = (instance: NonCompliantInstance) => {
+    if (instance.batchUpgradesEnabled) return 'Via fleet rollouts';
+    if (!instance.forceUpgraded) return `Not enforced while ${instance.status}`;
+    const left = countdown();
+    return left ? `Force upgrade in ${left}` : 'Force upgrade due';
+  };
+
+  return (
+    <div class="bg-white rounded-lg shadow">
+      <div class="p-6 border-b border-gray-200">
+        <h2 class="text-xl font-semibold">Version Compliance</h2>
+      </div>
+
+      <Show when={!isLoading()} fallback={<div class="p-6 text-center">Loading...</div>}>
+        <Show when={!error()} fallback={<div class="p-6 text-center text-red-600">{error()}</div>}>
+          <Show
+            when={compliance()?.minimum}
+            fallback={
+              <div data-testid="compliance-no-minimum" class="p-6 text-center text-gray-500">
+                No minimum version is set. Set one on the <A href="/versions" class="text-blue-600 hover:underline">Versions</A> page.
+              </div>
+            }
+          >
+            {(minimum) => (
+              <>
+                <div data-testid="compliance-summary" class="p-6 border-b border-gray-200 text-sm space-y-1">
+                  <p>
+                    Minimum version <span class="font-medium">{minimum().version}</span>{' '}
+                    <span class="font-mono text-gray-500">({minimum().image})</span>
+                  </p>
+                  <Show when={minimum().enforcementDate}>
+                    <p class={countdown() ? 'text-gray-700' : 'text-red-600'}>
+                      Enforced from {new Date(minimum().enforcementDate!).toLocaleString()}
+                      {countdown() ? ` (in ${countdown()})` : ' (enforcement has started)'}
+                    </p>
+                  </Show>
+                  <p class="text-gray-700">
+                    {compliance()!.instances.length} instance{compliance()!.instances.length === 1 ? '' : 's'} below
+                    the minimum, {compliance()!.instances.filter((i) => i.forceUpgraded).length} to be force-upgraded.
+                  </p>
+                </div>
+
+                <Show
+                  when={compliance()!.instances.length > 0}
+                  fallback={
+                    <div data-testid="compliance-all-compliant" class="p-6 text-center text-green-700">
+                      Every instance meets the minimum version.
+                    </div>
+                  }
+                >
+                  <table class="w-full">
+                    <thead class="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Instance</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Current Version</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Batch Upgrades</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Enforcement</th>
+                      </tr>
+                    </thead>
+                    <tbody class="divide-y divide-gray-200">
+                      <For each={compliance()!.instances}>
+                        {(instance) => (
+                          <tr data-testid={`compliance-row-${instance.instanceId}`}>
+                            <td class="px-6 py-4 text-sm">
+                              <A href={`/instances/${instance.instanceId}/version`} class="text-blue-600 hover:underline">
+                                {instance.domain}
+                              </A>
+                            </td>
+                            <td class="px-6 py-4 text-sm">{instance.status}</td>
+                            <td class="px-6 py-4 text-sm font-mono">{instance.currentVersion ?? instance.currentImage}</td>
+                            <td class="px-6 py-4 text-sm">
+                              {instance.batchUpgradesEnabled ? 'Enabled' : <span class="text-yellow-700">Opted out</span>}
+                            </td>
+                            <td class={`px-6 py-4 text-sm ${instance.forceUpgraded ? 'text-red-600' : 'text-gray-500'}`}>
+                              {enforcement(instance)}
+                            </td>
+                          </tr>
+                        )}
+                      </For>
+                    </tbody>
+                  </table>
+                </Show>
+              </>
+            )}
+          </Show>
+        </Show>
+      </Show>
+    </div>
+  );
+}
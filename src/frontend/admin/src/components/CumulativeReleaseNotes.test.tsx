@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { collectReleaseNotes, findVersion } from './CumulativeReleaseNotes';
+import type { AvailableVersion } from '../types/instance';
+
+const version = (v: string, breakingChanges: string[] | null = null): AvailableVersion => ({
+  id: `v-${v}`,
+  version: v,
+  image: `docker.xcord.net/fed:${v}`,
+  releaseNotes: breakingChanges
+    ? JSON.stringify({
+        version: v,
+        features: [],
+        fixes: [],
+        other: [],
+        breakingChanges,
+        migrationNotes: v === '1.10.0' ? 'Run the reindex job.' : '',
+        knownIssues: '',
+      })
+    : null,
+  isMinimumVersion: false,
+  minimumEnforcementDate: null,
+  publishedAt: '2026-01-01T00:00:00Z',
+});
+
+const versions = [
+  version('1.10.0', ['Renamed the config file']),
+  version('1.9.0', ['Dropped Postgres 13']),
+  version('1.8.0'),
+  version('1.7.0', ['Never applied']),
+];
+
+describe('collectReleaseNotes', () => {
+  it('collects every version after the current one up to the target, oldest first', () => {
+    const notes = collectReleaseNotes(versions, findVersion(versions, '1.7.0')!, findVersion(versions, '1.10.0')!);
+    expect(notes?.versions).toEqual(['1.8.0', '1.9.0', '1.10.0']);
+    expect(notes?.withoutNotes).toEqual(['1.8.0']);
+    expect(notes?.breakingChanges).toEqual([
+      { version: '1.9.0', text: 'Dropped Postgres 13' },
+      { version: '1.10.0', text: 'Renamed the config file' },
+    ]);
+    expect(notes?.migrationNotes).toEqual([{ version: '1.10.0', text: 'Run the reindex job.' }]);
+  });
+
+  it('returns null when the target is not newer', () => {
+    expect(collectReleaseNotes(versions, versions[0], versions[1])).toBeNull();
+    expect(collectReleaseNotes(versions, versions[0], versions[0])).toBeNull();
+  });
+
+  it('finds versions by image as well as by version', () => {
+    expect(findVersion(versions, 'docker.xcord.net/fed:1.9.0')?.version).toBe('1.9.0');
+    expect(findVersion(versions, null)).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { Show, For } from 'solid-js';
+import type { AvailableVersion } from '../types/instance';
+import { parseReleaseNotes } from './ReleaseNotesView';
+
+interface VersionedChange {
+  version: string;
+  summary: string;
+  commit: string;
+}
+
+interface VersionedText {
+  version: string;
+  text: string;
+}
+
+export interface CumulativeNotes {
+  from: string;
+  to: string;
+  // Every version the upgrade passes through, oldest first, ending with the target
+  versions: string[];
+  withoutNotes: string[];
+  breakingChanges: VersionedText[];
+  migrationNotes: VersionedText[];
+  features: VersionedChange[];
+  fixes: VersionedChange[];
+  knownIssues: string;
+}
+
+// Numeric collation so 1.10.0 sorts after 1.9.0
+export function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+// Instances report either a version or an image; the published list knows both.
+export function findVersion(versions: AvailableVersion[], versionOrImage: string | null | undefined): AvailableVersion | null {
+  if (!versionOrImage) return null;
+  return versions.find((v) => v.version === versionOrImage || v.image === versionOrImage) ?? null;
+}
+
+/**
+ * Collects the release notes of every published version after `from` up to and
+ * including `to`. Returns null unless `to` is newer than `from`.
+ */
+export function collectReleaseNotes(
+  versions: AvailableVersion[],
+  from: AvailableVersion,
+  to: AvailableVersion,
+): CumulativeNotes | null {
+  if (compareVersions(to.version, from.version) <= 0) return null;
+
+  const applied = versions
+    .filter((v) => compareVersions(v.version, from.version) > 0 && compareVersions(v.version, to.version) <= 0)
+    .sort((a, b) => compareVersions(a.version, b.version));
+
+  const result: CumulativeNotes = {
+    from: from.version,
+    to: to.version,
+    versions: applied.map((v) => v.version),
+    withoutNotes: [],
+    breakingChanges: [],
+    migrationNotes: [],
+    features: [],
+    fixes: [],
+    knownIssues: parseReleaseNotes(to.releaseNotes)?.knownIssues ?? '',
+  };
+
+  for (const version of applied) {
+    const notes = parseReleaseNotes(version.releaseNotes);
+    if (!notes) {
+      result.withoutNotes.push(version.version);
+      continue;
+    }
+    result.breakingChanges.push(...notes.breakingChanges.map((text) => ({ version: version.version, text })));
+    if (notes.migrationNotes) result.migrationNotes.push({ version: version.version, text: notes.migrationNotes });
+    result.features.push(...notes.features.map((item) => ({ version: version.version, ...item })));
+    result.fixes.push(...notes.fixes.map((item) => ({ version: version.version, ...item })));
+  }
+
+  return result;
+}
+
+function VersionTag(props: { version: string }) {
+  return <span class="text-xs font-mono text-gray-400 flex-shrink-0">{props.version}</span>;
+}
+
+interface CumulativeReleaseNotesProps {
+  notes: CumulativeNotes;
+}
+
+/**
+ * Everything that changes when jumping several versions at once, with breaking
+ * changes and migration notes of every intermediate version up front.
+ */
+export function CumulativeReleaseNotes(props: CumulativeReleaseNotesProps) {
+  return (
+    <div data-testid="cumulative-release-notes" class="space-y-4">
+      <p class="text-sm text-gray-600">
+        Changes from {props.notes.from} to {props.notes.to} across {props.notes.versions.length} version
+        {props.notes.versions.length === 1 ? '' : 's'} ({props.notes.versions.join(', ')}).
+      </p>
+
+      <Show when={props.notes.breakingChanges.length > 0}>
+        <div data-testid="cumulative-breaking-changes" class="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h4 class="text-sm font-semibold text-red-800 mb-2">
+            Breaking Changes ({props.notes.breakingChanges.length})
+          </h4>
+          <ul class="space-y-1">
+            <For each={props.notes.breakingChanges}>
+              {(change) => (
+                <li class="flex items-start gap-2 text-sm text-red-700">
+                  <span class="text-xs font-mono text-red-500 flex-shrink-0">{change.version}</span>
+                  <span>{change.text}</span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.notes.migrationNotes.length > 0}>
+        <div data-testid="cumulative-migration-notes" class="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-2">
+          <h4 class="text-sm font-semibold text-yellow-800">Migration Notes</h4>
+          <For each={props.notes.migrationNotes}>
+            {(note) => (
+              <div>
+                <p class="text-xs font-mono text-yellow-600">{note.version}</p>
+                <p class="text-sm text-yellow-700 whitespace-pre-wrap">{note.text}</p>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <Show when={props.notes.features.length > 0}>
+        <div>
+          <h4 class="text-sm font-semibold text-gray-700 mb-2">New Features</h4>
+          <ul class="space-y-1">
+            <For each={props.notes.features}>
+              {(item) => (
+                <li class="flex items-start gap-2 text-sm text-gray-700">
+                  <span class="text-green-500 mt-0.5">+</span>
+                  <span>{item.summary}</span>
+                  <span class="ml-auto"><VersionTag version={item.version} /></span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.notes.fixes.length > 0}>
+        <div>
+          <h4 class="text-sm font-semibold text-gray-700 mb-2">Bug Fixes</h4>
+          <ul class="space-y-1">
+            <For each={props.notes.fixes}>
+              {(item) => (
+                <li class="flex items-start gap-2 text-sm text-gray-700">
+                  <span class="text-blue-500 mt-0.5">*</span>
+                  <span>{item.summary}</span>
+                  <span class="ml-auto"><VersionTag version={item.version} /></span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.notes.knownIssues}>
+        <div class="bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <h4 class="text-sm font-semibold text-gray-700 mb-1">Known Issues in {props.notes.to}</h4>
+          <p class="text-sm text-gray-600 whitespace-pre-wrap">{props.notes.knownIssues}</p>
+        </div>
+      </Show>
+
+      <Show when={props.notes.withoutNotes.length > 0}>
+        <p class="text-xs text-gray-500">No release notes published for {props.notes.withoutNotes.join(', ')}.</p>
+      </Show>
+    </div>
+  );
+}
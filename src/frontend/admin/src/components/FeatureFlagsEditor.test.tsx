@@ -3,69 +3,87 @@ import { render, fireEvent, waitFor } from '@solidjs/testing-library';
 import { FeatureFlagsEditor } from './FeatureFlagsEditor';
 import { useInstances } from '../stores/instance.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
-import type { FeatureFlags } from '../types/instance';
+import type { InstanceConfig } from '../types/instance';
 
-const flags: FeatureFlags = {
-  allowCustomEmoji: true,
-  allowVoiceChannels: false,
-  allowVideoStreaming: false,
-  allowBots: true,
-  allowWebhooks: true,
-  allowAutomod: false,
-  allowServerDiscovery: false,
+const CONFIG_PATH = '/api/v1/admin/instances/inst-1/config';
+
+const config: InstanceConfig = {
+  tier: 'Pro',
+  mediaEnabled: true,
+  resourceLimits: [],
+  featureFlags: [
+    { key: 'canCreateBots', label: 'Bots', group: 'Community', tierDefault: true, value: true },
+    { key: 'canUseCustomEmoji', label: 'Custom Emoji', group: 'Community', tierDefault: true, value: true },
+    { key: 'canUseHdVideo', label: 'HD Video', group: 'Media', tierDefault: true, value: false },
+  ],
 };
 
+function renderEditor() {
+  return render(() => <FeatureFlagsEditor instanceId="inst-1" />);
+}
+
 describe('FeatureFlagsEditor', () => {
   beforeEach(() => {
     useInstances().reset();
+    mockFetch({ [`GET ${CONFIG_PATH}`]: () => config });
   });
 
-  it('renders the heading and feature labels', () => {
-    const { getByText } = render(() => (
-      <FeatureFlagsEditor instanceId="inst-1" initialFlags={flags} />
-    ));
+  it('renders the heading, groups and feature labels from the schema', async () => {
+    const { findByText, getByText } = renderEditor();
     expect(getByText('Feature Flags')).toBeInTheDocument();
-    expect(getByText('Custom Emoji')).toBeInTheDocument();
+    expect(await findByText('Custom Emoji')).toBeInTheDocument();
     expect(getByText('Bots')).toBeInTheDocument();
+    expect(getByText('HD Video')).toBeInTheDocument();
+    expect(getByText('Community')).toBeInTheDocument();
+    expect(getByText('Media')).toBeInTheDocument();
   });
 
-  it('shows the Edit button by default and no Save button', () => {
-    const { getByText, queryByText } = render(() => (
-      <FeatureFlagsEditor instanceId="inst-1" initialFlags={flags} />
-    ));
-    expect(getByText('Edit')).toBeInTheDocument();
+  it('notes the tier default on flags that differ from it', async () => {
+    const { findAllByText } = renderEditor();
+    expect(await findAllByText('(tier default: on)')).toHaveLength(1);
+  });
+
+  it('shows the Edit button by default and no Save button', async () => {
+    const { findByText, queryByText } = renderEditor();
+    expect(await findByText('Edit')).toBeInTheDocument();
     expect(queryByText('Save Changes')).toBeNull();
   });
 
-  it('shows Save / Cancel buttons after clicking Edit', () => {
-    const { getByText } = render(() => (
-      <FeatureFlagsEditor instanceId="inst-1" initialFlags={flags} />
-    ));
-    fireEvent.click(getByText('Edit'));
+  it('shows Save / Cancel buttons after clicking Edit', async () => {
+    const { findByText, getByText } = renderEditor();
+    fireEvent.click(await findByText('Edit'));
     expect(getByText('Save Changes')).toBeInTheDocument();
     expect(getByText('Cancel')).toBeInTheDocument();
   });
 
-  it('cancel returns the editor to view mode', () => {
-    const { getByText, queryByText } = render(() => (
-      <FeatureFlagsEditor instanceId="inst-1" initialFlags={flags} />
-    ));
-    fireEvent.click(getByText('Edit'));
+  it('cancel returns the editor to view mode', async () => {
+    const { findByText, getByText, queryByText } = renderEditor();
+    fireEvent.click(await findByText('Edit'));
     fireEvent.click(getByText('Cancel'));
     expect(queryByText('Save Changes')).toBeNull();
     expect(getByText('Edit')).toBeInTheDocument();
   });
 
-  it('saves and exits edit mode on success', async () => {
-    mockFetch({
+  it('Reset to Tier Defaults turns overridden flags back', async () => {
+    const { findByText, getByText, getByRole } = renderEditor();
+    fireEvent.click(await findByText('Edit'));
+    fireEvent.click(getByText('Reset to Tier Defaults'));
+    expect(getByRole('switch', { name: 'HD Video' })).toHaveAttribute('aria-checked', 'true');
+  });
+
+  it('saves the toggled flags and exits edit mode on success', async () => {
+    const { calls } = mockFetch({
+      [`GET ${CONFIG_PATH}`]: () => config,
       'PATCH /api/v1/admin/instances/inst-1/feature-flags': () => ({ status: 200, body: {} }),
-      'GET /api/v1/admin/instances/inst-1': () => ({ status: 200, body: {} }),
     });
-    const { getByText, queryByText } = render(() => (
-      <FeatureFlagsEditor instanceId="inst-1" initialFlags={flags} />
-    ));
-    fireEvent.click(getByText('Edit'));
+    const { findByText, getByText, getByRole, queryByText } = renderEditor();
+    fireEvent.click(await findByText('Edit'));
+    fireEvent.click(getByRole('switch', { name: 'Bots' }));
     fireEvent.click(getByText('Save Changes'));
     await waitFor(() => expect(queryByText('Save Changes')).toBeNull());
+    const patch = calls.find((c) => c.method === 'PATCH');
+    expect(patch?.body).toEqual({
+      flags: { canCreateBots: false, canUseCustomEmoji: true, canUseHdVideo: false },
+    });
   });
 });
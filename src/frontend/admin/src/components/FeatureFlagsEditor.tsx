@@ -1,58 +1,86 @@
-import { createSignal, createEffect } from 'solid-js';
+import { createSignal, onMount, For, Show } from 'solid-js';
 import { useInstances } from '../stores/instance.store';
-import type { FeatureFlags } from '../types/instance';
+import type { FeatureFlagField, InstanceConfig } from '../types/instance';
 
 interface FeatureFlagsEditorProps {
   instanceId: string;
-  initialFlags: FeatureFlags;
 }
 
+// Flags and their labels come from the backend config schema, so flags added
+// there show up here without frontend changes.
 export function FeatureFlagsEditor(props: FeatureFlagsEditorProps) {
   const instanceStore = useInstances();
-  const [flags, setFlags] = createSignal<FeatureFlags>(props.initialFlags);
+  const [config, setConfig] = createSignal<InstanceConfig | null>(null);
+  const [flags, setFlags] = createSignal<Record<string, boolean>>({});
+  const [isLoading, setIsLoading] = createSignal(true);
   const [isEditing, setIsEditing] = createSignal(false);
   const [isSaving, setIsSaving] = createSignal(false);
+  const [saveError, setSaveError] = createSignal<string | null>(null);
 
-  createEffect(() => {
-    setFlags(props.initialFlags);
+  const load = (loaded: InstanceConfig) => {
+    setConfig(loaded);
+    setFlags(Object.fromEntries(loaded.featureFlags.map((f) => [f.key, f.value])));
+  };
+
+  onMount(async () => {
+    try {
+      load(await instanceStore.fetchInstanceConfig(props.instanceId));
+    } catch (error) {
+      console.error('Failed to fetch feature flags:', error);
+    } finally {
+      setIsLoading(false);
+    }
   });
 
+  const groups = () => {
+    const byGroup = new Map<string, FeatureFlagField[]>();
+    for (const field of config()?.featureFlags ?? []) {
+      byGroup.set(field.group, [...(byGroup.get(field.group) ?? []), field]);
+    }
+    return [...byGroup.entries()];
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
+    setSaveError(null);
     try {
-      await instanceStore.updateFeatureFlags(props.instanceId, flags());
+      load(await instanceStore.updateFeatureFlags(props.instanceId, flags()));
       setIsEditing(false);
     } catch (error) {
       console.error('Failed to update flags:', error);
+      setSaveError((error as { detail?: string })?.detail ?? 'Failed to save feature flags');
     } finally {
       setIsSaving(false);
     }
   };
 
   const handleCancel = () => {
-    setFlags(props.initialFlags);
+    const current = config();
+    if (current) load(current);
+    setSaveError(null);
     setIsEditing(false);
   };
 
-  const toggleFlag = (key: keyof FeatureFlags) => {
-    setFlags({ ...flags(), [key]: !flags()[key] });
+  const resetToDefaults = () => {
+    setFlags(Object.fromEntries((config()?.featureFlags ?? []).map((f) => [f.key, f.tierDefault])));
   };
 
-  const featureFlagLabels: Record<keyof FeatureFlags, string> = {
-    allowCustomEmoji: 'Custom Emoji',
-    allowVoiceChannels: 'Voice Channels',
-    allowVideoStreaming: 'Video Streaming',
-    allowBots: 'Bots',
-    allowWebhooks: 'Webhooks',
-    allowAutomod: 'Auto Moderation',
-    allowServerDiscovery: 'Server Discovery',
+  const toggleFlag = (key: string) => {
+    setFlags({ ...flags(), [key]: !flags()[key] });
   };
 
   return (
     <div class="bg-white rounded-lg shadow p-6">
       <div class="flex items-center justify-between mb-4">
-        <h3 class="text-lg font-semibold">Feature Flags</h3>
-        {!isEditing() && (
+        <div>
+          <h3 class="text-lg font-semibold">Feature Flags</h3>
+          <Show when={config()}>
+            <p class="text-xs text-gray-500">
+              Defaults shown for the {config()!.tier} tier{config()!.mediaEnabled ? ' with media' : ''}
+            </p>
+          </Show>
+        </div>
+        {!isEditing() && config() && (
           <button
             onClick={() => setIsEditing(true)}
             class="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
@@ -62,45 +90,87 @@ export function FeatureFlagsEditor(props: FeatureFlagsEditorProps) {
         )}
       </div>
 
-      <div class="space-y-3">
-        {Object.entries(featureFlagLabels).map(([key, label]) => (
-          <div class="flex items-center justify-between">
-            <label class="text-sm font-medium">{label}</label>
-            <button
-              onClick={() => isEditing() && toggleFlag(key as keyof FeatureFlags)}
-              disabled={!isEditing()}
-              class={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                flags()[key as keyof FeatureFlags] ? 'bg-blue-600' : 'bg-gray-300'
-              } ${!isEditing() ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}
-            >
-              <span
-                class={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                  flags()[key as keyof FeatureFlags] ? 'translate-x-6' : 'translate-x-1'
-                }`}
-              />
-            </button>
-          </div>
-        ))}
+      <Show when={isLoading()}>
+        <p class="text-gray-500 text-sm">Loading flags...</p>
+      </Show>
 
-        {isEditing() && (
-          <div class="flex gap-3 pt-2">
-            <button
-              onClick={handleSave}
-              disabled={isSaving()}
-              class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
-            >
-              {isSaving() ? 'Saving...' : 'Save Changes'}
-            </button>
-            <button
-              onClick={handleCancel}
-              disabled={isSaving()}
-              class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
-            >
-              Cancel
-            </button>
-          </div>
-        )}
-      </div>
+      <Show when={!isLoading() && !config()}>
+        <p class="text-red-600 text-sm">Failed to load feature flags</p>
+      </Show>
+
+      <Show when={config()}>
+        <div class="space-y-6">
+          <For each={groups()}>
+            {([group, fields]) => (
+              <div>
+                <h4 class="text-sm font-semibold text-gray-700 mb-2">{group}</h4>
+                <div class="space-y-3">
+                  <For each={fields}>
+                    {(field) => (
+                      <div class="flex items-center justify-between">
+                        <label class="text-sm font-medium">
+                          {field.label}
+                          <Show when={flags()[field.key] !== field.tierDefault}>
+                            <span class="ml-2 text-xs font-normal text-amber-600">
+                              (tier default: {field.tierDefault ? 'on' : 'off'})
+                            </span>
+                          </Show>
+                        </label>
+                        <button
+                          role="switch"
+                          aria-checked={flags()[field.key]}
+                          aria-label={field.label}
+                          onClick={() => isEditing() && toggleFlag(field.key)}
+                          disabled={!isEditing()}
+                          class={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                            flags()[field.key] ? 'bg-blue-600' : 'bg-gray-300'
+                          } ${!isEditing() ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}
+                        >
+                          <span
+                            class={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                              flags()[field.key] ? 'translate-x-6' : 'translate-x-1'
+                            }`}
+                          />
+                        </button>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              </div>
+            )}
+          </For>
+
+          <Show when={saveError()}>
+            <p class="text-sm text-red-600">{saveError()}</p>
+          </Show>
+
+          {isEditing() && (
+            <div class="flex gap-3 pt-2">
+              <button
+                onClick={handleSave}
+                disabled={isSaving()}
+                class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {isSaving() ? 'Saving...' : 'Save Changes'}
+              </button>
+              <button
+                onClick={resetToDefaults}
+                disabled={isSaving()}
+                class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Reset to Tier Defaults
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={isSaving()}
+                class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      </Show>
     </div>
   );
 }
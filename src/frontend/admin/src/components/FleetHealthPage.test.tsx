@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
+import { FleetHealthPage } from './FleetHealthPage';
+import { useFleetHealth } from '../stores/health.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
+import type { FleetHealth, InstanceHealth } from '../types/health';
+
+const HEALTH_PATH = '/api/v1/admin/health';
+
+function instance(overrides: Partial<InstanceHealth>): InstanceHealth {
+  return {
+    id: 'i-1',
+    domain: 'alpha.xcord.net',
+    status: 'Running',
+    isHealthy: true,
+    consecutiveFailures: 0,
+    responseTimeMs: 40,
+    errorMessage: null,
+    lastCheckAt: '2026-01-01T00:00:00Z',
+    version: '1.2.0',
+    deployedImage: 'xcord/fed:1.2.0',
+    ...overrides,
+  };
+}
+
+const fleet: FleetHealth = {
+  overallStatus: 'Degraded',
+  totalInstances: 3,
+  healthyInstances: 2,
+  unhealthyInstances: 1,
+  timestamp: '2026-01-01T00:00:00Z',
+  instances: [
+    instance({ id: 'i-1', domain: 'alpha.xcord.net', responseTimeMs: 40 }),
+    instance({
+      id: 'i-2',
+      domain: 'beta.xcord.net',
+      isHealthy: false,
+      consecutiveFailures: 4,
+      responseTimeMs: null,
+      errorMessage: 'Connection refused',
+      version: null,
+    }),
+    instance({ id: 'i-3', domain: 'gamma.xcord.net', responseTimeMs: 900, version: '1.1.0', deployedImage: 'xcord/fed:1.1.0' }),
+  ],
+};
+
+function domains(container: HTMLElement) {
+  return [...container.querySelectorAll('tbody tr td:first-child')].map((td) => td.textContent);
+}
+
+describe('FleetHealthPage', () => {
+  beforeEach(() => {
+    useFleetHealth().reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows the overall status and healthy/unhealthy counts', async () => {
+    mockFetch({ [`GET ${HEALTH_PATH}`]: () => fleet });
+    const { findByTestId, getByTestId } = renderWithRouter(() => <FleetHealthPage />, { path: '/health' });
+    expect((await findByTestId('overall-status')).textContent).toBe('Degraded');
+    expect(getByTestId('total-count').textContent).toBe('3');
+    expect(getByTestId('healthy-count').textContent).toBe('2');
+    expect(getByTestId('unhealthy-count').textContent).toBe('1');
+  });
+
+  it('sorts by failure streak first and re-sorts by latency on click', async () => {
+    mockFetch({ [`GET ${HEALTH_PATH}`]: () => fleet });
+    const { container, findByText, getByText } = renderWithRouter(() => <FleetHealthPage />, { path: '/health' });
+    await findByText('beta.xcord.net');
+    expect(domains(container)[0]).toBe('beta.xcord.net');
+
+    fireEvent.click(getByText('Latency'));
+    expect(domains(container)).toEqual(['gamma.xcord.net', 'alpha.xcord.net', 'beta.xcord.net']);
+
+    fireEvent.click(getByText(/Latency/));
+    expect(domains(container)).toEqual(['alpha.xcord.net', 'gamma.xcord.net', 'beta.xcord.net']);
+  });
+
+  it('links each row to the instance detail page', async () => {
+    mockFetch({ [`GET ${HEALTH_PATH}`]: () => fleet });
+    const { findByText } = renderWithRouter(() => <FleetHealthPage />, { path: '/health' });
+    expect(await findByText('gamma.xcord.net')).toHaveAttribute('href', '/instances/i-3');
+  });
+
+  it('shows the version and deployed image spread', async () => {
+    mockFetch({ [`GET ${HEALTH_PATH}`]: () => fleet });
+    const { findByText, getByText } = renderWithRouter(() => <FleetHealthPage />, { path: '/health' });
+    expect(await findByText('Versions')).toBeInTheDocument();
+    expect(getByText('xcord/fed:1.2.0')).toBeInTheDocument();
+    expect(getByText('2 (67%)')).toBeInTheDocument();
+    expect(getByText('Unknown')).toBeInTheDocument();
+  });
+
+  it('refreshes on an interval until auto-refresh is turned off', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const { calls } = mockFetch({ [`GET ${HEALTH_PATH}`]: () => fleet });
+    const { findByTestId } = renderWithRouter(() => <FleetHealthPage />, { path: '/health' });
+    await findByTestId('overall-status');
+    expect(calls).toHaveLength(1);
+
+    vi.advanceTimersByTime(30_000);
+    await waitFor(() => expect(calls).toHaveLength(2));
+
+    fireEvent.change(await findByTestId('auto-refresh-toggle'), { target: { checked: false } });
+    vi.advanceTimersByTime(60_000);
+    expect(calls).toHaveLength(2);
+  });
+});
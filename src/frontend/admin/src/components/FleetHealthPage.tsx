@@ -0,0 +1,265 @@
+import { For, Show, createSignal, onCleanup, onMount } from 'solid-js';
+import { A } from '@solidjs/router';
+import { useFleetHealth } from '../stores/health.store';
+import type { InstanceHealth } from '../types/health';
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+type SortKey = 'domain' | 'consecutiveFailures' | 'responseTimeMs' | 'version' | 'lastCheckAt';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'domain', label: 'Instance' },
+  { key: 'consecutiveFailures', label: 'Failure Streak' },
+  { key: 'responseTimeMs', label: 'Latency' },
+  { key: 'version', label: 'Version' },
+  { key: 'lastCheckAt', label: 'Last Check' },
+];
+
+function overallStatusClass(status: string): string {
+  switch (status) {
+    case 'Healthy':
+      return 'bg-green-100 text-green-800';
+    case 'Degraded':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'Unhealthy':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
+
+// Missing values always sort last, whichever direction is selected.
+function compareHealth(a: InstanceHealth, b: InstanceHealth, key: SortKey, direction: 1 | -1): number {
+  const left = a[key];
+  const right = b[key];
+  if (left == null || right == null) {
+    return left == null ? (right == null ? 0 : 1) : -1;
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return (left - right) * direction;
+  }
+  return String(left).localeCompare(String(right)) * direction;
+}
+
+function spread(values: (string | null)[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const label = value ?? 'Unknown';
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+export function FleetHealthPage() {
+  const fleetHealth = useFleetHealth();
+  const [sortKey, setSortKey] = createSignal<SortKey>('consecutiveFailures');
+  const [sortDirection, setSortDirection] = createSignal<1 | -1>(-1);
+  const [autoRefresh, setAutoRefresh] = createSignal(true);
+
+  let refreshTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stopRefresh = () => {
+    if (refreshTimer) clearInterval(refreshTimer);
+    refreshTimer = undefined;
+  };
+
+  const startRefresh = () => {
+    stopRefresh();
+    refreshTimer = setInterval(() => fleetHealth.fetch(), REFRESH_INTERVAL_MS);
+  };
+
+  onMount(() => {
+    fleetHealth.fetch();
+    startRefresh();
+  });
+
+  onCleanup(stopRefresh);
+
+  const toggleAutoRefresh = (enabled: boolean) => {
+    setAutoRefresh(enabled);
+    if (enabled) startRefresh();
+    else stopRefresh();
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey() === key) {
+      setSortDirection(sortDirection() === 1 ? -1 : 1);
+    } else {
+      setSortKey(key);
+      // Worst-first is the useful default for streaks and latency
+      setSortDirection(key === 'consecutiveFailures' || key === 'responseTimeMs' ? -1 : 1);
+    }
+  };
+
+  const sortedInstances = () =>
+    [...(fleetHealth.health?.instances ?? [])].sort((a, b) =>
+      compareHealth(a, b, sortKey(), sortDirection()),
+    );
+
+  const versionSpread = () => spread((fleetHealth.health?.instances ?? []).map((i) => i.version));
+  const imageSpread = () => spread((fleetHealth.health?.instances ?? []).map((i) => i.deployedImage));
+
+  return (
+    <div class="space-y-6">
+      <div class="bg-white rounded-lg shadow">
+        <div class="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 class="text-xl font-semibold">Fleet Health</h2>
+            <Show when={fleetHealth.health}>
+              {(health) => (
+                <p class="text-sm text-gray-500 mt-1">
+                  Last updated: {new Date(health().timestamp).toLocaleTimeString()}
+                </p>
+              )}
+            </Show>
+          </div>
+          <div class="flex items-center gap-4">
+            <label class="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                data-testid="auto-refresh-toggle"
+                checked={autoRefresh()}
+                onChange={(e) => toggleAutoRefresh(e.currentTarget.checked)}
+              />
+              Auto-refresh
+            </label>
+            <button
+              onClick={() => fleetHealth.fetch()}
+              class="px-3 py-1 text-sm border rounded hover:bg-gray-50"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        <Show when={fleetHealth.error}>
+          <div class="px-6 pt-4 text-sm text-red-600">{fleetHealth.error}</div>
+        </Show>
+
+        <Show when={!fleetHealth.isLoading} fallback={<div class="p-6 text-center">Loading...</div>}>
+          <Show when={fleetHealth.health}>
+            {(health) => (
+              <div class="p-6 grid grid-cols-4 gap-4">
+                <div>
+                  <div class="text-xs font-medium text-gray-500 uppercase">Overall</div>
+                  <span
+                    data-testid="overall-status"
+                    class={`inline-block mt-1 px-2 py-1 text-sm rounded ${overallStatusClass(health().overallStatus)}`}
+                  >
+                    {health().overallStatus}
+                  </span>
+                </div>
+                <div>
+                  <div class="text-xs font-medium text-gray-500 uppercase">Running</div>
+                  <div class="text-2xl font-semibold" data-testid="total-count">{health().totalInstances}</div>
+                </div>
+                <div>
+                  <div class="text-xs font-medium text-gray-500 uppercase">Healthy</div>
+                  <div class="text-2xl font-semibold text-green-700" data-testid="healthy-count">
+                    {health().healthyInstances}
+                  </div>
+                </div>
+                <div>
+                  <div class="text-xs font-medium text-gray-500 uppercase">Unhealthy</div>
+                  <div class="text-2xl font-semibold text-red-700" data-testid="unhealthy-count">
+                    {health().unhealthyInstances}
+                  </div>
+                </div>
+              </div>
+            )}
+          </Show>
+        </Show>
+      </div>
+
+      <Show when={fleetHealth.health}>
+        <div class="grid grid-cols-2 gap-6">
+          <SpreadCard title="Versions" entries={versionSpread()} total={fleetHealth.health!.totalInstances} />
+          <SpreadCard title="Deployed Images" entries={imageSpread()} total={fleetHealth.health!.totalInstances} />
+        </div>
+
+        <div class="bg-white rounded-lg shadow">
+          <Show
+            when={sortedInstances().length > 0}
+            fallback={<div class="p-6 text-center text-gray-500">No running instances</div>}
+          >
+            <table class="w-full">
+              <thead class="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <For each={COLUMNS}>
+                    {(column) => (
+                      <th
+                        class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase"
+                        aria-sort={
+                          sortKey() === column.key
+                            ? sortDirection() === 1 ? 'ascending' : 'descending'
+                            : 'none'
+                        }
+                      >
+                        <button onClick={() => handleSort(column.key)} class="uppercase hover:text-gray-900">
+                          {column.label}
+                          <Show when={sortKey() === column.key}>
+                            {sortDirection() === 1 ? ' ▲' : ' ▼'}
+                          </Show>
+                        </button>
+                      </th>
+                    )}
+                  </For>
+                  <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Error</th>
+                </tr>
+              </thead>
+              <tbody class="divide-y divide-gray-200">
+                <For each={sortedInstances()}>
+                  {(instance) => (
+                    <tr class={instance.isHealthy ? '' : 'bg-red-50'}>
+                      <td class="px-6 py-4 text-sm font-medium">
+                        <A href={`/instances/${instance.id}`} class="text-blue-600 hover:underline">
+                          {instance.domain}
+                        </A>
+                      </td>
+                      <td class="px-6 py-4 text-sm">{instance.consecutiveFailures}</td>
+                      <td class="px-6 py-4 text-sm">
+                        {instance.responseTimeMs != null ? `${instance.responseTimeMs} ms` : '—'}
+                      </td>
+                      <td class="px-6 py-4 text-sm">{instance.version ?? '—'}</td>
+                      <td class="px-6 py-4 text-sm">
+                        {instance.lastCheckAt ? new Date(instance.lastCheckAt).toLocaleString() : 'Never'}
+                      </td>
+                      <td class="px-6 py-4 text-sm text-red-700">{instance.errorMessage ?? ''}</td>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          </Show>
+        </div>
+      </Show>
+    </div>
+  );
+}
+
+function SpreadCard(props: { title: string; entries: [string, number][]; total: number }) {
+  const percent = (count: number) => (props.total === 0 ? 0 : Math.round((count / props.total) * 100));
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6">
+      <h3 class="text-lg font-semibold mb-4">{props.title}</h3>
+      <Show when={props.entries.length > 0} fallback={<p class="text-sm text-gray-500">No data</p>}>
+        <ul class="space-y-3">
+          <For each={props.entries}>
+            {([label, count]) => (
+              <li>
+                <div class="flex justify-between text-sm">
+                  <span class="font-mono truncate" title={label}>{label}</span>
+                  <span class="text-gray-600">{count} ({percent(count)}%)</span>
+                </div>
+                <div class="h-2 bg-gray-100 rounded">
+                  <div class="h-2 bg-blue-500 rounded" style={{ width: `${percent(count)}%` }} />
+                </div>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { mockFetch } from '../tests/helpers/mockFetch';
 
 const VERSIONS_PATH = '/api/v1/admin/versions';
 const ROLLOUTS_PATH = '/api/v1/admin/upgrades';
+const PREVIEW_PATH = '/api/v1/admin/upgrades/preview';
 
 const sampleVersion = {
   id: 'v-1',
@@ -17,6 +18,49 @@ const sampleVersion = {
   publishedAt: '2026-01-01T00:00:00Z',
 };
 
+const previewInstance = (id: string, currentImage: string | null = 'docker.xcord.net/fed:1.2.2') => ({
+  id,
+  domain: `${id}.xcord.net`,
+  displayName: id,
+  status: 'Running',
+  currentImage,
+  pool: 'default',
+});
+
+const samplePreview = {
+  toImage: sampleVersion.image,
+  totalInstances: 3,
+  batchSize: 2,
+  batches: [
+    { number: 1, instances: [previewInstance('alpha'), previewInstance('bravo')] },
+    { number: 2, instances: [previewInstance('charlie')] },
+  ],
+  skipped: [
+    { instance: previewInstance('delta'), reason: 'BatchUpgradesDisabled' },
+    { instance: previewInstance('echo', sampleVersion.image), reason: 'AlreadyOnTarget' },
+  ],
+  estimatedSecondsPerBatch: 120,
+  estimatedDurationSeconds: 240,
+  estimateSampleSize: 12,
+};
+
+async function openPreview(preview: unknown = samplePreview, versions: unknown[] = [sampleVersion]) {
+  const posted: unknown[] = [];
+  mockFetch({
+    [`GET ${VERSIONS_PATH}`]: () => ({ versions }),
+    [`POST ${PREVIEW_PATH}`]: (req) => {
+      posted.push(req.body);
+      return preview;
+    },
+  });
+  const utils = render(() => <FleetUpgrade isOpen={true} onClose={() => {}} />);
+  const button = (await utils.findByTestId('fleet-upgrade-preview')) as HTMLButtonElement;
+  await waitFor(() => expect(button.disabled).toBe(false));
+  fireEvent.click(button);
+  await utils.findByTestId('fleet-upgrade-preview-panel');
+  return { ...utils, posted };
+}
+
 describe('FleetUpgrade', () => {
   beforeEach(() => {
     useInstances().reset();
@@ -65,22 +109,128 @@ describe('FleetUpgrade', () => {
     expect(onClose).toHaveBeenCalledOnce();
   });
 
-  it('disables Start Rollout button when no target image is set', () => {
+  it('disables the Preview button when no target image is set', () => {
     mockFetch({
       [`GET ${VERSIONS_PATH}`]: () => ({ versions: [] }),
     });
-    const { getByTestId } = render(() => (
+    const { getByTestId, queryByTestId } = render(() => (
       <FleetUpgrade isOpen={true} onClose={() => {}} />
     ));
-    const submit = getByTestId('fleet-upgrade-submit') as HTMLButtonElement;
-    expect(submit.disabled).toBe(true);
+    const preview = getByTestId('fleet-upgrade-preview') as HTMLButtonElement;
+    expect(preview.disabled).toBe(true);
+    expect(queryByTestId('fleet-upgrade-submit')).toBeNull();
   });
 
-  it('submits a rollout and calls onClose on success', async () => {
+  it('previews the batches and skipped instances before starting', async () => {
+    const { getByTestId, posted } = await openPreview();
+    expect(posted[0]).toEqual({
+      toImage: sampleVersion.image,
+      fromImage: null,
+      targetPool: null,
+      force: false,
+      batchSize: 5,
+      stages: null,
+    });
+    expect(getByTestId('fleet-upgrade-preview-summary')).toHaveTextContent('3 instances in 2 batches of up to 2');
+    expect(getByTestId('fleet-upgrade-batch-1')).toHaveTextContent('alpha.xcord.net (docker.xcord.net/fed:1.2.2)');
+    expect(getByTestId('fleet-upgrade-batch-1')).toHaveTextContent('bravo.xcord.net');
+    expect(getByTestId('fleet-upgrade-batch-2')).toHaveTextContent('charlie.xcord.net');
+    const skipped = getByTestId('fleet-upgrade-skipped');
+    expect(skipped).toHaveTextContent('delta.xcord.net (docker.xcord.net/fed:1.2.2): Opted out of batch upgrades');
+    expect(skipped).toHaveTextContent('echo.xcord.net (docker.xcord.net/fed:1.2.3): Already on the target image');
+  });
+
+  it('summarizes the release notes for each current version in the selection', async () => {
+    const notes = (version: string, breakingChanges: string[], feature: string) =>
+      JSON.stringify({
+        version,
+        features: [{ summary: feature, commit: 'abcdef1234' }],
+        fixes: [],
+        other: [],
+        breakingChanges,
+        migrationNotes: '',
+        knownIssues: '',
+      });
+    const versions = [
+      { ...sampleVersion, releaseNotes: notes('1.2.3', [], 'Faster search') },
+      { ...sampleVersion, id: 'v-0', version: '1.2.2', image: 'docker.xcord.net/fed:1.2.2', releaseNotes: notes('1.2.2', ['Dropped legacy tokens'], 'Threads') },
+      { ...sampleVersion, id: 'v-00', version: '1.2.1', image: 'docker.xcord.net/fed:1.2.1', releaseNotes: null },
+    ];
+    const { getByTestId } = await openPreview(
+      {
+        ...samplePreview,
+        batches: [
+          { number: 1, instances: [previewInstance('alpha', 'docker.xcord.net/fed:1.2.2'), previewInstance('bravo', 'docker.xcord.net/fed:1.2.1')] },
+          { number: 2, instances: [previewInstance('charlie', 'docker.xcord.net/fed:1.2.1'), previewInstance('foxtrot', 'registry.local/fed:dev')] },
+        ],
+      },
+      versions,
+    );
+
+    const fromOldest = getByTestId('fleet-upgrade-source-0');
+    expect(fromOldest).toHaveTextContent('From 1.2.1');
+    expect(fromOldest).toHaveTextContent('(2 instances)');
+    expect(fromOldest).toHaveTextContent('1 breaking');
+    expect(fromOldest).toHaveTextContent('Dropped legacy tokens');
+    expect(fromOldest).toHaveTextContent('Threads');
+    expect(fromOldest).toHaveTextContent('Faster search');
+
+    const fromNewer = getByTestId('fleet-upgrade-source-1');
+    expect(fromNewer).toHaveTextContent('From 1.2.2');
+    expect(fromNewer).toHaveTextContent('(1 instance)');
+    expect(fromNewer).toHaveTextContent('Faster search');
+    expect(fromNewer).not.toHaveTextContent('Dropped legacy tokens');
+
+    expect(getByTestId('fleet-upgrade-source-2')).toHaveTextContent('No release notes to compare');
+  });
+
+  it('shows the estimated duration and where it comes from', async () => {
+    const { getByText } = await openPreview();
+    expect(getByText(/Estimated duration: 4 min \(2 min per batch, based on the last 12 upgrades\)/)).toBeInTheDocument();
+  });
+
+  it('goes back to the form without starting a rollout', async () => {
+    const { getByTestId, queryByTestId } = await openPreview();
+    fireEvent.click(getByTestId('fleet-upgrade-back'));
+    expect(queryByTestId('fleet-upgrade-preview-panel')).toBeNull();
+    expect(getByTestId('fleet-upgrade-batch-size')).toBeInTheDocument();
+  });
+
+  it('disables Start Rollout when no instances match', async () => {
+    const { getByTestId, getByText } = await openPreview({
+      ...samplePreview,
+      totalInstances: 0,
+      batches: [],
+      skipped: [],
+      estimatedDurationSeconds: 0,
+      estimateSampleSize: 0,
+    });
+    expect(getByText('No instances match these settings.')).toBeInTheDocument();
+    expect(getByText(/no upgrade history yet/)).toBeInTheDocument();
+    expect((getByTestId('fleet-upgrade-submit') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('shows the server error when the preview fails', async () => {
+    mockFetch({
+      [`GET ${VERSIONS_PATH}`]: () => ({ versions: [sampleVersion] }),
+      [`POST ${PREVIEW_PATH}`]: () => ({ status: 400, body: { detail: 'BatchSize must be at least 1' } }),
+    });
+    const { findByTestId, findByText, queryByTestId } = render(() => (
+      <FleetUpgrade isOpen={true} onClose={() => {}} />
+    ));
+    const button = (await findByTestId('fleet-upgrade-preview')) as HTMLButtonElement;
+    await waitFor(() => expect(button.disabled).toBe(false));
+    fireEvent.click(button);
+    expect(await findByText('BatchSize must be at least 1')).toBeInTheDocument();
+    expect(queryByTestId('fleet-upgrade-preview-panel')).toBeNull();
+  });
+
+  it('starts the previewed rollout and calls onClose on success', async () => {
     const onClose = vi.fn();
     let posted = false;
     mockFetch({
       [`GET ${VERSIONS_PATH}`]: () => ({ versions: [sampleVersion] }),
+      [`POST ${PREVIEW_PATH}`]: () => samplePreview,
       [`POST ${ROLLOUTS_PATH}`]: () => {
         posted = true;
         return {
@@ -107,10 +257,69 @@ describe('FleetUpgrade', () => {
     const { findByTestId } = render(() => (
       <FleetUpgrade isOpen={true} onClose={onClose} />
     ));
+    const preview = (await findByTestId('fleet-upgrade-preview')) as HTMLButtonElement;
+    await waitFor(() => expect(preview.disabled).toBe(false));
+    fireEvent.click(preview);
     const submit = (await findByTestId('fleet-upgrade-submit')) as HTMLButtonElement;
-    await waitFor(() => expect(submit.disabled).toBe(false));
+    expect(posted).toBe(false);
     fireEvent.click(submit);
     await waitFor(() => expect(posted).toBe(true));
     await waitFor(() => expect(onClose).toHaveBeenCalled());
   });
+
+  it('previews and starts a canary rollout with stages and a health gate', async () => {
+    const previews: unknown[] = [];
+    const starts: unknown[] = [];
+    mockFetch({
+      [`GET ${VERSIONS_PATH}`]: () => ({ versions: [sampleVersion] }),
+      [`POST ${PREVIEW_PATH}`]: (req) => {
+        previews.push(req.body);
+        return {
+          ...samplePreview,
+          batches: samplePreview.batches.map((batch, i) => ({ ...batch, stage: i + 1 })),
+        };
+      },
+      [`POST ${ROLLOUTS_PATH}`]: (req) => {
+        starts.push(req.body);
+        return { status: 202, body: { id: 'r-1', status: 'Pending' } };
+      },
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    const { findByTestId, getByTestId } = render(() => <FleetUpgrade isOpen={true} onClose={() => {}} />);
+    const preview = (await findByTestId('fleet-upgrade-preview')) as HTMLButtonElement;
+    await waitFor(() => expect(preview.disabled).toBe(false));
+
+    fireEvent.click(getByTestId('fleet-upgrade-canary-toggle'));
+    fireEvent.click(getByTestId('fleet-upgrade-stage-remove-2'));
+    fireEvent.input(getByTestId('fleet-upgrade-stage-wait-0'), { target: { value: '15' } });
+    fireEvent.input(getByTestId('fleet-upgrade-gate-response-time'), { target: { value: '800' } });
+    fireEvent.click(preview);
+
+    expect(await findByTestId('fleet-upgrade-batch-2')).toHaveTextContent('Stage 2 · Batch 2');
+    const stages = [
+      { instances: 1, percentage: null, waitMinutes: 15 },
+      { instances: null, percentage: 10, waitMinutes: 30 },
+      { instances: null, percentage: 100, waitMinutes: 0 },
+    ];
+    expect((previews[0] as { stages: unknown }).stages).toEqual(stages);
+
+    fireEvent.click(getByTestId('fleet-upgrade-submit'));
+    await waitFor(() => expect(starts).toHaveLength(1));
+    expect(starts[0]).toMatchObject({
+      stages,
+      healthGate: { maxConsecutiveFailures: 0, maxResponseTimeMs: 800 },
+    });
+  });
+
+  it('switches a stage between instance counts and percentages', async () => {
+    mockFetch({ [`GET ${VERSIONS_PATH}`]: () => ({ versions: [] }) });
+    const { getByTestId } = render(() => <FleetUpgrade isOpen={true} onClose={() => {}} />);
+    fireEvent.click(getByTestId('fleet-upgrade-canary-toggle'));
+    const unit = getByTestId('fleet-upgrade-stage-unit-0') as HTMLSelectElement;
+    expect(unit.value).toBe('instances');
+    fireEvent.change(unit, { target: { value: 'percent' } });
+    fireEvent.input(getByTestId('fleet-upgrade-stage-size-0'), { target: { value: '5' } });
+    expect((getByTestId('fleet-upgrade-stage-unit-0') as HTMLSelectElement).value).toBe('percent');
+    expect((getByTestId('fleet-upgrade-stage-size-0') as HTMLInputElement).value).toBe('5');
+  });
 });
@@ -1,6 +1,40 @@
-import { Show, For, createSignal, onMount } from 'solid-js';
+import { Show, For, Index, createMemo, createSignal, onMount } from 'solid-js';
 import { useInstances } from '../stores/instance.store';
-import type { StartRolloutRequest } from '../types/instance';
+import type { RolloutPreview, RolloutPreviewInstance, RolloutStage, StartRolloutRequest } from '../types/instance';
+import { CumulativeReleaseNotes, collectReleaseNotes, compareVersions, findVersion } from './CumulativeReleaseNotes';
+import type { CumulativeNotes } from './CumulativeReleaseNotes';
+
+const SKIP_REASONS: Record<string, string> = {
+  NotRunning: 'Not running',
+  AlreadyOnTarget: 'Already on the target image',
+  BatchUpgradesDisabled: 'Opted out of batch upgrades (enable Force to include)',
+};
+
+// Stage sizes are cumulative; the plan always ends with the rest of the fleet.
+const FINAL_STAGE: RolloutStage = { instances: null, percentage: 100, waitMinutes: 0 };
+
+const DEFAULT_CANARY_STAGES: RolloutStage[] = [
+  { instances: 1, percentage: null, waitMinutes: 30 },
+  { instances: null, percentage: 10, waitMinutes: 30 },
+  { instances: null, percentage: 50, waitMinutes: 30 },
+];
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function instanceLabel(instance: RolloutPreviewInstance): string {
+  return instance.currentImage ? `${instance.domain} (${instance.currentImage})` : instance.domain;
+}
+
+interface SourceVersion {
+  image: string | null;
+  label: string;
+  instances: number;
+  notes: CumulativeNotes | null;
+}
 
 interface FleetUpgradeProps {
   isOpen: boolean;
@@ -19,6 +53,45 @@ export function FleetUpgrade(props: FleetUpgradeProps) {
   const [isSubmitting, setIsSubmitting] = createSignal(false);
   const [error, setError] = createSignal<string | null>(null);
   const [isVersionsLoading, setIsVersionsLoading] = createSignal(false);
+  const [preview, setPreview] = createSignal<RolloutPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = createSignal(false);
+  const [canary, setCanary] = createSignal(false);
+  const [canaryStages, setCanaryStages] = createSignal<RolloutStage[]>(DEFAULT_CANARY_STAGES);
+  const [gateMaxFailures, setGateMaxFailures] = createSignal(0);
+  const [gateMaxResponseMs, setGateMaxResponseMs] = createSignal(2000);
+
+  // One cumulative changelog per image the targeted instances currently run
+  const sourceVersions = createMemo((): SourceVersion[] => {
+    const plan = preview();
+    if (!plan) return [];
+    const versions = instanceStore.availableVersions;
+    const target = findVersion(versions, plan.toImage);
+    const counts = new Map<string | null, number>();
+    for (const instance of plan.batches.flatMap((batch) => batch.instances)) {
+      counts.set(instance.currentImage, (counts.get(instance.currentImage) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([image, instances]) => {
+        const from = findVersion(versions, image);
+        return {
+          image,
+          label: from?.version ?? image ?? 'Unknown image',
+          instances,
+          notes: from && target ? collectReleaseNotes(versions, from, target) : null,
+        };
+      })
+      .sort((a, b) => compareVersions(a.label, b.label));
+  });
+
+  const stagePlan = (): RolloutStage[] | null => (canary() ? [...canaryStages(), FINAL_STAGE] : null);
+
+  const updateStage = (index: number, patch: Partial<RolloutStage>) =>
+    setCanaryStages(canaryStages().map((stage, i) => (i === index ? { ...stage, ...patch } : stage)));
+
+  const setStageSize = (index: number, value: number, unit: string) =>
+    updateStage(index, unit === 'percent'
+      ? { instances: null, percentage: value }
+      : { instances: value, percentage: null });
 
   onMount(async () => {
     if (instanceStore.availableVersions.length === 0) {
@@ -42,20 +115,47 @@ export function FleetUpgrade(props: FleetUpgradeProps) {
     }
   });
 
-  const handleSubmit = async () => {
+  // The rollout only starts after the admin has confirmed a preview of the
+  // exact instances and batches these settings resolve to.
+  const handlePreview = async () => {
     if (!toImage()) return;
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      setPreview(await instanceStore.previewRollout({
+        toImage: toImage(),
+        fromImage: fromImage() || null,
+        targetPool: targetPool() || null,
+        force: force(),
+        batchSize: batchSize(),
+        stages: stagePlan(),
+      }));
+    } catch (err) {
+      console.error('Failed to preview rollout:', err);
+      setError((err as { detail?: string })?.detail ?? 'Failed to preview rollout');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!toImage() || !preview()) return;
     setIsSubmitting(true);
     setError(null);
     try {
       const request: StartRolloutRequest = {
         toImage: toImage(),
+        fromImage: fromImage() || null,
+        targetPool: targetPool() || null,
         force: force(),
         batchSize: batchSize(),
         maxFailures: maxFailures(),
+        scheduledAt: scheduledAt() ? new Date(scheduledAt()).toISOString() : null,
+        stages: stagePlan(),
+        healthGate: canary()
+          ? { maxConsecutiveFailures: gateMaxFailures(), maxResponseTimeMs: gateMaxResponseMs() || null }
+          : null,
       };
-      if (fromImage()) request.fromImage = fromImage();
-      if (targetPool()) request.targetPool = targetPool();
-      if (scheduledAt()) request.scheduledAt = new Date(scheduledAt()).toISOString();
 
       await instanceStore.startRollout(request);
       await instanceStore.fetchActiveRollouts();
@@ -83,6 +183,7 @@ export function FleetUpgrade(props: FleetUpgradeProps) {
             </p>
           </div>
 
+          <Show when={!preview()}>
           <div class="p-6 space-y-4">
             <div>
               <label class="block text-sm font-medium text-gray-700 mb-1">
@@ -211,12 +312,217 @@ export function FleetUpgrade(props: FleetUpgradeProps) {
               </div>
             </div>
 
-            <Show when={error()}>
-              <div class="bg-red-50 border border-red-200 rounded p-3">
-                <p class="text-sm text-red-700">{error()}</p>
+            <div class="flex items-center gap-3">
+              <button
+                data-testid="fleet-upgrade-canary-toggle"
+                onClick={() => setCanary(!canary())}
+                class={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors cursor-pointer ${
+                  canary() ? 'bg-blue-600' : 'bg-gray-300'
+                }`}
+              >
+                <span
+                  class={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    canary() ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+              <div>
+                <span class="text-sm font-medium text-gray-700">Canary stages</span>
+                <p class="text-xs text-gray-500">Upgrade in growing stages and pause if upgraded instances become unhealthy</p>
+              </div>
+            </div>
+
+            <Show when={canary()}>
+              <div data-testid="fleet-upgrade-stages" class="space-y-2 border border-gray-200 rounded p-3">
+                <Index each={canaryStages()}>
+                  {(stage, index) => (
+                    <div class="flex items-center gap-2 text-sm">
+                      <span class="w-16 text-gray-500">Stage {index + 1}</span>
+                      <input
+                        data-testid={`fleet-upgrade-stage-size-${index}`}
+                        type="number"
+                        min="1"
+                        value={stage().instances ?? stage().percentage ?? 1}
+                        onInput={(e) => setStageSize(
+                          index,
+                          parseInt(e.currentTarget.value) || 1,
+                          stage().percentage != null ? 'percent' : 'instances',
+                        )}
+                        class="w-20 px-2 py-1 border border-gray-300 rounded"
+                      />
+                      <select
+                        data-testid={`fleet-upgrade-stage-unit-${index}`}
+                        value={stage().percentage != null ? 'percent' : 'instances'}
+                        onChange={(e) => setStageSize(
+                          index,
+                          stage().instances ?? stage().percentage ?? 1,
+                          e.currentTarget.value,
+                        )}
+                        class="px-2 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="instances">instances</option>
+                        <option value="percent">% of fleet</option>
+                      </select>
+                      <span class="text-gray-500">then wait</span>
+                      <input
+                        data-testid={`fleet-upgrade-stage-wait-${index}`}
+                        type="number"
+                        min="0"
+                        value={stage().waitMinutes}
+                        onInput={(e) => updateStage(index, { waitMinutes: parseInt(e.currentTarget.value) || 0 })}
+                        class="w-20 px-2 py-1 border border-gray-300 rounded"
+                      />
+                      <span class="text-gray-500">min</span>
+                      <button
+                        data-testid={`fleet-upgrade-stage-remove-${index}`}
+                        onClick={() => setCanaryStages(canaryStages().filter((_, i) => i !== index))}
+                        class="ml-auto text-xs text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  )}
+                </Index>
+                <div class="flex items-center gap-2 text-sm text-gray-500">
+                  <span class="w-16">Stage {canaryStages().length + 1}</span>
+                  <span>All remaining instances</span>
+                </div>
+                <button
+                  data-testid="fleet-upgrade-stage-add"
+                  onClick={() => setCanaryStages([...canaryStages(), { instances: null, percentage: 50, waitMinutes: 30 }])}
+                  class="text-xs text-blue-600 hover:underline"
+                >
+                  Add stage
+                </button>
+
+                <div class="grid grid-cols-2 gap-4 pt-2 border-t border-gray-100">
+                  <div>
+                    <label class="block text-xs font-medium text-gray-700 mb-1">Max consecutive health failures</label>
+                    <input
+                      data-testid="fleet-upgrade-gate-failures"
+                      type="number"
+                      min="0"
+                      value={gateMaxFailures()}
+                      onInput={(e) => setGateMaxFailures(parseInt(e.currentTarget.value) || 0)}
+                      class="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label class="block text-xs font-medium text-gray-700 mb-1">Max response time (ms)</label>
+                    <input
+                      data-testid="fleet-upgrade-gate-response-time"
+                      type="number"
+                      min="0"
+                      value={gateMaxResponseMs()}
+                      onInput={(e) => setGateMaxResponseMs(parseInt(e.currentTarget.value) || 0)}
+                      class="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <p class="text-xs text-gray-500 mt-1">0 for no limit</p>
+                  </div>
+                </div>
+                <p class="text-xs text-gray-500">
+                  After each stage's wait, every upgraded instance must be within these limits or the rollout pauses.
+                </p>
               </div>
             </Show>
+
           </div>
+          </Show>
+
+          <Show when={preview()}>
+            {(plan) => (
+              <div data-testid="fleet-upgrade-preview-panel" class="p-6 space-y-4 text-sm">
+                <p data-testid="fleet-upgrade-preview-summary" class="text-gray-700">
+                  {plan().totalInstances} instance{plan().totalInstances === 1 ? '' : 's'} in{' '}
+                  {plan().batches.length} batch{plan().batches.length === 1 ? '' : 'es'} of up to {plan().batchSize}
+                  {' '}&rarr; {plan().toImage}
+                </p>
+                <p class="text-gray-600">
+                  Estimated duration: {formatDuration(plan().estimatedDurationSeconds)}
+                  {' '}({formatDuration(plan().estimatedSecondsPerBatch)} per batch,{' '}
+                  {plan().estimateSampleSize > 0
+                    ? `based on the last ${plan().estimateSampleSize} upgrades`
+                    : 'no upgrade history yet'})
+                </p>
+
+                <Show
+                  when={plan().batches.length > 0}
+                  fallback={<p class="text-orange-700">No instances match these settings.</p>}
+                >
+                  <ol class="space-y-2 max-h-64 overflow-y-auto">
+                    <For each={plan().batches}>
+                      {(batch) => (
+                        <li data-testid={`fleet-upgrade-batch-${batch.number}`}>
+                          <span class="font-medium">
+                            <Show when={batch.stage}>Stage {batch.stage} &middot; </Show>Batch {batch.number}
+                          </span>
+                          <ul class="ml-4 text-gray-600">
+                            <For each={batch.instances}>{(instance) => <li>{instanceLabel(instance)}</li>}</For>
+                          </ul>
+                        </li>
+                      )}
+                    </For>
+                  </ol>
+                </Show>
+
+                <Show when={sourceVersions().length > 0}>
+                  <div data-testid="fleet-upgrade-release-notes">
+                    <h3 class="font-medium text-gray-700">Release notes by current version</h3>
+                    <For each={sourceVersions()}>
+                      {(source, index) => (
+                        <details data-testid={`fleet-upgrade-source-${index()}`} class="mt-2 border border-gray-200 rounded">
+                          <summary class="px-3 py-2 cursor-pointer flex items-center gap-2">
+                            <span class="font-medium">From {source.label}</span>
+                            <span class="text-gray-500">
+                              ({source.instances} instance{source.instances === 1 ? '' : 's'})
+                            </span>
+                            <Show when={source.notes && source.notes.breakingChanges.length > 0}>
+                              <span class="text-xs bg-red-100 text-red-700 px-1.5 py-0.5 rounded">
+                                {source.notes!.breakingChanges.length} breaking
+                              </span>
+                            </Show>
+                          </summary>
+                          <div class="px-3 pb-3">
+                            <Show
+                              when={source.notes}
+                              fallback={
+                                <p class="text-gray-500">
+                                  No release notes to compare: this is not a published version older than the target.
+                                </p>
+                              }
+                            >
+                              {(notes) => <CumulativeReleaseNotes notes={notes()} />}
+                            </Show>
+                          </div>
+                        </details>
+                      )}
+                    </For>
+                  </div>
+                </Show>
+
+                <Show when={plan().skipped.length > 0}>
+                  <div>
+                    <h3 class="font-medium text-gray-700">Skipped ({plan().skipped.length})</h3>
+                    <ul data-testid="fleet-upgrade-skipped" class="ml-4 text-gray-600 max-h-40 overflow-y-auto">
+                      <For each={plan().skipped}>
+                        {(skip) => (
+                          <li>
+                            {instanceLabel(skip.instance)}: {SKIP_REASONS[skip.reason] ?? skip.reason}
+                          </li>
+                        )}
+                      </For>
+                    </ul>
+                  </div>
+                </Show>
+              </div>
+            )}
+          </Show>
+
+          <Show when={error()}>
+            <div class="mx-6 mb-4 bg-red-50 border border-red-200 rounded p-3">
+              <p class="text-sm text-red-700">{error()}</p>
+            </div>
+          </Show>
 
           <div class="p-6 border-t border-gray-200 flex justify-end gap-3">
             <button
@@ -227,14 +533,36 @@ export function FleetUpgrade(props: FleetUpgradeProps) {
             >
               Cancel
             </button>
-            <button
-              data-testid="fleet-upgrade-submit"
-              onClick={handleSubmit}
-              disabled={!toImage() || isSubmitting()}
-              class="px-4 py-2 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            <Show
+              when={preview()}
+              fallback={
+                <button
+                  data-testid="fleet-upgrade-preview"
+                  onClick={handlePreview}
+                  disabled={!toImage() || isPreviewing()}
+                  class="px-4 py-2 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  {isPreviewing() ? 'Loading preview...' : 'Preview'}
+                </button>
+              }
             >
-              {isSubmitting() ? 'Starting...' : 'Start Rollout'}
-            </button>
+              <button
+                data-testid="fleet-upgrade-back"
+                onClick={() => setPreview(null)}
+                disabled={isSubmitting()}
+                class="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                data-testid="fleet-upgrade-submit"
+                onClick={handleSubmit}
+                disabled={!toImage() || isSubmitting() || preview()!.totalInstances === 0}
+                class="px-4 py-2 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isSubmitting() ? 'Starting...' : 'Start Rollout'}
+              </button>
+            </Show>
           </div>
         </div>
       </div>
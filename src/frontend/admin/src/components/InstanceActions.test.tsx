@@ -63,4 +63,34 @@ describe('InstanceActions', () => {
     fireEvent.click(getByText('Confirm'));
     await waitFor(() => expect(queryByText('Confirm Action')).toBeNull());
   });
+
+  it('sends the reason from the confirmation dialog for the audit log', async () => {
+    let reasonHeader: string | undefined;
+    mockFetch({
+      'DELETE /api/v1/admin/instances/inst-1': ({ init }) => {
+        reasonHeader = (init?.headers as Record<string, string>)['X-Audit-Reason'];
+        return { status: 200, body: {} };
+      },
+      'GET /api/v1/admin/instances': () => ({ instances: [], total: 0, page: 1, pageSize: 25 }),
+    });
+    const { getByText, getByTestId, queryByText } = render(() => (
+      <InstanceActions instanceId="inst-1" status={InstanceStatus.Running} />
+    ));
+    fireEvent.click(getByText('Destroy Instance'));
+    fireEvent.input(getByTestId('audit-reason'), { target: { value: 'Abuse report #42' } });
+    fireEvent.click(getByText('Confirm'));
+    await waitFor(() => expect(queryByText('Confirm Action')).toBeNull());
+    expect(reasonHeader).toBe(encodeURIComponent('Abuse report #42'));
+  });
+
+  it('clears the reason when the dialog is cancelled', () => {
+    const { getByText, getByTestId } = render(() => (
+      <InstanceActions instanceId="inst-1" status={InstanceStatus.Running} />
+    ));
+    fireEvent.click(getByText('Suspend Instance'));
+    fireEvent.input(getByTestId('audit-reason'), { target: { value: 'Maintenance' } });
+    fireEvent.click(getByText('Cancel'));
+    fireEvent.click(getByText('Suspend Instance'));
+    expect(getByTestId('audit-reason')).toHaveValue('');
+  });
 });
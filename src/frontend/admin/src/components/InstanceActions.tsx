@@ -1,6 +1,7 @@
 import { createSignal, Show } from 'solid-js';
 import { useInstances } from '../stores/instance.store';
 import { InstanceStatus } from '../types/instance';
+import { ReasonField } from './ReasonField';
 
 interface InstanceActionsProps {
   instanceId: string;
@@ -11,22 +12,28 @@ export function InstanceActions(props: InstanceActionsProps) {
   const instanceStore = useInstances();
   const [showConfirm, setShowConfirm] = createSignal<'suspend' | 'resume' | 'destroy' | null>(null);
   const [isLoading, setIsLoading] = createSignal(false);
+  const [reason, setReason] = createSignal('');
+
+  const closeConfirm = () => {
+    setShowConfirm(null);
+    setReason('');
+  };
 
   const handleAction = async (action: 'suspend' | 'resume' | 'destroy') => {
     setIsLoading(true);
     try {
       switch (action) {
         case 'suspend':
-          await instanceStore.suspendInstance(props.instanceId);
+          await instanceStore.suspendInstance(props.instanceId, reason());
           break;
         case 'resume':
-          await instanceStore.resumeInstance(props.instanceId);
+          await instanceStore.resumeInstance(props.instanceId, reason());
           break;
         case 'destroy':
-          await instanceStore.destroyInstance(props.instanceId);
+          await instanceStore.destroyInstance(props.instanceId, reason());
           break;
       }
-      setShowConfirm(null);
+      closeConfirm();
     } catch (error) {
       console.error('Action failed:', error);
     } finally {
@@ -80,6 +87,7 @@ export function InstanceActions(props: InstanceActionsProps) {
                 <strong class="text-red-600"> This action cannot be undone.</strong>
               </Show>
             </p>
+            <ReasonField value={reason()} onInput={setReason} disabled={isLoading()} />
             <div class="flex gap-3">
               <button
                 onClick={() => handleAction(showConfirm()!)}
@@ -89,7 +97,7 @@ export function InstanceActions(props: InstanceActionsProps) {
                 {isLoading() ? 'Processing...' : 'Confirm'}
               </button>
               <button
-                onClick={() => setShowConfirm(null)}
+                onClick={closeConfirm}
                 disabled={isLoading()}
                 class="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
               >
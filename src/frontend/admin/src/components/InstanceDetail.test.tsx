@@ -1,8 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
+import { useLocation } from '@solidjs/router';
 import { InstanceDetail } from './InstanceDetail';
 import { useInstances } from '../stores/instance.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
 
 const INSTANCE_PATH = '/api/v1/admin/instances/i-1';
 const LOGS_PATH = '/api/v1/admin/instances/i-1/logs';
@@ -55,12 +57,21 @@ const sampleInstance = {
   },
 };
 
+function renderDetail(path = '/instances/i-1') {
+  let location!: ReturnType<typeof useLocation>;
+  const result = renderWithRouter(() => {
+    location = useLocation();
+    return <InstanceDetail />;
+  }, { path, routePath: '/instances/:id/:tab?' });
+  return { ...result, location: () => location };
+}
+
 describe('InstanceDetail', () => {
   beforeEach(() => {
     useInstances().reset();
     mockFetch({
       [`GET ${INSTANCE_PATH}`]: () => sampleInstance,
-      [`GET ${LOGS_PATH}`]: () => [],
+      [`GET ${LOGS_PATH}/stream`]: () => new Response('', { headers: { 'Content-Type': 'text/event-stream' } }),
       // backup policy & versions get fetched when their tabs are activated
       [`GET ${INSTANCE_PATH}/backup-policy`]: () => ({
         enabled: false,
@@ -71,40 +82,41 @@ describe('InstanceDetail', () => {
         backupRedis: false,
       }),
       [`GET ${INSTANCE_PATH}/backups`]: () => [],
+      // the restore progress banner checks for a running restore on load
+      [`GET ${INSTANCE_PATH}/restores`]: () => ({ restores: [] }),
+      [`GET ${INSTANCE_PATH}/uptime`]: () => ({
+        instanceId: 'i-1',
+        availability7Days: null,
+        availability30Days: null,
+        availability90Days: null,
+        days: [],
+        outages: [],
+      }),
       'GET /api/v1/admin/versions': () => ({ versions: [] }),
     });
   });
 
   it('renders the back button immediately', () => {
-    const { getByText } = render(() => (
-      <InstanceDetail instanceId="i-1" onBack={() => {}} />
-    ));
+    const { getByText } = renderDetail();
     expect(getByText('Back to Instances')).toBeInTheDocument();
   });
 
-  it('calls onBack when back button is clicked', () => {
-    const onBack = vi.fn();
-    const { getByText } = render(() => (
-      <InstanceDetail instanceId="i-1" onBack={onBack} />
-    ));
-    fireEvent.click(getByText('Back to Instances'));
-    expect(onBack).toHaveBeenCalledOnce();
+  it('links the back button to the instance list', () => {
+    const { getByText } = renderDetail();
+    expect(getByText('Back to Instances')).toHaveAttribute('href', '/instances');
   });
 
   it('renders instance display name once detail is loaded', async () => {
-    const { findByText } = render(() => (
-      <InstanceDetail instanceId="i-1" onBack={() => {}} />
-    ));
+    const { findByText } = renderDetail();
     expect(await findByText('Foo Server')).toBeInTheDocument();
     expect(await findByText('foo.example.com')).toBeInTheDocument();
   });
 
-  it('renders the tab navigation with all six tabs', async () => {
-    const { findByText, getByText } = render(() => (
-      <InstanceDetail instanceId="i-1" onBack={() => {}} />
-    ));
+  it('renders the tab navigation with all seven tabs', async () => {
+    const { findByText, getByText } = renderDetail();
     await findByText('Foo Server');
     expect(getByText('Overview')).toBeInTheDocument();
+    expect(getByText('Provisioning')).toBeInTheDocument();
     expect(getByText('Health')).toBeInTheDocument();
     expect(getByText('Configuration')).toBeInTheDocument();
     expect(getByText('Logs')).toBeInTheDocument();
@@ -113,9 +125,7 @@ describe('InstanceDetail', () => {
   });
 
   it('switches to the Health tab and shows CPU/memory metrics', async () => {
-    const { findByText, getByText } = render(() => (
-      <InstanceDetail instanceId="i-1" onBack={() => {}} />
-    ));
+    const { findByText, getByText } = renderDetail();
     await findByText('Foo Server');
     fireEvent.click(getByText('Health'));
     await waitFor(() => {
@@ -124,13 +134,23 @@ describe('InstanceDetail', () => {
   });
 
   it('shows "No logs available" placeholder under the Logs tab when empty', async () => {
-    const { findByText, getByText } = render(() => (
-      <InstanceDetail instanceId="i-1" onBack={() => {}} />
-    ));
+    const { findByText, getByText } = renderDetail();
     await findByText('Foo Server');
     fireEvent.click(getByText('Logs'));
     await waitFor(() => {
       expect(getByText('No logs available')).toBeInTheDocument();
     });
   });
+
+  it('opens the tab named in the URL', async () => {
+    const { findByText } = renderDetail('/instances/i-1/logs');
+    expect(await findByText('No logs available')).toBeInTheDocument();
+  });
+
+  it('writes the selected tab into the URL', async () => {
+    const { findByText, getByText, location } = renderDetail();
+    await findByText('Foo Server');
+    fireEvent.click(getByText('Backups'));
+    await waitFor(() => expect(location().pathname).toBe('/instances/i-1/backups'));
+  });
 });
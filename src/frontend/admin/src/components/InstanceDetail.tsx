@@ -1,38 +1,59 @@
-import { Show, For, createSignal, onMount } from 'solid-js';
+import { Show, For, createEffect, on, onCleanup } from 'solid-js';
+import { A, useNavigate, useParams } from '@solidjs/router';
 import { useInstances } from '../stores/instance.store';
 import { ResourceLimitsEditor } from './ResourceLimitsEditor';
 import { FeatureFlagsEditor } from './FeatureFlagsEditor';
 import { InstanceActions } from './InstanceActions';
 import { BackupPolicyEditor } from './BackupPolicyEditor';
 import { BackupHistory } from './BackupHistory';
+import { RestoreProgress } from './RestoreProgress';
 import { VersionTab } from './VersionTab';
+import { LogViewer } from './LogViewer';
+import { ProvisioningTimeline } from './ProvisioningTimeline';
+import { UptimeHistory } from './UptimeHistory';
 
-interface InstanceDetailProps {
-  instanceId: string;
-  onBack: () => void;
-}
+const TABS = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'provisioning', label: 'Provisioning' },
+  { id: 'health', label: 'Health' },
+  { id: 'config', label: 'Configuration' },
+  { id: 'logs', label: 'Logs' },
+  { id: 'backups', label: 'Backups' },
+  { id: 'version', label: 'Version' },
+] as const;
+
+type Tab = (typeof TABS)[number]['id'];
 
-export function InstanceDetail(props: InstanceDetailProps) {
+export function InstanceDetail() {
   const instanceStore = useInstances();
-  const [activeTab, setActiveTab] = createSignal<'overview' | 'health' | 'config' | 'logs' | 'backups' | 'version'>('overview');
+  const navigate = useNavigate();
+  const params = useParams<{ id: string; tab?: string }>();
+
+  // Unknown or missing tab segments fall back to the overview rather than
+  // rendering an empty panel.
+  const activeTab = (): Tab =>
+    TABS.find((t) => t.id === params.tab)?.id ?? 'overview';
 
-  onMount(async () => {
-    await instanceStore.fetchInstanceDetail(props.instanceId);
-    await instanceStore.fetchInstanceLogs(props.instanceId);
-  });
+  createEffect(on(() => params.id, async (id) => {
+    await instanceStore.fetchInstanceDetail(id);
+  }));
+
+  onCleanup(() => instanceStore.clearSelectedInstance());
 
   const instance = () => instanceStore.selectedInstance;
 
   return (
     <div>
-      <button
-        onClick={props.onBack}
-        class="mb-4 px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+      <A
+        href="/instances"
+        class="inline-block mb-4 px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
       >
         Back to Instances
-      </button>
+      </A>
 
       <Show when={instance()}>
+        <RestoreProgress instanceId={instance()!.id} />
+
         <div class="bg-white rounded-lg shadow mb-6">
           <div class="p-6 border-b border-gray-200">
             <h2 class="text-2xl font-bold">{instance()!.displayName}</h2>
@@ -46,66 +67,20 @@ export function InstanceDetail(props: InstanceDetailProps) {
 
           <div class="border-b border-gray-200">
             <nav class="flex">
-              <button
-                onClick={() => setActiveTab('overview')}
-                class={`px-6 py-3 font-medium text-sm border-b-2 ${
-                  activeTab() === 'overview'
-                    ? 'border-blue-600 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Overview
-              </button>
-              <button
-                onClick={() => setActiveTab('health')}
-                class={`px-6 py-3 font-medium text-sm border-b-2 ${
-                  activeTab() === 'health'
-                    ? 'border-blue-600 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Health
-              </button>
-              <button
-                onClick={() => setActiveTab('config')}
-                class={`px-6 py-3 font-medium text-sm border-b-2 ${
-                  activeTab() === 'config'
-                    ? 'border-blue-600 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Configuration
-              </button>
-              <button
-                onClick={() => setActiveTab('logs')}
-                class={`px-6 py-3 font-medium text-sm border-b-2 ${
-                  activeTab() === 'logs'
-                    ? 'border-blue-600 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Logs
-              </button>
-              <button
-                onClick={() => setActiveTab('backups')}
-                class={`px-6 py-3 font-medium text-sm border-b-2 ${
-                  activeTab() === 'backups'
-                    ? 'border-blue-600 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Backups
-              </button>
-              <button
-                onClick={() => setActiveTab('version')}
-                class={`px-6 py-3 font-medium text-sm border-b-2 ${
-                  activeTab() === 'version'
-                    ? 'border-blue-600 text-blue-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Version
-              </button>
+              <For each={TABS}>
+                {(tab) => (
+                  <button
+                    onClick={() => navigate(`/instances/${params.id}/${tab.id}`)}
+                    class={`px-6 py-3 font-medium text-sm border-b-2 ${
+                      activeTab() === tab.id
+                        ? 'border-blue-600 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                )}
+              </For>
             </nav>
           </div>
 
@@ -140,6 +115,13 @@ export function InstanceDetail(props: InstanceDetailProps) {
               </div>
             </Show>
 
+            <Show when={activeTab() === 'provisioning'}>
+              <ProvisioningTimeline
+                instanceId={instance()!.id}
+                onRetried={() => instanceStore.fetchInstanceDetail(params.id)}
+              />
+            </Show>
+
             <Show when={activeTab() === 'health'}>
               <Show
                 when={instance()!.health}
@@ -184,48 +166,20 @@ export function InstanceDetail(props: InstanceDetailProps) {
                   </Show>
                 </div>
               </Show>
+              <div class="mt-6">
+                <UptimeHistory instanceId={instance()!.id} />
+              </div>
             </Show>
 
             <Show when={activeTab() === 'config'}>
               <div class="space-y-6">
-                <ResourceLimitsEditor
-                  instanceId={instance()!.id}
-                  initialLimits={instance()!.resourceLimits}
-                />
-                <FeatureFlagsEditor
-                  instanceId={instance()!.id}
-                  initialFlags={instance()!.featureFlags}
-                />
+                <ResourceLimitsEditor instanceId={instance()!.id} />
+                <FeatureFlagsEditor instanceId={instance()!.id} />
               </div>
             </Show>
 
             <Show when={activeTab() === 'logs'}>
-              <Show
-                when={instanceStore.logs.length > 0}
-                fallback={<p class="text-gray-500">No logs available</p>}
-              >
-                <div class="bg-gray-900 text-gray-100 p-4 rounded font-mono text-xs overflow-auto max-h-96">
-                  <For each={instanceStore.logs}>
-                    {(log) => (
-                      <div class="mb-1">
-                        <span class="text-gray-500">{log.timestamp}</span>{' '}
-                        <span
-                          class={
-                            log.level === 'Error'
-                              ? 'text-red-400'
-                              : log.level === 'Warning'
-                              ? 'text-yellow-400'
-                              : 'text-blue-400'
-                          }
-                        >
-                          [{log.level}]
-                        </span>{' '}
-                        <span class="text-gray-400">{log.source}:</span> {log.message}
-                      </div>
-                    )}
-                  </For>
-                </div>
-              </Show>
+              <LogViewer instanceId={instance()!.id} domain={instance()!.domain} />
             </Show>
 
             <Show when={activeTab() === 'backups'}>
@@ -1,8 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
+import { useLocation } from '@solidjs/router';
 import { InstanceList } from './InstanceList';
 import { useInstances } from '../stores/instance.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
 
 const INSTANCES_PATH = '/api/v1/admin/instances';
 const ROLLOUTS_PATH = '/api/v1/admin/upgrades';
@@ -16,6 +18,8 @@ const sampleInstance = {
   tier: 'Pro',
   mediaEnabled: false,
   createdAt: '2026-01-01T00:00:00Z',
+  deployedImage: 'registry.xcord.net/xcord-fed:1.4.2',
+  health: 'healthy',
 };
 
 describe('InstanceList', () => {
@@ -28,9 +32,7 @@ describe('InstanceList', () => {
       [`GET ${INSTANCES_PATH}`]: () => ({ instances: [], total: 0 }),
       [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
     });
-    const { getByText } = render(() => (
-      <InstanceList onSelectInstance={() => {}} onProvisionNew={() => {}} />
-    ));
+    const { getByText } = renderWithRouter(() => <InstanceList />, { path: '/instances' });
     expect(getByText('Instances')).toBeInTheDocument();
     expect(getByText('Provision New Instance')).toBeInTheDocument();
   });
@@ -40,9 +42,7 @@ describe('InstanceList', () => {
       [`GET ${INSTANCES_PATH}`]: () => ({ instances: [], total: 0 }),
       [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
     });
-    const { getByText } = render(() => (
-      <InstanceList onSelectInstance={() => {}} onProvisionNew={() => {}} />
-    ));
+    const { getByText } = renderWithRouter(() => <InstanceList />, { path: '/instances' });
     expect(getByText('Loading...')).toBeInTheDocument();
   });
 
@@ -51,9 +51,7 @@ describe('InstanceList', () => {
       [`GET ${INSTANCES_PATH}`]: () => ({ instances: [], total: 0 }),
       [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
     });
-    const { findByText } = render(() => (
-      <InstanceList onSelectInstance={() => {}} onProvisionNew={() => {}} />
-    ));
+    const { findByText } = renderWithRouter(() => <InstanceList />, { path: '/instances' });
     expect(await findByText('No instances found')).toBeInTheDocument();
   });
 
@@ -62,37 +60,211 @@ describe('InstanceList', () => {
       [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 1 }),
       [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
     });
-    const { findByText } = render(() => (
-      <InstanceList onSelectInstance={() => {}} onProvisionNew={() => {}} />
-    ));
+    const { findByText } = renderWithRouter(() => <InstanceList />, { path: '/instances' });
     expect(await findByText('foo')).toBeInTheDocument();
     expect(await findByText('Foo Server')).toBeInTheDocument();
   });
 
-  it('clicking a row triggers onSelectInstance with id', async () => {
+  it('clicking a row navigates to the instance detail route', async () => {
     mockFetch({
       [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 1 }),
       [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
     });
-    const onSelect = vi.fn();
-    const { findByText } = render(() => (
-      <InstanceList onSelectInstance={onSelect} onProvisionNew={() => {}} />
-    ));
+    let location!: ReturnType<typeof useLocation>;
+    const { findByText } = renderWithRouter(() => {
+      location = useLocation();
+      return <InstanceList />;
+    }, { path: '/instances' });
     const row = await findByText('foo');
     fireEvent.click(row);
-    expect(onSelect).toHaveBeenCalledWith('i-1');
+    await waitFor(() => expect(location.pathname).toBe('/instances/i-1'));
   });
 
-  it('Provision New button invokes onProvisionNew', async () => {
+  it('Provision New button navigates to the provision route', async () => {
     mockFetch({
       [`GET ${INSTANCES_PATH}`]: () => ({ instances: [], total: 0 }),
       [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
     });
-    const onProvision = vi.fn();
-    const { getByText } = render(() => (
-      <InstanceList onSelectInstance={() => {}} onProvisionNew={onProvision} />
-    ));
+    let location!: ReturnType<typeof useLocation>;
+    const { getByText } = renderWithRouter(() => {
+      location = useLocation();
+      return <InstanceList />;
+    }, { path: '/instances' });
     fireEvent.click(getByText('Provision New Instance'));
-    await waitFor(() => expect(onProvision).toHaveBeenCalled());
+    await waitFor(() => expect(location.pathname).toBe('/instances/new'));
+  });
+
+  it('loads the page and status filter from the URL', async () => {
+    const { calls } = mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 60 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    renderWithRouter(() => <InstanceList />, { path: '/instances?page=2&status=Running' });
+    await waitFor(() =>
+      expect(calls.some(c => c.url === `${INSTANCES_PATH}?page=2&pageSize=20&status=Running`)).toBe(true),
+    );
+    expect(useInstances().filters.status).toBe('Running');
+  });
+
+  it('writes the status filter into the URL', async () => {
+    mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 1 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    let location!: ReturnType<typeof useLocation>;
+    const { findByText, getAllByRole } = renderWithRouter(() => {
+      location = useLocation();
+      return <InstanceList />;
+    }, { path: '/instances?page=3' });
+    await findByText('foo');
+    fireEvent.click(getAllByRole('button').find(b => b.textContent === 'Suspended')!);
+    await waitFor(() => expect(location.search).toBe('?status=Suspended'));
+  });
+
+  it('sends search, filters and sort order from the URL to the API', async () => {
+    const { calls } = mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 1 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    const { getByLabelText } = renderWithRouter(() => <InstanceList />, {
+      path: '/instances?search=alice&tier=Pro&media=true&version=1.4&health=unhealthy&sort=owner&dir=desc&bogus=1',
+    });
+    await waitFor(() => expect(calls.some(c => c.url.startsWith(INSTANCES_PATH))).toBe(true));
+    const query = new URLSearchParams(calls.find(c => c.url.startsWith(INSTANCES_PATH))!.url.split('?')[1]);
+    expect(Object.fromEntries(query)).toEqual({
+      page: '1',
+      pageSize: '20',
+      search: 'alice',
+      tier: 'Pro',
+      mediaEnabled: 'true',
+      version: '1.4',
+      health: 'unhealthy',
+      sortBy: 'owner',
+      sortDir: 'desc',
+    });
+    expect(getByLabelText('Search instances')).toHaveValue('alice');
+  });
+
+  it('ignores unknown filter values in the URL', async () => {
+    const { calls } = mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [], total: 0 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    renderWithRouter(() => <InstanceList />, { path: '/instances?tier=Gold&health=sick&sort=color&from=yesterday' });
+    await waitFor(() =>
+      expect(calls.some(c => c.url === `${INSTANCES_PATH}?page=1&pageSize=20`)).toBe(true),
+    );
+  });
+
+  it('sends the created date range as whole local days', async () => {
+    const { calls } = mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [], total: 0 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    renderWithRouter(() => <InstanceList />, { path: '/instances?from=2026-03-01&to=2026-03-31' });
+    await waitFor(() => expect(calls.some(c => c.url.startsWith(INSTANCES_PATH))).toBe(true));
+    const query = new URLSearchParams(calls.find(c => c.url.startsWith(INSTANCES_PATH))!.url.split('?')[1]);
+    expect(query.get('createdFrom')).toBe(new Date(2026, 2, 1).toISOString());
+    expect(query.get('createdTo')).toBe(new Date(2026, 3, 1).toISOString());
+  });
+
+  it('rejects a created range whose start is after its end without fetching', async () => {
+    const { calls } = mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [], total: 0 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    const { findByText } = renderWithRouter(() => <InstanceList />, { path: '/instances?from=2026-03-31&to=2026-03-01' });
+    expect(await findByText('The start date must not be after the end date')).toBeInTheDocument();
+    expect(calls.filter(c => c.url.startsWith(`${INSTANCES_PATH}?`))).toHaveLength(0);
+  });
+
+  it('writes the search term into the URL and resets the page', async () => {
+    mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 1 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    let location!: ReturnType<typeof useLocation>;
+    const { findByText, getByLabelText, getByText } = renderWithRouter(() => {
+      location = useLocation();
+      return <InstanceList />;
+    }, { path: '/instances?page=2' });
+    await findByText('foo');
+    fireEvent.input(getByLabelText('Search instances'), { target: { value: '  alice ' } });
+    fireEvent.click(getByText('Search'));
+    await waitFor(() => expect(location.search).toBe('?search=alice'));
+  });
+
+  it('writes plan and health filters into the URL and clears them', async () => {
+    mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 1 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    let location!: ReturnType<typeof useLocation>;
+    const { findByText, getByLabelText } = renderWithRouter(() => {
+      location = useLocation();
+      return <InstanceList />;
+    }, { path: '/instances?sort=owner' });
+    await findByText('foo');
+    fireEvent.change(getByLabelText('Plan'), { target: { value: 'Pro' } });
+    await waitFor(() => expect(new URLSearchParams(location.search).get('tier')).toBe('Pro'));
+    fireEvent.change(getByLabelText('Health'), { target: { value: 'unknown' } });
+    await waitFor(() => expect(new URLSearchParams(location.search).get('health')).toBe('unknown'));
+
+    fireEvent.click(await findByText('Clear filters'));
+    await waitFor(() => expect(location.search).toBe('?sort=owner'));
+  });
+
+  it('sorts by a column and toggles the direction on a second click', async () => {
+    mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 1 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    let location!: ReturnType<typeof useLocation>;
+    const { findByText, getByRole } = renderWithRouter(() => {
+      location = useLocation();
+      return <InstanceList />;
+    }, { path: '/instances' });
+    await findByText('foo');
+    expect(getByRole('columnheader', { name: /Created/ })).toHaveAttribute('aria-sort', 'descending');
+
+    fireEvent.click(getByRole('button', { name: /Owner/ }));
+    await waitFor(() => expect(location.search).toBe('?sort=owner&dir=asc'));
+    await findByText('foo');
+    expect(getByRole('columnheader', { name: /Owner/ })).toHaveAttribute('aria-sort', 'ascending');
+
+    fireEvent.click(getByRole('button', { name: /Owner/ }));
+    await waitFor(() => expect(location.search).toBe('?sort=owner&dir=desc'));
+  });
+
+  it('shows the deployed image tag and health of each instance', async () => {
+    mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance], total: 1 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    const { findByText, getByText } = renderWithRouter(() => <InstanceList />, { path: '/instances' });
+    expect(await findByText('1.4.2')).toHaveAttribute('title', 'registry.xcord.net/xcord-fed:1.4.2');
+    expect(getByText('healthy')).toBeInTheDocument();
+  });
+
+  it('selects instances for bulk actions without opening them', async () => {
+    const second = { ...sampleInstance, id: 'i-2', subdomain: 'bar' };
+    mockFetch({
+      [`GET ${INSTANCES_PATH}`]: () => ({ instances: [sampleInstance, second], total: 2 }),
+      [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }),
+    });
+    let location!: ReturnType<typeof useLocation>;
+    const { findByLabelText, getByLabelText, getByText, queryByTestId } = renderWithRouter(() => {
+      location = useLocation();
+      return <InstanceList />;
+    }, { path: '/instances' });
+
+    fireEvent.click(await findByLabelText('Select foo'));
+    expect(getByText('1 selected')).toBeInTheDocument();
+    expect(location.pathname).toBe('/instances');
+
+    fireEvent.click(getByLabelText('Select all instances on this page'));
+    expect(getByText('2 selected')).toBeInTheDocument();
+    fireEvent.click(getByLabelText('Select all instances on this page'));
+    expect(queryByTestId('bulk-actions')).not.toBeInTheDocument();
   });
 });
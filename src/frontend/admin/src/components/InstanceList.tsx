@@ -1,37 +1,185 @@
-import { For, Show, createEffect, createSignal, onMount } from 'solid-js';
+import { For, Show, createEffect, createMemo, createSignal, untrack } from 'solid-js';
+import { useNavigate, useSearchParams } from '@solidjs/router';
 import { useInstances } from '../stores/instance.store';
-import { InstanceStatus } from '../types/instance';
+import { InstanceHealthState, InstanceStatus, InstanceTier } from '../types/instance';
+import type { InstanceFilters, InstanceSortField } from '../types/instance';
 import { FleetUpgrade } from './FleetUpgrade';
 import { RolloutStatus } from './RolloutStatus';
+import { BulkActions } from './BulkActions';
+import { useBulkActions } from '../stores/bulk.store';
+import type { BulkTarget } from '../types/bulk';
 
-interface InstanceListProps {
-  onSelectInstance: (id: string) => void;
-  onProvisionNew: () => void;
+type SearchParams = {
+  page?: string;
+  search?: string;
+  status?: string;
+  tier?: string;
+  media?: string;
+  version?: string;
+  health?: string;
+  from?: string;
+  to?: string;
+  sort?: string;
+  dir?: string;
+};
+
+const SORT_FIELDS: InstanceSortField[] = ['subdomain', 'displayName', 'owner', 'status', 'tier', 'image', 'createdAt'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const oneOf = <T extends string>(values: readonly T[], value: string | undefined): T | undefined =>
+  (values as readonly string[]).includes(value ?? '') ? (value as T) : undefined;
+
+// Drops unknown or malformed values so a hand-edited link never reaches the API
+function parseFilters(params: SearchParams): InstanceFilters {
+  return {
+    search: params.search?.trim() || undefined,
+    status: oneOf(Object.values(InstanceStatus), params.status),
+    tier: oneOf(Object.values(InstanceTier), params.tier),
+    mediaEnabled: params.media === 'true' ? true : params.media === 'false' ? false : undefined,
+    version: params.version?.trim() || undefined,
+    health: oneOf(InstanceHealthState, params.health),
+    createdFrom: DATE_PATTERN.test(params.from ?? '') ? params.from : undefined,
+    createdTo: DATE_PATTERN.test(params.to ?? '') ? params.to : undefined,
+    sortBy: oneOf(SORT_FIELDS, params.sort),
+    sortDir: oneOf(['asc', 'desc'] as const, params.dir),
+  };
 }
 
-export function InstanceList(props: InstanceListProps) {
+export function InstanceList() {
   const instanceStore = useInstances();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams<SearchParams>();
   const [fleetUpgradeOpen, setFleetUpgradeOpen] = createSignal(false);
+  const [searchDraft, setSearchDraft] = createSignal('');
+  // Kept across pages and filter changes so a selection can be built up from several searches
+  const [selected, setSelected] = createSignal<BulkTarget[]>([]);
+  const bulk = useBulkActions();
 
-  onMount(() => {
-    instanceStore.fetchInstances();
+  // The URL is the source of truth for paging, search, filtering and sorting
+  // so that a refresh, a pasted link or back/forward all land on the same view.
+  const currentPage = () => Math.max(1, Number(searchParams.page) || 1);
+  const currentFilters = createMemo(() => parseFilters({ ...searchParams }), undefined, {
+    equals: (a, b) => JSON.stringify(a) === JSON.stringify(b),
   });
+  const rangeError = () => {
+    const { createdFrom, createdTo } = currentFilters();
+    return createdFrom && createdTo && createdFrom > createdTo
+      ? 'The start date must not be after the end date'
+      : null;
+  };
 
   createEffect(() => {
-    instanceStore.fetchInstances();
+    const filters = currentFilters();
+    const page = currentPage();
+    setSearchDraft(filters.search ?? '');
+    if (rangeError()) return;
+    untrack(() => {
+      instanceStore.setFilters(filters);
+      instanceStore.setPage(page);
+      instanceStore.fetchInstances();
+    });
   });
 
   const totalPages = () => Math.ceil(instanceStore.total / instanceStore.pageSize);
 
+  // Any change to what is shown starts again from the first page
+  const updateFilters = (changes: Partial<SearchParams>) => {
+    setSearchParams({ ...changes, page: undefined });
+  };
+
+  const hasFilters = () => {
+    const { sortBy, sortDir, ...filters } = currentFilters();
+    return Object.values(filters).some((value) => value !== undefined);
+  };
+
+  const clearFilters = () => {
+    updateFilters({
+      search: undefined,
+      status: undefined,
+      tier: undefined,
+      media: undefined,
+      version: undefined,
+      health: undefined,
+      from: undefined,
+      to: undefined,
+    });
+  };
+
+  const setStatusFilter = (status: InstanceStatus | null) => {
+    updateFilters({ status: status ?? undefined });
+  };
+
+  const handleSearch = (e: Event) => {
+    e.preventDefault();
+    updateFilters({ search: searchDraft().trim() || undefined });
+  };
+
+  // Newest first unless the admin picks another column
+  const sortField = () => currentFilters().sortBy ?? 'createdAt';
+  const sortDir = () => currentFilters().sortDir ?? (currentFilters().sortBy ? 'asc' : 'desc');
+
+  const handleSort = (field: InstanceSortField) => {
+    const dir = sortField() === field
+      ? (sortDir() === 'asc' ? 'desc' : 'asc')
+      : (field === 'createdAt' ? 'desc' : 'asc');
+    if (field === 'createdAt' && dir === 'desc') {
+      updateFilters({ sort: undefined, dir: undefined });
+    } else {
+      updateFilters({ sort: field, dir });
+    }
+  };
+
+  const isSelected = (id: string) => selected().some((t) => t.id === id);
+
+  const toggleSelected = (target: BulkTarget) => {
+    setSelected((current) =>
+      isSelected(target.id) ? current.filter((t) => t.id !== target.id) : [...current, target]);
+  };
+
+  const allOnPageSelected = () =>
+    instanceStore.instances.length > 0 && instanceStore.instances.every((i) => isSelected(i.id));
+
+  const toggleAllOnPage = () => {
+    const onPage = instanceStore.instances.map((i) => ({ id: i.id, subdomain: i.subdomain }));
+    setSelected((current) => allOnPageSelected()
+      ? current.filter((t) => !onPage.some((i) => i.id === t.id))
+      : [...current, ...onPage.filter((i) => !isSelected(i.id))]);
+  };
+
   const handlePrevPage = () => {
-    if (instanceStore.page > 1) {
-      instanceStore.setPage(instanceStore.page - 1);
+    if (currentPage() > 1) {
+      setSearchParams({ page: currentPage() - 1 > 1 ? String(currentPage() - 1) : undefined });
     }
   };
 
   const handleNextPage = () => {
-    if (instanceStore.page < totalPages()) {
-      instanceStore.setPage(instanceStore.page + 1);
+    if (currentPage() < totalPages()) {
+      setSearchParams({ page: String(currentPage() + 1) });
+    }
+  };
+
+  const SortHeader = (props: { field: InstanceSortField; label: string }) => (
+    <th
+      class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase"
+      aria-sort={sortField() === props.field ? (sortDir() === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button onClick={() => handleSort(props.field)} class="uppercase hover:text-gray-700">
+        {props.label}
+        <Show when={sortField() === props.field}>
+          <span aria-hidden="true">{sortDir() === 'asc' ? ' ▲' : ' ▼'}</span>
+        </Show>
+      </button>
+    </th>
+  );
+
+  const getHealthColor = (health: string) => {
+    switch (health) {
+      case 'healthy':
+        return 'bg-green-100 text-green-800';
+      case 'unhealthy':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
     }
   };
 
@@ -74,7 +222,7 @@ export function InstanceList(props: InstanceListProps) {
               Fleet Upgrade
             </button>
             <button
-              onClick={props.onProvisionNew}
+              onClick={() => navigate('/instances/new')}
               class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
             >
               Provision New Instance
@@ -84,9 +232,9 @@ export function InstanceList(props: InstanceListProps) {
 
         <div class="mt-4 flex gap-2">
           <button
-            onClick={() => instanceStore.setStatusFilter(null)}
+            onClick={() => setStatusFilter(null)}
             class={`px-3 py-1 rounded text-sm ${
-              !instanceStore.statusFilter
+              !currentFilters().status
                 ? 'bg-blue-600 text-white'
                 : 'bg-gray-100 hover:bg-gray-200'
             }`}
@@ -96,9 +244,9 @@ export function InstanceList(props: InstanceListProps) {
           <For each={Object.values(InstanceStatus)}>
             {(status) => (
               <button
-                onClick={() => instanceStore.setStatusFilter(status)}
+                onClick={() => setStatusFilter(status)}
                 class={`px-3 py-1 rounded text-sm ${
-                  instanceStore.statusFilter === status
+                  currentFilters().status === status
                     ? 'bg-blue-600 text-white'
                     : 'bg-gray-100 hover:bg-gray-200'
                 }`}
@@ -108,6 +256,104 @@ export function InstanceList(props: InstanceListProps) {
             )}
           </For>
         </div>
+
+        <div class="mt-4 flex flex-wrap items-end gap-3 text-sm">
+          <form onSubmit={handleSearch} class="flex gap-2">
+            <input
+              type="search"
+              aria-label="Search instances"
+              placeholder="Subdomain, name or owner"
+              value={searchDraft()}
+              onInput={(e) => setSearchDraft(e.currentTarget.value)}
+              class="px-3 py-1 border border-gray-300 rounded w-64"
+            />
+            <button type="submit" class="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">
+              Search
+            </button>
+          </form>
+          <label>
+            <span class="block text-gray-600">Plan</span>
+            <select
+              value={currentFilters().tier ?? ''}
+              onChange={(e) => updateFilters({ tier: e.currentTarget.value || undefined })}
+              class="px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="">All plans</option>
+              <For each={Object.values(InstanceTier)}>{(tier) => <option value={tier}>{tier}</option>}</For>
+            </select>
+          </label>
+          <label>
+            <span class="block text-gray-600">Media</span>
+            <select
+              value={currentFilters().mediaEnabled === undefined ? '' : String(currentFilters().mediaEnabled)}
+              onChange={(e) => updateFilters({ media: e.currentTarget.value || undefined })}
+              class="px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="">Any</option>
+              <option value="true">With media</option>
+              <option value="false">Without media</option>
+            </select>
+          </label>
+          <label>
+            <span class="block text-gray-600">Health</span>
+            <select
+              value={currentFilters().health ?? ''}
+              onChange={(e) => updateFilters({ health: e.currentTarget.value || undefined })}
+              class="px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="">Any</option>
+              <option value="healthy">Healthy</option>
+              <option value="unhealthy">Unhealthy</option>
+              <option value="unknown">Unknown</option>
+            </select>
+          </label>
+          <label>
+            <span class="block text-gray-600">Version</span>
+            <input
+              type="text"
+              placeholder="e.g. 1.4"
+              value={currentFilters().version ?? ''}
+              onChange={(e) => updateFilters({ version: e.currentTarget.value.trim() || undefined })}
+              class="px-2 py-1 border border-gray-300 rounded w-28"
+            />
+          </label>
+          <label>
+            <span class="block text-gray-600">Created from</span>
+            <input
+              type="date"
+              value={currentFilters().createdFrom ?? ''}
+              onChange={(e) => updateFilters({ from: e.currentTarget.value || undefined })}
+              class="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label>
+            <span class="block text-gray-600">Created to</span>
+            <input
+              type="date"
+              value={currentFilters().createdTo ?? ''}
+              onChange={(e) => updateFilters({ to: e.currentTarget.value || undefined })}
+              class="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <Show when={hasFilters()}>
+            <button onClick={clearFilters} class="px-3 py-1 rounded text-blue-600 hover:bg-blue-50">
+              Clear filters
+            </button>
+          </Show>
+        </div>
+        <Show when={rangeError()}>
+          <p class="mt-2 text-sm text-red-600">{rangeError()}</p>
+        </Show>
+
+        <Show when={selected().length > 0 || bulk.results.length > 0}>
+          <div class="mt-4">
+            <BulkActions
+              selected={selected()}
+              onClearSelection={() => setSelected([])}
+              onComplete={() => instanceStore.fetchInstances()}
+            />
+          </div>
+        </Show>
       </div>
 
       <Show when={!instanceStore.isLoading} fallback={<div class="p-6 text-center">Loading...</div>}>
@@ -118,33 +364,41 @@ export function InstanceList(props: InstanceListProps) {
           <table class="w-full">
             <thead class="bg-gray-50 border-b border-gray-200">
               <tr>
-                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Subdomain
-                </th>
-                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Display Name
-                </th>
-                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Owner
-                </th>
-                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Status
+                <th class="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all instances on this page"
+                    checked={allOnPageSelected()}
+                    onChange={toggleAllOnPage}
+                  />
                 </th>
+                <SortHeader field="subdomain" label="Subdomain" />
+                <SortHeader field="displayName" label="Display Name" />
+                <SortHeader field="owner" label="Owner" />
+                <SortHeader field="status" label="Status" />
+                <SortHeader field="tier" label="Plan" />
+                <SortHeader field="image" label="Image" />
                 <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Plan
-                </th>
-                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Created
+                  Health
                 </th>
+                <SortHeader field="createdAt" label="Created" />
               </tr>
             </thead>
             <tbody class="divide-y divide-gray-200">
               <For each={instanceStore.instances}>
                 {(instance) => (
                   <tr
-                    onClick={() => props.onSelectInstance(instance.id)}
+                    onClick={() => navigate(`/instances/${instance.id}`)}
                     class="hover:bg-gray-50 cursor-pointer"
                   >
+                    <td class="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${instance.subdomain}`}
+                        checked={isSelected(instance.id)}
+                        onChange={() => toggleSelected({ id: instance.id, subdomain: instance.subdomain })}
+                      />
+                    </td>
                     <td class="px-6 py-4 text-sm font-medium">{instance.subdomain}</td>
                     <td class="px-6 py-4 text-sm">{instance.displayName}</td>
                     <td class="px-6 py-4 text-sm">{instance.ownerUsername}</td>
@@ -154,6 +408,14 @@ export function InstanceList(props: InstanceListProps) {
                       </span>
                     </td>
                     <td class="px-6 py-4 text-sm">{instance.tier}{instance.mediaEnabled ? ' + Media' : ''}</td>
+                    <td class="px-6 py-4 text-sm font-mono" title={instance.deployedImage ?? undefined}>
+                      {instance.deployedImage?.split(':').pop() ?? '—'}
+                    </td>
+                    <td class="px-6 py-4">
+                      <span class={`px-2 py-1 text-xs rounded ${getHealthColor(instance.health)}`}>
+                        {instance.health}
+                      </span>
+                    </td>
                     <td class="px-6 py-4 text-sm">
                       {new Date(instance.createdAt).toLocaleDateString()}
                     </td>
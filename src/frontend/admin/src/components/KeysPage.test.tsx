@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent, render, waitFor } from '@solidjs/testing-library';
+import { KeysPage } from './KeysPage';
+import { useKeys } from '../stores/keys.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { KeyRotation, KeyStatus } from '../types/keys';
+
+const KEYS_PATH = '/api/v1/admin/keys';
+const ROTATE_PATH = '/api/v1/admin/keys/rotate';
+
+const pastRotation: KeyRotation = {
+  id: '100',
+  fromVersion: 1,
+  toVersion: 2,
+  status: 'Completed',
+  valuesToReEncrypt: 12,
+  valuesReEncrypted: 12,
+  error: null,
+  initiatedBy: 'admin',
+  startedAt: '2026-09-01T10:00:00Z',
+  completedAt: '2026-09-01T10:01:00Z',
+};
+
+const status: KeyStatus = {
+  activeVersion: 2,
+  activeVersionCreatedAt: '2026-09-01T10:00:00Z',
+  kekConfigured: true,
+  outdatedValueCount: 3,
+  versions: [
+    { version: 2, isActive: true, createdAt: '2026-09-01T10:00:00Z', valueCount: 9 },
+    { version: 1, isActive: false, createdAt: '2026-02-01T10:00:00Z', valueCount: 3 },
+  ],
+  usage: [
+    { location: 'hub_users.Email', version: 1, valueCount: 3 },
+    { location: 'hub_users.Email', version: 2, valueCount: 9 },
+  ],
+  currentRotation: null,
+  history: [pastRotation],
+};
+
+const reEncrypting: KeyRotation = {
+  ...pastRotation,
+  id: '200',
+  fromVersion: 2,
+  toVersion: 3,
+  status: 'ReEncrypting',
+  valuesToReEncrypt: 40,
+  valuesReEncrypted: 10,
+  completedAt: null,
+};
+
+describe('KeysPage', () => {
+  beforeEach(() => {
+    useKeys().reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows the active key version and how many values are still on older versions', async () => {
+    mockFetch({ [`GET ${KEYS_PATH}`]: () => status });
+    const { findByTestId, getByTestId, getAllByText } = render(() => <KeysPage />);
+    expect((await findByTestId('active-version')).textContent).toBe('v2');
+    expect(getByTestId('active-created-at').textContent).toBe(new Date('2026-09-01T10:00:00Z').toLocaleString());
+    expect(getByTestId('outdated-count').textContent).toBe('3');
+    expect(getByTestId('key-version-1')).toHaveTextContent('3');
+    expect(getAllByText('User emails')).toHaveLength(2);
+  });
+
+  it('lists past rotations', async () => {
+    mockFetch({
+      [`GET ${KEYS_PATH}`]: () => ({
+        ...status,
+        history: [{ ...pastRotation, id: '101', status: 'Failed', error: 'Decryption failed' }, pastRotation],
+      }),
+    });
+    const { findByTestId, getByTestId } = render(() => <KeysPage />);
+    expect(await findByTestId('rotation-101')).toHaveTextContent('Decryption failed');
+    expect(getByTestId('rotation-100')).toHaveTextContent('v1 → v2');
+    expect(getByTestId('rotation-100')).toHaveTextContent('12/12');
+    expect(getByTestId('rotation-100')).toHaveTextContent('admin');
+  });
+
+  it('requires typing the confirmation word before rotating', async () => {
+    const { calls } = mockFetch({
+      [`GET ${KEYS_PATH}`]: () => status,
+      [`POST ${ROTATE_PATH}`]: () => ({ newVersion: 3, rotationId: '200' }),
+    });
+    const { findByText, getByText, getByLabelText } = render(() => <KeysPage />);
+    fireEvent.click(await findByText('Rotate Key'));
+
+    const confirm = getByText('Confirm Rotation');
+    expect(confirm).toBeDisabled();
+    fireEvent.input(getByLabelText('Type ROTATE to confirm'), { target: { value: 'rotate' } });
+    expect(confirm).toBeDisabled();
+    fireEvent.input(getByLabelText('Type ROTATE to confirm'), { target: { value: 'ROTATE' } });
+    expect(confirm).not.toBeDisabled();
+
+    fireEvent.click(confirm);
+    expect(await findByText('Rotated to key version 3')).toBeInTheDocument();
+    expect(calls.filter((c) => c.method === 'POST')).toHaveLength(1);
+    expect(calls.filter((c) => c.method === 'GET')).toHaveLength(2);
+  });
+
+  it('shows the backend error when rotation is rejected', async () => {
+    mockFetch({
+      [`GET ${KEYS_PATH}`]: () => status,
+      [`POST ${ROTATE_PATH}`]: () => ({
+        status: 409,
+        body: { title: 'KEY_ROTATION_IN_PROGRESS', detail: 'A previous rotation is still re-encrypting data.' },
+      }),
+    });
+    const { findByText, getByText, getByLabelText } = render(() => <KeysPage />);
+    fireEvent.click(await findByText('Rotate Key'));
+    fireEvent.input(getByLabelText('Type ROTATE to confirm'), { target: { value: 'ROTATE' } });
+    fireEvent.click(getByText('Confirm Rotation'));
+    expect(await findByText('A previous rotation is still re-encrypting data.')).toBeInTheDocument();
+  });
+
+  it('disables rotation when no key-encryption key is configured', async () => {
+    mockFetch({ [`GET ${KEYS_PATH}`]: () => ({ ...status, kekConfigured: false }) });
+    const { findByText } = render(() => <KeysPage />);
+    expect(await findByText(/No key-encryption key is configured/)).toBeInTheDocument();
+    expect(await findByText('Rotate Key')).toBeDisabled();
+  });
+
+  it('polls re-encryption progress until the rotation completes', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    let current: KeyStatus = { ...status, currentRotation: reEncrypting, history: [reEncrypting, pastRotation] };
+    const { calls } = mockFetch({ [`GET ${KEYS_PATH}`]: () => current });
+    const { findByTestId, getByText, queryByTestId } = render(() => <KeysPage />);
+
+    expect(await findByTestId('rotation-progress')).toHaveTextContent('10 of 40 values (25%)');
+    expect(getByText('Rotate Key')).toBeDisabled();
+
+    current = { ...status, currentRotation: null, history: [{ ...reEncrypting, status: 'Completed', valuesReEncrypted: 40 }] };
+    vi.advanceTimersByTime(3_000);
+    await waitFor(() => expect(queryByTestId('rotation-progress')).not.toBeInTheDocument());
+    expect(calls).toHaveLength(2);
+
+    vi.advanceTimersByTime(30_000);
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,345 @@
+import { For, Show, createEffect, createSignal, onCleanup, onMount } from 'solid-js';
+import { useKeys } from '../stores/keys.store';
+import type { KeyRotation } from '../types/keys';
+import { ReasonField } from './ReasonField';
+
+const REFRESH_INTERVAL_MS = 3_000;
+
+// Typing this exact word arms the rotate button.
+const CONFIRMATION_WORD = 'ROTATE';
+
+const LOCATION_LABELS: Record<string, string> = {
+  'hub_users.Email': 'User emails',
+  'instance_infrastructure.DatabasePassword': 'Instance database passwords',
+  'instance_infrastructure.MinioSecretKey': 'Instance storage secret keys',
+  'instance_infrastructure.LiveKitSecretKey': 'Instance LiveKit secret keys',
+  'instance_infrastructure.RedisPassword': 'Instance Redis passwords',
+  'system_settings.EncryptedRsaPrivateKey': 'JWT signing key',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  ReEncrypting: 'Re-encrypting',
+  Completed: 'Completed',
+  Failed: 'Failed',
+};
+
+function rotationBadgeClass(status: string): string {
+  switch (status) {
+    case 'ReEncrypting':
+      return 'bg-blue-100 text-blue-800';
+    case 'Completed':
+      return 'bg-green-100 text-green-800';
+    case 'Failed':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+}
+
+function rotationPercent(rotation: KeyRotation): number {
+  if (rotation.valuesToReEncrypt === 0) return 100;
+  return Math.min(100, Math.floor((rotation.valuesReEncrypted / rotation.valuesToReEncrypt) * 100));
+}
+
+export function KeysPage() {
+  const keys = useKeys();
+  const [isConfirming, setIsConfirming] = createSignal(false);
+  const [confirmation, setConfirmation] = createSignal('');
+  const [reason, setReason] = createSignal('');
+  const [isRotating, setIsRotating] = createSignal(false);
+  const [rotateError, setRotateError] = createSignal<string | null>(null);
+  const [notice, setNotice] = createSignal<string | null>(null);
+
+  onMount(() => keys.fetch());
+
+  // Poll only while a rotation is re-encrypting so its progress stays live.
+  let refreshTimer: ReturnType<typeof setInterval> | undefined;
+  const stopRefresh = () => {
+    if (refreshTimer) clearInterval(refreshTimer);
+    refreshTimer = undefined;
+  };
+  onCleanup(stopRefresh);
+
+  createEffect(() => {
+    const inProgress = !!keys.status?.currentRotation;
+    if (inProgress && !refreshTimer) {
+      refreshTimer = setInterval(() => keys.fetch(), REFRESH_INTERVAL_MS);
+    } else if (!inProgress) {
+      stopRefresh();
+    }
+  });
+
+  const canRotate = () => !!keys.status?.kekConfigured && !keys.status?.currentRotation;
+
+  const closeConfirmation = () => {
+    setIsConfirming(false);
+    setConfirmation('');
+    setReason('');
+    setRotateError(null);
+  };
+
+  const handleRotate = async () => {
+    if (confirmation() !== CONFIRMATION_WORD) return;
+    setIsRotating(true);
+    setRotateError(null);
+    try {
+      const response = await keys.rotate(reason());
+      closeConfirmation();
+      setNotice(`Rotated to key version ${response.newVersion}`);
+    } catch (err) {
+      console.error('Failed to rotate data key:', err);
+      setRotateError((err as { detail?: string })?.detail ?? 'Failed to rotate the data key');
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <div class="space-y-6">
+      <div class="bg-white rounded-lg shadow">
+        <div class="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <p class="text-sm text-gray-500">Security</p>
+            <h2 class="text-xl font-semibold">Encryption Keys</h2>
+          </div>
+          <Show when={keys.status && !isConfirming()}>
+            <button
+              onClick={() => { setNotice(null); setIsConfirming(true); }}
+              disabled={!canRotate()}
+              class="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+            >
+              Rotate Key
+            </button>
+          </Show>
+        </div>
+
+        <Show when={notice()}>
+          <div class="mx-6 mt-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded text-sm">
+            {notice()}
+          </div>
+        </Show>
+
+        <Show when={keys.error}>
+          <div class="mx-6 mt-4 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">
+            {keys.error}
+          </div>
+        </Show>
+
+        <Show when={isConfirming()}>
+          <div data-testid="rotate-confirmation" class="m-6 border border-red-200 bg-red-50 rounded p-4 space-y-3">
+            <p class="text-sm text-red-800">
+              Rotating generates a new data key and re-encrypts every stored secret under it in the
+              background. Older keys stay available until re-encryption finishes.
+            </p>
+            <label for="rotate-confirmation-input" class="block text-sm font-medium text-gray-700">
+              Type {CONFIRMATION_WORD} to confirm
+            </label>
+            <input
+              id="rotate-confirmation-input"
+              type="text"
+              autocomplete="off"
+              value={confirmation()}
+              onInput={(e) => setConfirmation(e.currentTarget.value)}
+              class="w-48 px-3 py-2 border border-gray-300 rounded"
+            />
+            <ReasonField value={reason()} onInput={setReason} disabled={isRotating()} />
+            <Show when={rotateError()}>
+              <p class="text-sm text-red-600">{rotateError()}</p>
+            </Show>
+            <div class="flex gap-2">
+              <button
+                onClick={handleRotate}
+                disabled={confirmation() !== CONFIRMATION_WORD || isRotating()}
+                class="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+              >
+                {isRotating() ? 'Rotating...' : 'Confirm Rotation'}
+              </button>
+              <button
+                onClick={closeConfirmation}
+                disabled={isRotating()}
+                class="px-4 py-2 bg-gray-100 rounded hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </Show>
+
+        <Show when={!keys.isLoading} fallback={<div class="p-6 text-center">Loading...</div>}>
+          <Show when={keys.status}>
+            {(status) => (
+              <div class="p-6 space-y-6">
+                <Show when={!status().kekConfigured}>
+                  <div class="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded text-sm">
+                    No key-encryption key is configured, so the data key cannot be rotated. Configure
+                    Encryption:Kek to enable rotation.
+                  </div>
+                </Show>
+
+                <dl class="grid grid-cols-3 gap-4">
+                  <div class="border border-gray-200 rounded p-4">
+                    <dt class="text-sm text-gray-500">Active key version</dt>
+                    <dd data-testid="active-version" class="text-2xl font-semibold">v{status().activeVersion}</dd>
+                  </div>
+                  <div class="border border-gray-200 rounded p-4">
+                    <dt class="text-sm text-gray-500">Created</dt>
+                    <dd data-testid="active-created-at" class="text-lg">
+                      {status().activeVersionCreatedAt
+                        ? new Date(status().activeVersionCreatedAt!).toLocaleString()
+                        : 'Bootstrap key'}
+                    </dd>
+                  </div>
+                  <div class="border border-gray-200 rounded p-4">
+                    <dt class="text-sm text-gray-500">Values on older versions</dt>
+                    <dd
+                      data-testid="outdated-count"
+                      class={`text-2xl font-semibold ${status().outdatedValueCount > 0 ? 'text-yellow-700' : ''}`}
+                    >
+                      {status().outdatedValueCount}
+                    </dd>
+                  </div>
+                </dl>
+
+                <Show when={status().currentRotation}>
+                  {(rotation) => (
+                    <div data-testid="rotation-progress" class="border border-blue-200 bg-blue-50 rounded p-4">
+                      <div class="flex items-center justify-between text-sm">
+                        <span class="font-medium text-blue-900">
+                          Re-encrypting v{rotation().fromVersion} &rarr; v{rotation().toVersion}
+                        </span>
+                        <span class="text-blue-900">
+                          {rotation().valuesReEncrypted} of {rotation().valuesToReEncrypt} values ({rotationPercent(rotation())}%)
+                        </span>
+                      </div>
+                      <div
+                        role="progressbar"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={rotationPercent(rotation())}
+                        class="mt-2 h-2 bg-blue-100 rounded overflow-hidden"
+                      >
+                        <div class="h-full bg-blue-600" style={{ width: `${rotationPercent(rotation())}%` }} />
+                      </div>
+                    </div>
+                  )}
+                </Show>
+
+                <div class="grid grid-cols-2 gap-6">
+                  <div>
+                    <h3 class="text-sm font-medium text-gray-700 mb-2">Key versions</h3>
+                    <table class="w-full text-sm">
+                      <thead class="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                          <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
+                          <th class="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Values</th>
+                        </tr>
+                      </thead>
+                      <tbody class="divide-y divide-gray-200">
+                        <For each={status().versions}>
+                          {(version) => (
+                            <tr data-testid={`key-version-${version.version}`}>
+                              <td class="px-4 py-2">
+                                v{version.version}
+                                <Show when={version.isActive}>
+                                  <span class="ml-2 px-2 py-0.5 text-xs rounded bg-green-100 text-green-800">active</span>
+                                </Show>
+                              </td>
+                              <td class="px-4 py-2">
+                                {version.createdAt ? new Date(version.createdAt).toLocaleDateString() : '—'}
+                              </td>
+                              <td class="px-4 py-2 text-right">{version.valueCount}</td>
+                            </tr>
+                          )}
+                        </For>
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div>
+                    <h3 class="text-sm font-medium text-gray-700 mb-2">Encrypted data</h3>
+                    <Show
+                      when={status().usage.length > 0}
+                      fallback={<p class="text-sm text-gray-500">No encrypted values stored yet</p>}
+                    >
+                      <table class="w-full text-sm">
+                        <thead class="bg-gray-50 border-b border-gray-200">
+                          <tr>
+                            <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Data</th>
+                            <th class="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                            <th class="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Values</th>
+                          </tr>
+                        </thead>
+                        <tbody class="divide-y divide-gray-200">
+                          <For each={status().usage}>
+                            {(usage) => (
+                              <tr class={usage.version !== status().activeVersion ? 'text-yellow-700' : ''}>
+                                <td class="px-4 py-2">{LOCATION_LABELS[usage.location] ?? usage.location}</td>
+                                <td class="px-4 py-2">v{usage.version}</td>
+                                <td class="px-4 py-2 text-right">{usage.valueCount}</td>
+                              </tr>
+                            )}
+                          </For>
+                        </tbody>
+                      </table>
+                    </Show>
+                  </div>
+                </div>
+              </div>
+            )}
+          </Show>
+        </Show>
+      </div>
+
+      <Show when={keys.status}>
+        {(status) => (
+          <div class="bg-white rounded-lg shadow">
+            <div class="p-6 border-b border-gray-200">
+              <h3 class="text-lg font-semibold">Rotation History</h3>
+            </div>
+            <Show
+              when={status().history.length > 0}
+              fallback={<div class="p-6 text-center text-gray-500">The data key has never been rotated</div>}
+            >
+              <table class="w-full">
+                <thead class="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Started</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Versions</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Re-encrypted</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">By</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Completed</th>
+                  </tr>
+                </thead>
+                <tbody class="divide-y divide-gray-200">
+                  <For each={status().history}>
+                    {(rotation) => (
+                      <tr data-testid={`rotation-${rotation.id}`} class="text-sm">
+                        <td class="px-6 py-4">{new Date(rotation.startedAt).toLocaleString()}</td>
+                        <td class="px-6 py-4">v{rotation.fromVersion} &rarr; v{rotation.toVersion}</td>
+                        <td class="px-6 py-4">
+                          <span class={`px-2 py-1 text-xs font-medium rounded ${rotationBadgeClass(rotation.status)}`}>
+                            {STATUS_LABELS[rotation.status] ?? rotation.status}
+                          </span>
+                          <Show when={rotation.error}>
+                            <p class="mt-1 text-xs text-red-600">{rotation.error}</p>
+                          </Show>
+                        </td>
+                        <td class="px-6 py-4">{rotation.valuesReEncrypted}/{rotation.valuesToReEncrypt}</td>
+                        <td class="px-6 py-4">{rotation.initiatedBy}</td>
+                        <td class="px-6 py-4">
+                          {rotation.completedAt ? new Date(rotation.completedAt).toLocaleString() : '—'}
+                        </td>
+                      </tr>
+                    )}
+                  </For>
+                </tbody>
+              </table>
+            </Show>
+          </div>
+        )}
+      </Show>
+    </div>
+  );
+}
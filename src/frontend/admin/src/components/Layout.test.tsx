@@ -1,8 +1,9 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
 import { Layout } from './Layout';
 import { useAuth } from '../stores/auth.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
 
 describe('Layout', () => {
   beforeEach(() => {
@@ -14,8 +15,8 @@ describe('Layout', () => {
   });
 
   it('renders the Hub Admin heading', () => {
-    const { getByText } = render(() => (
-      <Layout currentPage="instances" onNavigate={() => {}}>
+    const { getByText } = renderWithRouter(() => (
+      <Layout>
         <div>child</div>
       </Layout>
     ));
@@ -23,40 +24,58 @@ describe('Layout', () => {
   });
 
   it('renders all navigation buttons', () => {
-    const { getByText } = render(() => (
-      <Layout currentPage="instances" onNavigate={() => {}}>
+    const { getByText } = renderWithRouter(() => (
+      <Layout>
         <div>x</div>
       </Layout>
     ));
     expect(getByText('Instances')).toBeInTheDocument();
+    expect(getByText('Fleet Health')).toBeInTheDocument();
+    expect(getByText('Backup Templates')).toBeInTheDocument();
+    expect(getByText('Backup Storage')).toBeInTheDocument();
+    expect(getByText('Versions')).toBeInTheDocument();
+    expect(getByText('Revenue')).toBeInTheDocument();
     expect(getByText('Mailing List')).toBeInTheDocument();
+    expect(getByText('Support')).toBeInTheDocument();
+    expect(getByText('Security')).toBeInTheDocument();
+    expect(getByText('Audit')).toBeInTheDocument();
     expect(getByText('Settings')).toBeInTheDocument();
   });
 
   it('renders provided children in main', () => {
-    const { getByText } = render(() => (
-      <Layout currentPage="instances" onNavigate={() => {}}>
+    const { getByText } = renderWithRouter(() => (
+      <Layout>
         <div>hello-child</div>
       </Layout>
     ));
     expect(getByText('hello-child')).toBeInTheDocument();
   });
 
-  it('calls onNavigate with the page name when nav button clicked', () => {
-    const onNav = vi.fn();
-    const { getByText } = render(() => (
-      <Layout currentPage="instances" onNavigate={onNav}>
+  it('links each nav item to its route and highlights the active one', () => {
+    const { getByText } = renderWithRouter(() => (
+      <Layout>
         <div />
       </Layout>
-    ));
-    fireEvent.click(getByText('Mailing List'));
-    expect(onNav).toHaveBeenCalledWith('mailing-list');
+    ), { path: '/mailing-list' });
+    expect(getByText('Instances')).toHaveAttribute('href', '/instances');
+    expect(getByText('Fleet Health')).toHaveAttribute('href', '/health');
+    expect(getByText('Backup Templates')).toHaveAttribute('href', '/backup-templates');
+    expect(getByText('Backup Storage')).toHaveAttribute('href', '/backup-storage');
+    expect(getByText('Versions')).toHaveAttribute('href', '/versions');
+    expect(getByText('Revenue')).toHaveAttribute('href', '/revenue');
+    expect(getByText('Mailing List')).toHaveAttribute('href', '/mailing-list');
+    expect(getByText('Support')).toHaveAttribute('href', '/support');
+    expect(getByText('Security')).toHaveAttribute('href', '/security/keys');
+    expect(getByText('Audit')).toHaveAttribute('href', '/audit');
+    expect(getByText('Settings')).toHaveAttribute('href', '/settings');
+    expect(getByText('Mailing List')).toHaveClass('bg-blue-100');
+    expect(getByText('Instances')).not.toHaveClass('bg-blue-100');
   });
 
   it('calls auth.logout when Logout clicked', async () => {
     mockFetch({ 'POST /api/v1/auth/logout': () => ({ status: 200, body: {} }) });
-    const { getByText } = render(() => (
-      <Layout currentPage="instances" onNavigate={() => {}}>
+    const { getByText } = renderWithRouter(() => (
+      <Layout>
         <div />
       </Layout>
     ));
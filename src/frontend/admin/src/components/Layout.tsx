@@ -1,11 +1,10 @@
 import { JSX } from 'solid-js';
+import { A } from '@solidjs/router';
 import { useAuth } from '../stores/auth.store';
 import Logo from './Logo';
 
 interface LayoutProps {
   children: JSX.Element;
-  currentPage: 'instances' | 'instance-detail' | 'mailing-list' | 'settings';
-  onNavigate: (page: string) => void;
 }
 
 export function Layout(props: LayoutProps) {
@@ -37,37 +36,104 @@ export function Layout(props: LayoutProps) {
         <div class="flex gap-6">
           <aside class="w-48 bg-white rounded-lg shadow p-4">
             <nav class="space-y-2">
-              <button
-                onClick={() => props.onNavigate('instances')}
-                class={`w-full text-left px-3 py-2 rounded ${
-                  props.currentPage === 'instances' || props.currentPage === 'instance-detail'
-                    ? 'bg-blue-100 text-blue-700'
-                    : 'hover:bg-gray-100'
-                }`}
+              <A
+                href="/instances"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
               >
                 Instances
-              </button>
-              <button
-                onClick={() => props.onNavigate('mailing-list')}
-                class={`w-full text-left px-3 py-2 rounded ${
-                  props.currentPage === 'mailing-list'
-                    ? 'bg-blue-100 text-blue-700'
-                    : 'hover:bg-gray-100'
-                }`}
+              </A>
+              <A
+                href="/health"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Fleet Health
+              </A>
+              <A
+                href="/backup-templates"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Backup Templates
+              </A>
+              <A
+                href="/backup-storage"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Backup Storage
+              </A>
+              <A
+                href="/versions"
+                end
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Versions
+              </A>
+              <A
+                href="/versions/compliance"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Compliance
+              </A>
+              <A
+                href="/revenue"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Revenue
+              </A>
+              <A
+                href="/mailing-list"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
               >
                 Mailing List
-              </button>
-              <button
+              </A>
+              <A
+                href="/support"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Support
+              </A>
+              <A
+                href="/security/keys"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Security
+              </A>
+              <A
+                href="/audit"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
+              >
+                Audit
+              </A>
+              <A
                 data-testid="nav-settings"
-                onClick={() => props.onNavigate('settings')}
-                class={`w-full text-left px-3 py-2 rounded ${
-                  props.currentPage === 'settings'
-                    ? 'bg-blue-100 text-blue-700'
-                    : 'hover:bg-gray-100'
-                }`}
+                href="/settings"
+                class="block w-full text-left px-3 py-2 rounded"
+                activeClass="bg-blue-100 text-blue-700"
+                inactiveClass="hover:bg-gray-100"
               >
                 Settings
-              </button>
+              </A>
             </nav>
           </aside>
 
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent, render, waitFor } from '@solidjs/testing-library';
+import { LogViewer } from './LogViewer';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { LogEntry } from '../types/instance';
+
+const LOGS_PATH = '/api/v1/admin/instances/i-1/logs';
+const STREAM_PATH = `${LOGS_PATH}/stream`;
+
+const line = (message: string, extra: Partial<LogEntry> = {}): LogEntry => ({
+  timestamp: '2026-10-01T12:00:00Z',
+  stream: 'stdout',
+  level: 'info',
+  message,
+  ...extra,
+});
+
+const toEvent = (entry: LogEntry) => `event: log\ndata: ${JSON.stringify(entry)}\n\n`;
+
+// An event stream the test can keep writing to after the viewer has connected
+function openStream(initial: LogEntry[] = []) {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+      for (const entry of initial) c.enqueue(encoder.encode(toEvent(entry)));
+    },
+  });
+  return {
+    response: () => new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }),
+    send: (entry: LogEntry) => controller.enqueue(encoder.encode(toEvent(entry))),
+    close: () => {
+      controller.enqueue(encoder.encode('event: end\ndata: {}\n\n'));
+      controller.close();
+    },
+  };
+}
+
+const sample = [
+  line('Listening on http://0.0.0.0:8080'),
+  line('Slow query took 1200ms', { level: 'warn' }),
+  line('Connection refused', { level: 'error', stream: 'stderr' }),
+  line('raw output', { level: null }),
+];
+
+function renderViewer() {
+  return render(() => <LogViewer instanceId="i-1" domain="alpha.xcord.net" />);
+}
+
+describe('LogViewer', () => {
+  beforeEach(() => {
+    useInstances().reset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('streams new lines as they arrive', async () => {
+    const stream = openStream(sample);
+    const { calls } = mockFetch({ [`GET ${STREAM_PATH}`]: () => stream.response() });
+    const { findByText, getByTestId } = renderViewer();
+
+    expect(await findByText('Showing 4 of 4 lines')).toBeInTheDocument();
+    expect(getByTestId('log-status').textContent).toBe('Live');
+    expect(calls[0].url).toBe(`${STREAM_PATH}?tail=200`);
+
+    stream.send(line('User joined'));
+    expect(await findByText('User joined')).toBeInTheDocument();
+
+    stream.close();
+    await waitFor(() => expect(getByTestId('log-status').textContent).toBe('Stream ended'));
+    expect(getByTestId('log-lines').children).toHaveLength(5);
+  });
+
+  it('filters by level and source', async () => {
+    mockFetch({ [`GET ${STREAM_PATH}`]: () => openStream(sample).response() });
+    const { findByText, getByLabelText, getByTestId, getByText } = renderViewer();
+    await findByText('Showing 4 of 4 lines');
+
+    fireEvent.click(getByLabelText('Info'));
+    fireEvent.click(getByLabelText('Unlabelled'));
+    expect(getByText('Showing 2 of 4 lines')).toBeInTheDocument();
+    expect(getByTestId('log-lines')).not.toHaveTextContent('Listening on');
+
+    fireEvent.click(getByLabelText('stderr'));
+    expect(getByText('Showing 1 of 4 lines')).toBeInTheDocument();
+    expect(getByTestId('log-lines')).toHaveTextContent('Slow query took 1200ms');
+  });
+
+  it('highlights regex matches and hides lines that do not match', async () => {
+    mockFetch({ [`GET ${STREAM_PATH}`]: () => openStream(sample).response() });
+    const { findByText, getByLabelText, getByTestId, getByText } = renderViewer();
+    await findByText('Showing 4 of 4 lines');
+
+    fireEvent.input(getByLabelText('Search logs'), { target: { value: 'conn\\w+' } });
+    expect(getByText('Showing 1 of 4 lines')).toBeInTheDocument();
+    const marks = getByTestId('log-lines').querySelectorAll('mark');
+    expect(Array.from(marks).map((m) => m.textContent)).toEqual(['Connection']);
+
+    fireEvent.click(getByLabelText('Matching lines only'));
+    expect(getByText('Showing 4 of 4 lines')).toBeInTheDocument();
+    expect(getByTestId('log-lines').querySelectorAll('mark')).toHaveLength(1);
+  });
+
+  it('reports an invalid regular expression without filtering', async () => {
+    mockFetch({ [`GET ${STREAM_PATH}`]: () => openStream(sample).response() });
+    const { findByText, getByLabelText, getByText } = renderViewer();
+    await findByText('Showing 4 of 4 lines');
+
+    fireEvent.input(getByLabelText('Search logs'), { target: { value: '([' } });
+    expect(getByText('Invalid regular expression')).toBeInTheDocument();
+    expect(getByText('Showing 4 of 4 lines')).toBeInTheDocument();
+  });
+
+  it('queues lines while paused and appends them on resume', async () => {
+    const stream = openStream([line('first')]);
+    mockFetch({ [`GET ${STREAM_PATH}`]: () => stream.response() });
+    const { findByText, getByText, getByTestId, queryByText } = renderViewer();
+    await findByText('first');
+
+    fireEvent.click(getByText('Pause'));
+    expect(getByTestId('log-status').textContent).toBe('Paused');
+    stream.send(line('second'));
+    stream.send(line('third'));
+    expect(await findByText('Resume (2 new)')).toBeInTheDocument();
+    expect(queryByText('second')).not.toBeInTheDocument();
+
+    fireEvent.click(getByText('Resume (2 new)'));
+    expect(getByText('second')).toBeInTheDocument();
+    expect(getByText('third')).toBeInTheDocument();
+    expect(getByTestId('log-status').textContent).toBe('Live');
+  });
+
+  it('shows the backend error when the stream cannot be opened', async () => {
+    mockFetch({
+      [`GET ${STREAM_PATH}`]: () => ({
+        status: 404,
+        body: { title: 'INFRASTRUCTURE_NOT_FOUND', detail: 'Instance has no running service' },
+      }),
+    });
+    const { findByText, getByTestId, getByText } = renderViewer();
+    expect(await findByText('Instance has no running service')).toBeInTheDocument();
+    expect(getByTestId('log-status').textContent).toBe('Disconnected');
+    expect(getByText('Reconnect')).toBeInTheDocument();
+  });
+
+  it('loads logs for a time range', async () => {
+    const { calls } = mockFetch({
+      [`GET ${STREAM_PATH}`]: () => openStream(sample).response(),
+      [`GET ${LOGS_PATH}`]: () => ({ logs: [line('from the past')] }),
+    });
+    const { findByText, getByText, container } = renderViewer();
+    await findByText('Showing 4 of 4 lines');
+
+    fireEvent.click(getByText('Time Range'));
+    expect(getByText('No logs available')).toBeInTheDocument();
+    fireEvent.input(container.querySelector('#logs-from')!, { target: { value: '2026-10-01T10:00' } });
+    fireEvent.input(container.querySelector('#logs-to')!, { target: { value: '2026-10-01T11:00' } });
+    fireEvent.click(getByText('Show Logs'));
+
+    expect(await findByText('from the past')).toBeInTheDocument();
+    const query = new URLSearchParams(calls[1].url.split('?')[1]);
+    expect(query.get('tail')).toBe('1000');
+    expect(query.get('since')).toBe(new Date('2026-10-01T10:00').toISOString());
+    expect(query.get('until')).toBe(new Date('2026-10-01T11:00').toISOString());
+  });
+
+  it('rejects a time range whose start is after its end', async () => {
+    const { calls } = mockFetch({ [`GET ${STREAM_PATH}`]: () => openStream().response() });
+    const { getByText, findByText, container } = renderViewer();
+
+    fireEvent.click(getByText('Time Range'));
+    fireEvent.input(container.querySelector('#logs-from')!, { target: { value: '2026-10-01T12:00' } });
+    fireEvent.input(container.querySelector('#logs-to')!, { target: { value: '2026-10-01T11:00' } });
+    fireEvent.click(getByText('Show Logs'));
+
+    expect(await findByText('The start time must be before the end time')).toBeInTheDocument();
+    expect(calls.filter((c) => !c.url.startsWith(STREAM_PATH))).toHaveLength(0);
+  });
+
+  it('rejects a time range longer than 24 hours', async () => {
+    const { calls } = mockFetch({ [`GET ${STREAM_PATH}`]: () => openStream().response() });
+    const { getByText, findByText, container } = renderViewer();
+
+    fireEvent.click(getByText('Time Range'));
+    fireEvent.input(container.querySelector('#logs-from')!, { target: { value: '2026-09-30T10:00' } });
+    fireEvent.input(container.querySelector('#logs-to')!, { target: { value: '2026-10-01T11:00' } });
+    fireEvent.click(getByText('Show Logs'));
+
+    expect(await findByText('The range must not exceed 24 hours')).toBeInTheDocument();
+    expect(calls.filter((c) => !c.url.startsWith(STREAM_PATH))).toHaveLength(0);
+  });
+
+  it('downloads the whole buffer regardless of filters', async () => {
+    const blobs: Blob[] = [];
+    const filenames: string[] = [];
+    // jsdom implements neither object URLs nor download navigation
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      blobs.push(blob);
+      return 'blob:logs';
+    });
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      filenames.push(this.download);
+    });
+    mockFetch({ [`GET ${STREAM_PATH}`]: () => openStream(sample.slice(2)).response() });
+    const { findByText, getByLabelText, getByText } = renderViewer();
+    await findByText('Showing 2 of 2 lines');
+
+    fireEvent.click(getByLabelText('stderr'));
+    fireEvent.click(getByText('Download'));
+
+    expect(filenames[0]).toMatch(/^alpha\.xcord\.net-logs-\d{8}T\d{6}\.log$/);
+    expect(await blobs[0].text()).toBe(
+      '2026-10-01T12:00:00Z stderr error Connection refused\n' +
+        '2026-10-01T12:00:00Z stdout - raw output\n',
+    );
+  });
+});
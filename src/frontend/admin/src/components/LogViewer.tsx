@@ -0,0 +1,422 @@
+import { For, Show, createEffect, createMemo, createSignal, on, onCleanup } from 'solid-js';
+import type { JSX } from 'solid-js';
+import { useInstances } from '../stores/instance.store';
+import type { LogEntry } from '../types/instance';
+import { downloadFile } from '../utils/download';
+
+// Recent lines replayed when the stream opens
+const INITIAL_TAIL = 200;
+const RANGE_TAIL = 1000;
+// The backend refuses longer ranges, since Docker has to read all of it.
+const MAX_RANGE_MS = 24 * 60 * 60 * 1000;
+// Oldest lines are dropped past this so a chatty instance cannot exhaust the tab
+const MAX_BUFFER_LINES = 5000;
+
+const LEVELS = ['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'none'] as const;
+type Level = (typeof LEVELS)[number];
+
+const LEVEL_LABELS: Record<Level, string> = {
+  fatal: 'Fatal',
+  error: 'Error',
+  warn: 'Warn',
+  info: 'Info',
+  debug: 'Debug',
+  trace: 'Trace',
+  none: 'Unlabelled',
+};
+
+const SOURCES = ['stdout', 'stderr'] as const;
+
+type Connection = 'connecting' | 'live' | 'ended' | 'error';
+
+function levelOf(line: LogEntry): Level {
+  return (LEVELS as readonly string[]).includes(line.level ?? '') ? (line.level as Level) : 'none';
+}
+
+function levelClass(level: Level): string {
+  switch (level) {
+    case 'fatal':
+    case 'error':
+      return 'text-red-400';
+    case 'warn':
+      return 'text-yellow-300';
+    case 'info':
+      return 'text-green-400';
+    default:
+      return 'text-gray-400';
+  }
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'gi');
+  } catch {
+    return null;
+  }
+}
+
+function highlight(message: string, pattern: RegExp | null): JSX.Element {
+  if (!pattern) return message;
+  const parts: JSX.Element[] = [];
+  let last = 0;
+  for (const match of message.matchAll(pattern)) {
+    // Empty matches (e.g. "a*") would highlight nothing and never advance
+    if (match[0].length === 0) continue;
+    const start = match.index ?? 0;
+    if (start > last) parts.push(message.slice(last, start));
+    parts.push(<mark class="bg-yellow-300 text-gray-900">{match[0]}</mark>);
+    last = start + match[0].length;
+  }
+  if (parts.length === 0) return message;
+  if (last < message.length) parts.push(message.slice(last));
+  return parts;
+}
+
+function formatLine(line: LogEntry): string {
+  return `${line.timestamp} ${line.stream} ${line.level ?? '-'} ${line.message}`;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+interface LogViewerProps {
+  instanceId: string;
+  domain: string;
+}
+
+export function LogViewer(props: LogViewerProps) {
+  const instanceStore = useInstances();
+  const [mode, setMode] = createSignal<'live' | 'range'>('live');
+  const [lines, setLines] = createSignal<LogEntry[]>([]);
+  const [pending, setPending] = createSignal<LogEntry[]>([]);
+  const [isPaused, setIsPaused] = createSignal(false);
+  const [connection, setConnection] = createSignal<Connection>('connecting');
+  const [error, setError] = createSignal<string | null>(null);
+  const [levels, setLevels] = createSignal<Level[]>([...LEVELS]);
+  const [sources, setSources] = createSignal<string[]>([...SOURCES]);
+  const [search, setSearch] = createSignal('');
+  const [onlyMatches, setOnlyMatches] = createSignal(true);
+  const [rangeFrom, setRangeFrom] = createSignal(toLocalInput(new Date(Date.now() - 60 * 60_000)));
+  const [rangeTo, setRangeTo] = createSignal(toLocalInput(new Date()));
+  const [isLoadingRange, setIsLoadingRange] = createSignal(false);
+
+  let scroller: HTMLDivElement | undefined;
+  let controller: AbortController | undefined;
+
+  const append = (incoming: LogEntry[]) => {
+    setLines((current) => [...current, ...incoming].slice(-MAX_BUFFER_LINES));
+  };
+
+  const stopStream = () => {
+    controller?.abort();
+    controller = undefined;
+  };
+
+  const startStream = async () => {
+    stopStream();
+    const current = new AbortController();
+    controller = current;
+    setLines([]);
+    setPending([]);
+    setError(null);
+    setConnection('connecting');
+    try {
+      const events = await instanceStore.streamInstanceLogs(props.instanceId, INITIAL_TAIL, current.signal);
+      setConnection('live');
+      for await (const event of events) {
+        if (event.event === 'log') {
+          const line = JSON.parse(event.data) as LogEntry;
+          if (isPaused()) setPending((queued) => [...queued, line].slice(-MAX_BUFFER_LINES));
+          else append([line]);
+        } else if (event.event === 'error') {
+          setError((JSON.parse(event.data) as { detail?: string }).detail ?? 'Log stream interrupted');
+          setConnection('error');
+          return;
+        }
+      }
+      if (!current.signal.aborted) setConnection('ended');
+    } catch (err) {
+      if (current.signal.aborted) return;
+      console.error('Log stream failed:', err);
+      setError((err as { detail?: string })?.detail ?? 'Log stream disconnected');
+      setConnection('error');
+    }
+  };
+
+  createEffect(on(() => props.instanceId, () => {
+    if (mode() === 'live') startStream();
+  }));
+
+  onCleanup(stopStream);
+
+  const pause = () => setIsPaused(true);
+
+  const resume = () => {
+    append(pending());
+    setPending([]);
+    setIsPaused(false);
+  };
+
+  const switchMode = (next: 'live' | 'range') => {
+    if (mode() === next) return;
+    setMode(next);
+    setIsPaused(false);
+    setPending([]);
+    if (next === 'live') {
+      startStream();
+    } else {
+      stopStream();
+      setLines([]);
+      setError(null);
+    }
+  };
+
+  const loadRange = async () => {
+    const from = new Date(rangeFrom());
+    const to = new Date(rangeTo());
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      setError('Choose both a start and an end time');
+      return;
+    }
+    if (from >= to) {
+      setError('The start time must be before the end time');
+      return;
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_MS) {
+      setError('The range must not exceed 24 hours');
+      return;
+    }
+    setIsLoadingRange(true);
+    setError(null);
+    try {
+      setLines(await instanceStore.fetchInstanceLogs(props.instanceId, {
+        tail: RANGE_TAIL,
+        since: from.toISOString(),
+        until: to.toISOString(),
+      }));
+    } catch (err) {
+      console.error('Failed to fetch logs:', err);
+      setError((err as { detail?: string })?.detail ?? 'Failed to load logs');
+    } finally {
+      setIsLoadingRange(false);
+    }
+  };
+
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const pattern = createMemo(() => (search() ? compilePattern(search()) : null));
+  const invalidPattern = () => search() !== '' && pattern() === null;
+
+  const visibleLines = createMemo(() => {
+    const regex = pattern();
+    return lines().filter((line) => {
+      if (!levels().includes(levelOf(line))) return false;
+      if (!sources().includes(line.stream)) return false;
+      if (regex && onlyMatches()) {
+        regex.lastIndex = 0;
+        return regex.test(line.message);
+      }
+      return true;
+    });
+  });
+
+  // Keep the newest line in view while following
+  createEffect(on(visibleLines, () => {
+    if (mode() === 'live' && !isPaused() && scroller) {
+      scroller.scrollTop = scroller.scrollHeight;
+    }
+  }));
+
+  const handleDownload = () => {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15);
+    downloadFile(
+      `${props.domain}-logs-${stamp}.log`,
+      lines().map(formatLine).join('\n') + '\n',
+      'text/plain;charset=utf-8',
+    );
+  };
+
+  const statusLabel = () => {
+    if (mode() === 'range') return 'Time range';
+    if (isPaused()) return 'Paused';
+    switch (connection()) {
+      case 'connecting':
+        return 'Connecting...';
+      case 'live':
+        return 'Live';
+      case 'ended':
+        return 'Stream ended';
+      default:
+        return 'Disconnected';
+    }
+  };
+
+  return (
+    <div class="space-y-3">
+      <div class="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => switchMode('live')}
+          class={`px-3 py-1 rounded text-sm ${mode() === 'live' ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+        >
+          Follow
+        </button>
+        <button
+          onClick={() => switchMode('range')}
+          class={`px-3 py-1 rounded text-sm ${mode() === 'range' ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+        >
+          Time Range
+        </button>
+
+        <Show when={mode() === 'live'}>
+          <Show
+            when={isPaused()}
+            fallback={
+              <button onClick={pause} class="px-3 py-1 rounded text-sm bg-gray-100 hover:bg-gray-200">
+                Pause
+              </button>
+            }
+          >
+            <button onClick={resume} class="px-3 py-1 rounded text-sm bg-gray-100 hover:bg-gray-200">
+              Resume{pending().length > 0 ? ` (${pending().length} new)` : ''}
+            </button>
+          </Show>
+          <Show when={connection() === 'ended' || connection() === 'error'}>
+            <button onClick={startStream} class="px-3 py-1 rounded text-sm bg-gray-100 hover:bg-gray-200">
+              Reconnect
+            </button>
+          </Show>
+        </Show>
+
+        <span data-testid="log-status" class="text-sm text-gray-500">{statusLabel()}</span>
+
+        <button
+          onClick={handleDownload}
+          disabled={lines().length === 0}
+          class="ml-auto px-3 py-1 rounded text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+        >
+          Download
+        </button>
+      </div>
+
+      <Show when={mode() === 'range'}>
+        <div class="flex flex-wrap items-end gap-2">
+          <label class="text-sm">
+            <span class="block text-gray-600">From</span>
+            <input
+              id="logs-from"
+              type="datetime-local"
+              value={rangeFrom()}
+              onInput={(e) => setRangeFrom(e.currentTarget.value)}
+              class="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label class="text-sm">
+            <span class="block text-gray-600">To</span>
+            <input
+              id="logs-to"
+              type="datetime-local"
+              value={rangeTo()}
+              onInput={(e) => setRangeTo(e.currentTarget.value)}
+              class="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <button
+            onClick={loadRange}
+            disabled={isLoadingRange()}
+            class="px-3 py-1 rounded text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isLoadingRange() ? 'Loading...' : 'Show Logs'}
+          </button>
+        </div>
+      </Show>
+
+      <div class="flex flex-wrap items-center gap-4 text-sm">
+        <div class="flex items-center gap-2">
+          <span class="text-gray-600">Level:</span>
+          <For each={LEVELS}>
+            {(level) => (
+              <label class="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={levels().includes(level)}
+                  onChange={() => setLevels(toggle(levels(), level))}
+                />
+                {LEVEL_LABELS[level]}
+              </label>
+            )}
+          </For>
+        </div>
+        <div class="flex items-center gap-2">
+          <span class="text-gray-600">Source:</span>
+          <For each={SOURCES}>
+            {(source) => (
+              <label class="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={sources().includes(source)}
+                  onChange={() => setSources(toggle(sources(), source))}
+                />
+                {source}
+              </label>
+            )}
+          </For>
+        </div>
+      </div>
+
+      <div class="flex items-center gap-3 text-sm">
+        <input
+          type="text"
+          aria-label="Search logs"
+          placeholder="Search (regular expression)"
+          value={search()}
+          onInput={(e) => setSearch(e.currentTarget.value)}
+          class={`flex-1 px-3 py-1 border rounded font-mono ${invalidPattern() ? 'border-red-500' : 'border-gray-300'}`}
+        />
+        <label class="flex items-center gap-1">
+          <input type="checkbox" checked={onlyMatches()} onChange={(e) => setOnlyMatches(e.currentTarget.checked)} />
+          Matching lines only
+        </label>
+      </div>
+      <Show when={invalidPattern()}>
+        <p class="text-sm text-red-600">Invalid regular expression</p>
+      </Show>
+
+      <Show when={error()}>
+        <p class="text-sm text-red-600">{error()}</p>
+      </Show>
+
+      <Show
+        when={lines().length > 0}
+        fallback={<p class="text-gray-500">No logs available</p>}
+      >
+        <p class="text-xs text-gray-500">
+          Showing {visibleLines().length} of {lines().length} lines
+        </p>
+        <div
+          ref={scroller}
+          data-testid="log-lines"
+          class="bg-gray-900 text-gray-100 p-4 rounded font-mono text-xs overflow-auto max-h-96"
+        >
+          <For each={visibleLines()}>
+            {(line) => (
+              <div class="mb-1 whitespace-pre-wrap break-all">
+                <span class="text-gray-500">{line.timestamp}</span>{' '}
+                <span class={line.stream === 'stderr' ? 'text-red-400' : 'text-blue-400'}>
+                  [{line.stream}]
+                </span>{' '}
+                <Show when={line.level}>
+                  <span class={levelClass(levelOf(line))}>{line.level!.toUpperCase()}</span>{' '}
+                </Show>
+                {highlight(line.message, pattern())}
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { mockFetch } from '../tests/helpers/mockFetch';
 const ADMIN_JWT = 'h.' + btoa('{"admin":"true"}') + '.s';
 const NONADMIN_JWT = 'h.' + btoa('{"admin":"false"}') + '.s';
 
+const SESSION = { 'GET /api/v1/admin/session': () => ({ twoFactorEnabled: false, twoFactorRequired: false }) };
+
 describe('Login', () => {
   beforeEach(() => {
     useAuth().reset();
@@ -33,6 +35,7 @@ describe('Login', () => {
 
   it('submits to login endpoint and sets auth on success', async () => {
     mockFetch({
+      ...SESSION,
       'POST /api/v1/auth/login': () => ({
         status: 200,
         body: { accessToken: ADMIN_JWT, userId: '42', username: 'admin' },
@@ -80,4 +83,76 @@ describe('Login', () => {
     await waitFor(() => expect(btn).toBeDisabled());
     resolve({ status: 401, body: {} });
   });
+
+  it('asks for a TOTP code when the account has 2FA and completes the login with it', async () => {
+    const { calls } = mockFetch({
+      ...SESSION,
+      'POST /api/v1/auth/login': () => ({ status: 403, body: { title: '2FA_REQUIRED' } }),
+      'POST /api/v1/auth/2fa/login': () => ({
+        status: 200,
+        body: { accessToken: ADMIN_JWT, userId: '42', username: 'admin' },
+      }),
+    });
+    const { container, getByText, findByText } = render(() => <Login />);
+    fill(container);
+    fireEvent.click(getByText('Sign In'));
+    expect(await findByText('Authentication Code')).toBeInTheDocument();
+    fireEvent.input(container.querySelector('#totp')!, { target: { value: '12 34-56' } });
+    fireEvent.click(getByText('Verify'));
+    await waitFor(() => expect(useAuth().isAuthenticated).toBe(true));
+    expect(calls.find((c) => c.url === '/api/v1/auth/2fa/login')?.body).toEqual({
+      email: 'admin@example.com',
+      password: 'pw',
+      code: '123456',
+    });
+  });
+
+  it('shows the backend error for a wrong code and stays on the code step', async () => {
+    mockFetch({
+      'POST /api/v1/auth/login': () => ({ status: 403, body: { title: '2FA_REQUIRED' } }),
+      'POST /api/v1/auth/2fa/login': () => ({
+        status: 400,
+        body: { title: 'INVALID_CODE', detail: 'Invalid verification code' },
+      }),
+    });
+    const { container, getByText, findByText } = render(() => <Login />);
+    fill(container);
+    fireEvent.click(getByText('Sign In'));
+    await findByText('Authentication Code');
+    fireEvent.input(container.querySelector('#totp')!, { target: { value: '000000' } });
+    fireEvent.click(getByText('Verify'));
+    expect(await findByText('Invalid verification code')).toBeInTheDocument();
+    expect(getByText('Verify')).toBeInTheDocument();
+  });
+
+  it('shows when the 2FA lockout ends and disables sign-in until then', async () => {
+    const lockedUntil = new Date(Date.now() + 30 * 60 * 1000);
+    mockFetch({
+      'POST /api/v1/auth/login': () => ({ status: 403, body: { title: '2FA_REQUIRED' } }),
+      'POST /api/v1/auth/2fa/login': () => ({
+        status: 403,
+        body: { title: 'TWO_FACTOR_LOCKED', detail: 'Account is temporarily locked', lockedUntil: lockedUntil.toISOString() },
+      }),
+    });
+    const { container, getByText, findByText } = render(() => <Login />);
+    fill(container);
+    fireEvent.click(getByText('Sign In'));
+    await findByText('Authentication Code');
+    fireEvent.input(container.querySelector('#totp')!, { target: { value: '000000' } });
+    fireEvent.click(getByText('Verify'));
+    expect(await findByText(new RegExp(`locked until ${lockedUntil.toLocaleTimeString()}`))).toBeInTheDocument();
+    expect(getByText('Verify')).toBeDisabled();
+  });
+
+  it('Back to login returns to the password step', async () => {
+    mockFetch({
+      'POST /api/v1/auth/login': () => ({ status: 403, body: { title: '2FA_REQUIRED' } }),
+    });
+    const { container, getByText, findByText } = render(() => <Login />);
+    fill(container);
+    fireEvent.click(getByText('Sign In'));
+    fireEvent.click(await findByText('Back to login'));
+    expect(getByText('Sign In')).toBeInTheDocument();
+    expect(container.querySelectorAll('input')).toHaveLength(2);
+  });
 });
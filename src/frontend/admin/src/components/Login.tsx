@@ -1,64 +1,136 @@
-import { createSignal } from 'solid-js';
+import { createSignal, onCleanup, Show } from 'solid-js';
 import { useAuth } from '../stores/auth.store';
+import type { LoginProblem } from '../types/auth';
 import Logo from './Logo';
 
 export function Login() {
   const auth = useAuth();
   const [email, setEmail] = createSignal('');
   const [password, setPassword] = createSignal('');
+  const [totpCode, setTotpCode] = createSignal('');
+  const [needs2FA, setNeeds2FA] = createSignal(false);
   const [error, setError] = createSignal('');
+  const [lockedUntil, setLockedUntil] = createSignal<Date | null>(null);
   const [isLoading, setIsLoading] = createSignal(false);
 
+  let unlockTimer: ReturnType<typeof setTimeout> | undefined;
+  onCleanup(() => clearTimeout(unlockTimer));
+
+  // The lockout follows the account's TwoFactorLockedAt on the backend, so
+  // re-enable the form once the window it reported has passed.
+  const lockUntil = (until: Date) => {
+    setLockedUntil(until);
+    clearTimeout(unlockTimer);
+    unlockTimer = setTimeout(() => setLockedUntil(null), Math.max(0, until.getTime() - Date.now()));
+  };
+
+  const handleError = (err: unknown) => {
+    const problem = err as LoginProblem | undefined;
+    if (problem?.title === 'TWO_FACTOR_LOCKED' && problem.lockedUntil) {
+      lockUntil(new Date(problem.lockedUntil));
+      setError('');
+      return;
+    }
+    setError(problem?.detail || problem?.message || 'Login failed');
+  };
+
   const handleSubmit = async (e: Event) => {
     e.preventDefault();
     setError('');
     setIsLoading(true);
 
     try {
-      await auth.login({ email: email(), password: password() });
+      if (needs2FA()) {
+        await auth.loginWith2FA({ email: email(), password: password(), code: totpCode() });
+      } else if ((await auth.login({ email: email(), password: password() })) === '2fa_required') {
+        setNeeds2FA(true);
+        return;
+      }
       window.location.reload();
-    } catch (err: any) {
-      setError(err?.message || 'Login failed');
+    } catch (err) {
+      handleError(err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const backToLogin = () => {
+    setNeeds2FA(false);
+    setTotpCode('');
+    setError('');
+  };
+
   return (
     <div class="min-h-screen flex items-center justify-center bg-gray-100">
       <div class="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
         <h1 class="text-2xl font-bold mb-6 text-center"><Logo /> Hub Admin</h1>
 
         <form onSubmit={handleSubmit} class="space-y-4">
-          <div>
-            <label class="block text-sm font-medium mb-1" for="email">
-              Email
-            </label>
-            <input
-              id="email"
-              type="email"
-              value={email()}
-              onInput={(e) => setEmail(e.currentTarget.value)}
-              required
-              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              disabled={isLoading()}
-            />
-          </div>
+          <Show
+            when={needs2FA()}
+            fallback={
+              <>
+                <div>
+                  <label class="block text-sm font-medium mb-1" for="email">
+                    Email
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    value={email()}
+                    onInput={(e) => setEmail(e.currentTarget.value)}
+                    required
+                    class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    disabled={isLoading()}
+                  />
+                </div>
+
+                <div>
+                  <label class="block text-sm font-medium mb-1" for="password">
+                    Password
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    value={password()}
+                    onInput={(e) => setPassword(e.currentTarget.value)}
+                    required
+                    class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    disabled={isLoading()}
+                  />
+                </div>
+              </>
+            }
+          >
+            <div>
+              <label class="block text-sm font-medium mb-1" for="totp">
+                Authentication Code
+              </label>
+              <p class="text-xs text-gray-500 mb-2">Enter the 6-digit code from your authenticator app.</p>
+              <input
+                id="totp"
+                type="text"
+                inputMode="numeric"
+                autocomplete="one-time-code"
+                maxLength={6}
+                value={totpCode()}
+                onInput={(e) => setTotpCode(e.currentTarget.value.replace(/\D/g, '').slice(0, 6))}
+                required
+                placeholder="000000"
+                class="w-full px-3 py-2 border border-gray-300 rounded-md text-center text-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={isLoading() || !!lockedUntil()}
+              />
+            </div>
+          </Show>
 
-          <div>
-            <label class="block text-sm font-medium mb-1" for="password">
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password()}
-              onInput={(e) => setPassword(e.currentTarget.value)}
-              required
-              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              disabled={isLoading()}
-            />
-          </div>
+          <Show when={lockedUntil()}>
+            {(until) => (
+              <div class="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded">
+                Too many failed verification attempts. Two-factor sign-in is locked until{' '}
+                {until().toLocaleTimeString()}.
+              </div>
+            )}
+          </Show>
 
           {error() && (
             <div class="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
@@ -68,11 +140,21 @@ export function Login() {
 
           <button
             type="submit"
-            disabled={isLoading()}
+            disabled={isLoading() || !!lockedUntil()}
             class="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
           >
-            {isLoading() ? 'Signing in...' : 'Sign In'}
+            {isLoading() ? 'Signing in...' : needs2FA() ? 'Verify' : 'Sign In'}
           </button>
+
+          <Show when={needs2FA()}>
+            <button
+              type="button"
+              onClick={backToLogin}
+              class="w-full py-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Back to login
+            </button>
+          </Show>
         </form>
 
         <p class="mt-4 text-xs text-gray-500 text-center">
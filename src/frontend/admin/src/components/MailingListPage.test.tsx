@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
 import { MailingListPage } from './MailingListPage';
 import { useMailingList } from '../stores/mailing-list.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
 
 const LIST_PATH = '/api/v1/admin/mailing-list';
 
@@ -21,35 +22,44 @@ describe('MailingListPage', () => {
 
   it('renders the page heading', () => {
     mockFetch({ [`GET ${LIST_PATH}`]: () => sampleEntries });
-    const { getByText } = render(() => <MailingListPage />);
+    const { getByText } = renderWithRouter(() => <MailingListPage />);
     expect(getByText('Mailing List')).toBeInTheDocument();
   });
 
   it('shows loading indicator initially', () => {
     mockFetch({ [`GET ${LIST_PATH}`]: () => sampleEntries });
-    const { getByText } = render(() => <MailingListPage />);
+    const { getByText } = renderWithRouter(() => <MailingListPage />);
     expect(getByText('Loading...')).toBeInTheDocument();
   });
 
   it('renders subscriber rows once entries load', async () => {
     mockFetch({ [`GET ${LIST_PATH}`]: () => sampleEntries });
-    const { findByText } = render(() => <MailingListPage />);
+    const { findByText } = renderWithRouter(() => <MailingListPage />);
     expect(await findByText('a@example.com')).toBeInTheDocument();
     expect(await findByText('b@example.com')).toBeInTheDocument();
   });
 
   it('renders empty placeholder when there are no entries', async () => {
     mockFetch({ [`GET ${LIST_PATH}`]: () => ({ entries: [], total: 0 }) });
-    const { findByText } = render(() => <MailingListPage />);
+    const { findByText } = renderWithRouter(() => <MailingListPage />);
     expect(await findByText('No subscribers found')).toBeInTheDocument();
   });
 
   it('clicking a tier filter sets the store filter', async () => {
     mockFetch({ [`GET ${LIST_PATH}`]: () => sampleEntries });
-    const { findByText, getAllByRole } = render(() => <MailingListPage />);
+    const { findByText, getAllByRole } = renderWithRouter(() => <MailingListPage />);
     await findByText('a@example.com');
     const proButton = getAllByRole('button').find(b => b.textContent === 'Pro')!;
     fireEvent.click(proButton);
     await waitFor(() => expect(useMailingList().tierFilter).toBe('Pro'));
   });
+
+  it('loads the page and tier filter from the URL', async () => {
+    const { calls } = mockFetch({ [`GET ${LIST_PATH}`]: () => sampleEntries });
+    renderWithRouter(() => <MailingListPage />, { path: '/mailing-list?page=3&tier=Pro' });
+    await waitFor(() =>
+      expect(calls.some(c => c.url === `${LIST_PATH}?page=3&pageSize=25&tier=Pro`)).toBe(true),
+    );
+    expect(useMailingList().tierFilter).toBe('Pro');
+  });
 });
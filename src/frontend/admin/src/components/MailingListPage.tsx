@@ -1,30 +1,40 @@
-import { For, Show, createEffect, onMount } from 'solid-js';
+import { For, Show, createEffect, untrack } from 'solid-js';
+import { useSearchParams } from '@solidjs/router';
 import { useMailingList } from '../stores/mailing-list.store';
 
 const TIERS = ['Basic', 'Pro', 'Enterprise', 'Voice & Video', 'android app', 'ios app', 'windows app', 'macos app', 'linux app'];
 
 export function MailingListPage() {
   const mailingList = useMailingList();
+  const [searchParams, setSearchParams] = useSearchParams<{ page?: string; tier?: string }>();
 
-  onMount(() => {
-    mailingList.fetchEntries();
-  });
+  const currentPage = () => Math.max(1, Number(searchParams.page) || 1);
 
   createEffect(() => {
-    mailingList.fetchEntries();
+    const tier = searchParams.tier || null;
+    const page = currentPage();
+    untrack(() => {
+      mailingList.setTierFilter(tier);
+      mailingList.setPage(page);
+      mailingList.fetchEntries();
+    });
   });
 
   const totalPages = () => Math.ceil(mailingList.total / mailingList.pageSize);
 
+  const setTierFilter = (tier: string | null) => {
+    setSearchParams({ tier: tier ?? undefined, page: undefined });
+  };
+
   const handlePrevPage = () => {
-    if (mailingList.page > 1) {
-      mailingList.setPage(mailingList.page - 1);
+    if (currentPage() > 1) {
+      setSearchParams({ page: currentPage() - 1 > 1 ? String(currentPage() - 1) : undefined });
     }
   };
 
   const handleNextPage = () => {
-    if (mailingList.page < totalPages()) {
-      mailingList.setPage(mailingList.page + 1);
+    if (currentPage() < totalPages()) {
+      setSearchParams({ page: String(currentPage() + 1) });
     }
   };
 
@@ -51,7 +61,7 @@ export function MailingListPage() {
 
         <div class="mt-4 flex gap-2">
           <button
-            onClick={() => mailingList.setTierFilter(null)}
+            onClick={() => setTierFilter(null)}
             class={`px-3 py-1 rounded text-sm ${
               !mailingList.tierFilter
                 ? 'bg-blue-600 text-white'
@@ -63,7 +73,7 @@ export function MailingListPage() {
           <For each={TIERS}>
             {(tier) => (
               <button
-                onClick={() => mailingList.setTierFilter(tier)}
+                onClick={() => setTierFilter(tier)}
                 class={`px-3 py-1 rounded text-sm ${
                   mailingList.tierFilter === tier
                     ? 'bg-blue-600 text-white'
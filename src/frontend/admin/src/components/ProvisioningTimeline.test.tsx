@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent, render, waitFor } from '@solidjs/testing-library';
+import { ProvisioningTimeline } from './ProvisioningTimeline';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { ProvisioningStep, ProvisioningTimeline as Timeline } from '../types/instance';
+
+const TIMELINE_PATH = '/api/v1/admin/instances/i-1/provisioning';
+
+const step = (stepName: string, extra: Partial<ProvisioningStep> = {}): ProvisioningStep => ({
+  stepName,
+  status: 'Pending',
+  attempts: 0,
+  startedAt: null,
+  completedAt: null,
+  durationMs: null,
+  errorMessage: null,
+  events: [],
+  ...extra,
+});
+
+const completed = (stepName: string, durationMs: number) =>
+  step(stepName, {
+    status: 'Completed',
+    attempts: 1,
+    startedAt: '2026-10-01T12:00:00Z',
+    completedAt: '2026-10-01T12:00:01Z',
+    durationMs,
+    events: [
+      { phase: 'Execute', status: 'Completed', errorMessage: null, startedAt: '2026-10-01T12:00:00Z', completedAt: '2026-10-01T12:00:00Z' },
+      { phase: 'Verify', status: 'Completed', errorMessage: null, startedAt: '2026-10-01T12:00:00Z', completedAt: '2026-10-01T12:00:01Z' },
+    ],
+  });
+
+const failedTimeline: Timeline = {
+  instanceId: 'i-1',
+  instanceStatus: 'Failed',
+  canRetry: true,
+  steps: [
+    completed('ValidateSubdomain', 120),
+    completed('ProvisionDatabase', 4500),
+    step('StartApiContainer', {
+      status: 'Failed',
+      attempts: 2,
+      startedAt: '2026-10-01T12:00:02Z',
+      completedAt: '2026-10-01T12:01:32Z',
+      durationMs: 90_000,
+      errorMessage: 'Container exited with code 1',
+      events: [
+        { phase: 'Execute', status: 'Failed', errorMessage: 'Image pull timed out', startedAt: '2026-10-01T12:00:02Z', completedAt: '2026-10-01T12:00:30Z' },
+        { phase: 'Execute', status: 'Failed', errorMessage: 'Container exited with code 1', startedAt: '2026-10-01T12:01:00Z', completedAt: '2026-10-01T12:01:32Z' },
+      ],
+    }),
+    step('ConfigureDnsAndProxy'),
+  ],
+};
+
+function renderTimeline(onRetried = vi.fn()) {
+  const result = render(() => <ProvisioningTimeline instanceId="i-1" onRetried={onRetried} />);
+  return { ...result, onRetried };
+}
+
+describe('ProvisioningTimeline', () => {
+  beforeEach(() => {
+    useInstances().reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows each step with its status, duration and error', async () => {
+    mockFetch({ [`GET ${TIMELINE_PATH}`]: () => failedTimeline });
+    const { findByText, getByTestId } = renderTimeline();
+
+    expect(await findByText('2 of 4 steps completed')).toBeInTheDocument();
+    expect(getByTestId('provisioning-step-ValidateSubdomain')).toHaveTextContent('Completed120ms');
+    expect(getByTestId('provisioning-step-ProvisionDatabase')).toHaveTextContent('5s');
+    const failed = getByTestId('provisioning-step-StartApiContainer');
+    expect(failed).toHaveTextContent('Failed');
+    expect(failed).toHaveTextContent('1m 30s');
+    expect(failed).toHaveTextContent('2 attempts');
+    expect(failed).toHaveTextContent('Container exited with code 1');
+    expect(getByTestId('provisioning-step-ConfigureDnsAndProxy')).toHaveTextContent('Configure Dns And ProxyPending—');
+  });
+
+  it('expands the individual attempts of a step', async () => {
+    mockFetch({ [`GET ${TIMELINE_PATH}`]: () => failedTimeline });
+    const { findByTestId, getByText, queryByText } = renderTimeline();
+    const failed = await findByTestId('provisioning-step-StartApiContainer');
+
+    expect(queryByText('Image pull timed out')).not.toBeInTheDocument();
+    fireEvent.click(failed.querySelector('button')!);
+    expect(getByText('Image pull timed out')).toBeInTheDocument();
+    fireEvent.click(getByText('Hide attempts'));
+    expect(queryByText('Image pull timed out')).not.toBeInTheDocument();
+  });
+
+  it('retries from the failed step and reloads the timeline', async () => {
+    let retried = false;
+    const { calls } = mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () =>
+        retried ? { ...failedTimeline, instanceStatus: 'Provisioning', canRetry: false } : failedTimeline,
+      [`POST ${TIMELINE_PATH}/retry`]: () => {
+        retried = true;
+        return { instanceId: 'i-1', stepName: 'StartApiContainer' };
+      },
+    });
+    const { findByText, queryByText, onRetried } = renderTimeline();
+
+    fireEvent.click(await findByText('Retry from Start Api Container'));
+
+    await waitFor(() => expect(onRetried).toHaveBeenCalled());
+    expect(calls.map((c) => `${c.method} ${c.url}`)).toEqual([
+      `GET ${TIMELINE_PATH}`,
+      `POST ${TIMELINE_PATH}/retry`,
+      `GET ${TIMELINE_PATH}`,
+    ]);
+    expect(queryByText(/Retry from/)).not.toBeInTheDocument();
+  });
+
+  it('shows the backend error when the retry is rejected', async () => {
+    mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () => failedTimeline,
+      [`POST ${TIMELINE_PATH}/retry`]: () => ({
+        status: 409,
+        body: { title: 'NOTHING_TO_RETRY', detail: 'Only instances whose provisioning failed can be retried' },
+      }),
+    });
+    const { findByText, onRetried } = renderTimeline();
+
+    fireEvent.click(await findByText('Retry from Start Api Container'));
+    expect(await findByText('Only instances whose provisioning failed can be retried')).toBeInTheDocument();
+    expect(onRetried).not.toHaveBeenCalled();
+  });
+
+  it('hides the retry button when nothing failed', async () => {
+    mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () => ({
+        ...failedTimeline,
+        instanceStatus: 'Running',
+        canRetry: false,
+        steps: [completed('ValidateSubdomain', 120)],
+      }),
+    });
+    const { findByText, queryByText } = renderTimeline();
+    expect(await findByText('1 of 1 steps completed')).toBeInTheDocument();
+    expect(queryByText(/Retry from/)).not.toBeInTheDocument();
+  });
+
+  it('polls while the instance is still provisioning', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    let status = 'Provisioning';
+    const { calls } = mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () => ({ ...failedTimeline, instanceStatus: status, canRetry: false }),
+    });
+    const { findByText } = renderTimeline();
+    await findByText('2 of 4 steps completed');
+
+    status = 'Running';
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(6_000);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('reports a failure to load the timeline', async () => {
+    mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () => ({ status: 404, body: { title: 'INSTANCE_NOT_FOUND', detail: 'Instance not found' } }),
+    });
+    const { findByText } = renderTimeline();
+    expect(await findByText('Instance not found')).toBeInTheDocument();
+  });
+});
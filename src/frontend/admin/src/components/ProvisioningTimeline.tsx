@@ -0,0 +1,176 @@
+import { For, Show, createEffect, createSignal, on, onCleanup } from 'solid-js';
+import { useInstances } from '../stores/instance.store';
+import type { ProvisioningStep, ProvisioningTimeline as Timeline } from '../types/instance';
+
+const REFRESH_INTERVAL_MS = 3_000;
+
+// "ConfigureDnsAndProxy" -> "Configure Dns And Proxy"
+function stepLabel(stepName: string): string {
+  return stepName.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+function stepBadgeClass(status: string): string {
+  switch (status) {
+    case 'Completed':
+      return 'bg-green-100 text-green-800';
+    case 'Failed':
+      return 'bg-red-100 text-red-800';
+    case 'InProgress':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+}
+
+function formatDuration(step: ProvisioningStep): string {
+  if (step.durationMs != null) {
+    if (step.durationMs < 1000) return `${step.durationMs}ms`;
+    const seconds = Math.round(step.durationMs / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  return step.status === 'InProgress' ? 'running' : '—';
+}
+
+interface ProvisioningTimelineProps {
+  instanceId: string;
+  // Called after a retry is queued so the page can pick up the new status
+  onRetried?: () => void;
+}
+
+export function ProvisioningTimeline(props: ProvisioningTimelineProps) {
+  const instanceStore = useInstances();
+  const [timeline, setTimeline] = createSignal<Timeline | null>(null);
+  const [isLoading, setIsLoading] = createSignal(true);
+  const [error, setError] = createSignal<string | null>(null);
+  const [expanded, setExpanded] = createSignal<string | null>(null);
+  const [isRetrying, setIsRetrying] = createSignal(false);
+  const [retryError, setRetryError] = createSignal<string | null>(null);
+
+  const load = async () => {
+    try {
+      setTimeline(await instanceStore.fetchProvisioningTimeline(props.instanceId));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch provisioning timeline:', err);
+      setError((err as { detail?: string })?.detail ?? 'Failed to load provisioning timeline');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  createEffect(on(() => props.instanceId, () => {
+    setIsLoading(true);
+    load();
+  }));
+
+  // Poll while the pipeline is running so steps tick over as they finish.
+  let refreshTimer: ReturnType<typeof setInterval> | undefined;
+  const stopRefresh = () => {
+    if (refreshTimer) clearInterval(refreshTimer);
+    refreshTimer = undefined;
+  };
+  onCleanup(stopRefresh);
+
+  createEffect(() => {
+    const running = timeline()?.instanceStatus === 'Provisioning';
+    if (running && !refreshTimer) {
+      refreshTimer = setInterval(load, REFRESH_INTERVAL_MS);
+    } else if (!running) {
+      stopRefresh();
+    }
+  });
+
+  const failedStep = () => timeline()?.steps.find((s) => s.status === 'Failed');
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    setRetryError(null);
+    try {
+      await instanceStore.retryProvisioning(props.instanceId);
+      await load();
+      props.onRetried?.();
+    } catch (err) {
+      console.error('Failed to retry provisioning:', err);
+      setRetryError((err as { detail?: string })?.detail ?? 'Failed to retry provisioning');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <Show when={!isLoading()} fallback={<p class="text-gray-500">Loading...</p>}>
+      <Show when={timeline()} fallback={<p class="text-red-600">{error()}</p>}>
+        {(current) => (
+          <div class="space-y-4">
+            <div class="flex items-center gap-4">
+              <span class="text-sm text-gray-600">
+                {current().steps.filter((s) => s.status === 'Completed').length} of {current().steps.length} steps completed
+              </span>
+              <Show when={current().canRetry && failedStep()}>
+                {(step) => (
+                  <button
+                    onClick={handleRetry}
+                    disabled={isRetrying()}
+                    class="ml-auto px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isRetrying() ? 'Retrying...' : `Retry from ${stepLabel(step().stepName)}`}
+                  </button>
+                )}
+              </Show>
+            </div>
+            <Show when={retryError()}>
+              <p class="text-sm text-red-600">{retryError()}</p>
+            </Show>
+            <Show when={error()}>
+              <p class="text-sm text-red-600">{error()}</p>
+            </Show>
+
+            <ol class="border-l-2 border-gray-200 space-y-3">
+              <For each={current().steps}>
+                {(step) => (
+                  <li data-testid={`provisioning-step-${step.stepName}`} class="pl-4">
+                    <div class="flex items-center gap-3 text-sm">
+                      <span class="font-medium w-56">{stepLabel(step.stepName)}</span>
+                      <span class={`px-2 py-0.5 text-xs rounded ${stepBadgeClass(step.status)}`}>{step.status}</span>
+                      <span class="text-gray-500">{formatDuration(step)}</span>
+                      <Show when={step.attempts > 1}>
+                        <span class="text-gray-500">{step.attempts} attempts</span>
+                      </Show>
+                      <Show when={step.events.length > 0}>
+                        <button
+                          onClick={() => setExpanded(expanded() === step.stepName ? null : step.stepName)}
+                          class="ml-auto text-blue-600 hover:underline"
+                        >
+                          {expanded() === step.stepName ? 'Hide attempts' : 'Show attempts'}
+                        </button>
+                      </Show>
+                    </div>
+                    <Show when={step.errorMessage}>
+                      <p class="mt-1 text-sm text-red-600 font-mono">{step.errorMessage}</p>
+                    </Show>
+                    <Show when={expanded() === step.stepName}>
+                      <table class="mt-2 text-xs text-gray-600">
+                        <tbody>
+                          <For each={step.events}>
+                            {(attempt) => (
+                              <tr>
+                                <td class="pr-4">{attempt.phase}</td>
+                                <td class="pr-4">{attempt.status}</td>
+                                <td class="pr-4">{attempt.startedAt ? new Date(attempt.startedAt).toLocaleString() : '—'}</td>
+                                <td class="text-red-600">{attempt.errorMessage}</td>
+                              </tr>
+                            )}
+                          </For>
+                        </tbody>
+                      </table>
+                    </Show>
+                  </li>
+                )}
+              </For>
+            </ol>
+          </div>
+        )}
+      </Show>
+    </Show>
+  );
+}
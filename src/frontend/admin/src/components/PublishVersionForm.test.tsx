@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, fireEvent } from '@solidjs/testing-library';
+import { PublishVersionForm, validateReleaseDraft } from './PublishVersionForm';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { ReleaseNotes } from '../types/instance';
+
+function notes(overrides: Partial<ReleaseNotes> = {}): ReleaseNotes {
+  return {
+    version: '',
+    features: [],
+    fixes: [],
+    other: [],
+    breakingChanges: [],
+    migrationNotes: '',
+    knownIssues: '',
+    ...overrides,
+  };
+}
+
+function renderForm() {
+  const onPublished = vi.fn();
+  const result = render(() => <PublishVersionForm onPublished={onPublished} onCancel={() => {}} />);
+  const field = (selector: string) => result.container.querySelector(selector) as HTMLInputElement;
+  return { ...result, field, onPublished };
+}
+
+describe('validateReleaseDraft', () => {
+  it('accepts a complete draft', () => {
+    const errors = validateReleaseDraft(
+      { version: '1.2.3', image: 'ghcr.io/xcord/fed:1.2.3', notes: notes({ fixes: [{ summary: 'Fix', commit: 'abc1234' }] }) },
+      [],
+    );
+    expect(errors).toEqual({});
+  });
+
+  it('rejects malformed versions, untagged images and duplicates', () => {
+    expect(validateReleaseDraft({ version: 'v1', image: 'fed', notes: notes() }, [])).toMatchObject({
+      version: 'Version must look like 1.2.3 or 1.2.3-rc.1',
+      image: 'Image must include a tag, e.g. ghcr.io/xcord/fed:1.2.3',
+    });
+    expect(validateReleaseDraft({ version: '1.0.0', image: 'fed:1.0.0', notes: notes() }, ['1.0.0']).version)
+      .toBe('Version 1.0.0 is already published');
+  });
+
+  it('flags empty entries, bad commits and breaking changes without migration notes', () => {
+    const errors = validateReleaseDraft(
+      {
+        version: '1.2.3',
+        image: 'fed:1.2.3',
+        notes: notes({
+          features: [{ summary: ' ', commit: 'not-a-sha' }],
+          breakingChanges: ['Dropped v1 API'],
+        }),
+      },
+      [],
+    );
+    expect(Object.keys(errors).sort()).toEqual(['features.0.commit', 'features.0.summary', 'migrationNotes']);
+  });
+});
+
+describe('PublishVersionForm', () => {
+  beforeEach(() => {
+    useInstances().reset();
+  });
+
+  it('renders the preview the same way the Version tab does', () => {
+    const { field, getByText, getByTestId } = renderForm();
+    fireEvent.input(field('#publish-version'), { target: { value: '2.0.0' } });
+    fireEvent.click(getByText('Add breaking change'));
+    fireEvent.input(field('[data-testid="breakingChanges-row-0"] input'), { target: { value: 'Removed legacy auth' } });
+    fireEvent.click(getByText('Add fix'));
+    fireEvent.input(field('[data-testid="fixes-row-0"] input[aria-label="Summary"]'), { target: { value: 'Fixed uploads' } });
+    fireEvent.input(field('[data-testid="fixes-row-0"] input[aria-label="Commit"]'), { target: { value: '0123456789abcdef' } });
+
+    const preview = getByTestId('release-notes-preview');
+    expect(preview).toHaveTextContent('Version 2.0.0');
+    expect(preview).toHaveTextContent('Breaking Changes');
+    expect(preview).toHaveTextContent('Removed legacy auth');
+    expect(preview).toHaveTextContent('Bug Fixes');
+    expect(preview).toHaveTextContent('0123456');
+    expect(preview).not.toHaveTextContent('0123456789');
+  });
+
+  it('shows validation errors instead of publishing an invalid release', () => {
+    const { calls } = mockFetch({});
+    const { field, getByText, getAllByText } = renderForm();
+    fireEvent.input(field('#publish-version'), { target: { value: '1.0' } });
+    fireEvent.click(getByText('Add breaking change'));
+    fireEvent.click(getAllByText('Publish Version').at(-1)!);
+
+    expect(getByText('Version must look like 1.2.3 or 1.2.3-rc.1')).toBeInTheDocument();
+    expect(getByText('Image is required')).toBeInTheDocument();
+    expect(getByText('Describe the breaking change')).toBeInTheDocument();
+    expect(getByText('Migration notes are required when there are breaking changes')).toBeInTheDocument();
+    expect(calls).toHaveLength(0);
+  });
+
+  it('removes entries from the editor', () => {
+    const { getByText, getByLabelText, queryByTestId } = renderForm();
+    fireEvent.click(getByText('Add other change'));
+    expect(queryByTestId('other-row-0')).toBeInTheDocument();
+    fireEvent.click(getByLabelText('Remove'));
+    expect(queryByTestId('other-row-0')).toBeNull();
+  });
+
+  it('shows the backend error when the version already exists', async () => {
+    mockFetch({
+      'POST /api/v1/admin/versions': () => ({
+        status: 409,
+        body: { title: 'VERSION_EXISTS', detail: "Version '1.0.0' already exists" },
+      }),
+    });
+    const { field, getAllByText, findByText, onPublished } = renderForm();
+    fireEvent.input(field('#publish-version'), { target: { value: '1.0.0' } });
+    fireEvent.input(field('#publish-image'), { target: { value: 'fed:1.0.0' } });
+    fireEvent.click(getAllByText('Publish Version').at(-1)!);
+    expect(await findByText("Version '1.0.0' already exists")).toBeInTheDocument();
+    expect(onPublished).not.toHaveBeenCalled();
+  });
+});
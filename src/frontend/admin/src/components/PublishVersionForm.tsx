@@ -0,0 +1,355 @@
+import { For, Index, Show, createMemo, createSignal } from 'solid-js';
+import { useInstances } from '../stores/instance.store';
+import type { ReleaseNotes } from '../types/instance';
+import { ReleaseNotesView } from './ReleaseNotesView';
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/;
+const IMAGE_PATTERN = /^[a-z0-9][a-z0-9._/:-]*:[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+const COMMIT_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+const OTHER_TYPES = ['chore', 'docs', 'refactor', 'perf', 'test', 'build', 'ci'];
+
+type ChangeList = 'features' | 'fixes' | 'other';
+
+interface ReleaseDraft {
+  version: string;
+  image: string;
+  notes: ReleaseNotes;
+}
+
+type ChangeItem = ReleaseNotes['other'][number];
+
+export type ReleaseDraftErrors = Record<string, string>;
+
+function emptyNotes(): ReleaseNotes {
+  return {
+    version: '',
+    features: [],
+    fixes: [],
+    other: [],
+    breakingChanges: [],
+    migrationNotes: '',
+    knownIssues: '',
+  };
+}
+
+// Errors are keyed by field path (e.g. "features.0.summary") so each input can show its own message.
+export function validateReleaseDraft(draft: ReleaseDraft, existingVersions: string[]): ReleaseDraftErrors {
+  const errors: ReleaseDraftErrors = {};
+  const version = draft.version.trim();
+  const image = draft.image.trim();
+
+  if (!version) errors.version = 'Version is required';
+  else if (!VERSION_PATTERN.test(version)) errors.version = 'Version must look like 1.2.3 or 1.2.3-rc.1';
+  else if (existingVersions.includes(version)) errors.version = `Version ${version} is already published`;
+
+  if (!image) errors.image = 'Image is required';
+  else if (!IMAGE_PATTERN.test(image)) errors.image = 'Image must include a tag, e.g. ghcr.io/xcord/fed:1.2.3';
+
+  for (const list of ['features', 'fixes', 'other'] as const) {
+    draft.notes[list].forEach((item, index) => {
+      if (!item.summary.trim()) errors[`${list}.${index}.summary`] = 'Summary is required';
+      if (item.commit.trim() && !COMMIT_PATTERN.test(item.commit.trim())) {
+        errors[`${list}.${index}.commit`] = 'Commit must be a 7-40 character hex SHA';
+      }
+    });
+  }
+
+  draft.notes.breakingChanges.forEach((change, index) => {
+    if (!change.trim()) errors[`breakingChanges.${index}`] = 'Describe the breaking change';
+  });
+
+  if (draft.notes.breakingChanges.length > 0 && !draft.notes.migrationNotes.trim()) {
+    errors.migrationNotes = 'Migration notes are required when there are breaking changes';
+  }
+
+  return errors;
+}
+
+function toReleaseNotes(draft: ReleaseDraft): ReleaseNotes {
+  const trimItem = <T extends { summary: string; commit: string }>(item: T): T => ({
+    ...item,
+    summary: item.summary.trim(),
+    commit: item.commit.trim(),
+  });
+  return {
+    version: draft.version.trim(),
+    features: draft.notes.features.map(trimItem),
+    fixes: draft.notes.fixes.map(trimItem),
+    other: draft.notes.other.map(trimItem),
+    breakingChanges: draft.notes.breakingChanges.map((c) => c.trim()),
+    migrationNotes: draft.notes.migrationNotes.trim(),
+    knownIssues: draft.notes.knownIssues.trim(),
+  };
+}
+
+interface PublishVersionFormProps {
+  onPublished: (version: string) => void;
+  onCancel: () => void;
+}
+
+export function PublishVersionForm(props: PublishVersionFormProps) {
+  const instanceStore = useInstances();
+  const [version, setVersion] = createSignal('');
+  const [image, setImage] = createSignal('');
+  const [notes, setNotes] = createSignal<ReleaseNotes>(emptyNotes());
+  const [submitted, setSubmitted] = createSignal(false);
+  const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const draft = (): ReleaseDraft => ({ version: version(), image: image(), notes: notes() });
+  const errors = createMemo(() =>
+    validateReleaseDraft(draft(), instanceStore.availableVersions.map((v) => v.version)),
+  );
+  // Messages appear once the admin tries to publish, then track edits live.
+  const errorFor = (key: string) => (submitted() ? errors()[key] : undefined);
+  const preview = createMemo(() => toReleaseNotes(draft()));
+
+  const addChange = (list: ChangeList) =>
+    setNotes((current) => ({
+      ...current,
+      [list]: [...current[list], list === 'other' ? { summary: '', commit: '', type: OTHER_TYPES[0] } : { summary: '', commit: '' }],
+    }));
+
+  const updateChange = (list: ChangeList, index: number, change: Partial<ChangeItem>) =>
+    setNotes((current) => ({
+      ...current,
+      [list]: current[list].map((item, i) => (i === index ? { ...item, ...change } : item)),
+    }));
+
+  const removeChange = (list: ChangeList, index: number) =>
+    setNotes((current) => ({ ...current, [list]: current[list].filter((_, i) => i !== index) }));
+
+  const updateBreakingChange = (index: number, value: string) =>
+    setNotes((current) => ({
+      ...current,
+      breakingChanges: current.breakingChanges.map((change, i) => (i === index ? value : change)),
+    }));
+
+  const handleSubmit = async (e: Event) => {
+    e.preventDefault();
+    setSubmitted(true);
+    if (Object.keys(errors()).length > 0) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const releaseNotes = toReleaseNotes(draft());
+      await instanceStore.publishVersion({
+        version: releaseNotes.version,
+        image: image().trim(),
+        releaseNotes: JSON.stringify(releaseNotes),
+      });
+      props.onPublished(releaseNotes.version);
+    } catch (err) {
+      console.error('Failed to publish version:', err);
+      setError((err as { detail?: string })?.detail ?? 'Failed to publish version');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = (key: string) =>
+    `w-full px-3 py-2 border rounded text-sm ${errorFor(key) ? 'border-red-500' : 'border-gray-300'}`;
+
+  const FieldError = (fieldProps: { name: string }) => (
+    <Show when={errorFor(fieldProps.name)}>
+      <p class="text-xs text-red-600 mt-1">{errorFor(fieldProps.name)}</p>
+    </Show>
+  );
+
+  const ChangeSection = (sectionProps: { list: ChangeList; title: string; addLabel: string }) => (
+    <div>
+      <div class="flex items-center justify-between mb-2">
+        <h4 class="text-sm font-semibold text-gray-700">{sectionProps.title}</h4>
+        <button
+          type="button"
+          onClick={() => addChange(sectionProps.list)}
+          class="text-sm text-blue-600 hover:underline"
+        >
+          {sectionProps.addLabel}
+        </button>
+      </div>
+      <div class="space-y-2">
+        <Index each={notes()[sectionProps.list] as ChangeItem[]}>
+          {(item, index) => (
+            <div data-testid={`${sectionProps.list}-row-${index}`} class="flex items-start gap-2">
+              <Show when={sectionProps.list === 'other'}>
+                <select
+                  aria-label="Type"
+                  value={item().type}
+                  onChange={(e) => updateChange('other', index, { type: e.currentTarget.value })}
+                  class="px-2 py-2 border border-gray-300 rounded text-sm"
+                >
+                  <For each={OTHER_TYPES}>{(type) => <option value={type}>{type}</option>}</For>
+                </select>
+              </Show>
+              <div class="flex-1">
+                <input
+                  type="text"
+                  aria-label="Summary"
+                  placeholder="Summary"
+                  value={item().summary}
+                  onInput={(e) => updateChange(sectionProps.list, index, { summary: e.currentTarget.value })}
+                  class={inputClass(`${sectionProps.list}.${index}.summary`)}
+                />
+                <FieldError name={`${sectionProps.list}.${index}.summary`} />
+              </div>
+              <div class="w-32">
+                <input
+                  type="text"
+                  aria-label="Commit"
+                  placeholder="Commit"
+                  value={item().commit}
+                  onInput={(e) => updateChange(sectionProps.list, index, { commit: e.currentTarget.value })}
+                  class={`${inputClass(`${sectionProps.list}.${index}.commit`)} font-mono`}
+                />
+                <FieldError name={`${sectionProps.list}.${index}.commit`} />
+              </div>
+              <button
+                type="button"
+                aria-label="Remove"
+                onClick={() => removeChange(sectionProps.list, index)}
+                class="px-2 py-2 text-sm text-gray-500 hover:text-red-600"
+              >
+                &times;
+              </button>
+            </div>
+          )}
+        </Index>
+      </div>
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} class="grid grid-cols-2 gap-6" noValidate>
+      <div class="space-y-5">
+        <div class="grid grid-cols-2 gap-4">
+          <div>
+            <label for="publish-version" class="block text-sm font-medium text-gray-700 mb-1">Version</label>
+            <input
+              id="publish-version"
+              type="text"
+              placeholder="1.2.3"
+              value={version()}
+              onInput={(e) => setVersion(e.currentTarget.value)}
+              class={inputClass('version')}
+            />
+            <FieldError name="version" />
+          </div>
+          <div>
+            <label for="publish-image" class="block text-sm font-medium text-gray-700 mb-1">Image</label>
+            <input
+              id="publish-image"
+              type="text"
+              placeholder="ghcr.io/xcord/fed:1.2.3"
+              value={image()}
+              onInput={(e) => setImage(e.currentTarget.value)}
+              class={`${inputClass('image')} font-mono`}
+            />
+            <FieldError name="image" />
+          </div>
+        </div>
+
+        <div>
+          <div class="flex items-center justify-between mb-2">
+            <h4 class="text-sm font-semibold text-gray-700">Breaking Changes</h4>
+            <button
+              type="button"
+              onClick={() => setNotes((current) => ({ ...current, breakingChanges: [...current.breakingChanges, ''] }))}
+              class="text-sm text-blue-600 hover:underline"
+            >
+              Add breaking change
+            </button>
+          </div>
+          <div class="space-y-2">
+            <Index each={notes().breakingChanges}>
+              {(change, index) => (
+                <div data-testid={`breakingChanges-row-${index}`} class="flex items-start gap-2">
+                  <div class="flex-1">
+                    <input
+                      type="text"
+                      aria-label="Breaking change"
+                      value={change()}
+                      onInput={(e) => updateBreakingChange(index, e.currentTarget.value)}
+                      class={inputClass(`breakingChanges.${index}`)}
+                    />
+                    <FieldError name={`breakingChanges.${index}`} />
+                  </div>
+                  <button
+                    type="button"
+                    aria-label="Remove"
+                    onClick={() =>
+                      setNotes((current) => ({
+                        ...current,
+                        breakingChanges: current.breakingChanges.filter((_, i) => i !== index),
+                      }))
+                    }
+                    class="px-2 py-2 text-sm text-gray-500 hover:text-red-600"
+                  >
+                    &times;
+                  </button>
+                </div>
+              )}
+            </Index>
+          </div>
+        </div>
+
+        <ChangeSection list="features" title="New Features" addLabel="Add feature" />
+        <ChangeSection list="fixes" title="Bug Fixes" addLabel="Add fix" />
+        <ChangeSection list="other" title="Other Changes" addLabel="Add other change" />
+
+        <div>
+          <label for="publish-migration-notes" class="block text-sm font-semibold text-gray-700 mb-1">
+            Migration Notes
+          </label>
+          <textarea
+            id="publish-migration-notes"
+            rows={3}
+            value={notes().migrationNotes}
+            onInput={(e) => setNotes((current) => ({ ...current, migrationNotes: e.currentTarget.value }))}
+            class={inputClass('migrationNotes')}
+          />
+          <FieldError name="migrationNotes" />
+        </div>
+
+        <div>
+          <label for="publish-known-issues" class="block text-sm font-semibold text-gray-700 mb-1">
+            Known Issues
+          </label>
+          <textarea
+            id="publish-known-issues"
+            rows={3}
+            value={notes().knownIssues}
+            onInput={(e) => setNotes((current) => ({ ...current, knownIssues: e.currentTarget.value }))}
+            class={inputClass('knownIssues')}
+          />
+        </div>
+
+        <Show when={error()}>
+          <div class="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">{error()}</div>
+        </Show>
+
+        <div class="flex gap-2">
+          <button
+            type="submit"
+            disabled={isSubmitting()}
+            class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting() ? 'Publishing...' : 'Publish Version'}
+          </button>
+          <button type="button" onClick={() => props.onCancel()} class="px-4 py-2 border rounded hover:bg-gray-50">
+            Cancel
+          </button>
+        </div>
+      </div>
+
+      <div data-testid="release-notes-preview" class="border border-gray-200 rounded-lg p-4 self-start">
+        <p class="text-xs font-medium text-gray-500 uppercase mb-3">Preview</p>
+        <h3 class="text-lg font-semibold text-gray-900">Version {preview().version || '—'}</h3>
+        <p class="text-xs text-gray-500 font-mono mt-0.5 mb-4">{image().trim() || '—'}</p>
+        <ReleaseNotesView notes={preview()} />
+      </div>
+    </form>
+  );
+}
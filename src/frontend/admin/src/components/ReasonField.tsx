@@ -0,0 +1,27 @@
+interface ReasonFieldProps {
+  value: string;
+  onInput: (value: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Optional justification for a destructive admin action, recorded with the
+ * action in the audit log.
+ */
+export function ReasonField(props: ReasonFieldProps) {
+  return (
+    <label class="block text-sm mb-4">
+      <span class="block font-medium text-gray-700 mb-1">Reason (optional)</span>
+      <textarea
+        data-testid="audit-reason"
+        rows={2}
+        maxLength={1000}
+        value={props.value}
+        disabled={props.disabled}
+        onInput={(e) => props.onInput(e.currentTarget.value)}
+        placeholder="Recorded in the audit log"
+        class="w-full px-3 py-2 border border-gray-300 rounded"
+      />
+    </label>
+  );
+}
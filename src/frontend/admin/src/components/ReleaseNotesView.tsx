@@ -0,0 +1,112 @@
+import { Show, For } from 'solid-js';
+import type { ReleaseNotes } from '../types/instance';
+
+export function parseReleaseNotes(raw: string | null): ReleaseNotes | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ReleaseNotes;
+  } catch {
+    return null;
+  }
+}
+
+interface ReleaseNotesViewProps {
+  notes: ReleaseNotes;
+}
+
+// Shared by the instance Version tab and the publish preview so both render identically.
+export function ReleaseNotesView(props: ReleaseNotesViewProps) {
+  return (
+    <div class="space-y-4">
+      <Show when={props.notes.breakingChanges.length > 0}>
+        <div class="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h4 class="text-sm font-semibold text-red-800 mb-2">Breaking Changes</h4>
+          <ul class="list-disc list-inside space-y-1">
+            <For each={props.notes.breakingChanges}>
+              {(change) => (
+                <li class="text-sm text-red-700">{change}</li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.notes.features.length > 0}>
+        <div>
+          <h4 class="text-sm font-semibold text-gray-700 mb-2">New Features</h4>
+          <ul class="space-y-1">
+            <For each={props.notes.features}>
+              {(item) => (
+                <li class="flex items-start gap-2 text-sm text-gray-700">
+                  <span class="text-green-500 mt-0.5">+</span>
+                  <span>{item.summary}</span>
+                  <span class="text-xs text-gray-400 font-mono ml-auto">
+                    {item.commit.slice(0, 7)}
+                  </span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.notes.fixes.length > 0}>
+        <div>
+          <h4 class="text-sm font-semibold text-gray-700 mb-2">Bug Fixes</h4>
+          <ul class="space-y-1">
+            <For each={props.notes.fixes}>
+              {(item) => (
+                <li class="flex items-start gap-2 text-sm text-gray-700">
+                  <span class="text-blue-500 mt-0.5">*</span>
+                  <span>{item.summary}</span>
+                  <span class="text-xs text-gray-400 font-mono ml-auto">
+                    {item.commit.slice(0, 7)}
+                  </span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.notes.other.length > 0}>
+        <div>
+          <h4 class="text-sm font-semibold text-gray-700 mb-2">Other Changes</h4>
+          <ul class="space-y-1">
+            <For each={props.notes.other}>
+              {(item) => (
+                <li class="flex items-start gap-2 text-sm text-gray-700">
+                  <span class="text-gray-400 mt-0.5 text-xs font-medium uppercase">
+                    {item.type}
+                  </span>
+                  <span>{item.summary}</span>
+                  <span class="text-xs text-gray-400 font-mono ml-auto">
+                    {item.commit.slice(0, 7)}
+                  </span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.notes.migrationNotes}>
+        <div class="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <h4 class="text-sm font-semibold text-yellow-800 mb-1">Migration Notes</h4>
+          <p class="text-sm text-yellow-700 whitespace-pre-wrap">
+            {props.notes.migrationNotes}
+          </p>
+        </div>
+      </Show>
+
+      <Show when={props.notes.knownIssues}>
+        <div class="bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <h4 class="text-sm font-semibold text-gray-700 mb-1">Known Issues</h4>
+          <p class="text-sm text-gray-600 whitespace-pre-wrap">
+            {props.notes.knownIssues}
+          </p>
+        </div>
+      </Show>
+    </div>
+  );
+}
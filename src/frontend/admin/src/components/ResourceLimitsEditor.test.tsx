@@ -3,67 +3,120 @@ import { render, fireEvent, waitFor } from '@solidjs/testing-library';
 import { ResourceLimitsEditor } from './ResourceLimitsEditor';
 import { useInstances } from '../stores/instance.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
-import type { ResourceLimits } from '../types/instance';
+import type { InstanceConfig } from '../types/instance';
 
-const limits: ResourceLimits = {
-  maxMembers: 100,
-  maxServers: 5,
-  maxChannelsPerServer: 50,
-  maxFileUploadMb: 25,
-  maxStorageGb: 10,
-  maxMonthlyBandwidthGb: 100,
+const CONFIG_PATH = '/api/v1/admin/instances/inst-1/config';
+
+const config: InstanceConfig = {
+  tier: 'Basic',
+  mediaEnabled: false,
+  resourceLimits: [
+    { key: 'maxUsers', label: 'Max Users', group: 'Capacity', unit: 'users', min: 1, max: 1000, tierDefault: 50, value: 50 },
+    { key: 'maxCpuPercent', label: 'CPU', group: 'Compute', unit: '%', min: 1, max: 1600, tierDefault: 50, value: 80 },
+    { key: 'broadcastMaxBitrateKbps', label: 'Max Bitrate', group: 'Broadcasting', unit: 'kbps', min: 0, max: 50000, tierDefault: 2500, value: 2500 },
+  ],
+  featureFlags: [],
 };
 
+function renderEditor() {
+  return render(() => <ResourceLimitsEditor instanceId="inst-1" />);
+}
+
 describe('ResourceLimitsEditor', () => {
   beforeEach(() => {
     useInstances().reset();
   });
 
-  it('renders heading and labels', () => {
-    const { getByText } = render(() => (
-      <ResourceLimitsEditor instanceId="inst-1" initialLimits={limits} />
-    ));
+  it('renders groups, labels and units from the schema', async () => {
+    mockFetch({ [`GET ${CONFIG_PATH}`]: () => config });
+    const { findByText, getByText } = renderEditor();
     expect(getByText('Resource Limits')).toBeInTheDocument();
-    expect(getByText('Max Members')).toBeInTheDocument();
+    expect(await findByText('Max Users')).toBeInTheDocument();
+    expect(getByText('Capacity')).toBeInTheDocument();
+    expect(getByText('Broadcasting')).toBeInTheDocument();
+    expect(getByText('Max Bitrate')).toBeInTheDocument();
+    expect(getByText('(kbps)')).toBeInTheDocument();
+    expect(getByText('Defaults shown for the Basic tier')).toBeInTheDocument();
   });
 
-  it('inputs are disabled until Edit is clicked', () => {
-    const { container } = render(() => (
-      <ResourceLimitsEditor instanceId="inst-1" initialLimits={limits} />
-    ));
-    const inputs = container.querySelectorAll('input');
-    inputs.forEach((i) => expect((i as HTMLInputElement).disabled).toBe(true));
+  it('marks values that differ from the tier default', async () => {
+    mockFetch({ [`GET ${CONFIG_PATH}`]: () => config });
+    const { findAllByText } = renderEditor();
+    expect(await findAllByText('(overridden)')).toHaveLength(1);
   });
 
-  it('clicking Edit enables inputs and shows Save/Cancel', () => {
-    const { container, getByText } = render(() => (
-      <ResourceLimitsEditor instanceId="inst-1" initialLimits={limits} />
-    ));
+  it('inputs are disabled until Edit is clicked', async () => {
+    mockFetch({ [`GET ${CONFIG_PATH}`]: () => config });
+    const { container, findByText, getByText } = renderEditor();
+    await findByText('Max Users');
+    const inputs = container.querySelectorAll('input');
+    expect(inputs).toHaveLength(3);
+    inputs.forEach((i) => expect((i as HTMLInputElement).disabled).toBe(true));
     fireEvent.click(getByText('Edit'));
-    const firstInput = container.querySelector('input') as HTMLInputElement;
-    expect(firstInput.disabled).toBe(false);
+    expect((container.querySelector('input') as HTMLInputElement).disabled).toBe(false);
     expect(getByText('Save Changes')).toBeInTheDocument();
   });
 
-  it('Cancel returns view mode', () => {
-    const { getByText, queryByText } = render(() => (
-      <ResourceLimitsEditor instanceId="inst-1" initialLimits={limits} />
-    ));
+  it('Cancel restores the loaded values and returns to view mode', async () => {
+    mockFetch({ [`GET ${CONFIG_PATH}`]: () => config });
+    const { container, findByText, getByText, queryByText } = renderEditor();
+    await findByText('Max Users');
     fireEvent.click(getByText('Edit'));
+    const input = container.querySelector('#limit-maxUsers') as HTMLInputElement;
+    fireEvent.input(input, { target: { value: '70' } });
     fireEvent.click(getByText('Cancel'));
     expect(queryByText('Save Changes')).toBeNull();
+    expect(input.value).toBe('50');
   });
 
-  it('Save calls API and exits edit mode on success', async () => {
-    mockFetch({
+  it('disables Save while a value is out of range', async () => {
+    mockFetch({ [`GET ${CONFIG_PATH}`]: () => config });
+    const { container, findByText, getByText } = renderEditor();
+    await findByText('Max Users');
+    fireEvent.click(getByText('Edit'));
+    fireEvent.input(container.querySelector('#limit-maxUsers')!, { target: { value: '5000' } });
+    expect(getByText('Must be between 1 and 1000')).toBeInTheDocument();
+    expect(getByText('Save Changes')).toBeDisabled();
+  });
+
+  it('Reset to Tier Defaults restores every default', async () => {
+    mockFetch({ [`GET ${CONFIG_PATH}`]: () => config });
+    const { container, findByText, getByText } = renderEditor();
+    await findByText('Max Users');
+    fireEvent.click(getByText('Edit'));
+    fireEvent.click(getByText('Reset to Tier Defaults'));
+    expect((container.querySelector('#limit-maxCpuPercent') as HTMLInputElement).value).toBe('50');
+  });
+
+  it('Save sends every keyed value and exits edit mode on success', async () => {
+    const { calls } = mockFetch({
+      [`GET ${CONFIG_PATH}`]: () => config,
       'PATCH /api/v1/admin/instances/inst-1/resource-limits': () => ({ status: 200, body: {} }),
-      'GET /api/v1/admin/instances/inst-1': () => ({ status: 200, body: {} }),
     });
-    const { getByText, queryByText } = render(() => (
-      <ResourceLimitsEditor instanceId="inst-1" initialLimits={limits} />
-    ));
+    const { container, findByText, getByText, queryByText } = renderEditor();
+    await findByText('Max Users');
     fireEvent.click(getByText('Edit'));
+    fireEvent.input(container.querySelector('#limit-maxUsers')!, { target: { value: '70' } });
     fireEvent.click(getByText('Save Changes'));
     await waitFor(() => expect(queryByText('Save Changes')).toBeNull());
+    const patch = calls.find((c) => c.method === 'PATCH');
+    expect(patch?.body).toEqual({
+      limits: { maxUsers: 70, maxCpuPercent: 80, broadcastMaxBitrateKbps: 2500 },
+    });
+  });
+
+  it('shows the backend error when Save is rejected', async () => {
+    mockFetch({
+      [`GET ${CONFIG_PATH}`]: () => config,
+      'PATCH /api/v1/admin/instances/inst-1/resource-limits': () => ({
+        status: 400,
+        body: { title: 'OUT_OF_RANGE', detail: 'CPU must be between 1 and 1600' },
+      }),
+    });
+    const { findByText, getByText } = renderEditor();
+    await findByText('Max Users');
+    fireEvent.click(getByText('Edit'));
+    fireEvent.click(getByText('Save Changes'));
+    expect(await findByText('CPU must be between 1 and 1600')).toBeInTheDocument();
   });
 });
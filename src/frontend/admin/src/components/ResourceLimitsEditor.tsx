@@ -1,48 +1,87 @@
-import { createSignal, createEffect } from 'solid-js';
+import { createSignal, onMount, For, Show } from 'solid-js';
 import { useInstances } from '../stores/instance.store';
-import type { ResourceLimits } from '../types/instance';
+import type { InstanceConfig, ResourceLimitField } from '../types/instance';
 
 interface ResourceLimitsEditorProps {
   instanceId: string;
-  initialLimits: ResourceLimits;
 }
 
+// Fields, labels, units and ranges all come from the backend config schema, so
+// limits added there show up here without frontend changes.
 export function ResourceLimitsEditor(props: ResourceLimitsEditorProps) {
   const instanceStore = useInstances();
-  const [limits, setLimits] = createSignal<ResourceLimits>(props.initialLimits);
+  const [config, setConfig] = createSignal<InstanceConfig | null>(null);
+  const [values, setValues] = createSignal<Record<string, number>>({});
+  const [isLoading, setIsLoading] = createSignal(true);
   const [isEditing, setIsEditing] = createSignal(false);
   const [isSaving, setIsSaving] = createSignal(false);
+  const [saveError, setSaveError] = createSignal<string | null>(null);
 
-  createEffect(() => {
-    setLimits(props.initialLimits);
+  const load = (loaded: InstanceConfig) => {
+    setConfig(loaded);
+    setValues(Object.fromEntries(loaded.resourceLimits.map((f) => [f.key, f.value])));
+  };
+
+  onMount(async () => {
+    try {
+      load(await instanceStore.fetchInstanceConfig(props.instanceId));
+    } catch (error) {
+      console.error('Failed to fetch resource limits:', error);
+    } finally {
+      setIsLoading(false);
+    }
   });
 
+  const groups = () => {
+    const byGroup = new Map<string, ResourceLimitField[]>();
+    for (const field of config()?.resourceLimits ?? []) {
+      byGroup.set(field.group, [...(byGroup.get(field.group) ?? []), field]);
+    }
+    return [...byGroup.entries()];
+  };
+
+  const isOutOfRange = (field: ResourceLimitField) => {
+    const value = values()[field.key];
+    return Number.isNaN(value) || value < field.min || value > field.max;
+  };
+
+  const hasInvalid = () => (config()?.resourceLimits ?? []).some(isOutOfRange);
+
   const handleSave = async () => {
     setIsSaving(true);
+    setSaveError(null);
     try {
-      await instanceStore.updateResourceLimits(props.instanceId, limits());
+      load(await instanceStore.updateResourceLimits(props.instanceId, values()));
       setIsEditing(false);
     } catch (error) {
       console.error('Failed to update limits:', error);
+      setSaveError((error as { detail?: string })?.detail ?? 'Failed to save resource limits');
     } finally {
       setIsSaving(false);
     }
   };
 
   const handleCancel = () => {
-    setLimits(props.initialLimits);
+    const current = config();
+    if (current) load(current);
+    setSaveError(null);
     setIsEditing(false);
   };
 
-  const updateLimit = (key: keyof ResourceLimits, value: number) => {
-    setLimits({ ...limits(), [key]: value });
+  const resetToDefaults = () => {
+    setValues(Object.fromEntries((config()?.resourceLimits ?? []).map((f) => [f.key, f.tierDefault])));
   };
 
   return (
     <div class="bg-white rounded-lg shadow p-6">
       <div class="flex items-center justify-between mb-4">
-        <h3 class="text-lg font-semibold">Resource Limits</h3>
-        {!isEditing() && (
+        <div>
+          <h3 class="text-lg font-semibold">Resource Limits</h3>
+          <Show when={config()}>
+            <p class="text-xs text-gray-500">Defaults shown for the {config()!.tier} tier</p>
+          </Show>
+        </div>
+        {!isEditing() && config() && (
           <button
             onClick={() => setIsEditing(true)}
             class="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
@@ -52,94 +91,92 @@ export function ResourceLimitsEditor(props: ResourceLimitsEditorProps) {
         )}
       </div>
 
-      <div class="space-y-3">
-        <div class="grid grid-cols-2 gap-4">
-          <div>
-            <label class="block text-sm font-medium mb-1">Max Members</label>
-            <input
-              type="number"
-              value={limits().maxMembers}
-              onInput={(e) => updateLimit('maxMembers', parseInt(e.currentTarget.value))}
-              disabled={!isEditing()}
-              class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
-            />
-          </div>
-
-          <div>
-            <label class="block text-sm font-medium mb-1">Max Servers</label>
-            <input
-              type="number"
-              value={limits().maxServers}
-              onInput={(e) => updateLimit('maxServers', parseInt(e.currentTarget.value))}
-              disabled={!isEditing()}
-              class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
-            />
-          </div>
-
-          <div>
-            <label class="block text-sm font-medium mb-1">Max Channels per Server</label>
-            <input
-              type="number"
-              value={limits().maxChannelsPerServer}
-              onInput={(e) => updateLimit('maxChannelsPerServer', parseInt(e.currentTarget.value))}
-              disabled={!isEditing()}
-              class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
-            />
-          </div>
-
-          <div>
-            <label class="block text-sm font-medium mb-1">Max File Upload (MB)</label>
-            <input
-              type="number"
-              value={limits().maxFileUploadMb}
-              onInput={(e) => updateLimit('maxFileUploadMb', parseInt(e.currentTarget.value))}
-              disabled={!isEditing()}
-              class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
-            />
-          </div>
-
-          <div>
-            <label class="block text-sm font-medium mb-1">Max Storage (GB)</label>
-            <input
-              type="number"
-              value={limits().maxStorageGb}
-              onInput={(e) => updateLimit('maxStorageGb', parseInt(e.currentTarget.value))}
-              disabled={!isEditing()}
-              class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
-            />
-          </div>
-
-          <div>
-            <label class="block text-sm font-medium mb-1">Max Monthly Bandwidth (GB)</label>
-            <input
-              type="number"
-              value={limits().maxMonthlyBandwidthGb}
-              onInput={(e) => updateLimit('maxMonthlyBandwidthGb', parseInt(e.currentTarget.value))}
-              disabled={!isEditing()}
-              class="w-full px-3 py-2 border rounded disabled:bg-gray-100"
-            />
-          </div>
-        </div>
+      <Show when={isLoading()}>
+        <p class="text-gray-500 text-sm">Loading limits...</p>
+      </Show>
 
-        {isEditing() && (
-          <div class="flex gap-3 pt-2">
-            <button
-              onClick={handleSave}
-              disabled={isSaving()}
-              class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
-            >
-              {isSaving() ? 'Saving...' : 'Save Changes'}
-            </button>
-            <button
-              onClick={handleCancel}
-              disabled={isSaving()}
-              class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
-            >
-              Cancel
-            </button>
-          </div>
-        )}
-      </div>
+      <Show when={!isLoading() && !config()}>
+        <p class="text-red-600 text-sm">Failed to load resource limits</p>
+      </Show>
+
+      <Show when={config()}>
+        <div class="space-y-6">
+          <For each={groups()}>
+            {([group, fields]) => (
+              <div>
+                <h4 class="text-sm font-semibold text-gray-700 mb-2">{group}</h4>
+                <div class="grid grid-cols-2 gap-4">
+                  <For each={fields}>
+                    {(field) => (
+                      <div>
+                        <label for={`limit-${field.key}`} class="block text-sm font-medium mb-1">
+                          {field.label}
+                          <Show when={field.unit}>
+                            <span class="text-gray-500 font-normal"> ({field.unit})</span>
+                          </Show>
+                        </label>
+                        <input
+                          id={`limit-${field.key}`}
+                          type="number"
+                          min={field.min}
+                          max={field.max}
+                          value={values()[field.key]}
+                          onInput={(e) => setValues({ ...values(), [field.key]: parseInt(e.currentTarget.value) })}
+                          disabled={!isEditing()}
+                          class={`w-full px-3 py-2 border rounded disabled:bg-gray-100 ${
+                            isOutOfRange(field) ? 'border-red-500' : ''
+                          }`}
+                        />
+                        <p class="text-xs text-gray-500 mt-1">
+                          Tier default: {field.tierDefault}
+                          <Show when={values()[field.key] !== field.tierDefault}>
+                            <span class="ml-1 text-amber-600">(overridden)</span>
+                          </Show>
+                        </p>
+                        <Show when={isOutOfRange(field)}>
+                          <p class="text-xs text-red-600">
+                            Must be between {field.min} and {field.max}
+                          </p>
+                        </Show>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              </div>
+            )}
+          </For>
+
+          <Show when={saveError()}>
+            <p class="text-sm text-red-600">{saveError()}</p>
+          </Show>
+
+          {isEditing() && (
+            <div class="flex gap-3 pt-2">
+              <button
+                onClick={handleSave}
+                disabled={isSaving() || hasInvalid()}
+                class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {isSaving() ? 'Saving...' : 'Save Changes'}
+              </button>
+              <button
+                onClick={resetToDefaults}
+                disabled={isSaving()}
+                class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Reset to Tier Defaults
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={isSaving()}
+                class="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      </Show>
     </div>
   );
 }
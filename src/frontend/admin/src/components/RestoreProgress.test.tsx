@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent, render, waitFor } from '@solidjs/testing-library';
+import { RestoreProgress } from './RestoreProgress';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { RestoreOperation } from '../types/instance';
+
+const RESTORES_PATH = '/api/v1/admin/instances/i-1/restores';
+
+function restore(overrides: Partial<RestoreOperation>): RestoreOperation {
+  return {
+    id: 'r-1',
+    instanceId: 'i-1',
+    status: 'Restoring',
+    pointInTime: '2026-10-01T12:00:00Z',
+    components: [
+      { component: 'Database', backupId: 'b-1' },
+      { component: 'Redis', backupId: 'b-2' },
+    ],
+    safetyBackup: true,
+    safetyBackupId: 'b-9',
+    error: null,
+    startedAt: '2026-10-02T08:00:00Z',
+    restoredAt: null,
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+describe('RestoreProgress', () => {
+  beforeEach(() => {
+    useInstances().reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('renders nothing when the latest restore has finished', async () => {
+    const { calls } = mockFetch({ [`GET ${RESTORES_PATH}`]: () => ({ restores: [restore({ status: 'Completed' })] }) });
+    const { queryByTestId } = render(() => <RestoreProgress instanceId="i-1" />);
+    await waitFor(() => expect(calls).toHaveLength(1));
+    expect(queryByTestId('restore-progress')).toBeNull();
+  });
+
+  it('marks finished, current and upcoming steps of a running restore', async () => {
+    mockFetch({ [`GET ${RESTORES_PATH}`]: () => ({ restores: [restore({})] }) });
+    const { findByTestId, getByTestId } = render(() => <RestoreProgress instanceId="i-1" />);
+
+    expect(await findByTestId('restore-progress')).toHaveTextContent('Restore in progress');
+    expect(getByTestId('restore-step-safety')).toHaveAttribute('data-state', 'done');
+    expect(getByTestId('restore-step-restore')).toHaveAttribute('data-state', 'current');
+    expect(getByTestId('restore-step-restore')).toHaveTextContent('Restore Database, Redis');
+    expect(getByTestId('restore-step-health')).toHaveAttribute('data-state', 'pending');
+  });
+
+  it('skips the safety backup step when none was requested', async () => {
+    mockFetch({ [`GET ${RESTORES_PATH}`]: () => ({ restores: [restore({ status: 'Pending', safetyBackup: false })] }) });
+    const { findByTestId, queryByTestId } = render(() => <RestoreProgress instanceId="i-1" />);
+
+    expect(await findByTestId('restore-step-restore')).toHaveAttribute('data-state', 'pending');
+    expect(queryByTestId('restore-step-safety')).toBeNull();
+  });
+
+  it('polls until the restore finishes and keeps the outcome until dismissed', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    let current = restore({ status: 'VerifyingHealth', restoredAt: '2026-10-02T08:02:00Z' });
+    const { calls } = mockFetch({ [`GET ${RESTORES_PATH}`]: () => ({ restores: [current] }) });
+    const { findByTestId, getByTestId, queryByTestId } = render(() => <RestoreProgress instanceId="i-1" />);
+
+    expect(await findByTestId('restore-step-health')).toHaveAttribute('data-state', 'current');
+
+    current = restore({ status: 'Failed', error: 'Instance did not become healthy within 10 minutes of the restore' });
+    vi.advanceTimersByTime(3_000);
+    expect(await findByTestId('restore-progress-error')).toHaveTextContent('did not become healthy');
+    expect(getByTestId('restore-progress')).toHaveTextContent('Restore failed');
+    expect(calls).toHaveLength(2);
+
+    vi.advanceTimersByTime(30_000);
+    expect(calls).toHaveLength(2);
+
+    fireEvent.click(getByTestId('restore-progress-dismiss'));
+    expect(queryByTestId('restore-progress')).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { For, Show, createEffect, createSignal, on, onCleanup } from 'solid-js';
+import { useInstances } from '../stores/instance.store';
+import type { RestoreOperation } from '../types/instance';
+
+const REFRESH_INTERVAL_MS = 3000;
+
+type StepState = 'done' | 'current' | 'pending';
+
+interface RestoreProgressProps {
+  instanceId: string;
+}
+
+// Order in which a restore moves through its statuses
+const STATUS_ORDER = ['Pending', 'SafetyBackup', 'Restoring', 'VerifyingHealth', 'Completed'];
+
+function isRunning(restore: RestoreOperation): boolean {
+  return restore.status !== 'Completed' && restore.status !== 'Failed';
+}
+
+function steps(restore: RestoreOperation): { key: string; label: string; state: StepState }[] {
+  const position = STATUS_ORDER.indexOf(restore.status);
+  const stateOf = (status: string): StepState => {
+    const index = STATUS_ORDER.indexOf(status);
+    if (position > index) return 'done';
+    return position === index ? 'current' : 'pending';
+  };
+
+  return [
+    ...(restore.safetyBackup ? [{ key: 'safety', label: 'Safety backup', state: stateOf('SafetyBackup') }] : []),
+    {
+      key: 'restore',
+      label: `Restore ${restore.components.map((c) => c.component).join(', ')}`,
+      state: stateOf('Restoring'),
+    },
+    { key: 'health', label: 'Wait until healthy', state: stateOf('VerifyingHealth') },
+  ];
+}
+
+function headline(restore: RestoreOperation): string {
+  switch (restore.status) {
+    case 'Completed':
+      return 'Restore completed; the instance is healthy';
+    case 'Failed':
+      return 'Restore failed';
+    default:
+      return 'Restore in progress';
+  }
+}
+
+function bannerClass(restore: RestoreOperation): string {
+  switch (restore.status) {
+    case 'Completed':
+      return 'bg-green-50 border-green-200';
+    case 'Failed':
+      return 'bg-red-50 border-red-200';
+    default:
+      return 'bg-blue-50 border-blue-200';
+  }
+}
+
+const STEP_CLASSES: Record<StepState, string> = {
+  done: 'bg-green-100 text-green-800',
+  current: 'bg-blue-600 text-white',
+  pending: 'bg-gray-100 text-gray-500',
+};
+
+/**
+ * Progress of the instance's running restore, refreshed until it completes or
+ * fails. A restore that finishes while watched stays visible until dismissed;
+ * otherwise nothing is rendered.
+ */
+export function RestoreProgress(props: RestoreProgressProps) {
+  const instanceStore = useInstances();
+  const [restore, setRestore] = createSignal<RestoreOperation | null>(null);
+
+  let refreshTimer: ReturnType<typeof setInterval> | undefined;
+  const stopRefresh = () => {
+    if (refreshTimer) clearInterval(refreshTimer);
+    refreshTimer = undefined;
+  };
+  onCleanup(stopRefresh);
+
+  const load = async () => {
+    try {
+      const [latest] = await instanceStore.fetchRestores(props.instanceId);
+      const watching = restore();
+      if (latest && (isRunning(latest) || watching?.id === latest.id)) {
+        setRestore(latest);
+      }
+    } catch (error) {
+      console.error('Failed to fetch restores:', error);
+    }
+  };
+
+  createEffect(on(() => props.instanceId, load));
+
+  createEffect(() => {
+    const current = restore();
+    if (current && isRunning(current) && !refreshTimer) {
+      refreshTimer = setInterval(load, REFRESH_INTERVAL_MS);
+    } else if (!current || !isRunning(current)) {
+      stopRefresh();
+    }
+  });
+
+  return (
+    <Show when={restore()}>
+      {(current) => (
+        <div data-testid="restore-progress" class={`border rounded-lg p-4 mb-6 text-sm ${bannerClass(current())}`}>
+          <div class="flex items-start justify-between gap-4">
+            <div>
+              <p class="font-medium text-gray-900">{headline(current())}</p>
+              <p class="text-gray-600 mt-0.5">
+                Restoring to {new Date(current().pointInTime).toLocaleString()}, started{' '}
+                {new Date(current().startedAt).toLocaleString()}
+              </p>
+            </div>
+            <Show when={!isRunning(current())}>
+              <button
+                data-testid="restore-progress-dismiss"
+                onClick={() => setRestore(null)}
+                class="text-gray-500 hover:text-gray-700"
+              >
+                Dismiss
+              </button>
+            </Show>
+          </div>
+
+          <Show when={current().status !== 'Failed'}>
+            <ol class="flex flex-wrap gap-2 mt-3">
+              <For each={steps(current())}>
+                {(step) => (
+                  <li
+                    data-testid={`restore-step-${step.key}`}
+                    data-state={step.state}
+                    class={`px-3 py-1 rounded-full text-xs font-medium ${STEP_CLASSES[step.state]}`}
+                  >
+                    {step.label}
+                  </li>
+                )}
+              </For>
+            </ol>
+          </Show>
+
+          <Show when={current().error}>
+            <p data-testid="restore-progress-error" class="text-red-700 mt-2">{current().error}</p>
+          </Show>
+        </div>
+      )}
+    </Show>
+  );
+}
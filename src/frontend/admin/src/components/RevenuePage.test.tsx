@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
+import { RevenuePage } from './RevenuePage';
+import { useRevenue } from '../stores/revenue.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
+import type { PlatformRevenue } from '../types/revenue';
+
+const REVENUE_PATH = '/api/v1/hub/admin/revenue';
+
+const revenue: PlatformRevenue = {
+  totalAmountCents: 1_000_000,
+  totalPlatformFeeCents: 300_000,
+  currentMonthAmountCents: 60_000,
+  currentMonthPlatformFeeCents: 18_000,
+  activeInstanceCount: 4,
+  rangeStart: '2026-01-01T00:00:00Z',
+  rangeEnd: '2026-04-01T00:00:00Z',
+  rangeAmountCents: 150_000,
+  rangePlatformFeeCents: 45_000,
+  rangeOwnerPayoutCents: 105_000,
+  months: [
+    { month: '2026-01', amountCents: 40_000, platformFeeCents: 12_000, ownerPayoutCents: 28_000 },
+    { month: '2026-02', amountCents: 50_000, platformFeeCents: 15_000, ownerPayoutCents: 35_000 },
+    { month: '2026-03', amountCents: 60_000, platformFeeCents: 18_000, ownerPayoutCents: 42_000 },
+  ],
+  topInstances: [
+    {
+      instanceId: 'i-1',
+      domain: 'alpha.xcord.net',
+      displayName: 'Alpha, Inc.',
+      amountCents: 100_000,
+      platformFeeCents: 30_000,
+      ownerPayoutCents: 70_000,
+    },
+  ],
+};
+
+function renderPage(path = '/revenue?from=2026-01&to=2026-03') {
+  return renderWithRouter(() => <RevenuePage />, { path, routePath: '/revenue' });
+}
+
+describe('RevenuePage', () => {
+  beforeEach(() => {
+    useRevenue().reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('requests the selected months as a half-open UTC range', async () => {
+    const { calls } = mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByTestId } = renderPage();
+    await findByTestId('range-gross');
+    const url = new URL(calls[0].url, 'http://x');
+    expect(url.searchParams.get('from')).toBe('2026-01-01T00:00:00.000Z');
+    expect(url.searchParams.get('to')).toBe('2026-04-01T00:00:00.000Z');
+  });
+
+  it('defaults to the last six months', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    const { calls } = mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByTestId } = renderPage('/revenue');
+    await findByTestId('range-gross');
+    const url = new URL(calls[0].url, 'http://x');
+    expect(url.searchParams.get('from')).toBe('2026-05-01T00:00:00.000Z');
+    expect(url.searchParams.get('to')).toBe('2026-11-01T00:00:00.000Z');
+  });
+
+  it('shows gross, platform fee and payout totals for the range', async () => {
+    mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByTestId, getByTestId, getByText } = renderPage();
+    expect((await findByTestId('range-gross')).textContent).toBe('$1,500.00');
+    expect(getByTestId('range-fees').textContent).toBe('$450.00');
+    expect(getByTestId('range-payouts').textContent).toBe('$1,050.00');
+    expect(getByTestId('active-instance-count').textContent).toBe('4');
+    expect(getByText('30% of gross')).toBeInTheDocument();
+  });
+
+  it('breaks revenue down month over month', async () => {
+    mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByTestId, getByTestId } = renderPage();
+    expect(await findByTestId('revenue-month-2026-02')).toHaveTextContent('+25%');
+    expect(getByTestId('revenue-month-2026-03')).toHaveTextContent('+20%');
+    expect(getByTestId('revenue-chart').children).toHaveLength(3);
+  });
+
+  it('lists top instances with links and fee share', async () => {
+    mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByText, getByTestId } = renderPage();
+    expect(await findByText('alpha.xcord.net')).toHaveAttribute('href', '/instances/i-1');
+    expect(getByTestId('revenue-instance-i-1')).toHaveTextContent('30%');
+  });
+
+  it('refetches when a preset range is chosen', async () => {
+    const { calls } = mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByTestId, getByText } = renderPage();
+    await findByTestId('range-gross');
+    fireEvent.click(getByText('Last 12 months'));
+    await waitFor(() => expect(calls).toHaveLength(2));
+  });
+
+  it('rejects a range whose start is after its end without fetching', async () => {
+    const { calls } = mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByText } = renderPage('/revenue?from=2026-05&to=2026-03');
+    expect(await findByText('The start month must not be after the end month')).toBeInTheDocument();
+    expect(calls).toHaveLength(0);
+  });
+
+  it('rejects a range longer than five years without fetching', async () => {
+    const { calls } = mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByText } = renderPage('/revenue?from=2021-03&to=2026-03');
+    expect(await findByText('The range must not exceed 5 years')).toBeInTheDocument();
+    expect(calls).toHaveLength(0);
+  });
+
+  it('exports the monthly breakdown and top instances as CSV', async () => {
+    const blobs: Blob[] = [];
+    const filenames: string[] = [];
+    // jsdom implements neither object URLs nor download navigation
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      blobs.push(blob);
+      return 'blob:revenue';
+    });
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      filenames.push(this.download);
+    });
+    mockFetch({ [`GET ${REVENUE_PATH}`]: () => revenue });
+    const { findByTestId, getByText } = renderPage();
+    await findByTestId('range-gross');
+
+    fireEvent.click(getByText('Export monthly CSV'));
+    fireEvent.click(getByText('Export instances CSV'));
+
+    expect(filenames).toEqual(['revenue-monthly-2026-01-to-2026-03.csv', 'revenue-top-instances-2026-01-to-2026-03.csv']);
+    expect(await blobs[0].text()).toBe(
+      'Month,Gross (USD),Platform Fee (USD),Owner Payout (USD)\r\n' +
+        '2026-01,400.00,120.00,280.00\r\n' +
+        '2026-02,500.00,150.00,350.00\r\n' +
+        '2026-03,600.00,180.00,420.00\r\n',
+    );
+    expect(await blobs[1].text()).toContain('i-1,alpha.xcord.net,"Alpha, Inc.",1000.00,300.00,700.00');
+  });
+
+  it('shows the backend error when revenue cannot be loaded', async () => {
+    mockFetch({
+      [`GET ${REVENUE_PATH}`]: () => ({ status: 400, body: { title: 'INVALID_RANGE', detail: 'From must be before To' } }),
+    });
+    const { findByText } = renderPage();
+    expect(await findByText('From must be before To')).toBeInTheDocument();
+  });
+});
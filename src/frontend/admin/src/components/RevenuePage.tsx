@@ -0,0 +1,321 @@
+import { For, Show, createEffect } from 'solid-js';
+import { A, useSearchParams } from '@solidjs/router';
+import { useRevenue } from '../stores/revenue.store';
+import type { MonthlyRevenue } from '../types/revenue';
+import { downloadCsv, toCsv } from '../utils/csv';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// The backend refuses ranges longer than five years.
+const MAX_RANGE_MONTHS = 60;
+
+const PRESETS: { label: string; months: number | 'ytd' }[] = [
+  { label: 'Last 3 months', months: 3 },
+  { label: 'Last 6 months', months: 6 },
+  { label: 'Last 12 months', months: 12 },
+  { label: 'Year to date', months: 'ytd' },
+];
+
+// Months are "YYYY-MM" in UTC, matching how the backend buckets revenue.
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function addMonths(month: string, count: number): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m - 1 + count, 1)).toISOString().slice(0, 7);
+}
+
+function monthStart(month: string): string {
+  return `${month}-01T00:00:00.000Z`;
+}
+
+function monthLabel(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function formatCents(cents: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+}
+
+function csvAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function percent(part: number, whole: number): string {
+  return whole === 0 ? '—' : `${Math.round((part / whole) * 100)}%`;
+}
+
+function monthOverMonth(months: MonthlyRevenue[], index: number): string {
+  if (index === 0) return '—';
+  const previous = months[index - 1].amountCents;
+  if (previous === 0) return '—';
+  const change = Math.round(((months[index].amountCents - previous) / previous) * 100);
+  return `${change > 0 ? '+' : ''}${change}%`;
+}
+
+export function RevenuePage() {
+  const revenueStore = useRevenue();
+  const [searchParams, setSearchParams] = useSearchParams<{ from?: string; to?: string }>();
+
+  // The range lives in the URL so a bookkeeping view can be bookmarked and shared.
+  const toMonth = () => (MONTH_PATTERN.test(searchParams.to ?? '') ? searchParams.to! : currentMonth());
+  const fromMonth = () =>
+    MONTH_PATTERN.test(searchParams.from ?? '') ? searchParams.from! : addMonths(toMonth(), -5);
+  const rangeError = () => {
+    if (fromMonth() > toMonth()) return 'The start month must not be after the end month';
+    if (fromMonth() < addMonths(toMonth(), -(MAX_RANGE_MONTHS - 1))) return 'The range must not exceed 5 years';
+    return null;
+  };
+
+  createEffect(() => {
+    const from = fromMonth();
+    const to = toMonth();
+    if (rangeError()) return;
+    revenueStore.fetch(monthStart(from), monthStart(addMonths(to, 1)));
+  });
+
+  const applyPreset = (months: number | 'ytd') => {
+    const to = currentMonth();
+    const from = months === 'ytd' ? `${to.slice(0, 4)}-01` : addMonths(to, -(months - 1));
+    setSearchParams({ from, to });
+  };
+
+  const months = () => revenueStore.revenue?.months ?? [];
+  const maxMonthAmount = () => Math.max(0, ...months().map((m) => m.amountCents));
+  const barHeight = (cents: number) => (maxMonthAmount() === 0 ? 0 : (cents / maxMonthAmount()) * 100);
+
+  const exportMonths = () => {
+    const csv = toCsv(
+      ['Month', 'Gross (USD)', 'Platform Fee (USD)', 'Owner Payout (USD)'],
+      months().map((m) => [m.month, csvAmount(m.amountCents), csvAmount(m.platformFeeCents), csvAmount(m.ownerPayoutCents)]),
+    );
+    downloadCsv(`revenue-monthly-${fromMonth()}-to-${toMonth()}.csv`, csv);
+  };
+
+  const exportInstances = () => {
+    const csv = toCsv(
+      ['Instance ID', 'Domain', 'Display Name', 'Gross (USD)', 'Platform Fee (USD)', 'Owner Payout (USD)'],
+      (revenueStore.revenue?.topInstances ?? []).map((i) => [
+        i.instanceId,
+        i.domain,
+        i.displayName,
+        csvAmount(i.amountCents),
+        csvAmount(i.platformFeeCents),
+        csvAmount(i.ownerPayoutCents),
+      ]),
+    );
+    downloadCsv(`revenue-top-instances-${fromMonth()}-to-${toMonth()}.csv`, csv);
+  };
+
+  return (
+    <div class="space-y-6">
+      <div class="bg-white rounded-lg shadow">
+        <div class="p-6 border-b border-gray-200 flex items-end justify-between gap-4 flex-wrap">
+          <div>
+            <h2 class="text-xl font-semibold">Revenue</h2>
+            <Show when={revenueStore.revenue}>
+              {(revenue) => (
+                <p class="text-sm text-gray-500 mt-1">
+                  All time: {formatCents(revenue().totalAmountCents)} gross,{' '}
+                  {formatCents(revenue().totalPlatformFeeCents)} platform fees
+                </p>
+              )}
+            </Show>
+          </div>
+          <div class="flex items-end gap-3 flex-wrap">
+            <div class="flex gap-1">
+              <For each={PRESETS}>
+                {(preset) => (
+                  <button
+                    onClick={() => applyPreset(preset.months)}
+                    class="px-3 py-1 rounded text-sm bg-gray-100 hover:bg-gray-200"
+                  >
+                    {preset.label}
+                  </button>
+                )}
+              </For>
+            </div>
+            <div>
+              <label for="revenue-from" class="block text-xs font-medium text-gray-500 uppercase mb-1">From</label>
+              <input
+                id="revenue-from"
+                type="month"
+                value={fromMonth()}
+                onChange={(e) => MONTH_PATTERN.test(e.currentTarget.value) && setSearchParams({ from: e.currentTarget.value })}
+                class="px-3 py-1 border border-gray-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label for="revenue-to" class="block text-xs font-medium text-gray-500 uppercase mb-1">To</label>
+              <input
+                id="revenue-to"
+                type="month"
+                value={toMonth()}
+                onChange={(e) => MONTH_PATTERN.test(e.currentTarget.value) && setSearchParams({ to: e.currentTarget.value })}
+                class="px-3 py-1 border border-gray-300 rounded text-sm"
+              />
+            </div>
+          </div>
+        </div>
+
+        <Show when={rangeError() ?? revenueStore.error}>
+          <div class="px-6 pt-4 text-sm text-red-600">{rangeError() ?? revenueStore.error}</div>
+        </Show>
+
+        <Show when={!revenueStore.isLoading || revenueStore.revenue} fallback={<div class="p-6 text-center">Loading...</div>}>
+          <Show when={revenueStore.revenue}>
+            {(revenue) => (
+              <div class="p-6 grid grid-cols-4 gap-4">
+                <div>
+                  <div class="text-xs font-medium text-gray-500 uppercase">Gross</div>
+                  <div class="text-2xl font-semibold" data-testid="range-gross">
+                    {formatCents(revenue().rangeAmountCents)}
+                  </div>
+                </div>
+                <div>
+                  <div class="text-xs font-medium text-gray-500 uppercase">Platform Fees</div>
+                  <div class="text-2xl font-semibold text-blue-700" data-testid="range-fees">
+                    {formatCents(revenue().rangePlatformFeeCents)}
+                  </div>
+                  <div class="text-xs text-gray-500">
+                    {percent(revenue().rangePlatformFeeCents, revenue().rangeAmountCents)} of gross
+                  </div>
+                </div>
+                <div>
+                  <div class="text-xs font-medium text-gray-500 uppercase">Owner Payouts</div>
+                  <div class="text-2xl font-semibold" data-testid="range-payouts">
+                    {formatCents(revenue().rangeOwnerPayoutCents)}
+                  </div>
+                </div>
+                <div>
+                  <div class="text-xs font-medium text-gray-500 uppercase">Paid Instances</div>
+                  <div class="text-2xl font-semibold" data-testid="active-instance-count">
+                    {revenue().activeInstanceCount}
+                  </div>
+                </div>
+              </div>
+            )}
+          </Show>
+        </Show>
+      </div>
+
+      <Show when={revenueStore.revenue && !rangeError()}>
+        <div class="bg-white rounded-lg shadow p-6">
+          <div class="flex items-center justify-between mb-4">
+            <h3 class="text-lg font-semibold">Month over Month</h3>
+            <div class="flex items-center gap-4">
+              <div class="flex items-center gap-3 text-xs text-gray-600">
+                <span class="flex items-center gap-1"><span class="w-3 h-3 bg-blue-600 rounded-sm" /> Platform fee</span>
+                <span class="flex items-center gap-1"><span class="w-3 h-3 bg-blue-200 rounded-sm" /> Owner payout</span>
+              </div>
+              <button
+                onClick={exportMonths}
+                disabled={months().length === 0}
+                class="px-3 py-1 text-sm border rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                Export monthly CSV
+              </button>
+            </div>
+          </div>
+
+          <div data-testid="revenue-chart" class="flex items-end gap-2 h-48 border-b border-gray-200">
+            <For each={months()}>
+              {(month) => (
+                <div
+                  class="flex-1 h-full flex flex-col justify-end"
+                  title={`${monthLabel(month.month)}: ${formatCents(month.amountCents)} gross, ${formatCents(month.platformFeeCents)} platform fee`}
+                >
+                  <div class="bg-blue-600 rounded-t" style={{ height: `${barHeight(month.platformFeeCents)}%` }} />
+                  <div class="bg-blue-200" style={{ height: `${barHeight(month.ownerPayoutCents)}%` }} />
+                </div>
+              )}
+            </For>
+          </div>
+          <div class="flex gap-2 mt-1">
+            <For each={months()}>
+              {(month) => <div class="flex-1 text-center text-xs text-gray-500">{monthLabel(month.month)}</div>}
+            </For>
+          </div>
+
+          <table class="w-full mt-6">
+            <thead class="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Month</th>
+                <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Gross</th>
+                <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Platform Fee</th>
+                <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Owner Payout</th>
+                <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Change</th>
+              </tr>
+            </thead>
+            <tbody class="divide-y divide-gray-200">
+              <For each={months()}>
+                {(month, index) => (
+                  <tr data-testid={`revenue-month-${month.month}`}>
+                    <td class="px-6 py-3 text-sm">{monthLabel(month.month)}</td>
+                    <td class="px-6 py-3 text-sm text-right">{formatCents(month.amountCents)}</td>
+                    <td class="px-6 py-3 text-sm text-right">{formatCents(month.platformFeeCents)}</td>
+                    <td class="px-6 py-3 text-sm text-right">{formatCents(month.ownerPayoutCents)}</td>
+                    <td class="px-6 py-3 text-sm text-right">{monthOverMonth(months(), index())}</td>
+                  </tr>
+                )}
+              </For>
+            </tbody>
+          </table>
+        </div>
+
+        <div class="bg-white rounded-lg shadow">
+          <div class="p-6 border-b border-gray-200 flex items-center justify-between">
+            <h3 class="text-lg font-semibold">Top Instances</h3>
+            <button
+              onClick={exportInstances}
+              disabled={(revenueStore.revenue?.topInstances.length ?? 0) === 0}
+              class="px-3 py-1 text-sm border rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              Export instances CSV
+            </button>
+          </div>
+          <Show
+            when={(revenueStore.revenue?.topInstances.length ?? 0) > 0}
+            fallback={<div class="p-6 text-center text-gray-500">No revenue in this range</div>}
+          >
+            <table class="w-full">
+              <thead class="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Instance</th>
+                  <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Gross</th>
+                  <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Platform Fee</th>
+                  <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Owner Payout</th>
+                  <th class="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Fee Share</th>
+                </tr>
+              </thead>
+              <tbody class="divide-y divide-gray-200">
+                <For each={revenueStore.revenue!.topInstances}>
+                  {(instance) => (
+                    <tr data-testid={`revenue-instance-${instance.instanceId}`}>
+                      <td class="px-6 py-3 text-sm">
+                        <A href={`/instances/${instance.instanceId}`} class="font-medium text-blue-600 hover:underline">
+                          {instance.domain}
+                        </A>
+                        <div class="text-xs text-gray-500">{instance.displayName}</div>
+                      </td>
+                      <td class="px-6 py-3 text-sm text-right">{formatCents(instance.amountCents)}</td>
+                      <td class="px-6 py-3 text-sm text-right">{formatCents(instance.platformFeeCents)}</td>
+                      <td class="px-6 py-3 text-sm text-right">{formatCents(instance.ownerPayoutCents)}</td>
+                      <td class="px-6 py-3 text-sm text-right">{percent(instance.platformFeeCents, instance.amountCents)}</td>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          </Show>
+        </div>
+      </Show>
+    </div>
+  );
+}
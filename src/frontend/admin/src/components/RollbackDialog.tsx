@@ -0,0 +1,90 @@
+import { Show, createSignal } from 'solid-js';
+import type { JSX } from 'solid-js';
+import { ReasonField } from './ReasonField';
+
+interface RollbackDialogProps {
+  title: string;
+  children: JSX.Element;
+  // Label of the restore checkbox; null when there is no backup to restore
+  restoreLabel: string | null;
+  onConfirm: (restoreBackup: boolean, reason: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Restores cannot load data until backups hold more than metadata, so the option is
+// shown but cannot be chosen yet
+const RESTORE_UNAVAILABLE = 'Not available yet: backups hold only metadata, so there is nothing to restore from';
+
+/**
+ * Confirmation for rolling an upgrade back, with the option to also restore the
+ * database backup taken before it.
+ */
+export function RollbackDialog(props: RollbackDialogProps) {
+  const [restoreBackup, setRestoreBackup] = createSignal(false);
+  const [reason, setReason] = createSignal('');
+  const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await props.onConfirm(restoreBackup(), reason());
+      props.onClose();
+    } catch (err) {
+      setError((err as { detail?: string })?.detail ?? 'Failed to start the rollback');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div class="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div data-testid="rollback-dialog" class="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <h4 class="text-lg font-semibold mb-2">{props.title}</h4>
+        <div class="text-sm text-gray-600 mb-4">{props.children}</div>
+
+        <label class="flex items-start gap-2 text-sm mb-4">
+          <input
+            data-testid="rollback-restore-backup"
+            type="checkbox"
+            class="mt-0.5"
+            checked={restoreBackup()}
+            disabled
+            onChange={(e) => setRestoreBackup(e.currentTarget.checked)}
+          />
+          <span class="text-gray-400">
+            {props.restoreLabel ?? 'No database backup was taken before the upgrade'}
+            <span data-testid="rollback-restore-unavailable" class="block text-xs">
+              {RESTORE_UNAVAILABLE}
+            </span>
+          </span>
+        </label>
+
+        <ReasonField value={reason()} onInput={setReason} disabled={isSubmitting()} />
+
+        <Show when={error()}>
+          <p data-testid="rollback-error" class="text-sm text-red-600 mb-4">{error()}</p>
+        </Show>
+
+        <div class="flex gap-3">
+          <button
+            data-testid="rollback-confirm"
+            onClick={handleConfirm}
+            disabled={isSubmitting()}
+            class="flex-1 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-400"
+          >
+            {isSubmitting() ? 'Rolling back...' : 'Roll Back'}
+          </button>
+          <button
+            onClick={() => props.onClose()}
+            disabled={isSubmitting()}
+            class="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
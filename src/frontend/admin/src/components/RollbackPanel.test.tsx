@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent } from '@solidjs/testing-library';
+import { RollbackPanel } from './RollbackPanel';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+
+const ROLLBACK_PATH = '/api/v1/admin/instances/i-1/rollback';
+
+const rollback = {
+  upgradeEventId: 'e-9',
+  status: 'Completed',
+  fromImage: 'docker.xcord.net/fed:1.1.0',
+  fromVersion: '1.1.0',
+  toImage: 'docker.xcord.net/fed:1.0.0',
+  toVersion: '1.0.0',
+  upgradedAt: '2026-10-01T12:00:00Z',
+  preUpgradeBackupId: 'b-1',
+  preUpgradeBackupAt: '2026-10-01T03:00:00Z',
+  blockedReason: null as string | null,
+};
+
+describe('RollbackPanel', () => {
+  beforeEach(() => {
+    useInstances().reset();
+  });
+
+  it('shows the latest upgrade and rolls it back', async () => {
+    const { calls } = mockFetch({
+      [`GET ${ROLLBACK_PATH}`]: () => rollback,
+      [`POST ${ROLLBACK_PATH}`]: () => ({
+        status: 202,
+        body: { upgradeEventId: 'e-9', targetImage: rollback.toImage },
+      }),
+    });
+    const { findByTestId, getByTestId } = render(() => <RollbackPanel instanceId="i-1" />);
+    expect(await findByTestId('rollback-panel')).toHaveTextContent('Last upgrade: 1.0.0 → 1.1.0');
+
+    fireEvent.click(getByTestId('rollback-button'));
+    expect(getByTestId('rollback-dialog')).toHaveTextContent(
+      `Also restore the database backup from ${new Date(rollback.preUpgradeBackupAt).toLocaleString()}`,
+    );
+    expect(getByTestId('rollback-restore-backup')).toBeDisabled();
+    expect(getByTestId('rollback-restore-unavailable')).toHaveTextContent('Not available yet');
+    fireEvent.click(getByTestId('rollback-confirm'));
+
+    expect(await findByTestId('rollback-queued')).toHaveTextContent('Rollback to 1.0.0 queued.');
+    expect(calls.find((c) => c.method === 'POST')?.body).toEqual({ restoreBackup: false });
+    expect(getByTestId('rollback-button')).toBeDisabled();
+  });
+
+  it('disables the backup restore when no backup predates the upgrade', async () => {
+    mockFetch({ [`GET ${ROLLBACK_PATH}`]: () => ({ ...rollback, preUpgradeBackupId: null, preUpgradeBackupAt: null }) });
+    const { findByTestId, getByTestId } = render(() => <RollbackPanel instanceId="i-1" />);
+    fireEvent.click(await findByTestId('rollback-button'));
+    expect(getByTestId('rollback-restore-backup')).toBeDisabled();
+    expect(getByTestId('rollback-dialog')).toHaveTextContent('No database backup was taken before the upgrade');
+  });
+
+  it('explains why the upgrade cannot be rolled back', async () => {
+    mockFetch({
+      [`GET ${ROLLBACK_PATH}`]: () => ({ ...rollback, blockedReason: 'The instance is no longer running docker.xcord.net/fed:1.1.0' }),
+    });
+    const { findByTestId, getByTestId } = render(() => <RollbackPanel instanceId="i-1" />);
+    expect(await findByTestId('rollback-blocked')).toHaveTextContent('The instance is no longer running');
+    expect(getByTestId('rollback-button')).toBeDisabled();
+  });
+
+  it('shows the rollback error and keeps the dialog open', async () => {
+    mockFetch({
+      [`GET ${ROLLBACK_PATH}`]: () => rollback,
+      [`POST ${ROLLBACK_PATH}`]: () => ({
+        status: 409,
+        body: { title: 'ROLLBACK_NOT_POSSIBLE', detail: 'The instance is Upgrading' },
+      }),
+    });
+    const { findByTestId, getByTestId } = render(() => <RollbackPanel instanceId="i-1" />);
+    fireEvent.click(await findByTestId('rollback-button'));
+    fireEvent.click(getByTestId('rollback-confirm'));
+    expect(await findByTestId('rollback-error')).toHaveTextContent('The instance is Upgrading');
+    expect(getByTestId('rollback-dialog')).toBeInTheDocument();
+  });
+
+  it('renders nothing for an instance that was never upgraded', async () => {
+    const { calls } = mockFetch({
+      [`GET ${ROLLBACK_PATH}`]: () => ({ status: 404, body: { title: 'UPGRADE_NOT_FOUND' } }),
+    });
+    const { queryByTestId } = render(() => <RollbackPanel instanceId="i-1" />);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(calls).toHaveLength(1);
+    expect(queryByTestId('rollback-panel')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { Show, createSignal, onMount } from 'solid-js';
+import { useInstances } from '../stores/instance.store';
+import type { InstanceRollback } from '../types/instance';
+import { RollbackDialog } from './RollbackDialog';
+import { imageTag } from './RolloutStatus';
+
+interface RollbackPanelProps {
+  instanceId: string;
+}
+
+/**
+ * The instance's latest upgrade with a one-click rollback to the image it replaced.
+ * Renders nothing for instances that have never been upgraded.
+ */
+export function RollbackPanel(props: RollbackPanelProps) {
+  const instanceStore = useInstances();
+  const [rollback, setRollback] = createSignal<InstanceRollback | null>(null);
+  const [showDialog, setShowDialog] = createSignal(false);
+  const [queued, setQueued] = createSignal(false);
+
+  onMount(async () => {
+    try {
+      setRollback(await instanceStore.fetchInstanceRollback(props.instanceId));
+    } catch {
+      // No upgrade to roll back
+    }
+  });
+
+  const fromLabel = (current: InstanceRollback) => current.fromVersion ?? imageTag(current.fromImage);
+  const toLabel = (current: InstanceRollback) =>
+    current.toVersion ?? (current.toImage ? imageTag(current.toImage) : 'the previous image');
+
+  const handleConfirm = async (restoreBackup: boolean, reason: string) => {
+    await instanceStore.rollbackInstance(props.instanceId, restoreBackup, reason);
+    setQueued(true);
+  };
+
+  return (
+    <Show when={rollback()}>
+      {(current) => (
+        <div data-testid="rollback-panel" class="border border-gray-200 rounded-lg p-4 flex items-center justify-between gap-4">
+          <div class="text-sm">
+            <p class="font-medium text-gray-900">
+              Last upgrade: {toLabel(current())} &rarr; {fromLabel(current())}
+              <Show when={current().upgradedAt}>
+                <span class="font-normal text-gray-500"> on {new Date(current().upgradedAt!).toLocaleString()}</span>
+              </Show>
+            </p>
+            <Show
+              when={current().status !== 'RolledBack'}
+              fallback={<p class="text-gray-500 mt-0.5">This upgrade has been rolled back.</p>}
+            >
+              <Show when={current().blockedReason}>
+                <p data-testid="rollback-blocked" class="text-gray-500 mt-0.5">{current().blockedReason}</p>
+              </Show>
+            </Show>
+            <Show when={queued()}>
+              <p data-testid="rollback-queued" class="text-green-600 mt-0.5">
+                Rollback to {toLabel(current())} queued.
+              </p>
+            </Show>
+          </div>
+          <button
+            data-testid="rollback-button"
+            onClick={() => setShowDialog(true)}
+            disabled={!!current().blockedReason || queued()}
+            class="px-4 py-2 rounded text-sm font-medium bg-red-600 text-white hover:bg-red-700 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            Roll Back to {toLabel(current())}
+          </button>
+
+          <Show when={showDialog()}>
+            <RollbackDialog
+              title="Roll back upgrade"
+              restoreLabel={current().preUpgradeBackupAt
+                ? `Also restore the database backup from ${new Date(current().preUpgradeBackupAt!).toLocaleString()}`
+                : null}
+              onConfirm={handleConfirm}
+              onClose={() => setShowDialog(false)}
+            >
+              The instance will be redeployed on <span class="font-mono">{current().toImage}</span>.
+              Data written since the upgrade is kept.
+            </RollbackDialog>
+          </Show>
+        </div>
+      )}
+    </Show>
+  );
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
+import { RolloutDetail } from './RolloutDetail';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
+import type { RolloutDetail as RolloutDetailData, RolloutEvent } from '../types/instance';
+
+const ROLLOUT_PATH = '/api/v1/admin/upgrades/r-1';
+
+function event(overrides: Partial<RolloutEvent>): RolloutEvent {
+  return {
+    id: 'e-1',
+    managedInstanceId: 'i-1',
+    instanceDomain: 'alpha.xcord.net',
+    status: 'Completed',
+    previousImage: 'fed:1.2.2',
+    targetImage: 'fed:1.2.3',
+    previousVersion: '1.2.2',
+    newVersion: '1.2.3',
+    errorMessage: null,
+    startedAt: '2026-01-01T00:00:00Z',
+    completedAt: '2026-01-01T00:01:05Z',
+    ...overrides,
+  };
+}
+
+const rollout: RolloutDetailData = {
+  id: 'r-1',
+  toImage: 'fed:1.2.3',
+  fromImage: 'fed:1.2.2',
+  targetPool: null,
+  status: 'Paused',
+  totalInstances: 3,
+  completedInstances: 1,
+  failedInstances: 1,
+  batchSize: 1,
+  maxFailures: 1,
+  startedAt: '2026-01-01T00:00:00Z',
+  completedAt: null,
+  events: [
+    event({ id: 'e-1' }),
+    event({
+      id: 'e-2',
+      managedInstanceId: 'i-2',
+      instanceDomain: 'beta.xcord.net',
+      status: 'Failed',
+      newVersion: null,
+      errorMessage: 'Instance did not become healthy within timeout',
+    }),
+    event({
+      id: 'e-3',
+      managedInstanceId: 'i-3',
+      instanceDomain: 'gamma.xcord.net',
+      status: 'Pending',
+      newVersion: null,
+      startedAt: null,
+      completedAt: null,
+    }),
+  ],
+  stages: [],
+  currentStage: null,
+  stageGateAt: null,
+  healthGateMaxFailures: 0,
+  healthGateMaxResponseTimeMs: null,
+  pauseReason: null,
+};
+
+function renderDetail(path = '/rollouts/r-1') {
+  return renderWithRouter(() => <RolloutDetail />, { path, routePath: '/rollouts/:id' });
+}
+
+describe('RolloutDetail', () => {
+  beforeEach(() => {
+    useInstances().reset();
+    mockFetch({ [`GET ${ROLLOUT_PATH}`]: () => rollout });
+  });
+
+  it('lists every instance event with its status, timing and error', async () => {
+    const { findByText, getByText, getByTestId } = renderDetail();
+    expect(await findByText('alpha.xcord.net')).toBeInTheDocument();
+    expect(getByText('beta.xcord.net')).toBeInTheDocument();
+    expect(getByText('gamma.xcord.net')).toBeInTheDocument();
+    expect(getByTestId('rollout-event-e-1')).toHaveTextContent('Succeeded');
+    expect(getByTestId('rollout-event-e-1')).toHaveTextContent('1m 5s');
+    expect(getByTestId('rollout-event-e-3')).toHaveTextContent('Not started');
+    expect(getByText('Instance did not become healthy within timeout')).toBeInTheDocument();
+  });
+
+  it('shows the rollout header with failure budget', async () => {
+    const { findByTestId, getByText } = renderDetail();
+    expect((await findByTestId('rollout-detail-status')).textContent).toBe('Paused');
+    expect(getByText('1 of 1 allowed')).toBeInTheDocument();
+    expect(getByText('1/3 upgraded')).toBeInTheDocument();
+  });
+
+  it('narrows the list to failed instances', async () => {
+    const { findByText, getByText, queryByText } = renderDetail();
+    await findByText('alpha.xcord.net');
+    fireEvent.click(getByText('Failed (1)'));
+    await waitFor(() => expect(queryByText('alpha.xcord.net')).toBeNull());
+    expect(getByText('beta.xcord.net')).toBeInTheDocument();
+    expect(queryByText('gamma.xcord.net')).toBeNull();
+  });
+
+  it('reads the status filter from the URL', async () => {
+    const { findByText, queryByText } = renderDetail('/rollouts/r-1?status=Pending');
+    expect(await findByText('gamma.xcord.net')).toBeInTheDocument();
+    expect(queryByText('beta.xcord.net')).toBeNull();
+  });
+
+  it('links failures to the affected instance and its logs', async () => {
+    const { findByText, getByText } = renderDetail();
+    expect(await findByText('beta.xcord.net')).toHaveAttribute('href', '/instances/i-2');
+    expect(getByText('View logs')).toHaveAttribute('href', '/instances/i-2/logs');
+  });
+
+  it('flags a rollout that hit its failure limit and jumps to the failures', async () => {
+    const { findByTestId, getByText, queryByText } = renderDetail();
+    await findByTestId('failure-limit-banner');
+    fireEvent.click(getByText('Show failed instances'));
+    await waitFor(() => expect(queryByText('alpha.xcord.net')).toBeNull());
+    expect(getByText('beta.xcord.net')).toBeInTheDocument();
+  });
+
+  it('shows canary stages with the current one and the health gate', async () => {
+    mockFetch({
+      [`GET ${ROLLOUT_PATH}`]: () => ({
+        ...rollout,
+        status: 'InProgress',
+        failedInstances: 0,
+        stages: [
+          { number: 1, instances: 1, percentage: null, waitMinutes: 30 },
+          { number: 2, instances: null, percentage: 10, waitMinutes: 30 },
+          { number: 3, instances: null, percentage: 100, waitMinutes: 0 },
+        ],
+        currentStage: 2,
+        healthGateMaxFailures: 0,
+        healthGateMaxResponseTimeMs: 1500,
+      }),
+    });
+    const { findByTestId, getByTestId, getByText } = renderDetail();
+    expect(await findByTestId('rollout-stage-1')).toHaveTextContent('1. 1 instance, then wait 30m');
+    expect(getByTestId('rollout-stage-1')).toHaveClass('bg-green-100');
+    expect(getByTestId('rollout-stage-2')).toHaveTextContent('2. 10%, then wait 30m');
+    expect(getByTestId('rollout-stage-2')).toHaveClass('bg-blue-100');
+    expect(getByTestId('rollout-stage-3')).toHaveTextContent('3. all remaining');
+    expect(getByTestId('rollout-stage-3')).toHaveClass('bg-gray-100');
+    expect(getByText(/at most 0 consecutive failed checks and responses within 1500 ms/)).toBeInTheDocument();
+  });
+
+  it('explains why a canary rollout paused at a health gate', async () => {
+    mockFetch({
+      [`GET ${ROLLOUT_PATH}`]: () => ({
+        ...rollout,
+        failedInstances: 0,
+        stages: [
+          { number: 1, instances: 1, percentage: null, waitMinutes: 30 },
+          { number: 2, instances: null, percentage: 100, waitMinutes: 0 },
+        ],
+        currentStage: 1,
+        pauseReason: 'Health gate failed after stage 1: alpha.xcord.net failed 2 consecutive health checks',
+      }),
+    });
+    const { findByTestId, queryByTestId } = renderDetail();
+    expect(await findByTestId('pause-reason-banner')).toHaveTextContent(
+      'Paused: Health gate failed after stage 1: alpha.xcord.net failed 2 consecutive health checks',
+    );
+    expect(queryByTestId('failure-limit-banner')).toBeNull();
+  });
+
+  it('rolls back every instance the rollout upgraded', async () => {
+    const { calls } = mockFetch({
+      [`GET ${ROLLOUT_PATH}`]: () => rollout,
+      [`POST ${ROLLOUT_PATH}/rollback`]: () => ({ status: 202, body: { id: 'r-1', status: 'Cancelled', instances: 1 } }),
+    });
+    const { findByTestId, getByTestId, queryByTestId } = renderDetail();
+    fireEvent.click(await findByTestId('rollout-rollback-button'));
+    expect(getByTestId('rollback-dialog')).toHaveTextContent('Every instance this rollout upgraded (1)');
+    expect(getByTestId('rollback-dialog')).toHaveTextContent('The rollout will be cancelled first.');
+
+    expect(getByTestId('rollback-restore-backup')).toBeDisabled();
+    fireEvent.click(getByTestId('rollback-confirm'));
+
+    expect(await findByTestId('rollout-rollback-queued')).toHaveTextContent(
+      'Rolling back 1 instance to their previous image.',
+    );
+    expect(calls.find((c) => c.method === 'POST')?.body).toEqual({ restoreBackup: false });
+    await waitFor(() => expect(queryByTestId('rollback-dialog')).toBeNull());
+    expect(queryByTestId('rollout-rollback-button')).toBeNull();
+  });
+
+  it('offers no rollback before any instance was upgraded', async () => {
+    mockFetch({
+      [`GET ${ROLLOUT_PATH}`]: () => ({ ...rollout, events: rollout.events.filter((e) => e.status !== 'Completed') }),
+    });
+    const { findByTestId, queryByTestId } = renderDetail();
+    await findByTestId('rollout-detail-status');
+    expect(queryByTestId('rollout-rollback-button')).toBeNull();
+  });
+
+  it('shows the backend error when the rollout cannot be loaded', async () => {
+    mockFetch({
+      [`GET ${ROLLOUT_PATH}`]: () => ({ status: 404, body: { title: 'ROLLOUT_NOT_FOUND', detail: 'Upgrade rollout not found' } }),
+    });
+    const { findByText } = renderDetail();
+    expect(await findByText('Upgrade rollout not found')).toBeInTheDocument();
+  });
+});
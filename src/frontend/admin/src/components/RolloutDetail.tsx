@@ -0,0 +1,339 @@
+import { For, Show, createEffect, createSignal, onCleanup } from 'solid-js';
+import { A, useParams, useSearchParams } from '@solidjs/router';
+import { useInstances } from '../stores/instance.store';
+import type { RolloutDetail as RolloutDetailData, RolloutEvent, RolloutStageItem } from '../types/instance';
+import { imageTag, stageLabel, statusBadgeClass } from './RolloutStatus';
+import { RollbackDialog } from './RollbackDialog';
+
+const REFRESH_INTERVAL_MS = 10_000;
+
+const EVENT_STATUSES = ['Pending', 'InProgress', 'Completed', 'Failed', 'RolledBack'] as const;
+type EventStatus = (typeof EVENT_STATUSES)[number];
+
+const EVENT_LABELS: Record<EventStatus, string> = {
+  Pending: 'Pending',
+  InProgress: 'In Progress',
+  Completed: 'Succeeded',
+  Failed: 'Failed',
+  RolledBack: 'Rolled Back',
+};
+
+function eventBadgeClass(status: string): string {
+  switch (status) {
+    case 'InProgress':
+      return 'bg-blue-100 text-blue-800';
+    case 'Completed':
+      return 'bg-green-100 text-green-800';
+    case 'Failed':
+      return 'bg-red-100 text-red-800';
+    case 'RolledBack':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+}
+
+function formatDuration(event: RolloutEvent): string {
+  if (!event.startedAt) return '—';
+  const end = event.completedAt ? new Date(event.completedAt).getTime() : Date.now();
+  const seconds = Math.max(0, Math.round((end - new Date(event.startedAt).getTime()) / 1000));
+  const duration = seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return event.completedAt ? duration : `${duration} so far`;
+}
+
+function stageClass(rollout: RolloutDetailData, stage: RolloutStageItem): string {
+  const current = rollout.currentStage ?? 0;
+  if (rollout.status === 'Completed' || stage.number < current) return 'bg-green-100 text-green-800';
+  if (stage.number === current) {
+    return rollout.status === 'Paused' ? 'bg-yellow-100 text-yellow-800' : 'bg-blue-100 text-blue-800';
+  }
+  return 'bg-gray-100 text-gray-600';
+}
+
+function isActive(rollout: RolloutDetailData): boolean {
+  return rollout.status === 'InProgress' || rollout.status === 'Pending';
+}
+
+export function RolloutDetail() {
+  const instanceStore = useInstances();
+  const params = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams<{ status?: string }>();
+  const [rollout, setRollout] = createSignal<RolloutDetailData | null>(null);
+  const [isLoading, setIsLoading] = createSignal(true);
+  const [error, setError] = createSignal<string | null>(null);
+  const [showRollback, setShowRollback] = createSignal(false);
+  const [rollbackQueued, setRollbackQueued] = createSignal<number | null>(null);
+
+  // The status filter lives in the URL so a link can land straight on the failures.
+  const statusFilter = () =>
+    (EVENT_STATUSES as readonly string[]).includes(searchParams.status ?? '')
+      ? (searchParams.status as EventStatus)
+      : null;
+
+  const load = async () => {
+    try {
+      setRollout(await instanceStore.fetchRollout(params.id));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch rollout:', err);
+      setError((err as { detail?: string })?.detail ?? 'Failed to load rollout');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Active rollouts are polled so batches show up as they progress.
+  let refreshTimer: ReturnType<typeof setInterval> | undefined;
+  onCleanup(() => clearInterval(refreshTimer));
+
+  createEffect(() => {
+    const id = params.id;
+    clearInterval(refreshTimer);
+    setIsLoading(true);
+    setRollout(null);
+    if (!id) return;
+    load().then(() => {
+      const current = rollout();
+      if (current && isActive(current)) {
+        refreshTimer = setInterval(async () => {
+          await load();
+          const latest = rollout();
+          if (latest && !isActive(latest)) clearInterval(refreshTimer);
+        }, REFRESH_INTERVAL_MS);
+      }
+    });
+  });
+
+  const events = () => rollout()?.events ?? [];
+  const countFor = (status: EventStatus) => events().filter((e) => e.status === status).length;
+  const filteredEvents = () => {
+    const status = statusFilter();
+    return status ? events().filter((e) => e.status === status) : events();
+  };
+
+  const handleRollback = async (restoreBackup: boolean, reason: string) => {
+    const result = await instanceStore.rollbackRollout(params.id, restoreBackup, reason);
+    setRollbackQueued(result.instances);
+    await load();
+  };
+
+  const hitFailureLimit = () => {
+    const current = rollout();
+    return !!current && current.maxFailures > 0 && current.failedInstances >= current.maxFailures;
+  };
+
+  return (
+    <div class="space-y-4">
+      <A href="/instances" class="text-sm text-blue-600 hover:underline">&larr; Back to instances</A>
+
+      <Show when={!isLoading()} fallback={<div class="p-6 text-center">Loading...</div>}>
+        <Show when={rollout()} fallback={<div class="p-6 text-center text-red-600">{error() ?? 'Rollout not found'}</div>}>
+          {(current) => (
+            <>
+              <div class="bg-white rounded-lg shadow p-6">
+                <div class="flex items-center justify-between">
+                  <h2 class="text-xl font-semibold">
+                    Rollout {current().fromImage ? `${imageTag(current().fromImage!)} ` : ''}&rarr; {imageTag(current().toImage)}
+                  </h2>
+                  <div class="flex items-center gap-3">
+                    <Show when={countFor('Completed') > 0 && rollbackQueued() === null}>
+                      <button
+                        data-testid="rollout-rollback-button"
+                        onClick={() => setShowRollback(true)}
+                        class="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                      >
+                        Roll Back
+                      </button>
+                    </Show>
+                    <span
+                      data-testid="rollout-detail-status"
+                      class={`px-2 py-1 text-sm font-medium rounded ${statusBadgeClass(current().status)}`}
+                    >
+                      {current().status}
+                    </span>
+                  </div>
+                </div>
+                <dl class="mt-4 grid grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <dt class="text-gray-500">Progress</dt>
+                    <dd>{current().completedInstances}/{current().totalInstances} upgraded</dd>
+                  </div>
+                  <div>
+                    <dt class="text-gray-500">Failures</dt>
+                    <dd class={current().failedInstances > 0 ? 'text-red-600' : ''}>
+                      {current().failedInstances} of {current().maxFailures} allowed
+                    </dd>
+                  </div>
+                  <div>
+                    <dt class="text-gray-500">Batch size</dt>
+                    <dd>{current().batchSize}</dd>
+                  </div>
+                  <div>
+                    <dt class="text-gray-500">Target pool</dt>
+                    <dd>{current().targetPool ?? 'All pools'}</dd>
+                  </div>
+                  <div>
+                    <dt class="text-gray-500">Started</dt>
+                    <dd>{new Date(current().startedAt).toLocaleString()}</dd>
+                  </div>
+                  <Show when={current().completedAt}>
+                    <div>
+                      <dt class="text-gray-500">Completed</dt>
+                      <dd>{new Date(current().completedAt!).toLocaleString()}</dd>
+                    </div>
+                  </Show>
+                </dl>
+
+                <Show when={current().stages.length > 0}>
+                  <div class="mt-4">
+                    <h3 class="text-sm font-medium text-gray-700">Canary stages</h3>
+                    <ol data-testid="rollout-stages" class="mt-2 flex flex-wrap gap-2 text-xs">
+                      <For each={current().stages}>
+                        {(stage) => (
+                          <li
+                            data-testid={`rollout-stage-${stage.number}`}
+                            class={`px-2 py-1 rounded ${stageClass(current(), stage)}`}
+                          >
+                            {stage.number}. {stageLabel(stage)}
+                            {stage.number < current().stages.length && stage.waitMinutes > 0
+                              ? `, then wait ${stage.waitMinutes}m`
+                              : ''}
+                          </li>
+                        )}
+                      </For>
+                    </ol>
+                    <p class="mt-2 text-xs text-gray-500">
+                      Health gate: at most {current().healthGateMaxFailures} consecutive failed checks
+                      {current().healthGateMaxResponseTimeMs
+                        ? ` and responses within ${current().healthGateMaxResponseTimeMs} ms`
+                        : ''}
+                      {' '}per upgraded instance.
+                      <Show when={current().status === 'InProgress' && current().stageGateAt}>
+                        {' '}Next check {new Date(current().stageGateAt!).toLocaleString()}.
+                      </Show>
+                    </p>
+                  </div>
+                </Show>
+
+                <Show when={current().status === 'Paused' && current().pauseReason && !hitFailureLimit()}>
+                  <div data-testid="pause-reason-banner" class="mt-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded text-sm">
+                    Paused: {current().pauseReason}
+                  </div>
+                </Show>
+
+                <Show when={rollbackQueued() !== null}>
+                  <div data-testid="rollout-rollback-queued" class="mt-4 bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded text-sm">
+                    Rolling back {rollbackQueued()} instance{rollbackQueued() === 1 ? '' : 's'} to their previous image.
+                  </div>
+                </Show>
+
+                <Show when={hitFailureLimit()}>
+                  <div data-testid="failure-limit-banner" class="mt-4 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">
+                    This rollout reached its failure limit ({current().maxFailures}).{' '}
+                    <button class="underline" onClick={() => setSearchParams({ status: 'Failed' })}>
+                      Show failed instances
+                    </button>
+                  </div>
+                </Show>
+              </div>
+
+              <Show when={showRollback()}>
+                <RollbackDialog
+                  title="Roll back rollout"
+                  restoreLabel="Also restore each instance's last database backup from before its upgrade"
+                  onConfirm={handleRollback}
+                  onClose={() => setShowRollback(false)}
+                >
+                  Every instance this rollout upgraded ({countFor('Completed')}) will be redeployed on the
+                  image it ran before.
+                  <Show when={isActive(current()) || current().status === 'Paused'}>
+                    {' '}The rollout will be cancelled first.
+                  </Show>
+                </RollbackDialog>
+              </Show>
+
+              <div class="bg-white rounded-lg shadow">
+                <div class="p-4 border-b border-gray-200 flex gap-2">
+                  <button
+                    onClick={() => setSearchParams({ status: undefined })}
+                    class={`px-3 py-1 rounded text-sm ${!statusFilter() ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+                  >
+                    All ({events().length})
+                  </button>
+                  <For each={EVENT_STATUSES.filter((s) => s !== 'RolledBack' || countFor(s) > 0)}>
+                    {(status) => (
+                      <button
+                        onClick={() => setSearchParams({ status })}
+                        class={`px-3 py-1 rounded text-sm ${
+                          statusFilter() === status ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'
+                        }`}
+                      >
+                        {EVENT_LABELS[status]} ({countFor(status)})
+                      </button>
+                    )}
+                  </For>
+                </div>
+
+                <Show
+                  when={filteredEvents().length > 0}
+                  fallback={<div class="p-6 text-center text-gray-500">No instances match this filter</div>}
+                >
+                  <table class="w-full">
+                    <thead class="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Instance</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Started</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Duration</th>
+                        <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Error</th>
+                      </tr>
+                    </thead>
+                    <tbody class="divide-y divide-gray-200">
+                      <For each={filteredEvents()}>
+                        {(event) => (
+                          <tr data-testid={`rollout-event-${event.id}`}>
+                            <td class="px-6 py-4 text-sm font-medium">
+                              <A href={`/instances/${event.managedInstanceId}`} class="text-blue-600 hover:underline">
+                                {event.instanceDomain}
+                              </A>
+                            </td>
+                            <td class="px-6 py-4">
+                              <span class={`px-2 py-1 text-xs rounded ${eventBadgeClass(event.status)}`}>
+                                {EVENT_LABELS[event.status as EventStatus] ?? event.status}
+                              </span>
+                            </td>
+                            <td class="px-6 py-4 text-sm">
+                              {event.previousVersion ?? '—'} &rarr; {event.newVersion ?? imageTag(event.targetImage)}
+                            </td>
+                            <td class="px-6 py-4 text-sm">
+                              {event.startedAt ? new Date(event.startedAt).toLocaleString() : 'Not started'}
+                            </td>
+                            <td class="px-6 py-4 text-sm">{formatDuration(event)}</td>
+                            <td class="px-6 py-4 text-sm">
+                              <Show when={event.errorMessage}>
+                                <p class="text-red-700">{event.errorMessage}</p>
+                              </Show>
+                              <Show when={event.status === 'Failed'}>
+                                <A
+                                  href={`/instances/${event.managedInstanceId}/logs`}
+                                  class="text-xs text-blue-600 hover:underline"
+                                >
+                                  View logs
+                                </A>
+                              </Show>
+                            </td>
+                          </tr>
+                        )}
+                      </For>
+                    </tbody>
+                  </table>
+                </Show>
+              </div>
+            </>
+          )}
+        </Show>
+      </Show>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
 import { RolloutStatus } from './RolloutStatus';
 import { useInstances } from '../stores/instance.store';
 import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
 
 const ROLLOUTS_PATH = '/api/v1/admin/upgrades';
 
@@ -20,6 +21,10 @@ const inProgressRollout = {
   scheduledAt: null,
   startedAt: '2026-01-01T00:00:00Z',
   completedAt: null,
+  stageCount: 0,
+  currentStage: null,
+  stageGateAt: null,
+  pauseReason: null,
 };
 
 describe('RolloutStatus', () => {
@@ -29,28 +34,28 @@ describe('RolloutStatus', () => {
 
   it('renders nothing when there are no active rollouts', async () => {
     mockFetch({ [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [] }) });
-    const { container } = render(() => <RolloutStatus />);
+    const { container } = renderWithRouter(() => <RolloutStatus />);
     await waitFor(() => expect(useInstances().activeRollouts.length).toBe(0));
     expect(container.querySelector('[data-testid="rollout-status-banner"]')).toBeNull();
   });
 
   it('renders the banner when there is an active rollout', async () => {
     mockFetch({ [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [inProgressRollout] }) });
-    const { findByTestId } = render(() => <RolloutStatus />);
+    const { findByTestId } = renderWithRouter(() => <RolloutStatus />);
     expect(await findByTestId('rollout-status-banner')).toBeInTheDocument();
     expect(await findByTestId('rollout-item-r-1')).toBeInTheDocument();
   });
 
   it('renders the status badge text', async () => {
     mockFetch({ [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [inProgressRollout] }) });
-    const { findByTestId } = render(() => <RolloutStatus />);
+    const { findByTestId } = renderWithRouter(() => <RolloutStatus />);
     const badge = await findByTestId('rollout-status-r-1');
     expect(badge.textContent).toContain('InProgress');
   });
 
   it('shows pause button for InProgress rollouts', async () => {
     mockFetch({ [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [inProgressRollout] }) });
-    const { findByTestId } = render(() => <RolloutStatus />);
+    const { findByTestId } = renderWithRouter(() => <RolloutStatus />);
     expect(await findByTestId('rollout-pause-r-1')).toBeInTheDocument();
   });
 
@@ -59,7 +64,7 @@ describe('RolloutStatus', () => {
       [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [inProgressRollout] }),
       'POST /api/v1/admin/upgrades/r-1/pause': () => ({ status: 200, body: {} }),
     });
-    const { findByTestId } = render(() => <RolloutStatus />);
+    const { findByTestId } = renderWithRouter(() => <RolloutStatus />);
     const pauseBtn = await findByTestId('rollout-pause-r-1');
     fireEvent.click(pauseBtn);
     await waitFor(() => expect((globalThis.fetch as any).mock.calls.some(
@@ -69,8 +74,46 @@ describe('RolloutStatus', () => {
 
   it('renders progress bar with correct width', async () => {
     mockFetch({ [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [inProgressRollout] }) });
-    const { findByTestId } = render(() => <RolloutStatus />);
+    const { findByTestId } = renderWithRouter(() => <RolloutStatus />);
     const bar = await findByTestId('rollout-progress-r-1') as HTMLElement;
     expect(bar.style.width).toBe('40%');
   });
+
+  it('links each rollout to its detail page', async () => {
+    mockFetch({ [`GET ${ROLLOUTS_PATH}`]: () => ({ rollouts: [inProgressRollout] }) });
+    const { findByTestId } = renderWithRouter(() => <RolloutStatus />);
+    expect(await findByTestId('rollout-details-r-1')).toHaveAttribute('href', '/rollouts/r-1');
+  });
+
+  it('shows the current canary stage and when its health gate runs', async () => {
+    const gateAt = '2026-01-01T01:00:00Z';
+    mockFetch({
+      [`GET ${ROLLOUTS_PATH}`]: () => ({
+        rollouts: [{ ...inProgressRollout, stageCount: 4, currentStage: 2, stageGateAt: gateAt }],
+      }),
+    });
+    const { findByTestId } = renderWithRouter(() => <RolloutStatus />);
+    expect(await findByTestId('rollout-stage-r-1')).toHaveTextContent(
+      `Stage 2 of 4 · waiting, health gate at ${new Date(gateAt).toLocaleString()}`,
+    );
+  });
+
+  it('shows why a rollout paused', async () => {
+    mockFetch({
+      [`GET ${ROLLOUTS_PATH}`]: () => ({
+        rollouts: [{
+          ...inProgressRollout,
+          status: 'Paused',
+          stageCount: 4,
+          currentStage: 1,
+          pauseReason: 'Health gate failed after stage 1: alpha.xcord.net is Failed',
+        }],
+      }),
+    });
+    const { findByTestId } = renderWithRouter(() => <RolloutStatus />);
+    expect(await findByTestId('rollout-pause-reason-r-1')).toHaveTextContent(
+      'Health gate failed after stage 1: alpha.xcord.net is Failed',
+    );
+    expect(await findByTestId('rollout-stage-r-1')).toHaveTextContent('Stage 1 of 4');
+  });
 });
@@ -1,8 +1,9 @@
 import { Show, For, createSignal, onMount } from 'solid-js';
+import { A } from '@solidjs/router';
 import { useInstances } from '../stores/instance.store';
-import type { UpgradeRollout } from '../types/instance';
+import type { RolloutStageItem, UpgradeRollout } from '../types/instance';
 
-function statusBadgeClass(status: string): string {
+export function statusBadgeClass(status: string): string {
   switch (status) {
     case 'InProgress':
       return 'bg-blue-100 text-blue-800';
@@ -26,11 +27,16 @@ function progressPercent(rollout: UpgradeRollout): number {
   return Math.round((rollout.completedInstances / rollout.totalInstances) * 100);
 }
 
-function imageTag(image: string): string {
+export function imageTag(image: string): string {
   const parts = image.split(':');
   return parts.length > 1 ? parts[parts.length - 1] : image;
 }
 
+export function stageLabel(stage: Pick<RolloutStageItem, 'instances' | 'percentage'>): string {
+  if (stage.percentage != null) return stage.percentage === 100 ? 'all remaining' : `${stage.percentage}%`;
+  return `${stage.instances} instance${stage.instances === 1 ? '' : 's'}`;
+}
+
 export function RolloutStatus() {
   const instanceStore = useInstances();
   const [actionPending, setActionPending] = createSignal<string | null>(null);
@@ -164,12 +170,35 @@ export function RolloutStatus() {
                   <p class="text-xs text-gray-500">
                     Batch size: {rollout.batchSize} | Max failures: {rollout.maxFailures}
                   </p>
-                  <Show when={rollout.scheduledAt}>
-                    <p class="text-xs text-gray-500">
-                      Scheduled: {new Date(rollout.scheduledAt!).toLocaleString()}
-                    </p>
-                  </Show>
+                  <div class="flex items-center gap-3">
+                    <Show when={rollout.scheduledAt}>
+                      <p class="text-xs text-gray-500">
+                        Scheduled: {new Date(rollout.scheduledAt!).toLocaleString()}
+                      </p>
+                    </Show>
+                    <A
+                      data-testid={`rollout-details-${rollout.id}`}
+                      href={`/rollouts/${rollout.id}`}
+                      class="text-xs text-blue-600 hover:underline"
+                    >
+                      View details
+                    </A>
+                  </div>
                 </div>
+
+                <Show when={rollout.currentStage}>
+                  <p data-testid={`rollout-stage-${rollout.id}`} class="text-xs text-gray-600 mt-1">
+                    Stage {rollout.currentStage} of {rollout.stageCount}
+                    <Show when={rollout.status === 'InProgress' && rollout.stageGateAt}>
+                      {' '}&middot; waiting, health gate at {new Date(rollout.stageGateAt!).toLocaleString()}
+                    </Show>
+                  </p>
+                </Show>
+                <Show when={rollout.status === 'Paused' && rollout.pauseReason}>
+                  <p data-testid={`rollout-pause-reason-${rollout.id}`} class="text-xs text-yellow-800 mt-1">
+                    {rollout.pauseReason}
+                  </p>
+                </Show>
               </div>
             )}
           </For>
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, waitFor } from '@solidjs/testing-library';
+import { SupportPage } from './SupportPage';
+import { useSupport } from '../stores/support.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import { renderWithRouter } from '../tests/helpers/renderWithRouter';
+import type { SupportTicket, SupportTicketDetail } from '../types/support';
+
+const TICKETS_PATH = '/api/v1/admin/tickets';
+
+function ticket(overrides: Partial<SupportTicket> = {}): SupportTicket {
+  return {
+    id: '10',
+    subject: 'Voice drops every few minutes',
+    status: 'Open',
+    name: 'Alice',
+    email: '',
+    submitterUsername: 'alice',
+    instanceId: '42',
+    instanceDomain: 'alice.xcord.net',
+    assigneeId: null,
+    assigneeName: null,
+    replyCount: 1,
+    createdAt: '2026-10-01T12:00:00Z',
+    updatedAt: '2026-10-02T12:00:00Z',
+    ...overrides,
+  };
+}
+
+function inbox(tickets: SupportTicket[]) {
+  return {
+    tickets,
+    total: tickets.length,
+    page: 1,
+    pageSize: 50,
+    counts: { open: 3, pending: 1, closed: 7 },
+    assignees: [{ id: '7', displayName: 'Bob' }],
+  };
+}
+
+function detail(overrides: Partial<SupportTicket> = {}): SupportTicketDetail {
+  return {
+    ticket: ticket(overrides),
+    message: 'It started after the last upgrade.',
+    company: '',
+    expectedMemberCount: null,
+    replies: [
+      { id: '100', authorName: 'Alice', isStaff: false, body: 'Still happening today.', createdAt: '2026-10-02T12:00:00Z' },
+    ],
+  };
+}
+
+function renderPage(path = '/support') {
+  return renderWithRouter(() => <SupportPage />, { path, routePath: '/support/:id?' });
+}
+
+describe('SupportPage', () => {
+  beforeEach(() => {
+    useSupport().reset();
+  });
+
+  it('lists open tickets with counts per status', async () => {
+    const { calls } = mockFetch({ [`GET ${TICKETS_PATH}`]: () => inbox([ticket()]) });
+    const { findByTestId, getByTestId } = renderPage();
+
+    const row = await findByTestId('support-ticket-10');
+    expect(row).toHaveTextContent('Voice drops every few minutes');
+    expect(row).toHaveTextContent('@alice');
+    expect(row).toHaveTextContent('alice.xcord.net');
+    expect(row).toHaveTextContent('Unassigned');
+    expect(getByTestId('support-status-Pending')).toHaveTextContent('1');
+    expect(getByTestId('support-status-all')).toHaveTextContent('11');
+    expect(new URL(calls[0].url, 'http://x').searchParams.get('status')).toBe('Open');
+  });
+
+  it('refetches when the status or assignee filter changes', async () => {
+    const { calls } = mockFetch({ [`GET ${TICKETS_PATH}`]: () => inbox([ticket()]) });
+    const { findByTestId, getByTestId } = renderPage();
+    await findByTestId('support-ticket-10');
+
+    fireEvent.click(getByTestId('support-status-all'));
+    await waitFor(() => expect(calls).toHaveLength(2));
+    expect(calls[1].url).not.toContain('status=');
+
+    fireEvent.change(getByTestId('support-filter-assignee'), { target: { value: 'unassigned' } });
+    await waitFor(() => expect(calls).toHaveLength(3));
+    expect(calls[2].url).toContain('assignee=unassigned');
+  });
+
+  it('shows the thread of the ticket in the path', async () => {
+    mockFetch({
+      [`GET ${TICKETS_PATH}`]: () => inbox([ticket()]),
+      [`GET ${TICKETS_PATH}/:id`]: () => detail(),
+    });
+    const { findByTestId, getByTestId } = renderPage('/support/10');
+
+    const thread = await findByTestId('support-thread');
+    expect(thread).toHaveTextContent('It started after the last upgrade.');
+    expect(getByTestId('support-reply-100')).toHaveTextContent('Still happening today.');
+    expect(thread.querySelector('a')).toHaveAttribute('href', '/instances/42');
+  });
+
+  it('assigns a ticket and updates its row', async () => {
+    const { calls } = mockFetch({
+      [`GET ${TICKETS_PATH}`]: () => inbox([ticket()]),
+      [`GET ${TICKETS_PATH}/:id`]: () => detail(),
+      [`PUT ${TICKETS_PATH}/:id`]: () => detail({ status: 'Pending', assigneeId: '7', assigneeName: 'Bob' }),
+    });
+    const { findByTestId, getByTestId, findByText } = renderPage('/support/10');
+    await findByTestId('support-thread');
+
+    fireEvent.change(getByTestId('support-ticket-assignee'), { target: { value: '7' } });
+    fireEvent.change(getByTestId('support-ticket-status'), { target: { value: 'Pending' } });
+    fireEvent.click(getByTestId('support-ticket-save'));
+
+    expect(await findByText('Ticket updated')).toBeInTheDocument();
+    expect(calls.find((c) => c.method === 'PUT')?.body).toEqual({ status: 'Pending', assigneeId: '7' });
+    expect(getByTestId('support-ticket-10')).toHaveTextContent('Bob');
+  });
+
+  it('sends a reply with the status to set afterwards', async () => {
+    const replied = detail({ status: 'Closed' });
+    replied.replies.push({ id: '101', authorName: 'Bob', isStaff: true, body: 'Fixed in 1.4.2.', createdAt: '2026-10-03T12:00:00Z' });
+    const { calls } = mockFetch({
+      [`GET ${TICKETS_PATH}`]: () => inbox([ticket()]),
+      [`GET ${TICKETS_PATH}/:id`]: () => detail(),
+      [`POST ${TICKETS_PATH}/:id/replies`]: () => ({ status: 201, body: replied }),
+    });
+    const { findByTestId, getByTestId } = renderPage('/support/10');
+    await findByTestId('support-thread');
+
+    fireEvent.input(getByTestId('support-reply-body'), { target: { value: ' Fixed in 1.4.2. ' } });
+    fireEvent.change(getByTestId('support-reply-status'), { target: { value: 'Closed' } });
+    fireEvent.click(getByTestId('support-reply-send'));
+
+    expect(await findByTestId('support-reply-101')).toHaveTextContent('Staff');
+    expect(calls.find((c) => c.method === 'POST')?.body).toEqual({ body: 'Fixed in 1.4.2.', status: 'Closed' });
+    expect(getByTestId('support-reply-body')).toHaveValue('');
+  });
+
+  it('shows the server error when a reply fails', async () => {
+    mockFetch({
+      [`GET ${TICKETS_PATH}`]: () => inbox([ticket()]),
+      [`GET ${TICKETS_PATH}/:id`]: () => detail(),
+      [`POST ${TICKETS_PATH}/:id/replies`]: () => ({ status: 400, body: { detail: 'Message is required.' } }),
+    });
+    const { findByTestId, getByTestId, findByText } = renderPage('/support/10');
+    await findByTestId('support-thread');
+
+    fireEvent.input(getByTestId('support-reply-body'), { target: { value: 'x' } });
+    fireEvent.click(getByTestId('support-reply-send'));
+
+    expect(await findByText('Message is required.')).toBeInTheDocument();
+  });
+
+  it('shows an empty state when nothing matches', async () => {
+    mockFetch({ [`GET ${TICKETS_PATH}`]: () => inbox([]) });
+    const { findByTestId } = renderPage();
+    expect(await findByTestId('support-empty')).toBeInTheDocument();
+  });
+});
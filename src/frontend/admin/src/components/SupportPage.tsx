@@ -0,0 +1,349 @@
+import { For, Show, createEffect, createSignal, untrack } from 'solid-js';
+import { A, useLocation, useNavigate, useParams, useSearchParams } from '@solidjs/router';
+import { useSupport } from '../stores/support.store';
+import { SUPPORT_TICKET_STATUSES } from '../types/support';
+import type { SupportTicket, SupportTicketDetail } from '../types/support';
+
+const PAGE_SIZE = 50;
+
+type SupportSearchParams = {
+  status?: string;
+  assignee?: string;
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  Open: 'bg-blue-100 text-blue-800',
+  Pending: 'bg-yellow-100 text-yellow-800',
+  Closed: 'bg-gray-100 text-gray-600',
+};
+
+function submitter(ticket: SupportTicket): string {
+  if (ticket.submitterUsername) return `${ticket.name} (@${ticket.submitterUsername})`;
+  return ticket.email ? `${ticket.name} <${ticket.email}>` : ticket.name;
+}
+
+function StatusBadge(props: { status: string }) {
+  return (
+    <span class={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_BADGES[props.status] ?? STATUS_BADGES.Closed}`}>
+      {props.status}
+    </span>
+  );
+}
+
+/**
+ * The support inbox: contact form submissions and tickets opened from the hub
+ * dashboard, with status, assignment and a reply thread that is emailed to the
+ * submitter. Filters live in the query string; the open ticket in the path.
+ */
+export function SupportPage() {
+  const support = useSupport();
+  const params = useParams<{ id?: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams<SupportSearchParams>();
+
+  // No status in the query string means the open queue; 'all' shows every ticket.
+  const status = () => searchParams.status ?? 'Open';
+
+  createEffect(() => {
+    const filters = {
+      status: status() === 'all' ? undefined : status(),
+      assignee: searchParams.assignee,
+    };
+    untrack(() => support.fetch(filters, 1, PAGE_SIZE));
+  });
+
+  createEffect(() => {
+    const id = params.id;
+    untrack(() => (id ? support.open(id) : support.close()));
+  });
+
+  const countFor = (value: string) => {
+    const counts = support.inbox?.counts;
+    if (!counts) return null;
+    if (value === 'all') return counts.open + counts.pending + counts.closed;
+    return counts[value.toLowerCase() as 'open' | 'pending' | 'closed'];
+  };
+
+  const openTicket = (id: string) => navigate(`/support/${id}${location.search}`);
+
+  return (
+    <div class="grid grid-cols-5 gap-6">
+      <div class="col-span-2 bg-white rounded-lg shadow self-start">
+        <div class="p-6 border-b border-gray-200">
+          <p class="text-sm text-gray-500">Support</p>
+          <h2 class="text-xl font-semibold">Tickets</h2>
+
+          <div class="mt-4 flex flex-wrap gap-1">
+            <For each={[...SUPPORT_TICKET_STATUSES, 'all']}>
+              {(value) => (
+                <button
+                  data-testid={`support-status-${value}`}
+                  onClick={() => setSearchParams({ status: value === 'Open' ? undefined : value })}
+                  class={`px-3 py-1 rounded text-sm ${
+                    status() === value ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 hover:bg-gray-200'
+                  }`}
+                >
+                  {value === 'all' ? 'All' : value}
+                  <Show when={countFor(value) !== null}>
+                    <span class="ml-1 text-xs text-gray-500">{countFor(value)}</span>
+                  </Show>
+                </button>
+              )}
+            </For>
+          </div>
+
+          <select
+            data-testid="support-filter-assignee"
+            value={searchParams.assignee ?? ''}
+            onChange={(e) => setSearchParams({ assignee: e.currentTarget.value || undefined })}
+            class="mt-3 w-full px-3 py-2 border border-gray-300 rounded text-sm"
+          >
+            <option value="">Anyone</option>
+            <option value="unassigned">Unassigned</option>
+            <For each={support.inbox?.assignees ?? []}>
+              {(assignee) => <option value={assignee.id}>{assignee.displayName}</option>}
+            </For>
+          </select>
+        </div>
+
+        <Show when={support.inbox || !support.isLoading} fallback={<div class="p-6 text-center">Loading...</div>}>
+          <Show
+            when={(support.inbox?.tickets.length ?? 0) > 0}
+            fallback={<div data-testid="support-empty" class="p-6 text-center text-gray-500">No tickets match these filters.</div>}
+          >
+            <ul class="divide-y divide-gray-200">
+              <For each={support.inbox!.tickets}>
+                {(ticket) => (
+                  <li>
+                    <button
+                      data-testid={`support-ticket-${ticket.id}`}
+                      onClick={() => openTicket(ticket.id)}
+                      class={`w-full text-left px-6 py-4 hover:bg-gray-50 ${params.id === ticket.id ? 'bg-blue-50' : ''}`}
+                    >
+                      <div class="flex items-center justify-between gap-2">
+                        <span class="font-medium truncate">{ticket.subject}</span>
+                        <StatusBadge status={ticket.status} />
+                      </div>
+                      <div class="mt-1 text-sm text-gray-600 truncate">{submitter(ticket)}</div>
+                      <div class="mt-1 flex justify-between text-xs text-gray-500">
+                        <span>{ticket.instanceDomain ?? 'Contact form'}</span>
+                        <span>
+                          {ticket.assigneeName ?? 'Unassigned'} · {new Date(ticket.updatedAt).toLocaleString()}
+                        </span>
+                      </div>
+                    </button>
+                  </li>
+                )}
+              </For>
+            </ul>
+          </Show>
+        </Show>
+      </div>
+
+      <div class="col-span-3 space-y-6">
+        <Show when={support.error}>
+          <div class="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">
+            {support.error}
+          </div>
+        </Show>
+
+        <Show
+          when={support.ticket}
+          fallback={
+            <div class="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+              Select a ticket to read the conversation.
+            </div>
+          }
+        >
+          {(detail) => <TicketThread detail={detail()} />}
+        </Show>
+      </div>
+    </div>
+  );
+}
+
+function TicketThread(props: { detail: SupportTicketDetail }) {
+  const support = useSupport();
+  const ticket = () => props.detail.ticket;
+
+  const [status, setStatus] = createSignal(ticket().status);
+  const [assigneeId, setAssigneeId] = createSignal(ticket().assigneeId ?? '');
+  const [reply, setReply] = createSignal('');
+  const [statusAfterReply, setStatusAfterReply] = createSignal('Pending');
+  const [isSaving, setIsSaving] = createSignal(false);
+  const [notice, setNotice] = createSignal<string | null>(null);
+  const [actionError, setActionError] = createSignal<string | null>(null);
+
+  createEffect(() => {
+    setStatus(ticket().status);
+    setAssigneeId(ticket().assigneeId ?? '');
+  });
+
+  const isDirty = () => status() !== ticket().status || assigneeId() !== (ticket().assigneeId ?? '');
+
+  const run = async (action: () => Promise<void>, success: string, fallback: string) => {
+    setIsSaving(true);
+    setNotice(null);
+    setActionError(null);
+    try {
+      await action();
+      setNotice(success);
+    } catch (err) {
+      setActionError((err as { detail?: string })?.detail ?? fallback);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(
+      () => support.update(ticket().id, status(), assigneeId() || null),
+      'Ticket updated',
+      'Failed to update the ticket',
+    );
+
+  const handleReply = async (e: SubmitEvent) => {
+    e.preventDefault();
+    if (!reply().trim()) return;
+    await run(
+      async () => {
+        await support.reply(ticket().id, reply().trim(), statusAfterReply());
+        setReply('');
+      },
+      'Reply sent to the submitter',
+      'Failed to send the reply',
+    );
+  };
+
+  return (
+    <div data-testid="support-thread" class="bg-white rounded-lg shadow">
+      <div class="p-6 border-b border-gray-200">
+        <div class="flex items-start justify-between gap-4">
+          <div>
+            <h3 class="text-lg font-semibold">{ticket().subject}</h3>
+            <p class="text-sm text-gray-600">{submitter(ticket())}</p>
+            <p class="text-sm text-gray-500">
+              <Show when={ticket().instanceId} fallback={<>Contact form{props.detail.company ? ` · ${props.detail.company}` : ''}</>}>
+                <A href={`/instances/${ticket().instanceId}`} class="text-blue-600 hover:underline">
+                  {ticket().instanceDomain ?? ticket().instanceId}
+                </A>
+              </Show>
+              <Show when={props.detail.expectedMemberCount}>
+                {(count) => <> · {count()} expected members</>}
+              </Show>
+            </p>
+          </div>
+          <StatusBadge status={ticket().status} />
+        </div>
+
+        <div class="mt-4 flex flex-wrap items-end gap-3 text-sm">
+          <label class="flex flex-col gap-1">
+            <span class="text-gray-600">Status</span>
+            <select
+              data-testid="support-ticket-status"
+              value={status()}
+              onChange={(e) => setStatus(e.currentTarget.value)}
+              class="px-3 py-2 border border-gray-300 rounded"
+            >
+              <For each={SUPPORT_TICKET_STATUSES}>{(value) => <option value={value}>{value}</option>}</For>
+            </select>
+          </label>
+          <label class="flex flex-col gap-1">
+            <span class="text-gray-600">Assigned to</span>
+            <select
+              data-testid="support-ticket-assignee"
+              value={assigneeId()}
+              onChange={(e) => setAssigneeId(e.currentTarget.value)}
+              class="px-3 py-2 border border-gray-300 rounded"
+            >
+              <option value="">Unassigned</option>
+              <For each={support.inbox?.assignees ?? []}>
+                {(assignee) => <option value={assignee.id}>{assignee.displayName}</option>}
+              </For>
+            </select>
+          </label>
+          <button
+            data-testid="support-ticket-save"
+            onClick={handleSave}
+            disabled={!isDirty() || isSaving()}
+            class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      <Show when={notice()}>
+        <div class="mx-6 mt-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded text-sm">
+          {notice()}
+        </div>
+      </Show>
+      <Show when={actionError()}>
+        <div class="mx-6 mt-4 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded text-sm">
+          {actionError()}
+        </div>
+      </Show>
+
+      <ol class="p-6 space-y-4">
+        <li class="border border-gray-200 rounded p-4">
+          <div class="flex justify-between text-xs text-gray-500 mb-2">
+            <span class="font-medium text-gray-700">{ticket().name}</span>
+            <span>{new Date(ticket().createdAt).toLocaleString()}</span>
+          </div>
+          <p class="text-sm whitespace-pre-wrap">{props.detail.message}</p>
+        </li>
+        <For each={props.detail.replies}>
+          {(message) => (
+            <li
+              data-testid={`support-reply-${message.id}`}
+              class={`border rounded p-4 ${message.isStaff ? 'ml-8 border-blue-200 bg-blue-50' : 'border-gray-200'}`}
+            >
+              <div class="flex justify-between text-xs text-gray-500 mb-2">
+                <span class="font-medium text-gray-700">
+                  {message.authorName}
+                  <Show when={message.isStaff}> · Staff</Show>
+                </span>
+                <span>{new Date(message.createdAt).toLocaleString()}</span>
+              </div>
+              <p class="text-sm whitespace-pre-wrap">{message.body}</p>
+            </li>
+          )}
+        </For>
+      </ol>
+
+      <form onSubmit={handleReply} class="p-6 border-t border-gray-200 space-y-3">
+        <textarea
+          data-testid="support-reply-body"
+          rows={4}
+          maxLength={2000}
+          value={reply()}
+          onInput={(e) => setReply(e.currentTarget.value)}
+          placeholder="Write a reply. It is emailed to the submitter."
+          class="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+        <div class="flex items-center justify-end gap-3 text-sm">
+          <label class="flex items-center gap-2">
+            <span class="text-gray-600">Then mark as</span>
+            <select
+              data-testid="support-reply-status"
+              value={statusAfterReply()}
+              onChange={(e) => setStatusAfterReply(e.currentTarget.value)}
+              class="px-3 py-2 border border-gray-300 rounded"
+            >
+              <For each={SUPPORT_TICKET_STATUSES}>{(value) => <option value={value}>{value}</option>}</For>
+            </select>
+          </label>
+          <button
+            type="submit"
+            data-testid="support-reply-send"
+            disabled={!reply().trim() || isSaving()}
+            class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Send reply
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ const CONFIG_PATH = '/api/v1/admin/system-config';
 
 const sampleConfig = {
   paidServersDisabled: false,
+  requireAdminTwoFactor: false,
+  autoRollbackWindowMinutes: 0,
   updatedAt: '2026-01-01T00:00:00Z',
 };
 
@@ -46,6 +48,48 @@ describe('SystemConfigPage', () => {
     await waitFor(() => expect(useSystemConfig().config?.paidServersDisabled).toBe(true));
   });
 
+  it('sends every setting when toggling the admin 2FA requirement', async () => {
+    const { calls } = mockFetch({
+      [`GET ${CONFIG_PATH}`]: () => ({ ...sampleConfig, paidServersDisabled: true }),
+      [`PUT ${CONFIG_PATH}`]: () => ({ ...sampleConfig, paidServersDisabled: true, requireAdminTwoFactor: true }),
+    });
+    const { findByTestId } = render(() => <SystemConfigPage />);
+    const toggle = (await findByTestId('require-admin-2fa-toggle')) as HTMLInputElement;
+    fireEvent.change(toggle, { target: { checked: true } });
+    await waitFor(() => expect(useSystemConfig().config?.requireAdminTwoFactor).toBe(true));
+    const put = calls.find((c) => c.method === 'PUT');
+    expect(put?.body).toEqual({ paidServersDisabled: true, requireAdminTwoFactor: true, autoRollbackWindowMinutes: 0 });
+  });
+
+  it('saves the automatic rollback window with the other settings', async () => {
+    const { calls } = mockFetch({
+      [`GET ${CONFIG_PATH}`]: () => sampleConfig,
+      [`PUT ${CONFIG_PATH}`]: () => ({ ...sampleConfig, autoRollbackWindowMinutes: 30 }),
+    });
+    const { findByTestId } = render(() => <SystemConfigPage />);
+    const input = (await findByTestId('auto-rollback-window-input')) as HTMLInputElement;
+    expect(input.value).toBe('0');
+    fireEvent.change(input, { target: { value: '30' } });
+    await waitFor(() => expect(useSystemConfig().config?.autoRollbackWindowMinutes).toBe(30));
+    const put = calls.find((c) => c.method === 'PUT');
+    expect(put?.body).toEqual({ paidServersDisabled: false, requireAdminTwoFactor: false, autoRollbackWindowMinutes: 30 });
+  });
+
+  it('shows why the admin 2FA requirement was rejected and reverts the toggle', async () => {
+    mockFetch({
+      [`GET ${CONFIG_PATH}`]: () => sampleConfig,
+      [`PUT ${CONFIG_PATH}`]: () => ({
+        status: 409,
+        body: { title: 'TWO_FACTOR_NOT_ENABLED', detail: 'Enable two-factor authentication on your own account first' },
+      }),
+    });
+    const { findByTestId, findByText } = render(() => <SystemConfigPage />);
+    const toggle = (await findByTestId('require-admin-2fa-toggle')) as HTMLInputElement;
+    fireEvent.change(toggle, { target: { checked: true } });
+    expect(await findByText('Enable two-factor authentication on your own account first')).toBeInTheDocument();
+    expect(toggle.checked).toBe(false);
+  });
+
   it('renders updated-at timestamp text', async () => {
     mockFetch({ [`GET ${CONFIG_PATH}`]: () => sampleConfig });
     const { findByText } = render(() => <SystemConfigPage />);
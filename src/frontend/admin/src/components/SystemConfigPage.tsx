@@ -1,8 +1,9 @@
-import { Show, onMount } from 'solid-js';
+import { Show, createSignal, onMount } from 'solid-js';
 import { useSystemConfig } from '../stores/system-config.store';
 
 export function SystemConfigPage() {
   const systemConfig = useSystemConfig();
+  const [saveError, setSaveError] = createSignal<string | null>(null);
 
   onMount(() => {
     systemConfig.fetch();
@@ -13,11 +14,34 @@ export function SystemConfigPage() {
     await systemConfig.setPaidServersDisabled(checked);
   };
 
+  const handleToggleRequireAdminTwoFactor = async (e: Event) => {
+    const input = e.currentTarget as HTMLInputElement;
+    setSaveError(null);
+    try {
+      await systemConfig.setRequireAdminTwoFactor(input.checked);
+    } catch (error) {
+      input.checked = !input.checked;
+      setSaveError((error as { detail?: string })?.detail ?? 'Failed to save settings');
+    }
+  };
+
+  const handleAutoRollbackWindowChange = async (e: Event) => {
+    const input = e.currentTarget as HTMLInputElement;
+    const minutes = Math.max(0, Math.floor(Number(input.value) || 0));
+    setSaveError(null);
+    try {
+      await systemConfig.setAutoRollbackWindow(minutes);
+    } catch (error) {
+      input.value = String(systemConfig.config?.autoRollbackWindowMinutes ?? 0);
+      setSaveError((error as { detail?: string })?.detail ?? 'Failed to save settings');
+    }
+  };
+
   return (
     <div class="bg-white rounded-lg shadow">
       <div class="p-6 border-b border-gray-200">
         <h2 class="text-xl font-semibold">System Settings</h2>
-        <p class="text-sm text-gray-500 mt-1">Hub-wide controls for instance creation and billing</p>
+        <p class="text-sm text-gray-500 mt-1">Hub-wide controls for instance creation, billing, upgrades and admin access</p>
       </div>
 
       <Show when={!systemConfig.isLoading} fallback={<div class="p-6 text-center">Loading...</div>}>
@@ -48,6 +72,61 @@ export function SystemConfigPage() {
                 </label>
               </div>
 
+              <div class="flex items-start justify-between gap-6">
+                <div class="flex-1">
+                  <label class="block text-sm font-semibold text-gray-900" for="requireAdminTwoFactor">
+                    Require two-factor authentication for admins
+                  </label>
+                  <p class="text-sm text-gray-500 mt-1">
+                    When enabled, admins without two-factor authentication cannot use the admin panel
+                    until they turn it on in their hub account settings.
+                  </p>
+                </div>
+                <label class="relative inline-flex items-center cursor-pointer mt-1">
+                  <input
+                    id="requireAdminTwoFactor"
+                    data-testid="require-admin-2fa-toggle"
+                    type="checkbox"
+                    class="sr-only peer"
+                    checked={cfg().requireAdminTwoFactor}
+                    disabled={systemConfig.isSaving}
+                    onChange={handleToggleRequireAdminTwoFactor}
+                  />
+                  <div class="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+
+              <div class="flex items-start justify-between gap-6">
+                <div class="flex-1">
+                  <label class="block text-sm font-semibold text-gray-900" for="autoRollbackWindowMinutes">
+                    Automatic rollback window
+                  </label>
+                  <p class="text-sm text-gray-500 mt-1">
+                    Minutes after an upgrade during which an instance that fails three health checks in a
+                    row is rolled back to its previous image instead of restarted. Set to 0 to turn
+                    automatic rollback off.
+                  </p>
+                </div>
+                <div class="flex items-center gap-2 mt-1">
+                  <input
+                    id="autoRollbackWindowMinutes"
+                    data-testid="auto-rollback-window-input"
+                    type="number"
+                    min="0"
+                    max="1440"
+                    class="w-24 px-3 py-1.5 border border-gray-300 rounded text-sm"
+                    value={cfg().autoRollbackWindowMinutes}
+                    disabled={systemConfig.isSaving}
+                    onChange={handleAutoRollbackWindowChange}
+                  />
+                  <span class="text-sm text-gray-500">min</span>
+                </div>
+              </div>
+
+              <Show when={saveError()}>
+                <p class="text-sm text-red-600">{saveError()}</p>
+              </Show>
+
               <div class="text-xs text-gray-400 border-t pt-4">
                 Last updated: {new Date(cfg().updatedAt).toLocaleString()}
               </div>
@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { TwoFactorRequired } from './TwoFactorRequired';
+import { useAuth } from '../stores/auth.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+
+describe('TwoFactorRequired', () => {
+  beforeEach(() => {
+    useAuth().reset();
+    localStorage.clear();
+    Object.defineProperty(window, 'location', {
+      value: { ...window.location, href: '', reload: vi.fn() },
+      writable: true,
+    });
+  });
+
+  it('explains the requirement and links to the hub account settings', () => {
+    const { getByText } = render(() => <TwoFactorRequired />);
+    expect(getByText('Two-factor authentication required')).toBeInTheDocument();
+    expect(getByText('Open Account Settings')).toHaveAttribute('href', '/dashboard/account');
+  });
+
+  it('Logout signs the admin out', async () => {
+    const { calls } = mockFetch({ 'POST /api/v1/auth/logout': () => ({ status: 204 }) });
+    const { getByText } = render(() => <TwoFactorRequired />);
+    fireEvent.click(getByText('Logout'));
+    await waitFor(() => expect(window.location.href).toBe('/login'));
+    expect(calls.some((c) => c.url === '/api/v1/auth/logout')).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { createSignal } from 'solid-js';
+import { useAuth } from '../stores/auth.store';
+import Logo from './Logo';
+
+// Two-factor setup lives in the Two-Factor Authentication section of the hub account page.
+const HUB_ACCOUNT_URL = '/dashboard/account';
+
+export function TwoFactorRequired() {
+  const auth = useAuth();
+  const [isChecking, setIsChecking] = createSignal(false);
+
+  const handleCheckAgain = async () => {
+    setIsChecking(true);
+    try {
+      await auth.validateAuth();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await auth.logout();
+    window.location.href = '/login';
+  };
+
+  return (
+    <div class="min-h-screen flex items-center justify-center bg-gray-100">
+      <div class="bg-white p-8 rounded-lg shadow-md w-full max-w-md space-y-4">
+        <h1 class="text-2xl font-bold text-center"><Logo /> Hub Admin</h1>
+        <h2 class="text-lg font-semibold">Two-factor authentication required</h2>
+        <p class="text-sm text-gray-600">
+          This hub requires every administrator to use two-factor authentication. Turn it on under
+          Two-Factor Authentication in your hub account settings, then come back to the admin panel.
+        </p>
+        <a
+          href={HUB_ACCOUNT_URL}
+          class="block w-full text-center bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700"
+        >
+          Open Account Settings
+        </a>
+        <div class="flex gap-3">
+          <button
+            onClick={handleCheckAgain}
+            disabled={isChecking()}
+            class="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            {isChecking() ? 'Checking...' : 'Check Again'}
+          </button>
+          <button
+            onClick={handleLogout}
+            class="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+          >
+            Logout
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
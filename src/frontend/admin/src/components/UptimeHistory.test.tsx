@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fireEvent, render } from '@solidjs/testing-library';
+import { UptimeHistory } from './UptimeHistory';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { InstanceUptime, UptimeDay } from '../types/instance';
+
+const UPTIME_PATH = '/api/v1/admin/instances/i-1/uptime';
+
+// 90 days ending 2026-10-10; the first 80 were before tracking started
+const days: UptimeDay[] = Array.from({ length: 90 }, (_, i) => {
+  const date = new Date(Date.UTC(2026, 9, 10 - 89 + i)).toISOString().slice(0, 10);
+  return i < 80
+    ? { date, monitoredMinutes: 0, downtimeMinutes: 0, availabilityPercentage: null }
+    : { date, monitoredMinutes: 1440, downtimeMinutes: 0, availabilityPercentage: 100 };
+});
+days[88] = { date: '2026-10-09', monitoredMinutes: 1440, downtimeMinutes: 90, availabilityPercentage: 93.75 };
+
+const uptime: InstanceUptime = {
+  instanceId: 'i-1',
+  availability7Days: 99.107,
+  availability30Days: 99.375,
+  availability90Days: 99.375,
+  days,
+  outages: [
+    { startedAt: '2026-10-09T10:00:00Z', endedAt: '2026-10-09T11:30:00Z', durationMinutes: 90, isOngoing: false },
+  ],
+};
+
+function renderHistory() {
+  return render(() => <UptimeHistory instanceId="i-1" />);
+}
+
+describe('UptimeHistory', () => {
+  beforeEach(() => {
+    useInstances().reset();
+  });
+
+  it('shows 7, 30 and 90 day availability', async () => {
+    mockFetch({ [`GET ${UPTIME_PATH}`]: () => uptime });
+    const { findByText, getByText } = renderHistory();
+
+    expect(await findByText('99.11%')).toBeInTheDocument();
+    expect(getByText('Last 30 days').nextElementSibling).toHaveTextContent('99.38%');
+    expect(getByText('Last 90 days').nextElementSibling).toHaveTextContent('99.38%');
+  });
+
+  it('draws a bar per day and switches between 30 and 90 days', async () => {
+    mockFetch({ [`GET ${UPTIME_PATH}`]: () => uptime });
+    const { findByTestId, getByText, getByTestId } = renderHistory();
+
+    expect((await findByTestId('uptime-bars')).children).toHaveLength(30);
+    expect(getByTestId('uptime-bar-2026-10-09')).toHaveClass('bg-red-500');
+    expect(getByTestId('uptime-bar-2026-10-10')).toHaveClass('bg-green-500');
+
+    fireEvent.click(getByText('90 days'));
+    expect(getByTestId('uptime-bars').children).toHaveLength(90);
+    expect(getByTestId('uptime-bar-2026-07-13')).toHaveClass('bg-gray-200');
+  });
+
+  it('shows the outages of the hovered day', async () => {
+    mockFetch({ [`GET ${UPTIME_PATH}`]: () => uptime });
+    const { findByTestId, getByTestId } = renderHistory();
+    await findByTestId('uptime-bars');
+
+    fireEvent.mouseEnter(getByTestId('uptime-bar-2026-10-09'));
+    const detail = getByTestId('uptime-day-detail');
+    expect(detail).toHaveTextContent('2026-10-09: 93.75% available, 1h 30m down');
+    expect(detail).toHaveTextContent(new Date('2026-10-09T10:00:00Z').toLocaleString());
+
+    fireEvent.mouseEnter(getByTestId('uptime-bar-2026-10-10'));
+    expect(detail).toHaveTextContent('2026-10-10: 100% available, 0m down');
+    expect(detail.querySelectorAll('li')).toHaveLength(0);
+
+    fireEvent.mouseLeave(getByTestId('uptime-bars'));
+    expect(detail).toHaveTextContent('Hover over a day to see its outages');
+  });
+
+  it('lists every outage', async () => {
+    mockFetch({
+      [`GET ${UPTIME_PATH}`]: () => ({
+        ...uptime,
+        outages: [
+          { startedAt: '2026-10-10T09:00:00Z', endedAt: null, durationMinutes: 15, isOngoing: true },
+          ...uptime.outages,
+        ],
+      }),
+    });
+    const { findByTestId } = renderHistory();
+
+    const outages = await findByTestId('uptime-outages');
+    expect(outages.children).toHaveLength(2);
+    expect(outages.children[0]).toHaveTextContent('ongoing');
+    expect(outages.children[0]).toHaveTextContent('(15m)');
+  });
+
+  it('says when nothing has been monitored', async () => {
+    mockFetch({
+      [`GET ${UPTIME_PATH}`]: () => ({
+        ...uptime,
+        availability7Days: null,
+        availability30Days: null,
+        availability90Days: null,
+        outages: [],
+      }),
+    });
+    const { findByText, getAllByText } = renderHistory();
+
+    expect(await findByText('No outages in the last 90 days')).toBeInTheDocument();
+    expect(getAllByText('—')).toHaveLength(3);
+  });
+
+  it('reports a failure to load', async () => {
+    mockFetch({
+      [`GET ${UPTIME_PATH}`]: () => ({ status: 404, body: { title: 'INSTANCE_NOT_FOUND', detail: 'Instance not found' } }),
+    });
+    const { findByText } = renderHistory();
+    expect(await findByText('Instance not found')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,164 @@
+import { For, Show, createEffect, createSignal, on } from 'solid-js';
+import { useInstances } from '../stores/instance.store';
+import type { InstanceUptime, UptimeDay, UptimeOutage } from '../types/instance';
+
+const RANGES = [30, 90] as const;
+type Range = (typeof RANGES)[number];
+
+function formatPercentage(value: number | null | undefined): string {
+  return value == null ? '—' : `${value.toFixed(value === 100 ? 0 : 2)}%`;
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+function barClass(day: UptimeDay): string {
+  if (day.availabilityPercentage == null) return 'bg-gray-200';
+  if (day.availabilityPercentage >= 100) return 'bg-green-500';
+  if (day.availabilityPercentage >= 99) return 'bg-yellow-400';
+  return 'bg-red-500';
+}
+
+// Days are UTC calendar days, so outages are matched against UTC bounds
+function outagesOn(day: UptimeDay, outages: UptimeOutage[]): UptimeOutage[] {
+  const start = new Date(`${day.date}T00:00:00Z`).getTime();
+  const end = start + 24 * 60 * 60 * 1000;
+  return outages.filter((o) => {
+    const from = new Date(o.startedAt).getTime();
+    const to = o.endedAt ? new Date(o.endedAt).getTime() : Date.now();
+    return from < end && to > start;
+  });
+}
+
+function OutageRow(props: { outage: UptimeOutage }) {
+  return (
+    <li class="flex gap-3">
+      <span>{new Date(props.outage.startedAt).toLocaleString()}</span>
+      <span>&rarr;</span>
+      <span>{props.outage.endedAt ? new Date(props.outage.endedAt).toLocaleString() : 'ongoing'}</span>
+      <span class="text-gray-500">({formatMinutes(props.outage.durationMinutes)})</span>
+    </li>
+  );
+}
+
+interface UptimeHistoryProps {
+  instanceId: string;
+}
+
+export function UptimeHistory(props: UptimeHistoryProps) {
+  const instanceStore = useInstances();
+  const [uptime, setUptime] = createSignal<InstanceUptime | null>(null);
+  const [isLoading, setIsLoading] = createSignal(true);
+  const [error, setError] = createSignal<string | null>(null);
+  const [range, setRange] = createSignal<Range>(30);
+  const [hovered, setHovered] = createSignal<UptimeDay | null>(null);
+
+  createEffect(on(() => props.instanceId, async (id) => {
+    setIsLoading(true);
+    try {
+      setUptime(await instanceStore.fetchInstanceUptime(id));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch uptime history:', err);
+      setError((err as { detail?: string })?.detail ?? 'Failed to load uptime history');
+    } finally {
+      setIsLoading(false);
+    }
+  }));
+
+  const days = () => uptime()?.days.slice(-range()) ?? [];
+
+  return (
+    <div>
+      <h3 class="text-lg font-semibold mb-3">Uptime</h3>
+      <Show when={!isLoading()} fallback={<p class="text-gray-500">Loading...</p>}>
+        <Show when={uptime()} fallback={<p class="text-red-600">{error()}</p>}>
+          {(current) => (
+            <div class="space-y-4">
+              <div class="grid grid-cols-3 gap-4">
+                <For each={[
+                  { label: 'Last 7 days', value: current().availability7Days },
+                  { label: 'Last 30 days', value: current().availability30Days },
+                  { label: 'Last 90 days', value: current().availability90Days },
+                ]}>
+                  {(window) => (
+                    <div class="p-3 border border-gray-200 rounded">
+                      <div class="text-sm text-gray-500">{window.label}</div>
+                      <div class="text-xl font-semibold">{formatPercentage(window.value)}</div>
+                    </div>
+                  )}
+                </For>
+              </div>
+
+              <div>
+                <div class="flex items-center justify-between mb-2">
+                  <span class="text-sm text-gray-500">Daily availability (UTC)</span>
+                  <div class="flex gap-1">
+                    <For each={RANGES}>
+                      {(days) => (
+                        <button
+                          onClick={() => setRange(days)}
+                          class={`px-2 py-0.5 text-xs rounded ${
+                            range() === days ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          {days} days
+                        </button>
+                      )}
+                    </For>
+                  </div>
+                </div>
+                <div data-testid="uptime-bars" class="flex items-end gap-px h-10" onMouseLeave={() => setHovered(null)}>
+                  <For each={days()}>
+                    {(day) => (
+                      <div
+                        data-testid={`uptime-bar-${day.date}`}
+                        aria-label={`${day.date}: ${formatPercentage(day.availabilityPercentage)}`}
+                        onMouseEnter={() => setHovered(day)}
+                        class={`flex-1 h-full rounded-sm ${barClass(day)} ${hovered() === day ? 'opacity-70' : ''}`}
+                      />
+                    )}
+                  </For>
+                </div>
+                <div data-testid="uptime-day-detail" class="mt-2 min-h-12 text-sm">
+                  <Show when={hovered()} fallback={<p class="text-gray-400">Hover over a day to see its outages</p>}>
+                    {(day) => (
+                      <div>
+                        <p class="font-medium">
+                          {day().date}: {day().availabilityPercentage == null
+                            ? 'not monitored'
+                            : `${formatPercentage(day().availabilityPercentage)} available, ${formatMinutes(day().downtimeMinutes)} down`}
+                        </p>
+                        <ul class="text-gray-700">
+                          <For each={outagesOn(day(), current().outages)}>
+                            {(outage) => <OutageRow outage={outage} />}
+                          </For>
+                        </ul>
+                      </div>
+                    )}
+                  </Show>
+                </div>
+              </div>
+
+              <div>
+                <h4 class="font-semibold mb-2">Outages</h4>
+                <Show
+                  when={current().outages.length > 0}
+                  fallback={<p class="text-sm text-gray-500">No outages in the last 90 days</p>}
+                >
+                  <ul data-testid="uptime-outages" class="text-sm space-y-1">
+                    <For each={current().outages}>{(outage) => <OutageRow outage={outage} />}</For>
+                  </ul>
+                </Show>
+              </div>
+            </div>
+          )}
+        </Show>
+      </Show>
+    </div>
+  );
+}
@@ -34,6 +34,23 @@ const v110 = {
   publishedAt: '2026-02-01T00:00:00Z',
 };
 
+const v120 = {
+  ...v110,
+  id: 'v-120',
+  version: '1.2.0',
+  image: 'docker.xcord.net/fed:1.2.0',
+  releaseNotes: JSON.stringify({
+    version: '1.2.0',
+    features: [],
+    fixes: [{ summary: 'Fixed uploads', commit: '1234567abc' }],
+    other: [],
+    breakingChanges: ['Removed the v1 webhooks API'],
+    migrationNotes: 'Re-register webhooks against /api/v2.',
+    knownIssues: '',
+  }),
+  publishedAt: '2026-03-01T00:00:00Z',
+};
+
 describe('VersionTab', () => {
   beforeEach(() => {
     useInstances().reset();
@@ -121,6 +138,45 @@ describe('VersionTab', () => {
     expect(btn.textContent).toContain('Update to This Version');
   });
 
+  it('shows cumulative release notes when skipping versions', async () => {
+    mockFetch({
+      [`GET ${VERSIONS_PATH}`]: () => ({ versions: [v120, v110, v100] }),
+    });
+    const { findByTestId, getByTestId } = render(() => (
+      <VersionTab
+        instanceId="i-1"
+        currentVersion="1.0.0"
+        currentImage={v100.image}
+        instanceStatus="Running"
+      />
+    ));
+    fireEvent.click(await findByTestId('version-item-1.2.0'));
+
+    const notes = await findByTestId('cumulative-release-notes');
+    expect(notes).toHaveTextContent('Changes from 1.0.0 to 1.2.0 across 2 versions (1.1.0, 1.2.0)');
+    expect(notes).toHaveTextContent('Added widgets');
+    expect(notes).toHaveTextContent('Fixed uploads');
+    expect(getByTestId('cumulative-breaking-changes')).toHaveTextContent('1.2.0Removed the v1 webhooks API');
+    expect(getByTestId('cumulative-migration-notes')).toHaveTextContent('Re-register webhooks against /api/v2.');
+  });
+
+  it('shows the single release notes for the next version', async () => {
+    mockFetch({
+      [`GET ${VERSIONS_PATH}`]: () => ({ versions: [v120, v110, v100] }),
+    });
+    const { findByTestId, findByText, queryByTestId } = render(() => (
+      <VersionTab
+        instanceId="i-1"
+        currentVersion="1.0.0"
+        currentImage={v100.image}
+        instanceStatus="Running"
+      />
+    ));
+    fireEvent.click(await findByTestId('version-item-1.1.0'));
+    expect(await findByText('Added widgets')).toBeInTheDocument();
+    expect(queryByTestId('cumulative-release-notes')).toBeNull();
+  });
+
   it('shows success message after upgrade succeeds', async () => {
     mockFetch({
       [`GET ${VERSIONS_PATH}`]: () => ({ versions: [v100, v110] }),
@@ -1,6 +1,9 @@
 import { Show, For, createSignal, onMount, createMemo } from 'solid-js';
 import { useInstances } from '../stores/instance.store';
-import type { AvailableVersion, ReleaseNotes } from '../types/instance';
+import type { AvailableVersion } from '../types/instance';
+import { ReleaseNotesView, parseReleaseNotes } from './ReleaseNotesView';
+import { RollbackPanel } from './RollbackPanel';
+import { CumulativeReleaseNotes, collectReleaseNotes, findVersion } from './CumulativeReleaseNotes';
 
 interface VersionTabProps {
   instanceId: string;
@@ -9,15 +12,6 @@ interface VersionTabProps {
   instanceStatus: string;
 }
 
-function parseReleaseNotes(raw: string | null): ReleaseNotes | null {
-  if (!raw) return null;
-  try {
-    return JSON.parse(raw) as ReleaseNotes;
-  } catch {
-    return null;
-  }
-}
-
 export function VersionTab(props: VersionTabProps) {
   const instanceStore = useInstances();
   const [selectedVersion, setSelectedVersion] = createSignal<AvailableVersion | null>(null);
@@ -48,6 +42,16 @@ export function VersionTab(props: VersionTabProps) {
     return parseReleaseNotes(version.releaseNotes);
   });
 
+  // Jumping several versions shows everything in between, not just the target's notes
+  const cumulativeNotes = createMemo(() => {
+    const version = selectedVersion();
+    const versions = instanceStore.availableVersions;
+    const current = findVersion(versions, props.currentVersion) ?? findVersion(versions, props.currentImage);
+    if (!version || !current) return null;
+    const notes = collectReleaseNotes(versions, current, version);
+    return notes && notes.versions.length > 1 ? notes : null;
+  });
+
   const isCurrentVersion = createMemo(() => {
     const version = selectedVersion();
     if (!version) return true;
@@ -83,6 +87,8 @@ export function VersionTab(props: VersionTabProps) {
       </Show>
 
       <Show when={!isLoading()}>
+        <RollbackPanel instanceId={props.instanceId} />
+
         <div class="flex gap-6">
           {/* Version list panel */}
           <div class="w-64 flex-shrink-0">
@@ -189,102 +195,19 @@ export function VersionTab(props: VersionTabProps) {
                 </div>
 
                 <Show
-                  when={releaseNotes()}
+                  when={cumulativeNotes()}
                   fallback={
-                    <p class="text-sm text-gray-500">No release notes available for this version.</p>
+                    <Show
+                      when={releaseNotes()}
+                      fallback={
+                        <p class="text-sm text-gray-500">No release notes available for this version.</p>
+                      }
+                    >
+                      {(notes) => <ReleaseNotesView notes={notes()} />}
+                    </Show>
                   }
                 >
-                  <div class="space-y-4">
-                    <Show when={releaseNotes()!.breakingChanges.length > 0}>
-                      <div class="bg-red-50 border border-red-200 rounded-lg p-4">
-                        <h4 class="text-sm font-semibold text-red-800 mb-2">Breaking Changes</h4>
-                        <ul class="list-disc list-inside space-y-1">
-                          <For each={releaseNotes()!.breakingChanges}>
-                            {(change) => (
-                              <li class="text-sm text-red-700">{change}</li>
-                            )}
-                          </For>
-                        </ul>
-                      </div>
-                    </Show>
-
-                    <Show when={releaseNotes()!.features.length > 0}>
-                      <div>
-                        <h4 class="text-sm font-semibold text-gray-700 mb-2">New Features</h4>
-                        <ul class="space-y-1">
-                          <For each={releaseNotes()!.features}>
-                            {(item) => (
-                              <li class="flex items-start gap-2 text-sm text-gray-700">
-                                <span class="text-green-500 mt-0.5">+</span>
-                                <span>{item.summary}</span>
-                                <span class="text-xs text-gray-400 font-mono ml-auto">
-                                  {item.commit.slice(0, 7)}
-                                </span>
-                              </li>
-                            )}
-                          </For>
-                        </ul>
-                      </div>
-                    </Show>
-
-                    <Show when={releaseNotes()!.fixes.length > 0}>
-                      <div>
-                        <h4 class="text-sm font-semibold text-gray-700 mb-2">Bug Fixes</h4>
-                        <ul class="space-y-1">
-                          <For each={releaseNotes()!.fixes}>
-                            {(item) => (
-                              <li class="flex items-start gap-2 text-sm text-gray-700">
-                                <span class="text-blue-500 mt-0.5">*</span>
-                                <span>{item.summary}</span>
-                                <span class="text-xs text-gray-400 font-mono ml-auto">
-                                  {item.commit.slice(0, 7)}
-                                </span>
-                              </li>
-                            )}
-                          </For>
-                        </ul>
-                      </div>
-                    </Show>
-
-                    <Show when={releaseNotes()!.other.length > 0}>
-                      <div>
-                        <h4 class="text-sm font-semibold text-gray-700 mb-2">Other Changes</h4>
-                        <ul class="space-y-1">
-                          <For each={releaseNotes()!.other}>
-                            {(item) => (
-                              <li class="flex items-start gap-2 text-sm text-gray-700">
-                                <span class="text-gray-400 mt-0.5 text-xs font-medium uppercase">
-                                  {item.type}
-                                </span>
-                                <span>{item.summary}</span>
-                                <span class="text-xs text-gray-400 font-mono ml-auto">
-                                  {item.commit.slice(0, 7)}
-                                </span>
-                              </li>
-                            )}
-                          </For>
-                        </ul>
-                      </div>
-                    </Show>
-
-                    <Show when={releaseNotes()!.migrationNotes}>
-                      <div class="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                        <h4 class="text-sm font-semibold text-yellow-800 mb-1">Migration Notes</h4>
-                        <p class="text-sm text-yellow-700 whitespace-pre-wrap">
-                          {releaseNotes()!.migrationNotes}
-                        </p>
-                      </div>
-                    </Show>
-
-                    <Show when={releaseNotes()!.knownIssues}>
-                      <div class="bg-gray-50 border border-gray-200 rounded-lg p-4">
-                        <h4 class="text-sm font-semibold text-gray-700 mb-1">Known Issues</h4>
-                        <p class="text-sm text-gray-600 whitespace-pre-wrap">
-                          {releaseNotes()!.knownIssues}
-                        </p>
-                      </div>
-                    </Show>
-                  </div>
+                  {(notes) => <CumulativeReleaseNotes notes={notes()} />}
                 </Show>
               </div>
             </Show>
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { VersionsPage } from './VersionsPage';
+import { useInstances } from '../stores/instance.store';
+import { mockFetch } from '../tests/helpers/mockFetch';
+import type { AvailableVersion } from '../types/instance';
+
+const VERSIONS_PATH = '/api/v1/admin/versions';
+
+const v100: AvailableVersion = {
+  id: 'v-100',
+  version: '1.0.0',
+  image: 'docker.xcord.net/fed:1.0.0',
+  releaseNotes: null,
+  isMinimumVersion: true,
+  minimumEnforcementDate: '2026-03-01T00:00:00Z',
+  publishedAt: '2026-01-01T00:00:00Z',
+};
+const v110: AvailableVersion = {
+  id: 'v-110',
+  version: '1.1.0',
+  image: 'docker.xcord.net/fed:1.1.0',
+  releaseNotes: JSON.stringify({
+    version: '1.1.0',
+    features: [{ summary: 'Added widgets', commit: 'abcdef1234' }],
+    fixes: [],
+    other: [],
+    breakingChanges: [],
+    migrationNotes: '',
+    knownIssues: '',
+  }),
+  isMinimumVersion: false,
+  minimumEnforcementDate: null,
+  publishedAt: '2026-02-01T00:00:00Z',
+};
+
+function input(container: HTMLElement, selector: string) {
+  return container.querySelector(selector) as HTMLInputElement;
+}
+
+describe('VersionsPage', () => {
+  beforeEach(() => {
+    useInstances().reset();
+  });
+
+  it('lists published versions with the current minimum', async () => {
+    mockFetch({ [`GET ${VERSIONS_PATH}`]: () => ({ versions: [v110, v100] }) });
+    const { findByTestId, getByTestId } = render(() => <VersionsPage />);
+    expect(await findByTestId('version-row-1.1.0')).toHaveTextContent('docker.xcord.net/fed:1.1.0');
+    expect(getByTestId('version-row-1.0.0')).toHaveTextContent('min');
+    expect(getByTestId('version-row-1.0.0')).toHaveTextContent('enforced from');
+  });
+
+  it('expands a version to show its release notes', async () => {
+    mockFetch({ [`GET ${VERSIONS_PATH}`]: () => ({ versions: [v110, v100] }) });
+    const { findByTestId, getAllByText, getByText } = render(() => <VersionsPage />);
+    await findByTestId('version-row-1.1.0');
+    fireEvent.click(getAllByText('Release notes')[0]);
+    expect(getByText('Added widgets')).toBeInTheDocument();
+  });
+
+  it('publishes a version with structured release notes', async () => {
+    let versions = [v100];
+    const { calls } = mockFetch({
+      [`GET ${VERSIONS_PATH}`]: () => ({ versions }),
+      [`POST ${VERSIONS_PATH}`]: () => {
+        versions = [{ ...v110, id: 'v-120', version: '1.2.0', image: 'docker.xcord.net/fed:1.2.0' }, v100];
+        return { status: 201, body: { id: 'v-120', version: '1.2.0', image: 'docker.xcord.net/fed:1.2.0', releaseNotes: null, publishedAt: '2026-03-01T00:00:00Z' } };
+      },
+    });
+    const { container, findByTestId, getByText, getAllByText, findByText } = render(() => <VersionsPage />);
+    await findByTestId('version-row-1.0.0');
+
+    fireEvent.click(getByText('Publish Version'));
+    fireEvent.input(input(container, '#publish-version'), { target: { value: '1.2.0' } });
+    fireEvent.input(input(container, '#publish-image'), { target: { value: 'docker.xcord.net/fed:1.2.0' } });
+    fireEvent.click(getByText('Add feature'));
+    fireEvent.input(input(container, '[data-testid="features-row-0"] input[aria-label="Summary"]'), {
+      target: { value: 'Threaded replies' },
+    });
+    fireEvent.click(getAllByText('Publish Version').at(-1)!);
+
+    expect(await findByText('Version 1.2.0 published')).toBeInTheDocument();
+    const post = calls.find((c) => c.method === 'POST')!;
+    expect(post.body).toMatchObject({ version: '1.2.0', image: 'docker.xcord.net/fed:1.2.0' });
+    expect(JSON.parse((post.body as { releaseNotes: string }).releaseNotes)).toMatchObject({
+      version: '1.2.0',
+      features: [{ summary: 'Threaded replies', commit: '' }],
+    });
+    await findByTestId('version-row-1.2.0');
+  });
+
+  it('marks a version as minimum with an enforcement date', async () => {
+    const { calls } = mockFetch({
+      [`GET ${VERSIONS_PATH}`]: () => ({ versions: [v110, v100] }),
+      [`PUT ${VERSIONS_PATH}/v-110/minimum`]: () => ({ ...v110, isMinimumVersion: true }),
+    });
+    const { container, findByTestId, getByText, findByText } = render(() => <VersionsPage />);
+    await findByTestId('version-row-1.1.0');
+
+    fireEvent.click(getByText('Mark as minimum'));
+    fireEvent.input(input(container, '#enforcement-date'), { target: { value: '2099-06-01' } });
+    fireEvent.click(getByText('Set Minimum'));
+
+    expect(await findByText('Version 1.1.0 is now the minimum version')).toBeInTheDocument();
+    const put = calls.find((c) => c.method === 'PUT')!;
+    expect(put.body).toEqual({ enforcementDate: new Date('2099-06-01T00:00:00').toISOString() });
+  });
+
+  it('shows the backend error when the minimum cannot be set', async () => {
+    mockFetch({
+      [`GET ${VERSIONS_PATH}`]: () => ({ versions: [v110] }),
+      [`PUT ${VERSIONS_PATH}/v-110/minimum`]: () => ({
+        status: 400,
+        body: { title: 'INVALID_ENFORCEMENT_DATE', detail: 'Enforcement date must be in the future' },
+      }),
+    });
+    const { findByTestId, getByText, findByText } = render(() => <VersionsPage />);
+    await findByTestId('version-row-1.1.0');
+    fireEvent.click(getByText('Mark as minimum'));
+    fireEvent.click(getByText('Set Minimum'));
+    expect(await findByText('Enforcement date must be in the future')).toBeInTheDocument();
+    await waitFor(() => expect(getByText('Set Minimum')).not.toBeDisabled());
+  });
+});
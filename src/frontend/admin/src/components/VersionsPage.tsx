@@ -0,0 +1,212 @@
+import { For, Show, createSignal, onMount } from 'solid-js';
+import { useInstances } from '../stores/instance.store';
+import type { AvailableVersion } from '../types/instance';
+import { PublishVersionForm } from './PublishVersionForm';
+import { ReleaseNotesView, parseReleaseNotes } from './ReleaseNotesView';
+
+function tomorrow(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export function VersionsPage() {
+  const instanceStore = useInstances();
+  const [isLoading, setIsLoading] = createSignal(true);
+  const [error, setError] = createSignal<string | null>(null);
+  const [notice, setNotice] = createSignal<string | null>(null);
+  const [isPublishing, setIsPublishing] = createSignal(false);
+  const [expandedId, setExpandedId] = createSignal<string | null>(null);
+  const [minimumFor, setMinimumFor] = createSignal<string | null>(null);
+  const [enforcementDate, setEnforcementDate] = createSignal(tomorrow());
+  const [minimumError, setMinimumError] = createSignal<string | null>(null);
+  const [isSavingMinimum, setIsSavingMinimum] = createSignal(false);
+
+  onMount(async () => {
+    try {
+      await instanceStore.fetchVersions();
+    } catch (err) {
+      console.error('Failed to fetch versions:', err);
+      setError((err as { detail?: string })?.detail ?? 'Failed to load versions');
+    } finally {
+      setIsLoading(false);
+    }
+  });
+
+  const handlePublished = (version: string) => {
+    setIsPublishing(false);
+    setNotice(`Version ${version} published`);
+  };
+
+  const openMinimum = (version: AvailableVersion) => {
+    setMinimumFor(version.id);
+    setEnforcementDate(tomorrow());
+    setMinimumError(null);
+  };
+
+  const handleSetMinimum = async (version: AvailableVersion) => {
+    if (!enforcementDate()) {
+      setMinimumError('Choose an enforcement date');
+      return;
+    }
+    setIsSavingMinimum(true);
+    setMinimumError(null);
+    try {
+      // Enforcement starts at local midnight of the chosen day
+      const enforceAt = new Date(`${enforcementDate()}T00:00:00`).toISOString();
+      await instanceStore.setMinimumVersion(version.id, enforceAt);
+      setMinimumFor(null);
+      setNotice(`Version ${version.version} is now the minimum version`);
+    } catch (err) {
+      console.error('Failed to set minimum version:', err);
+      setMinimumError((err as { detail?: string })?.detail ?? 'Failed to set minimum version');
+    } finally {
+      setIsSavingMinimum(false);
+    }
+  };
+
+  return (
+    <div class="space-y-6">
+      <div class="bg-white rounded-lg shadow">
+        <div class="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 class="text-xl font-semibold">Versions</h2>
+          <Show when={!isPublishing()}>
+            <button
+              onClick={() => {
+                setNotice(null);
+                setIsPublishing(true);
+              }}
+              class="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Publish Version
+            </button>
+          </Show>
+        </div>
+
+        <Show when={isPublishing()}>
+          <div class="p-6 border-b border-gray-200">
+            <PublishVersionForm onPublished={handlePublished} onCancel={() => setIsPublishing(false)} />
+          </div>
+        </Show>
+
+        <Show when={notice()}>
+          <div class="mx-6 mt-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded text-sm">
+            {notice()}
+          </div>
+        </Show>
+
+        <Show when={!isLoading()} fallback={<div class="p-6 text-center">Loading...</div>}>
+          <Show when={!error()} fallback={<div class="p-6 text-center text-red-600">{error()}</div>}>
+            <Show
+              when={instanceStore.availableVersions.length > 0}
+              fallback={<div class="p-6 text-center text-gray-500">No versions published yet</div>}
+            >
+              <table class="w-full">
+                <thead class="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Image</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Published</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Minimum</th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody class="divide-y divide-gray-200">
+                  <For each={instanceStore.availableVersions}>
+                    {(version) => (
+                      <>
+                        <tr data-testid={`version-row-${version.version}`}>
+                          <td class="px-6 py-4 text-sm font-medium">{version.version}</td>
+                          <td class="px-6 py-4 text-sm font-mono">{version.image}</td>
+                          <td class="px-6 py-4 text-sm">{new Date(version.publishedAt).toLocaleDateString()}</td>
+                          <td class="px-6 py-4 text-sm">
+                            <Show when={version.isMinimumVersion} fallback={<span class="text-gray-400">—</span>}>
+                              <span class="px-2 py-1 text-xs rounded bg-red-100 text-red-700">min</span>
+                              <Show when={version.minimumEnforcementDate}>
+                                <span class="ml-2 text-gray-600">
+                                  enforced from {new Date(version.minimumEnforcementDate!).toLocaleDateString()}
+                                </span>
+                              </Show>
+                            </Show>
+                          </td>
+                          <td class="px-6 py-4 text-sm space-x-3">
+                            <button
+                              onClick={() => setExpandedId(expandedId() === version.id ? null : version.id)}
+                              class="text-blue-600 hover:underline"
+                            >
+                              {expandedId() === version.id ? 'Hide notes' : 'Release notes'}
+                            </button>
+                            <Show when={!version.isMinimumVersion}>
+                              <button onClick={() => openMinimum(version)} class="text-blue-600 hover:underline">
+                                Mark as minimum
+                              </button>
+                            </Show>
+                          </td>
+                        </tr>
+                        <Show when={minimumFor() === version.id}>
+                          <tr data-testid={`minimum-form-${version.version}`} class="bg-gray-50">
+                            <td colSpan={5} class="px-6 py-4">
+                              <div class="flex items-end gap-3">
+                                <div>
+                                  <label for="enforcement-date" class="block text-sm font-medium text-gray-700 mb-1">
+                                    Enforce from
+                                  </label>
+                                  <input
+                                    id="enforcement-date"
+                                    type="date"
+                                    min={tomorrow()}
+                                    value={enforcementDate()}
+                                    onInput={(e) => setEnforcementDate(e.currentTarget.value)}
+                                    class="px-3 py-2 border border-gray-300 rounded text-sm"
+                                  />
+                                </div>
+                                <button
+                                  onClick={() => handleSetMinimum(version)}
+                                  disabled={isSavingMinimum()}
+                                  class="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 text-sm"
+                                >
+                                  {isSavingMinimum() ? 'Saving...' : 'Set Minimum'}
+                                </button>
+                                <button
+                                  onClick={() => setMinimumFor(null)}
+                                  class="px-4 py-2 border rounded hover:bg-gray-50 text-sm"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                              <p class="text-xs text-gray-500 mt-2">
+                                From this date, running instances that have batch upgrades disabled are force-upgraded to{' '}
+                                {version.version}. Any previous minimum version is cleared.
+                              </p>
+                              <Show when={minimumError()}>
+                                <p class="text-sm text-red-600 mt-2">{minimumError()}</p>
+                              </Show>
+                            </td>
+                          </tr>
+                        </Show>
+                        <Show when={expandedId() === version.id}>
+                          <tr data-testid={`version-notes-${version.version}`}>
+                            <td colSpan={5} class="px-6 py-4">
+                              <Show
+                                when={parseReleaseNotes(version.releaseNotes)}
+                                fallback={
+                                  <p class="text-sm text-gray-500">No release notes available for this version.</p>
+                                }
+                              >
+                                {(notes) => <ReleaseNotesView notes={notes()} />}
+                              </Show>
+                            </td>
+                          </tr>
+                        </Show>
+                      </>
+                    )}
+                  </For>
+                </tbody>
+              </table>
+            </Show>
+          </Show>
+        </Show>
+      </div>
+    </div>
+  );
+}
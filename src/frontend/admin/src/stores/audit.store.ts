@@ -0,0 +1,38 @@
+import { createSignal, createRoot } from 'solid-js';
+import { api } from '../api/client';
+import type { AuditLog, AuditLogFilters } from '../types/audit';
+
+const store = createRoot(() => {
+  const [log, setLog] = createSignal<AuditLog | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  return { log, setLog, isLoading, setIsLoading, error, setError };
+});
+
+export function useAudit() {
+  return {
+    get log() { return store.log(); },
+    get isLoading() { return store.isLoading(); },
+    get error() { return store.error(); },
+
+    async fetch(filters: AuditLogFilters, page = 1, pageSize = 50): Promise<void> {
+      store.setIsLoading(true);
+      try {
+        const response = await api.get('/api/v1/admin/audit', { query: { ...filters, page, pageSize } });
+        store.setLog(response);
+        store.setError(null);
+      } catch (error) {
+        store.setError((error as { detail?: string })?.detail ?? 'Failed to load the audit log');
+      } finally {
+        store.setIsLoading(false);
+      }
+    },
+
+    reset(): void {
+      store.setLog(null);
+      store.setIsLoading(false);
+      store.setError(null);
+    },
+  };
+}
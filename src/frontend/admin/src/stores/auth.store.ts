@@ -1,6 +1,6 @@
 import { createSignal, createRoot } from 'solid-js';
 import { api } from '../api/client';
-import type { LoginRequest, AuthTokens } from '../types/auth';
+import type { AuthTokens, LoginProblem, LoginRequest, LoginWith2FARequest } from '../types/auth';
 
 const store = createRoot(() => {
   const [userId, setUserId] = createSignal<string | null>(null);
@@ -8,8 +8,12 @@ const store = createRoot(() => {
   const [isAuthenticated, setIsAuthenticated] = createSignal(false);
   const [isAdmin, setIsAdmin] = createSignal(false);
   const [isLoading, setIsLoading] = createSignal(true);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = createSignal(false);
 
-  return { userId, setUserId, username, setUsername, isAuthenticated, setIsAuthenticated, isAdmin, setIsAdmin, isLoading, setIsLoading };
+  return {
+    userId, setUserId, username, setUsername, isAuthenticated, setIsAuthenticated,
+    isAdmin, setIsAdmin, isLoading, setIsLoading, twoFactorSetupRequired, setTwoFactorSetupRequired,
+  };
 });
 
 function parseJwt(token: string): Record<string, unknown> | null {
@@ -28,6 +32,31 @@ function parseJwt(token: string): Record<string, unknown> | null {
   }
 }
 
+function hasAdminClaim(token: string): boolean {
+  const payload = parseJwt(token);
+  return payload?.admin === 'true' || payload?.admin === true;
+}
+
+// The hub can require every admin to have 2FA before the panel loads.
+async function loadSession(): Promise<void> {
+  const session = await api.get('/api/v1/admin/session');
+  store.setTwoFactorSetupRequired(session.twoFactorRequired && !session.twoFactorEnabled);
+}
+
+async function completeLogin(response: AuthTokens): Promise<void> {
+  if (!hasAdminClaim(response.accessToken)) {
+    throw new Error('Access denied: Admin privileges required');
+  }
+
+  api.setToken(response.accessToken);
+  localStorage.setItem('accessToken', response.accessToken);
+  await loadSession();
+  store.setUserId(response.userId);
+  store.setUsername(response.username);
+  store.setIsAdmin(true);
+  store.setIsAuthenticated(true);
+}
+
 export function useAuth() {
   return {
     get userId() { return store.userId(); },
@@ -35,23 +64,26 @@ export function useAuth() {
     get isAuthenticated() { return store.isAuthenticated(); },
     get isAdmin() { return store.isAdmin(); },
     get isLoading() { return store.isLoading(); },
+    get twoFactorSetupRequired() { return store.twoFactorSetupRequired(); },
 
-    async login(request: LoginRequest): Promise<void> {
-      const response = await api.post<AuthTokens>('/api/v1/auth/login', request);
-
-      const payload = parseJwt(response.accessToken);
-      const adminClaim = payload?.admin === 'true' || payload?.admin === true;
-
-      if (!adminClaim) {
-        throw new Error('Access denied: Admin privileges required');
+    // Resolves '2fa_required' when the account needs a TOTP code; the caller
+    // then finishes with loginWith2FA using the same credentials.
+    async login(request: LoginRequest): Promise<'success' | '2fa_required'> {
+      let response: AuthTokens;
+      try {
+        response = await api.post('/api/v1/auth/login', { body: request });
+      } catch (err) {
+        if ((err as LoginProblem)?.title === '2FA_REQUIRED') return '2fa_required';
+        throw err;
       }
 
-      api.setToken(response.accessToken);
-      localStorage.setItem('accessToken', response.accessToken);
-      store.setUserId(response.userId);
-      store.setUsername(response.username);
-      store.setIsAdmin(true);
-      store.setIsAuthenticated(true);
+      await completeLogin(response);
+      return 'success';
+    },
+
+    async loginWith2FA(request: LoginWith2FARequest): Promise<void> {
+      const response = await api.post('/api/v1/auth/2fa/login', { body: request });
+      await completeLogin(response);
     },
 
     async logout(): Promise<void> {
@@ -64,6 +96,7 @@ export function useAuth() {
         store.setUsername(null);
         store.setIsAdmin(false);
         store.setIsAuthenticated(false);
+        store.setTwoFactorSetupRequired(false);
       }
     },
 
@@ -77,10 +110,7 @@ export function useAuth() {
           return false;
         }
 
-        const payload = parseJwt(token);
-        const adminClaim = payload?.admin === 'true' || payload?.admin === true;
-
-        if (!adminClaim) {
+        if (!hasAdminClaim(token)) {
           api.setToken(null);
           localStorage.removeItem('accessToken');
           store.setIsAuthenticated(false);
@@ -90,18 +120,20 @@ export function useAuth() {
 
         api.setToken(token);
 
-        const response = await api.post<AuthTokens>('/api/v1/auth/refresh');
-        const refreshPayload = parseJwt(response.accessToken);
-        const refreshAdminClaim = refreshPayload?.admin === 'true' || refreshPayload?.admin === true;
+        const response = await api.post('/api/v1/auth/refresh');
 
-        if (!refreshAdminClaim) {
+        if (!hasAdminClaim(response.accessToken)) {
           throw new Error('Admin privileges revoked');
         }
 
         api.setToken(response.accessToken);
         localStorage.setItem('accessToken', response.accessToken);
-        store.setUserId(response.userId);
-        store.setUsername(response.username);
+
+        // The refresh response only carries the new token
+        const me = await api.get('/api/v1/auth/me');
+        await loadSession();
+        store.setUserId(me.userId);
+        store.setUsername(me.username);
         store.setIsAdmin(true);
         store.setIsAuthenticated(true);
         return true;
@@ -112,6 +144,7 @@ export function useAuth() {
         store.setUsername(null);
         store.setIsAdmin(false);
         store.setIsAuthenticated(false);
+        store.setTwoFactorSetupRequired(false);
         return false;
       } finally {
         store.setIsLoading(false);
@@ -124,6 +157,7 @@ export function useAuth() {
       store.setIsAuthenticated(false);
       store.setIsAdmin(false);
       store.setIsLoading(true);
+      store.setTwoFactorSetupRequired(false);
     },
   };
 }
@@ -0,0 +1,38 @@
+import { createSignal, createRoot } from 'solid-js';
+import { api } from '../api/client';
+import type { BackupStorage } from '../types/backup-storage';
+
+const store = createRoot(() => {
+  const [storage, setStorage] = createSignal<BackupStorage | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  return { storage, setStorage, isLoading, setIsLoading, error, setError };
+});
+
+export function useBackupStorage() {
+  return {
+    get storage() { return store.storage(); },
+    get isLoading() { return store.isLoading(); },
+    get error() { return store.error(); },
+
+    async fetch(days: number): Promise<void> {
+      store.setIsLoading(true);
+      try {
+        const response = await api.get('/api/v1/admin/backups/storage', { query: { days } });
+        store.setStorage(response);
+        store.setError(null);
+      } catch (error) {
+        store.setError((error as { detail?: string })?.detail ?? 'Failed to load backup storage');
+      } finally {
+        store.setIsLoading(false);
+      }
+    },
+
+    reset(): void {
+      store.setStorage(null);
+      store.setIsLoading(false);
+      store.setError(null);
+    },
+  };
+}
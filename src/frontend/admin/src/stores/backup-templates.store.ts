@@ -0,0 +1,71 @@
+import { createSignal, createRoot } from 'solid-js';
+import { api } from '../api/client';
+import type {
+  ApplyBackupTemplateResponse,
+  BackupTemplate,
+  BackupTemplateDiff,
+  BackupTemplateRequest,
+} from '../types/backup-template';
+
+const store = createRoot(() => {
+  const [templates, setTemplates] = createSignal<BackupTemplate[]>([]);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  return { templates, setTemplates, isLoading, setIsLoading, error, setError };
+});
+
+export function useBackupTemplates() {
+  return {
+    get templates() { return store.templates(); },
+    get isLoading() { return store.isLoading(); },
+    get error() { return store.error(); },
+
+    async fetch(): Promise<void> {
+      store.setIsLoading(true);
+      try {
+        const response = await api.get('/api/v1/admin/backup-templates');
+        store.setTemplates(response.templates);
+        store.setError(null);
+      } catch (error) {
+        store.setError((error as { detail?: string })?.detail ?? 'Failed to load backup templates');
+      } finally {
+        store.setIsLoading(false);
+      }
+    },
+
+    async create(request: BackupTemplateRequest): Promise<void> {
+      await api.post('/api/v1/admin/backup-templates', { body: request });
+      await this.fetch();
+    },
+
+    async update(templateId: string, request: BackupTemplateRequest): Promise<void> {
+      await api.put('/api/v1/admin/backup-templates/{templateId}', { params: { templateId }, body: request });
+      await this.fetch();
+    },
+
+    async remove(templateId: string, reason?: string): Promise<void> {
+      await api.delete('/api/v1/admin/backup-templates/{templateId}', { params: { templateId }, reason });
+      await this.fetch();
+    },
+
+    async fetchDiff(templateId: string): Promise<BackupTemplateDiff> {
+      return await api.get('/api/v1/admin/backup-templates/{templateId}/diff', { params: { templateId } });
+    },
+
+    async apply(templateId: string, reason?: string): Promise<ApplyBackupTemplateResponse> {
+      const response = await api.post('/api/v1/admin/backup-templates/{templateId}/apply', {
+        params: { templateId },
+        reason,
+      });
+      await this.fetch();
+      return response;
+    },
+
+    reset(): void {
+      store.setTemplates([]);
+      store.setIsLoading(false);
+      store.setError(null);
+    },
+  };
+}
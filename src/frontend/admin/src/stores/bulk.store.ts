@@ -0,0 +1,96 @@
+import { createSignal, createRoot } from 'solid-js';
+import { api } from '../api/client';
+import type { BulkAction, BulkResult, BulkTarget } from '../types/bulk';
+import { forEachWithLimit } from '../utils/concurrency';
+
+// Most bulk actions end in a Docker service update, so only this many run at
+// once no matter how many instances are selected.
+export const BULK_CONCURRENCY = 2;
+
+const store = createRoot(() => {
+  const [action, setAction] = createSignal<BulkAction | null>(null);
+  const [results, setResults] = createSignal<BulkResult[]>([]);
+  const [isRunning, setIsRunning] = createSignal(false);
+
+  return { action, setAction, results, setResults, isRunning, setIsRunning };
+});
+
+async function perform(id: string, action: BulkAction): Promise<void> {
+  switch (action.type) {
+    case 'suspend':
+      await api.post('/api/v1/admin/instances/{id}/suspend', { params: { id } });
+      break;
+    case 'resume':
+      await api.post('/api/v1/admin/instances/{id}/resume', { params: { id } });
+      break;
+    case 'backup':
+      await api.post('/api/v1/admin/instances/{id}/backups/trigger', { params: { id }, body: { kind: action.kind } });
+      break;
+    case 'feature-flags':
+      await api.patch('/api/v1/admin/instances/{id}/feature-flags', { params: { id }, body: { flags: action.flags } });
+      break;
+    case 'resource-limits':
+      await api.patch('/api/v1/admin/instances/{id}/resource-limits', { params: { id }, body: { limits: action.limits } });
+      break;
+    case 'upgrade':
+      await api.post('/api/v1/admin/instances/{id}/upgrade', {
+        params: { id },
+        body: { targetImage: action.targetImage },
+      });
+      break;
+  }
+}
+
+function updateResult(id: string, changes: Partial<BulkResult>): void {
+  store.setResults((results) => results.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+}
+
+async function execute(action: BulkAction, targets: BulkTarget[]): Promise<void> {
+  store.setIsRunning(true);
+  try {
+    await forEachWithLimit(targets, BULK_CONCURRENCY, async (target) => {
+      updateResult(target.id, { status: 'running', error: null });
+      try {
+        await perform(target.id, action);
+        updateResult(target.id, { status: 'succeeded' });
+      } catch (error) {
+        updateResult(target.id, {
+          status: 'failed',
+          error: (error as { detail?: string })?.detail ?? 'Request failed',
+        });
+      }
+    });
+  } finally {
+    store.setIsRunning(false);
+  }
+}
+
+export function useBulkActions() {
+  return {
+    get action() { return store.action(); },
+    get results() { return store.results(); },
+    get isRunning() { return store.isRunning(); },
+
+    async run(action: BulkAction, targets: BulkTarget[]): Promise<void> {
+      if (store.isRunning()) return;
+      store.setAction(action);
+      store.setResults(targets.map((t) => ({ ...t, status: 'queued', error: null })));
+      await execute(action, targets);
+    },
+
+    // Re-runs the last action against the instances it failed on.
+    async retryFailed(): Promise<void> {
+      const action = store.action();
+      if (!action || store.isRunning()) return;
+      const failed = store.results().filter((r) => r.status === 'failed');
+      for (const r of failed) updateResult(r.id, { status: 'queued', error: null });
+      await execute(action, failed.map(({ id, subdomain }) => ({ id, subdomain })));
+    },
+
+    reset(): void {
+      store.setAction(null);
+      store.setResults([]);
+      store.setIsRunning(false);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { createSignal, createRoot } from 'solid-js';
+import { api } from '../api/client';
+import type { FleetHealth } from '../types/health';
+
+const store = createRoot(() => {
+  const [health, setHealth] = createSignal<FleetHealth | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  return { health, setHealth, isLoading, setIsLoading, error, setError };
+});
+
+export function useFleetHealth() {
+  return {
+    get health() { return store.health(); },
+    get isLoading() { return store.isLoading(); },
+    get error() { return store.error(); },
+
+    // Background refreshes keep the last snapshot on screen; only the first
+    // load shows the loading state.
+    async fetch(): Promise<void> {
+      if (!store.health()) store.setIsLoading(true);
+      try {
+        const response = await api.get('/api/v1/admin/health');
+        store.setHealth(response);
+        store.setError(null);
+      } catch (error) {
+        store.setError((error as { detail?: string })?.detail ?? 'Failed to load fleet health');
+      } finally {
+        store.setIsLoading(false);
+      }
+    },
+
+    reset(): void {
+      store.setHealth(null);
+      store.setIsLoading(false);
+      store.setError(null);
+    },
+  };
+}
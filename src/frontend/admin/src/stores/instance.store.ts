@@ -1,48 +1,51 @@
 import { createSignal, createRoot } from 'solid-js';
 import { api } from '../api/client';
+import type { ServerSentEvent } from '../api/client';
 import type {
   InstanceListItem,
   InstanceDetail,
-  InstanceListResponse,
   ProvisionInstanceRequest,
-  ResourceLimits,
-  FeatureFlags,
+  ProvisionInstanceResponse,
+  InstanceConfig,
   LogEntry,
-  InstanceStatus,
+  InstanceFilters,
   AvailableVersion,
+  PublishVersionRequest,
+  PublishVersionResponse,
   UpgradeRollout,
+  RolloutDetail,
   StartRolloutRequest,
+  StartRolloutResponse,
+  RolloutPreviewRequest,
+  RolloutPreview,
+  BackupPolicy,
+  UpdateBackupPolicyRequest,
+  InstanceBackupStorage,
+  BackupRecord,
+  BackupRecordList,
+  BackupDownload,
+  RestoreOperation,
+  ProvisioningTimeline,
+  InstanceUptime,
+  InstanceRollback,
+  RollbackInstanceResponse,
+  RollbackRolloutResponse,
+  MinimumVersionCompliance,
 } from '../types/instance';
 
-export interface BackupPolicy {
-  enabled: boolean;
-  frequency: 'Hourly' | 'Daily' | 'Weekly';
-  retentionDays: number;
-  backupDatabase: boolean;
-  backupFiles: boolean;
-  backupRedis: boolean;
-}
-
-export interface BackupRecord {
-  id: string;
-  managedInstanceId: string;
-  status: 'InProgress' | 'Completed' | 'Failed';
-  kind: 'Database' | 'Files' | 'Redis' | 'Full';
-  sizeBytes: number;
-  storagePath: string;
-  errorMessage?: string;
-  startedAt: string;
-  completedAt?: string;
+// Midnight local time `addDays` after the YYYY-MM-DD `date`
+function startOfDay(date: string, addDays = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays);
 }
 
 const store = createRoot(() => {
   const [instances, setInstances] = createSignal<InstanceListItem[]>([]);
   const [selectedInstance, setSelectedInstance] = createSignal<InstanceDetail | null>(null);
-  const [logs, setLogs] = createSignal<LogEntry[]>([]);
   const [total, setTotal] = createSignal(0);
   const [page, setPage] = createSignal(1);
   const [pageSize] = createSignal(20);
-  const [statusFilter, setStatusFilter] = createSignal<InstanceStatus | null>(null);
+  const [filters, setFilters] = createSignal<InstanceFilters>({});
   const [isLoading, setIsLoading] = createSignal(false);
   const [availableVersions, setAvailableVersions] = createSignal<AvailableVersion[]>([]);
   const [activeRollouts, setActiveRollouts] = createSignal<UpgradeRollout[]>([]);
@@ -52,15 +55,13 @@ const store = createRoot(() => {
     setInstances,
     selectedInstance,
     setSelectedInstance,
-    logs,
-    setLogs,
     total,
     setTotal,
     page,
     setPage,
     pageSize,
-    statusFilter,
-    setStatusFilter,
+    filters,
+    setFilters,
     isLoading,
     setIsLoading,
     availableVersions,
@@ -74,11 +75,10 @@ export function useInstances() {
   return {
     get instances() { return store.instances(); },
     get selectedInstance() { return store.selectedInstance(); },
-    get logs() { return store.logs(); },
     get total() { return store.total(); },
     get page() { return store.page(); },
     get pageSize() { return store.pageSize(); },
-    get statusFilter() { return store.statusFilter(); },
+    get filters() { return store.filters(); },
     get isLoading() { return store.isLoading(); },
     get availableVersions() { return store.availableVersions(); },
     get activeRollouts() { return store.activeRollouts(); },
@@ -87,20 +87,25 @@ export function useInstances() {
       store.setPage(p);
     },
 
-    setStatusFilter(status: InstanceStatus | null) {
-      store.setStatusFilter(status);
+    setFilters(filters: InstanceFilters) {
+      store.setFilters(filters);
       store.setPage(1);
     },
 
     async fetchInstances(): Promise<void> {
       store.setIsLoading(true);
       try {
-        let url = `/api/v1/admin/instances?page=${store.page()}&pageSize=${store.pageSize()}`;
-        if (store.statusFilter()) {
-          url += `&status=${store.statusFilter()}`;
-        }
-
-        const response = await api.get<InstanceListResponse>(url);
+        const { createdFrom, createdTo, ...filters } = store.filters();
+        const response = await api.get('/api/v1/admin/instances', {
+          query: {
+            page: store.page(),
+            pageSize: store.pageSize(),
+            ...filters,
+            createdFrom: createdFrom ? startOfDay(createdFrom).toISOString() : undefined,
+            // The backend bound is exclusive, so stop at the start of the next day
+            createdTo: createdTo ? startOfDay(createdTo, 1).toISOString() : undefined,
+          },
+        });
         store.setInstances(response.instances);
         store.setTotal(response.total);
       } finally {
@@ -111,127 +116,199 @@ export function useInstances() {
     async fetchInstanceDetail(id: string): Promise<void> {
       store.setIsLoading(true);
       try {
-        const instance = await api.get<InstanceDetail>(`/api/v1/admin/instances/${id}`);
-        store.setSelectedInstance(instance);
+        // health/infrastructure are untyped JSON in the spec
+        const instance = await api.get('/api/v1/admin/instances/{id}', { params: { id } });
+        store.setSelectedInstance(instance as InstanceDetail);
       } finally {
         store.setIsLoading(false);
       }
     },
 
-    async fetchInstanceLogs(id: string, limit = 100): Promise<void> {
-      try {
-        const logs = await api.get<LogEntry[]>(`/api/v1/admin/instances/${id}/logs?limit=${limit}`);
-        store.setLogs(logs);
-      } catch (error) {
-        console.error('Failed to fetch logs:', error);
-        store.setLogs([]);
-      }
+    async fetchInstanceLogs(id: string, query: { tail?: number; since?: string; until?: string } = {}): Promise<LogEntry[]> {
+      const response = await api.get('/api/v1/admin/instances/{id}/logs', { params: { id }, query });
+      return response.logs;
+    },
+
+    // Yields the last `tail` lines, then each new line until `signal` aborts.
+    streamInstanceLogs(id: string, tail: number, signal: AbortSignal): Promise<AsyncGenerator<ServerSentEvent>> {
+      return api.events('/api/v1/admin/instances/{id}/logs/stream', { params: { id }, query: { tail } }, signal);
+    },
+
+    async fetchProvisioningTimeline(id: string): Promise<ProvisioningTimeline> {
+      return await api.get('/api/v1/admin/instances/{id}/provisioning', { params: { id } });
+    },
+
+    // Re-queues a failed instance; the pipeline resumes from the failed step
+    async retryProvisioning(id: string): Promise<void> {
+      await api.post('/api/v1/admin/instances/{id}/provisioning/retry', { params: { id } });
     },
 
-    async provisionInstance(request: ProvisionInstanceRequest): Promise<InstanceDetail> {
-      const instance = await api.post<InstanceDetail>('/api/v1/admin/instances', request);
-      return instance;
+    async fetchInstanceUptime(id: string): Promise<InstanceUptime> {
+      return await api.get('/api/v1/admin/instances/{id}/uptime', { params: { id } });
     },
 
-    async suspendInstance(id: string): Promise<void> {
-      await api.post(`/api/v1/admin/instances/${id}/suspend`);
+    async provisionInstance(request: ProvisionInstanceRequest): Promise<ProvisionInstanceResponse> {
+      return await api.post('/api/v1/admin/instances', { body: request });
+    },
+
+    // `reason` is the optional justification recorded with the action in the audit log
+    async suspendInstance(id: string, reason?: string): Promise<void> {
+      await api.post('/api/v1/admin/instances/{id}/suspend', { params: { id }, reason });
       await this.fetchInstanceDetail(id);
     },
 
-    async resumeInstance(id: string): Promise<void> {
-      await api.post(`/api/v1/admin/instances/${id}/resume`);
+    async resumeInstance(id: string, reason?: string): Promise<void> {
+      await api.post('/api/v1/admin/instances/{id}/resume', { params: { id }, reason });
       await this.fetchInstanceDetail(id);
     },
 
-    async destroyInstance(id: string): Promise<void> {
-      await api.delete(`/api/v1/admin/instances/${id}`);
+    async destroyInstance(id: string, reason?: string): Promise<void> {
+      await api.delete('/api/v1/admin/instances/{id}', { params: { id }, reason });
       await this.fetchInstances();
       store.setSelectedInstance(null);
     },
 
-    async updateResourceLimits(id: string, limits: ResourceLimits): Promise<void> {
-      await api.patch(`/api/v1/admin/instances/${id}/resource-limits`, limits);
-      await this.fetchInstanceDetail(id);
+    async fetchInstanceConfig(id: string): Promise<InstanceConfig> {
+      return await api.get('/api/v1/admin/instances/{id}/config', { params: { id } });
     },
 
-    async updateFeatureFlags(id: string, flags: FeatureFlags): Promise<void> {
-      await api.patch(`/api/v1/admin/instances/${id}/feature-flags`, flags);
-      await this.fetchInstanceDetail(id);
+    async updateResourceLimits(id: string, limits: Record<string, number>): Promise<InstanceConfig> {
+      await api.patch('/api/v1/admin/instances/{id}/resource-limits', { params: { id }, body: { limits } });
+      return await this.fetchInstanceConfig(id);
+    },
+
+    async updateFeatureFlags(id: string, flags: Record<string, boolean>): Promise<InstanceConfig> {
+      await api.patch('/api/v1/admin/instances/{id}/feature-flags', { params: { id }, body: { flags } });
+      return await this.fetchInstanceConfig(id);
     },
 
     async fetchBackupPolicy(id: string): Promise<BackupPolicy> {
-      return await api.get<BackupPolicy>(`/api/v1/admin/instances/${id}/backup-policy`);
+      return await api.get('/api/v1/admin/instances/{id}/backup-policy', { params: { id } });
+    },
+
+    async updateBackupPolicy(id: string, policy: UpdateBackupPolicyRequest): Promise<BackupPolicy> {
+      return await api.put('/api/v1/admin/instances/{id}/backup-policy', { params: { id }, body: policy });
+    },
+
+    async resetBackupPolicy(id: string): Promise<BackupPolicy> {
+      return await api.post('/api/v1/admin/instances/{id}/backup-policy/reset', { params: { id } });
     },
 
-    async updateBackupPolicy(id: string, policy: BackupPolicy): Promise<void> {
-      await api.put(`/api/v1/admin/instances/${id}/backup-policy`, policy);
+    async fetchBackupStorage(id: string): Promise<InstanceBackupStorage> {
+      return await api.get('/api/v1/admin/instances/{id}/backups/storage', { params: { id } });
     },
 
-    async fetchBackupRecords(id: string, page = 1, pageSize = 20): Promise<BackupRecord[]> {
-      return await api.get<BackupRecord[]>(
-        `/api/v1/admin/instances/${id}/backups?page=${page}&pageSize=${pageSize}`
-      );
+    async fetchBackupRecords(id: string, page = 1, pageSize = 20): Promise<BackupRecordList> {
+      return await api.get('/api/v1/admin/instances/{id}/backups', {
+        params: { id },
+        query: { page, pageSize },
+      });
     },
 
     async triggerBackup(id: string, kind: string): Promise<BackupRecord> {
-      return await api.post<BackupRecord>(`/api/v1/admin/instances/${id}/backups/trigger`, { kind });
+      return await api.post('/api/v1/admin/instances/{id}/backups/trigger', { params: { id }, body: { kind } });
     },
 
-    async triggerRestore(id: string, backupId: string): Promise<void> {
-      await api.post(`/api/v1/admin/instances/${id}/backups/${backupId}/restore`);
+    // Newest first; a restore that is not Completed or Failed is still running
+    async fetchRestores(id: string): Promise<RestoreOperation[]> {
+      const response = await api.get('/api/v1/admin/instances/{id}/restores', { params: { id } });
+      return response.restores;
     },
 
-    async deleteBackup(id: string, backupId: string): Promise<void> {
-      await api.delete(`/api/v1/admin/instances/${id}/backups/${backupId}`);
+    async deleteBackup(id: string, backupId: string, reason?: string): Promise<void> {
+      await api.delete('/api/v1/admin/instances/{id}/backups/{backupId}', { params: { id, backupId }, reason });
+    },
+
+    async verifyBackup(id: string, backupId: string): Promise<BackupRecord> {
+      return await api.post('/api/v1/admin/instances/{id}/backups/{backupId}/verify', { params: { id, backupId } });
+    },
+
+    async fetchBackupDownload(id: string, backupId: string): Promise<BackupDownload> {
+      return await api.post('/api/v1/admin/instances/{id}/backups/{backupId}/download', { params: { id, backupId } });
     },
 
     async fetchVersions(): Promise<void> {
-      const response = await api.get<{ versions: AvailableVersion[] }>('/api/v1/admin/versions');
+      const response = await api.get('/api/v1/admin/versions');
       store.setAvailableVersions(response.versions);
     },
 
+    async publishVersion(request: PublishVersionRequest): Promise<PublishVersionResponse> {
+      const published = await api.post('/api/v1/admin/versions', { body: request });
+      await this.fetchVersions();
+      return published;
+    },
+
+    async setMinimumVersion(versionId: string, enforcementDate: string): Promise<void> {
+      await api.put('/api/v1/admin/versions/{id}/minimum', { params: { id: versionId }, body: { enforcementDate } });
+      await this.fetchVersions();
+    },
+
+    async fetchMinimumVersionCompliance(): Promise<MinimumVersionCompliance> {
+      return await api.get('/api/v1/admin/versions/compliance');
+    },
+
     async upgradeInstance(instanceId: string, targetImage: string): Promise<void> {
-      await api.post(`/api/v1/hub/instances/${instanceId}/upgrade`, { targetImage });
+      await api.post('/api/v1/hub/instances/{instanceId}/upgrade', { params: { instanceId }, body: { targetImage } });
     },
 
-    async startRollout(request: StartRolloutRequest): Promise<UpgradeRollout> {
-      return await api.post<UpgradeRollout>('/api/v1/admin/upgrades', request);
+    async fetchInstanceRollback(instanceId: string): Promise<InstanceRollback> {
+      return await api.get('/api/v1/admin/instances/{id}/rollback', { params: { id: instanceId } });
+    },
+
+    // Redeploys the image the latest upgrade replaced
+    async rollbackInstance(instanceId: string, restoreBackup: boolean, reason?: string): Promise<RollbackInstanceResponse> {
+      return await api.post('/api/v1/admin/instances/{id}/rollback', { params: { id: instanceId }, body: { restoreBackup }, reason });
+    },
+
+    // Resolves which instances a rollout would touch without starting it
+    async previewRollout(request: RolloutPreviewRequest): Promise<RolloutPreview> {
+      return await api.post('/api/v1/admin/upgrades/preview', { body: request });
+    },
+
+    async startRollout(request: StartRolloutRequest): Promise<StartRolloutResponse> {
+      return await api.post('/api/v1/admin/upgrades', { body: request });
+    },
+
+    async fetchRollout(rolloutId: string): Promise<RolloutDetail> {
+      return await api.get('/api/v1/admin/upgrades/{id}', { params: { id: rolloutId } });
     },
 
     async pauseRollout(rolloutId: string): Promise<void> {
-      await api.post(`/api/v1/admin/upgrades/${rolloutId}/pause`);
+      await api.post('/api/v1/admin/upgrades/{id}/pause', { params: { id: rolloutId } });
     },
 
     async resumeRollout(rolloutId: string): Promise<void> {
-      await api.post(`/api/v1/admin/upgrades/${rolloutId}/resume`);
+      await api.post('/api/v1/admin/upgrades/{id}/resume', { params: { id: rolloutId } });
     },
 
     async cancelRollout(rolloutId: string): Promise<void> {
-      await api.post(`/api/v1/admin/upgrades/${rolloutId}/cancel`);
+      await api.post('/api/v1/admin/upgrades/{id}/cancel', { params: { id: rolloutId } });
+    },
+
+    async rollbackRollout(rolloutId: string, restoreBackup: boolean, reason?: string): Promise<RollbackRolloutResponse> {
+      return await api.post('/api/v1/admin/upgrades/{id}/rollback', { params: { id: rolloutId }, body: { restoreBackup }, reason });
     },
 
     async fetchActiveRollouts(): Promise<void> {
-      const response = await api.get<{ rollouts: UpgradeRollout[] }>('/api/v1/admin/upgrades');
-      store.setActiveRollouts(response.rollouts.filter((r: UpgradeRollout) =>
+      const response = await api.get('/api/v1/admin/upgrades');
+      store.setActiveRollouts(response.rollouts.filter((r) =>
         r.status === 'InProgress' || r.status === 'Paused' || r.status === 'Pending'));
     },
 
     async updateBatchUpgrades(instanceId: string, enabled: boolean): Promise<void> {
-      await api.patch(`/api/v1/hub/instances/${instanceId}/batch-upgrades`, { enabled });
+      await api.patch('/api/v1/hub/instances/{instanceId}/batch-upgrades', { params: { instanceId }, body: { enabled } });
     },
 
     clearSelectedInstance() {
       store.setSelectedInstance(null);
-      store.setLogs([]);
     },
 
     reset(): void {
       store.setInstances([]);
       store.setSelectedInstance(null);
-      store.setLogs([]);
       store.setTotal(0);
       store.setPage(1);
-      store.setStatusFilter(null);
+      store.setFilters({});
       store.setIsLoading(false);
       store.setAvailableVersions([]);
       store.setActiveRollouts([]);
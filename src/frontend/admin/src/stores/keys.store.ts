@@ -0,0 +1,46 @@
+import { createSignal, createRoot } from 'solid-js';
+import { api } from '../api/client';
+import type { KeyStatus, RotateDataKeyResponse } from '../types/keys';
+
+const store = createRoot(() => {
+  const [status, setStatus] = createSignal<KeyStatus | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  return { status, setStatus, isLoading, setIsLoading, error, setError };
+});
+
+export function useKeys() {
+  return {
+    get status() { return store.status(); },
+    get isLoading() { return store.isLoading(); },
+    get error() { return store.error(); },
+
+    // Progress polling keeps the last status on screen; only the first load
+    // shows the loading state.
+    async fetch(): Promise<void> {
+      if (!store.status()) store.setIsLoading(true);
+      try {
+        const response = await api.get('/api/v1/admin/keys');
+        store.setStatus(response);
+        store.setError(null);
+      } catch (error) {
+        store.setError((error as { detail?: string })?.detail ?? 'Failed to load encryption keys');
+      } finally {
+        store.setIsLoading(false);
+      }
+    },
+
+    async rotate(reason?: string): Promise<RotateDataKeyResponse> {
+      const response = await api.post('/api/v1/admin/keys/rotate', { reason });
+      await this.fetch();
+      return response;
+    },
+
+    reset(): void {
+      store.setStatus(null);
+      store.setIsLoading(false);
+      store.setError(null);
+    },
+  };
+}
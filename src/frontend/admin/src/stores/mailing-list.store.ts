@@ -1,6 +1,6 @@
 import { createSignal, createRoot } from 'solid-js';
 import { api } from '../api/client';
-import type { MailingListEntry, MailingListResponse } from '../types/mailing-list';
+import type { MailingListEntry } from '../types/mailing-list';
 
 const store = createRoot(() => {
   const [entries, setEntries] = createSignal<MailingListEntry[]>([]);
@@ -46,12 +46,9 @@ export function useMailingList() {
     async fetchEntries(): Promise<void> {
       store.setIsLoading(true);
       try {
-        let url = `/api/v1/admin/mailing-list?page=${store.page()}&pageSize=${store.pageSize()}`;
-        if (store.tierFilter()) {
-          url += `&tier=${store.tierFilter()}`;
-        }
-
-        const response = await api.get<MailingListResponse>(url);
+        const response = await api.get('/api/v1/admin/mailing-list', {
+          query: { page: store.page(), pageSize: store.pageSize(), tier: store.tierFilter() ?? undefined },
+        });
         store.setEntries(response.entries);
         store.setTotal(response.total);
       } finally {
@@ -0,0 +1,39 @@
+import { createSignal, createRoot } from 'solid-js';
+import { api } from '../api/client';
+import type { PlatformRevenue } from '../types/revenue';
+
+const store = createRoot(() => {
+  const [revenue, setRevenue] = createSignal<PlatformRevenue | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  return { revenue, setRevenue, isLoading, setIsLoading, error, setError };
+});
+
+export function useRevenue() {
+  return {
+    get revenue() { return store.revenue(); },
+    get isLoading() { return store.isLoading(); },
+    get error() { return store.error(); },
+
+    // The range is half-open: from is inclusive, to is exclusive.
+    async fetch(from: string, to: string): Promise<void> {
+      store.setIsLoading(true);
+      try {
+        const response = await api.get('/api/v1/hub/admin/revenue', { query: { from, to } });
+        store.setRevenue(response);
+        store.setError(null);
+      } catch (error) {
+        store.setError((error as { detail?: string })?.detail ?? 'Failed to load revenue');
+      } finally {
+        store.setIsLoading(false);
+      }
+    },
+
+    reset(): void {
+      store.setRevenue(null);
+      store.setIsLoading(false);
+      store.setError(null);
+    },
+  };
+}
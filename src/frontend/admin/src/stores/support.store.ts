@@ -0,0 +1,83 @@
+import { createSignal, createRoot } from 'solid-js';
+import { api } from '../api/client';
+import type { SupportInbox, SupportInboxFilters, SupportTicketDetail } from '../types/support';
+
+const store = createRoot(() => {
+  const [inbox, setInbox] = createSignal<SupportInbox | null>(null);
+  const [ticket, setTicket] = createSignal<SupportTicketDetail | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  return { inbox, setInbox, ticket, setTicket, isLoading, setIsLoading, error, setError };
+});
+
+// Keeps the inbox row in step with a ticket that was just changed, without a refetch.
+function replaceInInbox(detail: SupportTicketDetail): void {
+  const inbox = store.inbox();
+  if (!inbox) return;
+  store.setInbox({
+    ...inbox,
+    tickets: inbox.tickets.map((t) => (t.id === detail.ticket.id ? detail.ticket : t)),
+  });
+}
+
+export function useSupport() {
+  return {
+    get inbox() { return store.inbox(); },
+    get ticket() { return store.ticket(); },
+    get isLoading() { return store.isLoading(); },
+    get error() { return store.error(); },
+
+    async fetch(filters: SupportInboxFilters, page = 1, pageSize = 50): Promise<void> {
+      store.setIsLoading(true);
+      try {
+        const response = await api.get('/api/v1/admin/tickets', { query: { ...filters, page, pageSize } });
+        store.setInbox(response);
+        store.setError(null);
+      } catch (error) {
+        store.setError((error as { detail?: string })?.detail ?? 'Failed to load tickets');
+      } finally {
+        store.setIsLoading(false);
+      }
+    },
+
+    async open(ticketId: string): Promise<void> {
+      try {
+        store.setTicket(await api.get('/api/v1/admin/tickets/{ticketId}', { params: { ticketId } }));
+        store.setError(null);
+      } catch (error) {
+        store.setTicket(null);
+        store.setError((error as { detail?: string })?.detail ?? 'Failed to load the ticket');
+      }
+    },
+
+    close(): void {
+      store.setTicket(null);
+    },
+
+    async update(ticketId: string, status: string, assigneeId: string | null): Promise<void> {
+      const detail = await api.put('/api/v1/admin/tickets/{ticketId}', {
+        params: { ticketId },
+        body: { status, assigneeId },
+      });
+      store.setTicket(detail);
+      replaceInInbox(detail);
+    },
+
+    async reply(ticketId: string, body: string, status?: string): Promise<void> {
+      const detail = await api.post('/api/v1/admin/tickets/{ticketId}/replies', {
+        params: { ticketId },
+        body: { body, status: status ?? null },
+      });
+      store.setTicket(detail);
+      replaceInInbox(detail);
+    },
+
+    reset(): void {
+      store.setInbox(null);
+      store.setTicket(null);
+      store.setIsLoading(false);
+      store.setError(null);
+    },
+  };
+}
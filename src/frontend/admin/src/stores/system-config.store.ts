@@ -1,10 +1,9 @@
 import { createSignal, createRoot } from 'solid-js';
+import type { components } from '@generated/api-types';
 import { api } from '../api/client';
 
-export interface SystemConfig {
-  paidServersDisabled: boolean;
-  updatedAt: string;
-}
+export type SystemConfig = components['schemas']['AdminSystemConfigResponse'];
+type SystemConfigUpdate = components['schemas']['UpdateAdminSystemConfigRequest'];
 
 const store = createRoot(() => {
   const [config, setConfig] = createSignal<SystemConfig | null>(null);
@@ -14,6 +13,25 @@ const store = createRoot(() => {
   return { config, setConfig, isLoading, setIsLoading, isSaving, setIsSaving };
 });
 
+// PUT replaces every setting, so each change sends the current values alongside its change.
+async function save(change: Partial<SystemConfigUpdate>): Promise<void> {
+  const current = store.config();
+  store.setIsSaving(true);
+  try {
+    const response = await api.put('/api/v1/admin/system-config', {
+      body: {
+        paidServersDisabled: current?.paidServersDisabled ?? false,
+        requireAdminTwoFactor: current?.requireAdminTwoFactor ?? false,
+        autoRollbackWindowMinutes: current?.autoRollbackWindowMinutes ?? 0,
+        ...change,
+      },
+    });
+    store.setConfig(response);
+  } finally {
+    store.setIsSaving(false);
+  }
+}
+
 export function useSystemConfig() {
   return {
     get config() { return store.config(); },
@@ -23,7 +41,7 @@ export function useSystemConfig() {
     async fetch(): Promise<void> {
       store.setIsLoading(true);
       try {
-        const response = await api.get<SystemConfig>('/api/v1/admin/system-config');
+        const response = await api.get('/api/v1/admin/system-config');
         store.setConfig(response);
       } finally {
         store.setIsLoading(false);
@@ -31,15 +49,15 @@ export function useSystemConfig() {
     },
 
     async setPaidServersDisabled(disabled: boolean): Promise<void> {
-      store.setIsSaving(true);
-      try {
-        const response = await api.put<SystemConfig>('/api/v1/admin/system-config', {
-          paidServersDisabled: disabled,
-        });
-        store.setConfig(response);
-      } finally {
-        store.setIsSaving(false);
-      }
+      await save({ paidServersDisabled: disabled });
+    },
+
+    async setRequireAdminTwoFactor(required: boolean): Promise<void> {
+      await save({ requireAdminTwoFactor: required });
+    },
+
+    async setAutoRollbackWindow(minutes: number): Promise<void> {
+      await save({ autoRollbackWindowMinutes: minutes });
     },
 
     reset(): void {
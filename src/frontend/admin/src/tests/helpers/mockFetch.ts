@@ -47,6 +47,9 @@ export function mockFetch(
     }
 
     const result = await handler({ method, url: url.pathname + url.search, init, body });
+    // Streaming endpoints hand back a ready-made Response
+    if (result instanceof Response) return result;
+
     // Treat the handler return as a Response wrapper only when it is a tight
     // {status?, body?, headers?} object — not a domain payload that happens to
     // include a `status` field (e.g. an instance whose state is "running").
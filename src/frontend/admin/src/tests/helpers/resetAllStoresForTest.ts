@@ -1,11 +1,27 @@
+import { useAudit } from '../../stores/audit.store';
 import { useAuth } from '../../stores/auth.store';
+import { useBackupStorage } from '../../stores/backup-storage.store';
+import { useBackupTemplates } from '../../stores/backup-templates.store';
+import { useBulkActions } from '../../stores/bulk.store';
+import { useFleetHealth } from '../../stores/health.store';
 import { useInstances } from '../../stores/instance.store';
+import { useKeys } from '../../stores/keys.store';
 import { useMailingList } from '../../stores/mailing-list.store';
+import { useRevenue } from '../../stores/revenue.store';
+import { useSupport } from '../../stores/support.store';
 import { useSystemConfig } from '../../stores/system-config.store';
 
 export function resetAllStoresForTest(): void {
+  useAudit().reset();
   useAuth().reset();
+  useBackupStorage().reset();
+  useBackupTemplates().reset();
+  useBulkActions().reset();
+  useFleetHealth().reset();
   useInstances().reset();
+  useKeys().reset();
   useMailingList().reset();
+  useRevenue().reset();
+  useSupport().reset();
   useSystemConfig().reset();
 }
@@ -0,0 +1,12 @@
+import type { components } from '@generated/api-types';
+
+export type AuditLog = components['schemas']['ListAuditLogResponse'];
+export type AuditLogEntry = components['schemas']['AuditLogItem'];
+export type AuditChange = components['schemas']['AuditChangeItem'];
+
+export interface AuditLogFilters {
+  actor?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+}
@@ -2,3 +2,13 @@ import type { components } from '@generated/api-types';
 
 export type LoginRequest = components['schemas']['LoginRequest'];
 export type AuthTokens = components['schemas']['LoginApiResponse'];
+export type LoginWith2FARequest = components['schemas']['LoginWith2FARequest'];
+export type AdminSession = components['schemas']['AdminSessionResponse'];
+
+// Problem details the login endpoints return; lockouts carry an ISO `lockedUntil`.
+export interface LoginProblem {
+  title?: string;
+  detail?: string;
+  message?: string;
+  lockedUntil?: string;
+}
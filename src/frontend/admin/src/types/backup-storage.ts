@@ -0,0 +1,5 @@
+import type { components } from '@generated/api-types';
+
+export type BackupStorage = components['schemas']['BackupStorageResponse'];
+export type BackupStorageInstance = components['schemas']['BackupStorageInstanceLine'];
+export type BackupStorageDay = components['schemas']['BackupStorageDay'];
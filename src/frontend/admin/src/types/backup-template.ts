@@ -0,0 +1,7 @@
+import type { components } from '@generated/api-types';
+
+export type BackupTemplate = components['schemas']['BackupTemplateItem'];
+export type BackupTemplateRequest = components['schemas']['BackupTemplateRequest'];
+export type BackupTemplateDiff = components['schemas']['BackupTemplateDiffResponse'];
+export type BackupTemplateDiffItem = components['schemas']['BackupTemplateDiffItem'];
+export type ApplyBackupTemplateResponse = components['schemas']['ApplyBackupTemplateResponse'];
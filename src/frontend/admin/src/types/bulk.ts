@@ -0,0 +1,23 @@
+// Bulk actions run client-side: one request per selected instance against the
+// same endpoints the instance detail page uses.
+export type BulkAction =
+  | { type: 'suspend' }
+  | { type: 'resume' }
+  | { type: 'backup'; kind: string }
+  | { type: 'feature-flags'; flags: Record<string, boolean> }
+  | { type: 'resource-limits'; limits: Record<string, number> }
+  | { type: 'upgrade'; targetImage: string; version: string };
+
+export type BulkActionType = BulkAction['type'];
+
+export interface BulkTarget {
+  id: string;
+  subdomain: string;
+}
+
+export type BulkResultStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface BulkResult extends BulkTarget {
+  status: BulkResultStatus;
+  error: string | null;
+}
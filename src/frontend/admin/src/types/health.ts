@@ -0,0 +1,4 @@
+import type { components } from '@generated/api-types';
+
+export type FleetHealth = components['schemas']['AggregatedHealthResponse'];
+export type InstanceHealth = components['schemas']['InstanceHealthDto'];
@@ -4,6 +4,7 @@ import type { components } from '@generated/api-types';
 export type InstanceListItem = components['schemas']['AdminInstanceListItem'];
 export type InstanceListResponse = components['schemas']['AdminListInstancesResponse'];
 export type ProvisionInstanceRequest = components['schemas']['ProvisionInstanceCommand'];
+export type ProvisionInstanceResponse = components['schemas']['ProvisionInstanceResponse'];
 
 // Enum as const object (openapi-typescript generates strings, not TS enums)
 export const InstanceStatus = {
@@ -15,28 +16,73 @@ export const InstanceStatus = {
 } as const;
 export type InstanceStatus = (typeof InstanceStatus)[keyof typeof InstanceStatus];
 
-// Nested types not yet in generated spec - AdminGetInstanceResponse returns
-// resourceLimits/featureFlags/health/infrastructure as untyped JSON.
-// These stay local until the backend OpenAPI spec properly types those fields.
-export interface ResourceLimits {
-  maxMembers: number;
-  maxServers: number;
-  maxChannelsPerServer: number;
-  maxFileUploadMb: number;
-  maxStorageGb: number;
-  maxMonthlyBandwidthGb: number;
-}
+export const InstanceTier = {
+  Free: 'Free',
+  Basic: 'Basic',
+  Pro: 'Pro',
+  Enterprise: 'Enterprise',
+} as const;
+export type InstanceTier = (typeof InstanceTier)[keyof typeof InstanceTier];
+
+export const InstanceHealthState = ['healthy', 'unhealthy', 'unknown'] as const;
+export type InstanceHealthState = (typeof InstanceHealthState)[number];
 
-export interface FeatureFlags {
-  allowCustomEmoji: boolean;
-  allowVoiceChannels: boolean;
-  allowVideoStreaming: boolean;
-  allowBots: boolean;
-  allowWebhooks: boolean;
-  allowAutomod: boolean;
-  allowServerDiscovery: boolean;
+export type InstanceSortField = 'subdomain' | 'displayName' | 'owner' | 'status' | 'tier' | 'image' | 'createdAt';
+
+// Search, filters and sort order for the admin instance list. Created dates
+// are calendar days (YYYY-MM-DD) in the admin's local time, both inclusive.
+export interface InstanceFilters {
+  search?: string;
+  status?: InstanceStatus;
+  tier?: InstanceTier;
+  mediaEnabled?: boolean;
+  version?: string;
+  health?: InstanceHealthState;
+  createdFrom?: string;
+  createdTo?: string;
+  sortBy?: InstanceSortField;
+  sortDir?: 'asc' | 'desc';
 }
 
+export type InstanceConfig = components['schemas']['AdminInstanceConfigResponse'];
+export type ResourceLimitField = components['schemas']['ResourceLimitField'];
+export type FeatureFlagField = components['schemas']['FeatureFlagField'];
+export type LogEntry = components['schemas']['InstanceLogLine'];
+export type AvailableVersion = components['schemas']['VersionListItem'];
+export type PublishVersionRequest = components['schemas']['PublishVersionRequest'];
+export type PublishVersionResponse = components['schemas']['PublishVersionResponse'];
+export type UpgradeRollout = components['schemas']['UpgradeRolloutListItem'];
+export type RolloutDetail = components['schemas']['GetUpgradeStatusResponse'];
+export type RolloutEvent = components['schemas']['UpgradeEventItem'];
+export type StartRolloutRequest = components['schemas']['StartUpgradeRequest'];
+export type StartRolloutResponse = components['schemas']['StartUpgradeResponse'];
+export type RolloutPreviewRequest = components['schemas']['PreviewUpgradeRequest'];
+export type RolloutPreview = components['schemas']['PreviewUpgradeResponse'];
+export type RolloutPreviewInstance = components['schemas']['RolloutPreviewInstance'];
+export type RolloutStage = components['schemas']['RolloutStageRequest'];
+export type RolloutStageItem = components['schemas']['RolloutStageItem'];
+export type InstanceRollback = components['schemas']['InstanceRollbackResponse'];
+export type RollbackInstanceResponse = components['schemas']['RollbackInstanceResponse'];
+export type RollbackRolloutResponse = components['schemas']['RollbackRolloutResponse'];
+export type MinimumVersionCompliance = components['schemas']['MinimumVersionComplianceResponse'];
+export type NonCompliantInstance = components['schemas']['NonCompliantInstanceItem'];
+export type BackupPolicy = components['schemas']['BackupPolicyResponse'];
+export type UpdateBackupPolicyRequest = components['schemas']['UpdateBackupPolicyRequest'];
+export type InstanceBackupStorage = components['schemas']['InstanceBackupStorageResponse'];
+export type BackupKindSize = components['schemas']['BackupKindSize'];
+export type BackupRecord = components['schemas']['BackupRecordItem'];
+export type BackupRecordList = components['schemas']['ListBackupRecordsResponse'];
+export type BackupDownload = components['schemas']['BackupDownloadResponse'];
+export type RestoreOperation = components['schemas']['RestoreOperationItem'];
+export type ProvisioningTimeline = components['schemas']['ProvisioningTimelineResponse'];
+export type ProvisioningStep = components['schemas']['ProvisioningStepItem'];
+export type ProvisioningAttempt = components['schemas']['ProvisioningAttemptItem'];
+export type InstanceUptime = components['schemas']['GetInstanceUptimeResponse'];
+export type UptimeDay = components['schemas']['UptimeDayItem'];
+export type UptimeOutage = components['schemas']['UptimeOutageItem'];
+
+// AdminGetInstanceResponse returns health/infrastructure as untyped JSON.
+// These stay local until the backend OpenAPI spec properly types those fields.
 export interface HealthStatus {
   isHealthy: boolean;
   lastCheckAt: string;
@@ -59,34 +105,15 @@ export interface Infrastructure {
   deployedImage?: string;
 }
 
-export interface LogEntry {
-  timestamp: string;
-  level: string;
-  message: string;
-  source: string;
-}
-
 // Augmented version of the generated type with properly typed nested fields
 export type InstanceDetail = Omit<
   components['schemas']['AdminGetInstanceResponse'],
-  'resourceLimits' | 'featureFlags' | 'health' | 'infrastructure'
+  'health' | 'infrastructure'
 > & {
-  resourceLimits: ResourceLimits;
-  featureFlags: FeatureFlags;
   health?: HealthStatus;
   infrastructure?: Infrastructure;
 };
 
-export interface AvailableVersion {
-  id: string;
-  version: string;
-  image: string;
-  releaseNotes: string | null;
-  isMinimumVersion: boolean;
-  minimumEnforcementDate: string | null;
-  publishedAt: string;
-}
-
 export interface ReleaseNotes {
   version: string;
   features: { summary: string; commit: string }[];
@@ -97,28 +124,4 @@ export interface ReleaseNotes {
   knownIssues: string;
 }
 
-export interface UpgradeRollout {
-  id: string;
-  toImage: string;
-  fromImage: string | null;
-  targetPool: string | null;
-  status: string;
-  totalInstances: number;
-  completedInstances: number;
-  failedInstances: number;
-  batchSize: number;
-  maxFailures: number;
-  scheduledAt: string | null;
-  startedAt: string;
-  completedAt: string | null;
-}
 
-export interface StartRolloutRequest {
-  toImage: string;
-  fromImage?: string;
-  targetPool?: string;
-  force?: boolean;
-  batchSize?: number;
-  maxFailures?: number;
-  scheduledAt?: string;
-}
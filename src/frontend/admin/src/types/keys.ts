@@ -0,0 +1,7 @@
+import type { components } from '@generated/api-types';
+
+export type KeyStatus = components['schemas']['KeyStatusResponse'];
+export type DataKeyVersion = components['schemas']['DataKeyVersionItem'];
+export type KeyUsage = components['schemas']['KeyUsageItem'];
+export type KeyRotation = components['schemas']['KeyRotationItem'];
+export type RotateDataKeyResponse = components['schemas']['RotateDataKeyResponse'];
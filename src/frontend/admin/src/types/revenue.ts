@@ -0,0 +1,5 @@
+import type { components } from '@generated/api-types';
+
+export type PlatformRevenue = components['schemas']['PlatformRevenueSummary'];
+export type MonthlyRevenue = components['schemas']['MonthlyRevenueLine'];
+export type InstanceRevenue = components['schemas']['InstanceRevenueLine'];
@@ -0,0 +1,15 @@
+import type { components } from '@generated/api-types';
+
+export type SupportInbox = components['schemas']['AdminListSupportTicketsResponse'];
+export type SupportTicket = components['schemas']['SupportTicketItem'];
+export type SupportTicketDetail = components['schemas']['SupportTicketDetail'];
+export type SupportTicketReply = components['schemas']['SupportTicketReplyItem'];
+export type SupportAssignee = components['schemas']['SupportAssignee'];
+
+export const SUPPORT_TICKET_STATUSES = ['Open', 'Pending', 'Closed'] as const;
+
+// `assignee` is an admin's id or 'unassigned'
+export interface SupportInboxFilters {
+  status?: string;
+  assignee?: string;
+}
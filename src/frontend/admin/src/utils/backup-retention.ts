@@ -0,0 +1,51 @@
+import type { BackupKindSize } from '../types/instance';
+
+const INTERVAL_HOURS: Record<string, number> = {
+  Hourly: 1,
+  Daily: 24,
+  Weekly: 24 * 7,
+};
+
+export interface RetentionSettings {
+  frequency: string;
+  databaseFrequency?: string | null;
+  retentionDays: number;
+  backupDatabase: boolean;
+}
+
+export interface RetentionEstimate {
+  fullSnapshots: number;
+  databaseSnapshots: number;
+  // null until the instance has completed backups of every kind the schedule takes
+  bytes: number | null;
+}
+
+function snapshotsKept(frequency: string, retentionDays: number): number {
+  const hours = INTERVAL_HOURS[frequency] ?? INTERVAL_HOURS.Daily;
+  return Math.max(1, Math.ceil((retentionDays * 24) / hours));
+}
+
+/**
+ * Estimates how many backups a schedule keeps once it reaches steady state, and
+ * roughly how much storage they take, from the average size of the instance's
+ * recent backups. Database-only backups are taken in the gaps between full ones,
+ * so only a database schedule more frequent than the full one adds snapshots.
+ */
+export function simulateRetention(settings: RetentionSettings, sizes: BackupKindSize[]): RetentionEstimate {
+  const fullSnapshots = snapshotsKept(settings.frequency, settings.retentionDays);
+  const databaseSnapshots =
+    settings.backupDatabase && settings.databaseFrequency
+      ? Math.max(0, snapshotsKept(settings.databaseFrequency, settings.retentionDays) - fullSnapshots)
+      : 0;
+
+  const averageOf = (kind: string) => sizes.find((s) => s.kind === kind && s.sampleCount > 0)?.averageBytes;
+  const fullSize = averageOf('Full');
+  const databaseSize = averageOf('Database');
+
+  let bytes: number | null = null;
+  if (fullSize !== undefined && (databaseSnapshots === 0 || databaseSize !== undefined)) {
+    bytes = fullSnapshots * fullSize + databaseSnapshots * (databaseSize ?? 0);
+  }
+
+  return { fullSnapshots, databaseSnapshots, bytes };
+}
@@ -0,0 +1,15 @@
+// Runs `worker` over `items` in order with at most `limit` calls in flight.
+// `worker` is expected to handle its own failures; a rejection aborts the run.
+export async function forEachWithLimit<T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
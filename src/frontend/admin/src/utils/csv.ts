@@ -0,0 +1,21 @@
+import { downloadFile } from './download';
+
+/**
+ * Minimal CSV export for admin reports. Values are quoted only when they
+ * contain a delimiter, quote or line break (RFC 4180), so the output opens
+ * cleanly in spreadsheet and bookkeeping tools.
+ */
+export type CsvValue = string | number | null | undefined;
+
+function escapeCell(value: CsvValue): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function downloadCsv(filename: string, content: string): void {
+  downloadFile(filename, content, 'text/csv;charset=utf-8');
+}
@@ -0,0 +1,15 @@
+/**
+ * Saves generated text as a file through a temporary object URL, for exports
+ * that are built in the browser rather than served by the backend.
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
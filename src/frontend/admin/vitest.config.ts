@@ -1,5 +1,6 @@
 import { defineConfig } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
+import path from 'path';
 
 export default defineConfig({
   plugins: [solidPlugin()],
@@ -11,5 +12,9 @@ export default defineConfig({
   },
   resolve: {
     conditions: ['development', 'browser'],
+    alias: {
+      '~': path.resolve(__dirname, 'src'),
+      '@generated': path.resolve(__dirname, '../generated'),
+    },
   },
 });
@@ -0,0 +1,79 @@
+import type { paths } from './api-types';
+
+// Shared by the admin and hub API clients. Typed against the generated OpenAPI
+// `paths` map: a path, method, path parameter, query, body or response shape
+// that the backend does not publish fails `tsc` instead of drifting silently
+// at runtime. Unlike api-types.ts this file is not generated.
+
+export type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export type PathsFor<M extends Method> = {
+  [P in keyof paths]-?: [NonNullable<paths[P][M]>] extends [never] ? never : P;
+}[keyof paths];
+
+type Operation<P extends keyof paths, M extends Method> = NonNullable<paths[P][M]>;
+
+// Snowflake ids are int64 in the spec but travel as strings in JSON, so path
+// parameters accept either form.
+type PathParams<O> = O extends { parameters: { path: infer T } }
+  ? { [K in keyof T]: string | number }
+  : never;
+
+type QueryParams<O> = O extends { parameters: { query?: infer Q } } ? NonNullable<Q> : never;
+
+type RequestBody<O> = O extends { requestBody?: infer B }
+  ? [NonNullable<B>] extends [never]
+    ? never
+    : NonNullable<B> extends { content: { 'application/json': infer T } } ? T : never
+  : never;
+
+type JsonContent<R> = R extends { content: { 'application/json': infer T } } ? T : void;
+
+export type ResponseOf<P extends keyof paths, M extends Method> = Operation<P, M> extends { responses: infer R }
+  ? JsonContent<R[Extract<keyof R, 200 | 201 | 202 | 204>]>
+  : void;
+
+type ParamsOption<O> = [PathParams<O>] extends [never] ? { params?: never } : { params: PathParams<O> };
+
+type QueryOption<O> = [QueryParams<O>] extends [never]
+  ? { query?: never }
+  : {} extends QueryParams<O> ? { query?: QueryParams<O> } : { query: QueryParams<O> };
+
+type BodyOption<O> = [RequestBody<O>] extends [never] ? { body?: never } : { body: RequestBody<O> };
+
+// `Extra` holds client-specific options that apply to every request, such as
+// the admin client's audit reason.
+export type RequestOptions<P extends keyof paths, M extends Method, Extra = {}> =
+  ParamsOption<Operation<P, M>> & QueryOption<Operation<P, M>> & BodyOption<Operation<P, M>> & Extra;
+
+// The options argument is optional only when nothing in it is required.
+export type OptionsArg<P extends keyof paths, M extends Method, Extra = {}> =
+  {} extends RequestOptions<P, M, Extra>
+    ? [options?: RequestOptions<P, M, Extra>]
+    : [options: RequestOptions<P, M, Extra>];
+
+export interface RawOptions {
+  params?: Record<string, string | number>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
+
+export function buildUrl(path: string, options: RawOptions = {}): string {
+  const url = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = options.params?.[name];
+    if (value === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(key, String(value));
+    }
+  }
+
+  const qs = search.toString();
+  return qs ? `${url}?${qs}` : url;
+}
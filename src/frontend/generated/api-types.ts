@@ -726,22 +726,6 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/api/v1/admin/instances/{id}/backups/{backupId}/restore": {
-        parameters: {
-            query?: never;
-            header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        get?: never;
-        put?: never;
-        post: operations["AdminTriggerRestore"];
-        delete?: never;
-        options?: never;
-        head?: never;
-        patch?: never;
-        trace?: never;
-    };
     "/api/v1/auth/captcha": {
         parameters: {
             query?: never;
@@ -1056,7 +1040,7 @@ export interface paths {
         get: operations["AdminGetInstance"];
         put?: never;
         post?: never;
-        delete?: never;
+        delete: operations["AdminDestroyInstance"];
         options?: never;
         head?: never;
         patch?: never;
@@ -1142,817 +1126,2863 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-}
-export type webhooks = Record<string, never>;
-export interface components {
-    schemas: {
-        AddMailingListEntryRequest: {
-            email: string;
-            tier: string;
-        };
-        AddMailingListEntryResponse: {
-            message: string;
+    "/api/v1/admin/instances/{id}/suspend": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        AdminGetInstanceResponse: {
-            id: string;
-            subdomain: string;
-            displayName: string;
-            domain: string;
-            status: string;
-            tier: string;
-            mediaEnabled: boolean;
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            suspendedAt: string | null;
-            /** Format: date-time */
-            destroyedAt: string | null;
-            ownerId: string;
-            ownerUsername: string;
-            resourceLimits: unknown;
-            featureFlags: unknown;
-            health: unknown;
-            infrastructure: unknown;
+        get?: never;
+        put?: never;
+        post: operations["AdminSuspendInstance"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/resume": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        AdminInstanceListItem: {
-            id: string;
-            subdomain: string;
-            displayName: string;
-            status: string;
-            tier: string;
-            mediaEnabled: boolean;
-            /** Format: date-time */
-            createdAt: string;
-            ownerUsername: string;
+        get?: never;
+        put?: never;
+        post: operations["AdminResumeInstance"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/logs": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        AdminListInstancesResponse: {
-            instances: components["schemas"]["AdminInstanceListItem"][];
-            /** Format: int32 */
-            total: number;
-            /** Format: int32 */
-            page: number;
-            /** Format: int32 */
-            pageSize: number;
+        get: operations["AdminGetInstanceLogs"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/config": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        AdminListMailingListResponse: {
-            entries: components["schemas"]["MailingListItem"][];
-            /** Format: int32 */
-            total: number;
-            /** Format: int32 */
-            page: number;
-            /** Format: int32 */
-            pageSize: number;
+        get: operations["AdminGetInstanceConfig"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/session": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        AdminSystemConfigResponse: {
-            paidServersDisabled: boolean;
-            /** Format: date-time */
-            updatedAt: string;
+        get: operations["AdminGetSession"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/versions/{id}/minimum": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        AggregatedHealthResponse: {
-            overallStatus: string;
-            /** Format: int32 */
-            totalInstances: number;
-            /** Format: int32 */
-            healthyInstances: number;
-            /** Format: int32 */
-            unhealthyInstances: number;
-            /** Format: date-time */
-            timestamp: string;
-            instances: components["schemas"]["InstanceHealthDto"][];
+        get?: never;
+        put: operations["SetMinimumVersion"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/keys": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        AvailableVersionDto: {
-            id: string;
-            version: string;
-            image: string;
-            releaseNotes: string | null;
-            isMinimumVersion: boolean;
-            /** Format: date-time */
-            minimumEnforcementDate: string | null;
-            /** Format: date-time */
-            publishedAt: string;
+        get: operations["GetKeyStatus"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/logs/stream": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        BackupPolicyResponse: {
-            instanceId: string;
-            enabled: boolean;
-            frequency: string;
-            /** Format: int32 */
-            retentionDays: number;
-            backupDatabase: boolean;
-            backupFiles: boolean;
-            backupRedis: boolean;
+        get: operations["AdminStreamInstanceLogs"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/hub/instances/{instanceId}/provisioning": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        BackupRecordItem: {
-            id: string;
-            instanceId: string;
-            status: string;
-            kind: string;
-            /** Format: int64 */
-            sizeBytes: number;
-            storagePath: string;
-            errorMessage: string | null;
-            /** Format: date-time */
-            startedAt: string;
-            /** Format: date-time */
-            completedAt: string | null;
+        get: operations["GetProvisioningTimeline"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/provisioning": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        CancelInstanceBillingResponse: {
-            message: string;
-            tier: string;
+        get: operations["AdminGetProvisioningTimeline"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/provisioning/retry": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["AdminRetryProvisioning"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/hub/instances/{instanceId}/uptime": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["GetInstanceUptime"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/uptime": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminGetInstanceUptime"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/upgrades/preview": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["PreviewUpgrade"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/rollback": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminGetInstanceRollback"];
+        put?: never;
+        post: operations["AdminRollbackInstance"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/upgrades/{id}/rollback": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["RollbackRollout"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/versions/compliance": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminGetMinimumVersionCompliance"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/hub/instances/{instanceId}/minimum-version": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["GetInstanceMinimumVersion"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/audit": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminListAuditLog"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/restores": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminListRestores"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/restores/preview": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["AdminPreviewRestore"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/backups/{backupId}/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["AdminVerifyBackup"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/backups/{backupId}/download": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["AdminDownloadBackup"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/backup-templates": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminListBackupTemplates"];
+        put?: never;
+        post: operations["AdminCreateBackupTemplate"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/backup-templates/{templateId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put: operations["AdminUpdateBackupTemplate"];
+        post?: never;
+        delete: operations["AdminDeleteBackupTemplate"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/backup-templates/{templateId}/diff": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminGetBackupTemplateDiff"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/backup-templates/{templateId}/apply": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["AdminApplyBackupTemplate"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/backup-policy/reset": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["AdminResetBackupPolicy"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/backups/storage": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminGetBackupStorage"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/backups/storage": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminGetInstanceBackupStorage"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/tickets": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminListSupportTickets"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/tickets/{ticketId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["AdminGetSupportTicket"];
+        put: operations["AdminUpdateSupportTicket"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/tickets/{ticketId}/replies": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["AdminReplyToSupportTicket"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/hub/tickets": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["ListSupportTickets"];
+        put?: never;
+        post: operations["CreateSupportTicket"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/hub/tickets/{ticketId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["GetSupportTicket"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/hub/tickets/{ticketId}/replies": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["ReplyToSupportTicket"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/admin/instances/{id}/upgrade": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["AdminUpgradeInstance"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        AddMailingListEntryRequest: {
+            email: string;
+            tier: string;
+        };
+        AddMailingListEntryResponse: {
+            message: string;
+        };
+        AdminGetInstanceLogsResponse: {
+            logs: components["schemas"]["InstanceLogLine"][];
+        };
+        AdminGetInstanceResponse: {
+            id: string;
+            subdomain: string;
+            displayName: string;
+            domain: string;
+            status: string;
+            tier: string;
+            mediaEnabled: boolean;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            suspendedAt: string | null;
+            /** Format: date-time */
+            destroyedAt: string | null;
+            ownerId: string;
+            ownerUsername: string;
+            resourceLimits: unknown;
+            featureFlags: unknown;
+            health: unknown;
+            infrastructure: unknown;
+        };
+        AdminInstanceConfigResponse: {
+            tier: string;
+            mediaEnabled: boolean;
+            resourceLimits: components["schemas"]["ResourceLimitField"][];
+            featureFlags: components["schemas"]["FeatureFlagField"][];
+        };
+        AdminInstanceListItem: {
+            id: string;
+            subdomain: string;
+            displayName: string;
+            status: string;
+            tier: string;
+            mediaEnabled: boolean;
+            /** Format: date-time */
+            createdAt: string;
+            ownerUsername: string;
+            deployedImage: string | null;
+            health: string;
+        };
+        AdminListInstancesResponse: {
+            instances: components["schemas"]["AdminInstanceListItem"][];
+            /** Format: int32 */
+            total: number;
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+        };
+        AdminListMailingListResponse: {
+            entries: components["schemas"]["MailingListItem"][];
+            /** Format: int32 */
+            total: number;
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+        };
+        AdminListSupportTicketsResponse: {
+            tickets: components["schemas"]["SupportTicketItem"][];
+            /** Format: int32 */
+            total: number;
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+            counts: components["schemas"]["SupportTicketCounts"];
+            assignees: components["schemas"]["SupportAssignee"][];
+        };
+        AdminSessionResponse: {
+            twoFactorEnabled: boolean;
+            twoFactorRequired: boolean;
+        };
+        AdminSystemConfigResponse: {
+            paidServersDisabled: boolean;
+            requireAdminTwoFactor: boolean;
+            /** Format: int32 */
+            autoRollbackWindowMinutes: number;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        AdminUpdateSupportTicketRequest: {
+            status: string;
+            assigneeId: string | null;
+        };
+        AggregatedHealthResponse: {
+            overallStatus: string;
+            /** Format: int32 */
+            totalInstances: number;
+            /** Format: int32 */
+            healthyInstances: number;
+            /** Format: int32 */
+            unhealthyInstances: number;
+            /** Format: date-time */
+            timestamp: string;
+            instances: components["schemas"]["InstanceHealthDto"][];
+        };
+        ApplyBackupTemplateResponse: {
+            /** Format: int32 */
+            applied: number;
+            /** Format: int32 */
+            skippedOverridden: number;
+        };
+        AuditChangeItem: {
+            field: string;
+            before: string | null;
+            after: string | null;
+        };
+        AuditLogItem: {
+            id: string;
+            /** Format: date-time */
+            createdAt: string;
+            actorId: string | null;
+            actorName: string;
+            ipAddress: string;
+            action: string;
+            targetType: string;
+            targetId: string | null;
+            reason: string | null;
+            changes: components["schemas"]["AuditChangeItem"][];
+        };
+        AvailableVersionDto: {
+            id: string;
+            version: string;
+            image: string;
+            releaseNotes: string | null;
+            isMinimumVersion: boolean;
+            /** Format: date-time */
+            minimumEnforcementDate: string | null;
+            /** Format: date-time */
+            publishedAt: string;
+        };
+        BackupDownloadFile: {
+            name: string;
+            url: string;
+        };
+        BackupDownloadResponse: {
+            files: components["schemas"]["BackupDownloadFile"][];
+            /** Format: date-time */
+            expiresAt: string;
+        };
+        BackupKindSize: {
+            kind: string;
+            /** Format: int64 */
+            averageBytes: number;
+            /** Format: int32 */
+            sampleCount: number;
+        };
+        BackupPolicyChange: {
+            field: string;
+            current: string;
+            template: string;
+        };
+        BackupPolicyResponse: {
+            instanceId: string;
+            enabled: boolean;
+            frequency: string;
+            databaseFrequency: string | null;
+            /** Format: int32 */
+            retentionDays: number;
+            backupDatabase: boolean;
+            backupFiles: boolean;
+            backupRedis: boolean;
+            /** Format: int32 */
+            verifySampleSize: number;
+            /** Format: date-time */
+            lastVerifiedAt: string | null;
+            templateId: string | null;
+            templateName: string | null;
+            isOverridden: boolean;
+        };
+        BackupRecordItem: {
+            id: string;
+            instanceId: string;
+            status: string;
+            kind: string;
+            /** Format: int64 */
+            sizeBytes: number;
+            storagePath: string;
+            errorMessage: string | null;
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            completedAt: string | null;
+            checksum: string | null;
+            verificationStatus: string;
+            /** Format: date-time */
+            verifiedAt: string | null;
+            verificationError: string | null;
+        };
+        BackupStorageDay: {
+            date: string;
+            /** Format: int64 */
+            addedBytes: number;
+            /** Format: int64 */
+            removedBytes: number;
+            /** Format: int64 */
+            storedBytes: number;
+        };
+        BackupStorageInstanceLine: {
+            instanceId: string;
+            domain: string;
+            tier: string;
+            /** Format: int64 */
+            bytes: number;
+            /** Format: int32 */
+            count: number;
+            /** Format: date-time */
+            lastBackupAt: string | null;
+        };
+        BackupStorageKindLine: {
+            kind: string;
+            /** Format: int64 */
+            bytes: number;
+            /** Format: int32 */
+            count: number;
+        };
+        BackupStorageResponse: {
+            /** Format: int64 */
+            totalBytes: number;
+            /** Format: int32 */
+            backupCount: number;
+            kinds: components["schemas"]["BackupStorageKindLine"][];
+            tiers: components["schemas"]["BackupStorageTierLine"][];
+            instances: components["schemas"]["BackupStorageInstanceLine"][];
+            growth: components["schemas"]["BackupStorageDay"][];
+        };
+        BackupStorageTierLine: {
+            tier: string;
+            /** Format: int64 */
+            bytes: number;
+            /** Format: int32 */
+            count: number;
+            /** Format: int32 */
+            instanceCount: number;
+        };
+        BackupTemplateDiffItem: {
+            instanceId: string;
+            domain: string;
+            tier: string;
+            isOverridden: boolean;
+            changes: components["schemas"]["BackupPolicyChange"][];
+        };
+        BackupTemplateDiffResponse: {
+            templateId: string;
+            instances: components["schemas"]["BackupTemplateDiffItem"][];
+            /** Format: int32 */
+            unchangedCount: number;
+        };
+        BackupTemplateItem: {
+            id: string;
+            name: string;
+            frequency: string;
+            databaseFrequency: string | null;
+            /** Format: int32 */
+            retentionDays: number;
+            backupDatabase: boolean;
+            backupFiles: boolean;
+            backupRedis: boolean;
+            /** Format: int32 */
+            verifySampleSize: number;
+            tiers: string[];
+            /** Format: int32 */
+            instanceCount: number;
+            /** Format: int32 */
+            overriddenCount: number;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        BackupTemplateRequest: {
+            name: string;
+            frequency: string;
+            databaseFrequency: string | null;
+            /** Format: int32 */
+            retentionDays: number;
+            backupDatabase: boolean;
+            backupFiles: boolean;
+            backupRedis: boolean;
+            /** Format: int32 */
+            verifySampleSize: number;
+            tiers: string[];
+        };
+        CancelInstanceBillingResponse: {
+            message: string;
+            tier: string;
         };
         CancelUpgradeResponse: {
             id: string;
             status: string;
             /** Format: date-time */
-            completedAt: string | null;
+            completedAt: string | null;
+        };
+        CaptchaResponse: {
+            captchaId: string;
+            question: string;
+        };
+        ChangePasswordRequest: {
+            currentPassword: string;
+            newPassword: string;
+        };
+        ChangePlanRequest: {
+            targetTier: components["schemas"]["InstanceTier2"];
+            mediaEnabled: boolean;
+        };
+        ChangePlanResponse: {
+            tier: string;
+            /** Format: int32 */
+            priceCents: number;
+            checkoutUrl: string | null;
+            requiresCheckout: boolean;
+        };
+        CheckSubdomainResponse: {
+            available: boolean;
+            reason: string | null;
+        };
+        CreateInstanceCommand: {
+            subdomain: string;
+            displayName: string;
+            tier?: components["schemas"]["InstanceTier"];
+            /** @default false */
+            mediaEnabled: boolean;
+            /** @default null */
+            adminPassword: string | null;
+            /** @default null */
+            captchaId: string | null;
+            /** @default null */
+            captchaAnswer: string | null;
+        };
+        CreateInstanceResponse: {
+            instanceId: string;
+            domain: string;
+            displayName: string;
+            status: string;
+            adminPassword: string;
+        };
+        CreateSetupIntentCommand: {
+            tier: string;
+            mediaEnabled: boolean;
+        };
+        CreateSetupIntentResponse: {
+            clientSecret: string;
+            /** Format: int32 */
+            priceCents: number;
+        };
+        CreateSupportTicketRequest: {
+            instanceId: string;
+            subject: string;
+            message: string;
+        };
+        DataKeyVersionItem: {
+            /** Format: int32 */
+            version: number;
+            isActive: boolean;
+            /** Format: date-time */
+            createdAt: string | null;
+            /** Format: int32 */
+            valueCount: number;
+        };
+        DeleteAccountRequest: {
+            password: string;
+        };
+        Disable2FARequest: {
+            password: string;
+        };
+        Enable2FAResponse: {
+            secret: string;
+            qrCodeUrl: string;
+        };
+        FeatureFlagField: {
+            key: string;
+            label: string;
+            group: string;
+            tierDefault: boolean;
+            value: boolean;
+        };
+        FederationUpgradeRequest: {
+            targetVersion: string;
+        };
+        FederationUpgradeResponse: {
+            accepted: boolean;
+            targetImage: string;
+        };
+        FederationVersionItem: {
+            id: string;
+            version: string;
+            image: string;
+            releaseNotes: string | null;
+            isMinimumVersion: boolean;
+            /** Format: date-time */
+            minimumEnforcementDate: string | null;
+            /** Format: date-time */
+            publishedAt: string;
+        };
+        ForgotPasswordRequest: {
+            email: string;
+        };
+        GetAvailableVersionsResponse: {
+            versions: components["schemas"]["AvailableVersionDto"][];
+        };
+        GetBillingResponse: {
+            instances: components["schemas"]["InstanceBillingItem"][];
+        };
+        GetFeaturesResponse: {
+            paymentsEnabled: boolean;
+            stripePublishableKey: string | null;
+            paidServersDisabled: boolean;
+        };
+        GetFederationVersionsResponse: {
+            versions: components["schemas"]["FederationVersionItem"][];
+            currentVersion: string | null;
+            batchUpgradesEnabled: boolean;
+        };
+        GetInstanceResponse: {
+            id: string;
+            subdomain: string;
+            displayName: string;
+            domain: string;
+            status: string;
+            tier: string;
+            mediaEnabled: boolean;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        GetInstanceResponse2: {
+            id: string;
+            name: string;
+            description: string;
+            iconUrl: string;
+            domain: string;
+            /** Format: int32 */
+            memberCount: number;
+            /** Format: int32 */
+            onlineCount: number;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        GetInstanceUptimeResponse: {
+            instanceId: string;
+            /** Format: double */
+            availability7Days: number | null;
+            /** Format: double */
+            availability30Days: number | null;
+            /** Format: double */
+            availability90Days: number | null;
+            days: components["schemas"]["UptimeDayItem"][];
+            outages: components["schemas"]["UptimeOutageItem"][];
+        };
+        GetInstanceUsageResponse: {
+            instanceId: string;
+            domain: string;
+            tier: string;
+            isMeteredBilling: boolean;
+            /** Format: double */
+            totalUptimeMinutes: number;
+            /** Format: double */
+            totalUptimeHours: number;
+            /** Format: int32 */
+            uptimePercentage: number;
+            /** Format: int64 */
+            estimatedCostCents: number;
+            intervals: components["schemas"]["UptimeIntervalDto"][];
+        };
+        GetInvoicesResponse: {
+            invoices: components["schemas"]["InvoiceSummary"][];
+        };
+        GetMeResponse: {
+            userId: string;
+            username: string;
+            displayName: string;
+            email: string;
+            twoFactorEnabled: boolean;
+        };
+        GetUpgradeHistoryResponse: {
+            events: components["schemas"]["UpgradeHistoryItem"][];
+        };
+        GetUpgradeStatusResponse: {
+            id: string;
+            toImage: string;
+            fromImage: string | null;
+            targetPool: string | null;
+            status: string;
+            /** Format: int32 */
+            totalInstances: number;
+            /** Format: int32 */
+            completedInstances: number;
+            /** Format: int32 */
+            failedInstances: number;
+            /** Format: int32 */
+            batchSize: number;
+            /** Format: int32 */
+            maxFailures: number;
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            completedAt: string | null;
+            events: components["schemas"]["UpgradeEventItem"][];
+            stages: components["schemas"]["RolloutStageItem"][];
+            /** Format: int32 */
+            currentStage: number | null;
+            /** Format: date-time */
+            stageGateAt: string | null;
+            /** Format: int32 */
+            healthGateMaxFailures: number;
+            /** Format: int32 */
+            healthGateMaxResponseTimeMs: number | null;
+            pauseReason: string | null;
+        };
+        InstanceBackupStorageResponse: {
+            instanceId: string;
+            /** Format: int64 */
+            storedBytes: number;
+            /** Format: int32 */
+            storedCount: number;
+            recentSizes: components["schemas"]["BackupKindSize"][];
+        };
+        InstanceBillingItem: {
+            instanceId: string;
+            domain: string;
+            displayName: string;
+            tier: string;
+            mediaEnabled: boolean;
+            /** Format: int32 */
+            priceCents: number;
+            billingStatus: string;
+        };
+        InstanceHealthDto: {
+            id: string;
+            domain: string;
+            status: string;
+            isHealthy: boolean;
+            /** Format: int32 */
+            consecutiveFailures: number;
+            /** Format: int32 */
+            responseTimeMs: number | null;
+            errorMessage: string | null;
+            /** Format: date-time */
+            lastCheckAt: string | null;
+            version: string | null;
+            deployedImage: string | null;
+        };
+        InstanceLogLine: {
+            /** Format: date-time */
+            timestamp: string;
+            stream: string;
+            level: string | null;
+            message: string;
+        };
+        InstanceMinimumVersionResponse: {
+            compliant: boolean;
+            currentVersion: string | null;
+            minimumVersion: string | null;
+            minimumImage: string | null;
+            /** Format: date-time */
+            enforcementDate: string | null;
+            forceUpgraded: boolean;
+        };
+        InstancePreview: {
+            id: string;
+            name: string;
+            description: string;
+            iconUrl: string;
+            domain: string;
+            /** Format: int32 */
+            memberCount: number;
+            /** Format: int32 */
+            onlineCount: number;
+        };
+        InstanceRevenueLine: {
+            instanceId: string;
+            domain: string;
+            displayName: string;
+            /** Format: int32 */
+            amountCents: number;
+            /** Format: int32 */
+            platformFeeCents: number;
+            /** Format: int32 */
+            ownerPayoutCents: number;
+        };
+        InstanceRollbackResponse: {
+            upgradeEventId: string;
+            status: string;
+            fromImage: string;
+            fromVersion: string | null;
+            toImage: string | null;
+            toVersion: string | null;
+            /** Format: date-time */
+            upgradedAt: string | null;
+            preUpgradeBackupId: string | null;
+            /** Format: date-time */
+            preUpgradeBackupAt: string | null;
+            blockedReason: string | null;
+        };
+        InstanceSummary: {
+            instanceId: string;
+            domain: string;
+            displayName: string;
+            status: string;
+            tier: string;
+            mediaEnabled: boolean;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        /**
+         * @default Free
+         * @enum {unknown}
+         */
+        InstanceTier: "Free" | "Basic" | "Pro" | "Enterprise";
+        /** @enum {unknown} */
+        InstanceTier2: "Free" | "Basic" | "Pro" | "Enterprise";
+        InvoiceSummary: {
+            id: string;
+            description: string | null;
+            /** Format: int64 */
+            amountCents: number;
+            currency: string;
+            status: string;
+            /** Format: date-time */
+            createdAt: string;
+            pdfUrl: string | null;
+        };
+        JwksKey: {
+            kty: string;
+            use: string;
+            alg: string;
+            kid: string;
+            n: string;
+            e: string;
+        };
+        JwksResponse: {
+            keys: components["schemas"]["JwksKey"][];
+        };
+        KeyRotationItem: {
+            id: string;
+            /** Format: int32 */
+            fromVersion: number;
+            /** Format: int32 */
+            toVersion: number;
+            status: string;
+            /** Format: int32 */
+            valuesToReEncrypt: number;
+            /** Format: int32 */
+            valuesReEncrypted: number;
+            error: string | null;
+            initiatedBy: string;
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            completedAt: string | null;
+        };
+        KeyStatusResponse: {
+            /** Format: int32 */
+            activeVersion: number;
+            /** Format: date-time */
+            activeVersionCreatedAt: string | null;
+            kekConfigured: boolean;
+            /** Format: int32 */
+            outdatedValueCount: number;
+            versions: components["schemas"]["DataKeyVersionItem"][];
+            usage: components["schemas"]["KeyUsageItem"][];
+            currentRotation: components["schemas"]["KeyRotationItem"] | null;
+            history: components["schemas"]["KeyRotationItem"][];
+        };
+        KeyUsageItem: {
+            location: string;
+            /** Format: int32 */
+            version: number;
+            /** Format: int32 */
+            valueCount: number;
+        };
+        ListAuditLogResponse: {
+            entries: components["schemas"]["AuditLogItem"][];
+            /** Format: int32 */
+            total: number;
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+            actions: string[];
+            targetTypes: string[];
+        };
+        ListBackupRecordsResponse: {
+            backups: components["schemas"]["BackupRecordItem"][];
+            /** Format: int32 */
+            total: number;
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+        };
+        ListBackupTemplatesResponse: {
+            templates: components["schemas"]["BackupTemplateItem"][];
+        };
+        ListInstancesResponse: {
+            instances: components["schemas"]["InstanceSummary"][];
+            /** @default null */
+            nextCursor: string | null;
+        };
+        ListInstancesResponse2: {
+            instances: components["schemas"]["InstancePreview"][];
+            /** Format: int32 */
+            totalCount: number;
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+        };
+        ListRestoresResponse: {
+            restores: components["schemas"]["RestoreOperationItem"][];
+        };
+        ListSupportTicketsResponse: {
+            tickets: components["schemas"]["SupportTicketItem"][];
+        };
+        ListUpgradesResponse: {
+            rollouts: components["schemas"]["UpgradeRolloutListItem"][];
+            /** Format: int32 */
+            total: number;
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+        };
+        ListVersionsResponse: {
+            versions: components["schemas"]["VersionListItem"][];
+        };
+        LoginApiResponse: {
+            userId: string;
+            username: string;
+            displayName: string;
+            email: string;
+            accessToken: string;
+        };
+        LoginRequest: {
+            email: string;
+            password: string;
+        };
+        LoginWith2FAApiResponse: {
+            userId: string;
+            username: string;
+            displayName: string;
+            email: string;
+            accessToken: string;
+        };
+        LoginWith2FARequest: {
+            email: string;
+            password: string;
+            code: string;
+        };
+        MailingListItem: {
+            id: string;
+            email: string;
+            tier: string;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        MinimumVersionComplianceResponse: {
+            minimum: components["schemas"]["MinimumVersionItem"] | null;
+            instances: components["schemas"]["NonCompliantInstanceItem"][];
+        };
+        MinimumVersionItem: {
+            versionId: string;
+            version: string;
+            image: string;
+            /** Format: date-time */
+            enforcementDate: string | null;
+        };
+        MonthlyRevenueLine: {
+            month: string;
+            /** Format: int32 */
+            amountCents: number;
+            /** Format: int32 */
+            platformFeeCents: number;
+            /** Format: int32 */
+            ownerPayoutCents: number;
+        };
+        NonCompliantInstanceItem: {
+            instanceId: string;
+            domain: string;
+            displayName: string;
+            status: string;
+            currentImage: string | null;
+            currentVersion: string | null;
+            batchUpgradesEnabled: boolean;
+            forceUpgraded: boolean;
+        };
+        PauseRolloutResponse: {
+            id: string;
+            status: string;
+        };
+        PlatformRevenueSummary: {
+            /** Format: int32 */
+            totalAmountCents: number;
+            /** Format: int32 */
+            totalPlatformFeeCents: number;
+            /** Format: int32 */
+            currentMonthAmountCents: number;
+            /** Format: int32 */
+            currentMonthPlatformFeeCents: number;
+            /** Format: int32 */
+            activeInstanceCount: number;
+            /** Format: date-time */
+            rangeStart: string;
+            /** Format: date-time */
+            rangeEnd: string;
+            /** Format: int32 */
+            rangeAmountCents: number;
+            /** Format: int32 */
+            rangePlatformFeeCents: number;
+            /** Format: int32 */
+            rangeOwnerPayoutCents: number;
+            months: components["schemas"]["MonthlyRevenueLine"][];
+            topInstances: components["schemas"]["InstanceRevenueLine"][];
+        };
+        PreviewRestoreResponse: {
+            /** Format: date-time */
+            pointInTime: string;
+            components: components["schemas"]["RestorePlanComponent"][];
+            canRestore: boolean;
+        };
+        PreviewUpgradeRequest: {
+            toImage: string;
+            fromImage: string | null;
+            targetPool: string | null;
+            force: boolean;
+            /** Format: int32 */
+            batchSize: number;
+            stages?: components["schemas"]["RolloutStageRequest"][] | null;
+        };
+        PreviewUpgradeResponse: {
+            toImage: string;
+            /** Format: int32 */
+            totalInstances: number;
+            /** Format: int32 */
+            batchSize: number;
+            batches: components["schemas"]["RolloutPreviewBatch"][];
+            skipped: components["schemas"]["RolloutPreviewSkipped"][];
+            /** Format: int32 */
+            estimatedSecondsPerBatch: number;
+            /** Format: int32 */
+            estimatedDurationSeconds: number;
+            /** Format: int32 */
+            estimateSampleSize: number;
+        };
+        ProvisionInstanceCommand: {
+            /** Format: int64 */
+            ownerId: number;
+            domain: string;
+            displayName: string;
+            adminPassword: string;
+            tier?: components["schemas"]["InstanceTier"];
+            /** @default false */
+            mediaEnabled: boolean;
+        };
+        ProvisionInstanceResponse: {
+            instanceId: string;
+            domain: string;
+            displayName: string;
+            adminPassword: string;
+        };
+        ProvisioningAttemptItem: {
+            phase: string;
+            status: string;
+            errorMessage: string | null;
+            /** Format: date-time */
+            startedAt: string | null;
+            /** Format: date-time */
+            completedAt: string | null;
+        };
+        ProvisioningStepItem: {
+            stepName: string;
+            status: string;
+            /** Format: int32 */
+            attempts: number;
+            /** Format: date-time */
+            startedAt: string | null;
+            /** Format: date-time */
+            completedAt: string | null;
+            /** Format: int64 */
+            durationMs: number | null;
+            errorMessage: string | null;
+            events: components["schemas"]["ProvisioningAttemptItem"][];
+        };
+        ProvisioningTimelineResponse: {
+            instanceId: string;
+            instanceStatus: string;
+            canRetry: boolean;
+            steps: components["schemas"]["ProvisioningStepItem"][];
+        };
+        PublishVersionRequest: {
+            version: string;
+            image: string;
+            releaseNotes: string | null;
+        };
+        PublishVersionResponse: {
+            id: string;
+            version: string;
+            image: string;
+            releaseNotes: string | null;
+            /** Format: date-time */
+            publishedAt: string;
+        };
+        RefreshTokenApiResponse: {
+            accessToken: string;
+        };
+        RegisterApiResponse: {
+            userId: string;
+            username: string;
+            displayName: string;
+            email: string;
+            accessToken: string;
+        };
+        RegisterCommand: {
+            bootstrapToken: string;
+        };
+        RegisterRequest: {
+            username: string;
+            displayName: string;
+            email: string;
+            password: string;
+            /** @default null */
+            captchaId: string | null;
+            /** @default null */
+            captchaAnswer: string | null;
+        };
+        RegisterResponse: {
+            instanceOAuthToken: string;
+            instanceId: string;
+            domain: string;
+        };
+        RegisterWithInstanceCommand: {
+            username: string;
+            displayName: string;
+            email: string;
+            password: string;
+            subdomain: string;
+            instanceDisplayName: string;
+            tier?: components["schemas"]["InstanceTier"];
+            /** @default false */
+            mediaEnabled: boolean;
+            /** @default null */
+            paymentMethodId: string | null;
+            /** @default null */
+            captchaId: string | null;
+            /** @default null */
+            captchaAnswer: string | null;
+        };
+        RegisterWithInstanceResponse: {
+            userId: string;
+            username: string;
+            accessToken: string;
+            instanceId: string;
+            domain: string;
+            instanceDisplayName: string;
+            status: string;
+        };
+        ReplyToSupportTicketRequest: {
+            body: string;
+        };
+        ResetPasswordRequest: {
+            token: string;
+            newPassword: string;
+        };
+        ResourceLimitField: {
+            key: string;
+            label: string;
+            group: string;
+            unit: string | null;
+            /** Format: int32 */
+            min: number;
+            /** Format: int32 */
+            max: number;
+            /** Format: int32 */
+            tierDefault: number;
+            /** Format: int32 */
+            value: number;
+        };
+        RestoreComponentItem: {
+            component: string;
+            backupId: string;
+        };
+        RestoreOperationItem: {
+            id: string;
+            instanceId: string;
+            status: string;
+            /** Format: date-time */
+            pointInTime: string;
+            components: components["schemas"]["RestoreComponentItem"][];
+            safetyBackup: boolean;
+            safetyBackupId: string | null;
+            error: string | null;
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            restoredAt: string | null;
+            /** Format: date-time */
+            completedAt: string | null;
+        };
+        RestorePlanComponent: {
+            component: string;
+            backupId: string | null;
+            backupKind: string | null;
+            /** Format: date-time */
+            backupCompletedAt: string | null;
+            problem: string | null;
+        };
+        RestoreRequest: {
+            backupId: string | null;
+            /** Format: date-time */
+            pointInTime: string | null;
+            components: string[] | null;
+            safetyBackup?: boolean;
+        };
+        ResumeRolloutResponse: {
+            id: string;
+            status: string;
+        };
+        RetryProvisioningResponse: {
+            instanceId: string;
+            stepName: string;
+        };
+        RevenueSummary: {
+            instanceId: string;
+            /** Format: int32 */
+            totalAmountCents: number;
+            /** Format: int32 */
+            totalPlatformFeeCents: number;
+            /** Format: int32 */
+            totalOwnerPayoutCents: number;
+            /** Format: int32 */
+            currentMonthAmountCents: number;
+            /** Format: int32 */
+            currentMonthPlatformFeeCents: number;
+            /** Format: int32 */
+            currentMonthOwnerPayoutCents: number;
+            stripeConnectedAccountId: string | null;
+            /** Format: int32 */
+            revenueSharePercent: number;
+        };
+        RollbackInstanceRequest: {
+            restoreBackup: boolean;
+        };
+        RollbackInstanceResponse: {
+            upgradeEventId: string;
+            targetImage: string;
+        };
+        RollbackRolloutRequest: {
+            restoreBackup: boolean;
+        };
+        RollbackRolloutResponse: {
+            id: string;
+            status: string;
+            /** Format: int32 */
+            instances: number;
+        };
+        RolloutHealthGateRequest: {
+            /** Format: int32 */
+            maxConsecutiveFailures: number;
+            /** Format: int32 */
+            maxResponseTimeMs: number | null;
+        };
+        RolloutPreviewBatch: {
+            /** Format: int32 */
+            number: number;
+            /** Format: int32 */
+            stage: number | null;
+            instances: components["schemas"]["RolloutPreviewInstance"][];
+        };
+        RolloutPreviewInstance: {
+            id: string;
+            domain: string;
+            displayName: string;
+            status: string;
+            currentImage: string | null;
+            pool: string;
+        };
+        RolloutPreviewSkipped: {
+            instance: components["schemas"]["RolloutPreviewInstance"];
+            reason: string;
+        };
+        RolloutStageItem: {
+            /** Format: int32 */
+            number: number;
+            /** Format: int32 */
+            instances: number | null;
+            /** Format: int32 */
+            percentage: number | null;
+            /** Format: int32 */
+            waitMinutes: number;
+        };
+        RolloutStageRequest: {
+            /** Format: int32 */
+            instances: number | null;
+            /** Format: int32 */
+            percentage: number | null;
+            /** Format: int32 */
+            waitMinutes: number;
+        };
+        RotateDataKeyResponse: {
+            /** Format: int32 */
+            newVersion: number;
+            rotationId: string;
+        };
+        SetMinimumVersionRequest: {
+            /** Format: date-time */
+            enforcementDate: string;
+        };
+        SetupRequest: {
+            username: string;
+            email: string;
+            password: string;
+        };
+        SetupStatusResponse: {
+            needsSetup: boolean;
+        };
+        StartUpgradeRequest: {
+            toImage: string;
+            fromImage: string | null;
+            targetPool: string | null;
+            force: boolean;
+            /** Format: int32 */
+            batchSize: number;
+            /** Format: int32 */
+            maxFailures: number;
+            /** Format: date-time */
+            scheduledAt: string | null;
+            stages?: components["schemas"]["RolloutStageRequest"][] | null;
+            healthGate?: components["schemas"]["RolloutHealthGateRequest"] | null;
+        };
+        StartUpgradeResponse: {
+            id: string;
+            toImage: string;
+            fromImage: string | null;
+            targetPool: string | null;
+            status: string;
+            /** Format: int32 */
+            batchSize: number;
+            /** Format: int32 */
+            maxFailures: number;
+            /** Format: date-time */
+            scheduledAt: string | null;
+            /** Format: date-time */
+            startedAt: string;
+        };
+        SubmitContactFormRequest: {
+            name: string;
+            email: string;
+            company: string;
+            /** Format: int32 */
+            expectedMemberCount: number | null;
+            message: string;
+        };
+        SubmitContactFormResponse: {
+            message: string;
+        };
+        SuccessResponse: {
+            success: boolean;
+        };
+        SupportAssignee: {
+            id: string;
+            displayName: string;
+        };
+        SupportTicketCounts: {
+            /** Format: int32 */
+            open: number;
+            /** Format: int32 */
+            pending: number;
+            /** Format: int32 */
+            closed: number;
+        };
+        SupportTicketDetail: {
+            ticket: components["schemas"]["SupportTicketItem"];
+            message: string;
+            company: string;
+            /** Format: int32 */
+            expectedMemberCount: number | null;
+            replies: components["schemas"]["SupportTicketReplyItem"][];
+        };
+        SupportTicketItem: {
+            id: string;
+            subject: string;
+            status: string;
+            name: string;
+            email: string;
+            submitterUsername: string | null;
+            instanceId: string | null;
+            instanceDomain: string | null;
+            assigneeId: string | null;
+            assigneeName: string | null;
+            /** Format: int32 */
+            replyCount: number;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
         };
-        CaptchaResponse: {
-            captchaId: string;
-            question: string;
+        SupportTicketReplyItem: {
+            id: string;
+            authorName: string;
+            isStaff: boolean;
+            body: string;
+            /** Format: date-time */
+            createdAt: string;
         };
-        ChangePasswordRequest: {
-            currentPassword: string;
-            newPassword: string;
+        SupportTicketReplyRequest: {
+            body: string;
+            status?: string | null;
         };
-        ChangePlanCommand: {
-            /** Format: int64 */
-            instanceId: number;
-            targetTier: components["schemas"]["InstanceTier2"];
-            /** @default false */
-            mediaEnabled: boolean;
+        TriggerBackupRequest: {
+            kind: string;
         };
-        ChangePlanResponse: {
-            tier: string;
+        UpdateAdminSystemConfigRequest: {
+            paidServersDisabled: boolean;
+            requireAdminTwoFactor: boolean;
             /** Format: int32 */
-            priceCents: number;
-            checkoutUrl: string | null;
-            requiresCheckout: boolean;
+            autoRollbackWindowMinutes: number;
         };
-        CheckSubdomainResponse: {
-            available: boolean;
-            reason: string | null;
+        UpdateBackupPolicyRequest: {
+            enabled: boolean;
+            frequency: string;
+            /** Format: int32 */
+            retentionDays: number;
+            backupDatabase: boolean;
+            backupFiles: boolean;
+            backupRedis: boolean;
+            /** Format: int32 */
+            verifySampleSize?: number;
+            databaseFrequency?: string | null;
         };
-        CreateInstanceCommand: {
-            subdomain: string;
-            displayName: string;
-            tier?: components["schemas"]["InstanceTier"];
-            /** @default false */
-            mediaEnabled: boolean;
-            /** @default null */
-            adminPassword: string | null;
-            /** @default null */
-            captchaId: string | null;
-            /** @default null */
-            captchaAnswer: string | null;
+        UpdateBatchPreferenceRequest: {
+            enabled: boolean;
         };
-        CreateInstanceResponse: {
+        UpdateBatchPreferenceResponse: {
+            batchUpgradesEnabled: boolean;
+        };
+        UpdateBatchUpgradesRequest: {
+            enabled: boolean;
+        };
+        UpdateBatchUpgradesResponse: {
+            batchUpgradesEnabled: boolean;
+        };
+        UpdateFeatureFlagsRequest: {
+            flags: {
+                [key: string]: boolean;
+            };
+        };
+        UpdateFeatureFlagsResponse: {
             instanceId: string;
-            domain: string;
+            message: string;
+        };
+        UpdateInstanceRequest: {
+            displayName: string | null;
+        };
+        UpdateProfileRequest: {
+            displayName: string | null;
+            email: string | null;
+        };
+        UpdateProfileResponse: {
             displayName: string;
+            email: string;
+        };
+        UpdateResourceLimitsRequest: {
+            limits: {
+                [key: string]: number;
+            };
+        };
+        UpdateResourceLimitsResponse: {
+            instanceId: string;
+            message: string;
+        };
+        UpgradeEventItem: {
+            id: string;
+            managedInstanceId: string;
+            instanceDomain: string;
             status: string;
-            adminPassword: string;
+            previousImage: string | null;
+            targetImage: string;
+            previousVersion: string | null;
+            newVersion: string | null;
+            errorMessage: string | null;
+            /** Format: date-time */
+            startedAt: string | null;
+            /** Format: date-time */
+            completedAt: string | null;
         };
-        CreateSetupIntentCommand: {
-            tier: string;
-            mediaEnabled: boolean;
+        UpgradeHistoryItem: {
+            id: string;
+            status: string;
+            previousVersion: string | null;
+            newVersion: string | null;
+            previousImage: string | null;
+            targetImage: string;
+            errorMessage: string | null;
+            /** Format: date-time */
+            startedAt: string | null;
+            /** Format: date-time */
+            completedAt: string | null;
+            rollbackOfId: string | null;
+            rollbackReason: string | null;
         };
-        CreateSetupIntentResponse: {
-            clientSecret: string;
+        UpgradeInstanceRequest: {
+            targetImage: string;
+        };
+        UpgradeInstanceResponse: {
+            accepted: boolean;
+        };
+        UpgradeRolloutListItem: {
+            id: string;
+            toImage: string;
+            fromImage: string | null;
+            targetPool: string | null;
+            status: string;
             /** Format: int32 */
-            priceCents: number;
+            totalInstances: number;
+            /** Format: int32 */
+            completedInstances: number;
+            /** Format: int32 */
+            failedInstances: number;
+            /** Format: int32 */
+            batchSize: number;
+            /** Format: int32 */
+            maxFailures: number;
+            /** Format: date-time */
+            scheduledAt: string | null;
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            completedAt: string | null;
+            /** Format: int32 */
+            stageCount: number;
+            /** Format: int32 */
+            currentStage: number | null;
+            /** Format: date-time */
+            stageGateAt: string | null;
+            pauseReason: string | null;
+        };
+        UptimeDayItem: {
+            /** Format: date */
+            date: string;
+            /** Format: double */
+            monitoredMinutes: number;
+            /** Format: double */
+            downtimeMinutes: number;
+            /** Format: double */
+            availabilityPercentage: number | null;
+        };
+        UptimeIntervalDto: {
+            intervalId: string;
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            endedAt: string | null;
+            /** Format: double */
+            durationMinutes: number;
+            isOpen: boolean;
+        };
+        UptimeOutageItem: {
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            endedAt: string | null;
+            /** Format: double */
+            durationMinutes: number;
+            isOngoing: boolean;
+        };
+        Verify2FARequest: {
+            code: string;
+        };
+        VersionListItem: {
+            id: string;
+            version: string;
+            image: string;
+            releaseNotes: string | null;
+            isMinimumVersion: boolean;
+            /** Format: date-time */
+            minimumEnforcementDate: string | null;
+            /** Format: date-time */
+            publishedAt: string;
+        };
+    };
+    responses: never;
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+    CancelUpgrade: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CancelUpgradeResponse"];
+                };
+            };
+        };
+    };
+    GetUpgradeStatus: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetUpgradeStatusResponse"];
+                };
+            };
+        };
+    };
+    ListUpgrades: {
+        parameters: {
+            query?: {
+                page?: number;
+                pageSize?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        DeleteAccountRequest: {
-            password: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ListUpgradesResponse"];
+                };
+            };
         };
-        Disable2FARequest: {
-            password: string;
+    };
+    StartUpgrade: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        Enable2FAResponse: {
-            secret: string;
-            qrCodeUrl: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["StartUpgradeRequest"];
+            };
         };
-        FederationUpgradeRequest: {
-            targetVersion: string;
+        responses: {
+            /** @description Accepted */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["StartUpgradeResponse"];
+                };
+            };
         };
-        FederationUpgradeResponse: {
-            accepted: boolean;
-            targetImage: string;
+    };
+    ListVersions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        FederationVersionItem: {
-            id: string;
-            version: string;
-            image: string;
-            releaseNotes: string | null;
-            isMinimumVersion: boolean;
-            /** Format: date-time */
-            minimumEnforcementDate: string | null;
-            /** Format: date-time */
-            publishedAt: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ListVersionsResponse"];
+                };
+            };
         };
-        ForgotPasswordRequest: {
-            email: string;
+    };
+    PublishVersion: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        GetAvailableVersionsResponse: {
-            versions: components["schemas"]["AvailableVersionDto"][];
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PublishVersionRequest"];
+            };
         };
-        GetBillingResponse: {
-            instances: components["schemas"]["InstanceBillingItem"][];
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PublishVersionResponse"];
+                };
+            };
         };
-        GetFeaturesResponse: {
-            paymentsEnabled: boolean;
-            stripePublishableKey: string | null;
-            paidServersDisabled: boolean;
+    };
+    PauseRollout: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
         };
-        GetFederationVersionsResponse: {
-            versions: components["schemas"]["FederationVersionItem"][];
-            currentVersion: string | null;
-            batchUpgradesEnabled: boolean;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PauseRolloutResponse"];
+                };
+            };
         };
-        GetInstanceResponse: {
-            id: string;
-            subdomain: string;
-            displayName: string;
-            domain: string;
-            status: string;
-            tier: string;
-            mediaEnabled: boolean;
-            /** Format: date-time */
-            createdAt: string;
+    };
+    ResumeRollout: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
         };
-        GetInstanceResponse2: {
-            id: string;
-            name: string;
-            description: string;
-            iconUrl: string;
-            domain: string;
-            /** Format: int32 */
-            memberCount: number;
-            /** Format: int32 */
-            onlineCount: number;
-            /** Format: date-time */
-            createdAt: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ResumeRolloutResponse"];
+                };
+            };
         };
-        GetInstanceUsageResponse: {
-            instanceId: string;
-            domain: string;
-            tier: string;
-            isMeteredBilling: boolean;
-            /** Format: double */
-            totalUptimeMinutes: number;
-            /** Format: double */
-            totalUptimeHours: number;
-            /** Format: int32 */
-            uptimePercentage: number;
-            /** Format: int64 */
-            estimatedCostCents: number;
-            intervals: components["schemas"]["UptimeIntervalDto"][];
+    };
+    AdminListInstances: {
+        parameters: {
+            query: {
+                page: number;
+                pageSize: number;
+                status?: string;
+                search?: string;
+                tier?: string;
+                mediaEnabled?: boolean;
+                version?: string;
+                health?: string;
+                createdFrom?: string;
+                createdTo?: string;
+                sortBy?: string;
+                sortDir?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        GetInvoicesResponse: {
-            invoices: components["schemas"]["InvoiceSummary"][];
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AdminListInstancesResponse"];
+                };
+            };
         };
-        GetMeResponse: {
-            userId: string;
-            username: string;
-            displayName: string;
-            email: string;
+    };
+    ProvisionInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        GetUpgradeHistoryResponse: {
-            events: components["schemas"]["UpgradeHistoryItem"][];
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ProvisionInstanceCommand"];
+            };
         };
-        GetUpgradeStatusResponse: {
-            id: string;
-            toImage: string;
-            fromImage: string | null;
-            targetPool: string | null;
-            status: string;
-            /** Format: int32 */
-            totalInstances: number;
-            /** Format: int32 */
-            completedInstances: number;
-            /** Format: int32 */
-            failedInstances: number;
-            /** Format: date-time */
-            startedAt: string;
-            /** Format: date-time */
-            completedAt: string | null;
-            events: components["schemas"]["UpgradeEventItem"][];
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ProvisionInstanceResponse"];
+                };
+            };
         };
-        InstanceBillingItem: {
-            instanceId: string;
-            domain: string;
-            displayName: string;
-            tier: string;
-            mediaEnabled: boolean;
-            /** Format: int32 */
-            priceCents: number;
-            billingStatus: string;
+    };
+    AddMailingListEntry: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        InstanceHealthDto: {
-            id: string;
-            domain: string;
-            status: string;
-            isHealthy: boolean;
-            /** Format: int32 */
-            consecutiveFailures: number;
-            /** Format: int32 */
-            responseTimeMs: number | null;
-            errorMessage: string | null;
-            /** Format: date-time */
-            lastCheckAt: string | null;
-            version: string | null;
-            deployedImage: string | null;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AddMailingListEntryRequest"];
+            };
         };
-        InstancePreview: {
-            id: string;
-            name: string;
-            description: string;
-            iconUrl: string;
-            domain: string;
-            /** Format: int32 */
-            memberCount: number;
-            /** Format: int32 */
-            onlineCount: number;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AddMailingListEntryResponse"];
+                };
+            };
         };
-        InstanceRevenueLine: {
-            instanceId: string;
-            domain: string;
-            displayName: string;
-            /** Format: int32 */
-            amountCents: number;
-            /** Format: int32 */
-            platformFeeCents: number;
+    };
+    CheckSubdomain: {
+        parameters: {
+            query: {
+                subdomain: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        InstanceSummary: {
-            instanceId: string;
-            domain: string;
-            displayName: string;
-            status: string;
-            tier: string;
-            mediaEnabled: boolean;
-            /** Format: date-time */
-            createdAt: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CheckSubdomainResponse"];
+                };
+            };
         };
-        /**
-         * @default Free
-         * @enum {unknown}
-         */
-        InstanceTier: "Free" | "Basic" | "Pro" | "Enterprise";
-        /** @enum {unknown} */
-        InstanceTier2: "Free" | "Basic" | "Pro" | "Enterprise";
-        InvoiceSummary: {
-            id: string;
-            description: string | null;
-            /** Format: int64 */
-            amountCents: number;
-            currency: string;
-            status: string;
-            /** Format: date-time */
-            createdAt: string;
-            pdfUrl: string | null;
+    };
+    ListInstances: {
+        parameters: {
+            query?: {
+                limit?: number;
+                cursor?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        JwksKey: {
-            kty: string;
-            use: string;
-            alg: string;
-            kid: string;
-            n: string;
-            e: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ListInstancesResponse"];
+                };
+            };
         };
-        JwksResponse: {
-            keys: components["schemas"]["JwksKey"][];
+    };
+    CreateInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        ListBackupRecordsResponse: {
-            backups: components["schemas"]["BackupRecordItem"][];
-            /** Format: int32 */
-            total: number;
-            /** Format: int32 */
-            page: number;
-            /** Format: int32 */
-            pageSize: number;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateInstanceCommand"];
+            };
         };
-        ListInstancesResponse: {
-            instances: components["schemas"]["InstanceSummary"][];
-            /** @default null */
-            nextCursor: string | null;
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CreateInstanceResponse"];
+                };
+            };
         };
-        ListInstancesResponse2: {
-            instances: components["schemas"]["InstancePreview"][];
-            /** Format: int32 */
-            totalCount: number;
-            /** Format: int32 */
-            page: number;
-            /** Format: int32 */
-            pageSize: number;
+    };
+    DestroyInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        ListUpgradesResponse: {
-            rollouts: components["schemas"]["UpgradeRolloutListItem"][];
-            /** Format: int32 */
-            total: number;
-            /** Format: int32 */
-            page: number;
-            /** Format: int32 */
-            pageSize: number;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"];
+                };
+            };
         };
-        ListVersionsResponse: {
-            versions: components["schemas"]["VersionListItem"][];
+    };
+    GetAvailableVersions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        LoginApiResponse: {
-            userId: string;
-            username: string;
-            displayName: string;
-            email: string;
-            accessToken: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetAvailableVersionsResponse"];
+                };
+            };
         };
-        LoginRequest: {
-            email: string;
-            password: string;
+    };
+    GetInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetInstanceResponse"];
+                };
+            };
         };
-        LoginWith2FAApiResponse: {
-            userId: string;
-            username: string;
-            displayName: string;
-            email: string;
-            accessToken: string;
+    };
+    UpdateInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        LoginWith2FARequest: {
-            email: string;
-            password: string;
-            code: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateInstanceRequest"];
+            };
         };
-        MailingListItem: {
-            id: string;
-            email: string;
-            tier: string;
-            /** Format: date-time */
-            createdAt: string;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetInstanceResponse"];
+                };
+            };
         };
-        PauseRolloutResponse: {
-            id: string;
-            status: string;
+    };
+    ResumeInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        PlatformRevenueSummary: {
-            /** Format: int32 */
-            totalAmountCents: number;
-            /** Format: int32 */
-            totalPlatformFeeCents: number;
-            /** Format: int32 */
-            currentMonthAmountCents: number;
-            /** Format: int32 */
-            currentMonthPlatformFeeCents: number;
-            /** Format: int32 */
-            activeInstanceCount: number;
-            topInstances: components["schemas"]["InstanceRevenueLine"][];
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"];
+                };
+            };
         };
-        ProvisionInstanceCommand: {
-            /** Format: int64 */
-            ownerId: number;
-            domain: string;
-            displayName: string;
-            adminPassword: string;
-            tier?: components["schemas"]["InstanceTier"];
-            /** @default false */
-            mediaEnabled: boolean;
+    };
+    SuspendInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        ProvisionInstanceResponse: {
-            instanceId: string;
-            domain: string;
-            displayName: string;
-            adminPassword: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"];
+                };
+            };
         };
-        PublishVersionRequest: {
-            version: string;
-            image: string;
-            /** @default null */
-            releaseNotes: string | null;
-            /** @default 0 */
-            publishedBy: unknown;
+    };
+    UpdateBatchUpgrades: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        PublishVersionResponse: {
-            id: string;
-            version: string;
-            image: string;
-            releaseNotes: string | null;
-            /** Format: date-time */
-            publishedAt: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateBatchUpgradesRequest"];
+            };
         };
-        RefreshTokenApiResponse: {
-            accessToken: string;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdateBatchUpgradesResponse"];
+                };
+            };
         };
-        RegisterApiResponse: {
-            userId: string;
-            username: string;
-            displayName: string;
-            email: string;
-            accessToken: string;
+    };
+    UpdateFeatureFlags: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
         };
-        RegisterCommand: {
-            bootstrapToken: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateFeatureFlagsRequest"];
+            };
         };
-        RegisterRequest: {
-            username: string;
-            displayName: string;
-            email: string;
-            password: string;
-            /** @default null */
-            captchaId: string | null;
-            /** @default null */
-            captchaAnswer: string | null;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdateFeatureFlagsResponse"];
+                };
+            };
         };
-        RegisterResponse: {
-            instanceOAuthToken: string;
-            instanceId: string;
-            domain: string;
+    };
+    UpdateResourceLimits: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+            };
+            cookie?: never;
         };
-        RegisterWithInstanceCommand: {
-            username: string;
-            displayName: string;
-            email: string;
-            password: string;
-            subdomain: string;
-            instanceDisplayName: string;
-            tier?: components["schemas"]["InstanceTier"];
-            /** @default false */
-            mediaEnabled: boolean;
-            /** @default null */
-            paymentMethodId: string | null;
-            /** @default null */
-            captchaId: string | null;
-            /** @default null */
-            captchaAnswer: string | null;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateResourceLimitsRequest"];
+            };
         };
-        RegisterWithInstanceResponse: {
-            userId: string;
-            username: string;
-            accessToken: string;
-            instanceId: string;
-            domain: string;
-            instanceDisplayName: string;
-            status: string;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdateResourceLimitsResponse"];
+                };
+            };
         };
-        ResetPasswordRequest: {
-            token: string;
-            newPassword: string;
+    };
+    UpgradeInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        ResumeRolloutResponse: {
-            id: string;
-            status: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpgradeInstanceRequest"];
+            };
         };
-        RevenueSummary: {
-            instanceId: string;
-            /** Format: int32 */
-            totalAmountCents: number;
-            /** Format: int32 */
-            totalPlatformFeeCents: number;
-            /** Format: int32 */
-            totalOwnerPayoutCents: number;
-            /** Format: int32 */
-            currentMonthAmountCents: number;
-            /** Format: int32 */
-            currentMonthPlatformFeeCents: number;
-            /** Format: int32 */
-            currentMonthOwnerPayoutCents: number;
-            stripeConnectedAccountId: string | null;
-            /** Format: int32 */
-            revenueSharePercent: number;
+        responses: {
+            /** @description Accepted */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpgradeInstanceResponse"];
+                };
+            };
         };
-        RotateDataKeyResponse: {
-            /** Format: int32 */
-            newVersion: number;
+    };
+    GetHeader: {
+        parameters: {
+            query?: {
+                serverUrl?: string;
+                hubKey?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        SetupRequest: {
-            username: string;
-            email: string;
-            password: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
         };
-        SetupStatusResponse: {
-            needsSetup: boolean;
+    };
+    GetFederationVersions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        StartUpgradeCommand: {
-            toImage: string;
-            /** @default null */
-            fromImage: string | null;
-            /** @default null */
-            targetPool: string | null;
-            /** @default false */
-            force: boolean;
-            /**
-             * Format: int32
-             * @default 5
-             */
-            batchSize: number;
-            /**
-             * Format: int32
-             * @default 1
-             */
-            maxFailures: number;
-            /**
-             * Format: date-time
-             * @default null
-             */
-            scheduledAt: string | null;
-            /** @default 0 */
-            initiatedBy: unknown;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetFederationVersionsResponse"];
+                };
+            };
         };
-        StartUpgradeResponse: {
-            id: string;
-            toImage: string;
-            fromImage: string | null;
-            targetPool: string | null;
-            status: string;
-            /** Format: int32 */
-            batchSize: number;
-            /** Format: int32 */
-            maxFailures: number;
-            /** Format: date-time */
-            scheduledAt: string | null;
-            /** Format: date-time */
-            startedAt: string;
+    };
+    GetUpgradeHistory: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        SubmitContactFormRequest: {
-            name: string;
-            email: string;
-            company: string;
-            /** Format: int32 */
-            expectedMemberCount: number | null;
-            message: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetUpgradeHistoryResponse"];
+                };
+            };
         };
-        SubmitContactFormResponse: {
-            message: string;
+    };
+    FederationRegister: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        SuccessResponse: {
-            success: boolean;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RegisterCommand"];
+            };
         };
-        TriggerBackupRequest: {
-            kind: string;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RegisterResponse"];
+                };
+            };
         };
-        TriggerRestoreResponse: {
-            message: string;
-            backupId: string;
-            instanceId: string;
+    };
+    FederationRequestUpgrade: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        UpdateAdminSystemConfigRequest: {
-            paidServersDisabled: boolean;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["FederationUpgradeRequest"];
+            };
         };
-        UpdateBackupPolicyRequest: {
-            enabled: boolean;
-            frequency: string;
-            /** Format: int32 */
-            retentionDays: number;
-            backupDatabase: boolean;
-            backupFiles: boolean;
-            backupRedis: boolean;
+        responses: {
+            /** @description Accepted */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["FederationUpgradeResponse"];
+                };
+            };
         };
-        UpdateBatchPreferenceRequest: {
-            enabled: boolean;
+    };
+    UpdateBatchPreference: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        UpdateBatchPreferenceResponse: {
-            batchUpgradesEnabled: boolean;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateBatchPreferenceRequest"];
+            };
         };
-        UpdateBatchUpgradesRequest: {
-            enabled: boolean;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["UpdateBatchPreferenceResponse"];
+                };
+            };
         };
-        UpdateBatchUpgradesResponse: {
-            batchUpgradesEnabled: boolean;
+    };
+    DiscoveryGetInstance: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        UpdateFeatureFlagsRequest: {
-            canCreateBots: boolean;
-            canUseWebhooks: boolean;
-            canUseCustomEmoji: boolean;
-            canUseThreads: boolean;
-            canUseVoiceChannels: boolean;
-            canUseVideoChannels: boolean;
-            canUseForumChannels: boolean;
-            canUseScheduledEvents: boolean;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetInstanceResponse2"];
+                };
+            };
         };
-        UpdateFeatureFlagsResponse: {
-            instanceId: string;
-            message: string;
+    };
+    DiscoveryListInstances: {
+        parameters: {
+            query: {
+                search?: string;
+                sortBy?: string;
+                page: number;
+                pageSize: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        UpdateInstanceRequest: {
-            displayName: string | null;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ListInstancesResponse2"];
+                };
+            };
         };
-        UpdateProfileRequest: {
-            displayName: string | null;
-            email: string | null;
+    };
+    SubmitContactForm: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        UpdateProfileResponse: {
-            displayName: string;
-            email: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SubmitContactFormRequest"];
+            };
         };
-        UpdateResourceLimitsRequest: {
-            /** Format: int32 */
-            maxUsers: number;
-            /** Format: int32 */
-            maxServers: number;
-            /** Format: int32 */
-            maxStorageMb: number;
-            /** Format: int32 */
-            maxCpuPercent: number;
-            /** Format: int32 */
-            maxMemoryMb: number;
-            /** Format: int32 */
-            maxRateLimit: number;
-            /**
-             * Format: int32
-             * @default 0
-             */
-            maxVoiceConcurrency: number;
-            /**
-             * Format: int32
-             * @default 0
-             */
-            maxVideoConcurrency: number;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SubmitContactFormResponse"];
+                };
+            };
         };
-        UpdateResourceLimitsResponse: {
-            instanceId: string;
-            message: string;
+    };
+    GetFeatures: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        UpgradeEventItem: {
-            id: string;
-            managedInstanceId: string;
-            status: string;
-            previousImage: string | null;
-            targetImage: string;
-            previousVersion: string | null;
-            newVersion: string | null;
-            errorMessage: string | null;
-            /** Format: date-time */
-            startedAt: string | null;
-            /** Format: date-time */
-            completedAt: string | null;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetFeaturesResponse"];
+                };
+            };
         };
-        UpgradeHistoryItem: {
-            id: string;
-            status: string;
-            previousVersion: string | null;
-            newVersion: string | null;
-            previousImage: string | null;
-            targetImage: string;
-            errorMessage: string | null;
-            /** Format: date-time */
-            startedAt: string | null;
-            /** Format: date-time */
-            completedAt: string | null;
+    };
+    CancelInstanceBilling: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
         };
-        UpgradeInstanceRequest: {
-            targetImage: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CancelInstanceBillingResponse"];
+                };
+            };
         };
-        UpgradeInstanceResponse: {
-            accepted: boolean;
+    };
+    CreateSetupIntent: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        UpgradeRolloutListItem: {
-            id: string;
-            toImage: string;
-            fromImage: string | null;
-            targetPool: string | null;
-            status: string;
-            /** Format: int32 */
-            totalInstances: number;
-            /** Format: int32 */
-            completedInstances: number;
-            /** Format: date-time */
-            startedAt: string;
-            /** Format: date-time */
-            completedAt: string | null;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["CreateSetupIntentCommand"];
+            };
         };
-        UptimeIntervalDto: {
-            intervalId: string;
-            /** Format: date-time */
-            startedAt: string;
-            /** Format: date-time */
-            endedAt: string | null;
-            /** Format: double */
-            durationMinutes: number;
-            isOpen: boolean;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CreateSetupIntentResponse"];
+                };
+            };
         };
-        Verify2FARequest: {
-            code: string;
+    };
+    GetBilling: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        VersionListItem: {
-            id: string;
-            version: string;
-            image: string;
-            releaseNotes: string | null;
-            isMinimumVersion: boolean;
-            /** Format: date-time */
-            minimumEnforcementDate: string | null;
-            /** Format: date-time */
-            publishedAt: string;
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GetBillingResponse"];
+                };
+            };
         };
     };
-    responses: never;
-    parameters: never;
-    requestBodies: never;
-    headers: never;
-    pathItems: never;
-}
-export type $defs = Record<string, never>;
-export interface operations {
-    CancelUpgrade: {
+    GetInstanceRevenue: {
         parameters: {
             query?: never;
             header?: never;
             path: {
-                id: number;
+                instanceId: number;
             };
             cookie?: never;
         };
@@ -1964,12 +3994,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["CancelUpgradeResponse"];
+                    "application/json": components["schemas"]["RevenueSummary"];
                 };
             };
         };
     };
-    GetUpgradeStatus: {
+    GetInstanceUsage: {
         parameters: {
             query?: never;
             header?: never;
@@ -1986,16 +4016,15 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetUpgradeStatusResponse"];
+                    "application/json": components["schemas"]["GetInstanceUsageResponse"];
                 };
             };
         };
     };
-    ListUpgrades: {
+    GetInvoices: {
         parameters: {
             query?: {
-                page?: number;
-                pageSize?: number;
+                limit?: number;
             };
             header?: never;
             path?: never;
@@ -2009,40 +4038,90 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ListUpgradesResponse"];
+                    "application/json": components["schemas"]["GetInvoicesResponse"];
                 };
             };
         };
     };
-    StartUpgrade: {
+    GetPlatformRevenue: {
         parameters: {
-            query?: never;
+            query?: {
+                from?: string;
+                to?: string;
+            };
             header?: never;
             path?: never;
             cookie?: never;
         };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PlatformRevenueSummary"];
+                };
+            };
+        };
+    };
+    ChangePlan: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
+            };
+            cookie?: never;
+        };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["StartUpgradeCommand"];
+                "application/json": components["schemas"]["ChangePlanRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ChangePlanResponse"];
+                };
+            };
+        };
+    };
+    AdminDeleteBackup: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: number;
+                backupId: number;
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
-            /** @description Accepted */
-            202: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["StartUpgradeResponse"];
+                    "application/json": components["schemas"]["SuccessResponse"];
                 };
             };
         };
     };
-    ListVersions: {
+    AdminGetBackupPolicy: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -2053,38 +4132,43 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ListVersionsResponse"];
+                    "application/json": components["schemas"]["BackupPolicyResponse"];
                 };
             };
         };
     };
-    PublishVersion: {
+    AdminUpdateBackupPolicy: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["PublishVersionRequest"];
+                "application/json": components["schemas"]["UpdateBackupPolicyRequest"];
             };
         };
         responses: {
-            /** @description Created */
-            201: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PublishVersionResponse"];
+                    "application/json": components["schemas"]["BackupPolicyResponse"];
                 };
             };
         };
     };
-    PauseRollout: {
+    AdminListBackupRecords: {
         parameters: {
-            query?: never;
+            query: {
+                page: number;
+                pageSize: number;
+            };
             header?: never;
             path: {
                 id: number;
@@ -2099,12 +4183,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PauseRolloutResponse"];
+                    "application/json": components["schemas"]["ListBackupRecordsResponse"];
                 };
             };
         };
     };
-    ResumeRollout: {
+    AdminTriggerBackup: {
         parameters: {
             query?: never;
             header?: never;
@@ -2113,26 +4197,26 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["TriggerBackupRequest"];
+            };
+        };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description Created */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ResumeRolloutResponse"];
+                    "application/json": components["schemas"]["BackupRecordItem"];
                 };
             };
         };
     };
-    AdminListInstances: {
+    GetCaptcha: {
         parameters: {
-            query: {
-                page: number;
-                pageSize: number;
-                status?: string;
-            };
+            query?: never;
             header?: never;
             path?: never;
             cookie?: never;
@@ -2145,12 +4229,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AdminListInstancesResponse"];
+                    "application/json": components["schemas"]["CaptchaResponse"];
                 };
             };
         };
     };
-    ProvisionInstance: {
+    ChangePassword: {
         parameters: {
             query?: never;
             header?: never;
@@ -2159,22 +4243,20 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["ProvisionInstanceCommand"];
+                "application/json": components["schemas"]["ChangePasswordRequest"];
             };
         };
         responses: {
-            /** @description Created */
-            201: {
+            /** @description No Content */
+            204: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content: {
-                    "application/json": components["schemas"]["ProvisionInstanceResponse"];
-                };
+                content?: never;
             };
         };
     };
-    AddMailingListEntry: {
+    DeleteAccount: {
         parameters: {
             query?: never;
             header?: never;
@@ -2183,7 +4265,7 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["AddMailingListEntryRequest"];
+                "application/json": components["schemas"]["DeleteAccountRequest"];
             };
         };
         responses: {
@@ -2193,39 +4275,36 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AddMailingListEntryResponse"];
+                    "application/json": components["schemas"]["SuccessResponse"];
                 };
             };
         };
     };
-    CheckSubdomain: {
+    Disable2FA: {
         parameters: {
-            query: {
-                subdomain: string;
-            };
+            query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["Disable2FARequest"];
+            };
+        };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description No Content */
+            204: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content: {
-                    "application/json": components["schemas"]["CheckSubdomainResponse"];
-                };
+                content?: never;
             };
         };
     };
-    ListInstances: {
+    Enable2FA: {
         parameters: {
-            query?: {
-                limit?: number;
-                cursor?: string;
-            };
+            query?: never;
             header?: never;
             path?: never;
             cookie?: never;
@@ -2238,12 +4317,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ListInstancesResponse"];
+                    "application/json": components["schemas"]["Enable2FAResponse"];
                 };
             };
         };
     };
-    CreateInstance: {
+    ForgotPassword: {
         parameters: {
             query?: never;
             header?: never;
@@ -2252,28 +4331,24 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["CreateInstanceCommand"];
+                "application/json": components["schemas"]["ForgotPasswordRequest"];
             };
         };
         responses: {
-            /** @description Created */
-            201: {
+            /** @description No Content */
+            204: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content: {
-                    "application/json": components["schemas"]["CreateInstanceResponse"];
-                };
+                content?: never;
             };
         };
     };
-    DestroyInstance: {
+    GetMe: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody?: never;
@@ -2284,18 +4359,16 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["SuccessResponse"];
+                    "application/json": components["schemas"]["GetMeResponse"];
                 };
             };
         };
     };
-    GetAvailableVersions: {
+    Jwks: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody?: never;
@@ -2306,21 +4379,23 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetAvailableVersionsResponse"];
+                    "application/json": components["schemas"]["JwksResponse"];
                 };
             };
         };
     };
-    GetInstance: {
+    Login: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LoginRequest"];
+            };
+        };
         responses: {
             /** @description OK */
             200: {
@@ -2328,23 +4403,21 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetInstanceResponse"];
+                    "application/json": components["schemas"]["LoginApiResponse"];
                 };
             };
         };
     };
-    UpdateInstance: {
+    LoginWith2FA: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["UpdateInstanceRequest"];
+                "application/json": components["schemas"]["LoginWith2FARequest"];
             };
         };
         responses: {
@@ -2354,18 +4427,16 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetInstanceResponse"];
+                    "application/json": components["schemas"]["LoginWith2FAApiResponse"];
                 };
             };
         };
     };
-    ResumeInstance: {
+    Logout: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody?: never;
@@ -2381,13 +4452,11 @@ export interface operations {
             };
         };
     };
-    SuspendInstance: {
+    RefreshToken: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody?: never;
@@ -2398,23 +4467,21 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["SuccessResponse"];
+                    "application/json": components["schemas"]["RefreshTokenApiResponse"];
                 };
             };
         };
     };
-    UpdateBatchUpgrades: {
+    Register: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["UpdateBatchUpgradesRequest"];
+                "application/json": components["schemas"]["RegisterRequest"];
             };
         };
         responses: {
@@ -2424,49 +4491,67 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["UpdateBatchUpgradesResponse"];
+                    "application/json": components["schemas"]["RegisterApiResponse"];
                 };
             };
         };
     };
-    UpdateFeatureFlags: {
+    RegisterWithInstance: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                id: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["UpdateFeatureFlagsRequest"];
+                "application/json": components["schemas"]["RegisterWithInstanceCommand"];
             };
         };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description Created */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["UpdateFeatureFlagsResponse"];
+                    "application/json": components["schemas"]["RegisterWithInstanceResponse"];
                 };
             };
         };
     };
-    UpdateResourceLimits: {
+    ResetPassword: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                id: number;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ResetPasswordRequest"];
+            };
+        };
+        responses: {
+            /** @description No Content */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
             };
+        };
+    };
+    Setup: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["UpdateResourceLimitsRequest"];
+                "application/json": components["schemas"]["SetupRequest"];
             };
         };
         responses: {
@@ -2476,51 +4561,70 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["UpdateResourceLimitsResponse"];
+                    "application/json": components["schemas"]["LoginApiResponse"];
                 };
             };
         };
     };
-    UpgradeInstance: {
+    SetupStatus: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SetupStatusResponse"];
+                };
             };
+        };
+    };
+    UpdateProfile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["UpgradeInstanceRequest"];
+                "application/json": components["schemas"]["UpdateProfileRequest"];
             };
         };
         responses: {
-            /** @description Accepted */
-            202: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["UpgradeInstanceResponse"];
+                    "application/json": components["schemas"]["UpdateProfileResponse"];
                 };
             };
         };
     };
-    GetHeader: {
+    Verify2FA: {
         parameters: {
-            query?: {
-                serverUrl?: string;
-                hubKey?: string;
-            };
+            query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["Verify2FARequest"];
+            };
+        };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description No Content */
+            204: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2528,11 +4632,13 @@ export interface operations {
             };
         };
     };
-    GetFederationVersions: {
+    AdminGetInstance: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -2543,16 +4649,18 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetFederationVersionsResponse"];
+                    "application/json": components["schemas"]["AdminGetInstanceResponse"];
                 };
             };
         };
     };
-    GetUpgradeHistory: {
+    AdminDestroyInstance: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -2563,23 +4671,23 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetUpgradeHistoryResponse"];
+                    "application/json": components["schemas"]["SuccessResponse"];
                 };
             };
         };
     };
-    FederationRegister: {
+    AdminListMailingList: {
         parameters: {
-            query?: never;
+            query: {
+                page: number;
+                pageSize: number;
+                tier?: string;
+            };
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["RegisterCommand"];
-            };
-        };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -2587,36 +4695,32 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RegisterResponse"];
+                    "application/json": components["schemas"]["AdminListMailingListResponse"];
                 };
             };
         };
     };
-    FederationRequestUpgrade: {
+    AdminGetSystemConfig: {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["FederationUpgradeRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
-            /** @description Accepted */
-            202: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["FederationUpgradeResponse"];
+                    "application/json": components["schemas"]["AdminSystemConfigResponse"];
                 };
             };
         };
     };
-    UpdateBatchPreference: {
+    AdminUpdateSystemConfig: {
         parameters: {
             query?: never;
             header?: never;
@@ -2625,7 +4729,7 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["UpdateBatchPreferenceRequest"];
+                "application/json": components["schemas"]["UpdateAdminSystemConfigRequest"];
             };
         };
         responses: {
@@ -2635,18 +4739,16 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["UpdateBatchPreferenceResponse"];
+                    "application/json": components["schemas"]["AdminSystemConfigResponse"];
                 };
             };
         };
     };
-    DiscoveryGetInstance: {
+    GetAggregatedHealth: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody?: never;
@@ -2657,19 +4759,14 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetInstanceResponse2"];
+                    "application/json": components["schemas"]["AggregatedHealthResponse"];
                 };
             };
         };
     };
-    DiscoveryListInstances: {
+    RotateDataKey: {
         parameters: {
-            query: {
-                search?: string;
-                sortBy?: string;
-                page: number;
-                pageSize: number;
-            };
+            query?: never;
             header?: never;
             path?: never;
             cookie?: never;
@@ -2682,40 +4779,36 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ListInstancesResponse2"];
+                    "application/json": components["schemas"]["RotateDataKeyResponse"];
                 };
             };
         };
     };
-    SubmitContactForm: {
+    StripeWebhook: {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["SubmitContactFormRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content: {
-                    "application/json": components["schemas"]["SubmitContactFormResponse"];
-                };
+                content?: never;
             };
         };
     };
-    GetFeatures: {
+    AdminSuspendInstance: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -2726,17 +4819,17 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetFeaturesResponse"];
+                    "application/json": components["schemas"]["SuccessResponse"];
                 };
             };
         };
     };
-    CancelInstanceBilling: {
+    AdminResumeInstance: {
         parameters: {
             query?: never;
             header?: never;
             path: {
-                instanceId: number;
+                id: number;
             };
             cookie?: never;
         };
@@ -2748,23 +4841,25 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["CancelInstanceBillingResponse"];
+                    "application/json": components["schemas"]["SuccessResponse"];
                 };
             };
         };
     };
-    CreateSetupIntent: {
+    AdminGetInstanceLogs: {
         parameters: {
-            query?: never;
+            query?: {
+                tail?: number;
+                since?: string;
+                until?: string;
+            };
             header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["CreateSetupIntentCommand"];
+            path: {
+                id: number;
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -2772,16 +4867,18 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["CreateSetupIntentResponse"];
+                    "application/json": components["schemas"]["AdminGetInstanceLogsResponse"];
                 };
             };
         };
     };
-    GetBilling: {
+    AdminGetInstanceConfig: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -2792,18 +4889,16 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetBillingResponse"];
+                    "application/json": components["schemas"]["AdminInstanceConfigResponse"];
                 };
             };
         };
     };
-    GetInstanceRevenue: {
+    AdminGetSession: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                instanceId: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody?: never;
@@ -2814,12 +4909,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RevenueSummary"];
+                    "application/json": components["schemas"]["AdminSessionResponse"];
                 };
             };
         };
     };
-    GetInstanceUsage: {
+    SetMinimumVersion: {
         parameters: {
             query?: never;
             header?: never;
@@ -2828,7 +4923,11 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SetMinimumVersionRequest"];
+            };
+        };
         responses: {
             /** @description OK */
             200: {
@@ -2836,16 +4935,14 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetInstanceUsageResponse"];
+                    "application/json": components["schemas"]["VersionListItem"];
                 };
             };
         };
     };
-    GetInvoices: {
+    GetKeyStatus: {
         parameters: {
-            query?: {
-                limit?: number;
-            };
+            query?: never;
             header?: never;
             path?: never;
             cookie?: never;
@@ -2858,16 +4955,20 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetInvoicesResponse"];
+                    "application/json": components["schemas"]["KeyStatusResponse"];
                 };
             };
         };
     };
-    GetPlatformRevenue: {
+    AdminStreamInstanceLogs: {
         parameters: {
-            query?: never;
+            query?: {
+                tail?: number;
+            };
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -2878,12 +4979,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PlatformRevenueSummary"];
+                    "text/event-stream": unknown;
                 };
             };
         };
     };
-    ChangePlan: {
+    GetProvisioningTimeline: {
         parameters: {
             query?: never;
             header?: never;
@@ -2892,11 +4993,7 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["ChangePlanCommand"];
-            };
-        };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -2904,18 +5001,17 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ChangePlanResponse"];
+                    "application/json": components["schemas"]["ProvisioningTimelineResponse"];
                 };
             };
         };
     };
-    AdminDeleteBackup: {
+    AdminGetProvisioningTimeline: {
         parameters: {
             query?: never;
             header?: never;
             path: {
                 id: number;
-                backupId: number;
             };
             cookie?: never;
         };
@@ -2927,12 +5023,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["SuccessResponse"];
+                    "application/json": components["schemas"]["ProvisioningTimelineResponse"];
                 };
             };
         };
     };
-    AdminGetBackupPolicy: {
+    AdminRetryProvisioning: {
         parameters: {
             query?: never;
             header?: never;
@@ -2949,25 +5045,21 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["BackupPolicyResponse"];
+                    "application/json": components["schemas"]["RetryProvisioningResponse"];
                 };
             };
         };
     };
-    AdminUpdateBackupPolicy: {
+    GetInstanceUptime: {
         parameters: {
             query?: never;
             header?: never;
             path: {
-                id: number;
+                instanceId: number;
             };
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["UpdateBackupPolicyRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -2975,17 +5067,14 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["BackupPolicyResponse"];
+                    "application/json": components["schemas"]["GetInstanceUptimeResponse"];
                 };
             };
         };
     };
-    AdminListBackupRecords: {
+    AdminGetInstanceUptime: {
         parameters: {
-            query: {
-                page: number;
-                pageSize: number;
-            };
+            query?: never;
             header?: never;
             path: {
                 id: number;
@@ -3000,114 +5089,139 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ListBackupRecordsResponse"];
+                    "application/json": components["schemas"]["GetInstanceUptimeResponse"];
                 };
             };
         };
     };
-    AdminTriggerBackup: {
+    PreviewUpgrade: {
         parameters: {
             query?: never;
             header?: never;
-            path: {
-                id: number;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["TriggerBackupRequest"];
+                "application/json": components["schemas"]["PreviewUpgradeRequest"];
             };
         };
         responses: {
-            /** @description Created */
-            201: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["BackupRecordItem"];
+                    "application/json": components["schemas"]["PreviewUpgradeResponse"];
                 };
             };
         };
     };
-    AdminTriggerRestore: {
+    AdminGetInstanceRollback: {
         parameters: {
             query?: never;
             header?: never;
             path: {
                 id: number;
-                backupId: number;
             };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Accepted */
-            202: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["TriggerRestoreResponse"];
+                    "application/json": components["schemas"]["InstanceRollbackResponse"];
                 };
             };
         };
     };
-    GetCaptcha: {
+    AdminRollbackInstance: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RollbackInstanceRequest"];
+            };
+        };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description Accepted */
+            202: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["CaptchaResponse"];
+                    "application/json": components["schemas"]["RollbackInstanceResponse"];
                 };
             };
         };
     };
-    ChangePassword: {
+    RollbackRollout: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["ChangePasswordRequest"];
+                "application/json": components["schemas"]["RollbackRolloutRequest"];
             };
         };
         responses: {
-            /** @description No Content */
-            204: {
+            /** @description Accepted */
+            202: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content?: never;
+                content: {
+                    "application/json": components["schemas"]["RollbackRolloutResponse"];
+                };
             };
         };
     };
-    DeleteAccount: {
+    AdminGetMinimumVersionCompliance: {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["DeleteAccountRequest"];
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MinimumVersionComplianceResponse"];
+                };
+            };
+        };
+    };
+    GetInstanceMinimumVersion: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                instanceId: number;
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -3115,38 +5229,45 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["SuccessResponse"];
+                    "application/json": components["schemas"]["InstanceMinimumVersionResponse"];
                 };
             };
         };
     };
-    Disable2FA: {
+    AdminListAuditLog: {
         parameters: {
-            query?: never;
+            query?: {
+                page?: number | null;
+                pageSize?: number | null;
+                actor?: string;
+                action?: string;
+                targetType?: string;
+                targetId?: string;
+            };
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["Disable2FARequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
-            /** @description No Content */
-            204: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content?: never;
+                content: {
+                    "application/json": components["schemas"]["ListAuditLogResponse"];
+                };
             };
         };
     };
-    Enable2FA: {
+    AdminListRestores: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -3157,38 +5278,45 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["Enable2FAResponse"];
+                    "application/json": components["schemas"]["ListRestoresResponse"];
                 };
             };
         };
     };
-    ForgotPassword: {
+    AdminPreviewRestore: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["ForgotPasswordRequest"];
+                "application/json": components["schemas"]["RestoreRequest"];
             };
         };
         responses: {
-            /** @description No Content */
-            204: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content?: never;
+                content: {
+                    "application/json": components["schemas"]["PreviewRestoreResponse"];
+                };
             };
         };
     };
-    GetMe: {
+    AdminVerifyBackup: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+                backupId: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -3199,16 +5327,19 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GetMeResponse"];
+                    "application/json": components["schemas"]["BackupRecordItem"];
                 };
             };
         };
     };
-    Jwks: {
+    AdminDownloadBackup: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+                backupId: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -3219,23 +5350,19 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["JwksResponse"];
+                    "application/json": components["schemas"]["BackupDownloadResponse"];
                 };
             };
         };
     };
-    Login: {
+    AdminListBackupTemplates: {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["LoginRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -3243,12 +5370,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LoginApiResponse"];
+                    "application/json": components["schemas"]["ListBackupTemplatesResponse"];
                 };
             };
         };
     };
-    LoginWith2FA: {
+    AdminCreateBackupTemplate: {
         parameters: {
             query?: never;
             header?: never;
@@ -3257,29 +5384,35 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["LoginWith2FARequest"];
+                "application/json": components["schemas"]["BackupTemplateRequest"];
             };
         };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description Created */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LoginWith2FAApiResponse"];
+                    "application/json": components["schemas"]["BackupTemplateItem"];
                 };
             };
         };
     };
-    Logout: {
+    AdminUpdateBackupTemplate: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                templateId: number;
+            };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["BackupTemplateRequest"];
+            };
+        };
         responses: {
             /** @description OK */
             200: {
@@ -3287,16 +5420,18 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["SuccessResponse"];
+                    "application/json": components["schemas"]["BackupTemplateItem"];
                 };
             };
         };
     };
-    RefreshToken: {
+    AdminDeleteBackupTemplate: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                templateId: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -3307,23 +5442,21 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RefreshTokenApiResponse"];
+                    "application/json": components["schemas"]["SuccessResponse"];
                 };
             };
         };
     };
-    Register: {
+    AdminGetBackupTemplateDiff: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["RegisterRequest"];
+            path: {
+                templateId: number;
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -3331,69 +5464,65 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RegisterApiResponse"];
+                    "application/json": components["schemas"]["BackupTemplateDiffResponse"];
                 };
             };
         };
     };
-    RegisterWithInstance: {
+    AdminApplyBackupTemplate: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["RegisterWithInstanceCommand"];
+            path: {
+                templateId: number;
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
-            /** @description Created */
-            201: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RegisterWithInstanceResponse"];
+                    "application/json": components["schemas"]["ApplyBackupTemplateResponse"];
                 };
             };
         };
     };
-    ResetPassword: {
+    AdminResetBackupPolicy: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["ResetPasswordRequest"];
+            path: {
+                id: number;
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
-            /** @description No Content */
-            204: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content?: never;
+                content: {
+                    "application/json": components["schemas"]["BackupPolicyResponse"];
+                };
             };
         };
     };
-    Setup: {
+    AdminGetBackupStorage: {
         parameters: {
-            query?: never;
+            query?: {
+                days?: number;
+            };
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["SetupRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -3401,16 +5530,18 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LoginApiResponse"];
+                    "application/json": components["schemas"]["BackupStorageResponse"];
                 };
             };
         };
     };
-    SetupStatus: {
+    AdminGetInstanceBackupStorage: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -3421,23 +5552,24 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["SetupStatusResponse"];
+                    "application/json": components["schemas"]["InstanceBackupStorageResponse"];
                 };
             };
         };
     };
-    UpdateProfile: {
+    AdminListSupportTickets: {
         parameters: {
-            query?: never;
+            query?: {
+                page?: number | null;
+                pageSize?: number | null;
+                status?: string | null;
+                assignee?: string | null;
+            };
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["UpdateProfileRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
             /** @description OK */
             200: {
@@ -3445,43 +5577,47 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["UpdateProfileResponse"];
+                    "application/json": components["schemas"]["AdminListSupportTicketsResponse"];
                 };
             };
         };
     };
-    Verify2FA: {
+    AdminGetSupportTicket: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["Verify2FARequest"];
+            path: {
+                ticketId: number;
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
-            /** @description No Content */
-            204: {
+            /** @description OK */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content?: never;
+                content: {
+                    "application/json": components["schemas"]["SupportTicketDetail"];
+                };
             };
         };
     };
-    AdminGetInstance: {
+    AdminUpdateSupportTicket: {
         parameters: {
             query?: never;
             header?: never;
             path: {
-                id: number;
+                ticketId: number;
             };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AdminUpdateSupportTicketRequest"];
+            };
+        };
         responses: {
             /** @description OK */
             200: {
@@ -3489,36 +5625,38 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AdminGetInstanceResponse"];
+                    "application/json": components["schemas"]["SupportTicketDetail"];
                 };
             };
         };
     };
-    AdminListMailingList: {
+    AdminReplyToSupportTicket: {
         parameters: {
-            query: {
-                page: number;
-                pageSize: number;
-                tier?: string;
-            };
+            query?: never;
             header?: never;
-            path?: never;
+            path: {
+                ticketId: number;
+            };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SupportTicketReplyRequest"];
+            };
+        };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description Created */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AdminListMailingListResponse"];
+                    "application/json": components["schemas"]["SupportTicketDetail"];
                 };
             };
         };
     };
-    AdminGetSystemConfig: {
+    ListSupportTickets: {
         parameters: {
             query?: never;
             header?: never;
@@ -3533,12 +5671,12 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AdminSystemConfigResponse"];
+                    "application/json": components["schemas"]["ListSupportTicketsResponse"];
                 };
             };
         };
     };
-    AdminUpdateSystemConfig: {
+    CreateSupportTicket: {
         parameters: {
             query?: never;
             header?: never;
@@ -3547,26 +5685,28 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["UpdateAdminSystemConfigRequest"];
+                "application/json": components["schemas"]["CreateSupportTicketRequest"];
             };
         };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description Created */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AdminSystemConfigResponse"];
+                    "application/json": components["schemas"]["SupportTicketDetail"];
                 };
             };
         };
     };
-    GetAggregatedHealth: {
+    GetSupportTicket: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                ticketId: number;
+            };
             cookie?: never;
         };
         requestBody?: never;
@@ -3577,46 +5717,60 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AggregatedHealthResponse"];
+                    "application/json": components["schemas"]["SupportTicketDetail"];
                 };
             };
         };
     };
-    RotateDataKey: {
+    ReplyToSupportTicket: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                ticketId: number;
+            };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ReplyToSupportTicketRequest"];
+            };
+        };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description Created */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RotateDataKeyResponse"];
+                    "application/json": components["schemas"]["SupportTicketDetail"];
                 };
             };
         };
     };
-    StripeWebhook: {
+    AdminUpgradeInstance: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: number;
+            };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpgradeInstanceRequest"];
+            };
+        };
         responses: {
-            /** @description OK */
-            200: {
+            /** @description Accepted */
+            202: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content?: never;
+                content: {
+                    "application/json": components["schemas"]["UpgradeInstanceResponse"];
+                };
             };
         };
     };
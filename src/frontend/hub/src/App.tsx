@@ -20,6 +20,8 @@ const CreateInstance = lazy(() => import('./routes/dashboard/CreateInstance'));
 const InstanceDetail = lazy(() => import('./routes/dashboard/InstanceDetail'));
 const Billing = lazy(() => import('./routes/dashboard/Billing'));
 const Account = lazy(() => import('./routes/dashboard/Account'));
+const Support = lazy(() => import('./routes/dashboard/Support'));
+const SupportTicket = lazy(() => import('./routes/dashboard/SupportTicket'));
 
 export default function App() {
   return (
@@ -49,6 +51,8 @@ export default function App() {
         <Route path="/instances/:id" component={InstanceDetail} />
         <Route path="/billing" component={Billing} />
         <Route path="/account" component={Account} />
+        <Route path="/support" component={Support} />
+        <Route path="/support/:id" component={SupportTicket} />
       </Route>
 
       <Route path="*" component={() => <Navigate href="/" />} />
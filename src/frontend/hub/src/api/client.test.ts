@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api, ApiError, buildUrl, errorMessage } from './client';
+import { mockFetch } from '../tests/helpers/mockFetch';
+
+describe('buildUrl', () => {
+  it('substitutes and encodes path parameters', () => {
+    expect(buildUrl('/api/v1/hub/instances/{id}/usage', { params: { id: '12 3' } }))
+      .toBe('/api/v1/hub/instances/12%203/usage');
+  });
+
+  it('throws when a path parameter is missing', () => {
+    expect(() => buildUrl('/api/v1/hub/instances/{id}')).toThrow('Missing path parameter "id"');
+  });
+
+  it('drops empty query values', () => {
+    expect(buildUrl('/api/v1/discover/instances', { query: { search: '', page: 1, sortBy: undefined } }))
+      .toBe('/api/v1/discover/instances?page=1');
+  });
+});
+
+describe('api', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('sends the stored token as a bearer header', async () => {
+    localStorage.setItem('xcord_hub_token', 'tok');
+    const { calls } = mockFetch({
+      'GET /api/v1/auth/me': () => ({ userId: '1', username: 'u', displayName: 'U', email: 'u@x.net' }),
+    });
+    const me = await api.get('/api/v1/auth/me');
+    expect(me.username).toBe('u');
+    expect(calls).toHaveLength(1);
+    const init = (globalThis.fetch as unknown as { mock: { calls: [string, RequestInit][] } }).mock.calls[0][1];
+    expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer tok');
+  });
+
+  it('throws an ApiError carrying the problem body', async () => {
+    mockFetch({
+      'POST /api/v1/auth/login': () => ({ status: 401, body: { title: '2FA_REQUIRED', detail: 'Code needed' } }),
+    });
+    const err = await api.post('/api/v1/auth/login', { body: { email: 'a', password: 'b' } }).catch((e) => e);
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.status).toBe(401);
+    expect(err.data.title).toBe('2FA_REQUIRED');
+    expect(errorMessage(err, 'fallback')).toBe('Code needed');
+  });
+
+  it('reports a network error for non-API failures', () => {
+    expect(errorMessage(new TypeError('Failed to fetch'), 'fallback')).toBe('Network error. Please try again.');
+  });
+});
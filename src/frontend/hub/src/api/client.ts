@@ -0,0 +1,97 @@
+import type { paths } from '@generated/api-types';
+import {
+  buildUrl,
+  type Method,
+  type OptionsArg,
+  type PathsFor,
+  type RawOptions,
+  type ResponseOf,
+} from '@generated/api-client';
+
+export { buildUrl, type PathsFor, type RequestOptions, type ResponseOf } from '@generated/api-client';
+
+/** A non-2xx response; `data` is the parsed problem body when there is one. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly data: { title?: string; detail?: string; message?: string } | null;
+
+  constructor(status: number, data: ApiError['data']) {
+    super(data?.detail || data?.message || `Request failed with status ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * The backend's message for an `ApiError`, `fallback` when it sent none, or a
+ * generic network message when the request never got a response.
+ */
+export function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof ApiError) {
+    return err.data?.detail || err.data?.message || fallback;
+  }
+  return 'Network error. Please try again.';
+}
+
+const TOKEN_KEY = 'xcord_hub_token';
+
+// The CSRF header is added by the fetch interceptor in utils/csrf.ts.
+async function request<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const token = localStorage.getItem(TOKEN_KEY);
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new ApiError(response.status, data);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  return response.json() as Promise<T>;
+}
+
+function send<P extends keyof paths, M extends Method>(
+  method: M,
+  path: P,
+  options?: RawOptions,
+): Promise<ResponseOf<P, M>> {
+  return request<ResponseOf<P, M>>(method.toUpperCase(), buildUrl(path, options), options?.body);
+}
+
+export const api = {
+  get<P extends PathsFor<'get'>>(path: P, ...[options]: OptionsArg<P, 'get'>): Promise<ResponseOf<P, 'get'>> {
+    return send('get', path, options as RawOptions);
+  },
+
+  post<P extends PathsFor<'post'>>(path: P, ...[options]: OptionsArg<P, 'post'>): Promise<ResponseOf<P, 'post'>> {
+    return send('post', path, options as RawOptions);
+  },
+
+  put<P extends PathsFor<'put'>>(path: P, ...[options]: OptionsArg<P, 'put'>): Promise<ResponseOf<P, 'put'>> {
+    return send('put', path, options as RawOptions);
+  },
+
+  patch<P extends PathsFor<'patch'>>(path: P, ...[options]: OptionsArg<P, 'patch'>): Promise<ResponseOf<P, 'patch'>> {
+    return send('patch', path, options as RawOptions);
+  },
+
+  delete<P extends PathsFor<'delete'>>(path: P, ...[options]: OptionsArg<P, 'delete'>): Promise<ResponseOf<P, 'delete'>> {
+    return send('delete', path, options as RawOptions);
+  },
+};
@@ -38,16 +38,22 @@ describe('AddServerPopover', () => {
 
   it('shows search results returned by the discover API', async () => {
     mockFetch({
-      'GET /api/v1/discover/instances': () => [
-        {
-          id: '1',
-          name: 'AlphaServer',
-          description: '',
-          url: 'https://alpha.example.com',
-          memberCount: 42,
-          isPublic: true,
-        },
-      ],
+      'GET /api/v1/discover/instances': () => ({
+        instances: [
+          {
+            id: '1',
+            name: 'AlphaServer',
+            description: '',
+            iconUrl: '',
+            domain: 'alpha.example.com',
+            memberCount: 42,
+            onlineCount: 3,
+          },
+        ],
+        totalCount: 1,
+        page: 1,
+        pageSize: 20,
+      }),
     });
     const { container, findByText } = render(() => (
       <AddServerPopover open={true} onClose={() => {}} />
@@ -60,7 +66,7 @@ describe('AddServerPopover', () => {
   it('adds an instance and calls onClose when Enter is pressed with a custom URL', async () => {
     const onClose = vi.fn();
     mockFetch({
-      'GET /api/v1/discover/instances': () => [],
+      'GET /api/v1/discover/instances': () => ({ instances: [], totalCount: 0, page: 1, pageSize: 20 }),
     });
     const { container, findByText } = render(() => (
       <AddServerPopover open={true} onClose={onClose} />
@@ -77,7 +83,7 @@ describe('AddServerPopover', () => {
   it('shows "Already added" when adding a duplicate', async () => {
     instanceStore.addInstance({ url: 'https://dup.example.com', name: 'Dup' });
     mockFetch({
-      'GET /api/v1/discover/instances': () => [],
+      'GET /api/v1/discover/instances': () => ({ instances: [], totalCount: 0, page: 1, pageSize: 20 }),
     });
     const { container, findByText } = render(() => (
       <AddServerPopover open={true} onClose={() => {}} />
@@ -22,6 +22,7 @@ describe('DashboardSidebar', () => {
     expect(getByTestId('sidebar-nav-create')).toBeInTheDocument();
     expect(getByTestId('sidebar-nav-billing')).toBeInTheDocument();
     expect(getByTestId('sidebar-nav-account')).toBeInTheDocument();
+    expect(getByTestId('sidebar-nav-support')).toBeInTheDocument();
   });
 
   it('renders the logout button', () => {
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent } from '@solidjs/testing-library';
+import MinimumVersionBanner from './MinimumVersionBanner';
+import { mockFetch } from '../tests/helpers/mockFetch';
+
+const MINIMUM_PATH = '/api/v1/hub/instances/i-1/minimum-version';
+const UPGRADE_PATH = '/api/v1/hub/instances/i-1/upgrade';
+
+const belowMinimum = {
+  compliant: false,
+  currentVersion: '1.1.0',
+  minimumVersion: '1.2.0',
+  minimumImage: 'docker.xcord.net/fed:1.2.0',
+  enforcementDate: '2026-11-01T12:00:00Z',
+  forceUpgraded: true,
+};
+
+describe('MinimumVersionBanner', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('renders nothing while the server meets the minimum', async () => {
+    const { calls } = mockFetch({
+      [`GET ${MINIMUM_PATH}`]: () => ({ ...belowMinimum, compliant: true }),
+    });
+    const { queryByTestId } = render(() => <MinimumVersionBanner instanceId="i-1" />);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(calls).toHaveLength(1);
+    expect(queryByTestId('minimum-version-banner')).toBeNull();
+  });
+
+  it('warns about the enforcement date when below the minimum', async () => {
+    mockFetch({ [`GET ${MINIMUM_PATH}`]: () => belowMinimum });
+    const { findByTestId, getByTestId } = render(() => <MinimumVersionBanner instanceId="i-1" />);
+    const banner = await findByTestId('minimum-version-banner');
+    expect(banner).toHaveTextContent('Version 1.2.0 is now the minimum supported version. This server runs 1.1.0.');
+    expect(getByTestId('minimum-version-enforcement')).toHaveTextContent('It will be upgraded automatically on');
+  });
+
+  it('asks to upgrade before the date when the server is not force-upgraded', async () => {
+    mockFetch({ [`GET ${MINIMUM_PATH}`]: () => ({ ...belowMinimum, forceUpgraded: false }) });
+    const { findByTestId } = render(() => <MinimumVersionBanner instanceId="i-1" />);
+    expect(await findByTestId('minimum-version-enforcement')).toHaveTextContent('Please upgrade before');
+  });
+
+  it('upgrades to the minimum image on request', async () => {
+    const { calls } = mockFetch({
+      [`GET ${MINIMUM_PATH}`]: () => belowMinimum,
+      [`POST ${UPGRADE_PATH}`]: () => ({ status: 202, body: { accepted: true } }),
+    });
+    const { findByTestId, findByText } = render(() => <MinimumVersionBanner instanceId="i-1" />);
+    const button = (await findByTestId('minimum-version-upgrade')) as HTMLButtonElement;
+    expect(button).toHaveTextContent('Upgrade to 1.2.0');
+    fireEvent.click(button);
+    expect(await findByText('Upgrade started. Your server will restart shortly.')).toBeInTheDocument();
+    expect(calls.find((c) => c.method === 'POST')?.body).toEqual({ targetImage: 'docker.xcord.net/fed:1.2.0' });
+    expect(button.disabled).toBe(true);
+  });
+
+  it('shows the server error when the upgrade is rejected', async () => {
+    mockFetch({
+      [`GET ${MINIMUM_PATH}`]: () => belowMinimum,
+      [`POST ${UPGRADE_PATH}`]: () => ({ status: 400, body: { detail: 'Cannot upgrade instance in Suspended status' } }),
+    });
+    const { findByTestId, findByText } = render(() => <MinimumVersionBanner instanceId="i-1" />);
+    fireEvent.click(await findByTestId('minimum-version-upgrade'));
+    expect(await findByText('Cannot upgrade instance in Suspended status')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,86 @@
+import { createSignal, onMount, Show } from 'solid-js';
+import type { components } from '@generated/api-types';
+import { errorMessage } from '../api/client';
+import { instanceStore } from '../stores/instance.store';
+
+type InstanceMinimumVersion = components['schemas']['InstanceMinimumVersionResponse'];
+
+interface MinimumVersionBannerProps {
+  instanceId: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Warns owners whose server is below the required minimum version and lets them
+ * upgrade on their own schedule before it is enforced.
+ */
+export default function MinimumVersionBanner(props: MinimumVersionBannerProps) {
+  const [minimum, setMinimum] = createSignal<InstanceMinimumVersion | null>(null);
+  const [upgrading, setUpgrading] = createSignal(false);
+  const [upgraded, setUpgraded] = createSignal(false);
+  const [error, setError] = createSignal('');
+
+  onMount(async () => {
+    try {
+      setMinimum(await instanceStore.fetchMinimumVersion(props.instanceId));
+    } catch {
+      // API may not be available
+    }
+  });
+
+  const handleUpgrade = async (targetImage: string) => {
+    setUpgrading(true);
+    setError('');
+    try {
+      await instanceStore.upgradeInstance(props.instanceId, targetImage);
+      setUpgraded(true);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to start the upgrade'));
+    } finally {
+      setUpgrading(false);
+    }
+  };
+
+  return (
+    <Show when={minimum() && !minimum()!.compliant ? minimum() : null}>
+      {(current) => (
+        <div data-testid="minimum-version-banner" class="mb-6 px-4 py-3 rounded-lg bg-xcord-yellow/10 border border-xcord-yellow/30">
+          <div class="flex items-start justify-between gap-4">
+            <div class="text-sm text-xcord-text-secondary">
+              <div class="font-semibold text-xcord-yellow mb-1">Upgrade required</div>
+              <p>
+                Version {current().minimumVersion} is now the minimum supported version.
+                {current().currentVersion ? ` This server runs ${current().currentVersion}.` : ''}
+              </p>
+              <Show when={current().enforcementDate}>
+                <p data-testid="minimum-version-enforcement">
+                  {current().forceUpgraded
+                    ? `It will be upgraded automatically on ${formatDate(current().enforcementDate!)}. Upgrade now to choose the time yourself.`
+                    : `Please upgrade before ${formatDate(current().enforcementDate!)}.`}
+                </p>
+              </Show>
+              <Show when={upgraded()}>
+                <p class="text-xcord-green mt-1">Upgrade started. Your server will restart shortly.</p>
+              </Show>
+              <Show when={error()}>
+                <p class="text-xcord-red mt-1">{error()}</p>
+              </Show>
+            </div>
+            <Show when={current().minimumImage}>
+              <button
+                data-testid="minimum-version-upgrade"
+                onClick={() => handleUpgrade(current().minimumImage!)}
+                disabled={upgrading() || upgraded()}
+                class="shrink-0 px-4 py-2 bg-xcord-brand hover:bg-xcord-brand-hover disabled:opacity-50 text-white rounded text-sm font-medium transition"
+              >
+                {upgrading() ? 'Upgrading...' : `Upgrade to ${current().minimumVersion}`}
+              </button>
+            </Show>
+          </div>
+        </div>
+      )}
+    </Show>
+  );
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render } from '@solidjs/testing-library';
+import ProvisioningProgress from './ProvisioningProgress';
+import { mockFetch } from '../tests/helpers/mockFetch';
+
+const TIMELINE_PATH = '/api/v1/hub/instances/i-1/provisioning';
+
+const step = (stepName: string, status: string, errorMessage: string | null = null) => ({
+  stepName,
+  status,
+  attempts: status === 'Pending' ? 0 : 1,
+  startedAt: null,
+  completedAt: null,
+  durationMs: null,
+  errorMessage,
+  events: [],
+});
+
+describe('ProvisioningProgress', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows the current step while provisioning', async () => {
+    mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () => ({
+        instanceId: 'i-1',
+        instanceStatus: 'Provisioning',
+        canRetry: false,
+        steps: [
+          step('ValidateSubdomain', 'Completed'),
+          step('ProvisionDatabase', 'InProgress'),
+          step('StartApiContainer', 'Pending'),
+        ],
+      }),
+    });
+    const { findByText } = render(() => <ProvisioningProgress instanceId="i-1" />);
+    expect(await findByText('Step 2 of 3: Provision Database')).toBeInTheDocument();
+  });
+
+  it('shows the failed step and its error', async () => {
+    mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () => ({
+        instanceId: 'i-1',
+        instanceStatus: 'Failed',
+        canRetry: true,
+        steps: [
+          step('ValidateSubdomain', 'Completed'),
+          step('StartApiContainer', 'Failed', 'Container exited with code 1'),
+        ],
+      }),
+    });
+    const { findByText } = render(() => <ProvisioningProgress instanceId="i-1" />);
+    expect(await findByText('Setup stopped at Start Api Container: Container exited with code 1')).toBeInTheDocument();
+  });
+
+  it('renders nothing when setup completed and the instance failed later', async () => {
+    const { calls } = mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () => ({
+        instanceId: 'i-1',
+        instanceStatus: 'Failed',
+        canRetry: false,
+        steps: [step('ValidateSubdomain', 'Completed')],
+      }),
+    });
+    const { queryByTestId } = render(() => <ProvisioningProgress instanceId="i-1" />);
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    expect(queryByTestId('provisioning-progress')).not.toBeInTheDocument();
+  });
+
+  it('polls until provisioning finishes', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    let status = 'Provisioning';
+    const { calls } = mockFetch({
+      [`GET ${TIMELINE_PATH}`]: () => ({
+        instanceId: 'i-1',
+        instanceStatus: status,
+        canRetry: false,
+        steps: [step('ValidateSubdomain', 'InProgress')],
+      }),
+    });
+    const { findByText } = render(() => <ProvisioningProgress instanceId="i-1" />);
+    await findByText('Step 1 of 1: Validate Subdomain');
+
+    status = 'Running';
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(6000);
+    expect(calls).toHaveLength(2);
+  });
+});
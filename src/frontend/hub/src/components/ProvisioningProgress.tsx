@@ -0,0 +1,87 @@
+import { createSignal, createEffect, onMount, onCleanup, Show } from 'solid-js';
+import type { components } from '@generated/api-types';
+import { instanceStore } from '../stores/instance.store';
+
+type ProvisioningTimeline = components['schemas']['ProvisioningTimelineResponse'];
+
+interface ProvisioningProgressProps {
+  instanceId: string;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+// "ConfigureDnsAndProxy" -> "Configure Dns And Proxy"
+const stepLabel = (stepName: string) => stepName.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+/**
+ * Compact provisioning progress for an instance card: how far setup has got
+ * and, if it stopped, which step failed and why.
+ */
+export default function ProvisioningProgress(props: ProvisioningProgressProps) {
+  const [timeline, setTimeline] = createSignal<ProvisioningTimeline | null>(null);
+
+  const load = async () => {
+    try {
+      setTimeline(await instanceStore.fetchProvisioningTimeline(props.instanceId));
+    } catch {
+      // Progress is supplementary; the card still shows the instance status
+    }
+  };
+
+  onMount(load);
+
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+  createEffect(() => {
+    if (timeline()?.instanceStatus === 'Provisioning') {
+      if (!pollTimer) {
+        pollTimer = setInterval(load, POLL_INTERVAL_MS);
+      }
+    } else if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    }
+  });
+
+  onCleanup(() => {
+    if (pollTimer) clearInterval(pollTimer);
+  });
+
+  const completedCount = () => timeline()?.steps.filter(s => s.status === 'Completed').length ?? 0;
+  const totalCount = () => timeline()?.steps.length ?? 0;
+  const failedStep = () => timeline()?.steps.find(s => s.status === 'Failed');
+  const currentStep = () => timeline()?.steps.find(s => s.status !== 'Completed');
+
+  // A Failed instance whose pipeline completed failed later (e.g. an upgrade),
+  // so there is no setup progress to report.
+  const isVisible = () => totalCount() > 0 && (timeline()?.instanceStatus === 'Provisioning' || !!failedStep());
+
+  return (
+    <Show when={isVisible()}>
+      <div data-testid="provisioning-progress" class="mt-2 text-xs">
+        <div class="h-1.5 w-full max-w-xs bg-xcord-bg-tertiary rounded-full overflow-hidden">
+          <div
+            class={`h-full ${failedStep() ? 'bg-xcord-status-dnd' : 'bg-xcord-brand'}`}
+            style={{ width: `${Math.round((completedCount() / totalCount()) * 100)}%` }}
+          />
+        </div>
+        <Show
+          when={failedStep()}
+          fallback={
+            <p class="mt-1 text-xcord-text-muted">
+              Step {Math.min(completedCount() + 1, totalCount())} of {totalCount()}
+              <Show when={currentStep()}>{(step) => <>: {stepLabel(step().stepName)}</>}</Show>
+            </p>
+          }
+        >
+          {(step) => (
+            <p class="mt-1 text-xcord-status-dnd">
+              Setup stopped at {stepLabel(step().stepName)}
+              <Show when={step().errorMessage}>: {step().errorMessage}</Show>
+            </p>
+          )}
+        </Show>
+      </div>
+    </Show>
+  );
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent } from '@solidjs/testing-library';
+import UptimeTimeline from './UptimeTimeline';
+import { mockFetch } from '../tests/helpers/mockFetch';
+
+const UPTIME_PATH = '/api/v1/hub/instances/i-1/uptime';
+
+// 90 days ending 2026-10-10, fully available except for 2026-10-09
+const days = Array.from({ length: 90 }, (_, i) => ({
+  date: new Date(Date.UTC(2026, 9, 10 - 89 + i)).toISOString().slice(0, 10),
+  monitoredMinutes: 1440,
+  downtimeMinutes: 0,
+  availabilityPercentage: 100 as number | null,
+}));
+days[0] = { ...days[0], monitoredMinutes: 0, availabilityPercentage: null };
+days[88] = { ...days[88], downtimeMinutes: 45, availabilityPercentage: 96.875 };
+
+const uptime = {
+  instanceId: 'i-1',
+  availability7Days: 99.554,
+  availability30Days: 99.896,
+  availability90Days: 99.972,
+  days,
+  outages: [
+    { startedAt: '2026-10-09T08:00:00Z', endedAt: '2026-10-09T08:45:00Z', durationMinutes: 45, isOngoing: false },
+  ],
+};
+
+describe('UptimeTimeline', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('shows 7, 30 and 90 day availability', async () => {
+    mockFetch({ [`GET ${UPTIME_PATH}`]: () => uptime });
+    const { findByText, getByText } = render(() => <UptimeTimeline instanceId="i-1" />);
+    expect(await findByText('99.55%')).toBeInTheDocument();
+    expect(getByText('99.90%')).toBeInTheDocument();
+    expect(getByText('99.97%')).toBeInTheDocument();
+  });
+
+  it('draws a bar per day coloured by availability', async () => {
+    mockFetch({ [`GET ${UPTIME_PATH}`]: () => uptime });
+    const { findByTestId, getByTestId } = render(() => <UptimeTimeline instanceId="i-1" />);
+    expect((await findByTestId('uptime-bars')).children).toHaveLength(90);
+    expect(getByTestId('uptime-bar-2026-07-13')).toHaveClass('bg-xcord-bg-tertiary');
+    expect(getByTestId('uptime-bar-2026-10-09')).toHaveClass('bg-xcord-red');
+    expect(getByTestId('uptime-bar-2026-10-10')).toHaveClass('bg-xcord-green');
+  });
+
+  it('shows the outages of the hovered day', async () => {
+    mockFetch({ [`GET ${UPTIME_PATH}`]: () => uptime });
+    const { findByTestId, getByTestId } = render(() => <UptimeTimeline instanceId="i-1" />);
+    await findByTestId('uptime-bars');
+    const detail = getByTestId('uptime-day-detail');
+    expect(detail).toHaveTextContent('1 outage in the last 90 days');
+
+    fireEvent.mouseEnter(getByTestId('uptime-bar-2026-10-09'));
+    expect(detail).toHaveTextContent('2026-10-09: 96.88% available');
+    expect(detail).toHaveTextContent(`Down ${new Date('2026-10-09T08:00:00Z').toLocaleString()}`);
+    expect(detail).toHaveTextContent('(45m)');
+
+    fireEvent.mouseEnter(getByTestId('uptime-bar-2026-07-13'));
+    expect(detail).toHaveTextContent('2026-07-13: no data');
+  });
+
+  it('renders nothing when the history cannot be loaded', async () => {
+    const { calls } = mockFetch({ [`GET ${UPTIME_PATH}`]: () => ({ status: 404, body: {} }) });
+    const { queryByTestId } = render(() => <UptimeTimeline instanceId="i-1" />);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(calls).toHaveLength(1);
+    expect(queryByTestId('uptime-timeline')).not.toBeInTheDocument();
+  });
+});
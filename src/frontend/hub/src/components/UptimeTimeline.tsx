@@ -0,0 +1,131 @@
+import { createSignal, onMount, Show, For } from 'solid-js';
+import type { components } from '@generated/api-types';
+import { instanceStore } from '../stores/instance.store';
+
+type InstanceUptime = components['schemas']['GetInstanceUptimeResponse'];
+type UptimeDay = components['schemas']['UptimeDayItem'];
+type UptimeOutage = components['schemas']['UptimeOutageItem'];
+
+interface UptimeTimelineProps {
+  instanceId: string;
+}
+
+const VISIBLE_DAYS = 90;
+
+const formatPercentage = (value: number | null | undefined) =>
+  value == null ? '—' : `${value.toFixed(value === 100 ? 0 : 2)}%`;
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const rest = Math.round(minutes % 60);
+  return rest > 0 ? `${Math.floor(minutes / 60)}h ${rest}m` : `${Math.floor(minutes / 60)}h`;
+};
+
+const barColor = (day: UptimeDay) => {
+  if (day.availabilityPercentage == null) return 'bg-xcord-bg-tertiary';
+  if (day.availabilityPercentage >= 100) return 'bg-xcord-green';
+  if (day.availabilityPercentage >= 99) return 'bg-xcord-yellow';
+  return 'bg-xcord-red';
+};
+
+// Days are UTC calendar days, so outages are matched against UTC bounds
+const outagesOn = (day: UptimeDay, outages: UptimeOutage[]) => {
+  const start = new Date(`${day.date}T00:00:00Z`).getTime();
+  const end = start + 24 * 60 * 60 * 1000;
+  return outages.filter(o => {
+    const from = new Date(o.startedAt).getTime();
+    const to = o.endedAt ? new Date(o.endedAt).getTime() : Date.now();
+    return from < end && to > start;
+  });
+};
+
+/**
+ * Daily availability bars for the last 90 days with 7/30/90-day totals.
+ * Hovering a day lists the outages that touched it.
+ */
+export default function UptimeTimeline(props: UptimeTimelineProps) {
+  const [uptime, setUptime] = createSignal<InstanceUptime | null>(null);
+  const [hovered, setHovered] = createSignal<UptimeDay | null>(null);
+
+  onMount(async () => {
+    try {
+      setUptime(await instanceStore.fetchInstanceUptime(props.instanceId));
+    } catch {
+      // API may not be available
+    }
+  });
+
+  return (
+    <Show when={uptime()}>
+      {(current) => (
+        <div data-testid="uptime-timeline" class="bg-xcord-bg-secondary rounded-lg p-6 mb-6">
+          <h2 class="text-lg font-semibold text-xcord-text-primary mb-4">Uptime</h2>
+
+          <div class="grid grid-cols-3 gap-4 mb-4">
+            <For each={[
+              { label: '7 days', value: current().availability7Days },
+              { label: '30 days', value: current().availability30Days },
+              { label: '90 days', value: current().availability90Days },
+            ]}>
+              {(window) => (
+                <div>
+                  <div class="text-xs text-xcord-text-muted mb-1">{window.label}</div>
+                  <div class="text-sm font-medium text-xcord-text-primary">{formatPercentage(window.value)}</div>
+                </div>
+              )}
+            </For>
+          </div>
+
+          <div data-testid="uptime-bars" class="flex items-end gap-px h-8" onMouseLeave={() => setHovered(null)}>
+            <For each={current().days.slice(-VISIBLE_DAYS)}>
+              {(day) => (
+                <div
+                  data-testid={`uptime-bar-${day.date}`}
+                  aria-label={`${day.date}: ${formatPercentage(day.availabilityPercentage)}`}
+                  onMouseEnter={() => setHovered(day)}
+                  class={`flex-1 h-full rounded-sm transition ${barColor(day)} ${hovered() === day ? 'opacity-70' : ''}`}
+                />
+              )}
+            </For>
+          </div>
+          <div class="flex justify-between text-xs text-xcord-text-muted mt-1">
+            <span>{VISIBLE_DAYS} days ago</span>
+            <span>Today (UTC)</span>
+          </div>
+
+          <div data-testid="uptime-day-detail" class="mt-3 min-h-10 text-sm text-xcord-text-secondary">
+            <Show
+              when={hovered()}
+              fallback={
+                <span class="text-xcord-text-muted">
+                  {current().outages.length === 0
+                    ? 'No downtime recorded in the last 90 days'
+                    : `${current().outages.length} outage${current().outages.length === 1 ? '' : 's'} in the last 90 days. Hover over a day for details.`}
+                </span>
+              }
+            >
+              {(day) => (
+                <div>
+                  <div class="font-medium text-xcord-text-primary">
+                    {day().date}: {day().availabilityPercentage == null
+                      ? 'no data'
+                      : `${formatPercentage(day().availabilityPercentage)} available`}
+                  </div>
+                  <For each={outagesOn(day(), current().outages)}>
+                    {(outage) => (
+                      <div>
+                        Down {new Date(outage.startedAt).toLocaleString()} &ndash;{' '}
+                        {outage.endedAt ? new Date(outage.endedAt).toLocaleString() : 'now'}
+                        {' '}({formatMinutes(outage.durationMinutes)})
+                      </div>
+                    )}
+                  </For>
+                </div>
+              )}
+            </Show>
+          </div>
+        </div>
+      )}
+    </Show>
+  );
+}
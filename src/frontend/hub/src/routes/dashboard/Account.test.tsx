@@ -114,4 +114,49 @@ describe('Account (route)', () => {
     fireEvent.click(getByText('Cancel'));
     await waitFor(() => expect(queryByText('Permanently Delete')).toBeNull());
   });
+
+  it('turns on two-factor authentication with a code from the new secret', async () => {
+    await seedLoggedInUser();
+    const { calls } = mockFetch({
+      'POST /api/v1/auth/2fa/enable': () => ({
+        secret: 'JBSWY3DPEHPK3PXP',
+        qrCodeUrl: 'otpauth://totp/XcordHub:alice?secret=JBSWY3DPEHPK3PXP&issuer=XcordHub',
+      }),
+      'POST /api/v1/auth/2fa/verify': () => ({ status: 204 }),
+    });
+    const { getByTestId, findByTestId, queryByTestId } = renderPage();
+
+    fireEvent.click(getByTestId('two-factor-start'));
+    expect(await findByTestId('two-factor-secret')).toHaveTextContent('JBSWY3DPEHPK3PXP');
+    expect(getByTestId('two-factor-confirm')).toBeDisabled();
+
+    fireEvent.input(getByTestId('two-factor-code'), { target: { value: '123456' } });
+    fireEvent.click(getByTestId('two-factor-confirm'));
+
+    expect(await findByTestId('two-factor-message')).toHaveTextContent('Two-factor authentication is now on');
+    expect(calls.find((c) => c.url === '/api/v1/auth/2fa/verify')?.body).toEqual({ code: '123456' });
+    expect(queryByTestId('two-factor-secret')).toBeNull();
+    expect(getByTestId('two-factor-section')).toHaveTextContent('Two-factor authentication is on.');
+    expect(useAuth().user?.twoFactorEnabled).toBe(true);
+  });
+
+  it('keeps two-factor off and shows the error when the code is wrong', async () => {
+    await seedLoggedInUser();
+    mockFetch({
+      'POST /api/v1/auth/2fa/enable': () => ({ secret: 'JBSWY3DPEHPK3PXP', qrCodeUrl: 'otpauth://totp/x' }),
+      'POST /api/v1/auth/2fa/verify': () => ({
+        status: 400,
+        body: { title: 'INVALID_CODE', detail: 'Invalid verification code' },
+      }),
+    });
+    const { getByTestId, findByTestId } = renderPage();
+
+    fireEvent.click(getByTestId('two-factor-start'));
+    fireEvent.input(await findByTestId('two-factor-code'), { target: { value: '000000' } });
+    fireEvent.click(getByTestId('two-factor-confirm'));
+
+    expect(await findByTestId('two-factor-error')).toHaveTextContent('Invalid verification code');
+    expect(getByTestId('two-factor-secret')).toBeInTheDocument();
+    expect(useAuth().user?.twoFactorEnabled).toBe(false);
+  });
 });
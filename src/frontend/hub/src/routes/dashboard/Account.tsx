@@ -1,6 +1,6 @@
 import { createSignal, Show } from 'solid-js';
 import { useNavigate } from '@solidjs/router';
-import { useAuth } from '../../stores/auth.store';
+import { useAuth, type TwoFactorSetup } from '../../stores/auth.store';
 import PageMeta from '../../components/PageMeta';
 
 export default function Account() {
@@ -18,6 +18,13 @@ export default function Account() {
   const [passwordMessage, setPasswordMessage] = createSignal('');
   const [passwordError, setPasswordError] = createSignal('');
 
+  const [twoFactorSetup, setTwoFactorSetup] = createSignal<TwoFactorSetup | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = createSignal('');
+  const [twoFactorPassword, setTwoFactorPassword] = createSignal('');
+  const [twoFactorBusy, setTwoFactorBusy] = createSignal(false);
+  const [twoFactorMessage, setTwoFactorMessage] = createSignal('');
+  const [twoFactorError, setTwoFactorError] = createSignal('');
+
   const [confirmDelete, setConfirmDelete] = createSignal(false);
   const [deleteConfirmText, setDeleteConfirmText] = createSignal('');
   const [deletePassword, setDeletePassword] = createSignal('');
@@ -49,6 +56,58 @@ export default function Account() {
     }
   };
 
+  const handleStartTwoFactor = async () => {
+    setTwoFactorError('');
+    setTwoFactorMessage('');
+    setTwoFactorBusy(true);
+    const setup = await auth.startTwoFactorSetup();
+    setTwoFactorBusy(false);
+
+    if (setup) {
+      setTwoFactorSetup(setup);
+    } else {
+      setTwoFactorError(auth.error || 'Failed to set up two-factor authentication');
+    }
+  };
+
+  const handleConfirmTwoFactor = async (e: Event) => {
+    e.preventDefault();
+    setTwoFactorError('');
+    setTwoFactorBusy(true);
+    const success = await auth.confirmTwoFactor(twoFactorCode().trim());
+    setTwoFactorBusy(false);
+
+    if (success) {
+      setTwoFactorSetup(null);
+      setTwoFactorCode('');
+      setTwoFactorMessage('Two-factor authentication is now on');
+    } else {
+      setTwoFactorError(auth.error || 'Invalid verification code');
+    }
+  };
+
+  const cancelTwoFactorSetup = () => {
+    setTwoFactorSetup(null);
+    setTwoFactorCode('');
+    setTwoFactorError('');
+  };
+
+  const handleDisableTwoFactor = async (e: Event) => {
+    e.preventDefault();
+    setTwoFactorError('');
+    setTwoFactorMessage('');
+    setTwoFactorBusy(true);
+    const success = await auth.disableTwoFactor(twoFactorPassword());
+    setTwoFactorBusy(false);
+
+    if (success) {
+      setTwoFactorPassword('');
+      setTwoFactorMessage('Two-factor authentication is now off');
+    } else {
+      setTwoFactorError(auth.error || 'Failed to turn off two-factor authentication');
+    }
+  };
+
   const handleDeleteAccount = async () => {
     setDeleteError('');
 
@@ -208,6 +267,107 @@ export default function Account() {
         </form>
       </div>
 
+      {/* Two-Factor Authentication */}
+      <div data-testid="two-factor-section" class="bg-xcord-bg-secondary rounded-lg p-6 mb-6">
+        <h2 class="text-lg font-semibold text-xcord-text-primary mb-4">Two-Factor Authentication</h2>
+        <Show when={auth.user?.twoFactorEnabled}>
+          <p class="text-sm text-xcord-text-muted mb-3">
+            Two-factor authentication is on. Logging in asks for a code from your authenticator app.
+          </p>
+          <form onSubmit={handleDisableTwoFactor} class="space-y-4">
+            <div>
+              <label class="block text-xs font-bold uppercase text-xcord-text-muted mb-2">Password</label>
+              <input
+                data-testid="two-factor-password"
+                type="password"
+                value={twoFactorPassword()}
+                onInput={(e) => setTwoFactorPassword(e.currentTarget.value)}
+                placeholder="Enter your password to turn it off"
+                class="w-full px-3 py-2 bg-xcord-bg-tertiary text-xcord-text-primary rounded border-none outline-none focus:ring-2 focus:ring-xcord-brand"
+                required
+              />
+            </div>
+            <button
+              data-testid="two-factor-disable"
+              type="submit"
+              disabled={twoFactorBusy() || !twoFactorPassword()}
+              class="px-4 py-2 bg-xcord-bg-accent text-xcord-text-secondary disabled:opacity-50 rounded text-sm font-medium transition"
+            >
+              Turn Off Two-Factor
+            </button>
+          </form>
+        </Show>
+        <Show when={!auth.user?.twoFactorEnabled && !twoFactorSetup()}>
+          <p class="text-sm text-xcord-text-muted mb-3">
+            Protect your account with a code from an authenticator app each time you log in. Hub
+            administrators may be required to turn this on.
+          </p>
+          <button
+            data-testid="two-factor-start"
+            onClick={handleStartTwoFactor}
+            disabled={twoFactorBusy()}
+            class="px-4 py-2 bg-xcord-brand hover:bg-xcord-brand-hover disabled:opacity-50 text-white rounded text-sm font-medium transition"
+          >
+            {twoFactorBusy() ? 'Setting up...' : 'Set Up Two-Factor'}
+          </button>
+        </Show>
+        <Show when={!auth.user?.twoFactorEnabled && twoFactorSetup()}>
+          {(setup) => (
+            <form onSubmit={handleConfirmTwoFactor} class="space-y-4">
+              <p class="text-sm text-xcord-text-muted">
+                Add this key to your authenticator app, or{' '}
+                <a href={setup().qrCodeUrl} class="text-xcord-brand hover:underline">open it in the app</a>,
+                then enter the 6-digit code it shows.
+              </p>
+              <div
+                data-testid="two-factor-secret"
+                class="px-3 py-2 bg-xcord-bg-tertiary text-xcord-text-primary rounded font-mono text-sm break-all"
+              >
+                {setup().secret}
+              </div>
+              <div>
+                <label class="block text-xs font-bold uppercase text-xcord-text-muted mb-2">Verification Code</label>
+                <input
+                  data-testid="two-factor-code"
+                  type="text"
+                  inputmode="numeric"
+                  autocomplete="one-time-code"
+                  maxLength={6}
+                  value={twoFactorCode()}
+                  onInput={(e) => setTwoFactorCode(e.currentTarget.value)}
+                  class="w-full px-3 py-2 bg-xcord-bg-tertiary text-xcord-text-primary rounded border-none outline-none focus:ring-2 focus:ring-xcord-brand"
+                  required
+                />
+              </div>
+              <div class="flex gap-3">
+                <button
+                  data-testid="two-factor-confirm"
+                  type="submit"
+                  disabled={twoFactorBusy() || twoFactorCode().trim().length !== 6}
+                  class="px-4 py-2 bg-xcord-brand hover:bg-xcord-brand-hover disabled:opacity-50 text-white rounded text-sm font-medium transition"
+                >
+                  {twoFactorBusy() ? 'Verifying...' : 'Turn On Two-Factor'}
+                </button>
+                <button
+                  type="button"
+                  onClick={cancelTwoFactorSetup}
+                  disabled={twoFactorBusy()}
+                  class="px-4 py-2 bg-xcord-bg-accent text-xcord-text-secondary rounded text-sm transition"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+        </Show>
+        <Show when={twoFactorError()}>
+          <div data-testid="two-factor-error" class="text-sm text-xcord-red mt-3">{twoFactorError()}</div>
+        </Show>
+        <Show when={twoFactorMessage()}>
+          <div data-testid="two-factor-message" class="text-sm text-xcord-green mt-3">{twoFactorMessage()}</div>
+        </Show>
+      </div>
+
       {/* Danger Zone */}
       <div class="bg-xcord-bg-secondary rounded-lg p-6 border border-xcord-red/20">
         <h2 class="text-lg font-semibold text-xcord-red mb-4">Danger Zone</h2>
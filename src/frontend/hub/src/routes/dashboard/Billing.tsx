@@ -1,35 +1,11 @@
 import { A } from '@solidjs/router';
 import { createResource, createSignal, For, onMount, Show } from 'solid-js';
+import type { components } from '@generated/api-types';
+import { api, errorMessage } from '../../api/client';
 import ContactModal from '../../components/ContactModal';
 import PageMeta from '../../components/PageMeta';
 
-interface InstanceBillingItem {
-  instanceId: string;
-  domain: string;
-  displayName: string;
-  tier: string;
-  mediaEnabled: boolean;
-  priceCents: number;
-  billingStatus: string;
-}
-
-interface BillingData {
-  instances: InstanceBillingItem[];
-}
-
-interface InvoiceSummary {
-  id: string;
-  description: string;
-  amountCents: number;
-  currency: string;
-  status: string;
-  createdAt: string;
-  pdfUrl: string | null;
-}
-
-interface InvoicesData {
-  invoices: InvoiceSummary[];
-}
+type InstanceBillingItem = components['schemas']['InstanceBillingItem'];
 
 type Tier = 'Free' | 'Basic' | 'Pro' | 'Enterprise';
 
@@ -54,38 +30,16 @@ const TIER_MEDIA_CENTS: Record<Tier, number> = {
   Enterprise: 100,
 };
 
-function authHeaders(): HeadersInit {
-  const token = localStorage.getItem('xcord_hub_token');
-  return token ? { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' } : {};
-}
-
-async function fetchBilling(): Promise<BillingData> {
-  const res = await fetch('/api/v1/hub/billing', { headers: authHeaders() });
-  if (!res.ok) throw new Error('Failed to load billing info');
-  return res.json();
+async function fetchBilling() {
+  return api.get('/api/v1/hub/billing');
 }
 
-interface UsageData {
-  instanceId: string;
-  domain: string;
-  tier: string;
-  isMeteredBilling: boolean;
-  totalUptimeMinutes: number;
-  totalUptimeHours: number;
-  uptimePercentage: number;
-  estimatedCostCents: number;
+async function fetchUsage(instanceId: string) {
+  return api.get('/api/v1/hub/instances/{id}/usage', { params: { id: instanceId } });
 }
 
-async function fetchUsage(instanceId: string): Promise<UsageData> {
-  const res = await fetch(`/api/v1/hub/instances/${instanceId}/usage`, { headers: authHeaders() });
-  if (!res.ok) throw new Error('Failed to load usage');
-  return res.json();
-}
-
-async function fetchInvoices(): Promise<InvoicesData> {
-  const res = await fetch('/api/v1/hub/billing/invoices', { headers: authHeaders() });
-  if (!res.ok) throw new Error('Failed to load invoices');
-  return res.json();
+async function fetchInvoices() {
+  return api.get('/api/v1/hub/billing/invoices');
 }
 
 function formatAmount(cents: number, currency: string): string {
@@ -179,11 +133,8 @@ function PlanEditor(props: {
 
   onMount(async () => {
     try {
-      const res = await fetch('/api/v1/hub/features');
-      if (res.ok) {
-        const data = await res.json();
-        setPaymentsEnabled(data.paymentsEnabled ?? false);
-      }
+      const data = await api.get('/api/v1/hub/features');
+      setPaymentsEnabled(data.paymentsEnabled);
     } catch {
       // leave paymentsEnabled as false
     }
@@ -201,27 +152,18 @@ function PlanEditor(props: {
     setSaveError('');
     setSaving(true);
     try {
-      const token = localStorage.getItem('xcord_hub_token');
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (token) headers['Authorization'] = `Bearer ${token}`;
-      const res = await fetch(`/api/v1/hub/instances/${props.instance.instanceId}/billing/change`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ targetTier: selectedTier(), mediaEnabled: mediaEnabled() }),
+      const data = await api.post('/api/v1/hub/instances/{instanceId}/billing/change', {
+        params: { instanceId: props.instance.instanceId },
+        body: { targetTier: selectedTier(), mediaEnabled: mediaEnabled() },
       });
-      const data = await res.json();
-      if (!res.ok) {
-        setSaveError(data.detail ?? data.message ?? 'Failed to update plan');
-        return;
-      }
       if (data.requiresCheckout && data.checkoutUrl) {
         window.location.href = data.checkoutUrl;
         return;
       }
       props.onSaved();
       props.onClose();
-    } catch {
-      setSaveError('Network error. Please try again.');
+    } catch (err) {
+      setSaveError(errorMessage(err, 'Failed to update plan'));
     } finally {
       setSaving(false);
     }
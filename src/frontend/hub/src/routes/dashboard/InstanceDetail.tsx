@@ -1,6 +1,8 @@
 import { createSignal, onMount, Show } from 'solid-js';
 import { A, useParams } from '@solidjs/router';
 import PageMeta from '../../components/PageMeta';
+import UptimeTimeline from '../../components/UptimeTimeline';
+import MinimumVersionBanner from '../../components/MinimumVersionBanner';
 
 interface InstanceInfo {
   id: string;
@@ -135,12 +137,21 @@ export default function InstanceDetail() {
                     <span>{inst().domain}</span>
                   </div>
                 </div>
+                <A
+                  data-testid="instance-get-help"
+                  href={`/dashboard/support?instance=${inst().id}`}
+                  class="ml-auto text-sm text-xcord-text-link hover:underline"
+                >
+                  Get help
+                </A>
               </div>
 
               <Show when={message()}>
                 <div class="mb-4 px-4 py-2 bg-xcord-brand/10 text-xcord-brand text-sm rounded">{message()}</div>
               </Show>
 
+              <MinimumVersionBanner instanceId={inst().id} />
+
               {/* Info Grid */}
               <div class="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
                 <div class="bg-xcord-bg-secondary rounded-lg p-4">
@@ -161,6 +172,8 @@ export default function InstanceDetail() {
                 </div>
               </div>
 
+              <UptimeTimeline instanceId={inst().id} />
+
               {/* Edit Name */}
               <div class="bg-xcord-bg-secondary rounded-lg p-6 mb-6">
                 <h2 class="text-lg font-semibold text-xcord-text-primary mb-4">Settings</h2>
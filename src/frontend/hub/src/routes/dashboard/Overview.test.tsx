@@ -69,6 +69,34 @@ describe('Overview (route)', () => {
     expect(await findByText('foo.example.com')).toBeInTheDocument();
   });
 
+  it('shows where setup stopped on a failed instance', async () => {
+    mockFetch({
+      'GET /api/v1/hub/instances': () => ({
+        instances: [
+          {
+            instanceId: 'i-1',
+            displayName: 'Foo Server',
+            domain: 'foo.example.com',
+            status: 'Failed',
+            tier: 'Pro',
+            mediaEnabled: false,
+            createdAt: '2026-01-01T00:00:00Z',
+          },
+        ],
+      }),
+      'GET /api/v1/hub/instances/i-1/provisioning': () => ({
+        instanceId: 'i-1',
+        instanceStatus: 'Failed',
+        canRetry: true,
+        steps: [
+          { stepName: 'CreateNetwork', status: 'Failed', attempts: 1, startedAt: null, completedAt: null, durationMs: null, errorMessage: 'Network quota exceeded', events: [] },
+        ],
+      }),
+    });
+    const { findByText } = renderPage();
+    expect(await findByText('Setup stopped at Create Network: Network quota exceeded')).toBeInTheDocument();
+  });
+
   it('shows "Loading instances..." while the request is pending', () => {
     mockFetch({
       'GET /api/v1/hub/instances': () => new Promise(() => {}),
@@ -2,6 +2,7 @@ import { createSignal, createEffect, onMount, onCleanup, Show, For } from 'solid
 import { A } from '@solidjs/router';
 import { instanceStore, type ConnectedInstance } from '../../stores/instance.store';
 import PageMeta from '../../components/PageMeta';
+import ProvisioningProgress from '../../components/ProvisioningProgress';
 
 interface InstanceInfo {
   instanceId: string;
@@ -144,6 +145,9 @@ export default function Overview() {
                       {instance.displayName}
                     </div>
                     <div class="text-sm text-xcord-text-muted">{instance.domain}</div>
+                    <Show when={['provisioning', 'failed'].includes(instance.status.toLowerCase())}>
+                      <ProvisioningProgress instanceId={instance.instanceId} />
+                    </Show>
                   </div>
                   <div class="flex items-center gap-2">
                     <div class={`w-2 h-2 rounded-full ${statusDot(instance.status)}`} />
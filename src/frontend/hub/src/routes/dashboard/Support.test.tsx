@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '@solidjs/testing-library';
+import { MetaProvider } from '@solidjs/meta';
+import { MemoryRouter, Route, createMemoryHistory } from '@solidjs/router';
+import Support from './Support';
+import { mockFetch } from '../../tests/helpers/mockFetch';
+
+function renderPage(path = '/dashboard/support') {
+  const history = createMemoryHistory();
+  history.set({ value: path });
+  const result = render(() => (
+    <MetaProvider>
+      <MemoryRouter history={history}>
+        <Route path="/dashboard/support" component={Support} />
+        <Route path="/dashboard/support/:id" component={() => <div data-testid="ticket-page" />} />
+      </MemoryRouter>
+    </MetaProvider>
+  ));
+  return { ...result, history };
+}
+
+const instances = {
+  instances: [
+    { instanceId: 'i-1', displayName: 'Foo Server', domain: 'foo.example.com', status: 'Running', tier: 'Pro', mediaEnabled: false, createdAt: '2026-01-01T00:00:00Z' },
+    { instanceId: 'i-2', displayName: 'Bar Server', domain: 'bar.example.com', status: 'Running', tier: 'Free', mediaEnabled: false, createdAt: '2026-01-01T00:00:00Z' },
+  ],
+};
+
+const ticket = {
+  id: '10',
+  subject: 'Voice drops',
+  status: 'Pending',
+  name: 'Alice',
+  email: '',
+  submitterUsername: 'alice',
+  instanceId: 'i-1',
+  instanceDomain: 'foo.example.com',
+  assigneeId: null,
+  assigneeName: null,
+  replyCount: 1,
+  createdAt: '2026-10-01T12:00:00Z',
+  updatedAt: '2026-10-02T12:00:00Z',
+};
+
+describe('Support (route)', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('lists the user\'s tickets with their status', async () => {
+    mockFetch({
+      'GET /api/v1/hub/tickets': () => ({ tickets: [ticket] }),
+      'GET /api/v1/hub/instances': () => instances,
+    });
+    const { findByTestId } = renderPage();
+
+    const row = await findByTestId('support-ticket-10');
+    expect(row).toHaveTextContent('Voice drops');
+    expect(row).toHaveTextContent('Pending');
+    expect(row).toHaveTextContent('foo.example.com');
+    expect(row).toHaveAttribute('href', '/dashboard/support/10');
+  });
+
+  it('shows an empty state when there are no tickets', async () => {
+    mockFetch({
+      'GET /api/v1/hub/tickets': () => ({ tickets: [] }),
+      'GET /api/v1/hub/instances': () => instances,
+    });
+    const { findByText } = renderPage();
+    expect(await findByText('No tickets yet.')).toBeInTheDocument();
+  });
+
+  it('asks for a server first when the user has none', async () => {
+    mockFetch({
+      'GET /api/v1/hub/tickets': () => ({ tickets: [] }),
+      'GET /api/v1/hub/instances': () => ({ instances: [] }),
+    });
+    const { findByText, queryByTestId } = renderPage();
+    expect(await findByText('Create a server')).toHaveAttribute('href', '/dashboard/create');
+    expect(queryByTestId('support-submit')).toBeNull();
+  });
+
+  it('preselects the server from the query string', async () => {
+    mockFetch({
+      'GET /api/v1/hub/tickets': () => ({ tickets: [] }),
+      'GET /api/v1/hub/instances': () => instances,
+    });
+    const { findByTestId } = renderPage('/dashboard/support?instance=i-2');
+    expect(await findByTestId('support-instance')).toHaveValue('i-2');
+  });
+
+  it('opens a ticket for the chosen server and goes to its thread', async () => {
+    const { calls } = mockFetch({
+      'GET /api/v1/hub/tickets': () => ({ tickets: [] }),
+      'GET /api/v1/hub/instances': () => instances,
+      'POST /api/v1/hub/tickets': () => ({
+        status: 201,
+        body: { ticket: { ...ticket, id: '11', status: 'Open' }, message: 'Help', company: '', expectedMemberCount: null, replies: [] },
+      }),
+    });
+    const { findByTestId, getByTestId, history } = renderPage();
+
+    fireEvent.change(await findByTestId('support-instance'), { target: { value: 'i-1' } });
+    fireEvent.input(getByTestId('support-subject'), { target: { value: ' Voice drops ' } });
+    fireEvent.input(getByTestId('support-message'), { target: { value: 'Help' } });
+    fireEvent.submit(getByTestId('support-submit').closest('form')!);
+
+    expect(await findByTestId('ticket-page')).toBeInTheDocument();
+    expect(history.get()).toBe('/dashboard/support/11');
+    expect(calls.find((c) => c.method === 'POST')?.body).toEqual({ instanceId: 'i-1', subject: 'Voice drops', message: 'Help' });
+  });
+
+  it('shows the server error when opening a ticket fails', async () => {
+    mockFetch({
+      'GET /api/v1/hub/tickets': () => ({ tickets: [] }),
+      'GET /api/v1/hub/instances': () => instances,
+      'POST /api/v1/hub/tickets': () => ({ status: 404, body: { detail: 'Instance not found' } }),
+    });
+    const { findByTestId, getByTestId, findByText } = renderPage('/dashboard/support?instance=i-1');
+
+    await findByTestId('support-instance');
+    fireEvent.input(getByTestId('support-subject'), { target: { value: 'Voice drops' } });
+    fireEvent.input(getByTestId('support-message'), { target: { value: 'Help' } });
+    fireEvent.submit(getByTestId('support-submit').closest('form')!);
+
+    expect(await findByText('Instance not found')).toBeInTheDocument();
+    await waitFor(() => expect(getByTestId('support-submit')).not.toBeDisabled());
+  });
+});
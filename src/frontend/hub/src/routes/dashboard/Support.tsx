@@ -0,0 +1,179 @@
+import { A, useNavigate, useSearchParams } from '@solidjs/router';
+import { createResource, createSignal, For, Show } from 'solid-js';
+import { api, errorMessage } from '../../api/client';
+import PageMeta from '../../components/PageMeta';
+
+async function fetchTickets() {
+  return api.get('/api/v1/hub/tickets');
+}
+
+async function fetchInstances() {
+  return api.get('/api/v1/hub/instances');
+}
+
+export function ticketStatusBadge(status: string): string {
+  const classes: Record<string, string> = {
+    Open: 'bg-xcord-brand/10 text-xcord-brand',
+    Pending: 'bg-yellow-500/10 text-yellow-400',
+    Closed: 'bg-xcord-bg-tertiary text-xcord-text-muted',
+  };
+  return classes[status] ?? 'bg-xcord-bg-tertiary text-xcord-text-muted';
+}
+
+export function formatTicketDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-xcord-bg-tertiary text-xcord-text-primary rounded border-none outline-none focus:ring-2 focus:ring-xcord-brand text-sm';
+
+export default function Support() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams<{ instance?: string }>();
+  const [tickets] = createResource(fetchTickets);
+  const [instances] = createResource(fetchInstances);
+
+  const [instanceId, setInstanceId] = createSignal(searchParams.instance ?? '');
+  const [subject, setSubject] = createSignal('');
+  const [message, setMessage] = createSignal('');
+  const [submitting, setSubmitting] = createSignal(false);
+  const [error, setError] = createSignal('');
+
+  const handleSubmit = async (e: SubmitEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      const created = await api.post('/api/v1/hub/tickets', {
+        body: { instanceId: instanceId(), subject: subject().trim(), message: message().trim() },
+      });
+      navigate(`/dashboard/support/${created.ticket.id}`);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to open the ticket'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <PageMeta
+        title="Support - Xcord"
+        description="Get help with your Xcord servers."
+        path="/dashboard/support"
+        noindex
+      />
+      <div class="p-8 max-w-3xl">
+        <h1 data-testid="support-heading" class="text-2xl font-bold text-xcord-text-primary mb-8">Support</h1>
+
+        <div class="bg-xcord-bg-secondary rounded-lg p-6 mb-8">
+          <h2 class="text-lg font-semibold text-xcord-text-primary mb-4">Open a ticket</h2>
+          <Show
+            when={(instances()?.instances.length ?? 0) > 0}
+            fallback={
+              <p class="text-sm text-xcord-text-muted">
+                <Show when={!instances.loading} fallback="Loading...">
+                  Tickets are opened for one of your servers. <A href="/dashboard/create" class="text-xcord-brand hover:underline">Create a server</A> first.
+                </Show>
+              </p>
+            }
+          >
+            <form onSubmit={handleSubmit} class="space-y-4">
+              <div>
+                <label class="block text-xs font-bold uppercase text-xcord-text-muted mb-2">Server</label>
+                <select
+                  data-testid="support-instance"
+                  required
+                  value={instanceId()}
+                  onChange={(e) => setInstanceId(e.currentTarget.value)}
+                  class={inputClass}
+                >
+                  <option value="" disabled>Choose a server</option>
+                  <For each={instances()!.instances}>
+                    {(instance) => <option value={instance.instanceId}>{instance.displayName} ({instance.domain})</option>}
+                  </For>
+                </select>
+              </div>
+              <div>
+                <label class="block text-xs font-bold uppercase text-xcord-text-muted mb-2">Subject</label>
+                <input
+                  data-testid="support-subject"
+                  type="text"
+                  required
+                  maxLength={200}
+                  value={subject()}
+                  onInput={(e) => setSubject(e.currentTarget.value)}
+                  class={inputClass}
+                />
+              </div>
+              <div>
+                <label class="block text-xs font-bold uppercase text-xcord-text-muted mb-2">Message</label>
+                <textarea
+                  data-testid="support-message"
+                  required
+                  rows={5}
+                  maxLength={2000}
+                  value={message()}
+                  onInput={(e) => setMessage(e.currentTarget.value)}
+                  placeholder="What's going on?"
+                  class={inputClass + ' resize-none'}
+                />
+              </div>
+              <Show when={error()}>
+                <p class="text-sm text-xcord-red">{error()}</p>
+              </Show>
+              <div class="flex justify-end">
+                <button
+                  data-testid="support-submit"
+                  type="submit"
+                  disabled={submitting()}
+                  class="px-4 py-2 bg-xcord-brand hover:bg-xcord-brand-hover disabled:opacity-50 text-white rounded text-sm font-medium transition"
+                >
+                  {submitting() ? 'Sending...' : 'Open Ticket'}
+                </button>
+              </div>
+            </form>
+          </Show>
+        </div>
+
+        <h2 class="text-lg font-semibold text-xcord-text-primary mb-4">Your tickets</h2>
+        <Show when={!tickets.loading} fallback={<p class="text-sm text-xcord-text-muted">Loading...</p>}>
+          <Show when={!tickets.error} fallback={<p class="text-sm text-xcord-red">{errorMessage(tickets.error, 'Failed to load tickets')}</p>}>
+            <Show
+              when={(tickets()?.tickets.length ?? 0) > 0}
+              fallback={<p class="text-sm text-xcord-text-muted">No tickets yet.</p>}
+            >
+              <div class="space-y-2">
+                <For each={tickets()!.tickets}>
+                  {(ticket) => (
+                    <A
+                      data-testid={`support-ticket-${ticket.id}`}
+                      href={`/dashboard/support/${ticket.id}`}
+                      class="block bg-xcord-bg-secondary rounded-lg p-4 hover:bg-xcord-bg-accent/50 transition"
+                    >
+                      <div class="flex items-center justify-between gap-3">
+                        <span class="text-sm font-medium text-xcord-text-primary truncate">{ticket.subject}</span>
+                        <span class={`px-2 py-0.5 rounded text-xs font-medium ${ticketStatusBadge(ticket.status)}`}>
+                          {ticket.status}
+                        </span>
+                      </div>
+                      <div class="flex justify-between text-xs text-xcord-text-muted mt-1">
+                        <span>{ticket.instanceDomain}</span>
+                        <span>Updated {formatTicketDate(ticket.updatedAt)}</span>
+                      </div>
+                    </A>
+                  )}
+                </For>
+              </div>
+            </Show>
+          </Show>
+        </Show>
+      </div>
+    </>
+  );
+}
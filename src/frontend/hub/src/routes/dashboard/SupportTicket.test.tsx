@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent } from '@solidjs/testing-library';
+import { MetaProvider } from '@solidjs/meta';
+import { MemoryRouter, Route, createMemoryHistory } from '@solidjs/router';
+import SupportTicket from './SupportTicket';
+import { mockFetch } from '../../tests/helpers/mockFetch';
+
+function renderPage(id = '10') {
+  const history = createMemoryHistory();
+  history.set({ value: `/dashboard/support/${id}` });
+  return render(() => (
+    <MetaProvider>
+      <MemoryRouter history={history}>
+        <Route path="/dashboard/support/:id" component={SupportTicket} />
+      </MemoryRouter>
+    </MetaProvider>
+  ));
+}
+
+function detail(status = 'Pending', replies = [
+  { id: '100', authorName: 'Bob', isStaff: true, body: 'Can you share a timestamp?', createdAt: '2026-10-02T12:00:00Z' },
+]) {
+  return {
+    ticket: {
+      id: '10',
+      subject: 'Voice drops',
+      status,
+      name: 'Alice',
+      email: '',
+      submitterUsername: 'alice',
+      instanceId: 'i-1',
+      instanceDomain: 'foo.example.com',
+      assigneeId: null,
+      assigneeName: null,
+      replyCount: replies.length,
+      createdAt: '2026-10-01T12:00:00Z',
+      updatedAt: '2026-10-02T12:00:00Z',
+    },
+    message: 'Voice drops every few minutes.',
+    company: '',
+    expectedMemberCount: null,
+    replies,
+  };
+}
+
+describe('SupportTicket (route)', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('shows the original message and the replies', async () => {
+    mockFetch({ 'GET /api/v1/hub/tickets/10': () => detail() });
+    const { findByTestId, getByText, getByTestId } = renderPage();
+
+    expect(await findByTestId('support-ticket-subject')).toHaveTextContent('Voice drops');
+    expect(getByTestId('support-ticket-status')).toHaveTextContent('Pending');
+    expect(getByText('Voice drops every few minutes.')).toBeInTheDocument();
+    expect(getByTestId('support-reply-100')).toHaveTextContent('Xcord team');
+    expect(getByText('foo.example.com')).toHaveAttribute('href', '/dashboard/instances/i-1');
+  });
+
+  it('sends a reply and shows the updated thread', async () => {
+    const { calls } = mockFetch({
+      'GET /api/v1/hub/tickets/10': () => detail('Closed'),
+      'POST /api/v1/hub/tickets/10/replies': () => ({
+        status: 201,
+        body: detail('Open', [
+          ...detail().replies,
+          { id: '101', authorName: 'Alice', isStaff: false, body: 'Around 14:05 UTC.', createdAt: '2026-10-03T12:00:00Z' },
+        ]),
+      }),
+    });
+    const { findByText, findByTestId, getByTestId } = renderPage();
+
+    expect(await findByText('Reply to reopen')).toBeInTheDocument();
+    fireEvent.input(getByTestId('support-reply-body'), { target: { value: ' Around 14:05 UTC. ' } });
+    fireEvent.submit(getByTestId('support-reply-send').closest('form')!);
+
+    expect(await findByTestId('support-reply-101')).toHaveTextContent('Around 14:05 UTC.');
+    expect(getByTestId('support-ticket-status')).toHaveTextContent('Open');
+    expect(getByTestId('support-reply-body')).toHaveValue('');
+    expect(calls.find((c) => c.method === 'POST')?.body).toEqual({ body: 'Around 14:05 UTC.' });
+  });
+
+  it('shows an error when the ticket cannot be loaded', async () => {
+    mockFetch({ 'GET /api/v1/hub/tickets/10': () => ({ status: 404, body: { detail: 'Ticket not found' } }) });
+    const { findByText } = renderPage();
+    expect(await findByText('Ticket not found')).toBeInTheDocument();
+  });
+});
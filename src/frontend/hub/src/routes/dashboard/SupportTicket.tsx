@@ -0,0 +1,136 @@
+import { A, useParams } from '@solidjs/router';
+import { createResource, createSignal, For, Show } from 'solid-js';
+import { api, errorMessage } from '../../api/client';
+import PageMeta from '../../components/PageMeta';
+import { formatTicketDate, ticketStatusBadge } from './Support';
+
+async function fetchTicket(ticketId: string) {
+  return api.get('/api/v1/hub/tickets/{ticketId}', { params: { ticketId } });
+}
+
+export default function SupportTicket() {
+  const params = useParams<{ id: string }>();
+  const [detail, { mutate }] = createResource(() => params.id, fetchTicket);
+
+  const [reply, setReply] = createSignal('');
+  const [sending, setSending] = createSignal(false);
+  const [error, setError] = createSignal('');
+
+  const handleReply = async (e: SubmitEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError('');
+    try {
+      mutate(await api.post('/api/v1/hub/tickets/{ticketId}/replies', {
+        params: { ticketId: params.id },
+        body: { body: reply().trim() },
+      }));
+      setReply('');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to send the reply'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <>
+      <PageMeta
+        title="Support Ticket - Xcord"
+        description="Follow a support conversation."
+        path={`/dashboard/support/${params.id}`}
+        noindex
+      />
+      <div class="p-8 max-w-3xl">
+        <A href="/dashboard/support" class="text-sm text-xcord-text-muted hover:text-xcord-text-primary transition">
+          &larr; All tickets
+        </A>
+
+        <Show when={!detail.error} fallback={<p class="text-sm text-xcord-red mt-6">{errorMessage(detail.error, 'Failed to load the ticket')}</p>}>
+          <Show when={detail()} fallback={<p class="text-sm text-xcord-text-muted mt-6">Loading...</p>}>
+            {(ticket) => (
+              <>
+                <div class="flex items-start justify-between gap-4 mt-4 mb-8">
+                  <div>
+                    <h1 data-testid="support-ticket-subject" class="text-2xl font-bold text-xcord-text-primary">
+                      {ticket().ticket.subject}
+                    </h1>
+                    <Show when={ticket().ticket.instanceId}>
+                      <A
+                        href={`/dashboard/instances/${ticket().ticket.instanceId}`}
+                        class="text-sm text-xcord-text-muted hover:text-xcord-brand transition"
+                      >
+                        {ticket().ticket.instanceDomain}
+                      </A>
+                    </Show>
+                  </div>
+                  <span
+                    data-testid="support-ticket-status"
+                    class={`px-2 py-0.5 rounded text-xs font-medium ${ticketStatusBadge(ticket().ticket.status)}`}
+                  >
+                    {ticket().ticket.status}
+                  </span>
+                </div>
+
+                <div class="space-y-3 mb-8">
+                  <div class="bg-xcord-bg-secondary rounded-lg p-5">
+                    <div class="flex justify-between text-xs text-xcord-text-muted mb-2">
+                      <span class="font-medium text-xcord-text-secondary">{ticket().ticket.name}</span>
+                      <span>{formatTicketDate(ticket().ticket.createdAt)}</span>
+                    </div>
+                    <p class="text-sm text-xcord-text-primary whitespace-pre-wrap">{ticket().message}</p>
+                  </div>
+                  <For each={ticket().replies}>
+                    {(message) => (
+                      <div
+                        data-testid={`support-reply-${message.id}`}
+                        class={`rounded-lg p-5 ${message.isStaff ? 'bg-xcord-brand/10 ml-8' : 'bg-xcord-bg-secondary'}`}
+                      >
+                        <div class="flex justify-between text-xs text-xcord-text-muted mb-2">
+                          <span class="font-medium text-xcord-text-secondary">
+                            {message.authorName}
+                            <Show when={message.isStaff}> &middot; Xcord team</Show>
+                          </span>
+                          <span>{formatTicketDate(message.createdAt)}</span>
+                        </div>
+                        <p class="text-sm text-xcord-text-primary whitespace-pre-wrap">{message.body}</p>
+                      </div>
+                    )}
+                  </For>
+                </div>
+
+                <form onSubmit={handleReply} class="bg-xcord-bg-secondary rounded-lg p-5 space-y-3">
+                  <label class="block text-xs font-bold uppercase text-xcord-text-muted mb-2">
+                    {ticket().ticket.status === 'Closed' ? 'Reply to reopen' : 'Reply'}
+                  </label>
+                  <textarea
+                    data-testid="support-reply-body"
+                    required
+                    rows={4}
+                    maxLength={2000}
+                    value={reply()}
+                    onInput={(e) => setReply(e.currentTarget.value)}
+                    class="w-full px-3 py-2 bg-xcord-bg-tertiary text-xcord-text-primary rounded border-none outline-none focus:ring-2 focus:ring-xcord-brand text-sm resize-none"
+                  />
+                  <Show when={error()}>
+                    <p class="text-sm text-xcord-red">{error()}</p>
+                  </Show>
+                  <div class="flex justify-end">
+                    <button
+                      data-testid="support-reply-send"
+                      type="submit"
+                      disabled={sending() || !reply().trim()}
+                      class="px-4 py-2 bg-xcord-brand hover:bg-xcord-brand-hover disabled:opacity-50 text-white rounded text-sm font-medium transition"
+                    >
+                      {sending() ? 'Sending...' : 'Send Reply'}
+                    </button>
+                  </div>
+                </form>
+              </>
+            )}
+          </Show>
+        </Show>
+      </div>
+    </>
+  );
+}
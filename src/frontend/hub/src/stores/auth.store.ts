@@ -1,7 +1,10 @@
 import { createSignal } from 'solid-js';
 import type { components } from '@generated/api-types';
+import { api, ApiError, errorMessage } from '../api/client';
 
 export type HubUser = components['schemas']['GetMeResponse'];
+export type TwoFactorSetup = components['schemas']['Enable2FAResponse'];
+type InstanceTier = components['schemas']['InstanceTier'];
 
 const [user, setUser] = createSignal<HubUser | null>(null);
 const [token, setToken] = createSignal<string | null>(null);
@@ -11,28 +14,17 @@ const [error, setError] = createSignal<string | null>(null);
 async function login(email: string, password: string): Promise<'success' | '2fa_required' | false> {
   setError(null);
   try {
-    const response = await fetch('/api/v1/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, password }),
-    });
-
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
-      if (data?.title === '2FA_REQUIRED') {
-        return '2fa_required';
-      }
-      setError(data?.detail || data?.message || 'Invalid email or password');
-      return false;
-    }
-
-    const data = await response.json();
+    const data = await api.post('/api/v1/auth/login', { body: { email, password } });
     setToken(data.accessToken);
-    setUser({ userId: String(data.userId), username: data.username, displayName: data.displayName, email: data.email });
+    // Accounts with two-factor enabled never get here; they log in with a code
+    setUser({ userId: data.userId, username: data.username, displayName: data.displayName, email: data.email, twoFactorEnabled: false });
     localStorage.setItem('xcord_hub_token', data.accessToken);
     return 'success';
-  } catch {
-    setError('Network error. Please try again.');
+  } catch (err) {
+    if (err instanceof ApiError && err.data?.title === '2FA_REQUIRED') {
+      return '2fa_required';
+    }
+    setError(errorMessage(err, 'Invalid email or password'));
     return false;
   }
 }
@@ -40,25 +32,13 @@ async function login(email: string, password: string): Promise<'success' | '2fa_
 async function loginWith2FA(email: string, password: string, code: string): Promise<boolean> {
   setError(null);
   try {
-    const response = await fetch('/api/v1/auth/2fa/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, password, code }),
-    });
-
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
-      setError(data?.detail || data?.message || 'Invalid verification code');
-      return false;
-    }
-
-    const data = await response.json();
+    const data = await api.post('/api/v1/auth/2fa/login', { body: { email, password, code } });
     setToken(data.accessToken);
-    setUser({ userId: String(data.userId), username: data.username, displayName: data.displayName, email: data.email });
+    setUser({ userId: data.userId, username: data.username, displayName: data.displayName, email: data.email, twoFactorEnabled: true });
     localStorage.setItem('xcord_hub_token', data.accessToken);
     return true;
-  } catch {
-    setError('Network error. Please try again.');
+  } catch (err) {
+    setError(errorMessage(err, 'Invalid verification code'));
     return false;
   }
 }
@@ -66,25 +46,15 @@ async function loginWith2FA(email: string, password: string, code: string): Prom
 async function signup(email: string, password: string, displayName: string, username: string, captchaId?: string, captchaAnswer?: string): Promise<boolean> {
   setError(null);
   try {
-    const response = await fetch('/api/v1/auth/register', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, password, displayName, username, captchaId, captchaAnswer }),
+    const data = await api.post('/api/v1/auth/register', {
+      body: { email, password, displayName, username, captchaId: captchaId ?? null, captchaAnswer: captchaAnswer ?? null },
     });
-
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
-      setError(data?.detail || data?.message || 'Failed to create account');
-      return false;
-    }
-
-    const data = await response.json();
     setToken(data.accessToken);
-    setUser({ userId: String(data.userId), username: data.username, displayName: data.displayName, email: data.email });
+    setUser({ userId: data.userId, username: data.username, displayName: data.displayName, email: data.email, twoFactorEnabled: false });
     localStorage.setItem('xcord_hub_token', data.accessToken);
     return true;
-  } catch {
-    setError('Network error. Please try again.');
+  } catch (err) {
+    setError(errorMessage(err, 'Failed to create account'));
     return false;
   }
 }
@@ -92,31 +62,24 @@ async function signup(email: string, password: string, displayName: string, user
 async function signupWithInstance(
   email: string, password: string, displayName: string, username: string,
   subdomain: string, instanceDisplayName: string,
-  tier: string = 'Free', mediaEnabled: boolean = false,
+  tier: InstanceTier = 'Free', mediaEnabled: boolean = false,
   captchaId?: string, captchaAnswer?: string,
   paymentMethodId?: string
 ): Promise<{ instanceId: string; domain: string } | false> {
   setError(null);
   try {
-    const response = await fetch('/api/v1/hub/register-with-instance', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, password, displayName, username, subdomain, instanceDisplayName, tier, mediaEnabled, captchaId, captchaAnswer, paymentMethodId }),
+    const data = await api.post('/api/v1/hub/register-with-instance', {
+      body: {
+        email, password, displayName, username, subdomain, instanceDisplayName, tier, mediaEnabled,
+        captchaId: captchaId ?? null, captchaAnswer: captchaAnswer ?? null, paymentMethodId: paymentMethodId ?? null,
+      },
     });
-
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
-      setError(data?.detail || data?.message || 'Failed to create account and server');
-      return false;
-    }
-
-    const data = await response.json();
     setToken(data.accessToken);
-    setUser({ userId: String(data.userId), username: data.username, displayName, email });
+    setUser({ userId: data.userId, username: data.username, displayName, email, twoFactorEnabled: false });
     localStorage.setItem('xcord_hub_token', data.accessToken);
     return { instanceId: data.instanceId, domain: data.domain };
-  } catch {
-    setError('Network error. Please try again.');
+  } catch (err) {
+    setError(errorMessage(err, 'Failed to create account and server'));
     return false;
   }
 }
@@ -137,19 +100,12 @@ async function restoreSession(): Promise<boolean> {
   }
 
   try {
-    const response = await fetch('/api/v1/auth/me', {
-      headers: { Authorization: `Bearer ${savedToken}` },
-    });
-
-    if (!response.ok) {
-      localStorage.removeItem('xcord_hub_token');
-      setIsLoading(false);
-      return false;
-    }
-
-    const data = await response.json();
+    const data = await api.get('/api/v1/auth/me');
     setToken(savedToken);
-    setUser({ userId: String(data.userId), username: data.username, displayName: data.displayName, email: data.email });
+    setUser({
+      userId: data.userId, username: data.username, displayName: data.displayName, email: data.email,
+      twoFactorEnabled: data.twoFactorEnabled,
+    });
     setIsLoading(false);
     return true;
   } catch {
@@ -162,45 +118,53 @@ async function restoreSession(): Promise<boolean> {
 async function changePassword(currentPassword: string, newPassword: string): Promise<boolean> {
   setError(null);
   try {
-    const response = await fetch('/api/v1/auth/change-password', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token()}`,
-      },
-      body: JSON.stringify({ currentPassword, newPassword }),
-    });
+    await api.post('/api/v1/auth/change-password', { body: { currentPassword, newPassword } });
+    return true;
+  } catch (err) {
+    setError(errorMessage(err, 'Failed to change password'));
+    return false;
+  }
+}
 
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
-      setError(data?.detail || data?.message || 'Failed to change password');
-      return false;
-    }
+// Generates a new secret; two-factor stays off until a code from it is confirmed
+async function startTwoFactorSetup(): Promise<TwoFactorSetup | null> {
+  setError(null);
+  try {
+    return await api.post('/api/v1/auth/2fa/enable');
+  } catch (err) {
+    setError(errorMessage(err, 'Failed to set up two-factor authentication'));
+    return null;
+  }
+}
 
+async function confirmTwoFactor(code: string): Promise<boolean> {
+  setError(null);
+  try {
+    await api.post('/api/v1/auth/2fa/verify', { body: { code } });
+    setUser((current) => (current ? { ...current, twoFactorEnabled: true } : current));
     return true;
-  } catch {
-    setError('Network error. Please try again.');
+  } catch (err) {
+    setError(errorMessage(err, 'Invalid verification code'));
     return false;
   }
 }
 
-async function deleteAccount(password: string): Promise<boolean> {
+async function disableTwoFactor(password: string): Promise<boolean> {
   setError(null);
   try {
-    const response = await fetch('/api/v1/users/@me', {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token()}`,
-      },
-      body: JSON.stringify({ password }),
-    });
+    await api.post('/api/v1/auth/2fa/disable', { body: { password } });
+    setUser((current) => (current ? { ...current, twoFactorEnabled: false } : current));
+    return true;
+  } catch (err) {
+    setError(errorMessage(err, 'Failed to turn off two-factor authentication'));
+    return false;
+  }
+}
 
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
-      setError(data?.detail || data?.message || 'Failed to delete account');
-      return false;
-    }
+async function deleteAccount(password: string): Promise<boolean> {
+  setError(null);
+  try {
+    await api.delete('/api/v1/users/@me', { body: { password } });
 
     // Clear local state after successful deletion
     setUser(null);
@@ -208,8 +172,8 @@ async function deleteAccount(password: string): Promise<boolean> {
     setError(null);
     localStorage.removeItem('xcord_hub_token');
     return true;
-  } catch {
-    setError('Network error. Please try again.');
+  } catch (err) {
+    setError(errorMessage(err, 'Failed to delete account'));
     return false;
   }
 }
@@ -227,6 +191,9 @@ export function useAuth() {
     logout,
     restoreSession,
     changePassword,
+    startTwoFactorSetup,
+    confirmTwoFactor,
+    disableTwoFactor,
     deleteAccount,
     clearError: () => setError(null),
     reset(): void {
@@ -1,5 +1,6 @@
 import { createSignal } from 'solid-js';
 import type { components } from '@generated/api-types';
+import { api } from '../api/client';
 
 export interface ConnectedInstance {
   url: string;
@@ -14,9 +15,20 @@ export interface DiscoverableInstance {
   url: string;
   iconUrl?: string;
   memberCount: number;
-  isPublic: boolean;
 }
 
+const DISCOVER_PAGE_SIZE = 20;
+
+// The discovery API publishes a bare domain; the popover connects by URL.
+const toDiscoverable = (preview: components['schemas']['InstancePreview']): DiscoverableInstance => ({
+  id: preview.id,
+  name: preview.name,
+  description: preview.description,
+  url: `https://${preview.domain}`,
+  iconUrl: preview.iconUrl || undefined,
+  memberCount: preview.memberCount,
+});
+
 const STORAGE_KEY = 'xcord_connected_instances';
 
 // Load from localStorage
@@ -71,9 +83,10 @@ export const instanceStore = {
 
   async searchInstances(query: string): Promise<DiscoverableInstance[]> {
     try {
-      const response = await fetch(`/api/v1/discover/instances?search=${encodeURIComponent(query)}`);
-      if (!response.ok) return [];
-      return await response.json();
+      const response = await api.get('/api/v1/discover/instances', {
+        query: { search: query, page: 1, pageSize: DISCOVER_PAGE_SIZE },
+      });
+      return response.instances.map(toDiscoverable);
     } catch {
       return [];
     }
@@ -81,32 +94,38 @@ export const instanceStore = {
 
   async listPublicInstances(): Promise<DiscoverableInstance[]> {
     try {
-      const response = await fetch('/api/v1/discover/instances');
-      if (!response.ok) return [];
-      return await response.json();
+      const response = await api.get('/api/v1/discover/instances', {
+        query: { page: 1, pageSize: DISCOVER_PAGE_SIZE },
+      });
+      return response.instances.map(toDiscoverable);
     } catch {
       return [];
     }
   },
 
-  async createInstance(subdomain: string, displayName: string, adminPassword: string, tier: string = 'Free', mediaEnabled: boolean = false, captchaId?: string, captchaAnswer?: string): Promise<components['schemas']['CreateInstanceResponse']> {
-    try {
-      const token = localStorage.getItem('xcord_hub_token');
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (token) headers['Authorization'] = `Bearer ${token}`;
-      const response = await fetch('/api/v1/hub/instances', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ subdomain, displayName, adminPassword, tier, mediaEnabled, captchaId, captchaAnswer }),
-      });
-      if (!response.ok) {
-        const err = await response.json().catch(() => ({ message: 'Failed to create instance' }));
-        throw new Error(err.detail || err.message || 'Failed to create instance');
-      }
-      return await response.json();
-    } catch (error) {
-      throw error;
-    }
+  async createInstance(subdomain: string, displayName: string, adminPassword: string, tier: components['schemas']['InstanceTier'] = 'Free', mediaEnabled: boolean = false, captchaId?: string, captchaAnswer?: string): Promise<components['schemas']['CreateInstanceResponse']> {
+    return api.post('/api/v1/hub/instances', {
+      body: {
+        subdomain, displayName, adminPassword, tier, mediaEnabled,
+        captchaId: captchaId ?? null, captchaAnswer: captchaAnswer ?? null,
+      },
+    });
+  },
+
+  async fetchProvisioningTimeline(instanceId: string): Promise<components['schemas']['ProvisioningTimelineResponse']> {
+    return api.get('/api/v1/hub/instances/{instanceId}/provisioning', { params: { instanceId } });
+  },
+
+  async fetchInstanceUptime(instanceId: string): Promise<components['schemas']['GetInstanceUptimeResponse']> {
+    return api.get('/api/v1/hub/instances/{instanceId}/uptime', { params: { instanceId } });
+  },
+
+  async fetchMinimumVersion(instanceId: string): Promise<components['schemas']['InstanceMinimumVersionResponse']> {
+    return api.get('/api/v1/hub/instances/{instanceId}/minimum-version', { params: { instanceId } });
+  },
+
+  async upgradeInstance(instanceId: string, targetImage: string): Promise<components['schemas']['UpgradeInstanceResponse']> {
+    return api.post('/api/v1/hub/instances/{instanceId}/upgrade', { params: { instanceId }, body: { targetImage } });
   },
 
   reset(): void {